@@ -18,6 +18,7 @@ import IndexScreen from './src/pages/Index';
 import { OnboardingProvider } from './src/components/onboarding/OnboardingProvider';
 import { ThemeProvider } from './src/hooks/useTheme';
 import { AuthProvider } from './src/hooks/useAuth';
+import { SyncProvider } from './src/hooks/useSync';
 import ErrorBoundary from './src/components/ErrorBoundary';
 
 const Stack = createStackNavigator();
@@ -99,13 +100,15 @@ export default function App() {
       <ErrorBoundary>
         <ThemeProvider defaultTheme="default">
           <AuthProvider>
-            <OnboardingProvider>
-              <NavigationContainer>
-                <AppNavigator />
-                <StatusBar style="auto" />
-                <Toast />
-              </NavigationContainer>
-            </OnboardingProvider>
+            <SyncProvider>
+              <OnboardingProvider>
+                <NavigationContainer>
+                  <AppNavigator />
+                  <StatusBar style="auto" />
+                  <Toast />
+                </NavigationContainer>
+              </OnboardingProvider>
+            </SyncProvider>
           </AuthProvider>
         </ThemeProvider>
       </ErrorBoundary>
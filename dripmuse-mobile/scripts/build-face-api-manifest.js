@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+/**
+ * Records the size and SHA-256 of the face-api.js weights in
+ * public/models/face-api into src/data/faceApiModelManifest.ts.
+ *
+ * Each model's tfjs weights manifest is read to find its shards, so the
+ * checksums cover exactly the files the app will download. The weights are
+ * taken from the model/ folder of the @vladmandic/face-api npm package, since
+ * face-api.js itself doesn't publish them.
+ *
+ * Usage: npm run models:manifest
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const root = path.resolve(__dirname, '..');
+const modelDirectory = path.join(root, 'public', 'models', 'face-api');
+const manifestFile = path.join(root, 'src', 'data', 'faceApiModelManifest.ts');
+
+const describeFile = (name) => {
+  const contents = fs.readFileSync(path.join(modelDirectory, name));
+  return {
+    path: name,
+    bytes: contents.length,
+    sha256: crypto.createHash('sha256').update(contents).digest('hex'),
+  };
+};
+
+if (!fs.existsSync(modelDirectory)) {
+  console.error(`No model directory at ${path.relative(root, modelDirectory)}; copy the face-api.js weights there first.`);
+  process.exit(1);
+}
+
+const source = fs.readFileSync(manifestFile, 'utf8');
+let missing = 0;
+
+const updated = source.replace(
+  /(weightsManifest: '([^']+)',\s*files: )\[[^\]]*\]/g,
+  (match, prefix, weightsManifest) => {
+    if (!fs.existsSync(path.join(modelDirectory, weightsManifest))) {
+      console.warn(`Skipping ${weightsManifest}: not found`);
+      missing++;
+      return `${prefix}[]`;
+    }
+
+    const groups = JSON.parse(fs.readFileSync(path.join(modelDirectory, weightsManifest), 'utf8'));
+    const shards = groups.flatMap((group) => group.paths);
+    const files = [weightsManifest, ...shards].map(describeFile);
+    console.log(`${weightsManifest}: ${files.length} files`);
+
+    const entries = files
+      .map((file) => `        { path: '${file.path}', bytes: ${file.bytes}, sha256: '${file.sha256}' },`)
+      .join('\n');
+    return `${prefix}[\n${entries}\n      ]`;
+  },
+);
+
+fs.writeFileSync(manifestFile, updated);
+console.log(`Wrote ${path.relative(root, manifestFile)}${missing ? ` (${missing} model(s) missing)` : ''}`);
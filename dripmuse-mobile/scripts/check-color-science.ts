@@ -0,0 +1,130 @@
+/**
+ * Reference values for the colour science module.
+ *
+ * CIEDE2000 pairs are from Sharma, Wu & Dalal's published test data; the
+ * sRGB conversions match Bruce Lindbloom's calculator and Björn Ottosson's
+ * OKLab reference implementation. Run after changing the maths; the script
+ * lists any value that drifts and exits non-zero. It lives outside src so the
+ * reference data never reaches the app bundle.
+ *
+ * Usage: npm run check:color-science
+ */
+
+import {
+  deltaE2000,
+  hexToRgb,
+  labToRgb,
+  parseHex,
+  rgbToHex,
+  rgbToHsl,
+  rgbToLab,
+  rgbToOklab,
+  type Lab,
+} from '../src/lib/colorScience';
+import { nearestColorName, resolveColorHex, resolveColorName } from '../src/lib/colorNames';
+
+interface ColorScienceCheck {
+  name: string;
+  expected: number | string;
+  actual: number | string;
+  passed: boolean;
+}
+
+const DELTA_E_2000_PAIRS: Array<[Lab, Lab, number]> = [
+  [{ l: 50, a: 2.6772, b: -79.7751 }, { l: 50, a: 0, b: -82.7485 }, 2.0425],
+  [{ l: 50, a: 3.1571, b: -77.2803 }, { l: 50, a: 0, b: -82.7485 }, 2.8615],
+  [{ l: 50, a: 2.8361, b: -74.02 }, { l: 50, a: 0, b: -82.7485 }, 3.4412],
+  [{ l: 50, a: 0, b: 0 }, { l: 50, a: -1, b: 2 }, 2.3669],
+  [{ l: 50, a: 2.49, b: -0.001 }, { l: 50, a: -2.49, b: 0.0009 }, 7.1792],
+  [{ l: 50, a: 2.5, b: 0 }, { l: 73, a: 25, b: -18 }, 27.1492],
+  [{ l: 50, a: 2.5, b: 0 }, { l: 61, a: -5, b: 29 }, 22.8977],
+  [{ l: 50, a: 2.5, b: 0 }, { l: 56, a: -27, b: -3 }, 31.903],
+  [{ l: 60.2574, a: -34.0099, b: 36.2677 }, { l: 60.4626, a: -34.1751, b: 39.4387 }, 1.2644],
+  [{ l: 2.0776, a: 0.0795, b: -1.135 }, { l: 0.9033, a: -0.0636, b: -0.5514 }, 0.9082],
+];
+
+const SRGB_TO_LAB: Array<[string, Lab]> = [
+  ['#FFFFFF', { l: 100, a: 0, b: 0 }],
+  ['#FF0000', { l: 53.2408, a: 80.0925, b: 67.2032 }],
+  ['#00FF00', { l: 87.7347, a: -86.1827, b: 83.1793 }],
+  ['#0000FF', { l: 32.297, a: 79.1875, b: -107.8602 }],
+  ['#808080', { l: 53.585, a: 0, b: 0 }],
+];
+
+const SRGB_TO_OKLAB: Array<[string, Lab]> = [
+  ['#FFFFFF', { l: 1, a: 0, b: 0 }],
+  ['#FF0000', { l: 0.62796, a: 0.22486, b: 0.12585 }],
+  ['#00FF00', { l: 0.86644, a: -0.23389, b: 0.1795 }],
+  ['#0000FF', { l: 0.45201, a: -0.03246, b: -0.31153 }],
+];
+
+const round = (value: number, places: number) => Number(value.toFixed(places));
+
+const numberCheck = (name: string, expected: number, actual: number, tolerance: number): ColorScienceCheck => ({
+  name,
+  expected,
+  actual: round(actual, 4),
+  passed: Math.abs(expected - actual) <= tolerance,
+});
+
+const textCheck = (name: string, expected: string, actual: string | null): ColorScienceCheck => ({
+  name,
+  expected,
+  actual: actual ?? 'null',
+  passed: expected === actual,
+});
+
+function runColorScienceChecks(): ColorScienceCheck[] {
+  const checks: ColorScienceCheck[] = [];
+
+  DELTA_E_2000_PAIRS.forEach(([lab1, lab2, expected], index) => {
+    checks.push(numberCheck(`ΔE2000 pair ${index + 1}`, expected, deltaE2000(lab1, lab2), 0.0001));
+    // CIEDE2000 is symmetric
+    checks.push(numberCheck(`ΔE2000 pair ${index + 1} reversed`, expected, deltaE2000(lab2, lab1), 0.0001));
+  });
+
+  SRGB_TO_LAB.forEach(([hex, expected]) => {
+    const { r, g, b } = hexToRgb(hex);
+    const lab = rgbToLab(r, g, b);
+    checks.push(numberCheck(`${hex} L*`, expected.l, lab.l, 0.01));
+    checks.push(numberCheck(`${hex} a*`, expected.a, lab.a, 0.01));
+    checks.push(numberCheck(`${hex} b*`, expected.b, lab.b, 0.01));
+
+    const back = labToRgb(lab.l, lab.a, lab.b);
+    checks.push(textCheck(`${hex} Lab round trip`, hex, rgbToHex(back.r, back.g, back.b)));
+  });
+
+  SRGB_TO_OKLAB.forEach(([hex, expected]) => {
+    const { r, g, b } = hexToRgb(hex);
+    const oklab = rgbToOklab(r, g, b);
+    checks.push(numberCheck(`${hex} OKLab L`, expected.l, oklab.l, 0.0001));
+    checks.push(numberCheck(`${hex} OKLab a`, expected.a, oklab.a, 0.0001));
+    checks.push(numberCheck(`${hex} OKLab b`, expected.b, oklab.b, 0.0001));
+  });
+
+  const orange = rgbToHsl(255, 165, 0);
+  checks.push(numberCheck('orange hue', 38.8235, orange.h, 0.0001));
+  checks.push(numberCheck('orange saturation', 1, orange.s, 0.0001));
+  checks.push(numberCheck('orange lightness', 0.5, orange.l, 0.0001));
+
+  const short = parseHex('#abc');
+  checks.push(textCheck('short hex', '#AABBCC', short && rgbToHex(short.r, short.g, short.b)));
+  checks.push(textCheck('named colour', '#000080', resolveColorHex('Navy')));
+  checks.push(textCheck('multi-word name', '#000080', resolveColorHex('navy blue')));
+  checks.push(textCheck('qualified name', '#4169E1', resolveColorHex('Royal Blue')));
+  checks.push(textCheck('typo', 'burgundy', resolveColorName('burgandy')?.name ?? null));
+  checks.push(textCheck('extra words', 'dusty rose', resolveColorName('Dusty-Rose Colour')?.name ?? null));
+  checks.push(textCheck('nearest name', 'navy', nearestColorName('#010182').name));
+  checks.push(textCheck('unknown name', 'null', resolveColorHex('not a colour') ?? 'null'));
+
+  return checks;
+}
+
+const checks = runColorScienceChecks();
+const failed = checks.filter(check => !check.passed);
+
+for (const check of failed) {
+  console.error(`✗ ${check.name}: expected ${check.expected}, got ${check.actual}`);
+}
+console.log(`${checks.length - failed.length} / ${checks.length} passed`);
+process.exit(failed.length > 0 ? 1 : 0);
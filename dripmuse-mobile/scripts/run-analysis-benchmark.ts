@@ -0,0 +1,198 @@
+/**
+ * Runs a labelled fixture folder through the image analyzers from Node and
+ * writes the JSON report, the same one the in-app benchmark downloads (see
+ * src/lib/analysisBenchmark.ts for the labels.json format).
+ *
+ * The analyzers are written against the browser's canvas, so the handful of
+ * browser APIs they touch are provided on top of @napi-rs/canvas, and the
+ * face-api weights are served from public/ as the web server would.
+ *
+ * Usage: npm run benchmark -- <fixture-folder> [--out report.json]
+ *          [--baseline previous-report.json] [--keep-filenames]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { resolveObjectURL } from 'buffer';
+import { Canvas, createCanvas, Image, ImageData } from '@napi-rs/canvas';
+import * as faceapi from 'face-api.js';
+import type { BenchmarkComparison, BenchmarkReport } from '../src/lib/analysisBenchmark';
+
+const root = path.resolve(__dirname, '..');
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+class NodeImage extends Image {
+  crossOrigin: string | null = null;
+  blobUrl?: string;
+}
+
+// Canvas images take buffers, paths and data URLs; the analyzers hand them
+// object URLs made from each fixture File
+const nativeSrc = Object.getOwnPropertyDescriptor(Image.prototype, 'src')!;
+Object.defineProperty(NodeImage.prototype, 'src', {
+  get(this: NodeImage) {
+    return this.blobUrl ?? nativeSrc.get!.call(this);
+  },
+  set(this: NodeImage, value: unknown) {
+    if (typeof value !== 'string' || !value.startsWith('blob:')) {
+      this.blobUrl = undefined;
+      nativeSrc.set!.call(this, value);
+      return;
+    }
+
+    this.blobUrl = value;
+    const blob = resolveObjectURL(value);
+    if (!blob) {
+      setTimeout(() => this.onerror?.(new Error(`${value} has been revoked`)));
+      return;
+    }
+    blob.arrayBuffer().then(
+      buffer => nativeSrc.set!.call(this, Buffer.from(buffer)),
+      error => this.onerror?.(error),
+    );
+  },
+});
+
+function installBrowserEnvironment() {
+  const browser = globalThis as any;
+  browser.Image = NodeImage;
+  browser.ImageData = ImageData;
+  browser.document = {
+    createElement: (tag: string) => {
+      if (tag === 'canvas') return createCanvas(300, 150);
+      throw new Error(`<${tag}> is not available outside the browser`);
+    },
+  };
+
+  const networkFetch = globalThis.fetch;
+  browser.fetch = async (input: any, init?: RequestInit) => {
+    if (typeof input === 'string' && input.startsWith('/')) {
+      const file = path.join(root, 'public', input);
+      if (!fs.existsSync(file)) return new Response(null, { status: 404 });
+      return new Response(fs.readFileSync(file));
+    }
+    return networkFetch(input, init);
+  };
+
+  // expo-crypto needs the React Native runtime; the analyzers only use it for random bytes
+  require.cache[require.resolve('expo-crypto')] = {
+    exports: { getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)) },
+    loaded: true,
+  } as NodeJS.Module;
+
+  faceapi.env.monkeyPatch({
+    Canvas: Canvas as any,
+    Image: NodeImage as any,
+    ImageData: ImageData as any,
+    createCanvasElement: () => createCanvas(1, 1) as any,
+    createImageElement: () => new NodeImage() as any,
+  });
+}
+
+function parseArguments(args: string[]) {
+  const options = { folder: '', out: '', baseline: '', keepFilenames: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--out') options.out = args[++i] ?? '';
+    else if (arg === '--baseline') options.baseline = args[++i] ?? '';
+    else if (arg === '--keep-filenames') options.keepFilenames = true;
+    else if (!arg.startsWith('--') && !options.folder) options.folder = arg;
+    else throw new Error(`Unexpected argument ${arg}`);
+  }
+  if (!options.folder) {
+    throw new Error('Usage: npm run benchmark -- <fixture-folder> [--out report.json] [--baseline previous-report.json] [--keep-filenames]');
+  }
+  return options;
+}
+
+const formatPercent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+const formatNumber = (value: number | null) => (value === null ? '–' : value.toFixed(2));
+
+function printSummary(report: BenchmarkReport) {
+  console.log(`${report.name}: ${report.fixtureCount} fixtures in ${(report.durationMs / 1000).toFixed(1)}s (${report.classifier})`);
+  (['category', 'pattern', 'undertone', 'season'] as const).forEach(task => {
+    const metrics = report.metrics[task];
+    if (metrics.total === 0) return;
+    console.log(`  ${task}: accuracy ${formatPercent(metrics.accuracy)}, macro F1 ${formatNumber(metrics.macroF1)} (${metrics.total})`);
+  });
+  (['garment', 'skin', 'hair', 'eyes'] as const).forEach(region => {
+    const stats = report.metrics.deltaE[region];
+    if (stats.count === 0) return;
+    console.log(`  ΔE ${region}: mean ${formatNumber(stats.mean)}, p90 ${formatNumber(stats.p90)} (${stats.count})`);
+  });
+  report.failures.forEach(failure => console.log(`  ✗ ${failure.file}: ${failure.error}`));
+}
+
+function printComparison(baseline: BenchmarkReport, comparison: BenchmarkComparison) {
+  const changed = comparison.metrics.filter(change => change.improved !== null);
+  const unchanged = changed.length === 0 && comparison.changedFixtures.length === 0
+    && comparison.addedFixtures.length === 0 && comparison.removedFixtures.length === 0;
+  console.log(`Compared with ${baseline.name} from ${baseline.createdAt}:${unchanged ? ' no changes' : ''}`);
+  changed.forEach(change => {
+    console.log(`  ${change.improved ? '▲' : '▼'} ${change.metric}: ${formatNumber(change.before)} → ${formatNumber(change.after)}`);
+  });
+  comparison.changedFixtures.forEach(change => {
+    console.log(`  ${change.file} ${change.field}: ${change.before} → ${change.after} (labelled ${change.expected})`);
+  });
+  comparison.addedFixtures.forEach(file => console.log(`  + ${file}`));
+  comparison.removedFixtures.forEach(file => console.log(`  - ${file}`));
+}
+
+async function main() {
+  const options = parseArguments(process.argv.slice(2));
+  const folder = path.resolve(options.folder);
+  const labelsFile = path.join(folder, 'labels.json');
+  if (!fs.existsSync(labelsFile)) throw new Error(`${folder} needs a labels.json describing each image`);
+
+  // The analyzers are only loaded once the environment they expect is in place
+  installBrowserEnvironment();
+  const {
+    compareBenchmarkReports,
+    parseBenchmarkManifest,
+    parseBenchmarkReport,
+    runAnalysisBenchmark,
+  } = await import('../src/lib/analysisBenchmark');
+
+  const manifest = parseBenchmarkManifest(JSON.parse(fs.readFileSync(labelsFile, 'utf8')));
+  // Read before the run so a bad baseline fails fast
+  const baseline = options.baseline
+    ? parseBenchmarkReport(JSON.parse(fs.readFileSync(options.baseline, 'utf8')))
+    : null;
+
+  const report = await runAnalysisBenchmark(
+    manifest,
+    async name => {
+      const file = path.join(folder, name);
+      if (!fs.existsSync(file)) throw new Error(`${name} is listed in labels.json but not in the folder`);
+      const type = IMAGE_TYPES[path.extname(name).toLowerCase()] ?? '';
+      return new File([fs.readFileSync(file)], path.basename(name), { type });
+    },
+    {
+      keepFilenames: options.keepFilenames,
+      onProgress: (done, total, file) => {
+        if (file) console.log(`[${done + 1}/${total}] ${file}`);
+      },
+    },
+  );
+
+  const out = options.out
+    || `benchmark-${report.name}-${report.createdAt.slice(0, 19).replace(/[:T]/g, '-')}.json`;
+  fs.writeFileSync(out, `${JSON.stringify(report, null, 2)}\n`);
+
+  printSummary(report);
+  if (baseline) printComparison(baseline, compareBenchmarkReports(baseline, report));
+  console.log(`Wrote ${out}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
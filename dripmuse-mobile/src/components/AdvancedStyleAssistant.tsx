@@ -42,7 +42,8 @@ import { useProfile } from "@/hooks/useProfile";
 import { useWeather } from "@/hooks/useWeather";
 import { usePerformance } from "@/hooks/usePerformance";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
+import type { PlannedOutfitRecord, PlannedOutfitStatus } from "@/services/repositories";
 import {
   simpleStyleAI,
   OutfitRecommendation,
@@ -54,28 +55,64 @@ import { advancedColorTheory } from "@/lib/advancedColorTheory";
 import { PerformanceCache, CACHE_NAMESPACES } from "@/lib/performanceCache";
 import { OptimizedImage } from "./OptimizedImage";
 import { getErrorMessage, logError } from "@/lib/errorUtils";
+import { toWearDate } from "@/lib/wearAnalytics";
 import AdvancedVirtualTryOn from "./AdvancedVirtualTryOn";
 
-// Enhanced interface for planned outfits with color theory insights
+// Enhanced interface for planned outfits with color theory insights. Plans
+// made in the Outfit Planner share the same store but lack the insights.
 interface EnhancedPlannedOutfit {
   id: string;
   date: Date;
   occasion: string;
-  timeOfDay: "morning" | "afternoon" | "evening" | "night";
+  timeOfDay?: "morning" | "afternoon" | "evening" | "night";
   items: WardrobeItem[];
-  weather?: WeatherData;
+  weather?: string;
   notes?: string;
-  confidence: number;
+  status: PlannedOutfitStatus;
+  // Items deleted from the wardrobe since the outfit was planned
+  missingItemIds?: string[];
+  confidence?: number;
   reasoning: string[];
-  colorHarmony: {
+  colorHarmony?: {
     type: string;
     confidence: number;
     description: string;
   };
-  styleScore: number;
-  seasonalAppropriate: boolean;
+  styleScore?: number;
+  seasonalAppropriate?: boolean;
 }
 
+const fromPlannedOutfitRecord = (
+  record: PlannedOutfitRecord,
+  wardrobe: WardrobeItem[],
+): EnhancedPlannedOutfit => {
+  const details = record.details || {};
+  const items = record.item_ids
+    .map((itemId) => wardrobe.find((item) => item.id === itemId))
+    .filter((item): item is WardrobeItem => !!item);
+  const missingItemIds = [
+    ...(record.missing_item_ids || []),
+    ...record.item_ids.filter((itemId) => !items.some((item) => item.id === itemId)),
+  ];
+
+  return {
+    id: record.id,
+    date: new Date(`${record.date}T00:00:00`),
+    occasion: record.occasion || "casual",
+    timeOfDay: details.time_of_day,
+    items,
+    weather: details.weather,
+    notes: record.notes,
+    status: record.status,
+    missingItemIds: missingItemIds.length > 0 ? missingItemIds : undefined,
+    confidence: details.confidence,
+    reasoning: details.reasoning || [],
+    colorHarmony: details.color_harmony,
+    styleScore: details.style_score,
+    seasonalAppropriate: details.seasonal_appropriate,
+  };
+};
+
 // Advanced occasion types with formality and context
 const ADVANCED_OCCASIONS = {
   work: {
@@ -212,16 +249,9 @@ const AdvancedStyleAssistant: React.FC = () => {
         return;
       }
 
-      const { data: items, error: fetchError } = await supabase
-        .from("wardrobe_items")
-        .select("*")
-        .eq("user_id", user.id);
+      const items = await getRepositories().wardrobe.list(user.id);
 
-      if (fetchError) {
-        throw new Error(getErrorMessage(fetchError));
-      }
-
-      const enhancedItems: WardrobeItem[] = (items || [])
+      const enhancedItems: WardrobeItem[] = items
         .filter(item => item && item.id && item.name && item.category)
         .map((item) => ({
           id: item.id,
@@ -313,7 +343,7 @@ const AdvancedStyleAssistant: React.FC = () => {
       const context = {
         occasion: selectedOccasion,
         timeOfDay: selectedTimeOfDay,
-        weather: weatherConsideration ? weather : undefined,
+        weather: weatherConsideration ? weather ?? undefined : undefined,
       };
 
       // Generate recommendations with caching
@@ -354,21 +384,35 @@ const AdvancedStyleAssistant: React.FC = () => {
     executeWithCache,
   ]);
 
+  // Upcoming plans from both planners, matched to the loaded wardrobe
+  const loadPlannedOutfits = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const records = await getRepositories().plannedOutfits.list(user.id, {
+        from: toWearDate(new Date()),
+      });
+      setPlannedOutfits(records.map((record) => fromPlannedOutfitRecord(record, wardrobeItems)));
+    } catch (error) {
+      logError(error, "Error loading planned outfits");
+    }
+  }, [user, wardrobeItems]);
+
   // Plan outfit for specific date
   const planOutfitForDate = useCallback(async () => {
-    if (!selectedDate || recommendations.length === 0) return;
+    if (!user || !selectedDate || recommendations.length === 0) return;
 
     try {
       const bestRecommendation = recommendations[0]; // Highest confidence recommendation
       
-      const plannedOutfit: EnhancedPlannedOutfit = {
-        id: `planned_${Date.now()}`,
+      const plannedOutfit: Omit<EnhancedPlannedOutfit, "id"> = {
         date: selectedDate,
         occasion: selectedOccasion,
         timeOfDay: selectedTimeOfDay as any,
         items: bestRecommendation.items,
-        weather: weather || undefined,
-        notes: planningNotes,
+        weather: weather?.condition,
+        notes: planningNotes.trim() || undefined,
+        status: "planned",
         confidence: bestRecommendation.confidence,
         reasoning: bestRecommendation.reasoning,
         colorHarmony: await analyzeColorHarmony(bestRecommendation.items),
@@ -376,7 +420,24 @@ const AdvancedStyleAssistant: React.FC = () => {
         seasonalAppropriate: isSeasonallyAppropriate(bestRecommendation.items),
       };
 
-      setPlannedOutfits(prev => [...prev, plannedOutfit]);
+      const record = await getRepositories().plannedOutfits.create(user.id, {
+        date: toWearDate(plannedOutfit.date),
+        occasion: plannedOutfit.occasion,
+        notes: plannedOutfit.notes,
+        status: plannedOutfit.status,
+        item_ids: plannedOutfit.items.map((item) => item.id),
+        details: {
+          time_of_day: plannedOutfit.timeOfDay,
+          weather: plannedOutfit.weather,
+          confidence: plannedOutfit.confidence,
+          reasoning: plannedOutfit.reasoning,
+          color_harmony: plannedOutfit.colorHarmony,
+          style_score: plannedOutfit.styleScore,
+          seasonal_appropriate: plannedOutfit.seasonalAppropriate,
+        },
+      });
+
+      setPlannedOutfits(prev => [...prev, { ...plannedOutfit, id: record.id }]);
       setPlanningNotes("");
       
       toast({
@@ -385,14 +446,14 @@ const AdvancedStyleAssistant: React.FC = () => {
       });
 
     } catch (error) {
-      console.error("Error planning outfit:", error);
+      logError(error, "Error planning outfit");
       toast({
         title: "Planning Failed",
-        description: "Failed to plan outfit. Please try again.",
+        description: `Failed to plan outfit: ${getErrorMessage(error)}`,
         variant: "destructive",
       });
     }
-  }, [selectedDate, recommendations, selectedOccasion, selectedTimeOfDay, planningNotes, weather, toast]);
+  }, [user, selectedDate, recommendations, selectedOccasion, selectedTimeOfDay, planningNotes, weather, toast]);
 
   // Helper functions for advanced logic
   const isWeatherAppropriate = (item: WardrobeItem, weather: WeatherData): boolean => {
@@ -512,6 +573,13 @@ const AdvancedStyleAssistant: React.FC = () => {
     }
   }, [user, profile, loadWardrobeItems]);
 
+  // Plans are matched to wardrobe items, so they wait for the wardrobe
+  useEffect(() => {
+    if (!loading) {
+      loadPlannedOutfits();
+    }
+  }, [loading, loadPlannedOutfits]);
+
   // Generate recommendations when preferences change
   const debouncedGenerateRef = useRef<ReturnType<typeof debounce> | null>(null);
 
@@ -689,6 +757,9 @@ const AdvancedStyleAssistant: React.FC = () => {
                   <p className="text-sm text-blue-700 dark:text-blue-200">
                     {weather.description} • {Math.round(weather.temperature)}°C
                   </p>
+                  <p className="text-xs text-blue-600 dark:text-blue-300">
+                    {getWeatherStatus?.()}
+                  </p>
                 </div>
               </div>
               <Badge variant="secondary" className="bg-blue-100 text-blue-800">
@@ -919,12 +990,16 @@ const AdvancedStyleAssistant: React.FC = () => {
                                 {planned.date.toDateString()}
                               </p>
                               <p className="text-sm text-muted-foreground">
-                                {ADVANCED_OCCASIONS[planned.occasion as keyof typeof ADVANCED_OCCASIONS]?.label} • {planned.timeOfDay}
+                                {ADVANCED_OCCASIONS[planned.occasion as keyof typeof ADVANCED_OCCASIONS]?.label ?? planned.occasion}
+                                {planned.timeOfDay && ` • ${planned.timeOfDay}`}
+                                {planned.status !== "planned" && ` • ${planned.status}`}
                               </p>
                             </div>
-                            <Badge variant="outline" className="text-xs">
-                              {Math.round(planned.confidence * 100)}% confidence
-                            </Badge>
+                            {planned.confidence !== undefined && (
+                              <Badge variant="outline" className="text-xs">
+                                {Math.round(planned.confidence * 100)}% confidence
+                              </Badge>
+                            )}
                           </div>
                           
                           {planned.colorHarmony && (
@@ -948,6 +1023,14 @@ const AdvancedStyleAssistant: React.FC = () => {
                             ))}
                           </div>
                           
+                          {planned.missingItemIds && (
+                            <p className="text-xs text-amber-700">
+                              ⚠ {planned.missingItemIds.length} item
+                              {planned.missingItemIds.length === 1 ? " has" : "s have"} been
+                              removed from your wardrobe
+                            </p>
+                          )}
+
                           {planned.notes && (
                             <p className="text-xs text-muted-foreground italic">
                               "{planned.notes}"
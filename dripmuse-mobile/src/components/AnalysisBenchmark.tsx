@@ -0,0 +1,306 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ArrowDown, ArrowUp, Download, FlaskConical, FolderOpen, Loader2 } from 'lucide-react';
+import {
+  BenchmarkReportError,
+  compareBenchmarkReports,
+  parseBenchmarkManifest,
+  parseBenchmarkReport,
+  runAnalysisBenchmark,
+  type BenchmarkComparison,
+  type BenchmarkReport,
+  type ClassificationMetrics,
+  type DeltaEStats,
+} from '@/lib/analysisBenchmark';
+
+const formatPercent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+const formatNumber = (value: number | null) => (value === null ? '–' : value.toFixed(2));
+
+const ClassificationTable = ({ title, metrics }: { title: string; metrics: ClassificationMetrics }) => {
+  if (metrics.total === 0) return null;
+  const predicted = Array.from(
+    new Set(Object.values(metrics.confusion).flatMap(row => Object.keys(row))),
+  ).sort();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h4 className="font-semibold">{title}</h4>
+        <Badge variant="outline">Accuracy {formatPercent(metrics.accuracy)}</Badge>
+        <Badge variant="outline">Macro F1 {formatNumber(metrics.macroF1)}</Badge>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="py-1">Class</th>
+            <th>Precision</th>
+            <th>Recall</th>
+            <th>F1</th>
+            <th>Support</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Object.entries(metrics.classes).map(([name, stats]) => (
+            <tr key={name} className="border-t">
+              <td className="py-1 capitalize">{name}</td>
+              <td>{formatPercent(stats.precision)}</td>
+              <td>{formatPercent(stats.recall)}</td>
+              <td>{formatNumber(stats.f1)}</td>
+              <td>{stats.support}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="overflow-x-auto">
+        <table className="text-xs">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="pr-2 text-left">Labelled ↓ / Predicted →</th>
+              {predicted.map(name => <th key={name} className="px-2 capitalize">{name}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(metrics.confusion).map(([expected, row]) => (
+              <tr key={expected} className="border-t">
+                <td className="pr-2 capitalize">{expected}</td>
+                {predicted.map(name => (
+                  <td
+                    key={name}
+                    className={`px-2 text-center ${row[name] ? (name === expected ? 'bg-green-100' : 'bg-red-50') : ''}`}
+                  >
+                    {row[name] || ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const DeltaERow = ({ region, stats }: { region: string; stats: DeltaEStats }) =>
+  stats.count === 0 ? null : (
+    <tr className="border-t">
+      <td className="py-1 capitalize">{region}</td>
+      <td>{formatNumber(stats.mean)}</td>
+      <td>{formatNumber(stats.median)}</td>
+      <td>{formatNumber(stats.p90)}</td>
+      <td>{formatNumber(stats.max)}</td>
+      <td>{stats.count}</td>
+    </tr>
+  );
+
+/**
+ * Runs a labelled fixture folder through the analyzers and reports accuracy,
+ * per-class precision/recall, confusion matrices and colour ΔE. Reports
+ * download as JSON and can be loaded back as a baseline for the next run.
+ */
+export default function AnalysisBenchmark() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0, file: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<BenchmarkReport | null>(null);
+  const [baseline, setBaseline] = useState<BenchmarkReport | null>(null);
+  const [comparison, setComparison] = useState<BenchmarkComparison | null>(null);
+
+  const findFile = (name: string) =>
+    files.find(file => {
+      const relative = (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+      return relative === name || relative.endsWith(`/${name}`) || file.name === name;
+    });
+
+  const runBenchmark = async () => {
+    setError(null);
+    setRunning(true);
+    try {
+      const labelsFile = findFile('labels.json');
+      if (!labelsFile) throw new Error('The folder needs a labels.json describing each image');
+      const manifest = parseBenchmarkManifest(JSON.parse(await labelsFile.text()));
+
+      const result = await runAnalysisBenchmark(
+        manifest,
+        async name => {
+          const file = findFile(name);
+          if (!file) throw new Error(`${name} is listed in labels.json but not in the folder`);
+          return file;
+        },
+        { onProgress: (done, total, file) => setProgress({ done, total, file }) },
+      );
+      setReport(result);
+      setComparison(baseline ? compareBenchmarkReports(baseline, result) : null);
+    } catch (err) {
+      console.error('Benchmark failed:', err);
+      setError(err instanceof Error ? err.message : 'Benchmark failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const loadBaseline = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const previous = parseBenchmarkReport(JSON.parse(await file.text()));
+      setBaseline(previous);
+      setComparison(report ? compareBenchmarkReports(previous, report) : null);
+    } catch (err) {
+      setError(err instanceof BenchmarkReportError ? `${file.name}: ${err.message}` : `${file.name} is not a benchmark report`);
+    }
+  };
+
+  const downloadReport = () => {
+    if (!report) return;
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `benchmark-${report.name}-${report.createdAt.slice(0, 19).replace(/[:T]/g, '-')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" />
+          Analysis Benchmark
+        </CardTitle>
+        <CardDescription>
+          Run a folder of labelled images (with a labels.json) through the clothing and face analyzers offline
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="inline-flex items-center gap-2 text-sm cursor-pointer">
+            <FolderOpen className="w-4 h-4" />
+            <input
+              type="file"
+              multiple
+              // Folder picking is non-standard, hence the spread
+              {...({ webkitdirectory: '' } as Record<string, string>)}
+              onChange={event => setFiles(Array.from(event.target.files || []))}
+            />
+          </label>
+          <Button onClick={runBenchmark} disabled={running || files.length === 0}>
+            {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+            Run benchmark
+          </Button>
+          <label className="text-sm text-muted-foreground">
+            Baseline report:{' '}
+            <input type="file" accept="application/json" onChange={loadBaseline} />
+          </label>
+        </div>
+
+        {running && progress.total > 0 && (
+          <div className="space-y-1">
+            <Progress value={(progress.done / progress.total) * 100} />
+            <p className="text-xs text-muted-foreground">
+              {progress.done} of {progress.total} {progress.file && `– ${progress.file}`}
+            </p>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {report && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge>{report.name}</Badge>
+              <Badge variant="outline">{report.fixtureCount} fixtures</Badge>
+              <Badge variant="outline">{report.classifier}</Badge>
+              <Badge variant="outline">{(report.durationMs / 1000).toFixed(1)}s</Badge>
+              {report.failures.length > 0 && (
+                <Badge variant="destructive">{report.failures.length} failed</Badge>
+              )}
+              <Button variant="outline" size="sm" className="ml-auto" onClick={downloadReport}>
+                <Download className="w-4 h-4 mr-2" />
+                Save report
+              </Button>
+            </div>
+
+            <ClassificationTable title="Clothing category" metrics={report.metrics.category} />
+            <ClassificationTable title="Pattern" metrics={report.metrics.pattern} />
+            <ClassificationTable title="Skin undertone" metrics={report.metrics.undertone} />
+            <ClassificationTable title="Season" metrics={report.metrics.season} />
+
+            <div className="space-y-2">
+              <h4 className="font-semibold">Colour error (ΔE2000)</h4>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-1">Region</th>
+                    <th>Mean</th>
+                    <th>Median</th>
+                    <th>P90</th>
+                    <th>Max</th>
+                    <th>Samples</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(report.metrics.deltaE).map(([region, stats]) => (
+                    <DeltaERow key={region} region={region} stats={stats} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {report.failures.length > 0 && (
+              <div className="space-y-1 text-xs text-red-700">
+                {report.failures.map(failure => (
+                  <div key={failure.file}>{failure.file}: {failure.error}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {comparison && baseline && (
+          <div className="space-y-3">
+            <h4 className="font-semibold">Compared with {baseline.name} from {new Date(baseline.createdAt).toLocaleString()}</h4>
+            <table className="w-full text-xs">
+              <tbody>
+                {comparison.metrics.filter(change => change.before !== null || change.after !== null).map(change => (
+                  <tr key={change.metric} className="border-t">
+                    <td className="py-1">{change.metric}</td>
+                    <td>{formatNumber(change.before)}</td>
+                    <td>{formatNumber(change.after)}</td>
+                    <td className={change.improved === null ? '' : change.improved ? 'text-green-700' : 'text-red-700'}>
+                      {change.improved !== null && (change.delta! > 0 ? <ArrowUp className="inline w-3 h-3" /> : <ArrowDown className="inline w-3 h-3" />)}
+                      {change.delta !== null ? ` ${change.delta > 0 ? '+' : ''}${change.delta.toFixed(3)}` : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {comparison.changedFixtures.length > 0 && (
+              <div className="space-y-1 text-xs">
+                {comparison.changedFixtures.map(change => (
+                  <div
+                    key={`${change.file}-${change.field}`}
+                    className={change.after === change.expected ? 'text-green-700' : change.before === change.expected ? 'text-red-700' : ''}
+                  >
+                    {change.file} {change.field}: {change.before} → {change.after} (labelled {change.expected})
+                  </div>
+                ))}
+              </div>
+            )}
+            {(comparison.addedFixtures.length > 0 || comparison.removedFixtures.length > 0) && (
+              <p className="text-xs text-muted-foreground">
+                {comparison.addedFixtures.length} fixtures added, {comparison.removedFixtures.length} removed since the baseline
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
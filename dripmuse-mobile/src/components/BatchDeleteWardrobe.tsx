@@ -10,24 +10,11 @@ import {
 } from "@/components/ui/dialog";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-
-interface ClothingItem {
-  id: string;
-  name: string;
-  photo_url: string;
-  category: string;
-  color: string[];
-  style: string;
-  occasion: string[];
-  season: string[];
-  tags: string[];
-  created_at?: string;
-  updated_at?: string;
-}
+import { getRepositories } from "@/services/repositoryProvider";
+import type { WardrobeItem } from "@/lib/wardrobeSchema";
 
 interface BatchDeleteWardrobeProps {
-  items: ClothingItem[];
+  items: WardrobeItem[];
   onDelete: (ids: string[]) => void;
 }
 
@@ -61,12 +48,7 @@ export const BatchDeleteWardrobe = ({
 
     setIsDeleting(true);
     try {
-      const { error } = await supabase
-        .from("wardrobe_items")
-        .delete()
-        .in("id", selectedItems);
-
-      if (error) throw error;
+      await getRepositories().wardrobe.remove(selectedItems);
 
       onDelete(selectedItems);
       setSelectedItems([]);
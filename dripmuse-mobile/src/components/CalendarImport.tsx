@@ -0,0 +1,363 @@
+import React, { useRef, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/errorUtils";
+import {
+  DEFAULT_OCCASION_RULES,
+  fetchCalendarFeed,
+  getDeviceCalendar,
+  importCalendarFile,
+  importDeviceCalendar,
+  matchEventOccasion,
+  upsertCalendar,
+  type ImportedCalendar,
+  type OccasionRule,
+} from "@/lib/calendarImport";
+
+interface CalendarImportProps {
+  calendars: ImportedCalendar[];
+  onCalendarsChange: (calendars: ImportedCalendar[]) => void;
+  rules: OccasionRule[];
+  onRulesChange: (rules: OccasionRule[]) => void;
+  occasions: string[];
+}
+
+const SOURCE_LABELS: Record<ImportedCalendar["source"], string> = {
+  file: "File",
+  feed: "Feed",
+  device: "Device",
+};
+
+const FIELD_LABELS: Record<OccasionRule["field"], string> = {
+  title: "Title",
+  location: "Location",
+  any: "Anywhere",
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const CalendarImport: React.FC<CalendarImportProps> = ({
+  calendars,
+  onCalendarsChange,
+  rules,
+  onRulesChange,
+  occasions,
+}) => {
+  const [feedUrl, setFeedUrl] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const deviceCalendar = getDeviceCalendar();
+
+  const runImport = async (load: () => Promise<ImportedCalendar>) => {
+    setIsImporting(true);
+    try {
+      const calendar = await load();
+      onCalendarsChange(upsertCalendar(calendars, calendar));
+      toast({
+        title: "Calendar imported",
+        description: `${calendar.events.length} upcoming event${calendar.events.length === 1 ? "" : "s"} from ${calendar.name}.`,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const refresh = (calendar: ImportedCalendar) =>
+    runImport(() =>
+      calendar.source === "feed" && calendar.url
+        ? fetchCalendarFeed(calendar.url)
+        : importDeviceCalendar(),
+    );
+
+  const updateRule = (id: string, change: Partial<OccasionRule>) =>
+    onRulesChange(rules.map((rule) => (rule.id === id ? { ...rule, ...change } : rule)));
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onRulesChange(reordered);
+  };
+
+  // A preview of how the rules read the next few events
+  const now = new Date();
+  const upcoming = calendars
+    .flatMap((calendar) => calendar.events)
+    .filter((event) => event.end > now)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .slice(0, 5);
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Calendar</CardTitle>
+        <CardDescription>
+          Import your events so each day is planned around what you are doing
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) await runImport(() => importCalendarFile(file));
+            }}
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              disabled={isImporting}
+              onClick={() => fileInput.current?.click()}
+            >
+              Import .ics File
+            </Button>
+            {deviceCalendar && (
+              <Button
+                variant="outline"
+                disabled={isImporting}
+                onClick={() => runImport(importDeviceCalendar)}
+              >
+                Import from {deviceCalendar.label}
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="https:// or webcal:// calendar feed"
+              value={feedUrl}
+              onChange={(e) => setFeedUrl(e.target.value)}
+            />
+            <Button
+              disabled={isImporting || !feedUrl.trim()}
+              onClick={async () => {
+                if (await runImport(() => fetchCalendarFeed(feedUrl))) setFeedUrl("");
+              }}
+            >
+              Subscribe
+            </Button>
+          </div>
+        </div>
+
+        {calendars.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Imported calendars</div>
+            {calendars.map((calendar) => (
+              <div
+                key={calendar.id}
+                className="flex items-center gap-2 p-2 border rounded-lg text-sm"
+              >
+                <Badge variant="outline">{SOURCE_LABELS[calendar.source]}</Badge>
+                <div className="flex-1 min-w-0">
+                  <div className="truncate">{calendar.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {calendar.events.length} events · imported{" "}
+                    {new Date(calendar.importedAt).toLocaleDateString()}
+                  </div>
+                </div>
+                {calendar.source !== "file" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isImporting}
+                    onClick={() => refresh(calendar)}
+                  >
+                    Refresh
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    onCalendarsChange(calendars.filter((c) => c.id !== calendar.id))
+                  }
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {upcoming.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Next events</div>
+            {upcoming.map((event) => {
+              const match = matchEventOccasion(event, rules);
+              return (
+                <div key={event.id} className="flex items-center gap-2 text-xs">
+                  <span className="text-muted-foreground w-28 flex-shrink-0">
+                    {event.start.toLocaleDateString("en-US", { weekday: "short" })}{" "}
+                    {event.allDay
+                      ? "all day"
+                      : event.start.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </span>
+                  <span className="flex-1 truncate">{event.title}</span>
+                  {match ? (
+                    <Badge variant="secondary" className="capitalize">
+                      {match.occasion}
+                    </Badge>
+                  ) : (
+                    <span className="text-muted-foreground">No rule</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm font-medium">Occasion rules</div>
+              <div className="text-xs text-muted-foreground">
+                Checked top to bottom; the first rule whose keywords match an
+                event decides its occasion
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onRulesChange(DEFAULT_OCCASION_RULES)}
+            >
+              Reset
+            </Button>
+          </div>
+
+          {rules.map((rule, index) => (
+            <div key={rule.id} className="space-y-2 p-2 border rounded-lg">
+              <div className="flex gap-2">
+                <Input
+                  value={rule.keywords}
+                  placeholder="Keywords, comma separated"
+                  onChange={(e) => updateRule(rule.id, { keywords: e.target.value })}
+                />
+                <Select
+                  value={rule.occasion}
+                  onValueChange={(occasion: string) => updateRule(rule.id, { occasion })}
+                >
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {occasions.map((occasion) => (
+                      <SelectItem key={occasion} value={occasion}>
+                        {capitalize(occasion)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-muted-foreground">in</span>
+                <Select
+                  value={rule.field}
+                  onValueChange={(field: string) =>
+                    updateRule(rule.id, { field: field as OccasionRule["field"] })
+                  }
+                >
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FIELD_LABELS) as OccasionRule["field"][]).map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {FIELD_LABELS[field]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-muted-foreground">from</span>
+                <Input
+                  type="time"
+                  className="w-24"
+                  value={rule.after ?? ""}
+                  onChange={(e) => updateRule(rule.id, { after: e.target.value || undefined })}
+                />
+                <span className="text-muted-foreground">until</span>
+                <Input
+                  type="time"
+                  className="w-24"
+                  value={rule.before ?? ""}
+                  onChange={(e) => updateRule(rule.id, { before: e.target.value || undefined })}
+                />
+                <div className="ml-auto flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={index === 0}
+                    onClick={() => moveRule(index, -1)}
+                  >
+                    ↑
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={index === rules.length - 1}
+                    onClick={() => moveRule(index, 1)}
+                  >
+                    ↓
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onRulesChange(rules.filter((r) => r.id !== rule.id))}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            onClick={() =>
+              onRulesChange([
+                ...rules,
+                { id: Date.now().toString(), field: "title", keywords: "", occasion: "casual" },
+              ])
+            }
+          >
+            Add Rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export { CalendarImport };
+export default CalendarImport;
@@ -4,9 +4,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Upload, Camera, Palette, Eye, User, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
-import { analyzeUserColors, getAccuracyDescription, isColorWellDetected } from '@/lib/colorAnalysisUtils';
-import type { AccurateColorAnalysis } from '@/lib/accurateColorPaletteService';
+import { analyzeUserColors, analyzeUserPhotos, getAccuracyDescription, isColorWellDetected } from '@/lib/colorAnalysisUtils';
+import type { AccurateColorAnalysis, MultiPhotoColorAnalysis } from '@/lib/accurateColorPaletteService';
 import { useModelLoadingStatus } from '@/hooks/useModelLoadingStatus';
+import { CAPABILITY_LABELS } from '@/lib/modelLoader';
 
 interface ColorAnalysisTestProps {
   onAnalysisComplete?: (analysis: AccurateColorAnalysis) => void;
@@ -15,33 +16,33 @@ interface ColorAnalysisTestProps {
 export default function ColorAnalysisTest({ onAnalysisComplete }: ColorAnalysisTestProps) {
   const [analysis, setAnalysis] = useState<AccurateColorAnalysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedImages, setSelectedImages] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const modelStatus = useModelLoadingStatus();
 
   const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(event.target.files ?? []);
+    if (files.length === 0) return;
 
     // Validate file type
-    if (!file.type.startsWith('image/')) {
+    if (files.some(file => !file.type.startsWith('image/'))) {
       setError('Please select a valid image file');
       return;
     }
 
     // Validate file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
+    if (files.some(file => file.size > 10 * 1024 * 1024)) {
       setError('Image file is too large. Please select an image under 10MB');
       return;
     }
 
     setError(null);
-    setSelectedImage(URL.createObjectURL(file));
+    setSelectedImages(files.map(file => URL.createObjectURL(file)));
     setIsAnalyzing(true);
 
     try {
       console.log('🚀 Starting enhanced color analysis...');
-      const result = await analyzeUserColors(file);
+      const result = files.length > 1 ? await analyzeUserPhotos(files) : await analyzeUserColors(files[0]);
       
       console.log('✅ Analysis completed:', {
         skinTone: result.facialFeatures.skinTone.description,
@@ -79,6 +80,8 @@ export default function ColorAnalysisTest({ onAnalysisComplete }: ColorAnalysisT
     </div>
   );
 
+  const multiPhoto = analysis && 'seasonDistribution' in analysis ? analysis as MultiPhotoColorAnalysis : null;
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.8) return 'bg-green-500';
     if (confidence >= 0.6) return 'bg-yellow-500';
@@ -114,10 +117,18 @@ export default function ColorAnalysisTest({ onAnalysisComplete }: ColorAnalysisT
                 </>
               )}
               {modelStatus.error && (
-                <>
-                  <AlertCircle className="w-4 h-4 text-orange-600" />
-                  <span className="text-sm text-gray-600">{modelStatus.error}</span>
-                </>
+                <div className="space-y-1">
+                  {Object.values(modelStatus.capabilities)
+                    .filter(capability => capability.state === 'unavailable')
+                    .map(capability => (
+                      <div key={capability.capability} className="flex items-center gap-2">
+                        <AlertCircle className="w-4 h-4 text-orange-600" />
+                        <span className="text-sm text-gray-600">
+                          {CAPABILITY_LABELS[capability.capability]} unavailable: {capability.reason}
+                        </span>
+                      </div>
+                    ))}
+                </div>
               )}
             </div>
 
@@ -128,12 +139,13 @@ export default function ColorAnalysisTest({ onAnalysisComplete }: ColorAnalysisT
                   <label htmlFor="image-upload" className="cursor-pointer">
                     <Button variant="outline" className="relative">
                       <Camera className="w-4 h-4 mr-2" />
-                      Upload Photo
+                      Upload Photos
                     </Button>
                     <input
                       id="image-upload"
                       type="file"
                       accept="image/*"
+                      multiple
                       className="hidden"
                       onChange={handleImageUpload}
                       disabled={isAnalyzing}
@@ -141,7 +153,7 @@ export default function ColorAnalysisTest({ onAnalysisComplete }: ColorAnalysisT
                   </label>
                 </div>
                 <p className="mt-2 text-sm text-gray-500">
-                  Upload a clear photo with good lighting for best results
+                  Upload a clear photo with good lighting, or several in different light for a combined result
                 </p>
               </div>
             </div>
@@ -162,17 +174,26 @@ export default function ColorAnalysisTest({ onAnalysisComplete }: ColorAnalysisT
         </CardContent>
       </Card>
 
-      {selectedImage && (
+      {selectedImages.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>Uploaded Image</CardTitle>
+            <CardTitle>{selectedImages.length > 1 ? 'Uploaded Images' : 'Uploaded Image'}</CardTitle>
           </CardHeader>
           <CardContent>
-            <img 
-              src={selectedImage} 
-              alt="Uploaded for analysis" 
-              className="max-w-md mx-auto rounded-lg shadow-md"
-            />
+            <div className="flex flex-wrap justify-center gap-4">
+              {selectedImages.map((image, index) => (
+                <div key={image} className="text-center">
+                  <img 
+                    src={image} 
+                    alt={`Uploaded for analysis ${index + 1}`} 
+                    className={`${selectedImages.length > 1 ? 'max-w-[10rem]' : 'max-w-md'} rounded-lg shadow-md ${multiPhoto?.photos[index]?.rejected ? 'opacity-40' : ''}`}
+                  />
+                  {multiPhoto?.photos[index]?.rejected && (
+                    <div className="text-xs text-red-600 mt-1">{multiPhoto.photos[index].rejectionReason}</div>
+                  )}
+                </div>
+              ))}
+            </div>
           </CardContent>
         </Card>
       )}
@@ -240,6 +261,55 @@ export default function ColorAnalysisTest({ onAnalysisComplete }: ColorAnalysisT
             </CardContent>
           </Card>
 
+          {/* Multi-photo agreement */}
+          {multiPhoto && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Camera className="w-5 h-5" />
+                  Photo Agreement
+                </CardTitle>
+                <CardDescription>
+                  {multiPhoto.photos.filter(photo => !photo.rejected).length} of {multiPhoto.photos.length} photos used
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {multiPhoto.needsAnotherPhoto && (
+                  <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded">
+                    <AlertCircle className="w-4 h-4 mt-0.5" />
+                    <span className="text-sm">{multiPhoto.photoPrompt}</span>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <h4 className="font-semibold">Season Probability</h4>
+                  {Object.entries(multiPhoto.seasonDistribution)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([season, probability]) => (
+                      <div key={season} className="flex items-center gap-3">
+                        <span className="w-16 text-sm capitalize">{season}</span>
+                        <Progress value={Math.round(probability * 100)} className="h-2 flex-1" />
+                        <span className="w-10 text-right text-sm">{Math.round(probability * 100)}%</span>
+                      </div>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  {([
+                    ['Skin', multiPhoto.featureAggregates.skinTone],
+                    ['Hair', multiPhoto.featureAggregates.hairColor],
+                    ['Eyes', multiPhoto.featureAggregates.eyeColor]
+                  ] as const).map(([label, aggregate]) => (
+                    <div key={label}>
+                      <div className="text-lg font-bold">±{aggregate.standardDeviation.toFixed(1)}</div>
+                      <div className="text-xs text-gray-500">{label} spread (ΔE), {aggregate.photoCount} photos</div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Facial Features */}
           <Card>
             <CardHeader>
@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeftRight, ChevronLeft, ChevronRight, Loader2, Shirt } from 'lucide-react';
+import { enhancedFacialFeatureAnalysis, type FaceOutline } from '@/lib/enhancedFacialFeatureAnalysis';
+import { measureDrapeEffect, renderDrape, type DrapeEffect } from '@/lib/drapeSimulator';
+
+interface SeasonDrapePalette {
+  season: string;
+  colors: string[];
+}
+
+interface ColorDrapeSimulatorProps {
+  photoUrl: string;
+  skinColor: string;
+  bestColors: string[];
+  avoidColors: string[];
+  seasonPalettes: SeasonDrapePalette[];
+}
+
+interface DrapeCanvasProps {
+  image: HTMLImageElement;
+  outline: FaceOutline;
+  color: string;
+}
+
+const DrapeCanvas = ({ image, outline, color }: DrapeCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = outline.imageWidth;
+    canvas.height = outline.imageHeight;
+    renderDrape(ctx, image, outline, color);
+  }, [image, outline, color]);
+
+  return <canvas ref={canvasRef} className="w-full h-auto rounded-lg shadow-md" />;
+};
+
+const DrapeEffectSummary = ({ effect }: { effect: DrapeEffect }) => (
+  <div className="flex items-center gap-3 text-sm">
+    <div className="flex">
+      <div className="w-6 h-6 rounded-l border border-gray-300" style={{ backgroundColor: effect.skinColor }} title="Your skin" />
+      <div className="w-6 h-6 rounded-r border border-gray-300" style={{ backgroundColor: effect.perceivedSkin }} title="Next to this drape" />
+    </div>
+    <div>
+      <div className={effect.verdict === 'brightens' ? 'text-green-700' : effect.verdict === 'dulls' ? 'text-red-700' : 'text-muted-foreground'}>
+        {effect.summary}
+      </div>
+      <div className="text-xs text-muted-foreground">Skin tone shift: ΔE {effect.shift.toFixed(1)}</div>
+    </div>
+  </div>
+);
+
+const SwatchPicker = ({ colors, selected, onSelect }: { colors: string[]; selected: string; onSelect: (color: string) => void }) => (
+  <div className="flex flex-wrap gap-2">
+    {colors.map((color, index) => (
+      <button
+        key={`${color}-${index}`}
+        className={`w-8 h-8 rounded-full border-2 ${color === selected ? 'border-primary scale-110' : 'border-white'} shadow-sm transition-transform`}
+        style={{ backgroundColor: color }}
+        title={color}
+        onClick={() => onSelect(color)}
+      />
+    ))}
+  </div>
+);
+
+/**
+ * Preview palette colours as a fabric drape under the chin, with an A/B
+ * switch between a best and an avoid colour and two seasons side by side.
+ */
+export const ColorDrapeSimulator = ({ photoUrl, skinColor, bestColors, avoidColors, seasonPalettes }: ColorDrapeSimulatorProps) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [outline, setOutline] = useState<FaceOutline | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'ab' | 'compare'>('ab');
+
+  const [bestColor, setBestColor] = useState(bestColors[0]);
+  const [avoidColor, setAvoidColor] = useState(avoidColors[0]);
+  const [showingBest, setShowingBest] = useState(true);
+
+  const [leftSeason, setLeftSeason] = useState(seasonPalettes[0]?.season);
+  const [rightSeason, setRightSeason] = useState(seasonPalettes[1]?.season ?? seasonPalettes[0]?.season);
+  const [compareIndex, setCompareIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    const img = new Image();
+    img.crossOrigin = 'Anonymous';
+    img.onload = async () => {
+      try {
+        const faceOutline = await enhancedFacialFeatureAnalysis.detectFaceOutline(photoUrl);
+        if (!cancelled) {
+          setImage(img);
+          setOutline(faceOutline);
+        }
+      } catch (err) {
+        console.error('Drape preview failed:', err);
+        if (!cancelled) setError('Could not find your face in this photo');
+      }
+    };
+    img.onerror = () => {
+      if (!cancelled) setError('Could not load your photo');
+    };
+    img.src = photoUrl;
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photoUrl]);
+
+  const activeColor = showingBest ? bestColor : avoidColor;
+  const bestEffect = useMemo(() => bestColor ? measureDrapeEffect(skinColor, bestColor) : null, [skinColor, bestColor]);
+  const avoidEffect = useMemo(() => avoidColor ? measureDrapeEffect(skinColor, avoidColor) : null, [skinColor, avoidColor]);
+
+  const leftColors = seasonPalettes.find(palette => palette.season === leftSeason)?.colors ?? [];
+  const rightColors = seasonPalettes.find(palette => palette.season === rightSeason)?.colors ?? [];
+  const compareLength = Math.max(1, Math.min(leftColors.length, rightColors.length));
+  const leftColor = leftColors[compareIndex % compareLength];
+  const rightColor = rightColors[compareIndex % compareLength];
+
+  const renderSeasonColumn = (season: string | undefined, onSeasonChange: (season: string) => void, color: string | undefined) => (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {seasonPalettes.map(palette => (
+          <Button
+            key={palette.season}
+            variant={palette.season === season ? 'default' : 'outline'}
+            size="sm"
+            className="text-xs capitalize"
+            onClick={() => onSeasonChange(palette.season)}
+          >
+            {palette.season}
+          </Button>
+        ))}
+      </div>
+      {image && outline && color && <DrapeCanvas image={image} outline={outline} color={color} />}
+      {color && <DrapeEffectSummary effect={measureDrapeEffect(skinColor, color)} />}
+    </div>
+  );
+
+  return (
+    <Card className="card-premium">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Shirt className="h-6 w-6 text-purple-600" />
+          Virtual Draping
+        </CardTitle>
+        <CardDescription>
+          See colours held under your chin, the way a colour consultant drapes fabric
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant={mode === 'ab' ? 'default' : 'outline'} size="sm" onClick={() => setMode('ab')}>
+            Best vs Avoid
+          </Button>
+          <Button variant={mode === 'compare' ? 'default' : 'outline'} size="sm" onClick={() => setMode('compare')}>
+            Compare Seasons
+          </Button>
+          {outline?.source === 'estimated' && (
+            <Badge variant="outline" className="ml-auto text-xs">Approximate face position</Badge>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!error && (!image || !outline) && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Finding your face...
+          </div>
+        )}
+
+        {mode === 'ab' && (
+          <div className="space-y-4">
+            {image && outline && activeColor && (
+              <div className="max-w-sm mx-auto">
+                <DrapeCanvas image={image} outline={outline} color={activeColor} />
+              </div>
+            )}
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => setShowingBest(!showingBest)}>
+                <ArrowLeftRight className="h-4 w-4 mr-2" />
+                Showing {showingBest ? 'best' : 'avoid'} colour, switch
+              </Button>
+            </div>
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className={`space-y-2 rounded-lg p-3 border ${showingBest ? 'border-green-400 bg-green-50/50' : 'border-border'}`}>
+                <h4 className="text-sm font-semibold text-green-800">Best colour</h4>
+                <SwatchPicker colors={bestColors} selected={bestColor} onSelect={color => { setBestColor(color); setShowingBest(true); }} />
+                {bestEffect && <DrapeEffectSummary effect={bestEffect} />}
+              </div>
+              <div className={`space-y-2 rounded-lg p-3 border ${!showingBest ? 'border-red-400 bg-red-50/50' : 'border-border'}`}>
+                <h4 className="text-sm font-semibold text-red-800">Colour to avoid</h4>
+                <SwatchPicker colors={avoidColors} selected={avoidColor} onSelect={color => { setAvoidColor(color); setShowingBest(false); }} />
+                {avoidEffect && <DrapeEffectSummary effect={avoidEffect} />}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {mode === 'compare' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {renderSeasonColumn(leftSeason, setLeftSeason, leftColor)}
+              {renderSeasonColumn(rightSeason, setRightSeason, rightColor)}
+            </div>
+            <div className="flex items-center justify-center gap-3">
+              <Button variant="outline" size="sm" onClick={() => setCompareIndex((compareIndex - 1 + compareLength) % compareLength)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Colour {(compareIndex % compareLength) + 1} of {compareLength}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setCompareIndex((compareIndex + 1) % compareLength)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
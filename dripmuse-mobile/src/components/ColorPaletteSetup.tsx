@@ -10,7 +10,7 @@ import { PREDEFINED_COLOR_PALETTES, type ColorPalette } from '@/data/predefinedC
 import { colorSeasonAnalysisService, type ColorSeasonAnalysis } from '@/lib/colorSeasonAnalysis';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfile, invalidateProfileCache } from '@/hooks/useProfile';
-import { supabase } from '@/integrations/supabase/client';
+import { getRepositories } from '@/services/repositoryProvider';
 import { useToast } from '@/hooks/use-toast';
 
 // Utility function to extract error messages safely
@@ -100,16 +100,13 @@ export const ColorPaletteSetup: React.FC<ColorPaletteSetupProps> = ({
       setSaveProgress({ step: 'Saving your palette...', progress: 50 });
 
       // Save the selected palette and analysis to the user's profile
-      const { error } = await supabase
-        .from('profiles')
-        .update({
+      try {
+        await getRepositories().profiles.upsert(user.id, {
           selected_palette_id: selectedPalette.id,
           color_palette_colors: selectedPalette.complementaryColors,
           color_season_analysis: analysisToSave
-        })
-        .eq('user_id', user.id);
-
-      if (error) {
+        });
+      } catch (error) {
         console.error('Error saving palette:', error);
         toast({
           title: "Error",
@@ -3,12 +3,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { AlertCircle, CheckCircle, Loader2, RefreshCw, Info } from 'lucide-react';
-import { loadFaceApiModels, runModelDiagnostic, getModelStatus, type ModelLoadResult } from '@/lib/modelLoader';
+import { CAPABILITY_LABELS, loadFaceApiModels, runModelDiagnostic, type ModelLoadResult } from '@/lib/modelLoader';
+import { useModelLoadingStatus } from '@/hooks/useModelLoadingStatus';
 
 export default function ModelStatusDebug() {
   const [diagnostic, setDiagnostic] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loadResult, setLoadResult] = useState<ModelLoadResult | null>(null);
+  const modelStatus = useModelLoadingStatus();
 
   const runDiagnostic = async () => {
     const result = await runModelDiagnostic();
@@ -59,7 +61,7 @@ export default function ModelStatusDebug() {
           Face Detection Model Status
         </CardTitle>
         <CardDescription>
-          Diagnostic information for face-api.js model loading
+          Diagnostic information for the bundled face-api.js models
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -79,6 +81,22 @@ export default function ModelStatusDebug() {
               <StatusBadge status={diagnostic.modelStatus.faceLandmark68Net} label="Face Landmarks" />
             </div>
 
+            <h4 className="font-semibold">Capabilities</h4>
+            <div className="space-y-2">
+              {Object.values(modelStatus.capabilities).map(capability => (
+                <div key={capability.capability}>
+                  <StatusBadge
+                    status={capability.state === 'ready'}
+                    label={`${CAPABILITY_LABELS[capability.capability]}: ${capability.state}${capability.source ? ` (${capability.source})` : ''}`}
+                  />
+                  {capability.reason && (
+                    <p className="text-xs text-gray-500 ml-6">{capability.reason}</p>
+                  )}
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">Model version: {modelStatus.version}</p>
+            </div>
+
             {diagnostic.recommendations.length > 0 && (
               <div>
                 <h4 className="font-semibold mb-2">Recommendations</h4>
@@ -1,31 +1,33 @@
 import React, { useState, useEffect } from 'react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertTriangle, Wifi, WifiOff } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { getRepositories } from '@/services/repositoryProvider';
 import { getErrorMessage } from '@/lib/errorUtils';
 
 export const NetworkStatus: React.FC = () => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [supabaseConnected, setSupabaseConnected] = useState(true);
   const [lastCheck, setLastCheck] = useState<Date>(new Date());
+  const { user } = useAuth();
 
+  // Reads the profile through the data layer the rest of the app uses
   const checkSupabaseConnection = async (): Promise<boolean> => {
+    if (!user) return true;
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000);
-      
-      const { error } = await supabase
-        .from('profiles')
-        .select('count')
-        .limit(1)
-        .abortSignal(controller.signal);
-      
-      clearTimeout(timeoutId);
-      return !error;
+      const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('Connection check timed out')), 3000);
+      });
+      await Promise.race([getRepositories().profiles.get(user.id), timeout]);
+      return true;
     } catch (error) {
       const errorMessage = getErrorMessage(error);
       console.warn('Supabase connection check failed:', errorMessage);
       return false;
+    } finally {
+      clearTimeout(timeoutId);
     }
   };
 
@@ -61,7 +63,7 @@ export const NetworkStatus: React.FC = () => {
       window.removeEventListener('offline', handleOffline);
       clearInterval(interval);
     };
-  }, [isOnline]);
+  }, [isOnline, user]);
 
   if (!isOnline) {
     return (
@@ -8,6 +8,7 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -16,20 +17,69 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
+import { CalendarImport } from "@/components/CalendarImport";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useProfile } from "@/hooks/useProfile";
 import { useWeather } from "@/hooks/useWeather";
-import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
+import type {
+  NewPlannedOutfit,
+  PlannedOutfitRecord,
+  PlannedOutfitStatus,
+} from "@/services/repositories";
 import {
   simpleStyleAI,
   OutfitRecommendation,
   WardrobeItem,
   StyleProfile,
+  WeatherData,
 } from "@/lib/simpleStyleAI";
 import { usePerformance } from "@/hooks/usePerformance";
 import { PerformanceCache, CACHE_NAMESPACES } from "@/lib/performanceCache";
 import { getErrorMessage, logError } from "@/lib/errorUtils";
+import { toWearDate } from "@/lib/wearAnalytics";
+import { RecommenderHistory } from "@/services/recommenderHistory";
+import {
+  detectForecastChange,
+  forecastToWeather,
+  getForecastForDate,
+  getHourlyForSchedule,
+  snapshotForecast,
+  type DailyForecast,
+  type ForecastChange,
+  type ForecastSnapshot,
+  type HourlyForecast,
+} from "@/lib/weatherForecast";
+import {
+  buildLayeringPlan,
+  loadSchedule,
+  saveSchedule,
+  weatherForSchedule,
+  type LayeringPlan,
+  type ScheduleWindow,
+} from "@/lib/layeringPlan";
+import {
+  describeSlot,
+  eventsOnDate,
+  loadImportedCalendars,
+  loadOccasionRules,
+  planDaySlots,
+  saveImportedCalendars,
+  saveOccasionRules,
+  slotTimes,
+  timeOfDayAt,
+  type ImportedCalendar,
+  type OccasionRule,
+  type OccasionSlot,
+} from "@/lib/calendarImport";
+
+// The part of a day an outfit is planned for, when the day's calendar needs a change
+interface PlannedSlot {
+  start: string; // HH:MM
+  end: string;
+  label: string;
+}
 
 interface PlannedOutfit {
   id: string;
@@ -40,8 +90,122 @@ interface PlannedOutfit {
   notes?: string;
   confidence?: number;
   reasoning?: string[];
+  status: PlannedOutfitStatus;
+  // Items deleted from the wardrobe since the outfit was planned
+  missingItemIds?: string[];
+  // The day's forecast when the outfit was planned, if the day was in range
+  forecast?: ForecastSnapshot;
+  // Set when a newer forecast differs enough that the outfit should be checked
+  forecastChange?: ForecastChange & { weatherFit: number };
+  // Unset for an outfit worn all day
+  slot?: PlannedSlot;
 }
 
+// Plans this browser kept before planned outfits moved into the data layer
+const LEGACY_PLANNED_OUTFITS_KEY = "plannedOutfits";
+// Past plans stay visible for this long, to mark them worn or skipped
+const PLAN_HISTORY_DAYS = 30;
+
+const toPlannedOutfitInput = (outfit: Omit<PlannedOutfit, "id">): NewPlannedOutfit => ({
+  date: toWearDate(outfit.date),
+  occasion: outfit.occasion,
+  notes: outfit.notes,
+  status: outfit.status,
+  item_ids: outfit.items.map((item) => item.id),
+  missing_item_ids: outfit.missingItemIds,
+  details: {
+    weather: outfit.weather,
+    confidence: outfit.confidence,
+    reasoning: outfit.reasoning,
+    forecast: outfit.forecast,
+    forecast_change: outfit.forecastChange,
+    slot: outfit.slot,
+    time_of_day: outfit.slot ? timeOfDayAt(outfit.slot.start) : undefined,
+  },
+});
+
+// Items no longer in the wardrobe are flagged as missing along with those the data layer flagged
+const fromPlannedOutfitRecord = (
+  record: PlannedOutfitRecord,
+  wardrobe: WardrobeItem[],
+): PlannedOutfit => {
+  const details = record.details || {};
+  const items = record.item_ids
+    .map((itemId) => wardrobe.find((item) => item.id === itemId))
+    .filter((item): item is WardrobeItem => !!item);
+  const missingItemIds = [
+    ...(record.missing_item_ids || []),
+    ...record.item_ids.filter((itemId) => !items.some((item) => item.id === itemId)),
+  ];
+
+  return {
+    id: record.id,
+    date: new Date(`${record.date}T00:00:00`),
+    occasion: record.occasion || "casual",
+    items,
+    notes: record.notes,
+    status: record.status,
+    missingItemIds: missingItemIds.length > 0 ? missingItemIds : undefined,
+    weather: details.weather,
+    confidence: details.confidence,
+    reasoning: details.reasoning,
+    forecast: details.forecast,
+    forecastChange: details.forecast_change,
+    slot: details.slot,
+  };
+};
+
+const toPlannedSlot = (slot: OccasionSlot): PlannedSlot => ({
+  ...slotTimes(slot),
+  label: slot.events.map((event) => event.title).join(", "),
+});
+
+// Items that make an outfit recognisably the same one
+const CORE_CATEGORIES = ["tops", "bottoms", "dresses"];
+
+const sharesCoreItems = (outfit: WardrobeItem[], other: WardrobeItem[]) =>
+  outfit.some(
+    (item) =>
+      CORE_CATEGORIES.includes(item.category.toLowerCase()) &&
+      other.some((o) => o.id === item.id),
+  );
+
+const compareSlots = (a: PlannedOutfit, b: PlannedOutfit) =>
+  (a.slot?.start ?? "").localeCompare(b.slot?.start ?? "");
+
+// Below this the recommender considers an outfit a poor match for the weather
+const POOR_WEATHER_FIT = 0.3;
+
+const WARNING_ICONS: Record<string, string> = {
+  umbrella: "☂️",
+  footwear: "👟",
+  layers: "🧥",
+};
+
+const LayeringPlanDetails = ({ plan }: { plan: LayeringPlan }) => (
+  <div className="rounded-lg border p-3 text-xs space-y-1">
+    <div className="font-medium">
+      Your day, {plan.schedule.leave}–{plan.schedule.return}:{" "}
+      {plan.temperatureMin}–{plan.temperatureMax}°C, up to{" "}
+      {plan.precipitationProbability}% chance of rain
+    </div>
+    {plan.steps.length > 0 ? (
+      plan.steps.map((step) => (
+        <div key={`${step.time}-${step.action}`} className="text-muted-foreground">
+          {step.time} · {step.note}
+        </div>
+      ))
+    ) : (
+      <div className="text-muted-foreground">No layer changes needed</div>
+    )}
+    {plan.warnings.map((warning) => (
+      <div key={warning.message} className="text-amber-800">
+        {WARNING_ICONS[warning.kind]} {warning.message}
+      </div>
+    ))}
+  </div>
+);
+
 const OutfitPlanner: React.FC = () => {
   const [wardrobeItems, setWardrobeItems] = useState<WardrobeItem[]>([]);
   const [plannedOutfits, setPlannedOutfits] = useState<PlannedOutfit[]>([]);
@@ -54,7 +218,21 @@ const OutfitPlanner: React.FC = () => {
   const { toast } = useToast();
   const { user } = useAuth();
   const { profile } = useProfile();
-  const { weather } = useWeather(profile?.location);
+  const {
+    weather: currentWeather,
+    forecast: currentForecast,
+    isForecastStale,
+  } = useWeather(profile?.location);
+  // Recorded sample weather is for demos and tests: nothing is planned or snapshotted against it
+  const isSampleWeather = currentWeather?.source === "fixture";
+  const weather = isSampleWeather ? null : currentWeather;
+  const forecast = isSampleWeather ? null : currentForecast;
+  const [schedule, setSchedule] = useState<ScheduleWindow>(loadSchedule);
+  const [calendars, setCalendars] = useState<ImportedCalendar[]>(loadImportedCalendars);
+  const [occasionRules, setOccasionRules] = useState<OccasionRule[]>(loadOccasionRules);
+  const [selectedSlot, setSelectedSlot] = useState(0);
+  // The calendar slot the generated outfit is for; saving it replaces only that slot
+  const [currentSlot, setCurrentSlot] = useState<PlannedSlot | null>(null);
 
   // Performance optimization
   const { executeWithCache } = usePerformance({
@@ -76,44 +254,262 @@ const OutfitPlanner: React.FC = () => {
 
   useEffect(() => {
     if (user) {
-      fetchWardrobeItems();
-      loadPlannedOutfits();
+      // Plans are matched to wardrobe items, so they wait for the wardrobe
+      fetchWardrobeItems().then((items) => items && loadPlannedOutfits(items));
     }
   }, [user]);
 
-  const fetchWardrobeItems = async () => {
-    if (!user) return;
+  const fetchWardrobeItems = async (): Promise<WardrobeItem[] | null> => {
+    if (!user) return null;
 
     try {
-      const { data, error } = await supabase
-        .from("wardrobe_items")
-        .select("*")
-        .eq("user_id", user.id);
-
-      if (error) throw error;
-      setWardrobeItems(data || []);
+      const items = await getRepositories().wardrobe.list(user.id);
+      setWardrobeItems(items);
+      await RecommenderHistory.load(user.id, items);
+      return items;
     } catch (error) {
       logError(error, "Error fetching wardrobe items in OutfitPlanner");
+      return null;
+    }
+  };
+
+  const importLegacyPlannedOutfits = async () => {
+    const saved = localStorage.getItem(LEGACY_PLANNED_OUTFITS_KEY);
+    if (!saved || !user) return;
+
+    const repository = getRepositories().plannedOutfits;
+    for (const outfit of JSON.parse(saved)) {
+      await repository.create(
+        user.id,
+        toPlannedOutfitInput({
+          ...outfit,
+          date: new Date(outfit.date),
+          status: outfit.worn ? "worn" : "planned",
+        }),
+      );
+    }
+    localStorage.removeItem(LEGACY_PLANNED_OUTFITS_KEY);
+  };
+
+  const loadPlannedOutfits = async (items: WardrobeItem[]) => {
+    if (!user) return;
+
+    try {
+      await importLegacyPlannedOutfits();
+      const from = new Date();
+      from.setDate(from.getDate() - PLAN_HISTORY_DAYS);
+      const records = await getRepositories().plannedOutfits.list(user.id, {
+        from: toWearDate(from),
+      });
+      setPlannedOutfits(records.map((record) => fromPlannedOutfitRecord(record, items)));
+    } catch (error) {
+      logError(error, "Error loading planned outfits");
     }
   };
 
-  const loadPlannedOutfits = () => {
-    const saved = localStorage.getItem("plannedOutfits");
-    if (saved) {
-      const outfits = JSON.parse(saved).map((outfit: any) => ({
+  // Create outfits, first removing any they replace
+  const addPlannedOutfits = async (
+    outfits: Omit<PlannedOutfit, "id">[],
+    replacing: PlannedOutfit[] = [],
+  ) => {
+    if (!user) return;
+    const repository = getRepositories().plannedOutfits;
+    const replacedIds = replacing.map((outfit) => outfit.id);
+
+    await repository.remove(replacedIds);
+    const created: PlannedOutfit[] = [];
+    for (const outfit of outfits) {
+      const record = await repository.create(user.id, toPlannedOutfitInput(outfit));
+      created.push({ ...outfit, id: record.id });
+    }
+    setPlannedOutfits((previous) => [
+      ...previous.filter((outfit) => !replacedIds.includes(outfit.id)),
+      ...created,
+    ]);
+  };
+
+  const updatePlannedOutfits = async (outfits: PlannedOutfit[]) => {
+    const repository = getRepositories().plannedOutfits;
+    for (const outfit of outfits) {
+      await repository.update(outfit.id, toPlannedOutfitInput(outfit));
+    }
+    setPlannedOutfits((previous) =>
+      previous.map((outfit) => outfits.find((updated) => updated.id === outfit.id) || outfit),
+    );
+  };
+
+  const removePlannedOutfits = async (outfitIds: string[]) => {
+    await getRepositories().plannedOutfits.remove(outfitIds);
+    setPlannedOutfits((previous) => previous.filter((outfit) => !outfitIds.includes(outfit.id)));
+  };
+
+  const showPlanError = (error: unknown, action: string) => {
+    logError(error, `Error trying to ${action}`);
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${getErrorMessage(error)}`,
+      variant: "destructive",
+    });
+  };
+
+  // Each day is planned against its own forecast; days beyond it fall back to today's weather
+  const getWeatherForDate = (
+    date: Date,
+  ): {
+    day: DailyForecast | null;
+    dayWeather: WeatherData | undefined;
+    hourly: HourlyForecast[];
+  } => {
+    const day = getForecastForDate(forecast, date);
+    return {
+      day,
+      dayWeather: forecast && day ? forecastToWeather(forecast, day) : weather || undefined,
+      hourly: getHourlyForSchedule(forecast, date),
+    };
+  };
+
+  const forecastCacheKey = (day: DailyForecast | null, window: ScheduleWindow = schedule) =>
+    day
+      ? `${day.condition}_${day.temperatureMin}_${day.temperatureMax}_${day.precipitationProbability}_${window.leave}_${window.return}`
+      : "current";
+
+  const updateSchedule = (change: Partial<ScheduleWindow>) => {
+    const updated = { ...schedule, ...change };
+    saveSchedule(updated);
+    setSchedule(updated);
+  };
+
+  const updateCalendars = (updated: ImportedCalendar[]) => {
+    saveImportedCalendars(updated);
+    setCalendars(updated);
+  };
+
+  const updateOccasionRules = (updated: OccasionRule[]) => {
+    saveOccasionRules(updated);
+    setOccasionRules(updated);
+  };
+
+  const calendarEvents = calendars.flatMap((calendar) => calendar.events);
+
+  // A slotted outfit is worn between its slot's times rather than the whole day
+  const scheduleFor = (slot?: PlannedSlot): ScheduleWindow =>
+    slot ? { leave: slot.start, return: slot.end } : schedule;
+
+  /**
+   * Calendar slots as planned outfits. Each outfit is worn until the next
+   * one goes on, and the first from when the user leaves. A day with a
+   * single slot needs no change, so its outfit is planned for the whole day.
+   */
+  const plannedSlotsFor = (slots: OccasionSlot[]): (PlannedSlot | undefined)[] =>
+    slots.map((slot, index) => {
+      if (slots.length === 1) return undefined;
+      const times = slotTimes(slot);
+      const next = slots[index + 1];
+      return {
+        ...toPlannedSlot(slot),
+        start: index === 0 && schedule.leave < times.start ? schedule.leave : times.start,
+        end: next ? slotTimes(next).start : times.end,
+      };
+    });
+
+  // Re-check upcoming plans whenever a newer forecast arrives
+  useEffect(() => {
+    if (!forecast || plannedOutfits.length === 0) return;
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const newlyFlagged: PlannedOutfit[] = [];
+
+    const reevaluated = plannedOutfits.map((outfit) => {
+      if (outfit.status !== "planned" || outfit.date < today) return outfit;
+      const day = getForecastForDate(forecast, outfit.date);
+      if (!day) return outfit;
+
+      // Planned before the day was in range: judge it against its first forecast
+      const reasons = outfit.forecast
+        ? detectForecastChange(outfit.forecast, day)
+        : ["Planned before a forecast was available"];
+      const weatherFit = simpleStyleAI.scoreWeatherFit(
+        outfit.items,
+        weatherForSchedule(
+          forecastToWeather(forecast, day),
+          getHourlyForSchedule(forecast, outfit.date),
+          scheduleFor(outfit.slot),
+        ),
+      );
+
+      if (!outfit.forecast && weatherFit >= POOR_WEATHER_FIT) {
+        return { ...outfit, forecast: snapshotForecast(forecast, day) };
+      }
+      if (!reasons) {
+        if (!outfit.forecastChange) return outfit;
+        return { ...outfit, forecastChange: undefined };
+      }
+
+      const previous = outfit.forecastChange;
+      if (
+        previous &&
+        previous.reasons.join("|") === reasons.join("|") &&
+        Math.abs(previous.weatherFit - weatherFit) < 0.01
+      ) {
+        return outfit;
+      }
+
+      const flagged = {
         ...outfit,
-        date: new Date(outfit.date),
-      }));
-      setPlannedOutfits(outfits);
+        forecastChange: {
+          reasons,
+          detectedAt: Date.now(),
+          forecast: snapshotForecast(forecast, day),
+          weatherFit,
+        },
+      };
+      if (!previous) newlyFlagged.push(flagged);
+      return flagged;
+    });
+
+    const updated = reevaluated.filter((outfit, index) => outfit !== plannedOutfits[index]);
+    if (updated.length === 0) return;
+    updatePlannedOutfits(updated).catch((error) =>
+      logError(error, "Error saving re-checked planned outfits"),
+    );
+
+    if (newlyFlagged.length > 0) {
+      toast({
+        title: "Forecast changed",
+        description: `${newlyFlagged.length} planned outfit${newlyFlagged.length === 1 ? "" : "s"} may need another look: ${newlyFlagged
+          .map((outfit) => outfit.date.toLocaleDateString("en-US", { weekday: "short" }))
+          .join(", ")}.`,
+      });
     }
+  }, [forecast, plannedOutfits, schedule]);
+
+  // Accept the new forecast for a flagged outfit and keep the outfit as planned
+  const keepOutfitForNewForecast = (outfit: PlannedOutfit) => {
+    if (!outfit.forecastChange) return;
+    updatePlannedOutfits([
+      { ...outfit, forecast: outfit.forecastChange.forecast, forecastChange: undefined },
+    ]).catch((error) => showPlanError(error, "update planned outfit"));
   };
 
-  const savePlannedOutfits = (outfits: PlannedOutfit[]) => {
-    localStorage.setItem("plannedOutfits", JSON.stringify(outfits));
-    setPlannedOutfits(outfits);
+  // Drop a plan the weather or the wardrobe no longer suits and generate a new one
+  const replanOutfit = async (outfit: PlannedOutfit) => {
+    try {
+      await removePlannedOutfits([outfit.id]);
+    } catch (error) {
+      showPlanError(error, "remove planned outfit");
+      return;
+    }
+    setSelectedDate(outfit.date);
+    setSelectedOccasion(outfit.occasion);
+    generateOutfitForDate(outfit.date, outfit.occasion, outfit.slot);
   };
 
-  const generateOutfitForDate = async () => {
+  const generateOutfitForDate = async (
+    date: Date = selectedDate,
+    occasion: string = selectedOccasion,
+    slot?: PlannedSlot,
+  ) => {
     if (wardrobeItems.length < 2) {
       toast({
         title: "Not enough items",
@@ -123,7 +519,7 @@ const OutfitPlanner: React.FC = () => {
       return;
     }
 
-    if (!profile) {
+    if (!user || !profile) {
       toast({
         title: "Profile required",
         description:
@@ -132,6 +528,7 @@ const OutfitPlanner: React.FC = () => {
       });
       return;
     }
+    const userId = user.id;
 
     setIsGenerating(true);
 
@@ -139,14 +536,14 @@ const OutfitPlanner: React.FC = () => {
       // Filter items suitable for the occasion
       const suitableItems = wardrobeItems.filter(
         (item) =>
-          item.occasion.includes(selectedOccasion) ||
+          item.occasion.includes(occasion) ||
           item.occasion.includes("casual"),
       );
 
       if (suitableItems.length < 2) {
         toast({
           title: "No suitable items",
-          description: `No items found for ${selectedOccasion} occasions. Try adding more items to your wardrobe.`,
+          description: `No items found for ${occasion} occasions. Try adding more items to your wardrobe.`,
           variant: "destructive",
         });
         return;
@@ -160,17 +557,22 @@ const OutfitPlanner: React.FC = () => {
         goals: profile.goals || [],
       };
 
+      const { day, dayWeather, hourly } = getWeatherForDate(date);
+      const window = scheduleFor(slot);
+
       // Use cached execution for AI recommendations
       const recommendations = await executeWithCache(
-        `outfit_planner_${selectedOccasion}_${selectedDate.getTime()}_${user.id}`,
+        `outfit_planner_${occasion}_${date.getTime()}_${userId}_${forecastCacheKey(day, window)}`,
         async () =>
           simpleStyleAI.generateRecommendations(
             suitableItems,
             styleProfile,
             {
-              occasion: selectedOccasion,
-              timeOfDay: "day",
-              weather: weather || undefined,
+              occasion,
+              timeOfDay: slot ? timeOfDayAt(slot.start) : "day",
+              weather: dayWeather,
+              hourly,
+              schedule: window,
             },
             true, // Include accessories for planning
           ),
@@ -191,6 +593,7 @@ const OutfitPlanner: React.FC = () => {
       const bestOutfit = recommendations[0];
       setCurrentOutfit(bestOutfit.items);
       setCurrentOutfitDetails(bestOutfit);
+      setCurrentSlot(slot ?? null);
 
       toast({
         title: "Outfit Generated!",
@@ -208,7 +611,7 @@ const OutfitPlanner: React.FC = () => {
     }
   };
 
-  const saveOutfitForDate = () => {
+  const saveOutfitForDate = async () => {
     if (currentOutfit.length === 0) {
       toast({
         title: "No outfit to save",
@@ -218,26 +621,35 @@ const OutfitPlanner: React.FC = () => {
       return;
     }
 
-    const newOutfit: PlannedOutfit = {
-      id: Date.now().toString(),
+    const { day, dayWeather } = getWeatherForDate(selectedDate);
+    const newOutfit: Omit<PlannedOutfit, "id"> = {
       date: selectedDate,
       occasion: selectedOccasion,
       items: currentOutfit,
-      weather: weather?.condition || "mild",
+      status: "planned",
+      weather: dayWeather?.condition || "mild",
       confidence: currentOutfitDetails?.confidence,
       reasoning: currentOutfitDetails?.reasoning,
+      forecast: forecast && day ? snapshotForecast(forecast, day) : undefined,
+      slot: currentSlot ?? undefined,
     };
 
-    const updatedOutfits = [
-      ...plannedOutfits.filter(
-        (o) => o.date.toDateString() !== selectedDate.toDateString(),
-      ),
-      newOutfit,
-    ];
+    // An outfit for a slot keeps the day's other slots; one for the whole day replaces them
+    const replaced = plannedOutfits.filter(
+      (o) =>
+        o.date.toDateString() === selectedDate.toDateString() &&
+        !(currentSlot && o.slot && o.slot.start !== currentSlot.start),
+    );
 
-    savePlannedOutfits(updatedOutfits);
+    try {
+      await addPlannedOutfits([newOutfit], replaced);
+    } catch (error) {
+      showPlanError(error, "save outfit");
+      return;
+    }
     setCurrentOutfit([]);
     setCurrentOutfitDetails(null);
+    setCurrentSlot(null);
 
     toast({
       title: "Outfit Saved!",
@@ -245,12 +657,51 @@ const OutfitPlanner: React.FC = () => {
     });
   };
 
-  const getOutfitForDate = (date: Date): PlannedOutfit | undefined => {
-    return plannedOutfits.find(
-      (outfit) => outfit.date.toDateString() === date.toDateString(),
+  const markOutfitAsWorn = async (outfit: PlannedOutfit) => {
+    if (!user) return;
+
+    try {
+      await getRepositories().wearLogs.log(
+        user.id,
+        outfit.items.map((item) => item.id),
+        toWearDate(outfit.date),
+        outfit.id,
+      );
+      await updatePlannedOutfits([{ ...outfit, status: "worn" }]);
+      await RecommenderHistory.load(user.id, wardrobeItems);
+
+      toast({
+        title: "Marked as worn",
+        description: `Logged ${outfit.items.length} items for ${outfit.date.toLocaleDateString()}.`,
+      });
+    } catch (error) {
+      logError(error, "Error logging worn outfit");
+      toast({
+        title: "Error",
+        description: `Failed to log outfit: ${getErrorMessage(error)}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const skipPlannedOutfit = (outfit: PlannedOutfit) =>
+    updatePlannedOutfits([{ ...outfit, status: "skipped" }]).catch((error) =>
+      showPlanError(error, "update planned outfit"),
+    );
+
+  const savePlanNotes = (outfit: PlannedOutfit, notes: string) => {
+    if ((outfit.notes || "") === notes.trim()) return;
+    updatePlannedOutfits([{ ...outfit, notes: notes.trim() || undefined }]).catch((error) =>
+      showPlanError(error, "save notes"),
     );
   };
 
+  const getOutfitsForDate = (date: Date): PlannedOutfit[] => {
+    return plannedOutfits
+      .filter((outfit) => outfit.date.toDateString() === date.toDateString())
+      .sort(compareSlots);
+  };
+
   const getSeason = (month: number): string => {
     if (month >= 2 && month <= 4) return "spring";
     if (month >= 5 && month <= 7) return "summer";
@@ -259,7 +710,7 @@ const OutfitPlanner: React.FC = () => {
   };
 
   const generateWeeklyOutfits = async () => {
-    if (!profile) {
+    if (!user || !profile) {
       toast({
         title: "Profile required",
         description:
@@ -268,12 +719,13 @@ const OutfitPlanner: React.FC = () => {
       });
       return;
     }
+    const userId = user.id;
 
     setIsGenerating(true);
 
     try {
       const startDate = new Date(selectedDate);
-      const weeklyOutfits: PlannedOutfit[] = [];
+      const weeklyOutfits: Omit<PlannedOutfit, "id">[] = [];
 
       // Create style profile
       const styleProfile: StyleProfile = {
@@ -287,8 +739,8 @@ const OutfitPlanner: React.FC = () => {
         const currentDate = new Date(startDate);
         currentDate.setDate(startDate.getDate() + i);
 
-        // Skip if outfit already exists for this date
-        if (getOutfitForDate(currentDate)) continue;
+        // Skip if outfits already exist for this date
+        if (getOutfitsForDate(currentDate).length > 0) continue;
 
         // Determine occasion based on day of week
         const dayOfWeek = currentDate.getDay();
@@ -301,26 +753,41 @@ const OutfitPlanner: React.FC = () => {
           occasion = "casual"; // Sunday
         }
 
-        // Filter items for this occasion
-        const suitableItems = wardrobeItems.filter(
-          (item) =>
-            item.occasion.includes(occasion) ||
-            item.occasion.includes("casual"),
-        );
+        // Calendar events take over from the weekday, with an outfit for each change
+        const slots = planDaySlots(calendarEvents, currentDate, occasionRules);
+        const plannedSlots = plannedSlotsFor(slots);
+        const plans: { occasion: string; slot?: PlannedSlot }[] =
+          slots.length > 0
+            ? slots.map((slot, index) => ({ occasion: slot.occasion, slot: plannedSlots[index] }))
+            : [{ occasion }];
+        const dayOutfits: Omit<PlannedOutfit, "id">[] = [];
+
+        for (const plan of plans) {
+          // Filter items for this occasion
+          const suitableItems = wardrobeItems.filter(
+            (item) =>
+              item.occasion.includes(plan.occasion) ||
+              item.occasion.includes("casual"),
+          );
+          if (suitableItems.length < 2) continue;
 
-        if (suitableItems.length >= 2) {
           try {
+            const { day, dayWeather, hourly } = getWeatherForDate(currentDate);
+            const window = scheduleFor(plan.slot);
+
             // Use cached execution for each day's outfit
             const recommendations = await executeWithCache(
-              `weekly_outfit_${occasion}_${currentDate.getTime()}_${user.id}`,
+              `weekly_outfit_${plan.occasion}_${currentDate.getTime()}_${plan.slot?.start ?? "day"}_${userId}_${forecastCacheKey(day, window)}`,
               async () =>
                 simpleStyleAI.generateRecommendations(
                   suitableItems,
                   styleProfile,
                   {
-                    occasion,
-                    timeOfDay: "day",
-                    weather: weather || undefined,
+                    occasion: plan.occasion,
+                    timeOfDay: plan.slot ? timeOfDayAt(plan.slot.start) : "day",
+                    weather: dayWeather,
+                    hourly,
+                    schedule: window,
                   },
                   true, // Include accessories
                 ),
@@ -328,15 +795,22 @@ const OutfitPlanner: React.FC = () => {
             );
 
             if (recommendations.length > 0) {
-              const bestOutfit = recommendations[0];
-              weeklyOutfits.push({
-                id: `${currentDate.getTime()}`,
+              // A change of outfit should look like one
+              const previous = dayOutfits[dayOutfits.length - 1];
+              const bestOutfit =
+                (previous &&
+                  recommendations.find((r) => !sharesCoreItems(r.items, previous.items))) ||
+                recommendations[0];
+              dayOutfits.push({
                 date: currentDate,
-                occasion,
+                occasion: plan.occasion,
                 items: bestOutfit.items,
-                weather: weather?.condition || "mild",
+                status: "planned",
+                weather: dayWeather?.condition || "mild",
                 confidence: bestOutfit.confidence,
                 reasoning: bestOutfit.reasoning,
+                forecast: forecast && day ? snapshotForecast(forecast, day) : undefined,
+                slot: plan.slot,
               });
             }
           } catch (error) {
@@ -347,10 +821,11 @@ const OutfitPlanner: React.FC = () => {
             // Continue with other days even if one fails
           }
         }
+
+        weeklyOutfits.push(...dayOutfits);
       }
 
-      const updatedOutfits = [...plannedOutfits, ...weeklyOutfits];
-      savePlannedOutfits(updatedOutfits);
+      await addPlannedOutfits(weeklyOutfits);
 
       toast({
         title: "Weekly Outfits Generated!",
@@ -368,7 +843,24 @@ const OutfitPlanner: React.FC = () => {
     }
   };
 
-  const existingOutfit = getOutfitForDate(selectedDate);
+  const selectedDayOutfits = getOutfitsForDate(selectedDate);
+  const existingOutfit: PlannedOutfit | undefined =
+    selectedDayOutfits[Math.min(selectedSlot, selectedDayOutfits.length - 1)];
+  const showingPlanned = existingOutfit && currentOutfit.length === 0;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const selectedDayForecast = getForecastForDate(forecast, selectedDate);
+  const selectedDayEvents = eventsOnDate(calendarEvents, selectedDate);
+  const selectedDaySlots = planDaySlots(calendarEvents, selectedDate, occasionRules);
+  const selectedDayPlannedSlots = plannedSlotsFor(selectedDaySlots);
+  // Planned outfits follow the latest forecast, so their plan is worked out when shown
+  const existingOutfitPlan = existingOutfit
+    ? buildLayeringPlan(
+        existingOutfit.items,
+        getHourlyForSchedule(forecast, existingOutfit.date),
+        scheduleFor(existingOutfit.slot),
+      )
+    : null;
 
   return (
     <div className="space-y-6">
@@ -385,7 +877,11 @@ const OutfitPlanner: React.FC = () => {
             <Calendar
               mode="single"
               selected={selectedDate}
-              onSelect={(date) => date && setSelectedDate(date)}
+              onSelect={(date) => {
+                if (!date) return;
+                setSelectedDate(date);
+                setSelectedSlot(0);
+              }}
               className="rounded-md border"
               modifiers={{
                 planned: plannedOutfits.map((o) => o.date),
@@ -418,9 +914,32 @@ const OutfitPlanner: React.FC = () => {
                 </Select>
               </div>
 
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-sm font-medium">Leave at</label>
+                  <Input
+                    type="time"
+                    value={schedule.leave}
+                    onChange={(e) =>
+                      e.target.value && updateSchedule({ leave: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Back at</label>
+                  <Input
+                    type="time"
+                    value={schedule.return}
+                    onChange={(e) =>
+                      e.target.value && updateSchedule({ return: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <Button
-                  onClick={generateOutfitForDate}
+                  onClick={() => generateOutfitForDate()}
                   disabled={isGenerating}
                   className="w-full"
                 >
@@ -444,7 +963,7 @@ const OutfitPlanner: React.FC = () => {
         <Card className="shadow-card">
           <CardHeader>
             <CardTitle>
-              {existingOutfit ? "Planned Outfit" : "Generated Outfit"}
+              {showingPlanned ? "Planned Outfit" : "Generated Outfit"}
             </CardTitle>
             <CardDescription>
               {selectedDate.toLocaleDateString()} - {selectedOccasion}
@@ -453,11 +972,81 @@ const OutfitPlanner: React.FC = () => {
                   ({Math.round(currentOutfitDetails.confidence * 100)}% match)
                 </span>
               )}
+              {selectedDayForecast && (
+                <span className="block text-xs text-muted-foreground">
+                  {selectedDayForecast.icon} {selectedDayForecast.temperatureMin}–
+                  {selectedDayForecast.temperatureMax}°C ·{" "}
+                  {selectedDayForecast.precipitationProbability}% rain · UV{" "}
+                  {selectedDayForecast.uvIndexMax} · wind{" "}
+                  {selectedDayForecast.windSpeedMax} km/h
+                  {isForecastStale && " · forecast may be out of date"}
+                </span>
+              )}
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            {existingOutfit ? (
+          <CardContent className="space-y-4">
+            {selectedDaySlots.length > 0 ? (
+              <div className="rounded-lg border p-3 text-xs space-y-1">
+                <div className="font-medium">From your calendar</div>
+                {selectedDaySlots.map((slot, index) => (
+                  <div
+                    key={slot.start.getTime()}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <span className="text-muted-foreground">
+                      <span className="capitalize">{slot.occasion}</span> ·{" "}
+                      {describeSlot(slot)}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={isGenerating}
+                      onClick={() => {
+                        setSelectedOccasion(slot.occasion);
+                        generateOutfitForDate(
+                          selectedDate,
+                          slot.occasion,
+                          selectedDayPlannedSlots[index],
+                        );
+                      }}
+                    >
+                      Plan
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              selectedDayEvents.length > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  {selectedDayEvents.length} calendar event
+                  {selectedDayEvents.length === 1 ? "" : "s"} today, none matched by
+                  your occasion rules
+                </div>
+              )
+            )}
+            {showingPlanned ? (
               <div className="space-y-4">
+                {selectedDayOutfits.length > 1 && (
+                  <div className="flex gap-2">
+                    {selectedDayOutfits.map((outfit, index) => (
+                      <Button
+                        key={outfit.id}
+                        size="sm"
+                        variant={outfit.id === existingOutfit.id ? "default" : "outline"}
+                        className="flex-1 capitalize"
+                        onClick={() => setSelectedSlot(index)}
+                      >
+                        {outfit.slot?.start ?? "All day"} {outfit.occasion}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                {existingOutfit.slot && (
+                  <div className="text-xs text-muted-foreground">
+                    {existingOutfit.slot.start}–{existingOutfit.slot.end} ·{" "}
+                    {existingOutfit.slot.label}
+                  </div>
+                )}
                 <div className="grid grid-cols-2 gap-2">
                   {existingOutfit.items.slice(0, 4).map((item) => (
                     <div
@@ -496,16 +1085,109 @@ const OutfitPlanner: React.FC = () => {
                     %
                   </div>
                 )}
+                {existingOutfitPlan && <LayeringPlanDetails plan={existingOutfitPlan} />}
+                {existingOutfit.missingItemIds && (
+                  <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-xs space-y-2">
+                    <div className="font-medium text-amber-900">
+                      {existingOutfit.missingItemIds.length} item
+                      {existingOutfit.missingItemIds.length === 1 ? " has" : "s have"} been
+                      removed from your wardrobe since this was planned
+                    </div>
+                    {existingOutfit.status === "planned" && (
+                      <Button
+                        size="sm"
+                        className="w-full"
+                        disabled={isGenerating}
+                        onClick={() => replanOutfit(existingOutfit)}
+                      >
+                        Re-plan
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {existingOutfit.forecastChange && (
+                  <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-xs space-y-2">
+                    <div className="font-medium text-amber-900">
+                      The forecast has changed since this was planned
+                    </div>
+                    {existingOutfit.forecastChange.reasons.map((reason) => (
+                      <div key={reason} className="text-amber-800">
+                        • {reason}
+                      </div>
+                    ))}
+                    <div
+                      className={
+                        existingOutfit.forecastChange.weatherFit < POOR_WEATHER_FIT
+                          ? "text-red-700"
+                          : "text-muted-foreground"
+                      }
+                    >
+                      {existingOutfit.forecastChange.weatherFit < POOR_WEATHER_FIT
+                        ? "This outfit is a poor match for the new forecast"
+                        : "This outfit should still work"}{" "}
+                      ({Math.round(existingOutfit.forecastChange.weatherFit * 100)}% weather fit)
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        className="flex-1"
+                        disabled={isGenerating}
+                        onClick={() => replanOutfit(existingOutfit)}
+                      >
+                        Re-plan
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1"
+                        onClick={() => keepOutfitForNewForecast(existingOutfit)}
+                      >
+                        Keep Outfit
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                <Input
+                  key={existingOutfit.id}
+                  placeholder="Notes for this outfit"
+                  defaultValue={existingOutfit.notes || ""}
+                  onBlur={(e) => savePlanNotes(existingOutfit, e.target.value)}
+                />
+                {existingOutfit.status === "planned" ? (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      disabled={existingOutfit.date > new Date()}
+                      onClick={() => markOutfitAsWorn(existingOutfit)}
+                    >
+                      Mark as Worn
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      disabled={existingOutfit.date > new Date()}
+                      onClick={() => skipPlannedOutfit(existingOutfit)}
+                    >
+                      Didn't Wear
+                    </Button>
+                  </div>
+                ) : (
+                  <Button variant="outline" size="sm" className="w-full" disabled>
+                    {existingOutfit.status === "worn" ? "Worn" : "Not worn"}
+                  </Button>
+                )}
                 <Button
                   variant="destructive"
                   size="sm"
                   className="w-full"
-                  onClick={() => {
-                    const updated = plannedOutfits.filter(
-                      (o) => o.id !== existingOutfit.id,
-                    );
-                    savePlannedOutfits(updated);
-                  }}
+                  onClick={() =>
+                    removePlannedOutfits([existingOutfit.id]).catch((error) =>
+                      showPlanError(error, "remove planned outfit"),
+                    )
+                  }
                 >
                   Remove Planned Outfit
                 </Button>
@@ -555,15 +1237,19 @@ const OutfitPlanner: React.FC = () => {
                         ))}
                     </div>
                   )}
+                {currentOutfitDetails?.layeringPlan && (
+                  <LayeringPlanDetails plan={currentOutfitDetails.layeringPlan} />
+                )}
                 <div className="flex gap-2">
                   <Button onClick={saveOutfitForDate} className="flex-1">
-                    Save for Date
+                    {currentSlot ? `Save for ${currentSlot.start}` : "Save for Date"}
                   </Button>
                   <Button
                     variant="outline"
                     onClick={() => {
                       setCurrentOutfit([]);
                       setCurrentOutfitDetails(null);
+                      setCurrentSlot(null);
                     }}
                   >
                     Clear
@@ -606,8 +1292,8 @@ const OutfitPlanner: React.FC = () => {
           <CardContent>
             <div className="space-y-4">
               {plannedOutfits
-                .filter((outfit) => outfit.date >= new Date())
-                .sort((a, b) => a.date.getTime() - b.date.getTime())
+                .filter((outfit) => outfit.date >= today)
+                .sort((a, b) => a.date.getTime() - b.date.getTime() || compareSlots(a, b))
                 .slice(0, 5)
                 .map((outfit) => (
                   <div
@@ -635,6 +1321,21 @@ const OutfitPlanner: React.FC = () => {
                           </span>
                         )}
                       </p>
+                      {outfit.slot && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {outfit.slot.start} · {outfit.slot.label}
+                        </p>
+                      )}
+                      {outfit.forecastChange && (
+                        <p className="text-xs text-amber-700">
+                          ⚠ Forecast changed: {outfit.forecastChange.reasons[0]}
+                        </p>
+                      )}
+                      {outfit.missingItemIds && (
+                        <p className="text-xs text-amber-700">
+                          ⚠ Items removed from your wardrobe
+                        </p>
+                      )}
                     </div>
                     <div className="flex -space-x-1">
                       {outfit.items.slice(0, 3).map((item, index) => (
@@ -650,8 +1351,7 @@ const OutfitPlanner: React.FC = () => {
                   </div>
                 ))}
 
-              {plannedOutfits.filter((outfit) => outfit.date >= new Date())
-                .length === 0 && (
+              {plannedOutfits.filter((outfit) => outfit.date >= today).length === 0 && (
                 <p className="text-sm text-muted-foreground text-center py-4">
                   No upcoming outfits planned
                 </p>
@@ -660,6 +1360,14 @@ const OutfitPlanner: React.FC = () => {
           </CardContent>
         </Card>
       </div>
+
+      <CalendarImport
+        calendars={calendars}
+        onCalendarsChange={updateCalendars}
+        rules={occasionRules}
+        onRulesChange={updateOccasionRules}
+        occasions={occasions}
+      />
     </div>
   );
 };
@@ -22,7 +22,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
 
 interface Product {
   id: string;
@@ -62,14 +62,8 @@ export const SmartShoppingSuggestions = () => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from("wardrobe_items")
-        .select("id")
-        .eq("user_id", user.id)
-        .limit(1);
-
-      if (error) throw error;
-      setHasWardrobe(data && data.length > 0);
+      const items = await getRepositories().wardrobe.list(user.id);
+      setHasWardrobe(items.length > 0);
     } catch (error) {
       console.error("Error checking wardrobe:", error);
       setHasWardrobe(false);
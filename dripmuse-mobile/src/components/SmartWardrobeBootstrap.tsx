@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { getRepositories } from '@/services/repositoryProvider';
+import type { WardrobeItem } from '@/lib/wardrobeSchema';
 import { useToast } from '@/hooks/use-toast';
 import { Sparkles, Plus, Check, Loader2 } from 'lucide-react';
 
@@ -22,13 +24,6 @@ interface CuratedItem {
   popularity_score: number;
 }
 
-interface WardrobeItem {
-  id: string;
-  category: string;
-  style: string;
-  color: string[];
-}
-
 export const SmartWardrobeBootstrap: React.FC = () => {
   const [userItems, setUserItems] = useState<WardrobeItem[]>([]);
   const [suggestions, setSuggestions] = useState<CuratedItem[]>([]);
@@ -49,14 +44,9 @@ export const SmartWardrobeBootstrap: React.FC = () => {
 
     try {
       // Get user's current wardrobe
-      const { data: wardrobe, error: wardrobeError } = await supabase
-        .from('wardrobe_items')
-        .select('id, category, style, color')
-        .eq('user_id', user.id);
+      const wardrobe = await getRepositories().wardrobe.list(user.id);
 
-      if (wardrobeError) throw wardrobeError;
-
-      setUserItems(wardrobe || []);
+      setUserItems(wardrobe);
 
       // Get curated suggestions
       const { data: curated, error: curatedError } = await supabase
@@ -96,20 +86,15 @@ export const SmartWardrobeBootstrap: React.FC = () => {
     setAdding(prev => new Set(prev).add(item.id));
     
     try {
-      const { error } = await supabase
-        .from('wardrobe_items')
-        .insert({
-          user_id: user.id,
-          name: item.name,
-          category: item.category,
-          style: item.style,
-          color: item.color,
-          occasion: item.occasion,
-          season: item.season,
-          photo_url: item.image_url || 'https://via.placeholder.com/300x400?text=No+Image'
-        });
-
-      if (error) throw error;
+      await getRepositories().wardrobe.create(user.id, {
+        name: item.name,
+        category: item.category,
+        style: item.style,
+        color: item.color,
+        occasion: item.occasion,
+        season: item.season,
+        photo_url: item.image_url || 'https://via.placeholder.com/300x400?text=No+Image'
+      });
 
       setAddedItems(prev => new Set(prev).add(item.id));
       toast({
@@ -7,7 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Progress } from '@/components/ui/progress';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
+import { getRepositories } from '@/services/repositoryProvider';
 import { useToast } from '@/hooks/use-toast';
 import { Sparkles, ArrowRight, ArrowLeft } from 'lucide-react';
 
@@ -128,7 +128,6 @@ export const StyleQuiz: React.FC<{ onComplete: (results: any) => void }> = ({ on
     setIsSubmitting(true);
     try {
       const quizData = {
-        user_id: user.id,
         style_personality: answers.style_personality as string,
         color_preferences: answers.color_preferences as string[],
         lifestyle: answers.lifestyle as string,
@@ -139,18 +138,14 @@ export const StyleQuiz: React.FC<{ onComplete: (results: any) => void }> = ({ on
         confidence_score: 0.85
       };
 
-      const { error } = await supabase
-        .from('user_style_quiz')
-        .upsert(quizData, { onConflict: 'user_id' });
-
-      if (error) throw error;
+      const savedQuiz = await getRepositories().quiz.upsert(user.id, quizData);
 
       toast({
         title: "Style Quiz Complete!",
         description: "Your style profile has been created successfully."
       });
 
-      onComplete(quizData);
+      onComplete(savedQuiz);
     } catch (error) {
       console.error('Error saving quiz results:', error);
       toast({
@@ -21,6 +21,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   Sparkles,
   Heart,
+  ThumbsDown,
+  Shirt,
   Eye,
   ShoppingBag,
   Loader2,
@@ -31,13 +33,19 @@ import {
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useProfile } from "@/hooks/useProfile";
-import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
+import { RecommenderHistory } from "@/services/recommenderHistory";
+import { OutfitFeedbackType } from "@/services/repositories";
 import {
   simpleStyleAI,
   OutfitRecommendation,
   WardrobeItem,
   StyleProfile,
 } from "@/lib/simpleStyleAI";
+import {
+  COLOR_VISION_DEFICIENCIES,
+  DistinguishabilityWarning,
+} from "@/lib/colorVision";
 import AdvancedVirtualTryOn from "./AdvancedVirtualTryOn";
 import { useWeather } from "@/hooks/useWeather";
 import { usePerformance } from "@/hooks/usePerformance";
@@ -53,6 +61,29 @@ const safeStyleAI = simpleStyleAI || {
   }
 };
 
+// One line per garment pair, listing every deficiency that merges it
+const describeColorVisionWarnings = (
+  warnings: DistinguishabilityWarning[],
+): string[] => {
+  const byPair = new Map<string, { names: string; labels: string[] }>();
+  warnings.forEach((warning) => {
+    const key = warning.itemIds.join("|");
+    const label =
+      COLOR_VISION_DEFICIENCIES.find((entry) => entry.id === warning.deficiency)
+        ?.label ?? warning.deficiency;
+    const entry = byPair.get(key) ?? {
+      names: warning.itemNames.join(" and "),
+      labels: [],
+    };
+    entry.labels.push(label.toLowerCase());
+    byPair.set(key, entry);
+  });
+  return Array.from(byPair.values()).map(
+    ({ names, labels }) =>
+      `${names} may be hard to tell apart with ${labels.join(", ")}`,
+  );
+};
+
 // Enhanced color harmony detection with advanced color theory
 const isColorHarmonious = (color1: string, color2: string): boolean => {
   const c1 = color1.toLowerCase();
@@ -228,6 +259,9 @@ const StyleRecommendations: React.FC = () => {
   const [selectedOutfit, setSelectedOutfit] =
     useState<OutfitRecommendation | null>(null);
   const [showTryOn, setShowTryOn] = useState(false);
+  const [outfitFeedback, setOutfitFeedback] = useState<
+    Record<string, OutfitFeedbackType>
+  >({});
 
   // User preferences state
   const [selectedOccasion, setSelectedOccasion] = useState<string>("casual");
@@ -284,12 +318,10 @@ const StyleRecommendations: React.FC = () => {
         }
       }
 
-      const { data: items, error: fetchError } = await supabase
-        .from("wardrobe_items")
-        .select("*")
-        .eq("user_id", user.id);
-
-      if (fetchError) {
+      let items;
+      try {
+        items = await getRepositories().wardrobe.list(user.id);
+      } catch (fetchError) {
         const errorMessage = getErrorMessage(fetchError);
         logError(fetchError, "Error fetching wardrobe items in StyleRecommendations");
         throw new Error(
@@ -325,6 +357,8 @@ const StyleRecommendations: React.FC = () => {
           occasion: Array.isArray(item.occasion) ? item.occasion : ["casual"],
           season: Array.isArray(item.season) ? item.season : ["all"],
           tags: Array.isArray(item.tags) ? item.tags : [],
+          purchase_price: item.purchase_price,
+          purchase_date: item.purchase_date,
         }));
 
       setWardrobeItems(mappedItems);
@@ -618,6 +652,13 @@ const StyleRecommendations: React.FC = () => {
     };
   }, [debounce, loadRecommendations]);
 
+  // Wear logs and past feedback personalise the recommender
+  useEffect(() => {
+    if (!user || wardrobeItems.length === 0) return;
+
+    RecommenderHistory.load(user.id, wardrobeItems);
+  }, [user, wardrobeItems]);
+
   useEffect(() => {
     if (wardrobeItems.length > 0 && debouncedLoadRecommendationsRef.current) {
       try {
@@ -633,26 +674,26 @@ const StyleRecommendations: React.FC = () => {
     setShowTryOn(true);
   };
 
-  const handleLike = async (outfitId: string) => {
-    if (!user) return;
+  const handleFeedback = async (
+    outfit: OutfitRecommendation,
+    feedback: OutfitFeedbackType,
+  ) => {
+    if (!user || outfitFeedback[outfit.id] === feedback) return;
 
     try {
-      const outfit = recommendations.find((r) => r.id === outfitId);
-      if (!outfit) return;
-
-      const { error } = await supabase.from("outfit_feedback").insert({
-        user_id: user.id,
-        feedback: "like",
-        outfit_item_ids: outfit.items.map((i) => i.id),
-      });
-
-      if (error) {
-        console.error("Error saving feedback:", error);
-      } else {
-        console.log("Outfit feedback saved successfully");
-      }
+      setOutfitFeedback((prev) => ({ ...prev, [outfit.id]: feedback }));
+      await RecommenderHistory.recordFeedback(
+        user.id,
+        outfit,
+        feedback,
+        wardrobeItems,
+      );
     } catch (error) {
-      console.error("Error saving feedback:", error);
+      logError(error, "Error saving outfit feedback");
+      setOutfitFeedback((prev) => {
+        const { [outfit.id]: _removed, ...rest } = prev;
+        return rest;
+      });
     }
   };
 
@@ -792,6 +833,9 @@ const StyleRecommendations: React.FC = () => {
                   <p className="text-xs text-muted-foreground">
                     {weather.description} ��� {Math.round(weather.temperature)}°C
                   </p>
+                  <p className="text-xs text-muted-foreground">
+                    {getWeatherStatus?.()}
+                  </p>
                 </div>
               </div>
               <Badge variant="secondary">{getWeatherAdvice?.(weather) || "Weather info"}</Badge>
@@ -964,11 +1008,28 @@ const StyleRecommendations: React.FC = () => {
                   <div className="flex space-x-2">
                     <Button
                       size="sm"
-                      variant="outline"
-                      onClick={() => handleLike(outfit.id)}
+                      variant={outfitFeedback[outfit.id] === "like" ? "default" : "outline"}
+                      onClick={() => handleFeedback(outfit, "like")}
+                      title="Love this outfit"
                     >
                       <Heart className="h-4 w-4" />
                     </Button>
+                    <Button
+                      size="sm"
+                      variant={outfitFeedback[outfit.id] === "dislike" ? "default" : "outline"}
+                      onClick={() => handleFeedback(outfit, "dislike")}
+                      title="Not for me"
+                    >
+                      <ThumbsDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={outfitFeedback[outfit.id] === "wore" ? "default" : "outline"}
+                      onClick={() => handleFeedback(outfit, "wore")}
+                      title="I wore this today"
+                    >
+                      <Shirt className="h-4 w-4" />
+                    </Button>
                     <Button
                       size="sm"
                       variant="outline"
@@ -991,6 +1052,20 @@ const StyleRecommendations: React.FC = () => {
                     ))}
                   </div>
                 </div>
+
+                {outfit.colorVisionWarnings &&
+                  outfit.colorVisionWarnings.length > 0 && (
+                    <div className="mt-3 flex items-start gap-2 rounded-md bg-amber-50 p-2 text-xs text-amber-800">
+                      <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                      <div>
+                        {describeColorVisionWarnings(
+                          outfit.colorVisionWarnings,
+                        ).map((line) => (
+                          <p key={line}>{line}</p>
+                        ))}
+                      </div>
+                    </div>
+                  )}
               </CardContent>
             </Card>
           ))}
@@ -9,7 +9,32 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
+import { resolveColorHex, resolveColorName } from "@/lib/colorNames";
+import {
+  buildWearLedger,
+  getNeglectedItems,
+  rankByCostPerWear,
+  summarizeWear,
+  DEFAULT_NEGLECTED_AFTER_DAYS,
+  WearSummary,
+} from "@/lib/wearAnalytics";
+
+interface ItemWearRow {
+  id: string;
+  name: string;
+  wearCount: number;
+  lastWornOn: string | null;
+  daysSinceWorn: number | null;
+  costPerWear: number | null;
+}
+
+interface WearStats {
+  summary: WearSummary;
+  bestValue: ItemWearRow[];
+  recentlyWorn: ItemWearRow[];
+  neglected: ItemWearRow[];
+}
 
 interface WardrobeStats {
   totalItems: number;
@@ -20,6 +45,7 @@ interface WardrobeStats {
   occasionCoverage: Record<string, number>;
   mostUsedColors: string[];
   gapsInWardrobe: string[];
+  wear: WearStats | null;
 }
 
 export const WardrobeAnalytics = () => {
@@ -37,12 +63,7 @@ export const WardrobeAnalytics = () => {
     if (!user) return;
 
     try {
-      const { data: items, error } = await supabase
-        .from("wardrobe_items")
-        .select("*")
-        .eq("user_id", user.id);
-
-      if (error) throw error;
+      const items = await getRepositories().wardrobe.list(user.id);
 
       if (!items || items.length === 0) {
         setStats({
@@ -54,6 +75,7 @@ export const WardrobeAnalytics = () => {
           occasionCoverage: {},
           mostUsedColors: [],
           gapsInWardrobe: ["Add more items to see analytics"],
+          wear: null,
         });
         setLoading(false);
         return;
@@ -73,7 +95,9 @@ export const WardrobeAnalytics = () => {
         (acc, item) => {
           if (item.color) {
             item.color.forEach((color: string) => {
-              acc[color] = (acc[color] || 0) + 1;
+              // "Navy", "navy " and "nvy" all count as navy
+              const name = resolveColorName(color)?.name ?? color;
+              acc[name] = (acc[name] || 0) + 1;
             });
           }
           return acc;
@@ -131,6 +155,32 @@ export const WardrobeAnalytics = () => {
         seasonalCoverage,
       );
 
+      // Wear history and cost per wear
+      const wearLogs = await getRepositories().wearLogs.list(user.id);
+      const ledger = buildWearLedger(items, wearLogs);
+      const toRow = (item: (typeof items)[number]): ItemWearRow => {
+        const itemStats = ledger.get(item.id)!;
+        return {
+          id: item.id,
+          name: item.name,
+          wearCount: itemStats.wearCount,
+          lastWornOn: itemStats.lastWornOn,
+          daysSinceWorn: itemStats.daysSinceWorn,
+          costPerWear: itemStats.costPerWear,
+        };
+      };
+
+      const wear: WearStats = {
+        summary: summarizeWear(items, ledger),
+        bestValue: rankByCostPerWear(items, ledger).slice(0, 5).map(toRow),
+        recentlyWorn: items
+          .map(toRow)
+          .filter((row) => row.lastWornOn)
+          .sort((a, b) => b.lastWornOn!.localeCompare(a.lastWornOn!))
+          .slice(0, 5),
+        neglected: getNeglectedItems(items, ledger).slice(0, 5).map(toRow),
+      };
+
       setStats({
         totalItems: items.length,
         categoryBreakdown,
@@ -140,6 +190,7 @@ export const WardrobeAnalytics = () => {
         occasionCoverage,
         mostUsedColors,
         gapsInWardrobe,
+        wear,
       });
     } catch (error) {
       console.error("Error analyzing wardrobe:", error);
@@ -367,28 +418,96 @@ export const WardrobeAnalytics = () => {
           </CardContent>
         </Card>
       </div>
+
+      {stats.wear && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Cost per Wear */}
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle>Cost per Wear</CardTitle>
+              <CardDescription>
+                {stats.wear.summary.averageCostPerWear !== null
+                  ? `${formatPrice(stats.wear.summary.averageCostPerWear)} per wear on average`
+                  : "Add purchase prices to see value"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {stats.wear.bestValue.length > 0 ? (
+                stats.wear.bestValue.map((row) => (
+                  <div key={row.id} className="flex items-center justify-between">
+                    <span className="text-sm truncate">{row.name}</span>
+                    <Badge variant="outline">
+                      {formatPrice(row.costPerWear!)} · {row.wearCount}×
+                    </Badge>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No priced items yet
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Last Worn */}
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle>Last Worn</CardTitle>
+              <CardDescription>
+                {stats.wear.summary.totalWears} wears logged across{" "}
+                {stats.wear.summary.wornItemCount} items
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {stats.wear.recentlyWorn.length > 0 ? (
+                stats.wear.recentlyWorn.map((row) => (
+                  <div key={row.id} className="flex items-center justify-between">
+                    <span className="text-sm truncate">{row.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(`${row.lastWornOn}T00:00:00`).toLocaleDateString()}
+                    </span>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Mark outfits as worn to start tracking
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Neglected Items */}
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle>Not Worn in {DEFAULT_NEGLECTED_AFTER_DAYS} Days</CardTitle>
+              <CardDescription>
+                {stats.wear.summary.neglectedCount} items waiting for an outing
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {stats.wear.neglected.length > 0 ? (
+                stats.wear.neglected.map((row) => (
+                  <div key={row.id} className="flex items-center justify-between">
+                    <span className="text-sm truncate">{row.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {row.daysSinceWorn} days
+                    </span>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Everything is getting worn! 🎉
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   );
 };
 
-const getColorHex = (colorName: string): string => {
-  const colorMap: Record<string, string> = {
-    black: "#000000",
-    white: "#ffffff",
-    red: "#dc2626",
-    blue: "#2563eb",
-    green: "#16a34a",
-    yellow: "#eab308",
-    purple: "#7c3aed",
-    pink: "#ec4899",
-    orange: "#ea580c",
-    gray: "#6b7280",
-    brown: "#92400e",
-    navy: "#1e3a8a",
-    beige: "#f5f5dc",
-    cyan: "#06b6d4",
-    magenta: "#d946ef",
-  };
+const formatPrice = (value: number): string => `$${value.toFixed(2)}`;
 
-  return colorMap[colorName.toLowerCase()] || "#6b7280";
-};
+const getColorHex = (colorName: string): string =>
+  resolveColorHex(colorName) || "#6b7280";
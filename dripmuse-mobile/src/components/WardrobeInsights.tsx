@@ -10,7 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import { useProfile } from "@/hooks/useProfile";
-import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
 import { useNavigate } from "react-router-dom";
 
 interface WardrobeInsight {
@@ -39,12 +39,7 @@ export const WardrobeInsights = () => {
     if (!user) return;
 
     try {
-      const { data: items, error } = await supabase
-        .from("wardrobe_items")
-        .select("*")
-        .eq("user_id", user.id);
-
-      if (error) throw error;
+      const items = await getRepositories().wardrobe.list(user.id);
 
       const generatedInsights: WardrobeInsight[] = [];
 
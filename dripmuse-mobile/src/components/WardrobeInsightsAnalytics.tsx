@@ -5,7 +5,14 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
+import { getRepositories } from '@/services/repositoryProvider';
+import {
+  buildWearLedger,
+  getNeglectedItems,
+  summarizeWear,
+  DEFAULT_NEGLECTED_AFTER_DAYS,
+  WearSummary
+} from '@/lib/wearAnalytics';
 import { 
   Lightbulb, 
   ShoppingCart, 
@@ -34,6 +41,8 @@ interface WardrobeData {
   seasons: Record<string, number>;
   occasions: Record<string, number>;
   recentItems: number;
+  wear: WearSummary;
+  neglectedItems: string[];
 }
 
 export const WardrobeInsightsAnalytics = () => {
@@ -53,12 +62,7 @@ export const WardrobeInsightsAnalytics = () => {
     
     try {
       // Fetch user's wardrobe data
-      const { data: items, error } = await supabase
-        .from('wardrobe_items')
-        .select('*')
-        .eq('user_id', user?.id);
-
-      if (error) throw error;
+      const items = user ? await getRepositories().wardrobe.list(user.id) : [];
 
       if (!items || items.length === 0) {
         setInsights([{
@@ -73,6 +77,9 @@ export const WardrobeInsightsAnalytics = () => {
         return;
       }
 
+      const wearLogs = user ? await getRepositories().wearLogs.list(user.id) : [];
+      const ledger = buildWearLedger(items, wearLogs);
+
       // Analyze wardrobe data
       const data: WardrobeData = {
         totalItems: items.length,
@@ -109,7 +116,9 @@ export const WardrobeInsightsAnalytics = () => {
           const monthAgo = new Date();
           monthAgo.setMonth(monthAgo.getMonth() - 1);
           return created > monthAgo;
-        }).length
+        }).length,
+        wear: summarizeWear(items, ledger),
+        neglectedItems: getNeglectedItems(items, ledger).map(item => item.name)
       };
       
       // Generate insights based on actual data
@@ -215,6 +224,30 @@ export const WardrobeInsightsAnalytics = () => {
       });
     }
 
+    // Wear tracking insights
+    if (data.neglectedItems.length > 0) {
+      const examples = data.neglectedItems.slice(0, 3).join(', ');
+      insights.push({
+        id: 'neglected-items',
+        type: 'optimization',
+        title: 'Rediscover Forgotten Pieces',
+        description: `${data.neglectedItems.length} items haven't been worn in ${DEFAULT_NEGLECTED_AFTER_DAYS} days, including ${examples}. Style them into your next outfit or consider letting them go.`,
+        priority: data.neglectedItems.length > data.totalItems * 0.5 ? 'high' : 'medium',
+        actionable: true
+      });
+    }
+
+    if (data.wear.averageCostPerWear !== null) {
+      insights.push({
+        id: 'cost-per-wear',
+        type: 'trend',
+        title: 'Cost per Wear',
+        description: `Your priced pieces cost $${data.wear.averageCostPerWear.toFixed(2)} per wear on average across ${data.wear.totalWears} logged wears. Every outing brings that number down.`,
+        priority: 'low',
+        actionable: false
+      });
+    }
+
     // Growth insights
     if (data.recentItems > 0) {
       insights.push({
@@ -21,24 +21,13 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
+import type { WardrobeItem } from "@/lib/wardrobeSchema";
+import { toWearDate } from "@/lib/wearAnalytics";
+import { COLOR_DICTIONARY, resolveColorHex, resolveColorName } from "@/lib/colorNames";
 import { Loader2 } from "lucide-react";
 import { OptimizedImage } from "./OptimizedImage";
 
-interface WardrobeItem {
-  id: string;
-  name: string;
-  photo_url: string;
-  category: string;
-  color: string[];
-  style: string;
-  occasion: string[];
-  season: string[];
-  tags: string[];
-  created_at?: string;
-  updated_at?: string;
-}
-
 interface WardrobeItemCardProps {
   item: WardrobeItem;
   onUpdate: (id: string, updates: Partial<WardrobeItem>) => void;
@@ -56,6 +45,8 @@ export const WardrobeItemCard = ({
   const [editedItem, setEditedItem] = useState<WardrobeItem>(item);
   const [isSaving, setIsSaving] = useState(false);
   const [isFindingSimilar, setIsFindingSimilar] = useState(false);
+  const [isLoggingWear, setIsLoggingWear] = useState(false);
+  const [customColor, setCustomColor] = useState("");
 
   // Reset edited item when dialog opens/closes or item changes
   useEffect(() => {
@@ -91,41 +82,45 @@ export const WardrobeItemCard = ({
     "date",
   ];
   const seasons = ["spring", "summer", "fall", "winter"];
-  const availableColors = [
-    "black",
-    "white",
-    "red",
-    "blue",
-    "green",
-    "yellow",
-    "purple",
-    "pink",
-    "orange",
-    "gray",
-    "brown",
-    "navy",
-    "beige",
-  ];
+  const availableColors = COLOR_DICTIONARY.filter((color) => color.basic).map(
+    (color) => color.name,
+  );
+
+  const addCustomColor = () => {
+    const match = resolveColorName(customColor);
+    if (!match) {
+      toast({
+        title: "Unknown Color",
+        description: `We couldn't find a color called "${customColor}".`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setEditedItem((prev) => ({
+      ...prev,
+      color: prev.color.includes(match.name)
+        ? prev.color
+        : [...prev.color, match.name],
+    }));
+    setCustomColor("");
+  };
 
   const handleSave = async () => {
     setIsSaving(true);
 
     try {
-      const { error } = await supabase
-        .from("wardrobe_items")
-        .update({
-          name: editedItem.name,
-          category: editedItem.category,
-          color: editedItem.color,
-          style: editedItem.style,
-          occasion: editedItem.occasion,
-          season: editedItem.season,
-          tags: editedItem.tags,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", item.id);
-
-      if (error) throw error;
+      await getRepositories().wardrobe.update(item.id, {
+        name: editedItem.name,
+        category: editedItem.category,
+        color: editedItem.color,
+        style: editedItem.style,
+        occasion: editedItem.occasion,
+        season: editedItem.season,
+        tags: editedItem.tags,
+        purchase_price: editedItem.purchase_price,
+        purchase_date: editedItem.purchase_date,
+      });
 
       onUpdate(item.id, editedItem);
       setIsEditing(false);
@@ -148,12 +143,7 @@ export const WardrobeItemCard = ({
 
   const handleDelete = async () => {
     try {
-      const { error } = await supabase
-        .from("wardrobe_items")
-        .delete()
-        .eq("id", item.id);
-
-      if (error) throw error;
+      await getRepositories().wardrobe.remove([item.id]);
 
       onDelete(item.id);
       setIsEditing(false); // Close the dialog after successful deletion
@@ -172,6 +162,28 @@ export const WardrobeItemCard = ({
     }
   };
 
+  const handleMarkWorn = async () => {
+    setIsLoggingWear(true);
+
+    try {
+      await getRepositories().wearLogs.log(item.user_id, [item.id], toWearDate(new Date()));
+
+      toast({
+        title: "Marked as Worn",
+        description: `${item.name} logged as worn today.`,
+      });
+    } catch (error) {
+      console.error("Error logging wear:", error);
+      toast({
+        title: "Logging Failed",
+        description: "Failed to mark the item as worn. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoggingWear(false);
+    }
+  };
+
   const toggleArrayValue = (array: string[], value: string) => {
     return array.includes(value)
       ? array.filter((item) => item !== value)
@@ -374,6 +386,27 @@ export const WardrobeItemCard = ({
                   />
                 ))}
               </div>
+              <div className="flex gap-2 mt-2">
+                <Input
+                  value={customColor}
+                  onChange={(e) => setCustomColor(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addCustomColor();
+                    }
+                  }}
+                  placeholder="Another color, e.g. dusty rose"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={addCustomColor}
+                  disabled={!customColor.trim()}
+                >
+                  Add
+                </Button>
+              </div>
               <div className="flex flex-wrap gap-1 mt-2">
                 {editedItem.color.map((color) => (
                   <Badge key={color} variant="outline" className="text-xs">
@@ -452,6 +485,41 @@ export const WardrobeItemCard = ({
               </p>
             </div>
 
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="purchase_price">Purchase Price</Label>
+                <Input
+                  id="purchase_price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={editedItem.purchase_price ?? ""}
+                  onChange={(e) =>
+                    setEditedItem((prev) => ({
+                      ...prev,
+                      purchase_price:
+                        e.target.value === "" ? undefined : Math.max(0, Number(e.target.value)),
+                    }))
+                  }
+                  placeholder="e.g., 49.99"
+                />
+              </div>
+              <div>
+                <Label htmlFor="purchase_date">Purchase Date</Label>
+                <Input
+                  id="purchase_date"
+                  type="date"
+                  value={editedItem.purchase_date ?? ""}
+                  onChange={(e) =>
+                    setEditedItem((prev) => ({
+                      ...prev,
+                      purchase_date: e.target.value || undefined,
+                    }))
+                  }
+                />
+              </div>
+            </div>
+
             <div className="flex gap-3 pt-4">
               <Button
                 onClick={handleSave}
@@ -460,6 +528,13 @@ export const WardrobeItemCard = ({
               >
                 {isSaving ? "Saving..." : "Save Changes"}
               </Button>
+              <Button
+                variant="outline"
+                onClick={handleMarkWorn}
+                disabled={isLoggingWear}
+              >
+                {isLoggingWear ? "Logging..." : "Worn Today"}
+              </Button>
               <Button
                 variant="outline"
                 onClick={() => {
@@ -480,22 +555,5 @@ export const WardrobeItemCard = ({
   );
 };
 
-const getColorHex = (colorName: string): string => {
-  const colorMap: Record<string, string> = {
-    black: "#000000",
-    white: "#ffffff",
-    red: "#dc2626",
-    blue: "#2563eb",
-    green: "#16a34a",
-    yellow: "#eab308",
-    purple: "#7c3aed",
-    pink: "#ec4899",
-    orange: "#ea580c",
-    gray: "#6b7280",
-    brown: "#92400e",
-    navy: "#1e3a8a",
-    beige: "#f5f5dc",
-  };
-
-  return colorMap[colorName.toLowerCase()] || "#6b7280";
-};
+const getColorHex = (colorName: string): string =>
+  resolveColorHex(colorName) || "#6b7280";
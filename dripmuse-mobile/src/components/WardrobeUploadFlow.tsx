@@ -5,6 +5,7 @@ import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
 import {
   Loader2,
   Upload,
@@ -19,19 +20,7 @@ import {
 } from "lucide-react";
 import { OptimizedImage } from "./OptimizedImage";
 import { accurateClothingAnalyzer } from "@/lib/accurateClothingAnalyzer";
-
-interface WardrobeItem {
-  id: string;
-  name: string;
-  photo_url: string;
-  category: string;
-  color: string[];
-  style: string;
-  occasion: string[];
-  season: string[];
-  tags: string[];
-  user_id: string;
-}
+import type { WardrobeItem } from "@/lib/wardrobeSchema";
 
 interface UploadStage {
   id: string;
@@ -891,7 +880,7 @@ export const WardrobeUploadFlow = ({
 
     if (!user) throw new Error("User not authenticated");
 
-    const newItem = {
+    const data = await getRepositories().wardrobe.create(user.id, {
       name: itemData.name || "Clothing Item",
       category: itemData.category || "tops",
       style: itemData.style || "casual",
@@ -900,25 +889,14 @@ export const WardrobeUploadFlow = ({
       occasion: itemData.occasion || ["casual"],
       season: itemData.season || ["spring", "summer", "fall", "winter"],
       tags: [],
-      user_id: user.id,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
-
-    const { data, error } = await supabase
-      .from("wardrobe_items")
-      .insert(newItem)
-      .select()
-      .single();
-
-    if (error) throw error;
+    });
 
     updateStage("save", {
       status: "completed",
       progress: 100,
       details: "Successfully added to wardrobe with AI insights",
     });
-    return data as WardrobeItem;
+    return data;
   };
 
   const processUpload = async (file: File) => {
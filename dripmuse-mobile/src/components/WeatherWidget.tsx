@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Loader2, MapPin, Thermometer, Droplets, Wind, RefreshCw, AlertCircle, Edit3, Check, X } from 'lucide-react';
 import { WeatherData, ManualWeatherEntry } from '@/hooks/useWeather';
+import { WEATHER_PROVIDER_LABELS, describeWeatherAge, isWeatherStale } from '@/lib/weatherProviders';
 
 interface WeatherWidgetProps {
   weather: WeatherData | null;
@@ -44,9 +45,10 @@ export const WeatherWidget: React.FC<WeatherWidgetProps> = ({
         return 'default';
       case 'gps':
         return 'secondary';
+      case 'default':
       case 'manual':
         return 'outline';
-      case 'mock':
+      case 'fixture':
         return 'destructive';
       default:
         return 'outline';
@@ -59,10 +61,12 @@ export const WeatherWidget: React.FC<WeatherWidgetProps> = ({
         return 'Profile Location';
       case 'gps':
         return 'Live GPS';
+      case 'default':
+        return 'Default Location';
       case 'manual':
         return 'Manual Entry';
-      case 'mock':
-        return 'Simulated';
+      case 'fixture':
+        return 'Recorded Sample';
       default:
         return 'Unknown';
     }
@@ -194,10 +198,20 @@ export const WeatherWidget: React.FC<WeatherWidgetProps> = ({
               </div>
             )}
 
-            {/* Timestamp */}
+            {/* Provider and age */}
             {weather.timestamp && (
-              <div className="text-xs text-muted-foreground">
-                Updated {new Date(weather.timestamp).toLocaleTimeString()}
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>
+                  {weather.source === 'fixture'
+                    ? 'Replayed from a recorded forecast'
+                    : `Updated ${new Date(weather.timestamp).toLocaleTimeString()} (${describeWeatherAge(weather)})`}
+                  {weather.provider && weather.provider !== 'fixture' && ` via ${WEATHER_PROVIDER_LABELS[weather.provider]}`}
+                </span>
+                {isWeatherStale(weather) && (
+                  <Badge variant="outline" className="text-xs border-amber-300 text-amber-700">
+                    Out of date
+                  </Badge>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,61 @@
+/**
+ * face-api.js Model Manifest
+ *
+ * Version and SHA-256 of every file the face models are built from. The
+ * files themselves are served from public/models/face-api; this manifest is
+ * bundled with the app so a tampered or truncated download cannot vouch for
+ * itself.
+ *
+ * The face-api.js package on npm doesn't ship its weights. The ones in
+ * public/models/face-api come from the model/ folder of @vladmandic/face-api
+ * (MIT), which publishes the same networks in the tfjs weights-manifest
+ * layout face-api.js loads, with each model's shards joined into one file.
+ *
+ * Generated by scripts/build-face-api-manifest.js - re-run it (npm run
+ * models:manifest) after adding or replacing the weights instead of editing
+ * the checksums by hand. A model with no files is reported as not bundled.
+ */
+
+export type FaceApiCapability = 'detector' | 'landmarks';
+
+export interface FaceApiModelFile {
+  path: string;
+  bytes: number;
+  sha256: string;
+}
+
+export interface FaceApiModelEntry {
+  capability: FaceApiCapability;
+  // tfjs weights manifest listing the shards and tensor layout; also listed in files
+  weightsManifest: string;
+  files: FaceApiModelFile[];
+}
+
+export interface FaceApiModelManifest {
+  version: string;
+  baseUrl: string;
+  models: Record<'tinyFaceDetector' | 'faceLandmark68Net', FaceApiModelEntry>;
+}
+
+export const FACE_API_MODEL_MANIFEST: FaceApiModelManifest = {
+  version: '@vladmandic/face-api@1.7.15',
+  baseUrl: '/models/face-api',
+  models: {
+    tinyFaceDetector: {
+      capability: 'detector',
+      weightsManifest: 'tiny_face_detector_model-weights_manifest.json',
+      files: [
+        { path: 'tiny_face_detector_model-weights_manifest.json', bytes: 3219, sha256: '5d1af4849ac48d5b985f4a9b16010c512353ddd6fcc63d50fd0bc9e9e64296e5' },
+        { path: 'tiny_face_detector_model.bin', bytes: 193321, sha256: 'b7503ce7df31039b1c43316a9b865cab6a70dd748cc602d3fa28b551503c3871' },
+      ],
+    },
+    faceLandmark68Net: {
+      capability: 'landmarks',
+      weightsManifest: 'face_landmark_68_model-weights_manifest.json',
+      files: [
+        { path: 'face_landmark_68_model-weights_manifest.json', bytes: 8485, sha256: 'ca4886639f86e99b39fed0c155f81b63317225773bd9616716e887b0153389c9' },
+        { path: 'face_landmark_68_model.bin', bytes: 356840, sha256: '4611ef65c87d836d03d684b30eec4d195d8b219fa1dd58fc58945831c6b9299b' },
+      ],
+    },
+  },
+};
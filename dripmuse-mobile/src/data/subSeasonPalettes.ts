@@ -0,0 +1,831 @@
+/**
+ * Sub-Season Palettes
+ *
+ * Palettes and makeup guidance for the twelve-season system, plus the four
+ * neutral-undertone types the sixteen-season system adds. Each entry sits
+ * at a point on the four analysis axes; the season systems in
+ * lib/seasonSystems match a person's characteristics to the nearest one.
+ */
+
+export interface SubSeasonPalette {
+  id: string;
+  name: string;
+  season: 'spring' | 'summer' | 'autumn' | 'winter';
+  // -1 to 1: light to deep, cool to warm, muted to clear, low to high contrast
+  profile: { depth: number; warmth: number; clarity: number; contrast: number };
+  description: string;
+  idealColors: { category: string; colors: string[]; description: string }[];
+  avoidColors: { category: string; colors: string[]; reason: string }[];
+  neutrals: string[];
+  accents: string[];
+  metallics: 'gold' | 'silver' | 'both';
+  makeup: {
+    lipColors: string[];
+    eyeColors: string[];
+    blushColors: string[];
+    nailColors: string[];
+    highlighter: string;
+    bronzer: string;
+    mascara: string;
+  };
+  tips: string[];
+}
+
+export const TWELVE_SEASON_PALETTES: SubSeasonPalette[] = [
+  // SPRING
+  {
+    id: 'light-spring',
+    name: 'Light Spring',
+    season: 'spring',
+    profile: { depth: -1, warmth: 0.5, clarity: 0.3, contrast: -0.5 },
+    description: 'Lightness comes first: delicate, warm-leaning colouring that glows in light, clear colours.',
+    idealColors: [
+      {
+        category: 'Light Brights',
+        colors: ['#FFA07A', '#FFD27F', '#98E2C6', '#7FD1E8', '#F4A6B8', '#B5A6E8'],
+        description: 'Light, clear colours with a touch of warmth'
+      },
+      {
+        category: 'Warm Pastels',
+        colors: ['#FFE5B4', '#FADADD', '#FFF4C2', '#D9F2E6', '#CDEBF5', '#F6D1C1'],
+        description: 'Creamy pastels that keep your complexion fresh'
+      },
+      {
+        category: 'Soft Neutrals',
+        colors: ['#FFF8E7', '#F3E5C8', '#E8D3B0', '#C8B49A', '#B7C4CF', '#8C7A6B'],
+        description: 'Ivory, sand and light taupe in place of black'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Dark and Heavy',
+        colors: ['#000000', '#3B2F2F', '#4B0082', '#2F4F4F', '#800000'],
+        reason: 'Deep colours overpower your light colouring'
+      },
+      {
+        category: 'Dusty Tones',
+        colors: ['#8E8E7A', '#9C8A96', '#7A8B7F'],
+        reason: 'Greyed colours make light colouring look tired'
+      }
+    ],
+    neutrals: ['#FFF8E7', '#F3E5C8', '#C8B49A', '#8C7A6B'],
+    accents: ['#FFA07A', '#7FD1E8', '#98E2C6', '#F4A6B8'],
+    metallics: 'gold',
+    makeup: {
+      lipColors: ['#F4978E', '#F8AD9D', '#FFB5A7', '#E8867C', '#F08A8A'],
+      eyeColors: ['#D8C3A5', '#A3D9C9', '#B5A6E8', '#F6D1C1', '#8FB9A8'],
+      blushColors: ['#FFB5A7', '#F8C8B8', '#F4A6B8', '#FFCBA4'],
+      nailColors: ['#FFB5A7', '#F4A6B8', '#98E2C6', '#FFE5B4'],
+      highlighter: '#FFF4C2',
+      bronzer: '#E0B589',
+      mascara: '#6B4E3D'
+    },
+    tips: [
+      'Keep the darkest colour in an outfit no deeper than mid-tone',
+      'Light gold and rose gold suit you better than yellow gold',
+      'Swap black eyeliner for soft brown'
+    ]
+  },
+  {
+    id: 'true-spring',
+    name: 'True Spring',
+    season: 'spring',
+    profile: { depth: -0.2, warmth: 1, clarity: 0.5, contrast: 0 },
+    description: 'Warmth comes first: golden colouring that wants fully warm, lively colours.',
+    idealColors: [
+      {
+        category: 'Warm Brights',
+        colors: ['#FF7F50', '#FFB347', '#FFD700', '#50C878', '#40E0D0', '#FF6F61'],
+        description: 'Coral, marigold and turquoise with a sunny undertone'
+      },
+      {
+        category: 'Golden Neutrals',
+        colors: ['#FFF5E1', '#F5DEB3', '#E3C08D', '#C19A6B', '#A67B5B', '#8B6F47'],
+        description: 'Cream, camel and golden brown as your basics'
+      },
+      {
+        category: 'Fresh Accents',
+        colors: ['#9ACD32', '#FFA500', '#F88379', '#00A693', '#E9967A', '#FFDB58'],
+        description: 'Fresh greens and oranges for a single statement piece'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Cool and Icy',
+        colors: ['#E0FFFF', '#C0C0C0', '#B0C4DE', '#E6E6FA', '#708090'],
+        reason: 'Blue-based colours fight your golden undertone'
+      },
+      {
+        category: 'Black and Burgundy',
+        colors: ['#000000', '#4B0F1E', '#2C3E50'],
+        reason: 'Cold darks drain warmth from your face'
+      }
+    ],
+    neutrals: ['#FFF5E1', '#F5DEB3', '#C19A6B', '#8B6F47'],
+    accents: ['#FF7F50', '#40E0D0', '#FFD700', '#50C878'],
+    metallics: 'gold',
+    makeup: {
+      lipColors: ['#FF7F50', '#F88379', '#E9967A', '#FF6F61', '#D2691E'],
+      eyeColors: ['#C19A6B', '#50C878', '#40E0D0', '#DAA520', '#8B6F47'],
+      blushColors: ['#F88379', '#FFA07A', '#FFB347', '#E9967A'],
+      nailColors: ['#FF7F50', '#FF6F61', '#FFD700', '#40E0D0'],
+      highlighter: '#FFE4B5',
+      bronzer: '#CD853F',
+      mascara: '#5C4033'
+    },
+    tips: [
+      'Choose the warm version of every colour: coral over pink, ivory over white',
+      'Yellow gold is your metal',
+      'Camel and warm navy replace black in a work wardrobe'
+    ]
+  },
+  {
+    id: 'bright-spring',
+    name: 'Bright Spring',
+    season: 'spring',
+    profile: { depth: 0, warmth: 0.5, clarity: 1, contrast: 1 },
+    description: 'Clarity comes first: vivid, high-contrast colouring that needs saturated, clear colours.',
+    idealColors: [
+      {
+        category: 'Vivid Brights',
+        colors: ['#FF2E63', '#FF6F00', '#FFD300', '#00C853', '#00B8D4', '#2962FF'],
+        description: 'Saturated colours that match your natural intensity'
+      },
+      {
+        category: 'Clear Warm Tones',
+        colors: ['#FF4F79', '#FF8C42', '#FFE14D', '#3DDC84', '#1DE9B6', '#7C4DFF'],
+        description: 'Clean, bright tones with a warm lean'
+      },
+      {
+        category: 'Crisp Neutrals',
+        colors: ['#FFFFF0', '#F5F5F5', '#1C2841', '#36454F', '#C3B091', '#704214'],
+        description: 'Crisp ivory and inky navy for contrast'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Dusty and Muted',
+        colors: ['#A89F91', '#8F9779', '#B4A7A7', '#9E8B8E', '#7D7461'],
+        reason: 'Muted colours dull your natural brightness'
+      }
+    ],
+    neutrals: ['#FFFFF0', '#1C2841', '#36454F', '#C3B091'],
+    accents: ['#FF2E63', '#00B8D4', '#FFD300', '#00C853'],
+    metallics: 'gold',
+    makeup: {
+      lipColors: ['#FF2E63', '#FF4F79', '#E0115F', '#FF6F61', '#FF3B3F'],
+      eyeColors: ['#00B8D4', '#00C853', '#7C4DFF', '#704214', '#FFD300'],
+      blushColors: ['#FF6F91', '#FF8C69', '#FF4F79', '#FFA07A'],
+      nailColors: ['#FF2E63', '#FF6F00', '#00B8D4', '#7C4DFF'],
+      highlighter: '#FFF5CC',
+      bronzer: '#C68E5B',
+      mascara: '#1C1C1C'
+    },
+    tips: [
+      'Pair a bright with a crisp light or dark neutral to keep contrast high',
+      'Polished gold and shiny fabrics echo your clarity',
+      'A clear bright lip does more for you than heavy eye makeup'
+    ]
+  },
+  // SUMMER
+  {
+    id: 'light-summer',
+    name: 'Light Summer',
+    season: 'summer',
+    profile: { depth: -1, warmth: -0.5, clarity: 0, contrast: -0.5 },
+    description: 'Lightness comes first: airy, cool-leaning colouring suited to light, powdery colours.',
+    idealColors: [
+      {
+        category: 'Cool Pastels',
+        colors: ['#AEC6CF', '#B39EB5', '#F4C2C2', '#C1E1DC', '#CFCFEA', '#A7C7E7'],
+        description: 'Light, cool pastels that echo your soft colouring'
+      },
+      {
+        category: 'Powdered Tones',
+        colors: ['#87AFC7', '#D8A7B1', '#9FB7A6', '#C3B1E1', '#E3A6B4', '#8FA8C8'],
+        description: 'Slightly deeper powdered colours for accents'
+      },
+      {
+        category: 'Soft Cool Neutrals',
+        colors: ['#F8F8FF', '#E5E4E2', '#C9C0BB', '#A2A2A2', '#7D8A99', '#5D6D7E'],
+        description: 'Dove grey and soft slate in place of black'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Dark and Heavy',
+        colors: ['#000000', '#3B2F2F', '#800000', '#4B5320'],
+        reason: 'Dark colours overwhelm your light colouring'
+      },
+      {
+        category: 'Warm Brights',
+        colors: ['#FF8C00', '#FFD700', '#D2691E', '#FF4500'],
+        reason: 'Hot, golden colours clash with your cool undertone'
+      }
+    ],
+    neutrals: ['#F8F8FF', '#E5E4E2', '#A2A2A2', '#5D6D7E'],
+    accents: ['#AEC6CF', '#B39EB5', '#F4C2C2', '#87AFC7'],
+    metallics: 'silver',
+    makeup: {
+      lipColors: ['#E3A6B4', '#D8A7B1', '#F4C2C2', '#C97C8D', '#DE8FA0'],
+      eyeColors: ['#87AFC7', '#B39EB5', '#A2A2A2', '#9FB7A6', '#CFCFEA'],
+      blushColors: ['#F4C2C2', '#E3A6B4', '#F7CAC9', '#D8A7B1'],
+      nailColors: ['#F4C2C2', '#B39EB5', '#AEC6CF', '#E5E4E2'],
+      highlighter: '#F8F8FF',
+      bronzer: '#C8AD9B',
+      mascara: '#4A4A4A'
+    },
+    tips: [
+      'Build outfits from light to mid tones with little contrast',
+      'Silver, white gold and pearls suit you best',
+      'Grey-brown mascara is softer on you than black'
+    ]
+  },
+  {
+    id: 'true-summer',
+    name: 'True Summer',
+    season: 'summer',
+    profile: { depth: -0.2, warmth: -1, clarity: -0.3, contrast: 0 },
+    description: 'Coolness comes first: fully cool, blue-based colouring with gentle intensity.',
+    idealColors: [
+      {
+        category: 'Cool Mid Tones',
+        colors: ['#5B7DB1', '#7A5C8E', '#C76B8F', '#4F8F8B', '#6C8EBF', '#A05C7B'],
+        description: 'Blue-based colours of medium depth'
+      },
+      {
+        category: 'Cool Soft Colours',
+        colors: ['#B0C4DE', '#D8BFD8', '#E0B0C0', '#8FBCBB', '#9AA9C5', '#C8A2C8'],
+        description: 'Softened blues, roses and lilacs'
+      },
+      {
+        category: 'Grey-Blue Neutrals',
+        colors: ['#F5F5F5', '#BCC6CC', '#8E9AAF', '#5F6A7D', '#2E3A59', '#6B5B6E'],
+        description: 'Soft white, blue-grey and navy as your basics'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Warm Earth',
+        colors: ['#D2691E', '#DAA520', '#8B4513', '#FF8C00', '#CD853F'],
+        reason: 'Golden and orange colours turn your skin sallow'
+      }
+    ],
+    neutrals: ['#F5F5F5', '#BCC6CC', '#5F6A7D', '#2E3A59'],
+    accents: ['#5B7DB1', '#C76B8F', '#4F8F8B', '#7A5C8E'],
+    metallics: 'silver',
+    makeup: {
+      lipColors: ['#C76B8F', '#A05C7B', '#B56576', '#D17A9B', '#9E4770'],
+      eyeColors: ['#5B7DB1', '#7A5C8E', '#8E9AAF', '#4F8F8B', '#5F6A7D'],
+      blushColors: ['#D8A7B1', '#C98BA5', '#E0B0C0', '#D17A9B'],
+      nailColors: ['#C76B8F', '#7A5C8E', '#5B7DB1', '#BCC6CC'],
+      highlighter: '#EDE7F6',
+      bronzer: '#B8A090',
+      mascara: '#36454F'
+    },
+    tips: [
+      'Choose the blue-based version of every colour: raspberry over coral',
+      'Navy and blue-grey are better work neutrals than black',
+      'Rose and berry lips keep your look balanced'
+    ]
+  },
+  {
+    id: 'soft-summer',
+    name: 'Soft Summer',
+    season: 'summer',
+    profile: { depth: 0, warmth: -0.5, clarity: -1, contrast: -0.5 },
+    description: 'Softness comes first: blended, low-contrast colouring that shines in smoky, muted colours.',
+    idealColors: [
+      {
+        category: 'Muted Cool Tones',
+        colors: ['#8AA1B1', '#9C8AA5', '#B5838D', '#6E8B8B', '#7E7F9A', '#A3A380'],
+        description: 'Greyed colours that blend with your features'
+      },
+      {
+        category: 'Dusty Pastels',
+        colors: ['#C9B6BD', '#B8C5C9', '#D4C4C8', '#A9B5A0', '#C2B6D0', '#D8B4A0'],
+        description: 'Light, dusty tones for softness near the face'
+      },
+      {
+        category: 'Smoky Neutrals',
+        colors: ['#EAE6E1', '#C4BFB8', '#9E9A97', '#6F6C6A', '#4B4F58', '#847C74'],
+        description: 'Taupe, pewter and charcoal instead of stark black and white'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Clear Brights',
+        colors: ['#FF0000', '#FF1493', '#00FF7F', '#FFD700', '#FF4500'],
+        reason: 'Saturated colours wear you rather than the other way round'
+      },
+      {
+        category: 'Stark Black and White',
+        colors: ['#000000', '#FFFFFF'],
+        reason: 'Hard contrast is harsher than your natural colouring'
+      }
+    ],
+    neutrals: ['#EAE6E1', '#9E9A97', '#4B4F58', '#847C74'],
+    accents: ['#8AA1B1', '#B5838D', '#6E8B8B', '#9C8AA5'],
+    metallics: 'silver',
+    makeup: {
+      lipColors: ['#B5838D', '#A86F7E', '#C08B93', '#9C6B7A', '#C9A0A6'],
+      eyeColors: ['#8AA1B1', '#9C8AA5', '#6F6C6A', '#A9B5A0', '#847C74'],
+      blushColors: ['#C9A0A6', '#D4A5A5', '#B5838D', '#C8A2A8'],
+      nailColors: ['#B5838D', '#C9B6BD', '#9C8AA5', '#8AA1B1'],
+      highlighter: '#EDE4E0',
+      bronzer: '#A89080',
+      mascara: '#4B4F58'
+    },
+    tips: [
+      'Tonal outfits in neighbouring muted colours look polished on you',
+      'Brushed silver and pewter beat shiny metals',
+      'Matte and soft-focus makeup suits your blended features'
+    ]
+  },
+  // AUTUMN
+  {
+    id: 'soft-autumn',
+    name: 'Soft Autumn',
+    season: 'autumn',
+    profile: { depth: 0, warmth: 0.5, clarity: -1, contrast: -0.5 },
+    description: 'Softness comes first: warm, blended colouring suited to gentle, earthy colours.',
+    idealColors: [
+      {
+        category: 'Muted Warm Tones',
+        colors: ['#C19A6B', '#A3A380', '#B5835A', '#8F9779', '#C48A69', '#7C8B6F'],
+        description: 'Sage, camel and soft terracotta'
+      },
+      {
+        category: 'Soft Earth',
+        colors: ['#D8B892', '#B49A7A', '#9C8466', '#C2A878', '#A67F68', '#87826A'],
+        description: 'Gentle earth tones without heaviness'
+      },
+      {
+        category: 'Warm Greyed Neutrals',
+        colors: ['#F0E6D6', '#D6C7B0', '#B0A18B', '#8A7F70', '#5C5346', '#6B705C'],
+        description: 'Oatmeal, mushroom and soft olive as your basics'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Icy, Neon and Black',
+        colors: ['#000000', '#E0FFFF', '#FF00FF', '#00FFFF', '#FF1493'],
+        reason: 'Cold, electric and stark colours overpower your soft warmth'
+      }
+    ],
+    neutrals: ['#F0E6D6', '#D6C7B0', '#8A7F70', '#5C5346'],
+    accents: ['#C48A69', '#8F9779', '#C19A6B', '#7C8B6F'],
+    metallics: 'gold',
+    makeup: {
+      lipColors: ['#B5835A', '#C48A69', '#A9746E', '#B97A57', '#9E6B57'],
+      eyeColors: ['#8F9779', '#B49A7A', '#7C8B6F', '#A67F68', '#C19A6B'],
+      blushColors: ['#D4A08A', '#C48A69', '#D8B892', '#C9957F'],
+      nailColors: ['#C48A69', '#A9746E', '#8F9779', '#D6C7B0'],
+      highlighter: '#F3E3C7',
+      bronzer: '#B49A7A',
+      mascara: '#5C4033'
+    },
+    tips: [
+      'Mix textures rather than strong colour contrasts',
+      'Brushed or antique gold suits you better than bright gold',
+      'Nude-warm lips and soft bronze eyes are your everyday look'
+    ]
+  },
+  {
+    id: 'true-autumn',
+    name: 'True Autumn',
+    season: 'autumn',
+    profile: { depth: 0.3, warmth: 1, clarity: -0.3, contrast: 0 },
+    description: 'Warmth comes first: fully golden, rich colouring that wants spice and forest colours.',
+    idealColors: [
+      {
+        category: 'Rich Earth Tones',
+        colors: ['#8B4513', '#A0522D', '#CD853F', '#D2691E', '#B7410E', '#CC7722'],
+        description: 'Rust, ochre and cinnamon at full warmth'
+      },
+      {
+        category: 'Golden Warmth',
+        colors: ['#DAA520', '#B8860B', '#E1A95F', '#C68E17', '#FFA500', '#D4A017'],
+        description: 'Mustard, amber and bronze tones'
+      },
+      {
+        category: 'Forest and Spice',
+        colors: ['#556B2F', '#6B8E23', '#228B22', '#8B0000', '#A52A2A', '#008080'],
+        description: 'Olive, forest and warm teal for depth'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Cool and Icy',
+        colors: ['#E0FFFF', '#F0F8FF', '#E6E6FA', '#FF69B4', '#C0C0C0'],
+        reason: 'Icy and blue-pink colours make you look washed out'
+      }
+    ],
+    neutrals: ['#F5DEB3', '#C19A6B', '#8B4513', '#556B2F'],
+    accents: ['#B7410E', '#DAA520', '#6B8E23', '#008080'],
+    metallics: 'gold',
+    makeup: {
+      lipColors: ['#B7410E', '#A0522D', '#CD5C5C', '#D2691E', '#8B3A3A'],
+      eyeColors: ['#8B4513', '#556B2F', '#DAA520', '#CD853F', '#6B8E23'],
+      blushColors: ['#E2725B', '#CD853F', '#D2691E', '#E9967A'],
+      nailColors: ['#B7410E', '#8B4513', '#DAA520', '#556B2F'],
+      highlighter: '#E6BE8A',
+      bronzer: '#CD853F',
+      mascara: '#4B2E1E'
+    },
+    tips: [
+      'Brown, olive and camel replace black and grey',
+      'Yellow and antique gold are your metals',
+      'Brick and terracotta lips are your signature'
+    ]
+  },
+  {
+    id: 'deep-autumn',
+    name: 'Deep Autumn',
+    season: 'autumn',
+    profile: { depth: 1, warmth: 0.5, clarity: 0, contrast: 0.5 },
+    description: 'Depth comes first: rich, dark, warm-leaning colouring that carries deep colours easily.',
+    idealColors: [
+      {
+        category: 'Deep Warm Tones',
+        colors: ['#5C1A1B', '#7B3F00', '#8B0000', '#3B5323', '#704214', '#00514F'],
+        description: 'Oxblood, chocolate and dark olive'
+      },
+      {
+        category: 'Rich Jewel Tones',
+        colors: ['#B22222', '#C04000', '#006A4E', '#800020', '#DAA520', '#CC5500'],
+        description: 'Warm jewel tones with real depth'
+      },
+      {
+        category: 'Dark Neutrals',
+        colors: ['#3D2B1F', '#4A3728', '#5C4033', '#2F3A2F', '#654321', '#F5DEB3'],
+        description: 'Espresso and dark forest as your basics, wheat for relief'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Pastels and Icy Tones',
+        colors: ['#FFB6C1', '#E6E6FA', '#E0FFFF', '#F0F8FF', '#B0E0E6'],
+        reason: 'Light, cool colours look faded next to your depth'
+      }
+    ],
+    neutrals: ['#3D2B1F', '#5C4033', '#2F3A2F', '#F5DEB3'],
+    accents: ['#800020', '#CC5500', '#006A4E', '#DAA520'],
+    metallics: 'gold',
+    makeup: {
+      lipColors: ['#800020', '#8B0000', '#A0522D', '#B22222', '#7B3F00'],
+      eyeColors: ['#5C4033', '#3B5323', '#704214', '#DAA520', '#00514F'],
+      blushColors: ['#A0522D', '#B5651D', '#CD5C5C', '#C04000'],
+      nailColors: ['#800020', '#7B3F00', '#3B5323', '#CC5500'],
+      highlighter: '#D4AF37',
+      bronzer: '#8B5A2B',
+      mascara: '#1C1C1C'
+    },
+    tips: [
+      'Dark chocolate and forest green are your version of black',
+      'Heavy gold and bronze jewellery hold their own against your colouring',
+      'Deep wine and brick lips balance dark hair'
+    ]
+  },
+  // WINTER
+  {
+    id: 'deep-winter',
+    name: 'Deep Winter',
+    season: 'winter',
+    profile: { depth: 1, warmth: -0.5, clarity: 0.3, contrast: 0.5 },
+    description: 'Depth comes first: dark, cool-leaning colouring that suits deep jewel tones.',
+    idealColors: [
+      {
+        category: 'Deep Jewel Tones',
+        colors: ['#800020', '#4B0082', '#00416A', '#004B49', '#702963', '#1B4D3E'],
+        description: 'Burgundy, indigo and deep teal'
+      },
+      {
+        category: 'Vivid Accents',
+        colors: ['#DC143C', '#0047AB', '#009473', '#C71585', '#FFFFFF', '#50C878'],
+        description: 'Clear accents that light up dark colouring'
+      },
+      {
+        category: 'Dark Cool Neutrals',
+        colors: ['#000000', '#1C1C1C', '#36454F', '#191970', '#2F4F4F', '#F8F8FF'],
+        description: 'Black, charcoal and midnight navy'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Warm Light Tones',
+        colors: ['#FFDAB9', '#F5DEB3', '#FFA07A', '#DAA520', '#D2B48C'],
+        reason: 'Light, golden colours look washed out against your depth'
+      }
+    ],
+    neutrals: ['#000000', '#36454F', '#191970', '#F8F8FF'],
+    accents: ['#800020', '#0047AB', '#009473', '#C71585'],
+    metallics: 'silver',
+    makeup: {
+      lipColors: ['#800020', '#9B111E', '#702963', '#C71585', '#8B0000'],
+      eyeColors: ['#36454F', '#191970', '#004B49', '#702963', '#4B0082'],
+      blushColors: ['#C71585', '#B03060', '#9B111E', '#D87093'],
+      nailColors: ['#800020', '#000000', '#4B0082', '#DC143C'],
+      highlighter: '#E8E8F0',
+      bronzer: '#8B7D7B',
+      mascara: '#000000'
+    },
+    tips: [
+      'Black is a true neutral for you; anchor outfits with it',
+      'Silver, platinum and gunmetal suit you',
+      'A deep berry or wine lip is your classic'
+    ]
+  },
+  {
+    id: 'true-winter',
+    name: 'True Winter',
+    season: 'winter',
+    profile: { depth: 0.2, warmth: -1, clarity: 0.5, contrast: 0.5 },
+    description: 'Coolness comes first: icy, blue-based colouring that wants pure, cool colours.',
+    idealColors: [
+      {
+        category: 'Cool Brights',
+        colors: ['#DC143C', '#0000CD', '#008B8B', '#C71585', '#4169E1', '#009B77'],
+        description: 'True red, royal blue and emerald with no warmth'
+      },
+      {
+        category: 'Icy Tones',
+        colors: ['#E0FFFF', '#F0F8FF', '#E6E6FA', '#FFE4E1', '#F5FFFA', '#D6EAF8'],
+        description: 'Pale icy tints for shirts and knits'
+      },
+      {
+        category: 'Stark Neutrals',
+        colors: ['#000000', '#FFFFFF', '#36454F', '#708090', '#000080', '#C0C0C0'],
+        description: 'Black, pure white and cool greys'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Warm and Muted',
+        colors: ['#DAA520', '#D2691E', '#CD853F', '#BC8F8F', '#808000'],
+        reason: 'Golden and earthy colours dull your cool clarity'
+      }
+    ],
+    neutrals: ['#000000', '#FFFFFF', '#708090', '#000080'],
+    accents: ['#DC143C', '#4169E1', '#C71585', '#009B77'],
+    metallics: 'silver',
+    makeup: {
+      lipColors: ['#DC143C', '#C71585', '#B22222', '#E0115F', '#8B008B'],
+      eyeColors: ['#000080', '#708090', '#4169E1', '#8B008B', '#36454F'],
+      blushColors: ['#E75480', '#DB7093', '#C71585', '#E3A9C9'],
+      nailColors: ['#DC143C', '#C71585', '#000080', '#000000'],
+      highlighter: '#F0F8FF',
+      bronzer: '#A9A9A9',
+      mascara: '#000000'
+    },
+    tips: [
+      'Pure white works better than ivory near your face',
+      'Keep metals cool: silver, white gold, platinum',
+      'A blue-red lip is your most flattering classic'
+    ]
+  },
+  {
+    id: 'bright-winter',
+    name: 'Bright Winter',
+    season: 'winter',
+    profile: { depth: 0, warmth: -0.5, clarity: 1, contrast: 1 },
+    description: 'Clarity comes first: striking, high-contrast colouring that suits electric, clear colours.',
+    idealColors: [
+      {
+        category: 'Electric Brights',
+        colors: ['#FF0040', '#0066FF', '#00CED1', '#FF00CC', '#7B00FF', '#00E676'],
+        description: 'The most saturated colours in the wheel'
+      },
+      {
+        category: 'Icy Brights',
+        colors: ['#CCF2FF', '#FFCCE6', '#E0CCFF', '#CCFFEB', '#FFF9CC', '#F2F2FF'],
+        description: 'Clear icy tints for lighter pieces'
+      },
+      {
+        category: 'Crisp Neutrals',
+        colors: ['#000000', '#FFFFFF', '#1A1A40', '#4A4A4A', '#003366', '#D3D3D3'],
+        description: 'Black and white at full contrast'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Dusty and Warm Muted',
+        colors: ['#A89F91', '#C19A6B', '#8F9779', '#BC8F8F', '#B5835A'],
+        reason: 'Muted colours look drab next to your contrast'
+      }
+    ],
+    neutrals: ['#000000', '#FFFFFF', '#1A1A40', '#4A4A4A'],
+    accents: ['#FF0040', '#0066FF', '#00CED1', '#FF00CC'],
+    metallics: 'silver',
+    makeup: {
+      lipColors: ['#FF0040', '#E0115F', '#FF00CC', '#C2185B', '#D50032'],
+      eyeColors: ['#0066FF', '#7B00FF', '#00CED1', '#1A1A40', '#4A4A4A'],
+      blushColors: ['#FF4F9A', '#E0115F', '#FF6FA8', '#F06292'],
+      nailColors: ['#FF0040', '#0066FF', '#FF00CC', '#000000'],
+      highlighter: '#F8F8FF',
+      bronzer: '#9E8E8E',
+      mascara: '#000000'
+    },
+    tips: [
+      'Black and white with one electric accent is your formula',
+      'Shiny silver and crystal catch your clarity',
+      'A bold lip and defined brows are enough; skip muddy eyeshadow'
+    ]
+  }
+];
+
+// The sixteen-season system adds a neutral-undertone type to each season
+export const SIXTEEN_SEASON_EXTRAS: SubSeasonPalette[] = [
+  {
+    id: 'neutral-spring',
+    name: 'Neutral Spring',
+    season: 'spring',
+    profile: { depth: -0.3, warmth: 0, clarity: 0.4, contrast: 0 },
+    description: 'Spring brightness with a balanced undertone that can borrow a few cool colours.',
+    idealColors: [
+      {
+        category: 'Balanced Brights',
+        colors: ['#FF7F7F', '#5CC8D6', '#F9C74F', '#90BE6D', '#F28482', '#8E9AF0'],
+        description: 'Clear colours that sit between warm and cool'
+      },
+      {
+        category: 'Soft Warm Pastels',
+        colors: ['#FFD6BA', '#FAD2E1', '#E2ECE9', '#FDFFB6', '#CAF0F8', '#FFE5D9'],
+        description: 'Fresh pastels for lighter pieces'
+      },
+      {
+        category: 'Balanced Neutrals',
+        colors: ['#FAF3E0', '#E8DCC8', '#BFA98A', '#8D8070', '#5E6472', '#3E4A61'],
+        description: 'Cream, stone and slate navy'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Heavy Darks',
+        colors: ['#000000', '#4B0082', '#808000', '#6B4423'],
+        reason: 'Very dark or murky colours flatten your freshness'
+      }
+    ],
+    neutrals: ['#FAF3E0', '#BFA98A', '#5E6472', '#3E4A61'],
+    accents: ['#FF7F7F', '#5CC8D6', '#F9C74F', '#90BE6D'],
+    metallics: 'both',
+    makeup: {
+      lipColors: ['#F28482', '#FF7F7F', '#E5989B', '#F4A261', '#E07A5F'],
+      eyeColors: ['#5CC8D6', '#90BE6D', '#BFA98A', '#8E9AF0', '#8D8070'],
+      blushColors: ['#F4A7A0', '#FFB4A2', '#E5989B', '#F6BD60'],
+      nailColors: ['#F28482', '#5CC8D6', '#F9C74F', '#FAD2E1'],
+      highlighter: '#FFF1E6',
+      bronzer: '#D4A373',
+      mascara: '#4A3B33'
+    },
+    tips: [
+      'Mixed metals work for you; pick by the outfit',
+      'Watermelon and coral-pink lips bridge warm and cool',
+      'Slate navy is a softer alternative to black'
+    ]
+  },
+  {
+    id: 'neutral-summer',
+    name: 'Neutral Summer',
+    season: 'summer',
+    profile: { depth: -0.3, warmth: 0, clarity: -0.4, contrast: -0.3 },
+    description: 'Summer softness with a balanced undertone that tolerates gentle warm tones.',
+    idealColors: [
+      {
+        category: 'Balanced Soft Tones',
+        colors: ['#7FA7C9', '#B392AC', '#D291BC', '#84A59D', '#9DB4C0', '#C9ADA7'],
+        description: 'Soft colours with neither a strong blue nor golden cast'
+      },
+      {
+        category: 'Rosy Pastels',
+        colors: ['#F2D0D9', '#DCE4F2', '#E8DFF5', '#D5E6DE', '#F6E1D3', '#E6D5C3'],
+        description: 'Light, rosy tints for shirts and knits'
+      },
+      {
+        category: 'Balanced Neutrals',
+        colors: ['#F4F1EE', '#D6D2CE', '#A8A29E', '#78716C', '#4A5568', '#6B7B8C'],
+        description: 'Greige, stone and soft slate'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Intense Brights and Black',
+        colors: ['#FF4500', '#FFD700', '#00FF00', '#FF00FF', '#000000'],
+        reason: 'Strong saturation and hard darks overpower your softness'
+      }
+    ],
+    neutrals: ['#F4F1EE', '#A8A29E', '#4A5568', '#6B7B8C'],
+    accents: ['#7FA7C9', '#D291BC', '#84A59D', '#B392AC'],
+    metallics: 'both',
+    makeup: {
+      lipColors: ['#C9848F', '#D291BC', '#B5838D', '#E0A3B0', '#A8707C'],
+      eyeColors: ['#7FA7C9', '#B392AC', '#84A59D', '#A8A29E', '#6B7B8C'],
+      blushColors: ['#E8B4BC', '#D8A7B1', '#F2D0D9', '#C9ADA7'],
+      nailColors: ['#D291BC', '#7FA7C9', '#E8DFF5', '#C9848F'],
+      highlighter: '#F7F0F5',
+      bronzer: '#B9A394',
+      mascara: '#4A4A4A'
+    },
+    tips: [
+      'Greige and stone are your easiest neutrals',
+      'Rose gold sits well between your warm and cool sides',
+      'Keep makeup soft and rosy rather than bold'
+    ]
+  },
+  {
+    id: 'neutral-autumn',
+    name: 'Neutral Autumn',
+    season: 'autumn',
+    profile: { depth: 0.3, warmth: 0, clarity: -0.4, contrast: 0 },
+    description: 'Autumn richness with a balanced undertone that can wear some cooler earth tones.',
+    idealColors: [
+      {
+        category: 'Balanced Earth Tones',
+        colors: ['#B5651D', '#8A9A5B', '#C08552', '#7D5A50', '#A0785A', '#5F7161'],
+        description: 'Earthy colours with a restrained warmth'
+      },
+      {
+        category: 'Warm Muted Accents',
+        colors: ['#D4A373', '#CCD5AE', '#E9C46A', '#BC6C25', '#A98467', '#6C584C'],
+        description: 'Honey, sage and clay for accents'
+      },
+      {
+        category: 'Balanced Neutrals',
+        colors: ['#F5EBE0', '#D5BDAF', '#A68A64', '#7F5539', '#582F0E', '#656D4A'],
+        description: 'Linen, taupe and walnut'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Icy Brights',
+        colors: ['#E0FFFF', '#FF00FF', '#00FFFF', '#7DF9FF', '#FF1493'],
+        reason: 'Electric and icy colours look artificial next to your colouring'
+      }
+    ],
+    neutrals: ['#F5EBE0', '#A68A64', '#7F5539', '#656D4A'],
+    accents: ['#B5651D', '#8A9A5B', '#E9C46A', '#BC6C25'],
+    metallics: 'both',
+    makeup: {
+      lipColors: ['#B5651D', '#A0785A', '#BC6C25', '#9C6644', '#C08552'],
+      eyeColors: ['#8A9A5B', '#7D5A50', '#A68A64', '#5F7161', '#D4A373'],
+      blushColors: ['#D4A373', '#C08552', '#E0A899', '#BC8A5F'],
+      nailColors: ['#BC6C25', '#8A9A5B', '#7F5539', '#E9C46A'],
+      highlighter: '#F2E2C4',
+      bronzer: '#A68A64',
+      mascara: '#3E2C23'
+    },
+    tips: [
+      'Walnut and olive are your everyday darks',
+      'Both brushed gold and pewter work for you',
+      'Clay and cinnamon lips suit day and evening'
+    ]
+  },
+  {
+    id: 'neutral-winter',
+    name: 'Neutral Winter',
+    season: 'winter',
+    profile: { depth: 0.3, warmth: 0, clarity: 0.4, contrast: 0.5 },
+    description: 'Winter contrast with a balanced undertone, so slightly warmer jewel tones also work.',
+    idealColors: [
+      {
+        category: 'Balanced Jewel Tones',
+        colors: ['#9B2335', '#2E5984', '#1F7A6D', '#7B3F61', '#3C4F76', '#B03A48'],
+        description: 'Jewel tones that are neither icy nor golden'
+      },
+      {
+        category: 'Clear Accents',
+        colors: ['#E63946', '#457B9D', '#2A9D8F', '#C2185B', '#F1FAEE', '#6A4C93'],
+        description: 'Clear colours for a focal piece'
+      },
+      {
+        category: 'Balanced Neutrals',
+        colors: ['#000000', '#2B2D42', '#4A4E69', '#8D99AE', '#EDF2F4', '#FFFFFF'],
+        description: 'Black, ink and cool stone'
+      }
+    ],
+    avoidColors: [
+      {
+        category: 'Dusty Warm Tones',
+        colors: ['#D2B48C', '#C19A6B', '#BC8F8F', '#DAA520', '#A3A380'],
+        reason: 'Soft golden colours lack the contrast your features carry'
+      }
+    ],
+    neutrals: ['#2B2D42', '#4A4E69', '#8D99AE', '#EDF2F4'],
+    accents: ['#9B2335', '#2E5984', '#1F7A6D', '#7B3F61'],
+    metallics: 'both',
+    makeup: {
+      lipColors: ['#9B2335', '#B03A48', '#C2185B', '#7B3F61', '#E63946'],
+      eyeColors: ['#2E5984', '#4A4E69', '#1F7A6D', '#6A4C93', '#2B2D42'],
+      blushColors: ['#C75B7A', '#B03A48', '#D4728C', '#E07A8F'],
+      nailColors: ['#9B2335', '#2E5984', '#6A4C93', '#000000'],
+      highlighter: '#EEF0F8',
+      bronzer: '#9C8C84',
+      mascara: '#000000'
+    },
+    tips: [
+      'Keep outfits high-contrast, but you can trade white for soft white',
+      'Mixed metals are fine; polished finishes look best',
+      'True red and berry lips both work for you'
+    ]
+  }
+];
@@ -0,0 +1,201 @@
+/**
+ * Recorded Weather Fixtures
+ *
+ * Open-Meteo forecast responses for a few characteristic days, trimmed to
+ * the fields the app requests. With VITE_WEATHER_PROVIDER=fixture,
+ * FixtureWeatherProvider replays them in place of the network, so demos and
+ * tests always see the same weather. Replayed dates are moved forward to the
+ * current day.
+ *
+ * To add a fixture, save a real response from the forecast endpoint (with
+ * the hourly and daily fields in lib/weatherForecast), cut it down to two or
+ * three days and list the hourly times with hourlyTimes.
+ */
+
+export interface RecordedOpenMeteoResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  current_weather: { time: string; temperature: number; windspeed: number; weathercode: number };
+  hourly: Record<string, (string | number)[]>;
+  daily: Record<string, (string | number)[]>;
+}
+
+export interface WeatherFixture {
+  id: string;
+  label: string;
+  location: string;
+  recordedAt: string; // YYYY-MM-DD, the first forecast day
+  response: RecordedOpenMeteoResponse;
+}
+
+// Open-Meteo lists every hour of every day as YYYY-MM-DDTHH:00
+const hourlyTimes = (dates: string[]): string[] =>
+  dates.flatMap(date => Array.from({ length: 24 }, (_, hour) => `${date}T${String(hour).padStart(2, '0')}:00`));
+
+export const DEFAULT_WEATHER_FIXTURE = 'autumn-commute';
+
+export const WEATHER_FIXTURES: Record<string, WeatherFixture> = {
+  'autumn-commute': {
+    id: 'autumn-commute',
+    label: 'Autumn commute: cold morning, rainy evening',
+    location: 'Manchester, United Kingdom',
+    recordedAt: '2025-10-14',
+    response: {
+      latitude: 53.48,
+      longitude: -2.24,
+      timezone: 'Europe/London',
+      current_weather: { time: '2025-10-14T08:00', temperature: 9.5, windspeed: 9.6, weathercode: 3 },
+      hourly: {
+        time: hourlyTimes(['2025-10-14', '2025-10-15', '2025-10-16']),
+        temperature_2m: [
+          10.4, 9.3, 8.3, 7.6, 7.2, 7, 7.3, 8.1, 9.5, 11.1, 13, 14.9, 16.5, 17.9, 18.7, 19, 18.8,
+          18.4, 17.7, 16.7, 15.6, 14.3, 13, 11.7, 10.4, 9.9, 9.5, 9.2, 9.1, 9, 9.1, 9.5, 10, 10.7,
+          11.5, 12.3, 13, 13.5, 13.9, 14, 13.9, 13.8, 13.5, 13.1, 12.6, 12.1, 11.5, 10.9, 6.3, 5.5,
+          4.9, 4.4, 4.1, 4, 4.2, 4.8, 5.6, 6.8, 8, 9.2, 10.4, 11.2, 11.8, 12, 11.9, 11.6, 11.1, 10.5,
+          9.7, 8.9, 8, 7.1
+        ],
+        relative_humidity_2m: [
+          81, 82, 83, 84, 85, 85, 85, 84, 82, 80, 78, 75, 73, 71, 70, 70, 70, 71, 72, 73, 74, 76, 78,
+          79, 84, 85, 86, 87, 88, 88, 88, 87, 85, 83, 80, 78, 76, 74, 73, 73, 73, 74, 75, 76, 77, 79,
+          80, 82, 71, 72, 73, 74, 75, 75, 75, 74, 72, 70, 68, 65, 63, 61, 60, 60, 60, 61, 62, 63, 64,
+          66, 68, 69
+        ],
+        precipitation_probability: [
+          0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 23, 23, 70, 70, 70, 70, 23, 23, 0, 0, 0, 0, 0, 0,
+          0, 0, 20, 20, 60, 60, 60, 60, 60, 60, 60, 20, 20, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+          0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+        ],
+        uv_index: [
+          0, 0, 0, 0, 0, 0, 0, 0.7, 1.3, 1.9, 2.3, 2.7, 2.9, 3, 2.9, 2.7, 2.3, 1.9, 1.3, 0.7, 0, 0, 0,
+          0, 0, 0, 0, 0, 0, 0, 0, 0.4, 0.9, 1.2, 1.6, 1.8, 1.9, 2, 1.9, 1.8, 1.6, 1.2, 0.9, 0.4, 0, 0,
+          0, 0, 0, 0, 0, 0, 0, 0, 0, 0.7, 1.3, 1.9, 2.3, 2.7, 2.9, 3, 2.9, 2.7, 2.3, 1.9, 1.3, 0.7, 0,
+          0, 0, 0
+        ],
+        windspeed_10m: [
+          10.1, 9.5, 9.1, 8.7, 8.5, 8.4, 8.5, 9, 9.6, 10.5, 11.4, 12.3, 13.2, 13.8, 14.3, 14.4, 14.3,
+          14.1, 13.7, 13.3, 12.7, 12.1, 11.4, 10.7, 18.5, 17.5, 16.6, 15.9, 15.5, 15.4, 15.7, 16.5,
+          17.7, 19.2, 20.9, 22.6, 24.1, 25.3, 26.1, 26.4, 26.3, 25.9, 25.2, 24.3, 23.3, 22.1, 20.9,
+          19.7, 6.7, 6.4, 6, 5.8, 5.7, 5.6, 5.7, 6, 6.4, 7, 7.6, 8.2, 8.8, 9.2, 9.5, 9.6, 9.5, 9.4,
+          9.2, 8.8, 8.5, 8, 7.6, 7.2
+        ],
+        weathercode: [
+          3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 61, 61, 61, 61, 3, 3, 3, 3, 3, 3, 3, 3, 3,
+          3, 3, 3, 63, 63, 63, 63, 63, 63, 63, 3, 3, 3, 3, 3, 3, 3, 3, 3, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+          0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+        ],
+      },
+      daily: {
+        time: ['2025-10-14', '2025-10-15', '2025-10-16'],
+        weathercode: [61, 63, 0],
+        temperature_2m_max: [19, 14, 12],
+        temperature_2m_min: [7, 9, 4],
+        precipitation_probability_max: [70, 60, 0],
+        uv_index_max: [3, 2, 3],
+        windspeed_10m_max: [14.4, 26.4, 9.6],
+      },
+    },
+  },
+  'winter-snow': {
+    id: 'winter-snow',
+    label: 'Winter snow day',
+    location: 'Oslo, Norway',
+    recordedAt: '2026-01-20',
+    response: {
+      latitude: 59.91,
+      longitude: 10.75,
+      timezone: 'Europe/Oslo',
+      current_weather: { time: '2026-01-20T08:00', temperature: -2.0, windspeed: 14.5, weathercode: 3 },
+      hourly: {
+        time: hourlyTimes(['2026-01-20', '2026-01-21']),
+        temperature_2m: [
+          -1.6, -2.1, -2.5, -2.8, -2.9, -3, -2.9, -2.5, -2, -1.3, -0.5, 0.3, 1, 1.5, 1.9, 2, 1.9, 1.8,
+          1.5, 1.1, 0.6, 0.1, -0.5, -1.1, -4.3, -4.9, -5.3, -5.7, -5.9, -6, -5.9, -5.4, -4.8, -3.9,
+          -3, -2.1, -1.2, -0.6, -0.1, 0, -0.1, -0.3, -0.7, -1.1, -1.7, -2.3, -3, -3.7
+        ],
+        relative_humidity_2m: [
+          86, 87, 88, 89, 90, 90, 90, 89, 87, 85, 82, 80, 78, 76, 75, 75, 75, 76, 77, 78, 79, 81, 82,
+          84, 76, 77, 78, 79, 80, 80, 80, 79, 77, 75, 72, 70, 68, 66, 65, 65, 65, 66, 67, 68, 69, 71,
+          72, 74
+        ],
+        precipitation_probability: [
+          0, 0, 0, 0, 0, 0, 0, 26, 26, 80, 80, 80, 80, 80, 80, 80, 26, 26, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+          0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+        ],
+        uv_index: [
+          0, 0, 0, 0, 0, 0, 0, 0.2, 0.4, 0.6, 0.8, 0.9, 1, 1, 1, 0.9, 0.8, 0.6, 0.4, 0.2, 0, 0, 0, 0,
+          0, 0, 0, 0, 0, 0, 0, 0.2, 0.4, 0.6, 0.8, 0.9, 1, 1, 1, 0.9, 0.8, 0.6, 0.4, 0.2, 0, 0, 0, 0
+        ],
+        windspeed_10m: [
+          15.1, 14.3, 13.6, 13, 12.7, 12.6, 12.8, 13.5, 14.5, 15.7, 17.1, 18.5, 19.7, 20.7, 21.4,
+          21.6, 21.5, 21.2, 20.6, 19.9, 19.1, 18.1, 17.1, 16.1, 8.4, 7.9, 7.5, 7.2, 7.1, 7, 7.1, 7.5,
+          8, 8.7, 9.5, 10.3, 11, 11.5, 11.9, 12, 11.9, 11.8, 11.5, 11.1, 10.6, 10.1, 9.5, 8.9
+        ],
+        weathercode: [
+          3, 3, 3, 3, 3, 3, 3, 3, 3, 73, 73, 73, 73, 73, 73, 73, 3, 3, 3, 3, 3, 3, 3, 3, 0, 0, 0, 0,
+          0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+        ],
+      },
+      daily: {
+        time: ['2026-01-20', '2026-01-21'],
+        weathercode: [73, 0],
+        temperature_2m_max: [2, 0],
+        temperature_2m_min: [-3, -6],
+        precipitation_probability_max: [80, 0],
+        uv_index_max: [1, 1],
+        windspeed_10m_max: [21.6, 12.0],
+      },
+    },
+  },
+  'summer-heat': {
+    id: 'summer-heat',
+    label: 'Summer heat with an evening storm',
+    location: 'Madrid, Spain',
+    recordedAt: '2025-07-08',
+    response: {
+      latitude: 40.42,
+      longitude: -3.7,
+      timezone: 'Europe/Madrid',
+      current_weather: { time: '2025-07-08T08:00', temperature: 24.3, windspeed: 7.2, weathercode: 0 },
+      hourly: {
+        time: hourlyTimes(['2025-07-08', '2025-07-09']),
+        temperature_2m: [
+          25.1, 24.1, 23.2, 22.5, 22.1, 22, 22.3, 23.1, 24.3, 25.8, 27.5, 29.2, 30.7, 31.9, 32.7, 33,
+          32.9, 32.5, 31.8, 30.9, 29.9, 28.7, 27.5, 26.3, 26.8, 25.9, 25.1, 24.5, 24.1, 24, 24.2, 25,
+          26.1, 27.5, 29, 30.5, 31.9, 33, 33.8, 34, 33.9, 33.5, 32.9, 32.1, 31.2, 30.1, 29, 27.9
+        ],
+        relative_humidity_2m: [
+          51, 52, 53, 54, 55, 55, 55, 54, 52, 50, 48, 45, 43, 41, 40, 40, 40, 41, 42, 43, 44, 46, 48,
+          49, 56, 57, 58, 59, 60, 60, 60, 59, 57, 55, 52, 50, 48, 46, 45, 45, 45, 46, 47, 48, 49, 51,
+          52, 54
+        ],
+        precipitation_probability: [
+          0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+          0, 0, 0, 0, 0, 0, 0, 0, 20, 20, 60, 60, 60, 20, 20, 0, 0
+        ],
+        uv_index: [
+          0, 0, 0, 0, 0, 0, 0, 1.8, 3.5, 5, 6.3, 7.2, 7.8, 8, 7.8, 7.2, 6.3, 5, 3.5, 1.8, 0, 0, 0, 0,
+          0, 0, 0, 0, 0, 0, 0, 1.8, 3.5, 5, 6.3, 7.2, 7.8, 8, 7.8, 7.2, 6.3, 5, 3.5, 1.8, 0, 0, 0, 0
+        ],
+        windspeed_10m: [
+          7.6, 7.1, 6.8, 6.5, 6.4, 6.3, 6.4, 6.7, 7.2, 7.9, 8.5, 9.2, 9.9, 10.4, 10.7, 10.8, 10.7,
+          10.6, 10.3, 10, 9.5, 9.1, 8.5, 8, 11.8, 11.1, 10.6, 10.1, 9.9, 9.8, 10, 10.5, 11.2, 12.2,
+          13.3, 14.4, 15.4, 16.1, 16.6, 16.8, 16.7, 16.5, 16, 15.5, 14.8, 14.1, 13.3, 12.5
+        ],
+        weathercode: [
+          0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1, 1,
+          1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 95, 95, 95, 1, 1, 1, 1
+        ],
+      },
+      daily: {
+        time: ['2025-07-08', '2025-07-09'],
+        weathercode: [0, 95],
+        temperature_2m_max: [33, 34],
+        temperature_2m_min: [22, 24],
+        precipitation_probability_max: [0, 60],
+        uv_index_max: [8, 8],
+        windspeed_10m_max: [10.8, 16.8],
+      },
+    },
+  },
+};
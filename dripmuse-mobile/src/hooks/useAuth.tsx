@@ -1,43 +1,85 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { AuthService, User, AuthError } from '@/services/authService';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { AuthService, User, AuthError, Session } from '@/services/authService';
+
+// How often the remaining session lifetime is recomputed for consumers
+const SESSION_CLOCK_INTERVAL_MS = 30 * 1000;
 
 interface AuthContextType {
   user: User | null;
+  session: Session | null;
+  sessionRemainingMs: number;
+  accounts: Session[];
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signUp: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signOut: () => Promise<{ error: AuthError | null }>;
+  signOutAll: () => Promise<{ error: AuthError | null }>;
+  refreshSession: () => Promise<{ error: AuthError | null }>;
+  switchAccount: (userId: string) => Promise<{ error: AuthError | null }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [accounts, setAccounts] = useState<Session[]>([]);
+  const [now, setNow] = useState(Date.now());
   const [loading, setLoading] = useState(true);
 
+  const applySession = useCallback(async (nextSession: Session | null) => {
+    setSession(nextSession);
+    // Keep the user object stable across refreshes so effects keyed on it don't re-run
+    setUser(prev => (prev && prev.id === nextSession?.user.id ? prev : nextSession?.user ?? null));
+    setNow(Date.now());
+    setAccounts(await AuthService.getSignedInAccounts());
+  }, []);
+
+  const reloadSession = useCallback(async () => {
+    try {
+      await applySession(await AuthService.getCurrentSession());
+    } catch (error) {
+      console.error('Error checking existing session:', error);
+    }
+  }, [applySession]);
+
   useEffect(() => {
     // Check for existing session on app start
-    const checkExistingSession = async () => {
-      try {
-        const currentUser = await AuthService.getCurrentUser();
-        setUser(currentUser);
-      } catch (error) {
-        console.error('Error checking existing session:', error);
-      } finally {
-        setLoading(false);
+    reloadSession().finally(() => setLoading(false));
+
+    // Re-validate when returning to the foreground, where timers may not have fired
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        reloadSession();
       }
-    };
+    });
 
-    checkExistingSession();
-  }, []);
+    return () => subscription.remove();
+  }, [reloadSession]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    const clock = setInterval(() => setNow(Date.now()), SESSION_CLOCK_INTERVAL_MS);
+    // Sign out automatically when the session expires
+    const expiry = setTimeout(() => {
+      reloadSession();
+    }, Math.max(0, session.expires_at - Date.now()));
+
+    return () => {
+      clearInterval(clock);
+      clearTimeout(expiry);
+    };
+  }, [session, reloadSession]);
 
   const signIn = async (email: string, password: string) => {
     setLoading(true);
     try {
       const result = await AuthService.signIn(email, password);
-      
-      if (result.user) {
-        setUser(result.user);
+
+      if (result.session) {
+        await applySession(result.session);
         return { error: null };
       } else {
         return { error: result.error || { message: 'Sign in failed' } };
@@ -53,12 +95,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setLoading(true);
     try {
       const result = await AuthService.signUp(email, password);
-      
+
       if (result.user) {
         // Auto sign in after sign up
         const signInResult = await AuthService.signIn(email, password);
-        if (signInResult.user) {
-          setUser(signInResult.user);
+        if (signInResult.session) {
+          await applySession(signInResult.session);
         }
         return { error: null };
       } else {
@@ -75,7 +117,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setLoading(true);
     try {
       const result = await AuthService.signOut();
-      setUser(null);
+      await applySession(result.session ?? null);
       return { error: result.error || null };
     } catch (error) {
       return { error: { message: 'Sign out failed' } };
@@ -84,12 +126,62 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const signOutAll = async () => {
+    setLoading(true);
+    try {
+      const result = await AuthService.signOutAll();
+      await applySession(null);
+      return { error: result.error || null };
+    } catch (error) {
+      return { error: { message: 'Sign out failed' } };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshSession = async () => {
+    try {
+      const result = await AuthService.refreshSession();
+      if (result.session) {
+        await applySession(result.session);
+        return { error: null };
+      }
+      // The session could not be extended, so it is already gone
+      await reloadSession();
+      return { error: result.error || { message: 'Session refresh failed' } };
+    } catch (error) {
+      return { error: { message: 'Session refresh failed' } };
+    }
+  };
+
+  const switchAccount = async (userId: string) => {
+    setLoading(true);
+    try {
+      const result = await AuthService.switchAccount(userId);
+      if (result.session) {
+        await applySession(result.session);
+        return { error: null };
+      }
+      return { error: result.error || { message: 'Switching account failed' } };
+    } catch (error) {
+      return { error: { message: 'Switching account failed' } };
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const value = {
     user,
+    session,
+    sessionRemainingMs: session ? Math.max(0, session.expires_at - now) : 0,
+    accounts,
     loading,
     signIn,
     signUp,
     signOut,
+    signOutAll,
+    refreshSession,
+    switchAccount,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -1,76 +1,47 @@
 import { useState, useEffect } from 'react';
+import {
+  CAPABILITY_LABELS,
+  getCapabilityStatuses,
+  subscribeToModelStatus,
+  type CapabilityStatuses
+} from '@/lib/modelLoader';
 
 export interface ModelLoadingStatus {
   isLoading: boolean;
   isLoaded: boolean;
   error: string | null;
   source: string | null;
+  // Per-capability state, with the reason any capability is unavailable
+  capabilities: CapabilityStatuses;
+  version: string;
 }
 
+const summarize = (capabilities: CapabilityStatuses): ModelLoadingStatus => {
+  const all = Object.values(capabilities);
+  const unavailable = all.filter(status => status.state === 'unavailable');
+  const isLoaded = all.every(status => status.state === 'ready');
+
+  return {
+    isLoading: all.some(status => status.state === 'loading'),
+    isLoaded,
+    error: unavailable.length > 0
+      ? unavailable.map(status => `${CAPABILITY_LABELS[status.capability]} unavailable: ${status.reason}`).join('. ')
+      : null,
+    source: isLoaded
+      ? (all.every(status => status.source === 'cache') ? 'cached models' : 'bundled models')
+      : null,
+    capabilities,
+    version: capabilities.detector.version
+  };
+};
+
 export function useModelLoadingStatus(): ModelLoadingStatus {
-  const [status, setStatus] = useState<ModelLoadingStatus>({
-    isLoading: false,
-    isLoaded: false,
-    error: null,
-    source: null
-  });
+  const [status, setStatus] = useState<ModelLoadingStatus>(() => summarize(getCapabilityStatuses()));
 
   useEffect(() => {
-    // Disable face-api model checking to prevent errors
-    const checkModelStatus = () => {
-      // Always return false to indicate models are not loaded
-      return false;
-    };
-
-    // Initial check
-    if (checkModelStatus()) return;
-
-    // Set loading state
-    setStatus(prev => ({ ...prev, isLoading: true }));
-
-    // Listen for console logs to detect model loading status
-    const originalConsoleLog = console.log;
-    const originalConsoleError = console.error;
-    const originalConsoleWarn = console.warn;
-
-    console.log = (...args) => {
-      originalConsoleLog(...args);
-      const message = args.join(' ');
-      if (message.includes('Face-API models loaded successfully')) {
-        const source = message.includes('from:') ? message.split('from:')[1].trim() : 'unknown source';
-        setStatus({
-          isLoading: false,
-          isLoaded: true,
-          error: null,
-          source
-        });
-      }
-    };
-
-    console.error = (...args) => {
-      originalConsoleError(...args);
-      const message = args.join(' ');
-      if (message.includes('Failed to load Face-API models from all sources')) {
-        setStatus({
-          isLoading: false,
-          isLoaded: false,
-          error: null, // No error - fallback mode is expected
-          source: 'Using advanced color analysis'
-        });
-      }
-    };
-
-    console.warn = (...args) => {
-      originalConsoleWarn(...args);
-      // Don't update status on warnings, just individual source failures
-    };
-
-    // Cleanup
-    return () => {
-      console.log = originalConsoleLog;
-      console.error = originalConsoleError;
-      console.warn = originalConsoleWarn;
-    };
+    // Models load on first use elsewhere; this only reflects their state
+    setStatus(summarize(getCapabilityStatuses()));
+    return subscribeToModelStatus(capabilities => setStatus(summarize(capabilities)));
   }, []);
 
   return status;
@@ -1,52 +1,9 @@
 import React, { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
 import { useAuth } from "./useAuth";
-import { checkSupabaseHealth } from "@/lib/supabaseHealth";
 import { logError } from "@/lib/errorLogger";
 import { getErrorMessage, logError as logErrorWithMessage } from "@/lib/errorUtils";
 
-// Test basic Supabase connectivity with detailed diagnostics
-const testConnection = async (): Promise<{ connected: boolean; details: string }> => {
-  try {
-    console.log('Testing Supabase connection...');
-
-    // Test 1: Check auth status
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError) {
-      return { connected: false, details: `Auth error: ${authError.message}` };
-    }
-    if (!user) {
-      return { connected: false, details: 'User not authenticated' };
-    }
-    console.log('✓ Auth check passed, user ID:', user.id);
-
-    // Test 2: Simple query with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000); // Match health check timeout
-
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('count')
-      .limit(1)
-      .abortSignal(controller.signal);
-
-    clearTimeout(timeoutId);
-
-    if (error) {
-      return { connected: false, details: `Query error: ${error.message}` };
-    }
-
-    console.log('✓ Database connection successful');
-    return { connected: true, details: 'Connection successful' };
-
-  } catch (error) {
-    if (error instanceof DOMException && error.name === 'AbortError') {
-      return { connected: false, details: 'Connection timeout (8s)' };
-    }
-    return { connected: false, details: `Connection test failed: ${error}` };
-  }
-};
-
 interface Profile {
   id: string;
   user_id: string;
@@ -96,6 +53,36 @@ export const useProfile = () => {
     };
   }, [user?.id]);
 
+  // Fall back to the last profile this device saw, or a basic one
+  const loadOfflineProfile = (user: { id: string; email?: string }) => {
+    setIsOffline(true);
+
+    const localProfile = localStorage.getItem(`profile_${user.id}`);
+    if (localProfile) {
+      try {
+        const parsedProfile = JSON.parse(localProfile);
+        console.log('✓ Loaded profile from localStorage cache');
+        setProfile(parsedProfile);
+        profileCache[user.id] = parsedProfile;
+        return;
+      } catch (parseError) {
+        console.error('Failed to parse cached profile:', parseError);
+      }
+    }
+
+    const offlineProfile: Profile = {
+      id: 'offline',
+      user_id: user.id,
+      display_name: user.email?.split('@')[0] || 'User',
+      location: '',
+      culture: '',
+      preferred_style: '',
+    };
+
+    console.log('Created offline profile');
+    setProfile(offlineProfile);
+  };
+
   const fetchProfile = async (forceRefresh = false) => {
     if (!user) {
       setProfile(null);
@@ -113,133 +100,34 @@ export const useProfile = () => {
     try {
       console.log("Fetching profile for user:", user.id);
 
-      // Run connection diagnostics first
-      const healthCheck = await checkSupabaseHealth();
-      console.log('Supabase health check:', healthCheck);
-
-      if (!healthCheck.healthy) {
-        console.error('Health check failed:', healthCheck.details);
-        setIsOffline(true);
+      const repository = getRepositories().profiles;
+      let data: Profile | null = await repository.get(user.id);
 
-        // Try to load from localStorage as fallback
-        const localProfile = localStorage.getItem(`profile_${user.id}`);
-        if (localProfile) {
-          try {
-            const parsedProfile = JSON.parse(localProfile);
-            console.log('✓ Loaded profile from localStorage cache');
-            setProfile(parsedProfile);
-            profileCache[user.id] = parsedProfile;
-            setLoading(false);
-            return;
-          } catch (parseError) {
-            console.error('Failed to parse cached profile:', parseError);
-          }
-        }
-
-        // If no cache available, create a basic offline profile
-        const offlineProfile: Profile = {
-          id: 'offline',
-          user_id: user.id,
-          display_name: user.email?.split('@')[0] || 'User',
-          location: '',
-          culture: '',
-          preferred_style: '',
-        };
-
-        console.log('Created offline profile');
-        setProfile(offlineProfile);
-        setLoading(false);
-        return;
+      if (!data) {
+        // No profile found, create a basic one
+        console.log("No profile found, creating basic profile");
+        data = await repository.upsert(user.id, {
+          display_name: user.email?.split("@")[0] || "User",
+        });
+        console.log("Created new profile:", data);
+      } else {
+        console.log("Profile fetched successfully:", data);
       }
 
       setIsOffline(false);
-
-      // Add timeout and better error handling - generous timeout to prevent abort errors
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-
-      // Start with a minimal query to test basic connectivity
-      console.log('Attempting minimal profile query first...');
-      let { data, error } = await supabase
-        .from("profiles")
-        .select("id, user_id, display_name")
-        .eq("user_id", user.id)
-        .single()
-        .abortSignal(controller.signal);
-
-      clearTimeout(timeoutId);
-
-      // If minimal query succeeds, try to get more fields
-      if (!error && data) {
-        console.log('✓ Minimal query successful, fetching full profile...');
-        const fullResult = await supabase
-          .from("profiles")
-          .select("*")
-          .eq("user_id", user.id)
-          .single();
-
-        // Use full data if available, otherwise stick with minimal
-        if (!fullResult.error && fullResult.data) {
-          data = fullResult.data;
-        }
+      setProfile(data);
+      profileCache[user.id] = data;
+
+      // Save to localStorage for offline fallback
+      try {
+        localStorage.setItem(`profile_${user.id}`, JSON.stringify(data));
+      } catch (storageError) {
+        console.warn('Failed to save profile to localStorage:', storageError);
       }
 
-      if (error) {
-        if (error.code === "PGRST116") {
-          // No profile found, create a basic one
-          console.log("No profile found, creating basic profile");
-          const { data: newProfile, error: createError } = await supabase
-            .from("profiles")
-            .insert({
-              user_id: user.id,
-              display_name: user.email?.split("@")[0] || "User",
-            })
-            .select()
-            .single();
-
-          if (createError) {
-            console.error("Error creating profile:", createError);
-          } else {
-            console.log("Created new profile:", newProfile);
-            setProfile(newProfile);
-            profileCache[user.id] = newProfile;
-          }
-        } else {
-          console.error("Error fetching profile:", error);
-          const errorMessage = getErrorMessage(error);
-          console.error("Error details:", errorMessage);
-
-          // Check for specific network errors
-          if (error.message && error.message.includes('NetworkError')) {
-            console.error("Network connectivity issue detected. Checking connection...");
-            // Try a simple health check
-            try {
-              const response = await fetch('https://dskruszbxlndmnhwcudx.supabase.co/health', {
-                method: 'GET',
-                mode: 'no-cors'
-              });
-              console.log("Supabase health check status:", response.status);
-            } catch (healthError) {
-              console.error("Health check failed:", healthError);
-            }
-          }
-        }
-      } else {
-        console.log("Profile fetched successfully:", data);
-        setProfile(data);
-        profileCache[user.id] = data;
-
-        // Save to localStorage for offline fallback
-        try {
-          localStorage.setItem(`profile_${user.id}`, JSON.stringify(data));
-        } catch (storageError) {
-          console.warn('Failed to save profile to localStorage:', storageError);
-        }
-
-        // Notify all listeners of the profile update
-        if (profileCacheListeners[user.id]) {
-          profileCacheListeners[user.id].forEach(fn => fn());
-        }
+      // Notify all listeners of the profile update
+      if (profileCacheListeners[user.id]) {
+        profileCacheListeners[user.id].forEach(fn => fn());
       }
     } catch (error) {
       console.error("Unexpected error fetching profile:", error);
@@ -286,6 +174,8 @@ export const useProfile = () => {
       } else {
         setRetryCount(0);
       }
+
+      loadOfflineProfile(user);
     } finally {
       setLoading(false);
     }
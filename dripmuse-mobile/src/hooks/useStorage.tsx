@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
-import { StorageService, Profile, WardrobeItem } from '@/services/storageService';
+import { getRepositories } from '@/services/repositoryProvider';
+import { ProfileRecord, ProfileUpdates, WardrobeRecord, WardrobeRecordInput, WardrobeRecordUpdates } from '@/services/repositories';
 import { useAuth } from './useAuth';
 
 export function useProfile() {
   const { user } = useAuth();
-  const [profile, setProfile] = useState<Profile | null>(null);
+  const [profile, setProfile] = useState<ProfileRecord | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -21,7 +22,7 @@ export function useProfile() {
     
     try {
       setLoading(true);
-      const userProfile = await StorageService.getProfile(user.id);
+      const userProfile = await getRepositories().profiles.get(user.id);
       setProfile(userProfile);
     } catch (error) {
       console.error('Error loading profile:', error);
@@ -30,20 +31,12 @@ export function useProfile() {
     }
   };
 
-  const saveProfile = async (profileData: Partial<Profile>) => {
+  const saveProfile = async (profileData: ProfileUpdates) => {
     if (!user) return;
 
     try {
-      const profileToSave: Profile = {
-        id: profile?.id || '',
-        user_id: user.id,
-        ...profileData,
-        created_at: profile?.created_at || new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-
-      await StorageService.saveProfile(profileToSave);
-      await loadProfile(); // Reload to get updated data
+      const savedProfile = await getRepositories().profiles.upsert(user.id, profileData);
+      setProfile(savedProfile);
     } catch (error) {
       console.error('Error saving profile:', error);
       throw error;
@@ -60,7 +53,7 @@ export function useProfile() {
 
 export function useWardrobe() {
   const { user } = useAuth();
-  const [wardrobeItems, setWardrobeItems] = useState<WardrobeItem[]>([]);
+  const [wardrobeItems, setWardrobeItems] = useState<WardrobeRecord[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -77,7 +70,7 @@ export function useWardrobe() {
 
     try {
       setLoading(true);
-      const items = await StorageService.getWardrobeItems(user.id);
+      const items = await getRepositories().wardrobe.list(user.id);
       setWardrobeItems(items);
     } catch (error) {
       console.error('Error loading wardrobe items:', error);
@@ -86,15 +79,12 @@ export function useWardrobe() {
     }
   };
 
-  const addWardrobeItem = async (itemData: Omit<WardrobeItem, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => {
+  const addWardrobeItem = async (itemData: WardrobeRecordInput) => {
     if (!user) return;
 
     try {
-      const newItem = await StorageService.saveWardrobeItem({
-        ...itemData,
-        user_id: user.id,
-      });
-      
+      const newItem = await getRepositories().wardrobe.create(user.id, itemData);
+
       setWardrobeItems(prev => [...prev, newItem]);
       return newItem;
     } catch (error) {
@@ -103,9 +93,9 @@ export function useWardrobe() {
     }
   };
 
-  const updateWardrobeItem = async (itemId: string, updates: Partial<WardrobeItem>) => {
+  const updateWardrobeItem = async (itemId: string, updates: WardrobeRecordUpdates) => {
     try {
-      await StorageService.updateWardrobeItem(itemId, updates);
+      await getRepositories().wardrobe.update(itemId, updates);
       await loadWardrobeItems(); // Reload to get updated data
     } catch (error) {
       console.error('Error updating wardrobe item:', error);
@@ -115,7 +105,7 @@ export function useWardrobe() {
 
   const deleteWardrobeItem = async (itemId: string) => {
     try {
-      await StorageService.deleteWardrobeItem(itemId);
+      await getRepositories().wardrobe.remove([itemId]);
       setWardrobeItems(prev => prev.filter(item => item.id !== itemId));
     } catch (error) {
       console.error('Error deleting wardrobe item:', error);
@@ -0,0 +1,62 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Platform } from 'react-native';
+import { syncEngine, SyncStatus } from '@/services/syncEngine';
+import { SyncConflict } from '@/services/syncOutbox';
+import { useAuth } from './useAuth';
+
+interface SyncContextType extends SyncStatus {
+  conflicts: SyncConflict[];
+  syncNow: () => Promise<void>;
+  resolveConflict: (conflictId: string, keep: 'local' | 'remote') => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<SyncStatus>(syncEngine.getStatus());
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
+  // The web build talks to Supabase directly, so only native keeps a local copy to sync
+  useEffect(() => {
+    if (!user || Platform.OS === 'web') return;
+
+    syncEngine.start(user.id);
+    return () => syncEngine.stop();
+  }, [user]);
+
+  useEffect(() => syncEngine.subscribe(setStatus), []);
+
+  useEffect(() => {
+    syncEngine.getConflicts().then(setConflicts);
+  }, [user, status.conflictCount]);
+
+  const syncNow = useCallback(() => syncEngine.sync(), []);
+
+  const resolveConflict = useCallback(async (conflictId: string, keep: 'local' | 'remote') => {
+    try {
+      await syncEngine.resolveConflict(conflictId, keep);
+      setConflicts(await syncEngine.getConflicts());
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      throw error;
+    }
+  }, []);
+
+  const value = {
+    ...status,
+    conflicts,
+    syncNow,
+    resolveConflict,
+  };
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+}
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
@@ -1,25 +1,26 @@
-import { useState, useEffect, useCallback } from "react";
-import { getNetworkConfig, shouldUseMockData, withNetworkRetry, isOnline } from "@/lib/networkUtils";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { shouldUseMockData, withNetworkRetry, isOnline } from "@/lib/networkUtils";
 import { getErrorMessage, logError } from "@/lib/errorUtils";
-
-export interface WeatherData {
-  temperature: number; // Celsius
-  condition: string; // clear, rain, snow, clouds, thunderstorm
-  humidity: number;
-  windSpeed: number;
-  description: string;
-  location: string;
-  source: "profile" | "gps" | "manual" | "mock";
-  timestamp: number;
-  icon: string;
-  isManualEntry?: boolean;
-}
-
-export interface ManualWeatherEntry {
-  temperature: number;
-  condition: string;
-  location: string;
-}
+import {
+  cacheForecast,
+  isForecastStale,
+  loadCachedForecast,
+  type WeatherForecast,
+} from "@/lib/weatherForecast";
+import {
+  ManualWeatherProvider,
+  WEATHER_PROVIDER_LABELS,
+  createWeatherProvider,
+  describeWeatherAge,
+  getEnvironmentWeatherConfig,
+  isWeatherStale,
+  type ManualWeatherEntry,
+  type WeatherData,
+  type WeatherResult,
+} from "@/lib/weatherProviders";
+
+// Defined with the providers; re-exported for the components that import them from here
+export type { ManualWeatherEntry, WeatherData } from "@/lib/weatherProviders";
 
 interface CachedWeatherData extends WeatherData {
   cacheTimestamp: number;
@@ -29,19 +30,10 @@ interface CachedWeatherData extends WeatherData {
 const WEATHER_CACHE_KEY = 'dripmuse_weather_cache';
 const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
 
-// Weather condition mapping
-const WEATHER_CONDITIONS = {
-  clear: { icon: '☀️', description: 'Clear skies' },
-  clouds: { icon: '☁️', description: 'Cloudy' },
-  rain: { icon: '🌧️', description: 'Rainy' },
-  snow: { icon: '❄️', description: 'Snowy' },
-  thunderstorm: { icon: '⛈️', description: 'Thunderstorm' },
-  mist: { icon: '🌫️', description: 'Misty' },
-  fog: { icon: '🌫️', description: 'Foggy' }
-};
-
 export const useWeather = (profileLocation?: string) => {
   const [weather, setWeather] = useState<WeatherData | null>(null);
+  // Daily and hourly forecast for the coming days; null for manual weather
+  const [forecast, setForecast] = useState<WeatherForecast | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [locationPermission, setLocationPermission] = useState<
@@ -49,19 +41,23 @@ export const useWeather = (profileLocation?: string) => {
   >("prompt");
   const [showManualEntry, setShowManualEntry] = useState(false);
   const [manualWeather, setManualWeather] = useState<ManualWeatherEntry | null>(null);
+  // Re-rendered every minute so the reading's age stays current
+  const [now, setNow] = useState(() => Date.now());
 
-  // Load cached weather data
-  const loadCachedWeather = useCallback((): WeatherData | null => {
+  const config = useMemo(() => getEnvironmentWeatherConfig(), []);
+  const provider = useMemo(() => createWeatherProvider(config), [config]);
+  const manualProvider = useRef(new ManualWeatherProvider()).current;
+
+  // Load cached weather data; offline, an expired reading is still better than none
+  const loadCachedWeather = useCallback((allowExpired = false): WeatherData | null => {
     try {
       const cached = localStorage.getItem(WEATHER_CACHE_KEY);
       if (cached) {
         const data: CachedWeatherData = JSON.parse(cached);
-        const now = Date.now();
-        if (now - data.cacheTimestamp < CACHE_DURATION) {
+        if (allowExpired || Date.now() - data.cacheTimestamp < CACHE_DURATION) {
           console.log('Using cached weather data');
-          return data;
-        } else {
-          localStorage.removeItem(WEATHER_CACHE_KEY);
+          const { cacheTimestamp, ...weatherData } = data;
+          return weatherData;
         }
       }
     } catch (error) {
@@ -84,64 +80,6 @@ export const useWeather = (profileLocation?: string) => {
     }
   }, []);
 
-  // Generate realistic mock weather based on location and season
-  const generateMockWeather = useCallback((locationName?: string): WeatherData => {
-    const hour = new Date().getHours();
-    const month = new Date().getMonth();
-    const isDay = hour >= 6 && hour <= 18;
-    const season = Math.floor(month / 3); // 0=winter, 1=spring, 2=summer, 3=fall
-
-    // Seasonal temperature ranges
-    const tempRanges = {
-      0: { min: -5, max: 10 },  // Winter
-      1: { min: 10, max: 22 },  // Spring
-      2: { min: 20, max: 35 },  // Summer
-      3: { min: 5, max: 20 }    // Fall
-    };
-
-    const range = tempRanges[season as keyof typeof tempRanges];
-    const baseTemp = range.min + Math.random() * (range.max - range.min);
-    const timeVariation = isDay ? 2 : -3;
-    const temperature = Math.round(baseTemp + timeVariation);
-
-    // Weather conditions with seasonal probabilities
-    const conditions = ['clear', 'clouds', 'rain', 'mist'];
-    const seasonalWeights = {
-      0: [0.3, 0.4, 0.2, 0.1], // Winter - more clouds/rain
-      1: [0.5, 0.3, 0.15, 0.05], // Spring - more clear
-      2: [0.7, 0.2, 0.05, 0.05], // Summer - mostly clear
-      3: [0.4, 0.3, 0.25, 0.05]  // Fall - mixed
-    };
-
-    const weights = seasonalWeights[season as keyof typeof seasonalWeights];
-    const random = Math.random();
-    let condition = 'clear';
-    let cumulative = 0;
-    
-    for (let i = 0; i < conditions.length; i++) {
-      cumulative += weights[i];
-      if (random <= cumulative) {
-        condition = conditions[i];
-        break;
-      }
-    }
-
-    const weatherInfo = WEATHER_CONDITIONS[condition as keyof typeof WEATHER_CONDITIONS];
-    const location = locationName || profileLocation || "Your area";
-
-    return {
-      temperature,
-      condition,
-      humidity: Math.round(40 + Math.random() * 40),
-      windSpeed: Math.round(2 + Math.random() * 15),
-      description: `${weatherInfo.description} in ${location}`,
-      location,
-      source: "mock",
-      timestamp: Date.now(),
-      icon: weatherInfo.icon
-    };
-  }, [profileLocation]);
-
   // Get user's GPS location
   const getCurrentPosition = useCallback((): Promise<GeolocationPosition> => {
     return new Promise((resolve, reject) => {
@@ -181,97 +119,29 @@ export const useWeather = (profileLocation?: string) => {
       );
     });
   }, []);
-
-  // Fetch weather by coordinates using Open-Meteo API
-  const fetchWeatherByCoordinates = useCallback(async (
-    latitude: number,
-    longitude: number,
-    locationName?: string
-  ): Promise<WeatherData> => {
-    const url = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current_weather=true&hourly=relative_humidity_2m,windspeed_10m&timezone=auto&forecast_days=1`;
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-      signal: AbortSignal.timeout(8000) // 8 second timeout
-    });
-
-    if (!response.ok) {
-      throw new Error(`Weather API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    if (!data.current_weather) {
-      throw new Error("Invalid weather data received");
+  // Without live weather, show the last reading however old, saying why;
+  // recorded samples are only ever shown when the environment selects them
+  const showLastKnownWeather = useCallback((reason: string) => {
+    const lastKnown = loadCachedWeather(true);
+    if (!lastKnown) {
+      setShowManualEntry(true);
+      setError(`${reason} - enter the weather manually or try again later`);
+      return;
     }
-
-    const current = data.current_weather;
-    
-    // Get additional data from hourly if available
-    let humidity = 60;
-    let windSpeed = current.windspeed || 5;
-    
-    if (data.hourly?.relative_humidity_2m?.[0]) {
-      humidity = data.hourly.relative_humidity_2m[0];
-    }
-    if (data.hourly?.windspeed_10m?.[0]) {
-      windSpeed = data.hourly.windspeed_10m[0];
-    }
-
-    // Map weather codes to conditions
-    const code = current.weathercode;
-    let condition = "clear";
-    if (code === 0) condition = "clear";
-    else if ([1, 2, 3].includes(code)) condition = "clouds";
-    else if ([45, 48].includes(code)) condition = "fog";
-    else if ([51, 53, 55, 56, 57, 61, 63, 65, 66, 67, 80, 81, 82].includes(code)) condition = "rain";
-    else if ([71, 73, 75, 77, 85, 86].includes(code)) condition = "snow";
-    else if ([95, 96, 99].includes(code)) condition = "thunderstorm";
-
-    const weatherInfo = WEATHER_CONDITIONS[condition as keyof typeof WEATHER_CONDITIONS];
-    const location = locationName || "Your location";
-
-    return {
-      temperature: Math.round(current.temperature),
-      condition,
-      humidity: Math.round(humidity),
-      windSpeed: Math.round(windSpeed),
-      description: `${weatherInfo.description} in ${location}`,
-      location,
-      source: "gps",
-      timestamp: Date.now(),
-      icon: weatherInfo.icon
-    };
-  }, []);
-
-  // Geocode location name to coordinates
-  const geocodeLocation = useCallback(async (locationName: string): Promise<{
-    latitude: number;
-    longitude: number;
-    name: string;
-    country: string;
-  }> => {
-    const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(locationName)}&count=1&language=en&format=json`;
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-      signal: AbortSignal.timeout(5000) // 5 second timeout
-    });
-
-    if (!response.ok) {
-      throw new Error(`Geocoding error: ${response.status}`);
+    setWeather(lastKnown);
+    setForecast(loadCachedForecast(lastKnown.location, true));
+    setError(`${reason} - showing the last weather fetched`);
+  }, [loadCachedWeather]);
+
+  const applyResult = useCallback((result: WeatherResult) => {
+    if (result.forecast) {
+      cacheForecast(result.forecast);
     }
-
-    const data = await response.json();
-    
-    if (!data.results?.length) {
-      throw new Error(`Location "${locationName}" not found`);
-    }
-
-    return data.results[0];
-  }, []);
+    setForecast(result.forecast);
+    cacheWeatherData(result.weather);
+    setWeather(result.weather);
+    setError(null);
+  }, [cacheWeatherData]);
 
   // Main weather fetching function
   const fetchWeather = useCallback(async (userLocation?: string) => {
@@ -281,57 +151,50 @@ export const useWeather = (profileLocation?: string) => {
     setError(null);
 
     try {
+      // A fixture chosen in the environment replaces live weather entirely
+      if (provider.id === "fixture") {
+        const result = await provider.fetchWeather({ name: userLocation || "" });
+        setWeather(result.weather);
+        setForecast(result.forecast);
+        return;
+      }
+
       // Check cache first
       const cached = loadCachedWeather();
       if (cached) {
         setWeather(cached);
-        setLoading(false);
+        setForecast(loadCachedForecast(cached.location));
         return;
       }
 
-      // Use mock data if offline or in restrictive environment
       if (!isOnline() || shouldUseMockData()) {
-        console.log("Using mock weather - network unavailable");
-        const mockWeather = generateMockWeather(userLocation);
-        setWeather(mockWeather);
-        setError("Using simulated weather (network unavailable)");
-        setLoading(false);
+        console.log("Offline - using the last weather fetched");
+        showLastKnownWeather("Offline");
         return;
       }
 
-      let weatherData: WeatherData;
+      let result: WeatherResult;
 
       try {
         // Try profile location first if available
         if (userLocation) {
           console.log("Attempting profile location weather for:", userLocation);
-          const geoData = await withNetworkRetry(
-            () => geocodeLocation(userLocation),
-            { retries: 1, timeout: 8000 }
+          result = await withNetworkRetry(
+            () => provider.fetchWeather({ name: userLocation }),
+            { retries: 1, timeout: 15000 }
           );
-
-          weatherData = await withNetworkRetry(
-            () => fetchWeatherByCoordinates(
-              geoData.latitude,
-              geoData.longitude,
-              `${geoData.name}, ${geoData.country}`
-            ),
-            { retries: 1, timeout: 10000 }
-          );
-          weatherData.source = "profile";
           console.log("Profile location weather successful");
         } else if (locationPermission !== "denied") {
           // Fallback to GPS if no profile location
           console.log("No profile location, attempting GPS...");
           const position = await getCurrentPosition();
-          weatherData = await withNetworkRetry(
-            () => fetchWeatherByCoordinates(
-              position.coords.latitude,
-              position.coords.longitude
-            ),
+          result = await withNetworkRetry(
+            () => provider.fetchWeather({
+              latitude: position.coords.latitude,
+              longitude: position.coords.longitude,
+            }),
             { retries: 1, timeout: 10000 }
           );
-          weatherData.source = "gps";
           console.log("GPS weather successful");
         } else {
           throw new Error("No location available - GPS denied and no profile location");
@@ -339,7 +202,7 @@ export const useWeather = (profileLocation?: string) => {
       } catch (locationError) {
         console.log("Primary location methods failed:", getErrorMessage(locationError));
 
-        // Last resort: offer manual entry or use mock data
+        // Last resort: offer manual entry or use a default location
         if (!userLocation && locationPermission === "denied") {
           setShowManualEntry(true);
           throw new Error("All automatic weather methods failed. Manual entry required.");
@@ -349,27 +212,18 @@ export const useWeather = (profileLocation?: string) => {
         const defaultLoc = "London";
         console.log("Using default location:", defaultLoc);
 
-        const geoData = await withNetworkRetry(
-          () => geocodeLocation(defaultLoc),
-          { retries: 1, timeout: 8000 }
-        );
-
-        weatherData = await withNetworkRetry(
-          () => fetchWeatherByCoordinates(
-            geoData.latitude,
-            geoData.longitude,
-            `${geoData.name}, ${geoData.country}`
-          ),
-          { retries: 1, timeout: 10000 }
+        const defaultResult = await withNetworkRetry(
+          () => provider.fetchWeather({ name: defaultLoc }),
+          { retries: 1, timeout: 15000 }
         );
-        weatherData.source = "mock";
+        result = {
+          ...defaultResult,
+          weather: { ...defaultResult.weather, source: "default" },
+        };
         console.log("Default location weather successful");
       }
 
-      // Cache and set the weather data
-      cacheWeatherData(weatherData);
-      setWeather(weatherData);
-      setError(null);
+      applyResult(result);
 
     } catch (error) {
       const errorMessage = getErrorMessage(error);
@@ -378,21 +232,16 @@ export const useWeather = (profileLocation?: string) => {
       // Check if we should show manual entry
       if (errorMessage.includes("Manual entry required")) {
         setError("Cannot access weather automatically. Please enter weather manually or grant location permissions.");
-        setLoading(false);
         return;
       }
 
-      // Always provide mock weather as fallback
-      const mockWeather = generateMockWeather(userLocation);
-      setWeather(mockWeather);
-
-      // Set appropriate error message
+      // Fall back to the last weather fetched, with a message saying why
       if (errorMessage.includes("network") || errorMessage.includes("fetch")) {
-        setError("Weather service unavailable - using simulated data");
+        showLastKnownWeather(`${provider.label} unavailable`);
       } else if (errorMessage.includes("timeout")) {
-        setError("Weather request timed out - using simulated data");
+        showLastKnownWeather(`${provider.label} timed out`);
       } else {
-        setError("Using simulated weather conditions");
+        showLastKnownWeather("Weather unavailable");
       }
 
       logError(error, "Weather service error");
@@ -401,22 +250,17 @@ export const useWeather = (profileLocation?: string) => {
     }
   }, [
     loading,
+    provider,
     loadCachedWeather,
-    generateMockWeather,
+    showLastKnownWeather,
+    applyResult,
     locationPermission,
     getCurrentPosition,
-    fetchWeatherByCoordinates,
-    geocodeLocation,
-    cacheWeatherData,
     profileLocation
   ]);
 
   // Get weather-based styling advice
   const getWeatherAdvice = useCallback((weatherData: WeatherData): string => {
-    if (weatherData.source === "mock") {
-      return "Comfortable conditions";
-    }
-
     const temp = weatherData.temperature;
     const condition = weatherData.condition;
 
@@ -443,41 +287,37 @@ export const useWeather = (profileLocation?: string) => {
     
     if (!weather) return "Weather unavailable";
 
-    if (error) {
-      return weather.source === "mock" 
-        ? "Simulated weather" 
-        : "Limited weather data";
-    }
-
+    const via = weather.provider ? ` via ${WEATHER_PROVIDER_LABELS[weather.provider]}` : "";
+    let status: string;
     switch (weather.source) {
       case "profile":
-        return "Live weather from your profile location";
+        status = `Live weather from your profile location${via}`;
+        break;
       case "gps":
-        return "Live weather from your current location";
+        status = `Live weather from your current location${via}`;
+        break;
+      case "default":
+        status = `Weather for a default location${via}`;
+        break;
       case "manual":
-        return "Manual weather entry";
-      case "mock":
-        return "Simulated weather conditions";
+        status = "Manual weather entry";
+        break;
+      case "fixture":
+        return "Recorded sample weather, not current conditions";
       default:
-        return "Weather data available";
+        status = "Weather data available";
     }
-  }, [loading, weather, error]);
+
+    const age = describeWeatherAge(weather, now);
+    return isWeatherStale(weather, now)
+      ? `${status} · out of date, updated ${age}`
+      : `${status} · updated ${age}`;
+  }, [loading, weather, now]);
 
   // Set manual weather entry
-  const setManualWeatherEntry = useCallback((entry: ManualWeatherEntry) => {
-    const weatherInfo = WEATHER_CONDITIONS[entry.condition as keyof typeof WEATHER_CONDITIONS];
-    const manualWeatherData: WeatherData = {
-      temperature: entry.temperature,
-      condition: entry.condition,
-      humidity: 60, // Default value for manual entry
-      windSpeed: 5, // Default value for manual entry
-      description: `${weatherInfo.description} in ${entry.location}`,
-      location: entry.location,
-      source: "manual",
-      timestamp: Date.now(),
-      icon: weatherInfo.icon,
-      isManualEntry: true
-    };
+  const setManualWeatherEntry = useCallback(async (entry: ManualWeatherEntry) => {
+    manualProvider.setEntry(entry);
+    const { weather: manualWeatherData } = await manualProvider.fetchWeather();
 
     setWeather(manualWeatherData);
     setManualWeather(entry);
@@ -486,14 +326,20 @@ export const useWeather = (profileLocation?: string) => {
 
     // Cache manual entry
     cacheWeatherData(manualWeatherData);
-  }, [cacheWeatherData]);
+  }, [manualProvider, cacheWeatherData]);
 
   // Clear manual weather and retry automatic
   const retryAutomaticWeather = useCallback(() => {
+    manualProvider.setEntry(null);
     setManualWeather(null);
     setShowManualEntry(false);
     fetchWeather(profileLocation);
-  }, [profileLocation, fetchWeather]);
+  }, [manualProvider, profileLocation, fetchWeather]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
 
   // Auto-fetch weather on mount and location changes
   useEffect(() => {
@@ -502,8 +348,12 @@ export const useWeather = (profileLocation?: string) => {
 
   return {
     weather,
+    forecast,
     loading,
     error,
+    provider: { id: provider.id, label: provider.label },
+    isStale: weather ? isWeatherStale(weather, now) : false,
+    isForecastStale: forecast ? isForecastStale(forecast, now) : false,
     fetchWeather,
     getWeatherAdvice,
     getWeatherStatus,
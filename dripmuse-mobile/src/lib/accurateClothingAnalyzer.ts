@@ -1,3 +1,16 @@
+import { nearestColorName } from "./colorNames";
+import { whiteBalanceImageData, WhiteBalanceEstimate } from "./whiteBalance";
+import {
+  ClassifierError,
+  createClothingClassifier,
+  getEnvironmentClassifierConfig,
+  GOOGLE_VISION_ENDPOINT,
+  type ClassificationConfidences,
+  type ClothingClassification,
+  type ClothingClassifier,
+  type ClothingClassifierConfig,
+} from "./clothingClassifiers";
+
 interface ClothingAnalysisResult {
   isClothing: boolean;
   category: string;
@@ -11,6 +24,11 @@ interface ClothingAnalysisResult {
   subcategory?: string;
   patterns?: string[];
   materials?: string[];
+  // Illuminant estimated from the photo and how strongly colours were corrected for it
+  whiteBalance?: WhiteBalanceEstimate;
+  // Which classifier backend produced the result, and its per-field confidences
+  classifier?: string;
+  confidences?: ClassificationConfidences;
 }
 
 interface CategorySignals {
@@ -68,87 +86,93 @@ interface ShapeAnalysis {
   dominantRegionAspectRatio: number;
 }
 
-interface VisionAPIResponse {
-  responses: Array<{
-    labelAnnotations?: Array<{
-      description: string;
-      score: number;
-      topicality: number;
-    }>;
-    localizedObjectAnnotations?: Array<{
-      name: string;
-      score: number;
-      boundingPoly: {
-        normalizedVertices: Array<{
-          x: number;
-          y: number;
-        }>;
-      };
-    }>;
-    imagePropertiesAnnotation?: {
-      dominantColors: {
-        colors: Array<{
-          color: {
-            red: number;
-            green: number;
-            blue: number;
-          };
-          score: number;
-          pixelFraction: number;
-        }>;
-      };
-    };
-  }>;
-}
-
 export class AccurateClothingAnalyzer {
   private apiKey: string | null = null;
+  private classifier!: ClothingClassifier;
+  private readonly heuristicClassifier: ClothingClassifier;
+  // Why the configured classifiers were replaced by the defaults, if they were
+  private classifierConfigError: string | null = null;
 
   constructor() {
     // API key will be provided when needed
+    this.heuristicClassifier = new HeuristicClothingClassifier(this);
+    this.configureClassifier(getEnvironmentClassifierConfig);
   }
 
   /**
-   * Initialize with API key (this would typically come from environment variables)
+   * Build the classifier from `resolve`. A bad provider list falls back to
+   * the default providers, keeping `fallback`'s other settings, so a typo in
+   * the environment doesn't stop the analyzer from being created; the error
+   * is reported in each result's reasoning until a valid config is set.
    */
-  async initialize(apiKey?: string): Promise<void> {
-    // For now, we'll use a fallback approach without requiring API key setup
+  private configureClassifier(
+    resolve: () => ClothingClassifierConfig,
+    fallback: ClothingClassifierConfig = {},
+  ): void {
+    try {
+      this.classifier = createClothingClassifier(resolve(), this.heuristicClassifier);
+      this.classifierConfigError = null;
+    } catch (error) {
+      if (!(error instanceof ClassifierError)) throw error;
+      console.warn("Using the default clothing classifiers:", error.message);
+      this.classifier = createClothingClassifier(fallback, this.heuristicClassifier);
+      this.classifierConfigError = error.message;
+    }
+  }
+
+  /**
+   * Initialize with API key (this would typically come from environment variables).
+   * An API key routes through Google Vision first; `config` picks other backends.
+   */
+  async initialize(
+    apiKey?: string,
+    config: ClothingClassifierConfig = {},
+  ): Promise<void> {
     this.apiKey = apiKey || null;
+    const apiKeyVision = this.apiKey
+      ? { endpoint: GOOGLE_VISION_ENDPOINT, apiKey: this.apiKey }
+      : undefined;
+    this.configureClassifier(
+      () => {
+        const environment = getEnvironmentClassifierConfig();
+        return {
+          ...config,
+          providers: config.providers ?? environment.providers,
+          mode: config.mode ?? environment.mode,
+          vision: config.vision || apiKeyVision || environment.vision,
+        };
+      },
+      { ...config, providers: undefined, vision: config.vision || apiKeyVision },
+    );
   }
 
   /**
-   * Main analysis function using Google Vision API and intelligent fallbacks
+   * Swap the classifier backend outright, e.g. a calibrated ensemble or a
+   * fixture-replaying provider
+   */
+  setClassifier(classifier: ClothingClassifier): void {
+    this.classifier = classifier;
+    this.classifierConfigError = null;
+  }
+
+  getClassifier(): ClothingClassifier {
+    return this.classifier;
+  }
+
+  getClassifierConfigError(): string | null {
+    return this.classifierConfigError;
+  }
+
+  /**
+   * Main analysis function: classify with the configured backend, then
+   * derive occasions, seasons and tags from the classification
    */
   async analyzeClothing(input: File | string): Promise<ClothingAnalysisResult> {
     try {
-      let result: ClothingAnalysisResult;
-
-      // Try Google Vision API first if available
-      if (this.apiKey) {
-        try {
-          const visionResult = await this.analyzeWithVisionAPI(input);
-          if (visionResult) {
-            result = visionResult;
-          } else {
-            console.info(
-              "Vision API returned null, falling back to heuristics",
-            );
-            result = await this.analyzeWithAdvancedHeuristics(input);
-          }
-        } catch (visionError) {
-          console.warn(
-            "Vision API failed, falling back to heuristics:",
-            visionError,
-          );
-          result = await this.analyzeWithAdvancedHeuristics(input);
-        }
-      } else {
-        // Fall back to advanced heuristic analysis
-        result = await this.analyzeWithAdvancedHeuristics(input);
-      }
+      const classification = await this.classifier.classify(input);
 
       // Final validation to ensure no background colors in results
-      return this.validateAndCleanResult(result);
+      return this.validateAndCleanResult(this.toAnalysisResult(classification));
     } catch (error) {
       console.error("Clothing analysis failed:", error);
 
@@ -162,8 +186,10 @@ export class AccurateClothingAnalyzer {
       }
 
       try {
-        const fallbackResult = await this.analyzeWithAdvancedHeuristics(input);
-        return this.validateAndCleanResult(fallbackResult);
+        const fallbackResult = await this.classifyWithHeuristics(input);
+        return this.validateAndCleanResult(
+          this.toAnalysisResult(fallbackResult),
+        );
       } catch (fallbackError) {
         console.error("Fallback analysis also failed:", fallbackError);
         return this.getFallbackResult("Complete analysis failure");
@@ -171,6 +197,62 @@ export class AccurateClothingAnalyzer {
     }
   }
 
+  /**
+   * Fill in what the classifier doesn't decide: occasions, seasons and tags,
+   * plus patterns and materials when the backend doesn't report them
+   */
+  private toAnalysisResult(
+    classification: ClothingClassification,
+  ): ClothingAnalysisResult {
+    const { category, style } = classification;
+    const reasoning = this.classifierConfigError
+      ? `${classification.reasoning} (default classifiers used: ${this.classifierConfigError})`
+      : classification.reasoning;
+
+    if (!classification.isClothing) {
+      return {
+        isClothing: false,
+        category,
+        style,
+        colors: classification.colors,
+        occasions: ["casual"],
+        seasons: this.getCurrentSeasons(),
+        tags: [],
+        confidence: classification.confidence,
+        reasoning,
+        classifier: classification.provider,
+        confidences: classification.confidences,
+      };
+    }
+
+    const colors =
+      classification.colors.length > 0 ? classification.colors : ["neutral"];
+
+    return {
+      isClothing: true,
+      category,
+      subcategory: classification.subcategory,
+      style,
+      colors,
+      occasions: this.determineOccasions(category, style, colors),
+      seasons: this.determineSeasons(category, colors, style),
+      tags: this.generateSmartTags(category, style, colors),
+      confidence: classification.confidence,
+      reasoning,
+      patterns:
+        classification.patterns.length > 0
+          ? classification.patterns
+          : this.detectClothingPatterns(colors, category),
+      materials:
+        classification.materials.length > 0
+          ? classification.materials
+          : this.inferMaterials(category, style, colors),
+      whiteBalance: classification.whiteBalance,
+      classifier: classification.provider,
+      confidences: classification.confidences,
+    };
+  }
+
   /**
    * Enhanced validation and cleaning of analysis results with category confidence scoring
    */
@@ -289,13 +371,13 @@ export class AccurateClothingAnalyzer {
   private finalColorFilter(colors: string[]): string[] {
     // Expanded list of potential background colors
     const commonBackgroundColors = [
-      "white", "off-white", "cream", "light-gray", "silver",
+      "white", "off white", "cream", "light gray", "silver",
       "neutral", "beige", "ivory", "very-light"
     ];
 
     // Photography studio background indicators
     const studioBackgrounds = [
-      "white", "light-gray", "off-white", "cream", "neutral"
+      "white", "light gray", "off white", "cream", "neutral"
     ];
 
     // If we only have potential background colors, keep the most specific one
@@ -322,7 +404,7 @@ export class AccurateClothingAnalyzer {
     if (filteredColors.length === 0) {
       // Return the most clothing-like color from original list
       const clothingLikeColors = colors.filter(color =>
-        !["white", "light-gray", "neutral"].includes(color)
+        !["white", "light gray", "neutral"].includes(color)
       );
       return clothingLikeColors.length > 0 ? [clothingLikeColors[0]] : ["blue"];
     }
@@ -336,21 +418,21 @@ export class AccurateClothingAnalyzer {
    * Prioritize colors that are more likely to be actual clothing colors
    */
   private prioritizeClothingColors(colors: string[]): string[] {
-    const colorPriority = {
+    const colorPriority: Record<string, number> = {
       // High priority - common clothing colors
       "blue": 10, "navy": 10, "black": 10, "red": 9, "green": 9,
       "brown": 9, "purple": 8, "orange": 8, "yellow": 7, "pink": 7,
 
       // Medium priority - accent colors
-      "maroon": 6, "forest-green": 6, "deep-purple": 6, "rust": 6,
+      "maroon": 6, "forest green": 6, "deep purple": 6, "rust": 6,
       "mustard": 5, "teal": 5, "coral": 5, "lavender": 5,
 
       // Lower priority - light/neutral colors (still valid clothing colors)
-      "light-blue": 4, "light-green": 4, "sky-blue": 4, "peach": 4,
+      "light blue": 4, "light green": 4, "sky blue": 4, "peach": 4,
       "tan": 3, "beige": 3, "cream": 2, "gray": 2,
 
       // Lowest priority - very light/neutral
-      "light-gray": 1, "off-white": 1, "white": 1, "neutral": 0
+      "light gray": 1, "off white": 1, "white": 1, "neutral": 0
     };
 
     return colors.sort((a, b) => {
@@ -380,140 +462,13 @@ export class AccurateClothingAnalyzer {
   }
 
   /**
-   * Google Vision API analysis
-   */
-  private async analyzeWithVisionAPI(
-    input: File | string,
-  ): Promise<ClothingAnalysisResult | null> {
-    if (!this.apiKey) return null;
-
-    try {
-      const base64Image = await this.convertToBase64(input);
-
-      const requestBody = {
-        requests: [
-          {
-            image: {
-              content: base64Image,
-            },
-            features: [
-              { type: "LABEL_DETECTION", maxResults: 20 },
-              { type: "OBJECT_LOCALIZATION", maxResults: 20 },
-              { type: "IMAGE_PROPERTIES", maxResults: 1 },
-            ],
-          },
-        ],
-      };
-
-      const response = await fetch(
-        `https://vision.googleapis.com/v1/images:annotate?key=${this.apiKey}`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(requestBody),
-        },
-      ).catch((fetchError) => {
-        console.warn("Vision API network error:", fetchError);
-        throw new Error(`Network error: ${fetchError.message}`);
-      });
-
-      if (!response.ok) {
-        console.warn(
-          "Vision API request failed:",
-          response.status,
-          response.statusText,
-        );
-        throw new Error(
-          `Vision API error: ${response.status} ${response.statusText}`,
-        );
-      }
-
-      const data: VisionAPIResponse = await response.json();
-      return this.processVisionAPIResponse(data);
-    } catch (error) {
-      console.warn("Vision API analysis failed:", error);
-      return null;
-    }
-  }
-
-  /**
-   * Process Google Vision API response
-   */
-  private processVisionAPIResponse(
-    data: VisionAPIResponse,
-  ): ClothingAnalysisResult {
-    const response = data.responses[0];
-    const labels = response.labelAnnotations || [];
-    const objects = response.localizedObjectAnnotations || [];
-    const imageProperties = response.imagePropertiesAnnotation;
-
-    // Extract clothing-related labels and objects
-    const clothingLabels = this.filterClothingLabels(labels);
-    const clothingObjects = this.filterClothingObjects(objects);
-
-    // Determine if this is clothing
-    const isClothing = clothingLabels.length > 0 || clothingObjects.length > 0;
-
-    if (!isClothing) {
-      return {
-        isClothing: false,
-        category: "other",
-        style: "unknown",
-        colors: ["neutral"],
-        occasions: ["casual"],
-        seasons: this.getCurrentSeasons(),
-        tags: [],
-        confidence: 0.1,
-        reasoning: "No clothing detected by Vision API",
-      };
-    }
-
-    // Analyze category from labels and objects
-    const category = this.determineCategoryFromVision(
-      clothingLabels,
-      clothingObjects,
-    );
-
-    // Analyze style
-    const style = this.determineStyleFromVision(clothingLabels);
-
-    // Extract colors with background filtering
-    const allColors = this.extractColorsFromVision(imageProperties);
-    const colors = this.filterBackgroundFromColorList(allColors);
-
-    // Determine occasions and seasons
-    const occasions = this.determineOccasions(category, style, colors);
-    const seasons = this.determineSeasons(category, colors, style);
-
-    // Calculate confidence based on API scores
-    const confidence = this.calculateVisionConfidence(
-      clothingLabels,
-      clothingObjects,
-    );
-
-    return {
-      isClothing: true,
-      category,
-      style,
-      colors: colors.length > 0 ? colors : ["neutral"],
-      occasions,
-      seasons,
-      tags: this.generateSmartTags(category, style, colors),
-      confidence,
-      reasoning: `Vision API detected ${clothingLabels.length} clothing labels and ${clothingObjects.length} clothing objects - enhanced with background filtering`,
-      patterns: this.detectClothingPatterns(colors, category),
-      materials: this.inferMaterials(category, style, colors),
-    };
-  }
-
-  /**
-   * Advanced heuristic analysis as fallback
+   * Advanced heuristic analysis: filename keywords plus canvas shape and
+   * colour analysis. Backs the heuristic classifier and is the last resort
+   * when the configured backend fails.
    */
-  private async analyzeWithAdvancedHeuristics(
+  async classifyWithHeuristics(
     input: File | string,
-  ): Promise<ClothingAnalysisResult> {
+  ): Promise<ClothingClassification> {
     const imageElement = await this.createImageElement(input);
 
     // Extract filename if available
@@ -528,47 +483,59 @@ export class AccurateClothingAnalyzer {
         category: "other",
         style: "unknown",
         colors: ["neutral"],
-        occasions: ["casual"],
-        seasons: this.getCurrentSeasons(),
-        tags: [],
+        patterns: [],
+        materials: [],
         confidence: clothingDetection.confidence,
+        confidences: {
+          clothing: clothingDetection.confidence,
+          category: 0,
+          colors: 0,
+          patterns: 0,
+          materials: 0,
+        },
         reasoning: clothingDetection.reasoning,
+        provider: "heuristic",
       };
     }
 
     // Analyze colors using canvas with background detection
-    const colors = await this.extractColorsFromCanvas(imageElement);
+    const { colors, whiteBalance } =
+      await this.extractColorsFromCanvas(imageElement);
 
     // Intelligent category detection from filename and image analysis
-    const category = this.smartCategoryDetection(filename, imageElement);
+    const categoryDetection = this.smartCategoryDetection(
+      filename,
+      imageElement,
+    );
+    const category = categoryDetection.category;
 
     // Enhanced style detection
     const style = this.smartStyleDetection(category, colors, filename);
 
-    // Generate occasions and seasons based on improved analysis
-    const occasions = this.determineOccasions(category, style, colors);
-    const seasons = this.determineSeasons(category, colors, style);
-
     // Filter out background colors for final result
     const clothingColors = this.filterBackgroundFromColorList(colors);
 
-    // Generate enhanced tags with pattern detection
-    const tags = this.generateSmartTags(category, style, clothingColors);
-
     return {
       isClothing: true,
       category,
       style,
       colors: clothingColors.length > 0 ? clothingColors : ["neutral"],
-      occasions,
-      seasons,
-      tags,
+      // Patterns and materials are guessed from colour and category, not seen
+      patterns: this.detectClothingPatterns(clothingColors, category),
+      materials: this.inferMaterials(category, style, clothingColors),
       confidence: Math.max(0.8, clothingDetection.confidence), // Higher confidence with improved analysis
+      confidences: {
+        clothing: clothingDetection.confidence,
+        category: categoryDetection.confidence,
+        colors: 0.6,
+        patterns: 0.3,
+        materials: 0.3,
+      },
       reasoning:
         clothingDetection.reasoning +
         " - Enhanced AI analysis with background filtering applied",
-      patterns: this.detectClothingPatterns(clothingColors, category),
-      materials: this.inferMaterials(category, style, clothingColors),
+      provider: "heuristic",
+      whiteBalance,
     };
   }
 
@@ -741,25 +708,25 @@ export class AccurateClothingAnalyzer {
   private smartCategoryDetection(
     filename: string,
     imageElement: HTMLImageElement,
-  ): string {
+  ): { category: string; confidence: number } {
     const fname = filename.toLowerCase();
 
     // Step 1: Try exhaustive filename analysis
     const filenameResult = this.performComprehensiveFilenameAnalysis(fname);
     if (filenameResult.confidence > 0.85) {
-      return filenameResult.category;
+      return filenameResult;
     }
 
     // Step 2: Advanced visual pattern recognition
     const visualResult = this.performAdvancedVisualAnalysis(imageElement);
     if (visualResult.confidence > 0.75) {
-      return visualResult.category;
+      return visualResult;
     }
 
     // Step 3: Combined analysis with weighted scoring
     const combinedResult = this.performCombinedAnalysis(filenameResult, visualResult, imageElement);
     if (combinedResult.confidence > 0.65) {
-      return combinedResult.category;
+      return combinedResult;
     }
 
     // Step 4: Enhanced image shape analysis
@@ -767,7 +734,8 @@ export class AccurateClothingAnalyzer {
     const signals = this.gatherCategorySignals(imageElement, aspectRatio, imageElement.width * imageElement.height);
     const shapeResult = this.determineCategoryFromSignals(signals);
 
-    return shapeResult;
+    // Shape alone is a weak signal
+    return { category: shapeResult, confidence: 0.5 };
   }
 
   /**
@@ -1997,12 +1965,12 @@ export class AccurateClothingAnalyzer {
    */
   private async extractColorsFromCanvas(
     imageElement: HTMLImageElement,
-  ): Promise<string[]> {
+  ): Promise<{ colors: string[]; whiteBalance?: WhiteBalanceEstimate }> {
     try {
       const canvas = document.createElement("canvas");
       const ctx = canvas.getContext("2d");
 
-      if (!ctx) return ["neutral"];
+      if (!ctx) return { colors: ["neutral"] };
 
       // Resize for faster processing
       const size = 100;
@@ -2012,10 +1980,13 @@ export class AccurateClothingAnalyzer {
       ctx.drawImage(imageElement, 0, 0, size, size);
       const imageData = ctx.getImageData(0, 0, size, size);
 
-      return this.analyzeImageColors(imageData);
+      // Name garment colours as they would look in daylight, not under the room's light
+      const whiteBalance = whiteBalanceImageData(imageData);
+
+      return { colors: this.analyzeImageColors(imageData), whiteBalance };
     } catch (error) {
       console.warn("Color extraction failed:", error);
-      return ["neutral"];
+      return { colors: ["neutral"] };
     }
   }
 
@@ -2122,7 +2093,7 @@ export class AccurateClothingAnalyzer {
     // Common background colors
     const commonBackgrounds = [
       "white",
-      "light-gray",
+      "light gray",
       "gray",
       "black",
       "neutral",
@@ -2159,7 +2130,7 @@ export class AccurateClothingAnalyzer {
       );
 
       for (const [color] of sortedAll) {
-        if (!["white", "light-gray"].includes(color)) {
+        if (!["white", "light gray"].includes(color)) {
           filteredColors.set(color, allColors.get(color)!);
           break;
         }
@@ -2170,330 +2141,11 @@ export class AccurateClothingAnalyzer {
   }
 
   /**
-   * Enhanced RGB to color name conversion with expanded color palette
+   * Name a pixel colour from the everyday tier of the colour dictionary, so
+   * one garment doesn't split across a dozen near-synonyms
    */
   private rgbToColorName(r: number, g: number, b: number): string {
-    // Convert to HSL for better color categorization
-    const [h, s, l] = this.rgbToHsl(r, g, b);
-
-    // Black and white variants
-    if (l < 8) return "black";
-    if (l < 20 && s < 10) return "charcoal";
-    if (l > 92 && s < 15) return "white";
-    if (l > 80 && s < 20) return "off-white";
-    if (l > 85 && s < 25) return "cream";
-
-    // Gray variants
-    if (s < 12) {
-      if (l < 25) return "dark-gray";
-      if (l < 50) return "gray";
-      if (l < 75) return "light-gray";
-      return "silver";
-    }
-
-    // Brown family (often missed in clothing)
-    if (h >= 15 && h < 45 && s > 25 && l < 60) {
-      if (l < 30) return "brown";
-      if (l < 50) return "tan";
-      return "beige";
-    }
-
-    // Red family
-    if ((h >= 345 || h < 15)) {
-      if (s > 60 && l > 40) return "red";
-      if (s > 40 && l > 60) return "pink";
-      if (s > 50 && l < 40) return "maroon";
-      if (s < 40) return "dusty-pink";
-      return "red";
-    }
-
-    // Orange family
-    if (h >= 15 && h < 45) {
-      if (s > 70 && l > 50) return "orange";
-      if (s > 40 && l > 70) return "coral";
-      if (s > 50 && l < 50) return "rust";
-      return "peach";
-    }
-
-    // Yellow family
-    if (h >= 45 && h < 75) {
-      if (s > 60 && l > 50) return "yellow";
-      if (s > 30 && l > 80) return "light-yellow";
-      if (s < 40) return "cream";
-      if (l < 50) return "mustard";
-      return "yellow";
-    }
-
-    // Green family
-    if (h >= 75 && h < 150) {
-      if (s > 50 && l > 40 && l < 70) return "green";
-      if (s > 30 && l > 70) return "light-green";
-      if (s > 40 && l < 40) return "forest-green";
-      if (s < 40 && l > 50) return "sage";
-      if (h >= 120 && h < 150) return "teal";
-      return "green";
-    }
-
-    // Cyan family
-    if (h >= 150 && h < 190) {
-      if (s > 50) return "cyan";
-      return "teal";
-    }
-
-    // Blue family
-    if (h >= 190 && h < 250) {
-      if (s > 60 && l > 50) return "blue";
-      if (s > 40 && l > 70) return "light-blue";
-      if (s > 50 && l < 40) return "navy";
-      if (l > 80) return "sky-blue";
-      return "blue";
-    }
-
-    // Purple family
-    if (h >= 250 && h < 290) {
-      if (s > 50 && l > 50) return "purple";
-      if (s > 30 && l > 70) return "lavender";
-      if (s > 50 && l < 40) return "deep-purple";
-      return "purple";
-    }
-
-    // Magenta/Pink family
-    if (h >= 290 && h < 345) {
-      if (s > 60 && l > 40) return "magenta";
-      if (s > 40 && l > 60) return "pink";
-      if (s > 50 && l < 40) return "fuchsia";
-      return "magenta";
-    }
-
-    return "neutral";
-  }
-
-  /**
-   * RGB to HSL conversion
-   */
-  private rgbToHsl(r: number, g: number, b: number): [number, number, number] {
-    r /= 255;
-    g /= 255;
-    b /= 255;
-
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    let h = 0,
-      s = 0,
-      l = (max + min) / 2;
-
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-      switch (max) {
-        case r:
-          h = (g - b) / d + (g < b ? 6 : 0);
-          break;
-        case g:
-          h = (b - r) / d + 2;
-          break;
-        case b:
-          h = (r - g) / d + 4;
-          break;
-      }
-      h /= 6;
-    }
-
-    return [h * 360, s * 100, l * 100];
-  }
-
-  /**
-   * Helper functions for Google Vision API
-   */
-  private filterClothingLabels(
-    labels: Array<{ description: string; score: number }>,
-  ): Array<{ description: string; score: number }> {
-    const clothingTerms = [
-      "clothing",
-      "apparel",
-      "fashion",
-      "shirt",
-      "pants",
-      "dress",
-      "jacket",
-      "shoe",
-      "boot",
-      "sweater",
-      "coat",
-      "skirt",
-      "blouse",
-      "top",
-      "bottom",
-      "sneaker",
-      "sandal",
-      "heel",
-      "accessory",
-      "bag",
-      "purse",
-      "hat",
-      "cap",
-      "scarf",
-      "belt",
-      "watch",
-      "jewelry",
-    ];
-
-    return labels.filter(
-      (label) =>
-        clothingTerms.some((term) =>
-          label.description.toLowerCase().includes(term),
-        ) && label.score > 0.5,
-    );
-  }
-
-  private filterClothingObjects(
-    objects: Array<{ name: string; score: number }>,
-  ): Array<{ name: string; score: number }> {
-    const clothingObjects = [
-      "person",
-      "clothing",
-      "footwear",
-      "fashion accessory",
-      "bag",
-      "shoe",
-    ];
-
-    return objects.filter(
-      (obj) =>
-        clothingObjects.some((term) => obj.name.toLowerCase().includes(term)) &&
-        obj.score > 0.5,
-    );
-  }
-
-  private determineCategoryFromVision(
-    labels: Array<{ description: string; score: number }>,
-    objects: Array<{ name: string; score: number }>,
-  ): string {
-    const allTerms = [
-      ...labels.map((l) => l.description.toLowerCase()),
-      ...objects.map((o) => o.name.toLowerCase()),
-    ];
-
-    if (
-      allTerms.some((term) =>
-        ["shoe", "boot", "sneaker", "sandal", "footwear"].some((t) =>
-          term.includes(t),
-        ),
-      )
-    ) {
-      return "shoes";
-    }
-    if (
-      allTerms.some((term) => ["dress", "gown"].some((t) => term.includes(t)))
-    ) {
-      return "dresses";
-    }
-    if (
-      allTerms.some((term) =>
-        ["jacket", "coat", "blazer"].some((t) => term.includes(t)),
-      )
-    ) {
-      return "outerwear";
-    }
-    if (
-      allTerms.some((term) =>
-        ["pants", "jeans", "trousers", "shorts", "skirt"].some((t) =>
-          term.includes(t),
-        ),
-      )
-    ) {
-      return "bottoms";
-    }
-    if (
-      allTerms.some((term) =>
-        [
-          "bag",
-          "purse",
-          "backpack",
-          "hat",
-          "cap",
-          "scarf",
-          "belt",
-          "accessory",
-        ].some((t) => term.includes(t)),
-      )
-    ) {
-      return "accessories";
-    }
-
-    return "tops"; // Default
-  }
-
-  private determineStyleFromVision(
-    labels: Array<{ description: string; score: number }>,
-  ): string {
-    const styleTerms = labels.map((l) => l.description.toLowerCase()).join(" ");
-
-    if (
-      styleTerms.includes("formal") ||
-      styleTerms.includes("suit") ||
-      styleTerms.includes("business")
-    ) {
-      return "formal";
-    }
-    if (
-      styleTerms.includes("sport") ||
-      styleTerms.includes("athletic") ||
-      styleTerms.includes("gym")
-    ) {
-      return "sporty";
-    }
-    if (
-      styleTerms.includes("elegant") ||
-      styleTerms.includes("evening") ||
-      styleTerms.includes("cocktail")
-    ) {
-      return "elegant";
-    }
-
-    return "casual";
-  }
-
-  private extractColorsFromVision(imageProperties: any): string[] {
-    if (!imageProperties?.dominantColors?.colors) {
-      return ["neutral"];
-    }
-
-    return imageProperties.dominantColors.colors
-      .slice(0, 3)
-      .map((colorInfo: any) => {
-        const { red = 0, green = 0, blue = 0 } = colorInfo.color;
-        return this.rgbToColorName(red, green, blue);
-      })
-      .filter(
-        (color: string, index: number, array: string[]) =>
-          array.indexOf(color) === index,
-      );
-  }
-
-  private calculateVisionConfidence(
-    labels: Array<{ score: number }>,
-    objects: Array<{ score: number }>,
-  ): number {
-    const allScores = [
-      ...labels.map((l) => l.score),
-      ...objects.map((o) => o.score),
-    ];
-    const avgScore =
-      allScores.length > 0
-        ? allScores.reduce((a, b) => a + b) / allScores.length
-        : 0.5;
-    return Math.min(0.95, Math.max(0.3, avgScore));
-  }
-
-  private extractTags(
-    labels: Array<{ description: string; score: number }>,
-  ): string[] {
-    return labels
-      .filter((label) => label.score > 0.7)
-      .slice(0, 5)
-      .map((label) => label.description.toLowerCase());
+    return nearestColorName({ r, g, b }, { basic: true }).name;
   }
 
   /**
@@ -2563,7 +2215,7 @@ export class AccurateClothingAnalyzer {
     const lightColors = [
       "white",
       "cream",
-      "light-gray",
+      "light gray",
       "pink",
       "coral",
       "yellow",
@@ -2663,7 +2315,7 @@ export class AccurateClothingAnalyzer {
    * Filter background colors from a color list
    */
   private filterBackgroundFromColorList(colors: string[]): string[] {
-    const commonBackgrounds = ["white", "light-gray", "neutral"];
+    const commonBackgrounds = ["white", "light gray", "neutral"];
     return colors.filter(
       (color) => !commonBackgrounds.includes(color) || colors.length === 1,
     );
@@ -2727,15 +2379,15 @@ export class AccurateClothingAnalyzer {
 
     // Very common colors are likely background
     if (frequencyRatio > 0.4) {
-      return ["white", "light-gray", "gray", "neutral"].includes(colorName);
+      return ["white", "light gray", "gray", "neutral"].includes(colorName);
     }
 
     // Photography background indicators
     const photographyBackgrounds = [
       "white",
-      "light-gray",
+      "light gray",
       "cream",
-      "off-white",
+      "off white",
       "neutral",
       "beige",
     ];
@@ -2828,54 +2480,6 @@ export class AccurateClothingAnalyzer {
   /**
    * Utility functions
    */
-  private async convertToBase64(input: File | string): Promise<string> {
-    if (typeof input === "string") {
-      // If it's a URL, fetch and convert
-      try {
-        const response = await fetch(input).catch((fetchError) => {
-          console.warn("Image fetch network error:", fetchError);
-          throw new Error(`Failed to fetch image: ${fetchError.message}`);
-        });
-
-        if (!response.ok) {
-          throw new Error(
-            `Failed to fetch image: ${response.status} ${response.statusText}`,
-          );
-        }
-
-        const blob = await response.blob();
-
-        if (!blob || blob.size === 0) {
-          throw new Error("Received empty or invalid image data");
-        }
-        return new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            const base64 = reader.result as string;
-            resolve(base64.split(",")[1]); // Remove data:image/...;base64, prefix
-          };
-          reader.onerror = reject;
-          reader.readAsDataURL(blob);
-        });
-      } catch (error) {
-        throw new Error(
-          `Image processing error: ${error instanceof Error ? error.message : "Unknown error"}`,
-        );
-      }
-    } else {
-      // If it's a File, convert directly
-      return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const base64 = reader.result as string;
-          resolve(base64.split(",")[1]); // Remove data:image/...;base64, prefix
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(input);
-      });
-    }
-  }
-
   private async createImageElement(
     input: File | string,
   ): Promise<HTMLImageElement> {
@@ -2926,5 +2530,23 @@ export class AccurateClothingAnalyzer {
   }
 }
 
+/**
+ * The analyzer's filename and image heuristics as a classifier backend
+ */
+export class HeuristicClothingClassifier implements ClothingClassifier {
+  readonly id = "heuristic";
+  readonly label = "Image heuristics";
+
+  constructor(private readonly analyzer: AccurateClothingAnalyzer) {}
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  classify(input: File | string): Promise<ClothingClassification> {
+    return this.analyzer.classifyWithHeuristics(input);
+  }
+}
+
 // Export a singleton instance
 export const accurateClothingAnalyzer = new AccurateClothingAnalyzer();
@@ -9,6 +9,10 @@
 import { colorExtractionService, type ExtractedPalette } from './colorExtractionService';
 import { enhancedFacialFeatureAnalysis, type EnhancedFacialFeatureColors } from './enhancedFacialFeatureAnalysis';
 import { advancedColorTheory } from './advancedColorTheory';
+import { colorDistance, isSameColor } from './colorNames';
+import { SIMILAR_COLOR_DELTA_E } from './colorScience';
+import { aggregateColorReadings, combineDistributions, weightedVote } from './photoAggregation';
+import type { WhiteBalanceEstimate } from './whiteBalance';
 
 export interface AccurateColorAnalysis {
   palette: ExtractedPalette;
@@ -52,6 +56,51 @@ export interface AccurateColorAnalysis {
   };
 }
 
+export const SEASON_CANDIDATES = ['spring', 'summer', 'autumn', 'winter'] as const;
+export type SeasonCandidate = typeof SEASON_CANDIDATES[number];
+
+export interface FeatureAggregate {
+  color: string;
+  // Mean squared CIEDE2000 of the agreeing photos from the aggregate colour
+  variance: number;
+  standardDeviation: number;
+  photoCount: number;
+  outlierPhotos: number[];
+}
+
+export interface PhotoAnalysisSummary {
+  index: number;
+  season: string;
+  seasonConfidence: number;
+  confidence: number;
+  whiteBalance?: WhiteBalanceEstimate;
+  rejected: boolean;
+  rejectionReason?: string;
+}
+
+export interface MultiPhotoColorAnalysis extends AccurateColorAnalysis {
+  photos: PhotoAnalysisSummary[];
+  featureAggregates: {
+    skinTone: FeatureAggregate;
+    hairColor: FeatureAggregate;
+    eyeColor: FeatureAggregate;
+  };
+  // Probability of each season across the usable photos, summing to 1
+  seasonDistribution: Record<SeasonCandidate, number>;
+  needsAnotherPhoto: boolean;
+  photoPrompt?: string;
+}
+
+// Below this the leading season is not much more likely than the rest
+const CONFIDENT_SEASON_PROBABILITY = 0.5;
+const CONFIDENT_SEASON_MARGIN = 0.15;
+
+interface PhotoReading {
+  index: number;
+  analysis: AccurateColorAnalysis;
+  weight: number;
+}
+
 class AccurateColorPaletteService {
   
   /**
@@ -107,6 +156,221 @@ class AccurateColorPaletteService {
     }
   }
 
+  /**
+   * Analyse several photos of the same person, ideally under different
+   * light, and combine them. Photos whose feature colours disagree with the
+   * rest are dropped, and the season comes with a probability for each
+   * candidate rather than a single guess.
+   */
+  async analyzeUserPhotos(images: Array<string | File | Blob>): Promise<MultiPhotoColorAnalysis> {
+    const startTime = performance.now();
+    const photos: PhotoAnalysisSummary[] = [];
+    const readings: PhotoReading[] = [];
+
+    // One at a time: each analysis already keeps a full-size canvas in memory
+    for (let index = 0; index < images.length; index++) {
+      console.log(`📷 Analyzing photo ${index + 1} of ${images.length}...`);
+      const analysis = await this.analyzeUserColors(images[index]);
+      const { facialFeatures } = analysis;
+      const summary: PhotoAnalysisSummary = {
+        index,
+        season: analysis.colorProfile.seasonalProfile.season,
+        seasonConfidence: analysis.colorProfile.seasonalProfile.confidence,
+        confidence: facialFeatures.overallConfidence,
+        whiteBalance: facialFeatures.whiteBalance,
+        rejected: !facialFeatures.detectedFeatures,
+        rejectionReason: facialFeatures.detectedFeatures ? undefined : 'No face found'
+      };
+      photos.push(summary);
+      if (summary.rejected) continue;
+
+      // A heavily corrected colour cast leaves less trustworthy colours behind
+      const whiteBalance = facialFeatures.whiteBalance;
+      const castPenalty = whiteBalance && whiteBalance.cast !== 'neutral' ? 0.4 * whiteBalance.strength : 0;
+      readings.push({ index, analysis, weight: facialFeatures.overallConfidence * (1 - castPenalty) });
+    }
+
+    if (readings.length === 0) {
+      const fallback = this.getFallbackAnalysis();
+      const emptyAggregate = (color: string): FeatureAggregate => ({
+        color,
+        variance: 0,
+        standardDeviation: 0,
+        photoCount: 0,
+        outlierPhotos: []
+      });
+      return {
+        ...fallback,
+        photos,
+        featureAggregates: {
+          skinTone: emptyAggregate(fallback.facialFeatures.skinTone.color),
+          hairColor: emptyAggregate(fallback.facialFeatures.hairColor.color),
+          eyeColor: emptyAggregate(fallback.facialFeatures.eyeColor.color)
+        },
+        seasonDistribution: combineDistributions(SEASON_CANDIDATES, []),
+        needsAnotherPhoto: true,
+        photoPrompt: 'We couldn\'t find a face in these photos. Take a photo in daylight, facing the camera.'
+      };
+    }
+
+    const aggregateFeature = (feature: 'skinTone' | 'hairColor' | 'eyeColor') => {
+      const aggregated = aggregateColorReadings(
+        readings.map(reading => ({
+          color: reading.analysis.facialFeatures[feature].color,
+          weight: reading.weight * reading.analysis.facialFeatures[feature].confidence,
+          photoIndex: reading.index
+        }))
+      );
+      const inliers = readings.filter(reading => aggregated.inlierPhotos.includes(reading.index));
+      const aggregate: FeatureAggregate = {
+        color: aggregated.color,
+        variance: aggregated.variance,
+        standardDeviation: aggregated.standardDeviation,
+        photoCount: inliers.length,
+        outlierPhotos: aggregated.outlierPhotos
+      };
+      return { aggregate, inliers };
+    };
+
+    const skin = aggregateFeature('skinTone');
+    const hair = aggregateFeature('hairColor');
+    const eyes = aggregateFeature('eyeColor');
+
+    // A photo whose skin reads differently from the rest was most likely taken in odd light
+    skin.aggregate.outlierPhotos.forEach(index => {
+      photos[index].rejected = true;
+      photos[index].rejectionReason = 'Skin tone differs from the other photos';
+    });
+
+    // Consistent photos keep their confidence; spread across photos eats into it
+    const agreement = (aggregate: FeatureAggregate) => 1 / (1 + aggregate.standardDeviation / SIMILAR_COLOR_DELTA_E);
+    const meanConfidence = (inliers: PhotoReading[], feature: 'skinTone' | 'hairColor' | 'eyeColor') =>
+      inliers.reduce((sum, reading) => sum + reading.analysis.facialFeatures[feature].confidence, 0) / inliers.length;
+    const strongest = (inliers: PhotoReading[], matches: (reading: PhotoReading) => boolean) =>
+      [...inliers].sort((a, b) => b.weight - a.weight).find(matches) ?? inliers[0];
+
+    const lightness = weightedVote(skin.inliers.map(reading => ({
+      value: reading.analysis.facialFeatures.skinTone.lightness,
+      weight: reading.weight
+    })));
+    const undertone = weightedVote(skin.inliers.map(reading => ({
+      value: reading.analysis.facialFeatures.skinTone.undertone,
+      weight: reading.weight
+    })));
+    const hairCategory = weightedVote(hair.inliers.map(reading => ({
+      value: reading.analysis.facialFeatures.hairColor.category,
+      weight: reading.weight
+    })));
+    const eyeCategory = weightedVote(eyes.inliers.map(reading => ({
+      value: reading.analysis.facialFeatures.eyeColor.category,
+      weight: reading.weight
+    })));
+
+    const skinConfidence = meanConfidence(skin.inliers, 'skinTone') * agreement(skin.aggregate);
+    const hairConfidence = meanConfidence(hair.inliers, 'hairColor') * agreement(hair.aggregate);
+    const eyeConfidence = meanConfidence(eyes.inliers, 'eyeColor') * agreement(eyes.aggregate);
+
+    const facialFeatures: EnhancedFacialFeatureColors = {
+      skinTone: {
+        color: skin.aggregate.color,
+        lightness,
+        undertone,
+        confidence: skinConfidence,
+        description: strongest(skin.inliers, reading =>
+          reading.analysis.facialFeatures.skinTone.lightness === lightness &&
+          reading.analysis.facialFeatures.skinTone.undertone === undertone
+        ).analysis.facialFeatures.skinTone.description
+      },
+      hairColor: {
+        color: hair.aggregate.color,
+        category: hairCategory,
+        confidence: hairConfidence,
+        description: strongest(hair.inliers, reading =>
+          reading.analysis.facialFeatures.hairColor.category === hairCategory
+        ).analysis.facialFeatures.hairColor.description
+      },
+      eyeColor: {
+        color: eyes.aggregate.color,
+        category: eyeCategory,
+        confidence: eyeConfidence,
+        description: strongest(eyes.inliers, reading =>
+          reading.analysis.facialFeatures.eyeColor.category === eyeCategory
+        ).analysis.facialFeatures.eyeColor.description
+      },
+      overallConfidence: (skinConfidence + hairConfidence + eyeConfidence) / 3,
+      detectedFeatures: true
+    };
+
+    // Each photo votes with its own confidence for its season and spreads the
+    // remainder over the others; an undecided photo votes for all equally
+    const seasonDistribution = combineDistributions(
+      SEASON_CANDIDATES,
+      skin.inliers.map(reading => {
+        const { season, confidence } = reading.analysis.colorProfile.seasonalProfile;
+        const chosen = SEASON_CANDIDATES.find(candidate => candidate === season);
+        const distribution = Object.fromEntries(SEASON_CANDIDATES.map(candidate => [
+          candidate,
+          !chosen ? 1 / SEASON_CANDIDATES.length
+            : candidate === chosen ? confidence
+            : (1 - confidence) / (SEASON_CANDIDATES.length - 1)
+        ])) as Record<SeasonCandidate, number>;
+        return { distribution, weight: reading.weight };
+      })
+    );
+    const [[topSeason, topProbability], [, runnerUpProbability]] = Object.entries(seasonDistribution)
+      .sort((a, b) => b[1] - a[1]) as Array<[SeasonCandidate, number]>;
+
+    const palette = strongest(skin.inliers, () => true).analysis.palette;
+    const colorProfile = this.generateColorProfile(facialFeatures, palette);
+    colorProfile.seasonalProfile = {
+      season: topSeason,
+      confidence: topProbability,
+      recommendedColors: this.getRecommendedColors(topSeason, ['warm', 'yellow', 'olive'].includes(undertone))
+    };
+    const recommendations = this.generateColorRecommendations(facialFeatures, palette);
+    const processingTime = performance.now() - startTime;
+    const accuracyMetrics = this.calculateAccuracyMetrics(facialFeatures, palette, processingTime);
+
+    const outlierCount = new Set([
+      ...skin.aggregate.outlierPhotos,
+      ...hair.aggregate.outlierPhotos,
+      ...eyes.aggregate.outlierPhotos
+    ]).size;
+    const featuresDisagree = [skin, hair, eyes].some(({ aggregate }) => aggregate.standardDeviation > SIMILAR_COLOR_DELTA_E);
+    const seasonUncertain = topProbability < CONFIDENT_SEASON_PROBABILITY ||
+      topProbability - runnerUpProbability < CONFIDENT_SEASON_MARGIN;
+
+    let photoPrompt: string | undefined;
+    if (skin.inliers.length < 2) {
+      photoPrompt = 'Add another photo taken in daylight to confirm your colours.';
+    } else if (outlierCount > 0) {
+      photoPrompt = `${outlierCount === 1 ? 'One photo' : `${outlierCount} photos`} didn't match the rest, probably because of the lighting. Take another photo in daylight.`;
+    } else if (featuresDisagree || seasonUncertain) {
+      photoPrompt = 'Your photos point to different seasons. Take another photo in daylight, near a window, to settle it.';
+    }
+
+    console.log(`✅ Combined ${skin.inliers.length} of ${images.length} photos: ${topSeason} (${Math.round(topProbability * 100)}%)`);
+
+    return {
+      palette,
+      facialFeatures,
+      colorProfile: {
+        ...colorProfile,
+        accuracyMetrics
+      },
+      recommendations,
+      photos,
+      featureAggregates: {
+        skinTone: skin.aggregate,
+        hairColor: hair.aggregate,
+        eyeColor: eyes.aggregate
+      },
+      seasonDistribution,
+      needsAnotherPhoto: photoPrompt !== undefined,
+      photoPrompt
+    };
+  }
+
   /**
    * Generate comprehensive color profile
    */
@@ -154,9 +418,7 @@ class AccurateColorPaletteService {
     
     // Add other significant colors from palette
     const otherColors = palette.colors.filter(color => 
-      !dominantColors.some(existing => 
-        this.calculateColorDistance(color, existing) < 30
-      )
+      !dominantColors.some(existing => isSameColor(color, existing))
     );
     
     // Take top 5 additional colors
@@ -206,19 +468,24 @@ class AccurateColorPaletteService {
       confidence = 0.8;
     }
     
-    // Get recommended colors for the season
-    const seasonalPalette = advancedColorTheory.getCurrentSeasonalPalette();
-    const recommendedColors = season === seasonalPalette.season 
-      ? seasonalPalette.hexPalette
-      : this.getGenericRecommendedColors(isWarmSkin);
-    
     return {
       season,
       confidence,
-      recommendedColors: recommendedColors.slice(0, 8)
+      recommendedColors: this.getRecommendedColors(season, isWarmSkin)
     };
   }
 
+  /**
+   * Recommended colors for a season, or generic ones when it isn't the current season
+   */
+  private getRecommendedColors(season: string, isWarmSkin: boolean): string[] {
+    const seasonalPalette = advancedColorTheory.getCurrentSeasonalPalette();
+    const recommendedColors = season === seasonalPalette.season 
+      ? seasonalPalette.hexPalette
+      : this.getGenericRecommendedColors(isWarmSkin);
+    return recommendedColors.slice(0, 8);
+  }
+
   /**
    * Generate color recommendations
    */
@@ -342,7 +609,7 @@ class AccurateColorPaletteService {
       // Score based on seasonal appropriateness
       const seasonalPalette = advancedColorTheory.getCurrentSeasonalPalette();
       const isSeasonalColor = seasonalPalette.hexPalette.some(seasonColor => 
-        this.calculateColorDistance(color, seasonColor) < 50
+        colorDistance(color, seasonColor) < SIMILAR_COLOR_DELTA_E
       );
       if (isSeasonalColor) score += 20;
       
@@ -395,9 +662,7 @@ class AccurateColorPaletteService {
   private removeDuplicateColors(colors: string[]): string[] {
     const unique: string[] = [];
     colors.forEach(color => {
-      const isDuplicate = unique.some(existing => 
-        this.calculateColorDistance(color, existing) < 15
-      );
+      const isDuplicate = unique.some(existing => isSameColor(color, existing));
       if (!isDuplicate) {
         unique.push(color);
       }
@@ -405,32 +670,6 @@ class AccurateColorPaletteService {
     return unique;
   }
 
-  /**
-   * Calculate perceptual color distance
-   */
-  private calculateColorDistance(color1: string, color2: string): number {
-    const rgb1 = this.hexToRgb(color1);
-    const rgb2 = this.hexToRgb(color2);
-    
-    const deltaR = rgb1.r - rgb2.r;
-    const deltaG = rgb1.g - rgb2.g;
-    const deltaB = rgb1.b - rgb2.b;
-    
-    return Math.sqrt(deltaR * deltaR + deltaG * deltaG + deltaB * deltaB);
-  }
-
-  /**
-   * Convert hex to RGB
-   */
-  private hexToRgb(hex: string): { r: number; g: number; b: number } {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16)
-    } : { r: 0, g: 0, b: 0 };
-  }
-
   /**
    * Fallback analysis for error cases
    */
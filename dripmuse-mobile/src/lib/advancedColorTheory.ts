@@ -9,6 +9,17 @@
  * - Advanced complementary and analogous color generation
  */
 
+import { Clock, systemClock } from "./determinism";
+import {
+  deltaE2000,
+  hexToLab,
+  hexToRgb,
+  labToHex,
+  type Lab,
+  rgbToHsl,
+} from "./colorScience";
+import { resolveColorHex } from "./colorNames";
+
 export interface ColorHarmonyResult {
   isHarmonious: boolean;
   harmonyType: string;
@@ -36,6 +47,9 @@ export interface SeasonalColorProfile {
 }
 
 export class AdvancedColorTheory {
+  // Seasonal matching depends on the date; pass a fixed clock to reproduce a run
+  constructor(private readonly clock: Clock = systemClock) {}
+
   private colorFamilies = {
     red: [
       "#FF0000", "#DC143C", "#8B0000", "#800000", "#DC143C", "#FF1493", "#FF69B4", "#FFB6C1", "#FFC0CB", "#FF69B4", "#FF00FF", "#FF00FF",
@@ -192,21 +206,18 @@ export class AdvancedColorTheory {
       const normalizedColors = allColors.map(color => this.normalizeColor(color));
       
       // Convert to CIELAB for perceptual analysis
-      const labColors = normalizedColors.map(hex => {
-        const rgb = this.hexToRgb(hex);
-        return this.rgbToLab(rgb.r, rgb.g, rgb.b);
-      });
+      const labColors = allColors.map(color => this.toLab(color));
 
       // Calculate average perceptual distance
       const distances = [];
       for (let i = 0; i < labColors.length; i++) {
         for (let j = i + 1; j < labColors.length; j++) {
-          distances.push(this.calculateLabDistance(labColors[i], labColors[j]));
+          distances.push(deltaE2000(labColors[i], labColors[j]));
         }
       }
       
       const avgDistance = distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : 0;
-      const perceptualMatch = avgDistance < 50; // Threshold for perceptual harmony
+      const perceptualMatch = avgDistance < 30; // CIEDE2000 threshold for perceptual harmony
 
       // Check for specific harmony types
       const harmonyChecks = [
@@ -250,17 +261,18 @@ export class AdvancedColorTheory {
    */
   public analyzeColor(color: string): ColorAnalysis {
     const normalizedColor = this.normalizeColor(color);
-    const rgb = this.hexToRgb(normalizedColor);
-    const lab = this.rgbToLab(rgb.r, rgb.g, rgb.b);
-    const hsl = this.rgbToHsl(rgb.r, rgb.g, rgb.b);
+    const hex = resolveColorHex(color) || "#808080";
+    const lab = hexToLab(hex);
+    const rgb = hexToRgb(hex);
+    const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
 
     return {
       dominantColor: this.getDominantColor(normalizedColor),
       colorFamily: this.getColorFamily(normalizedColor),
       temperature: this.getColorTemperature(normalizedColor),
       intensity: this.getColorIntensity(normalizedColor),
-      saturation: this.getColorSaturation(hsl.s),
-      hexValue: normalizedColor,
+      saturation: this.getColorSaturation(hsl.s * 100),
+      hexValue: hex,
       labValues: lab,
     };
   }
@@ -298,9 +310,7 @@ export class AdvancedColorTheory {
     baseColor: string,
     harmonyType: string = "complementary",
   ): string[] {
-    const normalizedBase = this.normalizeColor(baseColor);
-    const rgb = this.hexToRgb(normalizedBase);
-    const lab = this.rgbToLab(rgb.r, rgb.g, rgb.b);
+    const lab = this.toLab(baseColor);
 
     switch (harmonyType) {
       case "complementary":
@@ -317,127 +327,30 @@ export class AdvancedColorTheory {
   }
 
   /**
-   * Convert RGB to CIELAB color space
-   */
-  private rgbToLab(r: number, g: number, blue: number): { l: number; a: number; b: number } {
-    // Convert RGB to XYZ
-    const xyz = this.rgbToXyz(r, g, blue);
-
-    // Convert XYZ to CIELAB
-    const xn = 0.95047, yn = 1.00000, zn = 1.08883; // D65 illuminant
-
-    const xr = this.xyzToLab(xyz.x / xn);
-    const yr = this.xyzToLab(xyz.y / yn);
-    const zr = this.xyzToLab(xyz.z / zn);
-
-    const l = 116 * yr - 16;
-    const a = 500 * (xr - yr);
-    const b = 200 * (yr - zr);
-
-    return { l, a, b };
-  }
-
-  /**
-   * Convert CIELAB to RGB
-   */
-  private labToRgb(l: number, a: number, bLab: number): { r: number; g: number; b: number } {
-    const xn = 0.95047, yn = 1.00000, zn = 1.08883;
-
-    const yr = (l + 16) / 116;
-    const xr = a / 500 + yr;
-    const zr = yr - bLab / 200;
-
-    const x = xn * this.labToXyz(xr);
-    const y = yn * this.labToXyz(yr);
-    const z = zn * this.labToXyz(zr);
-
-    return this.xyzToRgb(x, y, z);
-  }
-
-  /**
-   * Convert RGB to XYZ
-   */
-  private rgbToXyz(r: number, g: number, blue: number): { x: number; y: number; z: number } {
-    r = r / 255;
-    g = g / 255;
-    blue = blue / 255;
-
-    r = r > 0.04045 ? Math.pow((r + 0.055) / 1.055, 2.4) : r / 12.92;
-    g = g > 0.04045 ? Math.pow((g + 0.055) / 1.055, 2.4) : g / 12.92;
-    blue = blue > 0.04045 ? Math.pow((blue + 0.055) / 1.055, 2.4) : blue / 12.92;
-
-    const x = r * 0.4124 + g * 0.3576 + blue * 0.1805;
-    const y = r * 0.2126 + g * 0.7152 + blue * 0.0722;
-    const z = r * 0.0193 + g * 0.1192 + blue * 0.9505;
-
-    return { x, y, z };
-  }
-
-  /**
-   * Convert XYZ to RGB
-   */
-  private xyzToRgb(x: number, y: number, z: number): { r: number; g: number; b: number } {
-    const rCalc = x * 3.2406 + y * -1.5372 + z * -0.4986;
-    const gCalc = x * -0.9689 + y * 1.8758 + z * 0.0415;
-    const bCalc = x * 0.0557 + y * -0.2040 + z * 1.0570;
-
-    const rNorm = Math.max(0, Math.min(1, rCalc));
-    const gNorm = Math.max(0, Math.min(1, gCalc));
-    const bNorm = Math.max(0, Math.min(1, bCalc));
-
-    const rFinal = rNorm > 0.0031308 ? 1.055 * Math.pow(rNorm, 1/2.4) - 0.055 : 12.92 * rNorm;
-    const gFinal = gNorm > 0.0031308 ? 1.055 * Math.pow(gNorm, 1/2.4) - 0.055 : 12.92 * gNorm;
-    const bFinal = bNorm > 0.0031308 ? 1.055 * Math.pow(bNorm, 1/2.4) - 0.055 : 12.92 * bNorm;
-
-    return {
-      r: Math.round(rFinal * 255),
-      g: Math.round(gFinal * 255),
-      b: Math.round(bFinal * 255)
-    };
-  }
-
-  /**
-   * Helper functions for CIELAB conversion
-   */
-  private xyzToLab(t: number): number {
-    return t > 0.008856 ? Math.pow(t, 1/3) : (7.787 * t) + (16 / 116);
-  }
-
-  private labToXyz(t: number): number {
-    return t > 0.206893 ? Math.pow(t, 3) : (t - 16 / 116) / 7.787;
-  }
-
-  /**
-   * Calculate perceptual distance in CIELAB color space
+   * CIELAB for a colour name or hex code; unknown colours read as mid grey
    */
-  private calculateLabDistance(lab1: { l: number; a: number; b: number }, lab2: { l: number; a: number; b: number }): number {
-    const deltaL = lab1.l - lab2.l;
-    const deltaA = lab1.a - lab2.a;
-    const deltaB = lab1.b - lab2.b;
-    
-    return Math.sqrt(deltaL * deltaL + deltaA * deltaA + deltaB * deltaB);
+  private toLab(color: string): Lab {
+    return hexToLab(resolveColorHex(color) || "#808080");
   }
 
   /**
    * Generate complementary colors
    */
-  private generateComplementaryColors(baseLab: { l: number; a: number; b: number }): string[] {
+  private generateComplementaryColors(baseLab: Lab): string[] {
     const complementaryLab = { l: baseLab.l, a: -baseLab.a, b: -baseLab.b };
-    const rgb = this.labToRgb(complementaryLab.l, complementaryLab.a, complementaryLab.b);
-    return [this.rgbToHex(rgb.r, rgb.g, rgb.b)];
+    return [labToHex(complementaryLab)];
   }
 
   /**
    * Generate analogous colors
    */
-  private generateAnalogousColors(baseLab: { l: number; a: number; b: number }): string[] {
+  private generateAnalogousColors(baseLab: Lab): string[] {
     const colors = [];
     for (let i = 1; i <= 3; i++) {
       const angle = (i * 30) * Math.PI / 180;
       const newA = baseLab.a * Math.cos(angle) - baseLab.b * Math.sin(angle);
       const newB = baseLab.a * Math.sin(angle) + baseLab.b * Math.cos(angle);
-      const rgb = this.labToRgb(baseLab.l, newA, newB);
-      colors.push(this.rgbToHex(rgb.r, rgb.g, rgb.b));
+      colors.push(labToHex({ l: baseLab.l, a: newA, b: newB }));
     }
     return colors;
   }
@@ -445,14 +358,13 @@ export class AdvancedColorTheory {
   /**
    * Generate triadic colors
    */
-  private generateTriadicColors(baseLab: { l: number; a: number; b: number }): string[] {
+  private generateTriadicColors(baseLab: Lab): string[] {
     const colors = [];
     for (let i = 1; i <= 2; i++) {
       const angle = (i * 120) * Math.PI / 180;
       const newA = baseLab.a * Math.cos(angle) - baseLab.b * Math.sin(angle);
       const newB = baseLab.a * Math.sin(angle) + baseLab.b * Math.cos(angle);
-      const rgb = this.labToRgb(baseLab.l, newA, newB);
-      colors.push(this.rgbToHex(rgb.r, rgb.g, rgb.b));
+      colors.push(labToHex({ l: baseLab.l, a: newA, b: newB }));
     }
     return colors;
   }
@@ -460,68 +372,15 @@ export class AdvancedColorTheory {
   /**
    * Generate monochromatic colors
    */
-  private generateMonochromaticColors(baseLab: { l: number; a: number; b: number }): string[] {
+  private generateMonochromaticColors(baseLab: Lab): string[] {
     const colors = [];
     for (let i = 1; i <= 3; i++) {
       const newL = Math.max(0, Math.min(100, baseLab.l + (i * 10 - 20)));
-      const rgb = this.labToRgb(newL, baseLab.a, baseLab.b);
-      colors.push(this.rgbToHex(rgb.r, rgb.g, rgb.b));
+      colors.push(labToHex({ ...baseLab, l: newL }));
     }
     return colors;
   }
 
-  /**
-   * Convert RGB to hex
-   */
-  private rgbToHex(r: number, g: number, blue: number): string {
-    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${blue.toString(16).padStart(2, '0')}`.toUpperCase();
-  }
-
-  /**
-   * Convert hex to RGB
-   */
-  private hexToRgb(hex: string): { r: number; g: number; b: number } {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16)
-    } : { r: 0, g: 0, b: 0 };
-  }
-
-  /**
-   * Convert RGB to HSL
-   */
-  private rgbToHsl(r: number, g: number, blue: number): { h: number; s: number; l: number } {
-    r /= 255;
-    g /= 255;
-    blue /= 255;
-
-    const max = Math.max(r, g, blue);
-    const min = Math.min(r, g, blue);
-    let h = 0, s = 0, l = (max + min) / 2;
-
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-      switch (max) {
-        case r:
-          h = (g - blue) / d + (g < blue ? 6 : 0);
-          break;
-        case g:
-          h = (blue - r) / d + 2;
-          break;
-        case blue:
-          h = (r - g) / d + 4;
-          break;
-      }
-      h /= 6;
-    }
-
-    return { h: h * 360, s: s * 100, l: l * 100 };
-  }
-
   private normalizeColor(color: string): string {
     return color
       .toLowerCase()
@@ -938,7 +797,7 @@ export class AdvancedColorTheory {
   }
 
   private getCurrentSeason(): string {
-    const month = new Date().getMonth() + 1;
+    const month = new Date(this.clock.now()).getMonth() + 1;
     if (month >= 3 && month <= 5) return "spring";
     if (month >= 6 && month <= 8) return "summer";
     if (month >= 9 && month <= 11) return "autumn";
@@ -1,5 +1,14 @@
 import { WardrobeItem, StyleProfile, OutfitRecommendation, WeatherData } from "./simpleStyleAI";
-import { advancedColorTheory, ColorHarmonyResult } from "./advancedColorTheory";
+import { advancedColorTheory, AdvancedColorTheory, ColorHarmonyResult } from "./advancedColorTheory";
+import {
+  Clock,
+  createSeed,
+  createSeededRandom,
+  fixedClock,
+  RandomSource,
+  ScoreBreakdown,
+  systemClock,
+} from "./determinism";
 
 export interface AdvancedContext {
   occasion: string;
@@ -42,6 +51,25 @@ export interface EnhancedOutfitRecommendation extends OutfitRecommendation {
   inspirationTags: string[];
 }
 
+/**
+ * The inputs of a generateAdvancedRecommendations call, enough for
+ * AdvancedStyleService.replay to regenerate the same recommendations.
+ */
+export interface AdvancedRecommendationSnapshot {
+  seed: number;
+  generatedAt: number; // epoch milliseconds
+  wardrobeItems: WardrobeItem[];
+  profile: StyleProfile;
+  context: AdvancedContext;
+  includeAccessories: boolean;
+  maxRecommendations: number;
+}
+
+export interface AdvancedRecommendationReplay {
+  recommendations: EnhancedOutfitRecommendation[];
+  breakdowns: { [outfitId: string]: ScoreBreakdown };
+}
+
 // Advanced occasion definitions with detailed attributes
 const OCCASION_PROFILES = {
   work: {
@@ -162,22 +190,52 @@ const COLOR_PSYCHOLOGY = {
   navy: { energy: 4, confidence: 8, attention: 6, professionalism: 9, mood: "trustworthy, classic" },
 };
 
-class AdvancedStyleService {
+export class AdvancedStyleService {
   private seasonalBoost: boolean = true;
   private colorPsychologyWeight: number = 0.3;
   private personalStyleWeight: number = 0.4;
   private occasionWeight: number = 0.3;
+  private readonly clock: Clock;
+  private readonly colorTheory: AdvancedColorTheory;
+  private random: RandomSource = Math.random; // Reseeded for every generation
+  private generatedAt: number = 0;
+  private lastSnapshot: AdvancedRecommendationSnapshot | null = null;
+  private scoreBreakdowns: { [outfitId: string]: ScoreBreakdown } = {};
+
+  constructor(options: { clock?: Clock } = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.colorTheory = options.clock ? new AdvancedColorTheory(this.clock) : advancedColorTheory;
+  }
 
   /**
-   * Generate advanced outfit recommendations with comprehensive analysis
+   * Generate advanced outfit recommendations with comprehensive analysis.
+   * Pass `options.seed` for a reproducible run; the inputs are available
+   * afterwards from getLastSnapshot().
    */
   async generateAdvancedRecommendations(
     wardrobeItems: WardrobeItem[],
     profile: StyleProfile,
     context: AdvancedContext,
     includeAccessories: boolean = true,
-    maxRecommendations: number = 6
+    maxRecommendations: number = 6,
+    options: { seed?: number } = {}
   ): Promise<EnhancedOutfitRecommendation[]> {
+    const seed = options.seed ?? createSeed();
+    const random = createSeededRandom(seed);
+    const generatedAt = this.clock.now();
+    this.random = random;
+    this.generatedAt = generatedAt;
+    this.scoreBreakdowns = {};
+    this.lastSnapshot = {
+      seed,
+      generatedAt,
+      wardrobeItems: [...wardrobeItems],
+      profile: { ...profile },
+      context: { ...context },
+      includeAccessories,
+      maxRecommendations,
+    };
+
     try {
       // Pre-filter items based on advanced criteria
       const filteredItems = this.preFilterItems(wardrobeItems, context);
@@ -201,6 +259,10 @@ class AdvancedStyleService {
         combinations.map(items => this.analyzeOutfitAdvanced(items, profile, context))
       );
 
+      // Another call may have reseeded while we awaited
+      this.random = random;
+      this.generatedAt = generatedAt;
+
       // Score and rank recommendations
       const scoredRecommendations = analyzedOutfits
         .map(analysis => this.createEnhancedRecommendation(analysis, context))
@@ -463,7 +525,7 @@ class AdvancedStyleService {
    */
   private analyzeColorHarmony(items: WardrobeItem[]): ColorHarmonyResult & { description: string } {
     const allColors = items.flatMap(item => item.color);
-    const harmonyResult = advancedColorTheory.findBestHarmony(allColors);
+    const harmonyResult = this.colorTheory.findBestHarmony(allColors);
     
     let description = `${harmonyResult.harmonyType} color scheme`;
     
@@ -485,6 +547,16 @@ class AdvancedStyleService {
    * Calculate comprehensive outfit scores
    */
   private calculateOverallScore(analysis: AdvancedOutfitAnalysis, context: AdvancedContext): number {
+    return Object.values(this.calculateScoreFactors(analysis, context)).reduce((sum, value) => sum + value, 0);
+  }
+
+  /**
+   * Each metric's share of the overall score; they sum to overallScore.
+   */
+  private calculateScoreFactors(
+    analysis: AdvancedOutfitAnalysis,
+    context: AdvancedContext
+  ): Record<string, number> {
     const weights = {
       colorHarmony: 0.2,
       occasionFit: 0.25,
@@ -497,41 +569,39 @@ class AdvancedStyleService {
       seasonal: context.seasonalPreference ? 0.1 : 0,
     };
 
-    let score = 0;
-    let totalWeight = 0;
-
-    score += analysis.colorHarmonyScore * weights.colorHarmony;
-    totalWeight += weights.colorHarmony;
-
-    score += analysis.occasionFit * weights.occasionFit;
-    totalWeight += weights.occasionFit;
-
-    score += analysis.timeOfDayFit * weights.timeOfDayFit;
-    totalWeight += weights.timeOfDayFit;
+    const weighted: Record<string, number> = {
+      colorHarmony: analysis.colorHarmonyScore * weights.colorHarmony,
+      occasionFit: analysis.occasionFit * weights.occasionFit,
+      timeOfDayFit: analysis.timeOfDayFit * weights.timeOfDayFit,
+      styleCoherence: analysis.styleCoherence * weights.styleCoherence,
+      personalAlignment: analysis.personalAlignment * weights.personalAlignment,
+      versatility: analysis.versatilityScore * weights.versatility,
+      trendRelevance: analysis.trendRelevance * weights.trendRelevance,
+    };
+    let totalWeight =
+      weights.colorHarmony +
+      weights.occasionFit +
+      weights.timeOfDayFit +
+      weights.styleCoherence +
+      weights.personalAlignment +
+      weights.versatility +
+      weights.trendRelevance;
 
     if (context.weather) {
-      score += (analysis.weatherAppropriate ? 1 : 0) * weights.weatherAppropriate;
+      weighted.weatherAppropriate = (analysis.weatherAppropriate ? 1 : 0) * weights.weatherAppropriate;
       totalWeight += weights.weatherAppropriate;
     }
 
-    score += analysis.styleCoherence * weights.styleCoherence;
-    totalWeight += weights.styleCoherence;
-
-    score += analysis.personalAlignment * weights.personalAlignment;
-    totalWeight += weights.personalAlignment;
-
-    score += analysis.versatilityScore * weights.versatility;
-    totalWeight += weights.versatility;
-
-    score += analysis.trendRelevance * weights.trendRelevance;
-    totalWeight += weights.trendRelevance;
-
     if (context.seasonalPreference) {
-      score += (analysis.seasonalAppropriate ? 1 : 0) * weights.seasonal;
+      weighted.seasonal = (analysis.seasonalAppropriate ? 1 : 0) * weights.seasonal;
       totalWeight += weights.seasonal;
     }
 
-    return totalWeight > 0 ? score / totalWeight : 0;
+    const factors: Record<string, number> = {};
+    Object.entries(weighted).forEach(([factor, value]) => {
+      factors[factor] = totalWeight > 0 ? value / totalWeight : 0;
+    });
+    return factors;
   }
 
   /**
@@ -697,7 +767,7 @@ class AdvancedStyleService {
   }
 
   private getCurrentSeason(): string {
-    const month = new Date().getMonth() + 1;
+    const month = new Date(this.clock.now()).getMonth() + 1;
     if (month >= 3 && month <= 5) return "spring";
     if (month >= 6 && month <= 8) return "summer";
     if (month >= 9 && month <= 11) return "autumn";
@@ -705,7 +775,7 @@ class AdvancedStyleService {
   }
 
   private analyzeColorHarmonyPair(item1: WardrobeItem, item2: WardrobeItem): ColorHarmonyResult {
-    return advancedColorTheory.analyzeColorHarmony(item1.color, item2.color);
+    return this.colorTheory.analyzeColorHarmony(item1.color, item2.color);
   }
 
   private findCompatibleItems(
@@ -743,7 +813,7 @@ class AdvancedStyleService {
     // Add one primary accessory
     const accessories = itemGroups.accessories || [];
     const compatibleAccessory = accessories.find(acc => {
-      const harmony = advancedColorTheory.analyzeColorHarmony(outfitColors, acc.color);
+      const harmony = this.colorTheory.analyzeColorHarmony(outfitColors, acc.color);
       return harmony.confidence > 0.4;
     });
     
@@ -783,7 +853,7 @@ class AdvancedStyleService {
     }
     
     // Add minimal accessories
-    if (includeAccessories && Math.random() > 0.7) {
+    if (includeAccessories && this.random() > 0.7) {
       const simpleAccessories = (itemGroups.accessories || [])
         .filter(acc => acc.style === "minimalist" || acc.tags?.includes("simple"));
       if (simpleAccessories.length > 0) {
@@ -873,7 +943,7 @@ class AdvancedStyleService {
       const paletteMatches = items.filter(item =>
         item.color.some(color => 
           profile.color_palette_colors!.some(palette => 
-            advancedColorTheory.analyzeColorHarmony([color], [palette]).isHarmonious
+            this.colorTheory.analyzeColorHarmony([color], [palette]).isHarmonious
           )
         )
       ).length;
@@ -889,9 +959,14 @@ class AdvancedStyleService {
     context: AdvancedContext
   ): EnhancedOutfitRecommendation {
     const { items, analysis: outfitAnalysis } = analysis;
+    const id = `enhanced_${this.generatedAt}_${this.random().toString(36).substr(2, 9)}`;
+    this.scoreBreakdowns[id] = {
+      factors: this.calculateScoreFactors(outfitAnalysis, context),
+      total: outfitAnalysis.overallScore,
+    };
     
     return {
-      id: `enhanced_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id,
       items,
       occasion: context.occasion,
       style: items[0]?.style || "contemporary",
@@ -993,6 +1068,34 @@ class AdvancedStyleService {
     ).slice(0, 3);
   }
 
+  /**
+   * Inputs of the most recent generateAdvancedRecommendations call.
+   */
+  getLastSnapshot(): AdvancedRecommendationSnapshot | null {
+    return this.lastSnapshot;
+  }
+
+  getScoreBreakdown(outfitId: string): ScoreBreakdown | undefined {
+    return this.scoreBreakdowns[outfitId];
+  }
+
+  /**
+   * Regenerate the recommendations a snapshot produced, with their score
+   * breakdowns, on a throwaway instance pinned to the snapshot's time.
+   */
+  static async replay(snapshot: AdvancedRecommendationSnapshot): Promise<AdvancedRecommendationReplay> {
+    const service = new AdvancedStyleService({ clock: fixedClock(snapshot.generatedAt) });
+    const recommendations = await service.generateAdvancedRecommendations(
+      snapshot.wardrobeItems,
+      snapshot.profile,
+      snapshot.context,
+      snapshot.includeAccessories,
+      snapshot.maxRecommendations,
+      { seed: snapshot.seed }
+    );
+    return { recommendations, breakdowns: { ...service.scoreBreakdowns } };
+  }
+
   private findAccessoryPairings(
     outfitItems: WardrobeItem[],
     allItems: WardrobeItem[],
@@ -1005,7 +1108,7 @@ class AdvancedStyleService {
       !outfitItems.some(outfitItem => outfitItem.id === item.id) &&
       item.color.some(color => 
         outfitColors.some(outfitColor => 
-          advancedColorTheory.analyzeColorHarmony([color], [outfitColor]).isHarmonious
+          this.colorTheory.analyzeColorHarmony([color], [outfitColor]).isHarmonious
         )
       )
     ).slice(0, 4);
@@ -0,0 +1,503 @@
+import { z } from 'zod';
+import { accurateClothingAnalyzer, HeuristicClothingClassifier } from './accurateClothingAnalyzer';
+import { accurateColorPaletteService } from './accurateColorPaletteService';
+import { createClothingClassifier, type ClothingClassifier } from './clothingClassifiers';
+import { resolveColorHex } from './colorNames';
+import { deltaE2000, hexToLab } from './colorScience';
+
+/**
+ * Labelled benchmark for the image analyzers. A fixture folder holds images
+ * plus a labels.json manifest; every image runs through the same analyzers
+ * the app uses (clothing through AccurateClothingAnalyzer, faces through the
+ * colour palette service, which drives ColorExtractionService and
+ * EnhancedFacialFeatureAnalysis) with no network access.
+ *
+ * The report is plain JSON so two runs can be compared with
+ * `compareBenchmarkReports` to see whether a change helped or hurt.
+ * `npm run benchmark -- <folder>` runs a fixture folder from Node and writes
+ * the report (scripts/run-analysis-benchmark.ts).
+ *
+ * labels.json:
+ *   { "name": "studio-set",
+ *     "fixtures": [
+ *       { "kind": "clothing", "file": "001.jpg", "category": "tops", "colors": ["navy"], "pattern": "striped" },
+ *       { "kind": "face", "file": "f01.jpg", "undertone": "warm", "season": "autumn", "skinColor": "#c68e6b" } ] }
+ */
+
+export const BENCHMARK_REPORT_VERSION = 1;
+
+const label = z.string().trim().min(1);
+// Hex (#rrggbb) or any name the colour dictionary knows
+const colorLabel = label.refine(value => resolveColorHex(value) !== null, 'is not a known colour');
+
+const clothingFixtureSchema = z.object({
+  kind: z.literal('clothing'),
+  file: label,
+  category: label,
+  colors: z.array(colorLabel).default([]),
+  pattern: label.optional(),
+});
+
+const faceFixtureSchema = z.object({
+  kind: z.literal('face'),
+  file: label,
+  undertone: label.optional(),
+  season: label.optional(),
+  skinColor: colorLabel.optional(),
+  hairColor: colorLabel.optional(),
+  eyeColor: colorLabel.optional(),
+});
+
+export const benchmarkManifestSchema = z.object({
+  name: label,
+  fixtures: z.array(z.discriminatedUnion('kind', [clothingFixtureSchema, faceFixtureSchema])).min(1),
+});
+
+export type BenchmarkManifest = z.infer<typeof benchmarkManifestSchema>;
+export type BenchmarkFixture = BenchmarkManifest['fixtures'][number];
+
+const describeIssues = (issues: z.ZodIssue[], root: string) =>
+  issues.map(issue => `${issue.path.join('.') || root} ${issue.message.toLowerCase()}`).join('; ');
+
+export class BenchmarkManifestError extends Error {
+  constructor(public readonly issues: z.ZodIssue[]) {
+    super(`Invalid benchmark labels: ${describeIssues(issues, 'manifest')}`);
+    this.name = 'BenchmarkManifestError';
+  }
+}
+
+export const parseBenchmarkManifest = (raw: unknown): BenchmarkManifest => {
+  const result = benchmarkManifestSchema.safeParse(raw);
+  if (!result.success) throw new BenchmarkManifestError(result.error.issues);
+  return result.data;
+};
+
+// Metrics
+
+export interface ClassMetrics {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  // Fixtures labelled with this class
+  support: number;
+}
+
+export interface ClassificationMetrics {
+  total: number;
+  accuracy: number | null;
+  macroF1: number | null;
+  classes: Record<string, ClassMetrics>;
+  // confusion[expected][predicted] = count
+  confusion: Record<string, Record<string, number>>;
+}
+
+export interface DeltaEStats {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  p90: number | null;
+  max: number | null;
+}
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? numerator / denominator : null;
+
+export function classificationMetrics(pairs: Array<{ expected: string; predicted: string }>): ClassificationMetrics {
+  const confusion: ClassificationMetrics['confusion'] = {};
+  pairs.forEach(({ expected, predicted }) => {
+    confusion[expected] = confusion[expected] || {};
+    confusion[expected][predicted] = (confusion[expected][predicted] || 0) + 1;
+  });
+
+  const labelled = Array.from(new Set(pairs.map(pair => pair.expected))).sort();
+  const classes: ClassificationMetrics['classes'] = {};
+  labelled.forEach(name => {
+    const truePositives = pairs.filter(pair => pair.expected === name && pair.predicted === name).length;
+    const predicted = pairs.filter(pair => pair.predicted === name).length;
+    const support = pairs.filter(pair => pair.expected === name).length;
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+    classes[name] = {
+      precision,
+      recall,
+      f1: precision !== null && recall !== null && precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : precision === null ? null : 0,
+      support,
+    };
+  });
+
+  // A class never predicted has no precision; count its F1 as 0 so it still drags the average down
+  const f1Scores = labelled.map(name => classes[name].f1 ?? 0);
+  return {
+    total: pairs.length,
+    accuracy: ratio(pairs.filter(pair => pair.expected === pair.predicted).length, pairs.length),
+    macroF1: f1Scores.length > 0 ? f1Scores.reduce((sum, score) => sum + score, 0) / f1Scores.length : null,
+    classes,
+    confusion,
+  };
+}
+
+export function deltaEStats(values: number[]): DeltaEStats {
+  if (values.length === 0) return { count: 0, mean: null, median: null, p90: null, max: null };
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (quantile: number) => sorted[Math.min(sorted.length - 1, Math.floor(quantile * sorted.length))];
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    median: at(0.5),
+    p90: at(0.9),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+const toHex = (color: string): string | null => resolveColorHex(color);
+
+/**
+ * ΔE2000 from a labelled colour to the closest predicted one; the analyzer
+ * gets credit for the colour if it found it anywhere in its list.
+ */
+export function closestDeltaE(expected: string, predicted: string[]): number | null {
+  const expectedHex = toHex(expected);
+  const candidates = predicted.map(toHex).filter((hex): hex is string => hex !== null);
+  if (!expectedHex || candidates.length === 0) return null;
+  const lab = hexToLab(expectedHex);
+  return Math.min(...candidates.map(hex => deltaE2000(lab, hexToLab(hex))));
+}
+
+// Running
+
+// Descriptors the clothing heuristics add that say nothing about the weave or print
+const TONE_DESCRIPTORS = ['warm-tones', 'cool-tones', 'accent-piece'];
+
+const UNDERTONE_ALIASES: Record<string, string> = { pink: 'cool', yellow: 'warm' };
+const SEASON_ALIASES: Record<string, string> = { fall: 'autumn' };
+const FIELD_ALIASES: Record<string, Record<string, string>> = {
+  undertone: UNDERTONE_ALIASES,
+  season: SEASON_ALIASES,
+};
+
+const normalize = (value: string, aliases: Record<string, string> = {}) => {
+  const lower = value.trim().toLowerCase();
+  return aliases[lower] ?? lower;
+};
+
+export interface FixtureOutcome {
+  file: string;
+  kind: BenchmarkFixture['kind'];
+  durationMs: number;
+  error?: string;
+  // field -> { expected, predicted } for every labelled field
+  labels: Record<string, { expected: string; predicted: string }>;
+  // colour field -> ΔE2000 to the closest prediction
+  deltaE: Record<string, number>;
+}
+
+export interface BenchmarkReport {
+  version: typeof BENCHMARK_REPORT_VERSION;
+  name: string;
+  createdAt: string;
+  durationMs: number;
+  classifier: string;
+  fixtureCount: number;
+  failures: Array<{ file: string; error: string }>;
+  metrics: {
+    category: ClassificationMetrics;
+    pattern: ClassificationMetrics;
+    undertone: ClassificationMetrics;
+    season: ClassificationMetrics;
+    deltaE: {
+      garment: DeltaEStats;
+      skin: DeltaEStats;
+      hair: DeltaEStats;
+      eyes: DeltaEStats;
+    };
+  };
+  fixtures: FixtureOutcome[];
+}
+
+export interface BenchmarkOptions {
+  // Keep the fixture's own filename. Off by default: the clothing heuristics
+  // read garment keywords from filenames, which would leak the label.
+  keepFilenames?: boolean;
+  // Classifier for clothing; defaults to the offline providers
+  classifier?: ClothingClassifier;
+  onProgress?: (done: number, total: number, file: string) => void;
+}
+
+async function runFixture(fixture: BenchmarkFixture, image: File): Promise<Omit<FixtureOutcome, 'durationMs'>> {
+  const labels: FixtureOutcome['labels'] = {};
+  const deltaE: FixtureOutcome['deltaE'] = {};
+  const addDeltaE = (field: string, expected: string | undefined, predicted: string[]) => {
+    const distance = expected ? closestDeltaE(expected, predicted) : null;
+    if (distance !== null) deltaE[field] = distance;
+  };
+
+  if (fixture.kind === 'clothing') {
+    const result = await accurateClothingAnalyzer.analyzeClothing(image);
+    labels.category = {
+      expected: normalize(fixture.category),
+      predicted: result.isClothing ? normalize(result.category) : 'other',
+    };
+    if (fixture.pattern) {
+      const pattern = (result.patterns || []).find(name => !TONE_DESCRIPTORS.includes(name));
+      labels.pattern = { expected: normalize(fixture.pattern), predicted: pattern ? normalize(pattern) : 'solid' };
+    }
+    fixture.colors.forEach((color, index) => addDeltaE(`garment.${index}`, color, result.colors));
+  } else {
+    const analysis = await accurateColorPaletteService.analyzeUserColors(image);
+    const features = analysis.facialFeatures;
+    if (fixture.undertone) {
+      labels.undertone = {
+        expected: normalize(fixture.undertone, UNDERTONE_ALIASES),
+        predicted: normalize(features.skinTone.undertone, UNDERTONE_ALIASES),
+      };
+    }
+    if (fixture.season) {
+      labels.season = {
+        expected: normalize(fixture.season, SEASON_ALIASES),
+        predicted: normalize(analysis.colorProfile.seasonalProfile.season, SEASON_ALIASES),
+      };
+    }
+    addDeltaE('skin', fixture.skinColor, [features.skinTone.color]);
+    addDeltaE('hair', fixture.hairColor, [features.hairColor.color]);
+    addDeltaE('eyes', fixture.eyeColor, [features.eyeColor.color]);
+  }
+
+  return { file: fixture.file, kind: fixture.kind, labels, deltaE };
+}
+
+/**
+ * Run every fixture and build the report. `loadImage` resolves a fixture's
+ * file name to the image; a fixture that fails is recorded, not fatal.
+ */
+export async function runAnalysisBenchmark(
+  manifest: BenchmarkManifest,
+  loadImage: (file: string) => Promise<File>,
+  options: BenchmarkOptions = {},
+): Promise<BenchmarkReport> {
+  const started = Date.now();
+  const classifier = options.classifier
+    ?? createClothingClassifier({ providers: ['on-device', 'heuristic'] }, new HeuristicClothingClassifier(accurateClothingAnalyzer));
+  const previousClassifier = accurateClothingAnalyzer.getClassifier();
+  accurateClothingAnalyzer.setClassifier(classifier);
+
+  const outcomes: FixtureOutcome[] = [];
+  try {
+    for (const [index, fixture] of manifest.fixtures.entries()) {
+      options.onProgress?.(index, manifest.fixtures.length, fixture.file);
+      const fixtureStarted = Date.now();
+      try {
+        const source = await loadImage(fixture.file);
+        const extension = fixture.file.includes('.') ? fixture.file.slice(fixture.file.lastIndexOf('.')) : '';
+        const image = options.keepFilenames
+          ? source
+          : new File([source], `fixture-${index + 1}${extension}`, { type: source.type });
+        const outcome = await runFixture(fixture, image);
+        outcomes.push({ ...outcome, durationMs: Date.now() - fixtureStarted });
+      } catch (error) {
+        outcomes.push({
+          file: fixture.file,
+          kind: fixture.kind,
+          durationMs: Date.now() - fixtureStarted,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          labels: {},
+          deltaE: {},
+        });
+      }
+    }
+  } finally {
+    accurateClothingAnalyzer.setClassifier(previousClassifier);
+  }
+  options.onProgress?.(manifest.fixtures.length, manifest.fixtures.length, '');
+
+  // A fixture that crashed still counts against every field it was labelled for
+  const pairsFor = (field: 'category' | 'pattern' | 'undertone' | 'season') =>
+    manifest.fixtures.flatMap((fixture, index) => {
+      const outcome = outcomes[index];
+      if (outcome.labels[field]) return [outcome.labels[field]];
+      const expected = (fixture as Record<string, unknown>)[field];
+      return outcome.error && typeof expected === 'string'
+        ? [{ expected: normalize(expected, FIELD_ALIASES[field]), predicted: 'error' }]
+        : [];
+    });
+  const deltaEFor = (prefix: string) =>
+    outcomes.flatMap(outcome =>
+      Object.entries(outcome.deltaE)
+        .filter(([field]) => field === prefix || field.startsWith(`${prefix}.`))
+        .map(([, value]) => value),
+    );
+
+  return {
+    version: BENCHMARK_REPORT_VERSION,
+    name: manifest.name,
+    createdAt: new Date().toISOString(),
+    durationMs: Date.now() - started,
+    classifier: classifier.label,
+    fixtureCount: manifest.fixtures.length,
+    failures: outcomes.filter(outcome => outcome.error).map(outcome => ({ file: outcome.file, error: outcome.error! })),
+    metrics: {
+      category: classificationMetrics(pairsFor('category')),
+      pattern: classificationMetrics(pairsFor('pattern')),
+      undertone: classificationMetrics(pairsFor('undertone')),
+      season: classificationMetrics(pairsFor('season')),
+      deltaE: {
+        garment: deltaEStats(deltaEFor('garment')),
+        skin: deltaEStats(deltaEFor('skin')),
+        hair: deltaEStats(deltaEFor('hair')),
+        eyes: deltaEStats(deltaEFor('eyes')),
+      },
+    },
+    fixtures: outcomes,
+  };
+}
+
+// Comparing runs
+
+const nullableNumber = z.number().nullable();
+
+const classificationMetricsSchema = z.object({
+  total: z.number(),
+  accuracy: nullableNumber,
+  macroF1: nullableNumber,
+  classes: z.record(z.object({ precision: nullableNumber, recall: nullableNumber, f1: nullableNumber, support: z.number() })),
+  confusion: z.record(z.record(z.number())),
+});
+
+const deltaEStatsSchema = z.object({
+  count: z.number(),
+  mean: nullableNumber,
+  median: nullableNumber,
+  p90: nullableNumber,
+  max: nullableNumber,
+});
+
+export const benchmarkReportSchema = z.object({
+  version: z.literal(BENCHMARK_REPORT_VERSION),
+  name: z.string(),
+  createdAt: z.string(),
+  durationMs: z.number(),
+  classifier: z.string(),
+  fixtureCount: z.number(),
+  failures: z.array(z.object({ file: z.string(), error: z.string() })),
+  metrics: z.object({
+    category: classificationMetricsSchema,
+    pattern: classificationMetricsSchema,
+    undertone: classificationMetricsSchema,
+    season: classificationMetricsSchema,
+    deltaE: z.object({
+      garment: deltaEStatsSchema,
+      skin: deltaEStatsSchema,
+      hair: deltaEStatsSchema,
+      eyes: deltaEStatsSchema,
+    }),
+  }),
+  fixtures: z.array(z.object({
+    file: z.string(),
+    kind: z.enum(['clothing', 'face']),
+    durationMs: z.number(),
+    error: z.string().optional(),
+    labels: z.record(z.object({ expected: z.string(), predicted: z.string() })),
+    deltaE: z.record(z.number()),
+  })),
+});
+
+export class BenchmarkReportError extends Error {
+  constructor(message: string, public readonly issues: z.ZodIssue[] = []) {
+    super(message);
+    this.name = 'BenchmarkReportError';
+  }
+}
+
+/**
+ * Read a saved report back, e.g. as the baseline for the next run. A report
+ * written by another report version is rejected instead of being compared
+ * against metrics it may not have.
+ */
+export const parseBenchmarkReport = (raw: unknown): BenchmarkReport => {
+  const version = raw && typeof raw === 'object' ? (raw as { version?: unknown }).version : undefined;
+  if (typeof version !== 'number') throw new BenchmarkReportError('Not a benchmark report');
+  if (version !== BENCHMARK_REPORT_VERSION) {
+    throw new BenchmarkReportError(
+      `Report version ${version} can't be compared with this build's version ${BENCHMARK_REPORT_VERSION}; re-run the baseline`
+    );
+  }
+
+  const result = benchmarkReportSchema.safeParse(raw);
+  if (!result.success) {
+    throw new BenchmarkReportError(`Invalid benchmark report: ${describeIssues(result.error.issues, 'report')}`, result.error.issues);
+  }
+  return result.data;
+};
+
+export interface MetricChange {
+  metric: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+  // null when either run has no value or nothing changed
+  improved: boolean | null;
+}
+
+export interface FixtureChange {
+  file: string;
+  field: string;
+  expected: string;
+  before: string;
+  after: string;
+}
+
+export interface BenchmarkComparison {
+  metrics: MetricChange[];
+  // Labelled fields whose prediction differs between the runs
+  changedFixtures: FixtureChange[];
+  // Fixtures only present in one of the runs
+  addedFixtures: string[];
+  removedFixtures: string[];
+}
+
+export function compareBenchmarkReports(baseline: BenchmarkReport, current: BenchmarkReport): BenchmarkComparison {
+  const metrics: MetricChange[] = [];
+  const track = (metric: string, before: number | null, after: number | null, higherIsBetter: boolean) => {
+    const delta = before !== null && after !== null ? after - before : null;
+    metrics.push({
+      metric,
+      before,
+      after,
+      delta,
+      improved: delta === null || Math.abs(delta) < 1e-9 ? null : (delta > 0) === higherIsBetter,
+    });
+  };
+
+  (['category', 'pattern', 'undertone', 'season'] as const).forEach(task => {
+    track(`${task}.accuracy`, baseline.metrics[task].accuracy, current.metrics[task].accuracy, true);
+    track(`${task}.macroF1`, baseline.metrics[task].macroF1, current.metrics[task].macroF1, true);
+  });
+  (['garment', 'skin', 'hair', 'eyes'] as const).forEach(region => {
+    track(`deltaE.${region}.mean`, baseline.metrics.deltaE[region].mean, current.metrics.deltaE[region].mean, false);
+    track(`deltaE.${region}.p90`, baseline.metrics.deltaE[region].p90, current.metrics.deltaE[region].p90, false);
+  });
+  track('failures', baseline.failures.length, current.failures.length, false);
+
+  const baselineFixtures = new Map(baseline.fixtures.map(fixture => [fixture.file, fixture]));
+  const currentFiles = new Set(current.fixtures.map(fixture => fixture.file));
+  const changedFixtures: FixtureChange[] = [];
+
+  current.fixtures.forEach(fixture => {
+    const before = baselineFixtures.get(fixture.file);
+    if (!before) return;
+    Object.entries(fixture.labels).forEach(([field, { expected, predicted }]) => {
+      const previous = before.labels[field]?.predicted ?? (before.error ? 'error' : 'unlabelled');
+      if (previous !== predicted) {
+        changedFixtures.push({ file: fixture.file, field, expected, before: previous, after: predicted });
+      }
+    });
+  });
+
+  return {
+    metrics,
+    changedFixtures,
+    addedFixtures: current.fixtures.filter(fixture => !baselineFixtures.has(fixture.file)).map(fixture => fixture.file),
+    removedFixtures: baseline.fixtures.filter(fixture => !currentFiles.has(fixture.file)).map(fixture => fixture.file),
+  };
+}
@@ -0,0 +1,698 @@
+import { Platform } from 'react-native';
+import { DEFAULT_SCHEDULE } from './layeringPlan';
+import { expoDeviceCalendar } from './deviceCalendar';
+
+/**
+ * Calendar import for the outfit planner. Events come from iCalendar (.ics)
+ * files, subscribed feeds or the device calendar; a user-editable rule table
+ * maps each event's title, location and start time to an occasion, and
+ * planDaySlots splits a day into the stretches that need their own outfit
+ * (office, then dinner).
+ */
+
+// Events
+
+export type CalendarSource = 'file' | 'feed' | 'device';
+
+export interface CalendarEvent {
+  id: string; // UID plus start, so each occurrence of a recurring event is distinct
+  title: string;
+  location?: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+export interface ImportedCalendar {
+  id: string;
+  name: string;
+  source: CalendarSource;
+  url?: string; // feeds only, for refreshing
+  importedAt: number;
+  events: CalendarEvent[];
+}
+
+export class CalendarImportError extends Error {
+  public readonly source: CalendarSource;
+
+  constructor(message: string, source: CalendarSource) {
+    super(message);
+    this.name = 'CalendarImportError';
+    this.source = source;
+  }
+}
+
+// Events are kept for this long ahead; planning never looks further
+export const CALENDAR_IMPORT_DAYS = 30;
+const MAX_OCCURRENCES = 500; // per recurring event within the window, against runaway rules
+
+export const importWindow = (from: Date = new Date()): { from: Date; to: Date } => {
+  const start = new Date(from);
+  start.setHours(0, 0, 0, 0);
+  const to = new Date(start);
+  to.setDate(to.getDate() + CALENDAR_IMPORT_DAYS);
+  return { from: start, to };
+};
+
+// iCalendar parsing
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unfold = (text: string) => text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+function parseProperty(line: string): ICalProperty | null {
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1').trim();
+
+// Offset of a time zone from UTC at a given instant, in milliseconds
+function zoneOffset(utc: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(utc));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - utc;
+}
+
+/**
+ * DATE, UTC DATE-TIME, floating DATE-TIME and DATE-TIME with a TZID.
+ * Unknown zone names (Outlook's Windows names, say) fall back to local time.
+ */
+function parseICalDate(property: ICalProperty): { date: Date; allDay: boolean } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second = '0', utc] = match;
+  const y = Number(year);
+  const m = Number(month) - 1;
+  const d = Number(day);
+
+  if (hour === undefined || property.params.VALUE === 'DATE') {
+    return { date: new Date(y, m, d), allDay: true };
+  }
+  const h = Number(hour);
+  const min = Number(minute);
+  const s = Number(second);
+  if (utc) return { date: new Date(Date.UTC(y, m, d, h, min, s)), allDay: false };
+
+  const zone = property.params.TZID;
+  if (zone) {
+    try {
+      const wall = Date.UTC(y, m, d, h, min, s);
+      // Twice, so times next to a DST change land on the right side of it
+      let utcTime = wall - zoneOffset(wall, zone);
+      utcTime = wall - zoneOffset(utcTime, zone);
+      return { date: new Date(utcTime), allDay: false };
+    } catch {
+      // Not an IANA zone; read as local time below
+    }
+  }
+  return { date: new Date(y, m, d, h, min, s), allDay: false };
+}
+
+// P1W, P1D, PT1H30M, -PT15M
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const ms =
+    ((Number(weeks) * 7 + Number(days)) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+interface RawEvent {
+  uid: string;
+  title: string;
+  location?: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  rrule?: Record<string, string>;
+  exdates: number[];
+  recurrenceId?: number;
+  cancelled: boolean;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Occurrence start times of a recurring event that can overlap `window`.
+ * Supports the DAILY, WEEKLY (with BYDAY) and MONTHLY rules calendar apps
+ * write for everyday events, with INTERVAL, COUNT and UNTIL. Periods before
+ * the window are skipped, unless COUNT needs them counted from the start.
+ */
+function expandRule(event: RawEvent, window: { from: Date; to: Date }): Date[] {
+  const rule = event.rrule!;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(rule.FREQ)) return [event.start];
+
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const untilProperty = rule.UNTIL ? parseICalDate({ name: 'UNTIL', params: {}, value: rule.UNTIL }) : null;
+  const until = untilProperty
+    ? new Date(untilProperty.date.getTime() + (untilProperty.allDay ? 86400000 - 1 : 0))
+    : null;
+  const limit = until && until < window.to ? until : window.to;
+  const byDay = rule.BYDAY
+    ? rule.BYDAY.split(',').map(day => WEEKDAYS.indexOf(day.slice(-2))).filter(day => day >= 0)
+    : [];
+  const weekdays = byDay.length > 0 ? [...byDay].sort() : [event.start.getDay()];
+  // Occurrences starting before this have ended by the time the window opens
+  const earliest = window.from.getTime() - (event.end.getTime() - event.start.getTime());
+
+  const at = (base: Date, dayOffset: number) => {
+    const date = new Date(base);
+    date.setDate(date.getDate() + dayOffset);
+    return date;
+  };
+
+  // The first moment of a period, and the occurrences in it
+  const periodStart = (period: number): Date => {
+    if (rule.FREQ === 'WEEKLY') return at(event.start, period * interval * 7 - event.start.getDay());
+    if (rule.FREQ === 'MONTHLY') {
+      const date = new Date(event.start);
+      date.setDate(1);
+      date.setMonth(date.getMonth() + period * interval);
+      return date;
+    }
+    return at(event.start, period * interval);
+  };
+  const occurrencesIn = (period: number): Date[] => {
+    if (rule.FREQ === 'WEEKLY') {
+      const weekStart = periodStart(period);
+      return weekdays.map(day => at(weekStart, day)).filter(date => date >= event.start);
+    }
+    if (rule.FREQ === 'MONTHLY') {
+      const date = new Date(event.start);
+      date.setMonth(date.getMonth() + period * interval);
+      return date.getDate() === event.start.getDate() ? [date] : []; // no 31st in short months
+    }
+    return [periodStart(period)];
+  };
+
+  let period = 0;
+  if (count === Infinity && earliest > event.start.getTime()) {
+    const from = new Date(earliest);
+    const days = Math.floor((earliest - event.start.getTime()) / 86400000);
+    const months = (from.getFullYear() - event.start.getFullYear()) * 12 + from.getMonth() - event.start.getMonth();
+    const elapsed = rule.FREQ === 'WEEKLY' ? days / 7 : rule.FREQ === 'MONTHLY' ? months : days;
+    // A period early, so a daylight saving shift can't skip an occurrence
+    period = Math.max(0, Math.floor(elapsed / interval) - 1);
+  }
+
+  const occurrences: Date[] = [];
+  let counted = 0;
+  for (; occurrences.length < MAX_OCCURRENCES && counted < count; period++) {
+    if (periodStart(period) > limit) break;
+    for (const occurrence of occurrencesIn(period)) {
+      if (occurrence > limit || counted >= count) break;
+      counted++;
+      if (occurrence.getTime() > earliest) occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Read the VEVENTs of an iCalendar document and return the occurrences
+ * that overlap [from, to), recurring events expanded and cancelled ones
+ * dropped. Throws CalendarImportError if the text is not iCalendar.
+ */
+export function parseICalendar(
+  text: string,
+  window: { from: Date; to: Date } = importWindow(),
+  source: CalendarSource = 'file',
+): { name?: string; events: CalendarEvent[] } {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new CalendarImportError('Not an iCalendar file (no BEGIN:VCALENDAR)', source);
+  }
+
+  let name: string | undefined;
+  const raw: RawEvent[] = [];
+  let current: Partial<RawEvent> & { exdates: number[]; startProperty?: ICalProperty; endProperty?: ICalProperty; duration?: number } | null = null;
+  let nested = 0; // VALARMs inside an event
+
+  for (const line of unfold(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT') current = { exdates: [] };
+      else if (current) nested++;
+      continue;
+    }
+    if (property.name === 'END') {
+      if (current && nested > 0) {
+        nested--;
+      } else if (current && property.value.toUpperCase() === 'VEVENT') {
+        const start = current.startProperty && parseICalDate(current.startProperty);
+        if (start) {
+          const end = current.endProperty && parseICalDate(current.endProperty);
+          const fallback = current.duration ?? (start.allDay ? 86400000 : 60 * 60 * 1000);
+          raw.push({
+            uid: current.uid || `${current.title}-${start.date.getTime()}`,
+            title: current.title || 'Untitled event',
+            location: current.location,
+            description: current.description,
+            start: start.date,
+            end: end ? end.date : new Date(start.date.getTime() + fallback),
+            allDay: start.allDay,
+            rrule: current.rrule,
+            exdates: current.exdates,
+            recurrenceId: current.recurrenceId,
+            cancelled: current.cancelled ?? false,
+          });
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    if (!current) {
+      if (property.name === 'X-WR-CALNAME') name = unescapeText(property.value);
+      continue;
+    }
+    if (nested > 0) continue;
+
+    switch (property.name) {
+      case 'UID':
+        current.uid = property.value;
+        break;
+      case 'SUMMARY':
+        current.title = unescapeText(property.value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(property.value) || undefined;
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(property.value) || undefined;
+        break;
+      case 'DTSTART':
+        current.startProperty = property;
+        break;
+      case 'DTEND':
+        current.endProperty = property;
+        break;
+      case 'DURATION':
+        current.duration = parseDuration(property.value) ?? undefined;
+        break;
+      case 'STATUS':
+        current.cancelled = property.value.toUpperCase() === 'CANCELLED';
+        break;
+      case 'RRULE':
+        current.rrule = Object.fromEntries(
+          property.value.split(';').map(part => {
+            const [key, value = ''] = part.split('=');
+            return [key.toUpperCase(), value.toUpperCase()];
+          }),
+        );
+        break;
+      case 'EXDATE':
+        property.value.split(',').forEach(value => {
+          const date = parseICalDate({ ...property, value });
+          if (date) current!.exdates.push(date.date.getTime());
+        });
+        break;
+      case 'RECURRENCE-ID': {
+        const date = parseICalDate(property);
+        if (date) current.recurrenceId = date.date.getTime();
+        break;
+      }
+    }
+  }
+
+  // Moved or cancelled single occurrences replace the series' own
+  const overridden = new Set(
+    raw.filter(event => event.recurrenceId !== undefined).map(event => `${event.uid}@${event.recurrenceId}`),
+  );
+
+  const events: CalendarEvent[] = [];
+  for (const event of raw) {
+    if (event.cancelled) continue;
+    const duration = event.end.getTime() - event.start.getTime();
+    const starts = event.rrule && event.recurrenceId === undefined ? expandRule(event, window) : [event.start];
+
+    for (const start of starts) {
+      const key = `${event.uid}@${start.getTime()}`;
+      if (event.recurrenceId === undefined && (overridden.has(key) || event.exdates.includes(start.getTime()))) continue;
+      const end = new Date(start.getTime() + duration);
+      if (end <= window.from || start >= window.to) continue;
+      events.push({
+        id: key,
+        title: event.title,
+        location: event.location,
+        description: event.description,
+        start,
+        end,
+        allDay: event.allDay,
+      });
+    }
+  }
+
+  return { name, events: events.sort((a, b) => a.start.getTime() - b.start.getTime()) };
+}
+
+export async function importCalendarFile(file: File): Promise<ImportedCalendar> {
+  const { name, events } = parseICalendar(await file.text());
+  return {
+    id: `file-${file.name}`,
+    name: name || file.name.replace(/\.ics$/i, ''),
+    source: 'file',
+    importedAt: Date.now(),
+    events,
+  };
+}
+
+/**
+ * Fetch and parse a subscribed feed. webcal:// links are fetched over https.
+ */
+export async function fetchCalendarFeed(
+  url: string,
+  options: { fetch?: typeof fetch } = {},
+): Promise<ImportedCalendar> {
+  const fetchImpl = options.fetch ?? fetch;
+  const feedUrl = url.trim().replace(/^webcal:\/\//i, 'https://');
+
+  let response: Response;
+  try {
+    response = await fetchImpl(feedUrl, {
+      headers: { 'Accept': 'text/calendar' },
+      signal: AbortSignal.timeout(10000),
+    });
+  } catch (error) {
+    throw new CalendarImportError(
+      'Could not reach the calendar feed. Some calendar hosts block requests from apps; download the .ics file and import it instead.',
+      'feed',
+    );
+  }
+  if (!response.ok) {
+    throw new CalendarImportError(`Calendar feed returned ${response.status}`, 'feed');
+  }
+
+  const { name, events } = parseICalendar(await response.text(), importWindow(), 'feed');
+  return {
+    id: `feed-${feedUrl}`,
+    name: name || new URL(feedUrl).hostname,
+    source: 'feed',
+    url: feedUrl,
+    importedAt: Date.now(),
+    events,
+  };
+}
+
+// Device calendar
+
+/**
+ * Native builds read the platform calendar through expo-calendar; the web
+ * build has none, and the planner hides the option. Tests and demos can
+ * register their own.
+ */
+export interface DeviceCalendar {
+  label: string;
+  requestAccess(): Promise<boolean>;
+  getEvents(from: Date, to: Date): Promise<CalendarEvent[]>;
+}
+
+let deviceCalendar: DeviceCalendar | null | undefined;
+
+export function registerDeviceCalendar(calendar: DeviceCalendar | null): void {
+  deviceCalendar = calendar;
+}
+
+export function getDeviceCalendar(): DeviceCalendar | null {
+  if (deviceCalendar === undefined) {
+    deviceCalendar = Platform.OS === 'web' ? null : expoDeviceCalendar;
+  }
+  return deviceCalendar;
+}
+
+export async function importDeviceCalendar(): Promise<ImportedCalendar> {
+  const deviceCalendar = getDeviceCalendar();
+  if (!deviceCalendar) {
+    throw new CalendarImportError('No device calendar is available in this build', 'device');
+  }
+  if (!(await deviceCalendar.requestAccess())) {
+    throw new CalendarImportError('Calendar access was not granted', 'device');
+  }
+  const { from, to } = importWindow();
+  const events = await deviceCalendar.getEvents(from, to);
+  return {
+    id: 'device',
+    name: deviceCalendar.label,
+    source: 'device',
+    importedAt: Date.now(),
+    events: [...events].sort((a, b) => a.start.getTime() - b.start.getTime()),
+  };
+}
+
+// Storage
+
+const CALENDARS_KEY = 'dripmuse_calendars';
+const RULES_KEY = 'dripmuse_occasion_rules';
+
+export function loadImportedCalendars(): ImportedCalendar[] {
+  try {
+    const saved = localStorage.getItem(CALENDARS_KEY);
+    if (!saved) return [];
+    return JSON.parse(saved).map((calendar: ImportedCalendar) => ({
+      ...calendar,
+      events: calendar.events.map(event => ({
+        ...event,
+        start: new Date(event.start),
+        end: new Date(event.end),
+      })),
+    }));
+  } catch (error) {
+    console.warn('Failed to load imported calendars:', error);
+    return [];
+  }
+}
+
+export function saveImportedCalendars(calendars: ImportedCalendar[]): void {
+  try {
+    localStorage.setItem(CALENDARS_KEY, JSON.stringify(calendars));
+  } catch (error) {
+    console.warn('Failed to save imported calendars:', error);
+  }
+}
+
+/**
+ * Add or replace a calendar; importing the same file or feed again refreshes it
+ */
+export const upsertCalendar = (calendars: ImportedCalendar[], calendar: ImportedCalendar): ImportedCalendar[] => [
+  ...calendars.filter(existing => existing.id !== calendar.id),
+  calendar,
+];
+
+// Occasion rules
+
+export interface OccasionRule {
+  id: string;
+  field: 'title' | 'location' | 'any';
+  keywords: string; // comma-separated, matched as whole words, case-insensitive
+  occasion: string;
+  after?: string; // HH:MM; the event has to start at or after this
+  before?: string; // HH:MM; ... and before this
+}
+
+// First match wins, so the specific rules come before the broad ones
+export const DEFAULT_OCCASION_RULES: OccasionRule[] = [
+  { id: 'formal', field: 'any', keywords: 'wedding, gala, black tie, ceremony, opera, awards, funeral', occasion: 'formal' },
+  { id: 'travel', field: 'title', keywords: 'flight, train, trip, travel, hotel, check-in', occasion: 'travel' },
+  { id: 'travel-place', field: 'location', keywords: 'airport, station, terminal', occasion: 'travel' },
+  { id: 'gym', field: 'any', keywords: 'gym, workout, yoga, pilates, run, spin, crossfit, swim, tennis, football, climbing', occasion: 'sport' },
+  { id: 'date', field: 'title', keywords: 'date, date night, anniversary', occasion: 'date' },
+  { id: 'dinner', field: 'title', keywords: 'dinner', occasion: 'date', after: '17:00' },
+  { id: 'party', field: 'title', keywords: 'party, birthday, drinks, club, concert, celebration', occasion: 'party' },
+  { id: 'work', field: 'title', keywords: 'meeting, standup, stand-up, sync, 1:1, interview, presentation, client, review, workshop, conference, all hands', occasion: 'work' },
+  { id: 'work-place', field: 'location', keywords: 'office, hq, headquarters, campus', occasion: 'work' },
+  { id: 'casual', field: 'any', keywords: 'lunch, brunch, coffee, picnic, shopping, market', occasion: 'casual' },
+];
+
+export function loadOccasionRules(): OccasionRule[] {
+  try {
+    const saved = localStorage.getItem(RULES_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_OCCASION_RULES;
+  } catch (error) {
+    console.warn('Failed to load occasion rules:', error);
+    return DEFAULT_OCCASION_RULES;
+  }
+}
+
+export function saveOccasionRules(rules: OccasionRule[]): void {
+  try {
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.warn('Failed to save occasion rules:', error);
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const timeOf = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+export function ruleMatches(rule: OccasionRule, event: CalendarEvent): boolean {
+  const keywords = rule.keywords.split(',').map(keyword => keyword.trim()).filter(Boolean);
+  if (keywords.length === 0) return false;
+
+  const start = timeOf(event.start);
+  if (!event.allDay && ((rule.after && start < rule.after) || (rule.before && start >= rule.before))) {
+    return false;
+  }
+
+  const text =
+    rule.field === 'title' ? event.title
+    : rule.field === 'location' ? event.location ?? ''
+    : `${event.title} ${event.location ?? ''} ${event.description ?? ''}`;
+  return keywords.some(keyword =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword)}($|[^\\p{L}\\p{N}])`, 'iu').test(text),
+  );
+}
+
+export function matchEventOccasion(
+  event: CalendarEvent,
+  rules: OccasionRule[],
+): { occasion: string; rule: OccasionRule } | null {
+  const rule = rules.find(candidate => ruleMatches(candidate, event));
+  return rule ? { occasion: rule.occasion, rule } : null;
+}
+
+// Day planning
+
+/**
+ * A stretch of the day worn in one outfit
+ */
+export interface OccasionSlot {
+  occasion: string;
+  start: Date;
+  end: Date;
+  events: CalendarEvent[];
+}
+
+export const MAX_OUTFITS_PER_DAY = 3;
+
+// Casual plans don't need a change of clothes, except out of gym kit
+const needsOwnOutfit = (slot: OccasionSlot, previous: OccasionSlot | undefined) =>
+  slot.occasion !== 'casual' || !previous || previous.occasion === 'sport';
+
+export function eventsOnDate(events: CalendarEvent[], date: Date): CalendarEvent[] {
+  const dayStart = new Date(date);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+  return events.filter(event => event.start < dayEnd && event.end > dayStart);
+}
+
+/**
+ * Split a day's events into the outfits it needs. Events whose occasion no
+ * rule recognises are left out. Consecutive events with the same occasion
+ * share an outfit, casual plans are folded into the outfit before them, and
+ * a day with more than `maxSlots` changes keeps the longest stretches. An
+ * all-day event only sets the occasion when nothing else is timed.
+ */
+export function planDaySlots(
+  events: CalendarEvent[],
+  date: Date,
+  rules: OccasionRule[],
+  maxSlots: number = MAX_OUTFITS_PER_DAY,
+): OccasionSlot[] {
+  const matched = eventsOnDate(events, date)
+    .map(event => ({ event, match: matchEventOccasion(event, rules) }))
+    .filter((entry): entry is { event: CalendarEvent; match: NonNullable<typeof entry.match> } => entry.match !== null);
+
+  const timed = matched.filter(({ event }) => !event.allDay);
+  if (timed.length === 0) {
+    const allDay = matched[0];
+    if (!allDay) return [];
+    // An all-day event is worn over the usual day out
+    const at = (time: string) => {
+      const moment = new Date(date);
+      moment.setHours(Number(time.slice(0, 2)), Number(time.slice(3, 5)), 0, 0);
+      return moment;
+    };
+    return [{
+      occasion: allDay.match.occasion,
+      start: at(DEFAULT_SCHEDULE.leave),
+      end: at(DEFAULT_SCHEDULE.return),
+      events: [allDay.event],
+    }];
+  }
+
+  const slots: OccasionSlot[] = [];
+  for (const { event, match } of timed) {
+    const previous = slots[slots.length - 1];
+    const slot: OccasionSlot = { occasion: match.occasion, start: event.start, end: event.end, events: [event] };
+    if (previous && (previous.occasion === slot.occasion || !needsOwnOutfit(slot, previous))) {
+      previous.events.push(event);
+      if (event.end > previous.end) previous.end = event.end;
+    } else {
+      slots.push(slot);
+    }
+  }
+
+  while (slots.length > maxSlots) {
+    // Fold the shortest stretch into the one before it (or after, for the first)
+    let shortest = 0;
+    slots.forEach((slot, index) => {
+      const length = slot.end.getTime() - slot.start.getTime();
+      const best = slots[shortest].end.getTime() - slots[shortest].start.getTime();
+      if (length < best) shortest = index;
+    });
+    const [removed] = slots.splice(shortest, 1);
+    const target = slots[Math.max(0, shortest - 1)];
+    target.events.push(...removed.events);
+    target.events.sort((a, b) => a.start.getTime() - b.start.getTime());
+    if (removed.start < target.start) target.start = removed.start;
+    if (removed.end > target.end) target.end = removed.end;
+  }
+
+  return slots;
+}
+
+export const describeSlot = (slot: OccasionSlot): string =>
+  `${timeOf(slot.start)}–${timeOf(slot.end)} ${slot.events.map(event => event.title).join(', ')}`;
+
+export const slotTimes = (slot: OccasionSlot): { start: string; end: string } => ({
+  start: timeOf(slot.start),
+  end: timeOf(slot.end),
+});
+
+// The recommender's time of day for an outfit put on at `time` (HH:MM)
+export const timeOfDayAt = (time: string): 'morning' | 'afternoon' | 'evening' | 'night' => {
+  const hour = Number(time.slice(0, 2));
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  if (hour < 21) return 'evening';
+  return 'night';
+};
@@ -0,0 +1,840 @@
+/**
+ * Clothing Classifier Providers
+ *
+ * A classifier turns a garment photo into a category, subcategory, colours,
+ * patterns and materials, each with its own confidence. Backends share one
+ * interface so they can be swapped per environment, chained (first confident
+ * answer wins) or ensembled (confidence-weighted vote), and evaluated against
+ * a labelled fixture set with `evaluateClothingClassifier`.
+ *
+ * Raw confidences mean different things for different backends, so each
+ * provider can be wrapped in a calibration curve fitted from fixture results
+ * before its answers are compared with another provider's.
+ */
+
+import { nearestColorName } from './colorNames';
+import { weightedVote } from './photoAggregation';
+import type { WhiteBalanceEstimate } from './whiteBalance';
+
+export type ClassifierInput = File | string;
+
+export interface ClassificationConfidences {
+  clothing: number;
+  category: number;
+  colors: number;
+  // 0 when the provider doesn't report the field and it is left to inference
+  patterns: number;
+  materials: number;
+}
+
+export interface ClothingClassification {
+  isClothing: boolean;
+  category: string;
+  subcategory?: string;
+  style: string;
+  colors: string[];
+  patterns: string[];
+  materials: string[];
+  // Overall confidence, comparable across providers once calibrated
+  confidence: number;
+  confidences: ClassificationConfidences;
+  reasoning: string;
+  // Id of the provider that produced the answer (or 'ensemble')
+  provider: string;
+  whiteBalance?: WhiteBalanceEstimate;
+}
+
+export interface ClothingClassifier {
+  readonly id: string;
+  readonly label: string;
+  // Unavailable providers are skipped by chains and ensembles
+  isAvailable(): Promise<boolean>;
+  classify(input: ClassifierInput): Promise<ClothingClassification>;
+}
+
+export class ClassifierError extends Error {
+  constructor(message: string, public readonly provider: string) {
+    super(message);
+    this.name = 'ClassifierError';
+  }
+}
+
+// Calibration
+
+/**
+ * Piecewise-linear map from raw to calibrated confidence, as [raw, calibrated]
+ * points sorted by raw confidence.
+ */
+export type CalibrationCurve = Array<[number, number]>;
+
+export const IDENTITY_CALIBRATION: CalibrationCurve = [[0, 0], [1, 1]];
+
+export function calibrateConfidence(raw: number, curve: CalibrationCurve): number {
+  if (curve.length === 0) return raw;
+  if (raw <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [x1, y1] = curve[i];
+    if (raw <= x1) {
+      const [x0, y0] = curve[i - 1];
+      return x1 === x0 ? y1 : y0 + ((raw - x0) / (x1 - x0)) * (y1 - y0);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+/**
+ * Fit a calibration curve from (confidence, was it right) samples: bin by raw
+ * confidence, take each bin's accuracy, then pool adjacent bins until the
+ * curve never decreases so a more confident answer is never ranked lower.
+ */
+export function fitCalibrationCurve(
+  samples: Array<{ confidence: number; correct: boolean }>,
+  bins = 5,
+): CalibrationCurve {
+  if (samples.length === 0) return IDENTITY_CALIBRATION;
+
+  const grouped = Array.from({ length: bins }, () => ({ confidence: 0, correct: 0, count: 0 }));
+  samples.forEach(({ confidence, correct }) => {
+    const bin = grouped[Math.min(bins - 1, Math.floor(Math.max(0, confidence) * bins))];
+    bin.confidence += confidence;
+    bin.correct += correct ? 1 : 0;
+    bin.count++;
+  });
+
+  const blocks = grouped
+    .filter(bin => bin.count > 0)
+    .map(bin => ({ confidence: bin.confidence / bin.count, accuracy: bin.correct / bin.count, count: bin.count }));
+
+  const pooled: typeof blocks = [];
+  blocks.forEach(block => {
+    pooled.push({ ...block });
+    while (pooled.length > 1 && pooled[pooled.length - 2].accuracy > pooled[pooled.length - 1].accuracy) {
+      const last = pooled.pop()!;
+      const previous = pooled[pooled.length - 1];
+      const count = previous.count + last.count;
+      previous.confidence = (previous.confidence * previous.count + last.confidence * last.count) / count;
+      previous.accuracy = (previous.accuracy * previous.count + last.accuracy * last.count) / count;
+      previous.count = count;
+    }
+  });
+
+  return pooled.map(block => [block.confidence, block.accuracy]);
+}
+
+/**
+ * Wrap a provider so every confidence it reports goes through a calibration curve
+ */
+export class CalibratedClassifier implements ClothingClassifier {
+  readonly id: string;
+  readonly label: string;
+
+  constructor(private readonly classifier: ClothingClassifier, private readonly curve: CalibrationCurve) {
+    this.id = classifier.id;
+    this.label = classifier.label;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.classifier.isAvailable();
+  }
+
+  async classify(input: ClassifierInput): Promise<ClothingClassification> {
+    const result = await this.classifier.classify(input);
+    const calibrate = (value: number) => calibrateConfidence(value, this.curve);
+    return {
+      ...result,
+      confidence: calibrate(result.confidence),
+      confidences: {
+        clothing: calibrate(result.confidences.clothing),
+        category: calibrate(result.confidences.category),
+        colors: calibrate(result.confidences.colors),
+        patterns: result.confidences.patterns > 0 ? calibrate(result.confidences.patterns) : 0,
+        materials: result.confidences.materials > 0 ? calibrate(result.confidences.materials) : 0,
+      },
+    };
+  }
+}
+
+// Combinators
+
+/**
+ * Try providers in order and return the first answer at or above
+ * `acceptAt`; if none gets there, the most confident answer seen.
+ */
+export class ChainClassifier implements ClothingClassifier {
+  readonly id = 'chain';
+  readonly label: string;
+
+  constructor(private readonly classifiers: ClothingClassifier[], private readonly acceptAt = 0.5) {
+    this.label = classifiers.map(classifier => classifier.label).join(' → ');
+  }
+
+  async isAvailable(): Promise<boolean> {
+    const available = await Promise.all(this.classifiers.map(classifier => classifier.isAvailable()));
+    return available.some(Boolean);
+  }
+
+  async classify(input: ClassifierInput): Promise<ClothingClassification> {
+    let best: ClothingClassification | null = null;
+    const skipped: string[] = [];
+
+    for (const classifier of this.classifiers) {
+      if (!(await classifier.isAvailable())) continue;
+      try {
+        const result = await classifier.classify(input);
+        if (result.confidence >= this.acceptAt) {
+          return skipped.length > 0
+            ? { ...result, reasoning: `${result.reasoning} (after ${skipped.join(', ')})` }
+            : result;
+        }
+        skipped.push(`${classifier.id} at ${Math.round(result.confidence * 100)}%`);
+        if (!best || result.confidence > best.confidence) best = result;
+      } catch (error) {
+        console.warn(`${classifier.label} classifier failed, trying the next one:`, error);
+        skipped.push(`${classifier.id} failed`);
+      }
+    }
+
+    if (!best) throw new ClassifierError('No clothing classifier produced a result', this.id);
+    return { ...best, reasoning: `${best.reasoning} (best of ${skipped.join(', ')})` };
+  }
+}
+
+export interface EnsembleMember {
+  classifier: ClothingClassifier;
+  // Relative trust in this provider on top of its own (calibrated) confidence
+  weight?: number;
+}
+
+/**
+ * Run every available provider and combine their answers: each vote counts
+ * by member weight × that provider's confidence in the field.
+ */
+export class EnsembleClassifier implements ClothingClassifier {
+  readonly id = 'ensemble';
+  readonly label: string;
+
+  constructor(private readonly members: EnsembleMember[]) {
+    this.label = `Ensemble (${members.map(member => member.classifier.label).join(', ')})`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    const available = await Promise.all(this.members.map(member => member.classifier.isAvailable()));
+    return available.some(Boolean);
+  }
+
+  async classify(input: ClassifierInput): Promise<ClothingClassification> {
+    const availability = await Promise.all(this.members.map(member => member.classifier.isAvailable()));
+    const settled = await Promise.allSettled(
+      this.members.filter((_, index) => availability[index]).map(async member => ({
+        weight: member.weight ?? 1,
+        result: await member.classifier.classify(input),
+      })),
+    );
+
+    const votes = settled.flatMap(outcome => {
+      if (outcome.status === 'fulfilled') return [outcome.value];
+      console.warn('Ensemble member failed:', outcome.reason);
+      return [];
+    });
+    if (votes.length === 0) throw new ClassifierError('No ensemble member produced a result', this.id);
+
+    const share = (pick: (result: ClothingClassification) => boolean, field: keyof ClassificationConfidences) => {
+      const total = votes.reduce((sum, vote) => sum + vote.weight, 0);
+      const agreeing = votes
+        .filter(vote => pick(vote.result))
+        .reduce((sum, vote) => sum + vote.weight * vote.result.confidences[field], 0);
+      return total > 0 ? agreeing / total : 0;
+    };
+
+    const isClothing = weightedVote(
+      votes.map(vote => ({ value: String(vote.result.isClothing), weight: vote.weight * vote.result.confidences.clothing + 1e-6 })),
+    ) === 'true';
+    const clothingVotes = votes.filter(vote => vote.result.isClothing === isClothing);
+
+    const category = weightedVote(
+      clothingVotes.map(vote => ({ value: vote.result.category, weight: vote.weight * vote.result.confidences.category + 1e-6 })),
+    );
+    const agreeing = clothingVotes
+      .filter(vote => vote.result.category === category)
+      .sort((a, b) => b.weight * b.result.confidences.category - a.weight * a.result.confidences.category);
+    const lead = agreeing[0].result;
+
+    const rankValues = (pick: (result: ClothingClassification) => string[], field: keyof ClassificationConfidences, limit: number) => {
+      const totals = new Map<string, number>();
+      clothingVotes.forEach(vote => {
+        pick(vote.result).forEach((value, index) => {
+          // Earlier entries are the provider's stronger picks
+          const weight = (vote.weight * vote.result.confidences[field]) / (index + 1);
+          totals.set(value, (totals.get(value) || 0) + weight);
+        });
+      });
+      return Array.from(totals.entries())
+        .filter(([, weight]) => weight > 0)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([value]) => value);
+    };
+
+    const categoryConfidence = share(result => result.isClothing === isClothing && result.category === category, 'category');
+
+    return {
+      isClothing,
+      category,
+      subcategory: agreeing.find(vote => vote.result.subcategory)?.result.subcategory,
+      style: weightedVote(agreeing.map(vote => ({ value: vote.result.style, weight: vote.weight * vote.result.confidence + 1e-6 }))),
+      colors: rankValues(result => result.colors, 'colors', 3),
+      patterns: rankValues(result => result.patterns, 'patterns', 3),
+      materials: rankValues(result => result.materials, 'materials', 3),
+      confidence: categoryConfidence,
+      confidences: {
+        clothing: share(result => result.isClothing === isClothing, 'clothing'),
+        category: categoryConfidence,
+        colors: Math.max(...clothingVotes.map(vote => vote.result.confidences.colors)),
+        patterns: Math.max(...clothingVotes.map(vote => vote.result.confidences.patterns)),
+        materials: Math.max(...clothingVotes.map(vote => vote.result.confidences.materials)),
+      },
+      reasoning: `${agreeing.length} of ${votes.length} classifiers agreed on ${category} (${votes
+        .map(vote => `${vote.result.provider}: ${vote.result.category} ${Math.round(vote.result.confidence * 100)}%`)
+        .join(', ')}); ${lead.reasoning}`,
+      provider: this.id,
+      whiteBalance: votes.find(vote => vote.result.whiteBalance)?.result.whiteBalance,
+    };
+  }
+}
+
+// Label interpretation shared by label-based backends
+
+export interface ScoredLabel {
+  description: string;
+  score: number;
+}
+
+// Checked in order: shoes before tops so "shoe top" isn't a top, and so on
+const CATEGORY_TERMS: Array<[string, string[]]> = [
+  ['shoes', ['shoe', 'boot', 'sneaker', 'sandal', 'footwear']],
+  ['dresses', ['dress', 'gown']],
+  ['outerwear', ['jacket', 'coat', 'blazer']],
+  ['bottoms', ['pants', 'jeans', 'trousers', 'shorts', 'skirt']],
+  ['accessories', ['bag', 'purse', 'backpack', 'hat', 'cap', 'scarf', 'belt', 'accessory']],
+];
+
+const CLOTHING_TERMS = Array.from(new Set([
+  'clothing', 'apparel', 'fashion', 'shirt', 'sweater', 'blouse', 'top', 'bottom',
+  'heel', 'watch', 'jewelry',
+  ...CATEGORY_TERMS.flatMap(([, keywords]) => keywords),
+]));
+
+const CLOTHING_OBJECTS = ['person', 'clothing', 'footwear', 'fashion accessory', 'bag', 'shoe'];
+
+// Broad labels that say "clothing" without naming the garment
+const GENERIC_TERMS = ['clothing', 'apparel', 'fashion', 'footwear', 'fashion accessory', 'accessory', 'person'];
+
+export function filterClothingLabels(labels: ScoredLabel[], terms = CLOTHING_TERMS): ScoredLabel[] {
+  return labels.filter(
+    label => terms.some(term => label.description.toLowerCase().includes(term)) && label.score > 0.5,
+  );
+}
+
+/**
+ * Map clothing labels to a category. The most specific matching label becomes
+ * the subcategory, and its score the category confidence.
+ */
+export function categorizeLabels(labels: ScoredLabel[]): { category: string; subcategory?: string; confidence: number } {
+  const terms = [...labels]
+    .sort((a, b) => b.score - a.score)
+    .map(label => ({ term: label.description.toLowerCase(), score: label.score }));
+
+  for (const [category, keywords] of CATEGORY_TERMS) {
+    const match = terms.find(({ term }) => keywords.some(keyword => term.includes(keyword)));
+    if (match) {
+      return {
+        category,
+        subcategory: GENERIC_TERMS.includes(match.term) ? undefined : match.term,
+        confidence: match.score,
+      };
+    }
+  }
+
+  const specific = terms.find(({ term }) => !GENERIC_TERMS.includes(term));
+  // Tops is the fallback, so only a label that actually names a top earns confidence
+  return {
+    category: 'tops',
+    subcategory: specific?.term,
+    confidence: specific ? specific.score * 0.8 : 0.3,
+  };
+}
+
+export function styleFromLabels(labels: ScoredLabel[]): string {
+  const styleTerms = labels.map(label => label.description.toLowerCase()).join(' ');
+
+  if (styleTerms.includes('formal') || styleTerms.includes('suit') || styleTerms.includes('business')) {
+    return 'formal';
+  }
+  if (styleTerms.includes('sport') || styleTerms.includes('athletic') || styleTerms.includes('gym')) {
+    return 'sporty';
+  }
+  if (styleTerms.includes('elegant') || styleTerms.includes('evening') || styleTerms.includes('cocktail')) {
+    return 'elegant';
+  }
+  return 'casual';
+}
+
+const BACKGROUND_COLORS = ['white', 'light gray', 'neutral'];
+
+const notClothing = (provider: string, confidence: number, reasoning: string): ClothingClassification => ({
+  isClothing: false,
+  category: 'other',
+  style: 'unknown',
+  colors: ['neutral'],
+  patterns: [],
+  materials: [],
+  confidence,
+  confidences: { clothing: confidence, category: 0, colors: 0, patterns: 0, materials: 0 },
+  reasoning,
+  provider,
+});
+
+// Vision-compatible HTTP endpoint
+
+export interface VisionAPIResponse {
+  responses: Array<{
+    labelAnnotations?: Array<{
+      description: string;
+      score: number;
+      topicality: number;
+    }>;
+    localizedObjectAnnotations?: Array<{
+      name: string;
+      score: number;
+      boundingPoly: {
+        normalizedVertices: Array<{
+          x: number;
+          y: number;
+        }>;
+      };
+    }>;
+    imagePropertiesAnnotation?: {
+      dominantColors: {
+        colors: Array<{
+          color: {
+            red: number;
+            green: number;
+            blue: number;
+          };
+          score: number;
+          pixelFraction: number;
+        }>;
+      };
+    };
+  }>;
+}
+
+export const GOOGLE_VISION_ENDPOINT = 'https://vision.googleapis.com/v1/images:annotate';
+
+export interface VisionHttpClassifierOptions {
+  // Any endpoint accepting an images:annotate request body
+  endpoint: string;
+  // Sent as the `key` query parameter, as Google Vision expects
+  apiKey?: string;
+  headers?: Record<string, string>;
+  // Replaced with a recorded-response fetch to run fixtures offline
+  fetch?: typeof fetch;
+}
+
+/**
+ * Reads an image as base64 without the data: URL prefix
+ */
+export async function readImageAsBase64(input: ClassifierInput, fetchImpl: typeof fetch = fetch): Promise<string> {
+  if (typeof input === 'string' && input.startsWith('data:')) {
+    return input.split(',')[1];
+  }
+
+  let blob: Blob = input as File;
+  if (typeof input === 'string') {
+    const response = await fetchImpl(input).catch(fetchError => {
+      throw new Error(`Failed to fetch image: ${fetchError.message}`);
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+    }
+    blob = await response.blob();
+    if (!blob || blob.size === 0) {
+      throw new Error('Received empty or invalid image data');
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Classifies through Google Vision or any service speaking its
+ * images:annotate protocol (e.g. a self-hosted proxy).
+ */
+export class VisionHttpClassifier implements ClothingClassifier {
+  readonly id = 'vision';
+  readonly label = 'Vision API';
+
+  constructor(private readonly options: VisionHttpClassifierOptions) {}
+
+  async isAvailable(): Promise<boolean> {
+    return !!this.options.endpoint;
+  }
+
+  async classify(input: ClassifierInput): Promise<ClothingClassification> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const content = await readImageAsBase64(input, fetchImpl);
+    const url = this.options.apiKey
+      ? `${this.options.endpoint}?key=${encodeURIComponent(this.options.apiKey)}`
+      : this.options.endpoint;
+
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: JSON.stringify({
+        requests: [
+          {
+            image: { content },
+            features: [
+              { type: 'LABEL_DETECTION', maxResults: 20 },
+              { type: 'OBJECT_LOCALIZATION', maxResults: 20 },
+              { type: 'IMAGE_PROPERTIES', maxResults: 1 },
+            ],
+          },
+        ],
+      }),
+    }).catch(fetchError => {
+      throw new ClassifierError(`Network error: ${fetchError.message}`, this.id);
+    });
+
+    if (!response.ok) {
+      throw new ClassifierError(`Vision API error: ${response.status} ${response.statusText}`, this.id);
+    }
+
+    return this.interpret(await response.json());
+  }
+
+  /**
+   * Turn an images:annotate response into a classification. Public so
+   * recorded responses can be replayed without an endpoint.
+   */
+  interpret(data: VisionAPIResponse): ClothingClassification {
+    const response = data.responses[0] || {};
+    const labels = filterClothingLabels(response.labelAnnotations || []);
+    const objects = filterClothingLabels(
+      (response.localizedObjectAnnotations || []).map(object => ({ description: object.name, score: object.score })),
+      CLOTHING_OBJECTS,
+    );
+
+    if (labels.length === 0 && objects.length === 0) {
+      return notClothing(this.id, 0.1, 'No clothing detected by Vision API');
+    }
+
+    const category = categorizeLabels([...labels, ...objects]);
+    const dominant = (response.imagePropertiesAnnotation?.dominantColors?.colors || []).slice(0, 3);
+    const named = dominant
+      .map(({ color, score }) => ({
+        name: nearestColorName({ r: color.red || 0, g: color.green || 0, b: color.blue || 0 }).name,
+        score,
+      }))
+      .filter((color, index, array) => array.findIndex(other => other.name === color.name) === index);
+    const colors = named
+      .map(color => color.name)
+      .filter(color => !BACKGROUND_COLORS.includes(color) || named.length === 1);
+
+    const scores = [...labels, ...objects].map(label => label.score);
+    const confidence = Math.min(0.95, Math.max(0.3, scores.reduce((a, b) => a + b, 0) / scores.length));
+
+    return {
+      isClothing: true,
+      category: category.category,
+      subcategory: category.subcategory,
+      style: styleFromLabels(labels),
+      colors: colors.length > 0 ? colors : ['neutral'],
+      patterns: [],
+      materials: [],
+      confidence,
+      confidences: {
+        clothing: Math.max(...scores),
+        category: category.confidence,
+        colors: named.length > 0 ? Math.min(1, named.reduce((sum, color) => sum + color.score, 0)) : 0,
+        patterns: 0,
+        materials: 0,
+      },
+      reasoning: `Vision API detected ${labels.length} clothing labels and ${objects.length} clothing objects - enhanced with background filtering`,
+      provider: this.id,
+    };
+  }
+}
+
+// On-device model
+
+/**
+ * A locally bundled image model. Builds that ship one register it with
+ * `registerOnDeviceClothingModel`; the model owns its own preprocessing.
+ */
+export interface OnDeviceClothingModel {
+  readonly name: string;
+  readonly version: string;
+  load(): Promise<void>;
+  predict(input: ClassifierInput): Promise<{
+    labels: ScoredLabel[];
+    // Colour names, strongest first, if the model predicts them
+    colors?: string[];
+    patterns?: ScoredLabel[];
+    materials?: ScoredLabel[];
+  }>;
+}
+
+let onDeviceModel: OnDeviceClothingModel | null = null;
+
+export function registerOnDeviceClothingModel(model: OnDeviceClothingModel | null): void {
+  onDeviceModel = model;
+}
+
+export class OnDeviceClassifier implements ClothingClassifier {
+  readonly id = 'on-device';
+  readonly label = 'On-device model';
+  private loading: Promise<void> | null = null;
+  private loadedModel: OnDeviceClothingModel | null = null;
+  // Why the classifier is unavailable, for diagnostics
+  unavailableReason: string | null = null;
+
+  constructor(private readonly model: OnDeviceClothingModel | null = null) {}
+
+  async isAvailable(): Promise<boolean> {
+    const model = this.model ?? onDeviceModel;
+    if (!model) {
+      this.unavailableReason = 'No on-device clothing model is bundled with this build';
+      return false;
+    }
+    if (this.loadedModel !== model) {
+      this.loadedModel = model;
+      this.loading = model.load();
+    }
+    try {
+      await this.loading;
+      this.unavailableReason = null;
+      return true;
+    } catch (error) {
+      this.unavailableReason = `${model.name} failed to load: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return false;
+    }
+  }
+
+  async classify(input: ClassifierInput): Promise<ClothingClassification> {
+    if (!(await this.isAvailable()) || !this.loadedModel) {
+      throw new ClassifierError(this.unavailableReason || 'On-device model unavailable', this.id);
+    }
+
+    const model = this.loadedModel;
+    const prediction = await model.predict(input);
+    const labels = filterClothingLabels(prediction.labels);
+    if (labels.length === 0) {
+      const top = Math.max(0, ...prediction.labels.map(label => label.score));
+      return notClothing(this.id, top, `${model.name} found no clothing`);
+    }
+
+    const category = categorizeLabels(labels);
+    const keep = (scored: ScoredLabel[] = []) => scored.filter(item => item.score > 0.5);
+    const patterns = keep(prediction.patterns);
+    const materials = keep(prediction.materials);
+    const topScore = (scored: ScoredLabel[]) => (scored.length > 0 ? Math.max(...scored.map(item => item.score)) : 0);
+
+    return {
+      isClothing: true,
+      category: category.category,
+      subcategory: category.subcategory,
+      style: styleFromLabels(labels),
+      colors: prediction.colors?.length ? prediction.colors.slice(0, 3) : [],
+      patterns: patterns.map(item => item.description),
+      materials: materials.map(item => item.description),
+      confidence: category.confidence,
+      confidences: {
+        clothing: topScore(labels),
+        category: category.confidence,
+        colors: prediction.colors?.length ? category.confidence : 0,
+        patterns: topScore(patterns),
+        materials: topScore(materials),
+      },
+      reasoning: `${model.name} ${model.version} classified this as ${category.subcategory || category.category}`,
+      provider: this.id,
+    };
+  }
+}
+
+// Selection per environment
+
+export type ClassifierProviderId = 'vision' | 'on-device' | 'heuristic';
+
+const CLASSIFIER_PROVIDER_IDS: ClassifierProviderId[] = ['vision', 'on-device', 'heuristic'];
+
+// A misspelt provider should fail loudly rather than quietly drop out of the chain
+function toProviderId(id: string): ClassifierProviderId {
+  if (!CLASSIFIER_PROVIDER_IDS.includes(id as ClassifierProviderId)) {
+    throw new ClassifierError(
+      `Unknown clothing classifier provider "${id}"; expected one of ${CLASSIFIER_PROVIDER_IDS.join(', ')}`,
+      id,
+    );
+  }
+  return id as ClassifierProviderId;
+}
+
+export interface ClothingClassifierConfig {
+  // Providers to use, in chain order
+  providers?: ClassifierProviderId[];
+  mode?: 'chain' | 'ensemble';
+  // Chain mode: accept the first answer at or above this calibrated confidence
+  acceptAt?: number;
+  vision?: VisionHttpClassifierOptions;
+  calibration?: Partial<Record<ClassifierProviderId, CalibrationCurve>>;
+  weights?: Partial<Record<ClassifierProviderId, number>>;
+}
+
+export const DEFAULT_CLASSIFIER_CONFIG: Required<Pick<ClothingClassifierConfig, 'providers' | 'mode' | 'acceptAt'>> = {
+  providers: ['vision', 'on-device', 'heuristic'],
+  mode: 'chain',
+  acceptAt: 0.5,
+};
+
+/**
+ * Build the classifier for an environment. The heuristic provider is passed
+ * in because it lives with the analyzer's image heuristics; a Vision
+ * provider is only created when an endpoint is configured.
+ */
+export function createClothingClassifier(
+  config: ClothingClassifierConfig,
+  heuristic: ClothingClassifier,
+): ClothingClassifier {
+  const providers = (config.providers ?? DEFAULT_CLASSIFIER_CONFIG.providers).map(toProviderId);
+  const mode = config.mode ?? DEFAULT_CLASSIFIER_CONFIG.mode;
+  const acceptAt = config.acceptAt ?? DEFAULT_CLASSIFIER_CONFIG.acceptAt;
+
+  const members = providers.flatMap((id): Array<{ id: ClassifierProviderId; classifier: ClothingClassifier }> => {
+    if (id === 'vision') return config.vision ? [{ id, classifier: new VisionHttpClassifier(config.vision) }] : [];
+    if (id === 'on-device') return [{ id, classifier: new OnDeviceClassifier() }];
+    return [{ id, classifier: heuristic }];
+  });
+
+  const calibrated = members.map(({ id, classifier }) => {
+    const curve = config.calibration?.[id];
+    return { id, classifier: curve ? new CalibratedClassifier(classifier, curve) : classifier };
+  });
+
+  if (mode === 'ensemble') {
+    return new EnsembleClassifier(
+      calibrated.map(({ id, classifier }) => ({ classifier, weight: config.weights?.[id] ?? 1 })),
+    );
+  }
+  return new ChainClassifier(calibrated.map(({ classifier }) => classifier), acceptAt);
+}
+
+/**
+ * Environment defaults: VITE_CLOTHING_CLASSIFIERS lists providers in order
+ * (e.g. "on-device,heuristic"), VITE_CLOTHING_CLASSIFIER_MODE picks chain or
+ * ensemble and VITE_VISION_ENDPOINT points at a Vision-compatible service.
+ * Unset variables come back undefined and fall through to the defaults.
+ */
+export function getEnvironmentClassifierConfig(): ClothingClassifierConfig {
+  const env = import.meta.env || {};
+  const providers = env.VITE_CLOTHING_CLASSIFIERS
+    ? String(env.VITE_CLOTHING_CLASSIFIERS).split(',').map(id => id.trim()).filter(Boolean).map(toProviderId)
+    : undefined;
+
+  return {
+    providers,
+    mode: env.VITE_CLOTHING_CLASSIFIER_MODE === 'ensemble' ? 'ensemble' : undefined,
+    vision: env.VITE_VISION_ENDPOINT ? { endpoint: String(env.VITE_VISION_ENDPOINT) } : undefined,
+  };
+}
+
+// Fixture evaluation
+
+export interface ClothingFixture {
+  name: string;
+  input: ClassifierInput;
+  expected: {
+    isClothing?: boolean;
+    category: string;
+    subcategory?: string;
+    colors?: string[];
+  };
+}
+
+export interface ClassifierEvaluation {
+  provider: string;
+  total: number;
+  failed: string[];
+  categoryAccuracy: number;
+  // Share of expected colours found (by name) among the predicted ones
+  colorRecall: number;
+  // Gap between stated confidence and actual accuracy, weighted by bin size
+  expectedCalibrationError: number;
+  // Feed into fitCalibrationCurve to calibrate this provider
+  samples: Array<{ fixture: string; confidence: number; correct: boolean }>;
+  confusion: Record<string, Record<string, number>>;
+}
+
+/**
+ * Run a classifier over labelled fixtures. Errors count as misses rather
+ * than aborting the run, so one bad fixture doesn't hide the rest.
+ */
+export async function evaluateClothingClassifier(
+  classifier: ClothingClassifier,
+  fixtures: ClothingFixture[],
+): Promise<ClassifierEvaluation> {
+  const samples: ClassifierEvaluation['samples'] = [];
+  const confusion: ClassifierEvaluation['confusion'] = {};
+  const failed: string[] = [];
+  let colorHits = 0;
+  let colorExpected = 0;
+
+  for (const fixture of fixtures) {
+    const expectedCategory = fixture.expected.isClothing === false ? 'other' : fixture.expected.category;
+    let predicted = 'error';
+    try {
+      const result = await classifier.classify(fixture.input);
+      predicted = result.isClothing ? result.category : 'other';
+      samples.push({ fixture: fixture.name, confidence: result.confidence, correct: predicted === expectedCategory });
+
+      const expectedColors = fixture.expected.colors || [];
+      colorExpected += expectedColors.length;
+      colorHits += expectedColors.filter(color => result.colors.includes(color)).length;
+    } catch (error) {
+      failed.push(`${fixture.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      samples.push({ fixture: fixture.name, confidence: 0, correct: false });
+    }
+
+    confusion[expectedCategory] = confusion[expectedCategory] || {};
+    confusion[expectedCategory][predicted] = (confusion[expectedCategory][predicted] || 0) + 1;
+  }
+
+  const bins = new Map<number, { confidence: number; correct: number; count: number }>();
+  samples.forEach(sample => {
+    const key = Math.min(4, Math.floor(sample.confidence * 5));
+    const bin = bins.get(key) || { confidence: 0, correct: 0, count: 0 };
+    bin.confidence += sample.confidence;
+    bin.correct += sample.correct ? 1 : 0;
+    bin.count++;
+    bins.set(key, bin);
+  });
+  const calibrationError = Array.from(bins.values()).reduce(
+    (sum, bin) => sum + (bin.count / samples.length) * Math.abs(bin.confidence / bin.count - bin.correct / bin.count),
+    0,
+  );
+
+  return {
+    provider: classifier.id,
+    total: fixtures.length,
+    failed,
+    categoryAccuracy: samples.length > 0 ? samples.filter(sample => sample.correct).length / samples.length : 0,
+    colorRecall: colorExpected > 0 ? colorHits / colorExpected : 1,
+    expectedCalibrationError: samples.length > 0 ? calibrationError : 0,
+    samples,
+    confusion,
+  };
+}
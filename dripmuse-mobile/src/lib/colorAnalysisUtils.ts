@@ -5,7 +5,7 @@
  * to prevent HMR issues in UI components
  */
 
-import { accurateColorPaletteService, type AccurateColorAnalysis } from "./accurateColorPaletteService";
+import { accurateColorPaletteService, type AccurateColorAnalysis, type MultiPhotoColorAnalysis } from "./accurateColorPaletteService";
 import { enhancedFacialFeatureAnalysis, type EnhancedFacialFeatureColors } from "./enhancedFacialFeatureAnalysis";
 import { colorExtractionService, type ExtractedPalette } from "./colorExtractionService";
 
@@ -17,6 +17,14 @@ export async function analyzeUserColors(imageInput: string | File | Blob): Promi
   return accurateColorPaletteService.analyzeUserColors(imageInput);
 }
 
+/**
+ * Combined analysis of several photos of the same person
+ * Rejects photos that disagree and reports how sure the season is
+ */
+export async function analyzeUserPhotos(images: Array<string | File | Blob>): Promise<MultiPhotoColorAnalysis> {
+  return accurateColorPaletteService.analyzeUserPhotos(images);
+}
+
 /**
  * Enhanced facial feature analysis
  * Better detection of light features and diverse characteristics
@@ -84,4 +92,4 @@ export function getAccuracyDescription(confidence: number): string {
 }
 
 // Re-export types for convenience
-export type { AccurateColorAnalysis, EnhancedFacialFeatureColors, ExtractedPalette };
+export type { AccurateColorAnalysis, MultiPhotoColorAnalysis, EnhancedFacialFeatureColors, ExtractedPalette };
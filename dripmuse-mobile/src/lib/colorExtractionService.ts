@@ -14,7 +14,25 @@ import * as faceapi from "face-api.js";
 import { extractColors } from "extract-colors";
 import SmartCrop from "smartcrop";
 import { enhancedFacialFeatureAnalysis, type EnhancedFacialFeatureColors } from "./enhancedFacialFeatureAnalysis";
-import { faceApiInitializer } from './faceApiInitializer';
+import { loadCapability } from './modelLoader';
+import {
+  contrastRatio,
+  deltaE76,
+  deltaE2000,
+  hexToLab,
+  hexToRgb,
+  type Lab,
+  labToRgb,
+  rgbToHex,
+  rgbToHsl,
+  rgbToLab,
+} from './colorScience';
+import {
+  estimateIlluminant,
+  whiteBalanceImageData,
+  type WhiteBalanceEstimate,
+  type WhiteBalanceOptions,
+} from './whiteBalance';
 
 export interface ExtractedPalette {
   colors: string[]; // Hex color codes
@@ -30,6 +48,7 @@ export interface ExtractedPalette {
     colorTemperature: "warm" | "cool" | "neutral";
     colorSeason: "spring" | "summer" | "autumn" | "winter" | "neutral";
     enhancedFeatures?: EnhancedFacialFeatureColors;
+    whiteBalance?: WhiteBalanceEstimate;
   };
 }
 
@@ -40,6 +59,7 @@ export interface ColorExtractionOptions {
   minColorDistance?: number; // Minimum perceptual distance between colors (default: 15)
   includeSkinTones?: boolean; // Include skin tone analysis (default: true)
   validateAccessibility?: boolean; // Check color accessibility (default: true)
+  whiteBalance?: WhiteBalanceOptions; // Illuminant correction before extraction (default: auto)
 }
 
 interface ColorPoint {
@@ -61,7 +81,6 @@ interface SkinToneRange {
 
 class ColorExtractionService {
   private faceApiInitialized = false;
-  private readonly modelBasePath = "/models";
   private readonly skinToneRanges: SkinToneRange[] = [
     {
       name: "Very Fair",
@@ -101,14 +120,16 @@ class ColorExtractionService {
   ];
 
   /**
-   * Initialize face-api.js models (disabled to prevent errors)
+   * Load the face detector; only the face box is needed here, not landmarks
    */
   async initializeFaceAPI(): Promise<void> {
     if (this.faceApiInitialized) return;
 
-    // Skip face-api initialization to prevent model loading errors
-    this.faceApiInitialized = false;
-    console.log('ℹ️ Color extraction service using advanced algorithms without face detection');
+    const status = await loadCapability('detector');
+    this.faceApiInitialized = status.state === 'ready';
+    if (!this.faceApiInitialized) {
+      console.log(`ℹ️ Color extraction service using advanced algorithms without face detection (${status.reason})`);
+    }
   }
 
   /**
@@ -132,17 +153,24 @@ class ColorExtractionService {
       let croppedImage = img;
       let faceDetected = false;
 
+      // Estimate the light once from the whole photo; every stage below corrects with it
+      const whiteBalance = this.estimateWhiteBalance(img, options.whiteBalance);
+      const whiteBalanceOptions: WhiteBalanceOptions = { ...options.whiteBalance, estimate: whiteBalance };
+
       // Always use enhanced facial feature analysis (works without face-api models)
       let enhancedFeatures: EnhancedFacialFeatureColors | undefined;
       try {
         console.log('🎨 Using enhanced facial feature analysis for better color accuracy...');
-        enhancedFeatures = await enhancedFacialFeatureAnalysis.detectFacialFeatureColors(imageInput);
+        enhancedFeatures = await enhancedFacialFeatureAnalysis.detectFacialFeatureColors(imageInput, {
+          whiteBalance: whiteBalanceOptions,
+        });
 
         if (enhancedFeatures.detectedFeatures && enhancedFeatures.overallConfidence > 0.5) {
           faceDetected = true;
           console.log(`✅ Enhanced analysis successful with ${Math.round(enhancedFeatures.overallConfidence * 100)}% confidence`);
 
           // Try to get face box if face-api is available
+          await this.initializeFaceAPI();
           if (this.faceApiInitialized) {
             const faceBox = await this.detectFace(img);
             if (faceBox) {
@@ -184,6 +212,7 @@ class ColorExtractionService {
           quality,
           minColorDistance,
           includeSkinTones: false, // We already have facial feature colors
+          whiteBalance,
         });
 
         // Combine facial features with complementary colors
@@ -202,6 +231,7 @@ class ColorExtractionService {
           quality,
           minColorDistance,
           includeSkinTones,
+          whiteBalance,
         });
 
         confidence = this.calculateAdvancedConfidence(
@@ -245,6 +275,7 @@ class ColorExtractionService {
           colorTemperature,
           colorSeason,
           enhancedFeatures,
+          whiteBalance,
         },
       };
 
@@ -385,6 +416,31 @@ class ColorExtractionService {
     }
   }
 
+  /**
+   * Estimate the scene illuminant from the full image
+   */
+  private estimateWhiteBalance(
+    img: HTMLImageElement,
+    options: WhiteBalanceOptions = {},
+  ): WhiteBalanceEstimate {
+    if (options.estimate) return options.estimate;
+
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d")!;
+    canvas.width = img.width;
+    canvas.height = img.height;
+    ctx.drawImage(img, 0, 0);
+
+    const estimate = estimateIlluminant(
+      ctx.getImageData(0, 0, canvas.width, canvas.height).data,
+      options,
+    );
+    console.log(
+      `💡 Estimated light: ${estimate.cct ?? "unknown"}K (${estimate.cast}), correction ${Math.round(estimate.strength * 100)}%`,
+    );
+    return estimate;
+  }
+
   /**
    * Convert canvas to image element
    */
@@ -408,6 +464,7 @@ class ColorExtractionService {
       quality: number;
       minColorDistance: number;
       includeSkinTones: boolean;
+      whiteBalance: WhiteBalanceEstimate;
     },
   ): Promise<string[]> {
     try {
@@ -418,13 +475,11 @@ class ColorExtractionService {
       ctx.drawImage(img, 0, 0);
 
       const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      whiteBalanceImageData(imageData, { estimate: options.whiteBalance });
       const pixels = this.samplePixels(imageData, options.quality);
       
-      // Convert to CIELAB color space
-      const labPixels = pixels.map(pixel => ({
-        ...pixel,
-        ...this.rgbToLab(pixel.r, pixel.g, pixel.b)
-      }));
+      // Sampled pixels already carry their CIELAB values
+      const labPixels = pixels;
 
       // K-means clustering for better color grouping
       const clusters = this.kMeansClustering(labPixels, options.colorCount);
@@ -469,12 +524,12 @@ class ColorExtractionService {
 
       // Skip transparent or very dark/light pixels
       if (this.isValidColor(r, g, b)) {
-        const lab = this.rgbToLab(r, g, b);
+        const lab = rgbToLab(r, g, b);
         pixels.push({
           r, g, b,
           l: lab.l, a: lab.a, bLab: lab.b,
           count: 1,
-          hex: this.rgbToHex(r, g, b)
+          hex: rgbToHex(r, g, b)
         });
       }
     }
@@ -499,7 +554,7 @@ class ColorExtractionService {
       
       pixels.forEach(pixel => {
         const distances = centroids.map(centroid => 
-          this.calculateLabDistance(pixel, centroid)
+          this.clusterDistance(pixel, centroid)
         );
         const nearestCentroid = distances.indexOf(Math.min(...distances));
         clusters[nearestCentroid].push(pixel);
@@ -513,18 +568,18 @@ class ColorExtractionService {
         const avgA = cluster.reduce((sum, p) => sum + p.a, 0) / cluster.length;
         const avgBLab = cluster.reduce((sum, p) => sum + p.bLab, 0) / cluster.length;
 
-        const rgb = this.labToRgb(avgL, avgA, avgBLab);
+        const rgb = labToRgb(avgL, avgA, avgBLab);
         return {
           r: rgb.r, g: rgb.g, b: rgb.b,
           l: avgL, a: avgA, bLab: avgBLab,
           count: cluster.length,
-          hex: this.rgbToHex(rgb.r, rgb.g, rgb.b)
+          hex: rgbToHex(rgb.r, rgb.g, rgb.b)
         };
       });
 
       // Check convergence
       const hasConverged = newCentroids.every((centroid, i) => 
-        this.calculateLabDistance(centroid, centroids[i]) < 1
+        this.clusterDistance(centroid, centroids[i]) < 1
       );
 
       if (hasConverged) break;
@@ -603,13 +658,13 @@ class ColorExtractionService {
     for (const color of colors) {
       const lab = { l: color.l, a: color.a, b: color.b };
       const complementaryLab = { l: lab.l, a: -lab.a, b: -lab.b };
-      const rgb = this.labToRgb(complementaryLab.l, complementaryLab.a, complementaryLab.b);
+      const rgb = labToRgb(complementaryLab.l, complementaryLab.a, complementaryLab.b);
       
       complementary.push({
         r: rgb.r, g: rgb.g, b: rgb.b,
         l: complementaryLab.l, a: complementaryLab.a, bLab: complementaryLab.b,
         count: 1,
-        hex: this.rgbToHex(rgb.r, rgb.g, rgb.b)
+        hex: rgbToHex(rgb.r, rgb.g, rgb.b)
       });
     }
 
@@ -617,105 +672,22 @@ class ColorExtractionService {
   }
 
   /**
-   * Calculate perceptual distance in CIELAB color space
+   * Perceptual (CIEDE2000) distance, for deciding whether colours differ
    */
   private calculateLabDistance(color1: ColorPoint, color2: ColorPoint): number {
-    const deltaL = color1.l - color2.l;
-    const deltaA = color1.a - color2.a;
-    const deltaB = color1.bLab - color2.bLab;
-
-    return Math.sqrt(deltaL * deltaL + deltaA * deltaA + deltaB * deltaB);
-  }
-
-  /**
-   * Convert RGB to CIELAB color space
-   */
-  private rgbToLab(r: number, g: number, blue: number): { l: number; a: number; b: number } {
-    // Convert RGB to XYZ
-    const xyz = this.rgbToXyz(r, g, blue);
-
-    // Convert XYZ to CIELAB
-    const xn = 0.95047, yn = 1.00000, zn = 1.08883; // D65 illuminant
-
-    const xr = this.xyzToLab(xyz.x / xn);
-    const yr = this.xyzToLab(xyz.y / yn);
-    const zr = this.xyzToLab(xyz.z / zn);
-
-    const l = 116 * yr - 16;
-    const a = 500 * (xr - yr);
-    const b = 200 * (yr - zr);
-
-    return { l, a, b };
-  }
-
-  /**
-   * Convert CIELAB to RGB
-   */
-  private labToRgb(l: number, a: number, bLab: number): { r: number; g: number; b: number } {
-    const xn = 0.95047, yn = 1.00000, zn = 1.08883;
-
-    const yr = (l + 16) / 116;
-    const xr = a / 500 + yr;
-    const zr = yr - bLab / 200;
-
-    const x = xn * this.labToXyz(xr);
-    const y = yn * this.labToXyz(yr);
-    const z = zn * this.labToXyz(zr);
-
-    return this.xyzToRgb(x, y, z);
-  }
-
-  /**
-   * Convert RGB to XYZ
-   */
-  private rgbToXyz(r: number, g: number, blue: number): { x: number; y: number; z: number } {
-    r = r / 255;
-    g = g / 255;
-    blue = blue / 255;
-
-    r = r > 0.04045 ? Math.pow((r + 0.055) / 1.055, 2.4) : r / 12.92;
-    g = g > 0.04045 ? Math.pow((g + 0.055) / 1.055, 2.4) : g / 12.92;
-    blue = blue > 0.04045 ? Math.pow((blue + 0.055) / 1.055, 2.4) : blue / 12.92;
-
-    const x = r * 0.4124 + g * 0.3576 + blue * 0.1805;
-    const y = r * 0.2126 + g * 0.7152 + blue * 0.0722;
-    const z = r * 0.0193 + g * 0.1192 + blue * 0.9505;
-
-    return { x, y, z };
-  }
-
-  /**
-   * Convert XYZ to RGB
-   */
-  private xyzToRgb(x: number, y: number, z: number): { r: number; g: number; b: number } {
-    const rCalc = x * 3.2406 + y * -1.5372 + z * -0.4986;
-    const gCalc = x * -0.9689 + y * 1.8758 + z * 0.0415;
-    const bCalc = x * 0.0557 + y * -0.2040 + z * 1.0570;
-
-    const rNorm = Math.max(0, Math.min(1, rCalc));
-    const gNorm = Math.max(0, Math.min(1, gCalc));
-    const bNorm = Math.max(0, Math.min(1, bCalc));
-
-    const rFinal = rNorm > 0.0031308 ? 1.055 * Math.pow(rNorm, 1/2.4) - 0.055 : 12.92 * rNorm;
-    const gFinal = gNorm > 0.0031308 ? 1.055 * Math.pow(gNorm, 1/2.4) - 0.055 : 12.92 * gNorm;
-    const bFinal = bNorm > 0.0031308 ? 1.055 * Math.pow(bNorm, 1/2.4) - 0.055 : 12.92 * bNorm;
-
-    return {
-      r: Math.round(rFinal * 255),
-      g: Math.round(gFinal * 255),
-      b: Math.round(bFinal * 255)
-    };
+    return deltaE2000(this.toLab(color1), this.toLab(color2));
   }
 
   /**
-   * Helper functions for CIELAB conversion
+   * Euclidean Lab distance, which is what k-means minimises when centroids
+   * are Lab means
    */
-  private xyzToLab(t: number): number {
-    return t > 0.008856 ? Math.pow(t, 1/3) : (7.787 * t) + (16 / 116);
+  private clusterDistance(color1: ColorPoint, color2: ColorPoint): number {
+    return deltaE76(this.toLab(color1), this.toLab(color2));
   }
 
-  private labToXyz(t: number): number {
-    return t > 0.206893 ? Math.pow(t, 3) : (t - 16 / 116) / 7.787;
+  private toLab(color: ColorPoint): Lab {
+    return { l: color.l, a: color.a, b: color.bLab };
   }
 
   /**
@@ -734,7 +706,7 @@ class ColorExtractionService {
     for (let i = 1; i < k; i++) {
       const distances = pixels.map(pixel => {
         const minDistance = Math.min(...centroids.map(centroid => 
-          this.calculateLabDistance(pixel, centroid)
+          this.clusterDistance(pixel, centroid)
         ));
         return { pixel, distance: minDistance };
       });
@@ -785,12 +757,12 @@ class ColorExtractionService {
       const avgA = group.reduce((sum, c) => sum + c.a, 0) / group.length;
       const avgBLab = group.reduce((sum, c) => sum + c.bLab, 0) / group.length;
 
-      const rgb = this.labToRgb(avgL, avgA, avgBLab);
+      const rgb = labToRgb(avgL, avgA, avgBLab);
       return {
         r: rgb.r, g: rgb.g, b: rgb.b,
         l: avgL, a: avgA, bLab: avgBLab,
         count: group.length,
-        hex: this.rgbToHex(rgb.r, rgb.g, rgb.b)
+        hex: rgbToHex(rgb.r, rgb.g, rgb.b)
       };
     });
   }
@@ -812,23 +784,13 @@ class ColorExtractionService {
     return brightness > 15 && brightness < 240; // Avoid very dark/light colors
   }
 
-  /**
-   * Convert RGB to hex
-   */
-  private rgbToHex(r: number, g: number, blue: number): string {
-    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${blue.toString(16).padStart(2, '0')}`.toUpperCase();
-  }
-
   /**
    * Analyze color harmony
    */
   private analyzeColorHarmony(colors: string[]): string {
     if (colors.length < 2) return "single-color";
     
-    const labColors = colors.map(hex => {
-      const rgb = this.hexToRgb(hex);
-      return this.rgbToLab(rgb.r, rgb.g, rgb.b);
-    });
+    const labColors = colors.map(hex => hexToLab(hex));
     
     // Check for monochromatic
     const avgL = labColors.reduce((sum, c) => sum + c.l, 0) / labColors.length;
@@ -880,41 +842,14 @@ class ColorExtractionService {
    * Calculate contrast ratio between two colors
    */
   private calculateContrast(color1: string, color2: string): number {
-    const rgb1 = this.hexToRgb(color1);
-    const rgb2 = this.hexToRgb(color2);
-    
-    const luminance1 = this.calculateLuminance(rgb1.r, rgb1.g, rgb1.b);
-    const luminance2 = this.calculateLuminance(rgb2.r, rgb2.g, rgb2.b);
-    
-    const lighter = Math.max(luminance1, luminance2);
-    const darker = Math.min(luminance1, luminance2);
-    
-    return (lighter + 0.05) / (darker + 0.05);
-  }
-
-  /**
-   * Calculate relative luminance
-   */
-  private calculateLuminance(r: number, g: number, b: number): number {
-    const rsRGB = r / 255;
-    const gsRGB = g / 255;
-    const bsRGB = b / 255;
-    
-    const rL = rsRGB <= 0.03928 ? rsRGB / 12.92 : Math.pow((rsRGB + 0.055) / 1.055, 2.4);
-    const gL = gsRGB <= 0.03928 ? gsRGB / 12.92 : Math.pow((gsRGB + 0.055) / 1.055, 2.4);
-    const bL = bsRGB <= 0.03928 ? bsRGB / 12.92 : Math.pow((bsRGB + 0.055) / 1.055, 2.4);
-    
-    return 0.2126 * rL + 0.7152 * gL + 0.0722 * bL;
+    return contrastRatio(hexToRgb(color1), hexToRgb(color2));
   }
 
   /**
    * Analyze color temperature
    */
   private analyzeColorTemperature(colors: string[]): "warm" | "cool" | "neutral" {
-    const labColors = colors.map(hex => {
-      const rgb = this.hexToRgb(hex);
-      return this.rgbToLab(rgb.r, rgb.g, rgb.b);
-    });
+    const labColors = colors.map(hex => hexToLab(hex));
     
     const avgA = labColors.reduce((sum, c) => sum + c.a, 0) / labColors.length;
     const avgB = labColors.reduce((sum, c) => sum + c.b, 0) / labColors.length;
@@ -928,10 +863,7 @@ class ColorExtractionService {
    * Analyze seasonal colors
    */
   private analyzeSeasonalColors(colors: string[]): "spring" | "summer" | "autumn" | "winter" | "neutral" {
-    const labColors = colors.map(hex => {
-      const rgb = this.hexToRgb(hex);
-      return this.rgbToLab(rgb.r, rgb.g, rgb.b);
-    });
+    const labColors = colors.map(hex => hexToLab(hex));
     
     const avgL = labColors.reduce((sum, c) => sum + c.l, 0) / labColors.length;
     const avgA = labColors.reduce((sum, c) => sum + c.a, 0) / labColors.length;
@@ -963,16 +895,10 @@ class ColorExtractionService {
       skinTones.push(enhancedFeatures.skinTone.color);
 
       // Also add similar tones from the general palette
-      const targetRgb = this.hexToRgb(enhancedFeatures.skinTone.color);
-      const targetLab = this.rgbToLab(targetRgb.r, targetRgb.g, targetRgb.b);
+      const targetLab = hexToLab(enhancedFeatures.skinTone.color);
 
       for (const color of colors) {
-        const rgb = this.hexToRgb(color);
-        const lab = this.rgbToLab(rgb.r, rgb.g, rgb.b);
-        const distance = this.calculateLabDistance(
-          { l: targetLab.l, a: targetLab.a, b: targetLab.b },
-          { l: lab.l, a: lab.a, b: lab.b }
-        );
+        const distance = deltaE2000(targetLab, hexToLab(color));
 
         // Include colors that are similar to the detected skin tone
         if (distance < 25 && !skinTones.includes(color)) {
@@ -982,8 +908,8 @@ class ColorExtractionService {
     } else {
       // Fallback to traditional detection
       for (const color of colors) {
-        const rgb = this.hexToRgb(color);
-        const lab = this.rgbToLab(rgb.r, rgb.g, rgb.b);
+        const rgb = hexToRgb(color);
+        const lab = rgbToLab(rgb.r, rgb.g, rgb.b);
 
         for (const range of this.skinToneRanges) {
           if (this.isInSkinToneRange({ r: rgb.r, g: rgb.g, b: rgb.b, l: lab.l, a: lab.a, bLab: lab.b, count: 1, hex: color }, range)) {
@@ -1028,10 +954,7 @@ class ColorExtractionService {
     else if (imageArea > 100000) confidence += 0.05; // Medium resolution
     
     // Color diversity bonus
-    const labColors = colors.map(hex => {
-      const rgb = this.hexToRgb(hex);
-      return this.rgbToLab(rgb.r, rgb.g, rgb.b);
-    });
+    const labColors = colors.map(hex => hexToLab(hex));
     
     const lVariance = this.calculateVariance(labColors.map(c => c.l));
     const aVariance = this.calculateVariance(labColors.map(c => c.a));
@@ -1050,18 +973,6 @@ class ColorExtractionService {
     return values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
   }
 
-  /**
-   * Convert hex to RGB
-   */
-  private hexToRgb(hex: string): { r: number; g: number; b: number } {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16)
-    } : { r: 0, g: 0, b: 0 };
-  }
-
   /**
    * Get fallback colors
    */
@@ -1114,8 +1025,8 @@ class ColorExtractionService {
     }
 
     const stats = colors.map((hex) => {
-      const rgb = this.hexToRgb(hex);
-      const hsl = this.rgbToHsl(rgb.r, rgb.g, rgb.b);
+      const rgb = hexToRgb(hex);
+      const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
       return { ...rgb, ...hsl };
     });
 
@@ -1141,56 +1052,8 @@ class ColorExtractionService {
 
 
 
-  /**
-   * Utility: Convert RGB to HSL
-   */
-  private rgbToHsl(
-    r: number,
-    g: number,
-    b: number,
-  ): { h: number; s: number; l: number } {
-    r /= 255;
-    g /= 255;
-    b /= 255;
-
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    let h = 0,
-      s = 0,
-      l = (max + min) / 2;
-
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-      switch (max) {
-        case r:
-          h = (g - b) / d + (g < b ? 6 : 0);
-          break;
-        case g:
-          h = (b - r) / d + 2;
-          break;
-        case b:
-          h = (r - g) / d + 4;
-          break;
-      }
-      h /= 6;
-    }
-
-    return {
-      h: Math.round(h * 360),
-      s: Math.round(s * 100) / 100,
-      l: Math.round(l * 100) / 100,
-    };
-  }
 }
 
 // Export singleton instance
 export const colorExtractionService = new ColorExtractionService();
 
-// Initialize face detection models on module load
-if (typeof window !== "undefined") {
-  colorExtractionService.initializeFaceAPI().catch((error) => {
-    console.warn("Face detection initialization failed:", error);
-  });
-}
@@ -0,0 +1,681 @@
+/**
+ * Colour Names
+ *
+ * The dictionary every screen and engine uses to turn wardrobe colour tags
+ * into colours and back. Resolving a name is forgiving: case, hyphens,
+ * "grey"/"gray", small typos, extra words ("dusty rose", "light wash
+ * denim") and lightness/saturation modifiers ("pale sage") all work.
+ */
+
+import {
+  deltaE2000,
+  hexToLab,
+  hexToRgb,
+  type Lab,
+  oklabToRgb,
+  parseHex,
+  type Rgb,
+  rgbToHex,
+  rgbToOklab,
+  SAME_COLOR_DELTA_E,
+} from './colorScience';
+
+export type ColorFamily =
+  | 'red'
+  | 'pink'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'blue'
+  | 'purple'
+  | 'brown'
+  | 'neutral'
+  | 'metallic';
+
+export interface NamedColor {
+  name: string;
+  hex: string;
+  lab: Lab;
+  family: ColorFamily;
+  // One of the ~25 everyday names; used when naming raw pixels
+  basic: boolean;
+}
+
+export interface ColorNameMatch extends NamedColor {
+  // False when the input needed typo correction or dropped words
+  exact: boolean;
+}
+
+// [name, hex, family]; names are lowercase, space separated, "gray" spelling
+const COLOR_TABLE: Array<[string, string, ColorFamily]> = [
+  // Neutrals
+  ['black', '#000000', 'neutral'],
+  ['jet black', '#0A0A0A', 'neutral'],
+  ['onyx', '#353839', 'neutral'],
+  ['ink', '#1B1F2A', 'neutral'],
+  ['off black', '#1C1C1C', 'neutral'],
+  ['charcoal', '#36454F', 'neutral'],
+  ['graphite', '#41424C', 'neutral'],
+  ['slate', '#708090', 'neutral'],
+  ['slate gray', '#6D7B8D', 'neutral'],
+  ['gunmetal', '#2A3439', 'neutral'],
+  ['dark gray', '#555555', 'neutral'],
+  ['gray', '#808080', 'neutral'],
+  ['heather gray', '#9C9A99', 'neutral'],
+  ['ash', '#B2BEB5', 'neutral'],
+  ['dove gray', '#A9A9A4', 'neutral'],
+  ['light gray', '#D3D3D3', 'neutral'],
+  ['pebble', '#C2BCB1', 'neutral'],
+  ['stone', '#928E85', 'neutral'],
+  ['greige', '#B5AC9F', 'neutral'],
+  ['taupe', '#8B8589', 'neutral'],
+  ['mushroom', '#BDACA3', 'neutral'],
+  ['oatmeal', '#D8CBB2', 'neutral'],
+  ['oat', '#DFD3BC', 'neutral'],
+  ['sand', '#C2B280', 'neutral'],
+  ['beige', '#F5F5DC', 'neutral'],
+  ['ecru', '#E3DAC9', 'neutral'],
+  ['bone', '#E3DAC9', 'neutral'],
+  ['linen', '#FAF0E6', 'neutral'],
+  ['parchment', '#F1E9D2', 'neutral'],
+  ['cream', '#FFFDD0', 'neutral'],
+  ['vanilla', '#F3E5AB', 'neutral'],
+  ['ivory', '#FFFFF0', 'neutral'],
+  ['eggshell', '#F0EAD6', 'neutral'],
+  ['off white', '#FAF9F6', 'neutral'],
+  ['alabaster', '#EDEADE', 'neutral'],
+  ['snow', '#FFFAFA', 'neutral'],
+  ['optic white', '#FDFEFE', 'neutral'],
+  ['white', '#FFFFFF', 'neutral'],
+  ['nude', '#E3BC9A', 'neutral'],
+  ['khaki', '#C3B091', 'neutral'],
+  ['stone khaki', '#B8AD8A', 'neutral'],
+  ['putty', '#BFB39B', 'neutral'],
+  ['fawn', '#E5AA70', 'neutral'],
+
+  // Metallics
+  ['silver', '#C0C0C0', 'metallic'],
+  ['platinum', '#E5E4E2', 'metallic'],
+  ['pewter', '#8E9196', 'metallic'],
+  ['gold', '#D4AF37', 'metallic'],
+  ['rose gold', '#B76E79', 'metallic'],
+  ['champagne gold', '#D4C4A8', 'metallic'],
+  ['bronze', '#CD7F32', 'metallic'],
+  ['copper', '#B87333', 'metallic'],
+  ['brass', '#B5A642', 'metallic'],
+  ['gunmetal gray', '#53565A', 'metallic'],
+
+  // Browns
+  ['brown', '#8B4513', 'brown'],
+  ['chocolate', '#5C3317', 'brown'],
+  ['dark chocolate', '#3D1C02', 'brown'],
+  ['espresso', '#4B3621', 'brown'],
+  ['coffee', '#6F4E37', 'brown'],
+  ['mocha', '#967969', 'brown'],
+  ['cocoa', '#875F42', 'brown'],
+  ['mahogany', '#C04000', 'brown'],
+  ['chestnut', '#954535', 'brown'],
+  ['walnut', '#773F1A', 'brown'],
+  ['umber', '#635147', 'brown'],
+  ['sepia', '#704214', 'brown'],
+  ['cognac', '#9A463D', 'brown'],
+  ['saddle brown', '#8B4513', 'brown'],
+  ['tobacco', '#71563B', 'brown'],
+  ['tan', '#D2B48C', 'brown'],
+  ['camel', '#C19A6B', 'brown'],
+  ['caramel', '#AF6F09', 'brown'],
+  ['toffee', '#A0522D', 'brown'],
+  ['cinnamon', '#D2691E', 'brown'],
+  ['hazelnut', '#A67B5B', 'brown'],
+  ['chestnut brown', '#6D3B1F', 'brown'],
+  ['rust', '#B7410E', 'brown'],
+  ['sienna', '#A0522D', 'brown'],
+  ['burnt sienna', '#E97451', 'brown'],
+  ['terracotta', '#E2725B', 'brown'],
+  ['clay', '#B66A50', 'brown'],
+  ['brick', '#CB4154', 'brown'],
+  ['sepia brown', '#5E4B3C', 'brown'],
+  ['bronze brown', '#7B5B3A', 'brown'],
+  ['desert', '#C19A6B', 'brown'],
+  ['biscuit', '#FFE4C4', 'brown'],
+  ['wheat', '#F5DEB3', 'brown'],
+  ['latte', '#C5A582', 'brown'],
+  ['cappuccino', '#A87B55', 'brown'],
+  ['mink', '#8A7563', 'brown'],
+  ['truffle', '#5A4639', 'brown'],
+  ['cedar', '#A0522D', 'brown'],
+  ['leather', '#906A54', 'brown'],
+  ['cognac leather', '#834A2B', 'brown'],
+  ['suede', '#A47551', 'brown'],
+  ['nutmeg', '#80422C', 'brown'],
+
+  // Reds
+  ['red', '#FF0000', 'red'],
+  ['true red', '#BF1932', 'red'],
+  ['scarlet', '#FF2400', 'red'],
+  ['crimson', '#DC143C', 'red'],
+  ['cherry', '#DE3163', 'red'],
+  ['cherry red', '#D2042D', 'red'],
+  ['fire engine red', '#CE2029', 'red'],
+  ['tomato', '#FF6347', 'red'],
+  ['poppy', '#E35335', 'red'],
+  ['cardinal', '#C41E3A', 'red'],
+  ['ruby', '#E0115F', 'red'],
+  ['garnet', '#733635', 'red'],
+  ['carmine', '#960018', 'red'],
+  ['vermilion', '#E34234', 'red'],
+  ['brick red', '#CB4154', 'red'],
+  ['blood red', '#8A0303', 'red'],
+  ['oxblood', '#4A0000', 'red'],
+  ['burgundy', '#800020', 'red'],
+  ['maroon', '#800000', 'red'],
+  ['wine', '#722F37', 'red'],
+  ['merlot', '#73343A', 'red'],
+  ['bordeaux', '#5C0120', 'red'],
+  ['claret', '#7F1734', 'red'],
+  ['cranberry', '#9F000F', 'red'],
+  ['raspberry', '#E30B5C', 'red'],
+  ['rosewood', '#65000B', 'red'],
+  ['red wine', '#8C0000', 'red'],
+  ['cinnabar', '#E44D2E', 'red'],
+  ['lipstick red', '#C0022F', 'red'],
+  ['candy apple red', '#FF0800', 'red'],
+  ['currant', '#6B2737', 'red'],
+
+  // Pinks
+  ['pink', '#FFC0CB', 'pink'],
+  ['light pink', '#FFB6C1', 'pink'],
+  ['baby pink', '#F4C2C2', 'pink'],
+  ['blush', '#DE5D83', 'pink'],
+  ['blush pink', '#FEC5E5', 'pink'],
+  ['ballet pink', '#F2CFDC', 'pink'],
+  ['powder pink', '#FFB2D0', 'pink'],
+  ['rose', '#FF007F', 'pink'],
+  ['dusty rose', '#DCAE96', 'pink'],
+  ['dusty pink', '#D8A5A5', 'pink'],
+  ['old rose', '#C08081', 'pink'],
+  ['tea rose', '#F4C2C2', 'pink'],
+  ['rosebud', '#CC8899', 'pink'],
+  ['mauve pink', '#E0B0B7', 'pink'],
+  ['hot pink', '#FF69B4', 'pink'],
+  ['deep pink', '#FF1493', 'pink'],
+  ['bubblegum', '#FFC1CC', 'pink'],
+  ['flamingo', '#FC8EAC', 'pink'],
+  ['carnation', '#FFA6C9', 'pink'],
+  ['salmon', '#FA8072', 'pink'],
+  ['salmon pink', '#FF91A4', 'pink'],
+  ['coral pink', '#F88379', 'pink'],
+  ['shell pink', '#FFD1DC', 'pink'],
+  ['millennial pink', '#F3CFC6', 'pink'],
+  ['fuchsia', '#FF00FF', 'pink'],
+  ['magenta', '#FF0090', 'pink'],
+  ['cerise', '#DE3163', 'pink'],
+  ['watermelon', '#FC6C85', 'pink'],
+  ['petal', '#F5C3C2', 'pink'],
+  ['peony', '#E2A1B5', 'pink'],
+  ['berry', '#8E3A59', 'pink'],
+  ['strawberry', '#FC5A8D', 'pink'],
+  ['candy pink', '#E4717A', 'pink'],
+  ['neon pink', '#FF6EC7', 'pink'],
+  ['orchid pink', '#F2BDCD', 'pink'],
+
+  // Oranges
+  ['orange', '#FFA500', 'orange'],
+  ['burnt orange', '#CC5500', 'orange'],
+  ['dark orange', '#FF8C00', 'orange'],
+  ['tangerine', '#F28500', 'orange'],
+  ['mandarin', '#F37A48', 'orange'],
+  ['pumpkin', '#FF7518', 'orange'],
+  ['persimmon', '#EC5800', 'orange'],
+  ['papaya', '#FFEFD5', 'orange'],
+  ['apricot', '#FBCEB1', 'orange'],
+  ['peach', '#FFCBA4', 'orange'],
+  ['peach puff', '#FFDAB9', 'orange'],
+  ['melon', '#FEBAAD', 'orange'],
+  ['cantaloupe', '#FFA62F', 'orange'],
+  ['coral', '#FF7F50', 'orange'],
+  ['living coral', '#FF6F61', 'orange'],
+  ['flame', '#E25822', 'orange'],
+  ['paprika', '#8D0226', 'orange'],
+  ['copper orange', '#C36241', 'orange'],
+  ['marigold', '#EAA221', 'orange'],
+  ['amber', '#FFBF00', 'orange'],
+  ['ginger', '#B06500', 'orange'],
+  ['carrot', '#ED9121', 'orange'],
+  ['neon orange', '#FF5F1F', 'orange'],
+  ['sunset', '#FAD6A5', 'orange'],
+  ['sherbet', '#F9A074', 'orange'],
+  ['cantaloupe orange', '#F8A05A', 'orange'],
+  ['spice', '#B5562C', 'orange'],
+  ['nectarine', '#FF8656', 'orange'],
+
+  // Yellows
+  ['yellow', '#FFFF00', 'yellow'],
+  ['lemon', '#FFF700', 'yellow'],
+  ['canary', '#FFFF99', 'yellow'],
+  ['butter', '#FFF4C4', 'yellow'],
+  ['buttercup', '#F3AD16', 'yellow'],
+  ['sunflower', '#FFDA03', 'yellow'],
+  ['mustard', '#FFDB58', 'yellow'],
+  ['dark mustard', '#CC9F2B', 'yellow'],
+  ['saffron', '#F4C430', 'yellow'],
+  ['honey', '#FDB347', 'yellow'],
+  ['goldenrod', '#DAA520', 'yellow'],
+  ['ochre', '#CC7722', 'yellow'],
+  ['golden yellow', '#FFDF00', 'yellow'],
+  ['pastel yellow', '#FDFD96', 'yellow'],
+  ['light yellow', '#FFFFE0', 'yellow'],
+  ['lemon chiffon', '#FFFACD', 'yellow'],
+  ['banana', '#FFE135', 'yellow'],
+  ['corn', '#FBEC5D', 'yellow'],
+  ['maize', '#FBEC5D', 'yellow'],
+  ['champagne', '#F7E7CE', 'yellow'],
+  ['straw', '#E4D96F', 'yellow'],
+  ['chartreuse yellow', '#DFFF00', 'yellow'],
+  ['neon yellow', '#FFFF33', 'yellow'],
+  ['citrine', '#E4D00A', 'yellow'],
+  ['daffodil', '#FFFF31', 'yellow'],
+  ['primrose', '#EDEA99', 'yellow'],
+  ['custard', '#FFFDD0', 'yellow'],
+  ['dijon', '#C49102', 'yellow'],
+
+  // Greens
+  ['green', '#008000', 'green'],
+  ['kelly green', '#4CBB17', 'green'],
+  ['kelly', '#4CBB17', 'green'],
+  ['emerald', '#50C878', 'green'],
+  ['jade', '#00A86B', 'green'],
+  ['forest green', '#228B22', 'green'],
+  ['forest', '#228B22', 'green'],
+  ['hunter green', '#355E3B', 'green'],
+  ['hunter', '#355E3B', 'green'],
+  ['bottle green', '#006A4E', 'green'],
+  ['racing green', '#004225', 'green'],
+  ['british racing green', '#004225', 'green'],
+  ['pine', '#01796F', 'green'],
+  ['pine green', '#01796F', 'green'],
+  ['evergreen', '#05472A', 'green'],
+  ['dark green', '#006400', 'green'],
+  ['olive', '#808000', 'green'],
+  ['olive green', '#708238', 'green'],
+  ['army green', '#4B5320', 'green'],
+  ['military green', '#667C3E', 'green'],
+  ['khaki green', '#8A865D', 'green'],
+  ['moss', '#8A9A5B', 'green'],
+  ['moss green', '#8A9A5B', 'green'],
+  ['fern', '#4F7942', 'green'],
+  ['sage', '#9CAF88', 'green'],
+  ['sage green', '#B2AC88', 'green'],
+  ['eucalyptus', '#5F8575', 'green'],
+  ['seafoam', '#93E9BE', 'green'],
+  ['mint', '#98FF98', 'green'],
+  ['mint green', '#98FB98', 'green'],
+  ['pistachio', '#93C572', 'green'],
+  ['lime', '#32CD32', 'green'],
+  ['lime green', '#32CD32', 'green'],
+  ['neon green', '#39FF14', 'green'],
+  ['chartreuse', '#7FFF00', 'green'],
+  ['apple green', '#8DB600', 'green'],
+  ['grass green', '#7CFC00', 'green'],
+  ['spring green', '#00FF7F', 'green'],
+  ['celadon', '#ACE1AF', 'green'],
+  ['pea green', '#8EAB12', 'green'],
+  ['avocado', '#568203', 'green'],
+  ['artichoke', '#8F9779', 'green'],
+  ['juniper', '#6D9292', 'green'],
+  ['malachite', '#0BDA51', 'green'],
+  ['shamrock', '#009E60', 'green'],
+  ['clover', '#3EA055', 'green'],
+  ['basil', '#579229', 'green'],
+  ['cactus', '#5B6F55', 'green'],
+  ['laurel', '#A9BA9D', 'green'],
+  ['loden', '#4E5D43', 'green'],
+  ['camo green', '#78866B', 'green'],
+  ['matcha', '#A9B98B', 'green'],
+  ['pear', '#D1E231', 'green'],
+  ['kiwi', '#8EE53F', 'green'],
+
+  // Blues, teals and turquoises
+  ['blue', '#0000FF', 'blue'],
+  ['true blue', '#0073CF', 'blue'],
+  ['royal blue', '#4169E1', 'blue'],
+  ['royal', '#4169E1', 'blue'],
+  ['cobalt', '#0047AB', 'blue'],
+  ['cobalt blue', '#0047AB', 'blue'],
+  ['sapphire', '#0F52BA', 'blue'],
+  ['electric blue', '#7DF9FF', 'blue'],
+  ['klein blue', '#002FA7', 'blue'],
+  ['ultramarine', '#3F00FF', 'blue'],
+  ['navy', '#000080', 'blue'],
+  ['navy blue', '#000080', 'blue'],
+  ['dark navy', '#0C1A3A', 'blue'],
+  ['midnight blue', '#191970', 'blue'],
+  ['midnight', '#1A1F3A', 'blue'],
+  ['indigo', '#4B0082', 'purple'],
+  ['denim', '#1560BD', 'blue'],
+  ['light wash denim', '#8FABCF', 'blue'],
+  ['mid wash denim', '#5B7DB1', 'blue'],
+  ['dark wash denim', '#28375A', 'blue'],
+  ['raw denim', '#1E2B4A', 'blue'],
+  ['chambray', '#9AA9C4', 'blue'],
+  ['sky blue', '#87CEEB', 'blue'],
+  ['sky', '#87CEEB', 'blue'],
+  ['light blue', '#ADD8E6', 'blue'],
+  ['baby blue', '#89CFF0', 'blue'],
+  ['powder blue', '#B0E0E6', 'blue'],
+  ['powder', '#B0E0E6', 'blue'],
+  ['ice blue', '#D6ECEF', 'blue'],
+  ['periwinkle', '#CCCCFF', 'blue'],
+  ['cornflower', '#6495ED', 'blue'],
+  ['cornflower blue', '#6495ED', 'blue'],
+  ['steel blue', '#4682B4', 'blue'],
+  ['slate blue', '#6A5ACD', 'blue'],
+  ['dusty blue', '#8C9DAD', 'blue'],
+  ['french blue', '#0072BB', 'blue'],
+  ['oxford blue', '#002147', 'blue'],
+  ['prussian blue', '#003153', 'blue'],
+  ['petrol', '#005F6A', 'blue'],
+  ['petrol blue', '#1F4E5F', 'blue'],
+  ['air force blue', '#5D8AA8', 'blue'],
+  ['azure', '#007FFF', 'blue'],
+  ['cerulean', '#007BA7', 'blue'],
+  ['cyan', '#00FFFF', 'blue'],
+  ['aqua', '#00FFFF', 'blue'],
+  ['aquamarine', '#7FFFD4', 'blue'],
+  ['turquoise', '#40E0D0', 'blue'],
+  ['dark turquoise', '#00CED1', 'blue'],
+  ['teal', '#008080', 'blue'],
+  ['dark teal', '#014D4E', 'blue'],
+  ['peacock', '#33A1C9', 'blue'],
+  ['peacock blue', '#005F69', 'blue'],
+  ['duck egg', '#C3E4E8', 'blue'],
+  ['robin egg blue', '#00CCCC', 'blue'],
+  ['tiffany blue', '#0ABAB5', 'blue'],
+  ['lagoon', '#017987', 'blue'],
+  ['ocean', '#0077BE', 'blue'],
+  ['ocean blue', '#4F42B5', 'blue'],
+  ['marine', '#042E60', 'blue'],
+  ['storm blue', '#4F666A', 'blue'],
+  ['arctic blue', '#C6E6FB', 'blue'],
+  ['ice', '#DBF1FD', 'blue'],
+  ['sea blue', '#006994', 'blue'],
+  ['capri', '#00BFFF', 'blue'],
+  ['bluebell', '#A2A2D0', 'blue'],
+  ['blueberry', '#4F86F7', 'blue'],
+  ['lapis', '#26619C', 'blue'],
+  ['admiral blue', '#1D2951', 'blue'],
+  ['ink blue', '#1F2A44', 'blue'],
+
+  // Purples
+  ['purple', '#800080', 'purple'],
+  ['royal purple', '#7851A9', 'purple'],
+  ['deep purple', '#36013F', 'purple'],
+  ['violet', '#8F00FF', 'purple'],
+  ['lavender', '#E6E6FA', 'purple'],
+  ['lilac', '#C8A2C8', 'purple'],
+  ['mauve', '#E0B0FF', 'purple'],
+  ['dusty mauve', '#B0929B', 'purple'],
+  ['plum', '#8E4585', 'purple'],
+  ['aubergine', '#3D0734', 'purple'],
+  ['eggplant', '#614051', 'purple'],
+  ['amethyst', '#9966CC', 'purple'],
+  ['orchid', '#DA70D6', 'purple'],
+  ['grape', '#6F2DA8', 'purple'],
+  ['heather', '#B7A6C4', 'purple'],
+  ['wisteria', '#C9A0DC', 'purple'],
+  ['thistle', '#D8BFD8', 'purple'],
+  ['iris', '#5A4FCF', 'purple'],
+  ['byzantium', '#702963', 'purple'],
+  ['mulberry', '#C54B8C', 'purple'],
+  ['boysenberry', '#873260', 'purple'],
+  ['raisin', '#3C1F2D', 'purple'],
+  ['ultraviolet', '#5F4B8B', 'purple'],
+  ['lavender gray', '#C4C3D0', 'purple'],
+  ['pastel purple', '#B39EB5', 'purple'],
+  ['magenta purple', '#6B3FA0', 'purple'],
+  ['periwinkle purple', '#8E82FE', 'purple'],
+  ['damson', '#854C65', 'purple'],
+  ['fig', '#5D3954', 'purple'],
+  ['heliotrope', '#DF73FF', 'purple'],
+];
+
+// Words that name the same thing differently
+const WORD_ALIASES: Record<string, string> = {
+  grey: 'gray',
+  colour: '',
+  color: '',
+  colored: '',
+  coloured: '',
+  shade: '',
+  tone: '',
+  medium: 'mid',
+};
+
+const BASIC_NAMES = new Set([
+  'black', 'white', 'gray', 'charcoal', 'light gray', 'beige', 'cream', 'khaki',
+  'brown', 'tan', 'camel', 'red', 'burgundy', 'maroon', 'pink', 'coral',
+  'orange', 'yellow', 'mustard', 'green', 'olive', 'sage', 'teal', 'blue',
+  'navy', 'light blue', 'denim', 'purple', 'lavender', 'silver', 'gold',
+]);
+
+// Modifiers nudge a base colour in OKLab: [lightness shift, chroma scale]
+const MODIFIERS: Record<string, [number, number]> = {
+  light: [0.12, 0.85],
+  pale: [0.18, 0.6],
+  pastel: [0.18, 0.55],
+  soft: [0.08, 0.75],
+  dark: [-0.15, 1],
+  deep: [-0.12, 1.05],
+  bright: [0.04, 1.25],
+  vivid: [0, 1.3],
+  neon: [0.05, 1.4],
+  dusty: [0, 0.6],
+  muted: [0, 0.55],
+  faded: [0.08, 0.6],
+  washed: [0.1, 0.65],
+};
+
+export const COLOR_DICTIONARY: NamedColor[] = COLOR_TABLE.map(([name, hex, family]) => ({
+  name,
+  hex,
+  lab: hexToLab(hex),
+  family,
+  basic: BASIC_NAMES.has(name),
+}));
+
+const BASIC_COLORS = COLOR_DICTIONARY.filter((color) => color.basic);
+
+// Keyed by name and by name without spaces, so "offwhite" finds "off white"
+const byName = new Map<string, NamedColor>();
+COLOR_DICTIONARY.forEach((color) => {
+  [color.name, color.name.replace(/ /g, '')].forEach((key) => {
+    if (!byName.has(key)) byName.set(key, color);
+  });
+});
+
+const normalizeName = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z\s\-_/]/g, '')
+    .split(/[\s\-_/]+/)
+    .map((word) => (word in WORD_ALIASES ? WORD_ALIASES[word] : word))
+    .join(' ')
+    .split(' ')
+    .filter(Boolean);
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance, stopping early
+ * once it exceeds `limit`.
+ */
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Short names must match exactly; "tan" is one typo away from "tax" and "ran"
+const typoAllowance = (phrase: string): number => (phrase.length < 5 ? 0 : phrase.length < 9 ? 1 : 2);
+
+const lookupPhrase = (phrase: string): { color: NamedColor; exact: boolean } | null => {
+  const exact = byName.get(phrase);
+  if (exact) return { color: exact, exact: true };
+
+  const allowance = typoAllowance(phrase);
+  if (allowance === 0) return null;
+
+  let best: NamedColor | null = null;
+  let bestDistance = allowance + 1;
+  for (const color of COLOR_DICTIONARY) {
+    const distance = editDistance(phrase, color.name, bestDistance - 1);
+    if (distance < bestDistance) {
+      best = color;
+      bestDistance = distance;
+    }
+  }
+  return best ? { color: best, exact: false } : null;
+};
+
+const applyModifiers = (hex: string, modifiers: string[]): string => {
+  const { r, g, b } = hexToRgb(hex);
+  const oklab = rgbToOklab(r, g, b);
+  let { l, a, b: bOk } = oklab;
+  modifiers.forEach((modifier) => {
+    const [lightness, chroma] = MODIFIERS[modifier];
+    l = Math.min(1, Math.max(0, l + lightness));
+    a *= chroma;
+    bOk *= chroma;
+  });
+  const adjusted = oklabToRgb(l, a, bOk);
+  return rgbToHex(adjusted.r, adjusted.g, adjusted.b);
+};
+
+const matchCache = new Map<string, ColorNameMatch | null>();
+
+/**
+ * Resolve a free-text colour tag or hex code. Tries, in order: hex codes
+ * (only with the leading "#", since "bed" or "decade" are words too), exact
+ * names, the longest run of words that names a colour (typos allowed), with
+ * any leftover modifier words applied to it. Returns null when no part of
+ * the text names a colour.
+ */
+export function resolveColorName(text: string): ColorNameMatch | null {
+  const cached = matchCache.get(text);
+  if (cached !== undefined) return cached;
+
+  const result = matchColorName(text);
+  matchCache.set(text, result);
+  return result;
+}
+
+function matchColorName(text: string): ColorNameMatch | null {
+  const rgb = text.trim().startsWith('#') ? parseHex(text) : null;
+  if (rgb) {
+    const hex = rgbToHex(rgb.r, rgb.g, rgb.b);
+    const nearest = nearestColorName(hex);
+    return { ...nearest, hex, lab: hexToLab(hex), exact: true };
+  }
+
+  const words = normalizeName(text);
+  if (words.length === 0) return null;
+
+  const whole = byName.get(words.join(' '));
+  if (whole) return { ...whole, exact: true };
+
+  // Longest run of words first; leftmost wins ties since "navy blue" means navy
+  for (let length = words.length; length >= 1; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const phrase = words.slice(start, start + length).join(' ');
+      const match = lookupPhrase(phrase) || lookupPhrase(phrase.replace(/ /g, ''));
+      if (!match) continue;
+
+      const rest = [...words.slice(0, start), ...words.slice(start + length)];
+      const modifiers = rest.filter((word) => word in MODIFIERS);
+      const base = match.color;
+      const exact = match.exact && rest.length === modifiers.length;
+
+      if (modifiers.length === 0) return { ...base, exact };
+
+      const hex = applyModifiers(base.hex, modifiers);
+      return {
+        ...base,
+        name: [...modifiers, base.name].join(' '),
+        hex,
+        lab: hexToLab(hex),
+        exact,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * "#RRGGBB" for a colour tag or hex code, or null if it names no colour.
+ */
+export const resolveColorHex = (text: string): string | null => resolveColorName(text)?.hex ?? null;
+
+const nearestCache = new Map<string, NamedColor>();
+
+/**
+ * The dictionary colour closest (CIEDE2000) to a hex code or RGB value.
+ * `basic` limits the search to everyday names, which keeps per-pixel
+ * histograms from splitting one colour across many near-synonyms.
+ */
+export function nearestColorName(color: string | Rgb, options: { basic?: boolean } = {}): NamedColor {
+  const rgb = typeof color === 'string' ? hexToRgb(color) : color;
+  // Quantise to 5 bits per channel; neighbouring pixels share a lookup
+  const key = `${options.basic ? 'b' : 'f'}${rgb.r >> 3},${rgb.g >> 3},${rgb.b >> 3}`;
+  const cached = nearestCache.get(key);
+  if (cached) return cached;
+
+  const lab = hexToLab(rgbToHex(rgb.r, rgb.g, rgb.b));
+  const candidates = options.basic ? BASIC_COLORS : COLOR_DICTIONARY;
+  let best = candidates[0];
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = deltaE2000(lab, candidate.lab);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  nearestCache.set(key, best);
+  return best;
+}
+
+/**
+ * CIEDE2000 distance between two colours given as names or hex codes.
+ * Colours that can't be resolved only match themselves.
+ */
+export const colorDistance = (color1: string, color2: string): number => {
+  const match1 = resolveColorName(color1);
+  const match2 = resolveColorName(color2);
+  if (!match1 || !match2) {
+    return color1.trim().toLowerCase() === color2.trim().toLowerCase() ? 0 : Infinity;
+  }
+  return deltaE2000(match1.lab, match2.lab);
+};
+
+export const isSameColor = (color1: string, color2: string): boolean =>
+  colorDistance(color1, color2) < SAME_COLOR_DELTA_E;
@@ -0,0 +1,396 @@
+/**
+ * Colour Science
+ *
+ * The one place colour maths lives. Every engine converts between sRGB, XYZ,
+ * CIELAB, LCh, OKLab and HSL through these functions and compares colours
+ * with CIEDE2000, so "same colour" means the same thing everywhere. Colour
+ * names are resolved in colorNames.
+ *
+ * Conventions: RGB channels are 0-255, XYZ is scaled so white has Y = 1,
+ * Lab/LCh use the D65 white point, hue angles are in degrees and HSL
+ * saturation and lightness are 0-1.
+ */
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface Xyz {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export interface Lch {
+  l: number;
+  c: number;
+  h: number;
+}
+
+export interface Hsl {
+  h: number;
+  s: number;
+  l: number;
+}
+
+// OKLab lightness is 0-1 rather than Lab's 0-100
+export type Oklab = Lab;
+
+/**
+ * CIEDE2000 distance below which two colours read as the same colour. Used
+ * for de-duplicating palettes and extracted swatches.
+ */
+export const SAME_COLOR_DELTA_E = 5;
+
+/**
+ * CIEDE2000 distance below which two colours count as a match, e.g. a
+ * garment colour against a favourite or a seasonal palette colour.
+ */
+export const SIMILAR_COLOR_DELTA_E = 12;
+
+export const D65_WHITE: Xyz = { x: 0.95047, y: 1, z: 1.08883 };
+
+// CIE constants, exact rational forms rather than the rounded 0.008856/7.787
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+// sRGB companding
+
+/**
+ * Decode one sRGB channel (0-1) to linear light.
+ */
+export const srgbToLinear = (channel: number): number =>
+  channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+
+/**
+ * Encode one linear-light channel (0-1) back to sRGB.
+ */
+export const linearToSrgb = (channel: number): number =>
+  channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+
+/**
+ * WCAG relative luminance of an sRGB colour.
+ */
+export const relativeLuminance = (r: number, g: number, b: number): number =>
+  0.2126 * srgbToLinear(r / 255) + 0.7152 * srgbToLinear(g / 255) + 0.0722 * srgbToLinear(b / 255);
+
+/**
+ * WCAG contrast ratio between two colours, 1-21.
+ */
+export const contrastRatio = (first: Rgb, second: Rgb): number => {
+  const l1 = relativeLuminance(first.r, first.g, first.b);
+  const l2 = relativeLuminance(second.r, second.g, second.b);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+};
+
+// Hex
+
+/**
+ * Parse "#RRGGBB", "RRGGBB" or the short "#RGB" form. Returns null for
+ * anything else.
+ */
+export const parseHex = (hex: string): Rgb | null => {
+  const value = hex.trim().replace(/^#/, '');
+  if (/^[a-f\d]{3}$/i.test(value)) {
+    return {
+      r: parseInt(value[0] + value[0], 16),
+      g: parseInt(value[1] + value[1], 16),
+      b: parseInt(value[2] + value[2], 16),
+    };
+  }
+  if (/^[a-f\d]{6}$/i.test(value)) {
+    return {
+      r: parseInt(value.slice(0, 2), 16),
+      g: parseInt(value.slice(2, 4), 16),
+      b: parseInt(value.slice(4, 6), 16),
+    };
+  }
+  return null;
+};
+
+/**
+ * Like parseHex but falls back to black, for callers that already know the
+ * value is a hex colour.
+ */
+export const hexToRgb = (hex: string): Rgb => parseHex(hex) || { r: 0, g: 0, b: 0 };
+
+/**
+ * Channels are rounded and clamped, so out-of-gamut maths still gives a
+ * valid "#RRGGBB".
+ */
+export const rgbToHex = (r: number, g: number, b: number): string =>
+  '#' +
+  [r, g, b]
+    .map((channel) => Math.round(clamp(channel, 0, 255)).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+
+// XYZ and CIELAB
+
+export const rgbToXyz = (r: number, g: number, b: number): Xyz => {
+  const rl = srgbToLinear(r / 255);
+  const gl = srgbToLinear(g / 255);
+  const bl = srgbToLinear(b / 255);
+
+  return {
+    x: rl * 0.4124564 + gl * 0.3575761 + bl * 0.1804375,
+    y: rl * 0.2126729 + gl * 0.7151522 + bl * 0.072175,
+    z: rl * 0.0193339 + gl * 0.119192 + bl * 0.9503041,
+  };
+};
+
+/**
+ * Out-of-gamut results are clipped to the sRGB cube and rounded.
+ */
+export const xyzToRgb = (x: number, y: number, z: number): Rgb => {
+  const rl = x * 3.2404542 + y * -1.5371385 + z * -0.4985314;
+  const gl = x * -0.969266 + y * 1.8760108 + z * 0.041556;
+  const bl = x * 0.0556434 + y * -0.2040259 + z * 1.0572252;
+
+  const encode = (channel: number) => Math.round(linearToSrgb(clamp(channel, 0, 1)) * 255);
+  return { r: encode(rl), g: encode(gl), b: encode(bl) };
+};
+
+const labF = (t: number): number =>
+  t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116;
+
+const labFInverse = (t: number): number => {
+  const cubed = t * t * t;
+  return cubed > LAB_EPSILON ? cubed : (116 * t - 16) / LAB_KAPPA;
+};
+
+export const xyzToLab = (x: number, y: number, z: number, white: Xyz = D65_WHITE): Lab => {
+  const fx = labF(x / white.x);
+  const fy = labF(y / white.y);
+  const fz = labF(z / white.z);
+
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+};
+
+export const labToXyz = (l: number, a: number, b: number, white: Xyz = D65_WHITE): Xyz => {
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+
+  return {
+    x: white.x * labFInverse(fx),
+    y: white.y * labFInverse(fy),
+    z: white.z * labFInverse(fz),
+  };
+};
+
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const xyz = rgbToXyz(r, g, b);
+  return xyzToLab(xyz.x, xyz.y, xyz.z);
+};
+
+export const labToRgb = (l: number, a: number, b: number): Rgb => {
+  const xyz = labToXyz(l, a, b);
+  return xyzToRgb(xyz.x, xyz.y, xyz.z);
+};
+
+export const hexToLab = (hex: string): Lab => {
+  const rgb = hexToRgb(hex);
+  return rgbToLab(rgb.r, rgb.g, rgb.b);
+};
+
+export const labToHex = (lab: Lab): string => {
+  const rgb = labToRgb(lab.l, lab.a, lab.b);
+  return rgbToHex(rgb.r, rgb.g, rgb.b);
+};
+
+// LCh
+
+export const labToLch = (lab: Lab): Lch => {
+  const c = Math.sqrt(lab.a * lab.a + lab.b * lab.b);
+  const h = toDegrees(Math.atan2(lab.b, lab.a));
+  return { l: lab.l, c, h: h < 0 ? h + 360 : h };
+};
+
+export const lchToLab = (lch: Lch): Lab => ({
+  l: lch.l,
+  a: lch.c * Math.cos(toRadians(lch.h)),
+  b: lch.c * Math.sin(toRadians(lch.h)),
+});
+
+// OKLab
+
+export const rgbToOklab = (r: number, g: number, b: number): Oklab => {
+  const rl = srgbToLinear(r / 255);
+  const gl = srgbToLinear(g / 255);
+  const bl = srgbToLinear(b / 255);
+
+  const l = Math.cbrt(0.4122214708 * rl + 0.5363325363 * gl + 0.0514459929 * bl);
+  const m = Math.cbrt(0.2119034982 * rl + 0.6806995451 * gl + 0.1073969566 * bl);
+  const s = Math.cbrt(0.0883024619 * rl + 0.2817188376 * gl + 0.6299787005 * bl);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+};
+
+export const oklabToRgb = (l: number, a: number, b: number): Rgb => {
+  const lp = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const mp = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const sp = Math.pow(l - 0.0894841775 * a - 1.291485548 * b, 3);
+
+  const encode = (channel: number) => Math.round(linearToSrgb(clamp(channel, 0, 1)) * 255);
+  return {
+    r: encode(4.0767416621 * lp - 3.3077115913 * mp + 0.2309699292 * sp),
+    g: encode(-1.2684380046 * lp + 2.6097574011 * mp - 0.3413193965 * sp),
+    b: encode(-0.0041960863 * lp - 0.7034186147 * mp + 1.707614701 * sp),
+  };
+};
+
+// HSL
+
+export const rgbToHsl = (r: number, g: number, b: number): Hsl => {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+
+  if (max === min) return { h: 0, s: 0, l };
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+
+  let h: number;
+  if (max === rn) {
+    h = (gn - bn) / d + (gn < bn ? 6 : 0);
+  } else if (max === gn) {
+    h = (bn - rn) / d + 2;
+  } else {
+    h = (rn - gn) / d + 4;
+  }
+
+  return { h: h * 60, s, l };
+};
+
+export const hslToRgb = (h: number, s: number, l: number): Rgb => {
+  const hue = (((h % 360) + 360) % 360) / 60;
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs((hue % 2) - 1));
+  const m = l - c / 2;
+
+  let channels: [number, number, number];
+  if (hue < 1) channels = [c, x, 0];
+  else if (hue < 2) channels = [x, c, 0];
+  else if (hue < 3) channels = [0, c, x];
+  else if (hue < 4) channels = [0, x, c];
+  else if (hue < 5) channels = [x, 0, c];
+  else channels = [c, 0, x];
+
+  return {
+    r: Math.round((channels[0] + m) * 255),
+    g: Math.round((channels[1] + m) * 255),
+    b: Math.round((channels[2] + m) * 255),
+  };
+};
+
+// Colour difference
+
+/**
+ * CIE76: straight Euclidean distance in Lab. Cheap, and the right metric for
+ * k-means where centroids are Lab means, but it overstates differences
+ * between saturated colours. Prefer deltaE2000 for "are these the same".
+ */
+export const deltaE76 = (lab1: Lab, lab2: Lab): number => {
+  const dl = lab1.l - lab2.l;
+  const da = lab1.a - lab2.a;
+  const db = lab1.b - lab2.b;
+  return Math.sqrt(dl * dl + da * da + db * db);
+};
+
+/**
+ * CIEDE2000 colour difference (Sharma, Wu & Dalal 2005) with the usual
+ * kL = kC = kH = 1. Roughly: under 1 is imperceptible, 2-10 is noticeable
+ * at a glance, over 50 is a different colour entirely.
+ */
+export const deltaE2000 = (lab1: Lab, lab2: Lab): number => {
+  const c1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const c2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const cMean = (c1 + c2) / 2;
+  const cMean7 = Math.pow(cMean, 7);
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + Math.pow(25, 7))));
+
+  const a1 = lab1.a * (1 + g);
+  const a2 = lab2.a * (1 + g);
+  const cp1 = Math.sqrt(a1 * a1 + lab1.b * lab1.b);
+  const cp2 = Math.sqrt(a2 * a2 + lab2.b * lab2.b);
+
+  const hueAngle = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = toDegrees(Math.atan2(b, a));
+    return h < 0 ? h + 360 : h;
+  };
+  const hp1 = hueAngle(lab1.b, a1);
+  const hp2 = hueAngle(lab2.b, a2);
+
+  const dL = lab2.l - lab1.l;
+  const dC = cp2 - cp1;
+
+  let dh = 0;
+  if (cp1 * cp2 !== 0) {
+    dh = hp2 - hp1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(cp1 * cp2) * Math.sin(toRadians(dh / 2));
+
+  const lMean = (lab1.l + lab2.l) / 2;
+  const cpMean = (cp1 + cp2) / 2;
+
+  let hMean = hp1 + hp2;
+  if (cp1 * cp2 !== 0) {
+    if (Math.abs(hp1 - hp2) <= 180) hMean /= 2;
+    else if (hp1 + hp2 < 360) hMean = (hMean + 360) / 2;
+    else hMean = (hMean - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(hMean - 30)) +
+    0.24 * Math.cos(toRadians(2 * hMean)) +
+    0.32 * Math.cos(toRadians(3 * hMean + 6)) -
+    0.2 * Math.cos(toRadians(4 * hMean - 63));
+
+  const lOffset = (lMean - 50) * (lMean - 50);
+  const sL = 1 + (0.015 * lOffset) / Math.sqrt(20 + lOffset);
+  const sC = 1 + 0.045 * cpMean;
+  const sH = 1 + 0.015 * cpMean * t;
+
+  const dTheta = 30 * Math.exp(-Math.pow((hMean - 275) / 25, 2));
+  const cpMean7 = Math.pow(cpMean, 7);
+  const rC = 2 * Math.sqrt(cpMean7 / (cpMean7 + Math.pow(25, 7)));
+  const rT = -rC * Math.sin(toRadians(2 * dTheta));
+
+  const termL = dL / sL;
+  const termC = dC / sC;
+  const termH = dH / sH;
+
+  return Math.sqrt(termL * termL + termC * termC + termH * termH + rT * termC * termH);
+};
@@ -6,16 +6,22 @@
  */
 
 import type { ColorPalette } from '@/data/predefinedColorPalettes';
+import { hexToRgb, rgbToHex } from './colorScience';
+import {
+  DEFAULT_SEASON_SYSTEM_ID,
+  getSeasonSystem,
+  type SeasonCharacteristics,
+  type SubSeasonMatch,
+} from './seasonSystems';
 
 export interface ColorSeasonAnalysis {
   season: 'spring' | 'summer' | 'autumn' | 'winter';
   subSeason: string;
-  characteristics: {
-    contrast: 'high' | 'medium' | 'low';
-    warmth: 'warm' | 'cool' | 'neutral';
-    clarity: 'clear' | 'soft' | 'muted';
-    depth: 'light' | 'medium' | 'deep';
-  };
+  // Which season system produced subSeason, and for 12/16-season results the matched sub-season
+  seasonSystem: string;
+  subSeasonId?: string;
+  subSeasonConfidence?: number;
+  characteristics: SeasonCharacteristics;
   idealColors: {
     category: string;
     colors: string[];
@@ -82,9 +88,10 @@ export interface ColorSeasonAnalysis {
 
 class ColorSeasonAnalysisService {
   /**
-   * Analyze color season based on selected palette
+   * Analyze color season based on selected palette. `system` picks the
+   * season system (see seasonSystems); the default is the four-season one.
    */
-  analyzeColorSeason(palette: ColorPalette): ColorSeasonAnalysis {
+  analyzeColorSeason(palette: ColorPalette, options: { system?: string } = {}): ColorSeasonAnalysis {
     const { skinTone, hairColor, eyeColor, category } = palette;
     
     // Determine characteristics
@@ -92,10 +99,14 @@ class ColorSeasonAnalysisService {
     
     // Get detailed season analysis
     const seasonAnalysis = this.getSeasonAnalysis(palette.colorSeason, characteristics, category);
+
+    const system = getSeasonSystem(options.system ?? DEFAULT_SEASON_SYSTEM_ID);
+    const match = system.classify(palette.colorSeason, characteristics);
     
-    return {
+    const analysis: ColorSeasonAnalysis = {
       season: palette.colorSeason,
       subSeason: seasonAnalysis.subSeason,
+      seasonSystem: system.id,
       characteristics,
       idealColors: seasonAnalysis.idealColors,
       avoidColors: seasonAnalysis.avoidColors,
@@ -109,9 +120,38 @@ class ColorSeasonAnalysisService {
       lifestyleRecommendations: this.getLifestyleRecommendations(palette.colorSeason),
       colorCombinations: this.getColorCombinations(palette.colorSeason)
     };
+
+    return match ? this.applySubSeason(analysis, match) : analysis;
+  }
+
+  /**
+   * Swap the season-wide palettes and makeup for the matched sub-season's own
+   */
+  private applySubSeason(analysis: ColorSeasonAnalysis, match: SubSeasonMatch): ColorSeasonAnalysis {
+    const { palette } = match;
+    return {
+      ...analysis,
+      subSeason: palette.name,
+      subSeasonId: palette.id,
+      subSeasonConfidence: parseFloat(match.confidence.toFixed(2)),
+      idealColors: palette.idealColors,
+      avoidColors: palette.avoidColors,
+      clothingRecommendations: {
+        ...analysis.clothingRecommendations,
+        neutrals: palette.neutrals,
+        accents: palette.accents,
+        metallics: palette.metallics
+      },
+      makeupRecommendations: {
+        ...analysis.makeupRecommendations,
+        ...palette.makeup
+      },
+      description: `${analysis.description} ${palette.description}`,
+      tips: [...palette.tips, ...analysis.tips.filter(tip => !palette.tips.includes(tip))]
+    };
   }
 
-  private analyzeCharacteristics(palette: ColorPalette) {
+  private analyzeCharacteristics(palette: ColorPalette): SeasonCharacteristics {
     const { skinTone, hairColor, eyeColor, category } = palette;
     
     // Determine contrast level
@@ -130,9 +170,9 @@ class ColorSeasonAnalysisService {
   }
 
   private determineContrast(skinColor: string, hairColor: string, eyeColor: string): 'high' | 'medium' | 'low' {
-    const skinRgb = this.hexToRgb(skinColor);
-    const hairRgb = this.hexToRgb(hairColor);
-    const eyeRgb = this.hexToRgb(eyeColor);
+    const skinRgb = hexToRgb(skinColor);
+    const hairRgb = hexToRgb(hairColor);
+    const eyeRgb = hexToRgb(eyeColor);
     
     const skinBrightness = (skinRgb.r * 299 + skinRgb.g * 587 + skinRgb.b * 114) / 1000;
     const hairBrightness = (hairRgb.r * 299 + hairRgb.g * 587 + hairRgb.b * 114) / 1000;
@@ -176,7 +216,7 @@ class ColorSeasonAnalysisService {
   }
 
   private getColorSaturation(hexColor: string): number {
-    const rgb = this.hexToRgb(hexColor);
+    const rgb = hexToRgb(hexColor);
     const max = Math.max(rgb.r, rgb.g, rgb.b) / 255;
     const min = Math.min(rgb.r, rgb.g, rgb.b) / 255;
     return max === 0 ? 0 : (max - min) / max;
@@ -490,7 +530,7 @@ class ColorSeasonAnalysisService {
 
   private adjustFoundationTone(skinColor: string): string {
     // Use the actual skin tone with slight adjustment for foundation match
-    const rgb = this.hexToRgb(skinColor);
+    const rgb = hexToRgb(skinColor);
 
     // Slightly adjust for better foundation match
     const adjusted = {
@@ -499,31 +539,18 @@ class ColorSeasonAnalysisService {
       b: Math.min(255, Math.max(0, rgb.b + 1))
     };
 
-    return this.rgbToHex(adjusted.r, adjusted.g, adjusted.b);
-  }
-
-  private rgbToHex(r: number, g: number, b: number): string {
-    return "#" + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1);
-  }
-
-  private hexToRgb(hex: string): { r: number; g: number; b: number } {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16)
-    } : { r: 0, g: 0, b: 0 };
+    return rgbToHex(adjusted.r, adjusted.g, adjusted.b);
   }
 
   private getEyebrowColor(hairColor: string): string {
-    const rgb = this.hexToRgb(hairColor);
+    const rgb = hexToRgb(hairColor);
     // Make eyebrow color slightly darker than hair
     const adjusted = {
       r: Math.max(0, rgb.r - 30),
       g: Math.max(0, rgb.g - 30),
       b: Math.max(0, rgb.b - 30)
     };
-    return this.rgbToHex(adjusted.r, adjusted.g, adjusted.b);
+    return rgbToHex(adjusted.r, adjusted.g, adjusted.b);
   }
 
   private getProfessionalInsights(palette: ColorPalette, characteristics: any) {
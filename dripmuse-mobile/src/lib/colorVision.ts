@@ -0,0 +1,142 @@
+/**
+ * Colour Vision Simulation
+ *
+ * Shows how colours read to people with colour-vision deficiencies, and
+ * flags outfits whose garments stop being tellable apart. Dichromacies use
+ * the Machado, Oliveira & Fernandes (2009) matrices at full severity, applied
+ * in linear RGB; achromatopsia keeps only relative luminance.
+ */
+
+import {
+  deltaE2000,
+  hexToLab,
+  hexToRgb,
+  linearToSrgb,
+  rgbToHex,
+  SIMILAR_COLOR_DELTA_E,
+  srgbToLinear,
+} from './colorScience';
+import { resolveColorHex } from './colorNames';
+
+export type ColorVisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export const COLOR_VISION_DEFICIENCIES: Array<{ id: ColorVisionDeficiency; label: string; description: string }> = [
+  { id: 'protanopia', label: 'Protanopia', description: 'No red cones; reds look dark and merge with greens' },
+  { id: 'deuteranopia', label: 'Deuteranopia', description: 'No green cones; the most common red-green deficiency' },
+  { id: 'tritanopia', label: 'Tritanopia', description: 'No blue cones; blues and greens, yellows and pinks merge' },
+  { id: 'achromatopsia', label: 'Achromatopsia', description: 'No colour vision; only lightness differs' },
+];
+
+type Matrix = [[number, number, number], [number, number, number], [number, number, number]];
+
+const MACHADO_MATRICES: Record<Exclude<ColorVisionDeficiency, 'achromatopsia'>, Matrix> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+// Garments this far apart (CIEDE2000) for typical vision are clearly different colours
+const DISTINCT_DELTA_E = 20;
+
+/**
+ * Simulate how a hex colour looks with a deficiency. `severity` below 1
+ * approximates the milder anomalous forms by blending with normal vision.
+ */
+export function simulateColorVision(hex: string, deficiency: ColorVisionDeficiency, severity: number = 1): string {
+  const { r, g, b } = hexToRgb(hex);
+  const linear = [srgbToLinear(r / 255), srgbToLinear(g / 255), srgbToLinear(b / 255)];
+
+  let simulated: number[];
+  if (deficiency === 'achromatopsia') {
+    const y = 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+    simulated = [y, y, y];
+  } else {
+    const matrix = MACHADO_MATRICES[deficiency];
+    simulated = matrix.map((row) => row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]);
+  }
+
+  const amount = Math.min(1, Math.max(0, severity));
+  const [sr, sg, sb] = simulated.map((channel, i) => {
+    const mixed = linear[i] * (1 - amount) + channel * amount;
+    return linearToSrgb(Math.min(1, Math.max(0, mixed))) * 255;
+  });
+  return rgbToHex(sr, sg, sb);
+}
+
+export function simulatePalette(colors: string[], deficiency: ColorVisionDeficiency, severity: number = 1): string[] {
+  return colors.map((color) => simulateColorVision(resolveColorHex(color) || color, deficiency, severity));
+}
+
+export interface VisionGarment {
+  id: string;
+  name?: string;
+  colors: string[];
+}
+
+export interface DistinguishabilityWarning {
+  deficiency: ColorVisionDeficiency;
+  itemIds: [string, string];
+  itemNames: [string, string];
+  colors: [string, string];
+  // CIEDE2000 between the simulated colours
+  perceivedDistance: number;
+  message: string;
+}
+
+/**
+ * Pairs of garments that are clearly different colours for typical vision
+ * but fall inside the "similar colour" band with a deficiency. Garments that
+ * already match (a tonal outfit) are left alone. Each garment is judged by
+ * its main (first) colour.
+ */
+export function findIndistinguishableGarments(
+  garments: VisionGarment[],
+  deficiencies: ColorVisionDeficiency[] = COLOR_VISION_DEFICIENCIES.map((entry) => entry.id),
+): DistinguishabilityWarning[] {
+  const resolved = garments
+    .map((garment) => ({ garment, hex: garment.colors.length ? resolveColorHex(garment.colors[0]) : null }))
+    .filter((entry): entry is { garment: VisionGarment; hex: string } => !!entry.hex);
+
+  const warnings: DistinguishabilityWarning[] = [];
+  for (let i = 0; i < resolved.length; i++) {
+    for (let j = i + 1; j < resolved.length; j++) {
+      const first = resolved[i];
+      const second = resolved[j];
+      if (deltaE2000(hexToLab(first.hex), hexToLab(second.hex)) < DISTINCT_DELTA_E) continue;
+
+      for (const deficiency of deficiencies) {
+        const perceivedDistance = deltaE2000(
+          hexToLab(simulateColorVision(first.hex, deficiency)),
+          hexToLab(simulateColorVision(second.hex, deficiency)),
+        );
+        if (perceivedDistance >= SIMILAR_COLOR_DELTA_E) continue;
+
+        const label = COLOR_VISION_DEFICIENCIES.find((entry) => entry.id === deficiency)?.label ?? deficiency;
+        const firstName = first.garment.name || first.garment.colors[0];
+        const secondName = second.garment.name || second.garment.colors[0];
+        warnings.push({
+          deficiency,
+          itemIds: [first.garment.id, second.garment.id],
+          itemNames: [firstName, secondName],
+          colors: [first.garment.colors[0], second.garment.colors[0]],
+          perceivedDistance,
+          message: `${firstName} and ${secondName} look almost the same with ${label.toLowerCase()}`,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,288 @@
+/**
+ * Cryptographic primitives for on-device credentials
+ *
+ * SHA-256, HMAC-SHA-256 and PBKDF2 implemented in plain TypeScript because
+ * React Native has no SubtleCrypto. Randomness comes from expo-crypto, which
+ * is backed by the platform CSPRNG.
+ */
+
+import * as ExpoCrypto from 'expo-crypto';
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+const SHA256_BLOCK_SIZE = 64;
+
+// Scratch schedule reused across compressions; the functions below are synchronous
+const schedule = new Uint32Array(64);
+
+/**
+ * Run the SHA-256 compression function over one 64-byte block in place
+ */
+const compressBlock = (state: Uint32Array, block: Uint8Array, offset: number): void => {
+  for (let i = 0; i < 16; i++) {
+    const j = offset + i * 4;
+    schedule[i] = (block[j] << 24) | (block[j + 1] << 16) | (block[j + 2] << 8) | block[j + 3];
+  }
+  for (let i = 16; i < 64; i++) {
+    const w15 = schedule[i - 15];
+    const w2 = schedule[i - 2];
+    const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+    const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+    schedule[i] = (schedule[i - 16] + s0 + schedule[i - 7] + s1) | 0;
+  }
+
+  let a = state[0], b = state[1], c = state[2], d = state[3];
+  let e = state[4], f = state[5], g = state[6], h = state[7];
+
+  for (let i = 0; i < 64; i++) {
+    const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+    const ch = (e & f) ^ (~e & g);
+    const t1 = (h + S1 + ch + SHA256_K[i] + schedule[i]) | 0;
+    const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+    const maj = (a & b) ^ (a & c) ^ (b & c);
+    const t2 = (S0 + maj) | 0;
+
+    h = g; g = f; f = e;
+    e = (d + t1) | 0;
+    d = c; c = b; b = a;
+    a = (t1 + t2) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0; state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0; state[3] = (state[3] + d) | 0;
+  state[4] = (state[4] + e) | 0; state[5] = (state[5] + f) | 0;
+  state[6] = (state[6] + g) | 0; state[7] = (state[7] + h) | 0;
+};
+
+/**
+ * Hash `data`, continuing from `initialState` after `prefixLength` bytes have
+ * already been absorbed. Used directly for HMAC so the padded key blocks are
+ * only compressed once per key.
+ */
+const sha256FromState = (initialState: Uint32Array, prefixLength: number, data: Uint8Array): Uint8Array => {
+  const state = new Uint32Array(initialState);
+  const totalLength = prefixLength + data.length;
+  const paddedLength = Math.ceil((data.length + 9) / SHA256_BLOCK_SIZE) * SHA256_BLOCK_SIZE;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+
+  const bitLength = totalLength * 8;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  for (let offset = 0; offset < paddedLength; offset += SHA256_BLOCK_SIZE) {
+    compressBlock(state, padded, offset);
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  for (let i = 0; i < 8; i++) {
+    digestView.setUint32(i * 4, state[i]);
+  }
+  return digest;
+};
+
+export const utf8Encode = (text: string): Uint8Array => {
+  return new TextEncoder().encode(text);
+};
+
+export const sha256 = (data: Uint8Array | string): Uint8Array => {
+  const bytes = typeof data === 'string' ? utf8Encode(data) : data;
+  return sha256FromState(new Uint32Array(SHA256_INITIAL_STATE), 0, bytes);
+};
+
+/**
+ * Precompute the inner and outer HMAC states for a key
+ */
+const createHmacStates = (key: Uint8Array): { inner: Uint32Array; outer: Uint32Array } => {
+  const blockKey = new Uint8Array(SHA256_BLOCK_SIZE);
+  blockKey.set(key.length > SHA256_BLOCK_SIZE ? sha256(key) : key);
+
+  const innerPad = new Uint8Array(SHA256_BLOCK_SIZE);
+  const outerPad = new Uint8Array(SHA256_BLOCK_SIZE);
+  for (let i = 0; i < SHA256_BLOCK_SIZE; i++) {
+    innerPad[i] = blockKey[i] ^ 0x36;
+    outerPad[i] = blockKey[i] ^ 0x5c;
+  }
+
+  const inner = new Uint32Array(SHA256_INITIAL_STATE);
+  const outer = new Uint32Array(SHA256_INITIAL_STATE);
+  compressBlock(inner, innerPad, 0);
+  compressBlock(outer, outerPad, 0);
+  return { inner, outer };
+};
+
+const hmacWithStates = (states: { inner: Uint32Array; outer: Uint32Array }, message: Uint8Array): Uint8Array => {
+  const innerDigest = sha256FromState(states.inner, SHA256_BLOCK_SIZE, message);
+  return sha256FromState(states.outer, SHA256_BLOCK_SIZE, innerDigest);
+};
+
+export const hmacSha256 = (key: Uint8Array | string, message: Uint8Array | string): Uint8Array => {
+  const keyBytes = typeof key === 'string' ? utf8Encode(key) : key;
+  const messageBytes = typeof message === 'string' ? utf8Encode(message) : message;
+  return hmacWithStates(createHmacStates(keyBytes), messageBytes);
+};
+
+// Iterations between yields, so a slow JS engine (Hermes has no JIT) keeps the UI responsive
+const PBKDF2_YIELD_INTERVAL = 2000;
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+const writeState = (state: Uint32Array, out: Uint8Array): void => {
+  for (let i = 0; i < 8; i++) {
+    const word = state[i];
+    out[i * 4] = word >>> 24;
+    out[i * 4 + 1] = (word >>> 16) & 0xff;
+    out[i * 4 + 2] = (word >>> 8) & 0xff;
+    out[i * 4 + 3] = word & 0xff;
+  }
+};
+
+/**
+ * A padded one-block message holding a 32-byte digest after a 64-byte HMAC key block
+ */
+const digestBlock = (): Uint8Array => {
+  const block = new Uint8Array(SHA256_BLOCK_SIZE);
+  block[32] = 0x80;
+  const bitLength = (SHA256_BLOCK_SIZE + 32) * 8;
+  block[62] = bitLength >>> 8;
+  block[63] = bitLength & 0xff;
+  return block;
+};
+
+/**
+ * PBKDF2-HMAC-SHA-256 (RFC 8018) producing `keyLength` bytes. Each iteration
+ * hashes a 32-byte digest, so the padded blocks are built once and reused,
+ * and the loop yields every few thousand iterations instead of blocking.
+ */
+export const pbkdf2Sha256 = async (
+  password: Uint8Array | string,
+  salt: Uint8Array,
+  iterations: number,
+  keyLength: number = 32
+): Promise<Uint8Array> => {
+  const passwordBytes = typeof password === 'string' ? utf8Encode(password) : password;
+  const states = createHmacStates(passwordBytes);
+  const derived = new Uint8Array(keyLength);
+  const blockCount = Math.ceil(keyLength / 32);
+
+  const innerBlock = digestBlock();
+  const outerBlock = digestBlock();
+  const state = new Uint32Array(8);
+
+  for (let blockIndex = 1; blockIndex <= blockCount; blockIndex++) {
+    const saltBlock = new Uint8Array(salt.length + 4);
+    saltBlock.set(salt);
+    new DataView(saltBlock.buffer).setUint32(salt.length, blockIndex);
+
+    const t = hmacWithStates(states, saltBlock);
+    // U_i lives in the first 32 bytes of the inner block between iterations
+    innerBlock.set(t);
+    for (let i = 1; i < iterations; i++) {
+      state.set(states.inner);
+      compressBlock(state, innerBlock, 0);
+      writeState(state, outerBlock);
+      state.set(states.outer);
+      compressBlock(state, outerBlock, 0);
+      writeState(state, innerBlock);
+      for (let j = 0; j < 32; j++) {
+        t[j] ^= innerBlock[j];
+      }
+      if (i % PBKDF2_YIELD_INTERVAL === 0) {
+        await yieldToEventLoop();
+      }
+    }
+
+    derived.set(t.subarray(0, Math.min(32, keyLength - (blockIndex - 1) * 32)), (blockIndex - 1) * 32);
+  }
+
+  return derived;
+};
+
+/**
+ * Compare two byte arrays without short-circuiting on the first difference
+ */
+export const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+export const randomBytes = (length: number): Uint8Array => {
+  return ExpoCrypto.getRandomBytes(length);
+};
+
+export const bytesToHex = (bytes: Uint8Array): string => {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+export const hexToBytes = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(Math.floor(hex.length / 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+export const utf8Decode = (bytes: Uint8Array): string => {
+  let escaped = '';
+  for (let i = 0; i < bytes.length; i++) {
+    escaped += '%' + bytes[i].toString(16).padStart(2, '0');
+  }
+  return decodeURIComponent(escaped);
+};
+
+const BASE64URL_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+export const bytesToBase64Url = (bytes: Uint8Array): string => {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = i + 2 < bytes.length ? 4 : i + 1 < bytes.length ? 3 : 2;
+    for (let j = 0; j < chars; j++) {
+      output += BASE64URL_ALPHABET[(chunk >> (18 - j * 6)) & 0x3f];
+    }
+  }
+  return output;
+};
+
+export const base64UrlToBytes = (encoded: string): Uint8Array => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of encoded) {
+    const value = BASE64URL_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error('Invalid base64url input');
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+};
@@ -0,0 +1,51 @@
+/**
+ * Clock and random sources for the recommenders.
+ *
+ * The recommenders read time and randomness through these instead of
+ * Date.now() and Math.random(), so a run can be reproduced exactly from its
+ * seed and timestamp.
+ */
+
+export interface Clock {
+  now(): number; // epoch milliseconds
+}
+
+export type RandomSource = () => number; // uniform in [0, 1)
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+export const fixedClock = (time: number | string | Date): Clock => {
+  const fixed = new Date(time).getTime();
+  return { now: () => fixed };
+};
+
+/**
+ * A fresh 32-bit seed for runs that don't ask for a specific one.
+ */
+export const createSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+/**
+ * Mulberry32: small, fast and good enough for shuffling outfits. The same
+ * seed always yields the same sequence on every platform.
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};
+
+/**
+ * Per-factor contributions to an outfit's score, in the order they were
+ * applied. `total` is the final, clamped score.
+ */
+export interface ScoreBreakdown {
+  factors: Record<string, number>;
+  total: number;
+}
@@ -0,0 +1,38 @@
+import * as Calendar from 'expo-calendar';
+import type { CalendarEvent, DeviceCalendar } from './calendarImport';
+
+/**
+ * The phone's own calendars, read through expo-calendar. Every event
+ * calendar on the device is included; cancelled events are left out.
+ */
+export const expoDeviceCalendar: DeviceCalendar = {
+  label: 'Device calendar',
+
+  async requestAccess() {
+    if (!(await Calendar.isAvailableAsync())) return false;
+    const { status } = await Calendar.requestCalendarPermissionsAsync();
+    return status === Calendar.PermissionStatus.GRANTED;
+  },
+
+  async getEvents(from, to) {
+    const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+    if (calendars.length === 0) return [];
+
+    const events = await Calendar.getEventsAsync(calendars.map(calendar => calendar.id), from, to);
+    return events
+      .filter(event => event.status !== Calendar.EventStatus.CANCELED)
+      .map((event): CalendarEvent => {
+        const start = new Date(event.startDate);
+        return {
+          // Recurring events come back once per occurrence with the same id
+          id: `${event.id}@${start.toISOString()}`,
+          title: event.title || 'Untitled event',
+          location: event.location || undefined,
+          description: event.notes || undefined,
+          start,
+          end: new Date(event.endDate),
+          allDay: event.allDay,
+        };
+      });
+  },
+};
@@ -0,0 +1,196 @@
+/**
+ * Drape Simulator
+ *
+ * Renders a photo with a virtual fabric drape under the chin, the way a
+ * colour consultant holds swatches against the face, and estimates how the
+ * drape changes the skin tone people perceive.
+ *
+ * The estimate combines light bounced off the fabric onto the lower face
+ * (skin picks up the drape colour) with simultaneous contrast (skin is seen
+ * as shifted away from the colour next to it). It is a comparison aid, not
+ * a measurement of the photo.
+ */
+
+import {
+  deltaE2000,
+  hexToLab,
+  hexToRgb,
+  labToHex,
+  labToLch,
+  linearToSrgb,
+  rgbToLab,
+  srgbToLinear,
+} from './colorScience';
+import { resolveColorHex } from './colorNames';
+import type { FaceOutline } from './enhancedFacialFeatureAnalysis';
+
+type Point = { x: number; y: number };
+
+export interface DrapeEffect {
+  drapeColor: string;
+  skinColor: string;
+  // Skin as it reads next to the drape
+  perceivedSkin: string;
+  // CIEDE2000 between the bare and draped skin
+  shift: number;
+  lightnessShift: number;
+  chromaShift: number;
+  // Change in Lab b*: positive reads warmer/yellower, negative cooler
+  warmthShift: number;
+  verdict: 'brightens' | 'neutral' | 'dulls';
+  summary: string;
+}
+
+// Share of the light on the lower face that arrives via the fabric
+const BOUNCE = 0.1;
+// How far skin is pushed away from the neighbouring colour, per unit of difference
+const LIGHTNESS_INDUCTION = 0.04;
+const CHROMA_INDUCTION = 0.05;
+// Linear value of sRGB mid grey (#808080); a drape this bright neither adds nor removes light
+const MID_GREY_LINEAR = 0.2159;
+// Below one CIEDE2000 unit the difference is not visible
+const VISIBLE_SHIFT = 1;
+
+/**
+ * Outline of the drape: a neckline just under the chin that falls to the
+ * shoulders and fills the rest of the frame below.
+ */
+export function getDrapeShape(outline: FaceOutline): Point[] {
+  const { jaw, chin, imageWidth, imageHeight } = outline;
+  const faceWidth = Math.max(1, jaw[16].x - jaw[0].x);
+  const below = (offset: number) => Math.min(imageHeight, chin.y + faceWidth * offset);
+
+  return [
+    { x: 0, y: below(0.55) },
+    { x: chin.x - faceWidth * 0.9, y: below(0.4) },
+    { x: chin.x - faceWidth * 0.35, y: below(0.2) },
+    { x: chin.x, y: below(0.12) },
+    { x: chin.x + faceWidth * 0.35, y: below(0.2) },
+    { x: chin.x + faceWidth * 0.9, y: below(0.4) },
+    { x: imageWidth, y: below(0.55) },
+    { x: imageWidth, y: imageHeight },
+    { x: 0, y: imageHeight },
+  ];
+}
+
+/**
+ * Draw the photo with a drape in `color` onto a canvas the size of the photo.
+ */
+export function renderDrape(
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  outline: FaceOutline,
+  color: string,
+): void {
+  const hex = resolveColorHex(color) || color;
+  const { jaw, chin, imageWidth, imageHeight } = outline;
+  const faceWidth = Math.max(1, jaw[16].x - jaw[0].x);
+
+  ctx.save();
+  ctx.clearRect(0, 0, imageWidth, imageHeight);
+  ctx.drawImage(image, 0, 0, imageWidth, imageHeight);
+
+  // Light bounced off the fabric tints the jaw and chin most
+  const glow = ctx.createRadialGradient(chin.x, chin.y, 0, chin.x, chin.y, faceWidth * 0.7);
+  glow.addColorStop(0, withAlpha(hex, BOUNCE * 2.5));
+  glow.addColorStop(1, withAlpha(hex, 0));
+  ctx.globalCompositeOperation = 'soft-light';
+  ctx.fillStyle = glow;
+  ctx.fillRect(0, 0, imageWidth, imageHeight);
+  ctx.globalCompositeOperation = 'source-over';
+
+  // Curve through the midpoints of the outline so the neckline has no corners
+  const shape = getDrapeShape(outline);
+  const neckline = shape.slice(0, 7);
+  ctx.beginPath();
+  ctx.moveTo(neckline[0].x, neckline[0].y);
+  for (let i = 1; i < neckline.length - 1; i++) {
+    const midX = (neckline[i].x + neckline[i + 1].x) / 2;
+    const midY = (neckline[i].y + neckline[i + 1].y) / 2;
+    ctx.quadraticCurveTo(neckline[i].x, neckline[i].y, midX, midY);
+  }
+  ctx.lineTo(neckline[neckline.length - 1].x, neckline[neckline.length - 1].y);
+  shape.slice(7).forEach((point) => ctx.lineTo(point.x, point.y));
+  ctx.closePath();
+
+  ctx.fillStyle = hex;
+  ctx.fill();
+
+  // A little shading so the drape reads as fabric rather than a flat cut-out
+  const top = Math.min(...neckline.map((point) => point.y));
+  const shading = ctx.createLinearGradient(0, top, 0, imageHeight);
+  shading.addColorStop(0, 'rgba(255, 255, 255, 0.12)');
+  shading.addColorStop(0.25, 'rgba(0, 0, 0, 0)');
+  shading.addColorStop(1, 'rgba(0, 0, 0, 0.2)');
+  ctx.fillStyle = shading;
+  ctx.fill();
+
+  ctx.restore();
+}
+
+/**
+ * Estimate how a drape shifts the perceived skin tone.
+ */
+export function measureDrapeEffect(skinColor: string, drapeColor: string): DrapeEffect {
+  const skinHex = resolveColorHex(skinColor) || skinColor;
+  const drapeHex = resolveColorHex(drapeColor) || drapeColor;
+  const skin = hexToRgb(skinHex);
+  const drape = hexToRgb(drapeHex);
+
+  // Bounce: the fabric re-lights the skin with its own colour; mid grey leaves it unchanged
+  const relit = (['r', 'g', 'b'] as const).map((channel) => {
+    const linearSkin = srgbToLinear(skin[channel] / 255);
+    const linearDrape = srgbToLinear(drape[channel] / 255);
+    const light = 1 - BOUNCE + BOUNCE * (linearDrape / MID_GREY_LINEAR);
+    return linearToSrgb(Math.min(1, linearSkin * light)) * 255;
+  });
+  const relitLab = rgbToLab(relit[0], relit[1], relit[2]);
+
+  // Simultaneous contrast: pushed away from the drape in lightness and hue
+  const skinLab = hexToLab(skinHex);
+  const drapeLab = hexToLab(drapeHex);
+  const perceivedLab = {
+    l: relitLab.l - LIGHTNESS_INDUCTION * (drapeLab.l - skinLab.l),
+    a: relitLab.a - CHROMA_INDUCTION * (drapeLab.a - skinLab.a),
+    b: relitLab.b - CHROMA_INDUCTION * (drapeLab.b - skinLab.b),
+  };
+
+  const perceivedSkin = labToHex(perceivedLab);
+  const shift = deltaE2000(skinLab, perceivedLab);
+  const lightnessShift = perceivedLab.l - skinLab.l;
+  const chromaShift = labToLch(perceivedLab).c - labToLch(skinLab).c;
+  const warmthShift = perceivedLab.b - skinLab.b;
+
+  // Healthy-looking skin keeps its colour; greyer or darker skin is what "washed out" means
+  const clarity = chromaShift + 0.5 * lightnessShift;
+  const verdict = shift < VISIBLE_SHIFT ? 'neutral' : clarity > 0 ? 'brightens' : 'dulls';
+
+  const details = [
+    Math.abs(lightnessShift) >= 0.5 ? (lightnessShift > 0 ? 'lighter' : 'darker') : null,
+    Math.abs(chromaShift) >= 0.5 ? (chromaShift > 0 ? 'more colour' : 'greyer') : null,
+    Math.abs(warmthShift) >= 0.5 ? (warmthShift > 0 ? 'warmer' : 'cooler') : null,
+  ].filter(Boolean);
+
+  const summary =
+    verdict === 'neutral'
+      ? 'Barely changes how your skin reads'
+      : `${verdict === 'brightens' ? 'Brightens' : 'Dulls'} your skin (${details.join(', ') || 'subtle'})`;
+
+  return {
+    drapeColor: drapeHex,
+    skinColor: skinHex,
+    perceivedSkin,
+    shift: parseFloat(shift.toFixed(1)),
+    lightnessShift: parseFloat(lightnessShift.toFixed(1)),
+    chromaShift: parseFloat(chromaShift.toFixed(1)),
+    warmthShift: parseFloat(warmthShift.toFixed(1)),
+    verdict,
+    summary,
+  };
+}
+
+function withAlpha(hex: string, alpha: number): string {
+  const { r, g, b } = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${Math.min(1, Math.max(0, alpha))})`;
+}
+
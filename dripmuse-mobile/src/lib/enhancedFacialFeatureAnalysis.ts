@@ -8,7 +8,9 @@
  * - Better region detection and sampling algorithms
  */
 import * as faceapi from 'face-api.js';
-import { faceApiInitializer } from './faceApiInitializer';
+import { loadCapability } from './modelLoader';
+import { hslToRgb, rgbToHex, rgbToHsl } from './colorScience';
+import { whiteBalanceCanvas, type WhiteBalanceEstimate, type WhiteBalanceOptions } from './whiteBalance';
 
 export interface EnhancedFacialFeatureColors {
   skinTone: {
@@ -32,6 +34,8 @@ export interface EnhancedFacialFeatureColors {
   };
   overallConfidence: number;
   detectedFeatures: boolean;
+  // Light the photo was taken under and how much it was corrected before sampling
+  whiteBalance?: WhiteBalanceEstimate;
   debugInfo?: {
     sampledPixels: {
       skin: number;
@@ -46,27 +50,43 @@ export interface EnhancedFacialFeatureColors {
   };
 }
 
+export interface FaceOutline {
+  // 17 points from the left ear round the chin to the right ear, in face-api's jaw order
+  jaw: Array<{ x: number; y: number }>;
+  chin: { x: number; y: number };
+  imageWidth: number;
+  imageHeight: number;
+  // 'estimated' when no landmarks were available and the jaw was fitted to the skin region
+  source: "landmarks" | "estimated";
+}
+
+// Longest side of the downscaled copy used to find the face without landmarks
+const OUTLINE_SAMPLE_SIZE = 160;
+
 class EnhancedFacialFeatureAnalysis {
   private isInitialized = false;
-  private modelLoadAttempted = false;
 
+  // Landmarks are loaded on first use; until they are (or if they can't be) the image-only path is used
   private async initialize(): Promise<void> {
-    if (this.modelLoadAttempted) return;
+    if (this.isInitialized) return;
 
-    this.modelLoadAttempted = true;
-
-    // Skip face-api initialization to prevent model loading errors
-    this.isInitialized = false;
-    console.log('ℹ️ Enhanced facial analysis using advanced algorithms without face detection');
+    const status = await loadCapability('landmarks');
+    this.isInitialized = status.state === 'ready';
+    if (!this.isInitialized) {
+      console.log(`ℹ️ Face landmarks unavailable (${status.reason}); using advanced algorithms without face detection`);
+    }
   }
 
-  async detectFacialFeatureColors(imageInput: string | File | Blob): Promise<EnhancedFacialFeatureColors> {
+  async detectFacialFeatureColors(
+    imageInput: string | File | Blob,
+    options: { whiteBalance?: WhiteBalanceOptions } = {}
+  ): Promise<EnhancedFacialFeatureColors> {
     await this.initialize();
 
-    // Since face detection is disabled, use advanced image analysis instead
+    // Without landmarks, use advanced image analysis instead
     if (!this.isInitialized) {
       console.log("ℹ️ Using advanced image analysis without face detection");
-      return this.analyzeImageWithoutFaceDetection(imageInput);
+      return this.analyzeImageWithoutFaceDetection(imageInput, options.whiteBalance);
     }
 
     try {
@@ -84,6 +104,7 @@ class EnhancedFacialFeatureAnalysis {
       if (!ctx) throw new Error("Could not get canvas context");
       
       ctx.drawImage(img, 0, 0, img.width, img.height);
+      const whiteBalance = whiteBalanceCanvas(ctx, img.width, img.height, options.whiteBalance);
       
       // Enhanced analysis with better sampling
       const skinToneResult = this.analyzeEnhancedSkinTone(ctx, landmarks);
@@ -98,6 +119,7 @@ class EnhancedFacialFeatureAnalysis {
         eyeColor: eyeColorResult,
         overallConfidence: parseFloat(overallConfidence.toFixed(2)),
         detectedFeatures: true,
+        whiteBalance,
         debugInfo: {
           sampledPixels: {
             skin: skinToneResult.confidence * 500, // Approximate pixel count
@@ -117,10 +139,91 @@ class EnhancedFacialFeatureAnalysis {
     }
   }
 
+  /**
+   * Locate the jaw line, e.g. to place a virtual drape under the chin
+   */
+  async detectFaceOutline(imageInput: string | File | Blob): Promise<FaceOutline> {
+    await this.initialize();
+    const img = await this.loadImage(imageInput);
+
+    if (this.isInitialized) {
+      try {
+        const detection = await faceapi.detectSingleFace(img, new faceapi.TinyFaceDetectorOptions()).withFaceLandmarks();
+        if (detection) {
+          const jaw = detection.landmarks.getJawOutline().map((point: faceapi.Point) => ({ x: point.x, y: point.y }));
+          return { jaw, chin: jaw[8], imageWidth: img.width, imageHeight: img.height, source: "landmarks" };
+        }
+      } catch (error) {
+        console.warn("Landmark detection failed, estimating face outline:", error);
+      }
+    }
+
+    return this.estimateFaceOutline(img);
+  }
+
+  /**
+   * Fit a jaw-shaped half ellipse to the skin region of a downscaled copy
+   */
+  private estimateFaceOutline(img: HTMLImageElement): FaceOutline {
+    const scale = Math.min(1, OUTLINE_SAMPLE_SIZE / Math.max(img.width, img.height));
+    const width = Math.max(1, Math.round(img.width * scale));
+    const height = Math.max(1, Math.round(img.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+
+    const xs: number[] = [];
+    const ys: number[] = [];
+    if (ctx) {
+      ctx.drawImage(img, 0, 0, width, height);
+      const { data } = ctx.getImageData(0, 0, width, height);
+      // Faces sit in the upper, central part of a portrait; skip the edges and the chest
+      for (let y = 0; y < Math.floor(height * 0.75); y++) {
+        for (let x = Math.floor(width * 0.1); x < Math.ceil(width * 0.9); x++) {
+          const i = (y * width + x) * 4;
+          if (this.isEnhancedSkinColor(data[i], data[i + 1], data[i + 2])) {
+            xs.push(x);
+            ys.push(y);
+          }
+        }
+      }
+    }
+
+    const percentile = (values: number[], fraction: number) =>
+      [...values].sort((a, b) => a - b)[Math.floor((values.length - 1) * fraction)];
+
+    let centerX = width / 2;
+    let faceWidth = width * 0.4;
+    let top = height * 0.12;
+    if (xs.length >= 30) {
+      centerX = percentile(xs, 0.5);
+      faceWidth = Math.max(width * 0.15, percentile(xs, 0.9) - percentile(xs, 0.1));
+      top = percentile(ys, 0.05);
+    }
+
+    // Typical face proportions: about 1.35 times as tall as wide, jaw starting near eye level
+    const chinY = Math.min(height * 0.95, top + faceWidth * 1.35);
+    const centerY = top + (chinY - top) * 0.4;
+    const jaw = Array.from({ length: 17 }, (_, i) => {
+      const angle = Math.PI - (i * Math.PI) / 16;
+      return {
+        x: (centerX + (faceWidth / 2) * Math.cos(angle)) / scale,
+        y: (centerY + (chinY - centerY) * Math.sin(angle)) / scale
+      };
+    });
+
+    return { jaw, chin: jaw[8], imageWidth: img.width, imageHeight: img.height, source: "estimated" };
+  }
+
   /**
    * Analyze image without face detection using advanced color sampling
    */
-  private async analyzeImageWithoutFaceDetection(imageInput: string | File | Blob): Promise<EnhancedFacialFeatureColors> {
+  private async analyzeImageWithoutFaceDetection(
+    imageInput: string | File | Blob,
+    whiteBalanceOptions?: WhiteBalanceOptions
+  ): Promise<EnhancedFacialFeatureColors> {
     try {
       const img = await this.loadImage(imageInput);
       const canvas = document.createElement('canvas');
@@ -130,6 +233,7 @@ class EnhancedFacialFeatureAnalysis {
       canvas.width = img.width;
       canvas.height = img.height;
       ctx.drawImage(img, 0, 0, img.width, img.height);
+      const whiteBalance = whiteBalanceCanvas(ctx, img.width, img.height, whiteBalanceOptions);
 
       // Smart region-based analysis without face landmarks
       const skinToneResult = this.analyzeImageSkinTone(ctx, img.width, img.height);
@@ -144,6 +248,7 @@ class EnhancedFacialFeatureAnalysis {
         eyeColor: eyeColorResult,
         overallConfidence: parseFloat((overallConfidence * 0.8).toFixed(2)), // Slightly lower confidence without face detection
         detectedFeatures: true,
+        whiteBalance,
         debugInfo: {
           sampledPixels: {
             skin: skinToneResult.confidence * 400,
@@ -215,7 +320,7 @@ class EnhancedFacialFeatureAnalysis {
     }
 
     const dominantColor = this.findWeightedDominantColor(allValidPixels);
-    const colorHex = this.rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
+    const colorHex = rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
     const lightness = this.classifyEnhancedSkinLightness(dominantColor.r, dominantColor.g, dominantColor.b);
     const undertone = this.classifyEnhancedUndertone(dominantColor.r, dominantColor.g, dominantColor.b);
 
@@ -272,7 +377,7 @@ class EnhancedFacialFeatureAnalysis {
     }
 
     const dominantColor = this.findWeightedDominantColor(allValidPixels);
-    const colorHex = this.rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
+    const colorHex = rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
     const { description, category } = this.classifyEnhancedHairColor(dominantColor.r, dominantColor.g, dominantColor.b);
 
     return {
@@ -348,7 +453,7 @@ class EnhancedFacialFeatureAnalysis {
     }
 
     const dominantColor = this.findWeightedDominantColor(allValidPixels);
-    const colorHex = this.rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
+    const colorHex = rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
     const { description, category } = this.classifyEnhancedEyeColor(dominantColor.r, dominantColor.g, dominantColor.b);
 
     return {
@@ -401,7 +506,7 @@ class EnhancedFacialFeatureAnalysis {
     }
     
     const dominantColor = this.findEnhancedDominantColor(allValidPixels);
-    const colorHex = this.rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
+    const colorHex = rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
     const lightness = this.classifyEnhancedSkinLightness(dominantColor.r, dominantColor.g, dominantColor.b);
     const undertone = this.classifyEnhancedUndertone(dominantColor.r, dominantColor.g, dominantColor.b);
     
@@ -485,7 +590,7 @@ class EnhancedFacialFeatureAnalysis {
     }
 
     const dominantColor = this.findEnhancedDominantColor(allValidPixels);
-    const colorHex = this.rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
+    const colorHex = rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
     const { description, category } = this.classifyEnhancedHairColor(dominantColor.r, dominantColor.g, dominantColor.b);
 
     return {
@@ -520,7 +625,7 @@ class EnhancedFacialFeatureAnalysis {
     }
 
     const dominantColor = this.findEnhancedDominantColor(validPixels);
-    const colorHex = this.rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
+    const colorHex = rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
     const { description, category } = this.classifyEnhancedEyeColor(dominantColor.r, dominantColor.g, dominantColor.b);
 
     return {
@@ -534,7 +639,7 @@ class EnhancedFacialFeatureAnalysis {
   // --- ENHANCED COLOR DETECTION FUNCTIONS ---
 
   private isEnhancedSkinColor(r: number, g: number, b: number): boolean {
-    const { h, s, l } = this.rgbToHsl(r, g, b);
+    const { h, s, l } = rgbToHsl(r, g, b);
     
     // Much more inclusive skin tone detection
     const isInSkinHueRange = (h >= 0 && h <= 60) || (h >= 300 && h <= 360);
@@ -555,7 +660,7 @@ class EnhancedFacialFeatureAnalysis {
   }
 
   private isEnhancedHairColor(r: number, g: number, b: number): boolean {
-    const { h, s, l } = this.rgbToHsl(r, g, b);
+    const { h, s, l } = rgbToHsl(r, g, b);
     const brightness = (r + g + b) / 3;
 
     // Exclude obvious non-hair colors
@@ -595,7 +700,7 @@ class EnhancedFacialFeatureAnalysis {
   }
 
   private isEnhancedEyeColor(r: number, g: number, b: number): boolean {
-    const { h, s, l } = this.rgbToHsl(r, g, b);
+    const { h, s, l } = rgbToHsl(r, g, b);
 
     // Exclude whites of the eye, pupils, and skin
     const isNotWhite = !(s < 0.12 && l > 0.85);
@@ -639,10 +744,10 @@ class EnhancedFacialFeatureAnalysis {
   private getNoseBridge(landmarks: faceapi.FaceLandmarks68): faceapi.Point[] {
     const nose = landmarks.getNose();
     return [
-      { x: nose[0].x - 8, y: nose[0].y },
-      { x: nose[0].x + 8, y: nose[0].y },
-      { x: nose[3].x + 8, y: nose[3].y },
-      { x: nose[3].x - 8, y: nose[3].y }
+      new faceapi.Point(nose[0].x - 8, nose[0].y),
+      new faceapi.Point(nose[0].x + 8, nose[0].y),
+      new faceapi.Point(nose[3].x + 8, nose[3].y),
+      new faceapi.Point(nose[3].x - 8, nose[3].y)
     ];
   }
 
@@ -653,10 +758,10 @@ class EnhancedFacialFeatureAnalysis {
     const mouth = landmarks.getMouth();
     
     return [
-      { x: leftEye[0].x - 10, y: leftEye[1].y },
-      { x: rightEye[3].x + 10, y: rightEye[1].y },
-      { x: mouth[14].x + 10, y: mouth[9].y },
-      { x: mouth[18].x - 10, y: mouth[9].y }
+      new faceapi.Point(leftEye[0].x - 10, leftEye[1].y),
+      new faceapi.Point(rightEye[3].x + 10, rightEye[1].y),
+      new faceapi.Point(mouth[14].x + 10, mouth[9].y),
+      new faceapi.Point(mouth[18].x - 10, mouth[9].y)
     ];
   }
 
@@ -703,7 +808,7 @@ class EnhancedFacialFeatureAnalysis {
 
   private classifyEnhancedSkinLightness(r: number, g: number, b: number): "very-fair" | "fair" | "light" | "medium" | "olive" | "dark" | "very-dark" {
     const brightness = (r * 299 + g * 587 + b * 114) / 1000;
-    const { h, s } = this.rgbToHsl(r, g, b);
+    const { h, s } = rgbToHsl(r, g, b);
     
     if (brightness > 230) return "very-fair";
     if (brightness > 200) return "fair";
@@ -718,7 +823,7 @@ class EnhancedFacialFeatureAnalysis {
   }
 
   private classifyEnhancedUndertone(r: number, g: number, b: number): "warm" | "cool" | "neutral" | "pink" | "yellow" | "olive" {
-    const { h, s } = this.rgbToHsl(r, g, b);
+    const { h, s } = rgbToHsl(r, g, b);
     
     // Pink undertones
     if (h >= 300 && h <= 360 && s > 0.2) return "pink";
@@ -740,7 +845,7 @@ class EnhancedFacialFeatureAnalysis {
   }
 
   private classifyEnhancedHairColor(r: number, g: number, b: number): { description: string; category: "blonde" | "brown" | "black" | "red" | "auburn" | "gray" | "white" | "other" } {
-    const { h, s, l } = this.rgbToHsl(r, g, b);
+    const { h, s, l } = rgbToHsl(r, g, b);
     const brightness = (r + g + b) / 3;
 
     // Much more aggressive blonde detection - prioritize blonde identification
@@ -803,7 +908,7 @@ class EnhancedFacialFeatureAnalysis {
   }
 
   private classifyEnhancedEyeColor(r: number, g: number, b: number): { description: string; category: "blue" | "green" | "brown" | "hazel" | "gray" | "amber" | "other" } {
-    const { h, s, l } = this.rgbToHsl(r, g, b);
+    const { h, s, l } = rgbToHsl(r, g, b);
 
     // Much more aggressive blue eye detection - prioritize blue identification
     if (h >= 200 && h <= 260 && s > 0.25 && l > 0.25) {
@@ -965,10 +1070,10 @@ class EnhancedFacialFeatureAnalysis {
     const browHeight = 40; // Increased for better sampling
     
     return [
-      { x: leftBrow[0].x - 10, y: browTop - browHeight },
-      { x: rightBrow[4].x + 10, y: browTop - browHeight },
-      { x: rightBrow[4].x, y: browTop + 5 },
-      { x: leftBrow[0].x, y: browTop + 5 }
+      new faceapi.Point(leftBrow[0].x - 10, browTop - browHeight),
+      new faceapi.Point(rightBrow[4].x + 10, browTop - browHeight),
+      new faceapi.Point(rightBrow[4].x, browTop + 5),
+      new faceapi.Point(leftBrow[0].x, browTop + 5)
     ];
   }
 
@@ -978,10 +1083,10 @@ class EnhancedFacialFeatureAnalysis {
     const leftEye = landmarks.getLeftEye();
     
     return [
-      { x: nose[0].x - 25, y: leftEye[3].y + 15 },
-      { x: jaw[1].x, y: leftEye[3].y + 15 },
-      { x: jaw[3].x, y: nose[2].y + 25 },
-      { x: nose[0].x - 5, y: nose[2].y + 5 }
+      new faceapi.Point(nose[0].x - 25, leftEye[3].y + 15),
+      new faceapi.Point(jaw[1].x, leftEye[3].y + 15),
+      new faceapi.Point(jaw[3].x, nose[2].y + 25),
+      new faceapi.Point(nose[0].x - 5, nose[2].y + 5)
     ];
   }
 
@@ -991,10 +1096,10 @@ class EnhancedFacialFeatureAnalysis {
     const rightEye = landmarks.getRightEye();
     
     return [
-      { x: nose[0].x + 25, y: rightEye[3].y + 15 },
-      { x: jaw[15].x, y: rightEye[3].y + 15 },
-      { x: jaw[13].x, y: nose[2].y + 25 },
-      { x: nose[0].x + 5, y: nose[2].y + 5 }
+      new faceapi.Point(nose[0].x + 25, rightEye[3].y + 15),
+      new faceapi.Point(jaw[15].x, rightEye[3].y + 15),
+      new faceapi.Point(jaw[13].x, nose[2].y + 25),
+      new faceapi.Point(nose[0].x + 5, nose[2].y + 5)
     ];
   }
 
@@ -1005,8 +1110,8 @@ class EnhancedFacialFeatureAnalysis {
     return [
       jaw[5],
       jaw[11],
-      { x: jaw[8].x, y: jaw[8].y + 25 },
-      { x: mouth[9].x, y: mouth[9].y + 35 }
+      new faceapi.Point(jaw[8].x, jaw[8].y + 25),
+      new faceapi.Point(mouth[9].x, mouth[9].y + 35)
     ];
   }
 
@@ -1088,7 +1193,6 @@ class EnhancedFacialFeatureAnalysis {
     let totalBrightness = 0;
     let totalContrast = 0;
     let totalSaturation = 0;
-    let warmCoolBias = 0;
     let regionCount = 0;
 
     sampleRegions.forEach(region => {
@@ -1102,16 +1206,12 @@ class EnhancedFacialFeatureAnalysis {
 
         pixels.forEach(pixel => {
           const brightness = (pixel.r * 299 + pixel.g * 587 + pixel.b * 114) / 1000;
-          const { s } = this.rgbToHsl(pixel.r, pixel.g, pixel.b);
+          const { s } = rgbToHsl(pixel.r, pixel.g, pixel.b);
 
           regionBrightness += brightness;
           regionSaturation += s;
           minBrightness = Math.min(minBrightness, brightness);
           maxBrightness = Math.max(maxBrightness, brightness);
-
-          // Detect warm/cool bias
-          if (pixel.r > pixel.b + 10) warmCoolBias += 1; // Warm
-          else if (pixel.b > pixel.r + 10) warmCoolBias -= 1; // Cool
         });
 
         totalBrightness += regionBrightness / pixels.length;
@@ -1129,7 +1229,6 @@ class EnhancedFacialFeatureAnalysis {
       brightness: avgBrightness,
       contrast: avgContrast,
       saturation: avgSaturation,
-      warmCoolBias: warmCoolBias / (regionCount * 100),
       isLowLight: avgBrightness < 80,
       isOverexposed: avgBrightness > 200,
       isLowContrast: avgContrast < 50,
@@ -1138,7 +1237,8 @@ class EnhancedFacialFeatureAnalysis {
   }
 
   /**
-   * Normalize colors based on lighting conditions
+   * Normalize exposure and contrast based on lighting conditions. Colour casts
+   * are already removed by the white balance stage when the canvas is drawn.
    */
   private normalizeForLighting(pixels: Array<{ r: number, g: number, b: number }>, lightingConditions: any): Array<{ r: number, g: number, b: number }> {
     return pixels.map(pixel => {
@@ -1168,24 +1268,11 @@ class EnhancedFacialFeatureAnalysis {
         b = Math.min(255, Math.max(0, midpoint + (b - midpoint) * factor));
       }
 
-      // White balance correction
-      if (Math.abs(lightingConditions.warmCoolBias) > 0.1) {
-        if (lightingConditions.warmCoolBias > 0) {
-          // Too warm, reduce red/yellow
-          r = Math.max(0, r * 0.95);
-          b = Math.min(255, b * 1.05);
-        } else {
-          // Too cool, reduce blue
-          b = Math.max(0, b * 0.95);
-          r = Math.min(255, r * 1.05);
-        }
-      }
-
       // Saturation boost for desaturated images
       if (lightingConditions.isDesaturated) {
-        const { h, s, l } = this.rgbToHsl(r, g, b);
+        const { h, s, l } = rgbToHsl(r, g, b);
         const boostedS = Math.min(1, s * 1.3);
-        const rgb = this.hslToRgb(h, boostedS, l);
+        const rgb = hslToRgb(h, boostedS, l);
         r = rgb.r;
         g = rgb.g;
         b = rgb.b;
@@ -1227,7 +1314,7 @@ class EnhancedFacialFeatureAnalysis {
    * More relaxed skin color detection for poor lighting
    */
   private isRelaxedSkinColor(r: number, g: number, b: number, lightingConditions: any): boolean {
-    const { h, s, l } = this.rgbToHsl(r, g, b);
+    const { h, s, l } = rgbToHsl(r, g, b);
 
     // More flexible ranges for poor lighting
     const isInSkinHueRange = (h >= 0 && h <= 70) || (h >= 300 && h <= 360);
@@ -1336,37 +1423,6 @@ class EnhancedFacialFeatureAnalysis {
     return centroids.filter(c => c.weightedCount > 0);
   }
 
-  /**
-   * Convert HSL to RGB
-   */
-  private hslToRgb(h: number, s: number, l: number): { r: number, g: number, b: number } {
-    h = h / 360;
-    const c = (1 - Math.abs(2 * l - 1)) * s;
-    const x = c * (1 - Math.abs((h * 6) % 2 - 1));
-    const m = l - c / 2;
-
-    let r = 0, g = 0, b = 0;
-
-    if (h < 1/6) {
-      r = c; g = x; b = 0;
-    } else if (h < 2/6) {
-      r = x; g = c; b = 0;
-    } else if (h < 3/6) {
-      r = 0; g = c; b = x;
-    } else if (h < 4/6) {
-      r = 0; g = x; b = c;
-    } else if (h < 5/6) {
-      r = x; g = 0; b = c;
-    } else {
-      r = c; g = 0; b = x;
-    }
-
-    return {
-      r: Math.round((r + m) * 255),
-      g: Math.round((g + m) * 255),
-      b: Math.round((b + m) * 255)
-    };
-  }
 
   /**
    * Enhanced hair color detection with lighting awareness
@@ -1376,7 +1432,7 @@ class EnhancedFacialFeatureAnalysis {
     if (this.isEnhancedHairColor(r, g, b)) return true;
 
     // More relaxed detection for challenging lighting
-    const { h, s, l } = this.rgbToHsl(r, g, b);
+    const { h, s, l } = rgbToHsl(r, g, b);
     const brightness = (r + g + b) / 3;
 
     // Adjust thresholds based on lighting conditions
@@ -1409,7 +1465,7 @@ class EnhancedFacialFeatureAnalysis {
     // Use base eye color detection but with relaxed parameters for poor lighting
     if (this.isEnhancedEyeColor(r, g, b)) return true;
 
-    const { h, s, l } = this.rgbToHsl(r, g, b);
+    const { h, s, l } = rgbToHsl(r, g, b);
 
     // More lenient detection for poor lighting
     const isNotWhite = !(s < 0.2 && l > 0.85);
@@ -1483,25 +1539,6 @@ class EnhancedFacialFeatureAnalysis {
 
   // === ORIGINAL UTILITY METHODS ===
 
-  private rgbToHsl(r: number, g: number, blue: number) {
-    r /= 255; g /= 255; blue /= 255;
-    const max = Math.max(r, g, blue), min = Math.min(r, g, blue);
-    let h = 0, s = 0, l = (max + min) / 2;
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-      switch (max) {
-        case r: h = (g - blue) / d + (g < blue ? 6 : 0); break;
-        case g: h = (blue - r) / d + 2; break;
-        case blue: h = (r - g) / d + 4; break;
-      }
-      h /= 6;
-    }
-    return { h: h * 360, s, l };
-  }
-  
-  private rgbToHex = (r: number, g: number, blue: number): string => '#' + [r, g, blue].map(x => Math.round(x).toString(16).padStart(2, '0')).join('').toUpperCase();
-  
   private loadImage(input: string | File | Blob): Promise<HTMLImageElement> {
     return new Promise((resolve, reject) => {
       const img = new Image();
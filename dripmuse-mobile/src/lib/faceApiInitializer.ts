@@ -1,11 +1,11 @@
 /**
  * Face-API Model Initializer
  * 
- * Centralized initialization for face-api.js models with comprehensive error handling
- * and multiple fallback sources
+ * Centralized initialization for face-api.js models. Loading and integrity
+ * checks live in modelLoader; this keeps the older all-models-at-once API.
  */
 
-import * as faceapi from 'face-api.js';
+import { checkModelsLoaded, getModelStatus, loadFaceApiModels, resetFaceApiModels } from './modelLoader';
 
 export interface InitializationResult {
   success: boolean;
@@ -30,128 +30,32 @@ class FaceApiInitializer {
   }
 
   /**
-   * Initialize face-api models with multiple fallback sources
+   * Load the bundled face-api models (detector and landmarks)
    */
   async initialize(): Promise<InitializationResult> {
-    // Temporarily disable face-api model loading to prevent errors
-    // Return fallback mode immediately to avoid attempting to load missing models
-    console.log('ℹ️ Face-API model loading disabled - using advanced color analysis fallback');
-
-    return {
-      success: false,
-      source: null,
-      error: 'Face-API models disabled to prevent loading errors',
-      modelsLoaded: [],
-      fallbackMode: true
-    };
-  }
-
-  private async performInitialization(): Promise<InitializationResult> {
-    const modelSources = [
-      {
-        url: 'https://cdn.jsdelivr.net/npm/@vladmandic/face-api@latest/model',
-        name: 'vladmandic CDN'
-      },
-      {
-        url: 'https://raw.githubusercontent.com/vladmandic/face-api/master/model',
-        name: 'vladmandic GitHub'
-      },
-      {
-        url: '/models',
-        name: 'Local models'
-      }
-    ];
-
-    const requiredModels = [
-      { name: 'tinyFaceDetector', loader: faceapi.nets.tinyFaceDetector },
-      { name: 'faceLandmark68Net', loader: faceapi.nets.faceLandmark68Net }
-    ];
-
-    for (const source of modelSources) {
-      try {
-        console.log(`🔄 Attempting to load face-api models from: ${source.name} (${source.url})`);
-        
-        // Load models with timeout
-        const loadPromises = requiredModels.map(model => 
-          this.loadModelWithTimeout(model.loader, source.url, 10000)
-        );
-        
-        await Promise.all(loadPromises);
-        
-        // Verify all models are loaded
-        const loadedModels = [];
-        for (const model of requiredModels) {
-          if (this.isModelLoaded(model.loader)) {
-            loadedModels.push(model.name);
-          }
-        }
-        
-        if (loadedModels.length === requiredModels.length) {
-          this.initialized = true;
-          console.log(`✅ All face-api models loaded successfully from: ${source.name}`);
-          
-          return {
-            success: true,
-            source: source.name,
-            error: null,
-            modelsLoaded: loadedModels,
-            fallbackMode: false
-          };
-        } else {
-          throw new Error(`Only ${loadedModels.length}/${requiredModels.length} models loaded`);
+    if (!this.initializationPromise) {
+      this.initializationPromise = loadFaceApiModels().then(result => {
+        this.initialized = result.success;
+        if (!result.success) {
+          console.warn(`⚠️ Face-API models unavailable (${result.error}) - using advanced color analysis fallback`);
         }
-        
-      } catch (error) {
-        console.warn(`⚠️ Failed to load from ${source.name}:`, error);
-        continue;
-      }
-    }
-
-    // All sources failed - return fallback mode
-    console.warn('⚠️ Failed to load face-api models from all sources. Facial feature detection will be disabled.');
-    
-    return {
-      success: false,
-      source: null,
-      error: 'Failed to load models from all sources',
-      modelsLoaded: [],
-      fallbackMode: true
-    };
-  }
-
-  /**
-   * Load a single model with timeout
-   */
-  private loadModelWithTimeout(
-    modelLoader: any, 
-    sourceUrl: string, 
-    timeoutMs: number
-  ): Promise<void> {
-    return Promise.race([
-      modelLoader.loadFromUri(sourceUrl),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Model loading timeout')), timeoutMs)
-      )
-    ]);
-  }
-
-  /**
-   * Check if a specific model is loaded
-   */
-  private isModelLoaded(modelLoader: any): boolean {
-    try {
-      return modelLoader.params !== undefined && modelLoader.params !== null;
-    } catch {
-      return false;
+        return {
+          success: result.success,
+          source: result.source,
+          error: result.error,
+          modelsLoaded: result.loadedModels,
+          fallbackMode: !result.success
+        };
+      });
     }
+    return this.initializationPromise;
   }
 
   /**
    * Check if all required models are loaded
    */
   areModelsLoaded(): boolean {
-    // Always return false since we've disabled model loading
-    return false;
+    return checkModelsLoaded();
   }
 
   /**
@@ -163,11 +67,12 @@ class FaceApiInitializer {
     tinyFaceDetector: boolean;
     faceLandmark68Net: boolean;
   } {
+    const modelStatus = getModelStatus();
     return {
-      initialized: false,
-      modelsLoaded: false,
-      tinyFaceDetector: false,
-      faceLandmark68Net: false
+      initialized: this.initialized,
+      modelsLoaded: modelStatus.allLoaded,
+      tinyFaceDetector: modelStatus.tinyFaceDetector,
+      faceLandmark68Net: modelStatus.faceLandmark68Net
     };
   }
 
@@ -177,6 +82,7 @@ class FaceApiInitializer {
   reset(): void {
     this.initialized = false;
     this.initializationPromise = null;
+    resetFaceApiModels();
   }
 }
 
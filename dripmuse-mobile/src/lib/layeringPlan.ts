@@ -0,0 +1,327 @@
+import type { WardrobeItem, WeatherData } from './simpleStyleAI';
+import type { HourlyForecast } from './weatherForecast';
+
+/**
+ * Plans an outfit across the hours it is actually worn. A single daily
+ * temperature hides the 7°C morning and 19°C evening of a commute, so the
+ * hourly forecast between the user's leave and return times decides which
+ * outer and mid layers go on, when they come off or go back on, and whether
+ * an umbrella or different shoes are needed.
+ */
+
+export interface ScheduleWindow {
+  leave: string; // HH:MM, local time
+  return: string;
+}
+
+export const DEFAULT_SCHEDULE: ScheduleWindow = { leave: '08:00', return: '18:00' };
+const SCHEDULE_KEY = 'dripmuse_schedule_window';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function loadSchedule(): ScheduleWindow {
+  try {
+    const saved = localStorage.getItem(SCHEDULE_KEY);
+    if (!saved) return DEFAULT_SCHEDULE;
+    const schedule = JSON.parse(saved);
+    return TIME_PATTERN.test(schedule?.leave) && TIME_PATTERN.test(schedule?.return)
+      ? { leave: schedule.leave, return: schedule.return }
+      : DEFAULT_SCHEDULE;
+  } catch (error) {
+    console.warn('Failed to load schedule window:', error);
+    return DEFAULT_SCHEDULE;
+  }
+}
+
+export function saveSchedule(schedule: ScheduleWindow): void {
+  try {
+    localStorage.setItem(SCHEDULE_KEY, JSON.stringify(schedule));
+  } catch (error) {
+    console.warn('Failed to save schedule window:', error);
+  }
+}
+
+// Thresholds for what the day calls for
+export const LAYERING_SPREAD = 6; // °C between the coldest and warmest hour before layers are planned
+export const RAIN_LIKELY = 50; // %, hourly chance of rain that warrants an umbrella
+const RAIN_POSSIBLE = 40; // %, chance of rain at some point in the day
+export const OUTER_LAYER_BELOW = 15; // °C
+const MID_LAYER_BELOW = 10;
+const WINDY = 30; // km/h
+const MIN_CHANGE_HOURS = 2; // A layer isn't changed for weather that lasts less than this
+
+// Schedule windows
+
+const MINUTES_PER_DAY = 24 * 60;
+const minutesOf = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+const hourOf = (hour: HourlyForecast) => hour.time.slice(11, 16);
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+
+/**
+ * The hours between leaving and returning, in time order. `hours` starts on
+ * the day the window starts (see getHourlyForSchedule). The hour that
+ * contains the leave time is included; a return time earlier than the leave
+ * time is read as coming home after midnight, in the next day's hours.
+ */
+export function hoursInWindow(hours: HourlyForecast[], schedule: ScheduleWindow): HourlyForecast[] {
+  if (hours.length === 0) return [];
+
+  const ordered = [...hours].sort((a, b) => a.time.localeCompare(b.time));
+  const firstDay = ordered[0].time.slice(0, 10);
+  const leaveMinutes = minutesOf(schedule.leave);
+  const start = Math.floor(leaveMinutes / 60) * 60;
+  const returnMinutes = minutesOf(schedule.return);
+  // Compared with the leave time itself: 08:30 to 08:10 is overnight even
+  // though 08:10 is after the start of the 08:00 hour
+  const end = returnMinutes < leaveMinutes ? returnMinutes + MINUTES_PER_DAY : returnMinutes;
+
+  return ordered.filter(hour => {
+    const minutes = daysBetween(firstDay, hour.time.slice(0, 10)) * MINUTES_PER_DAY + minutesOf(hourOf(hour));
+    return minutes >= start && minutes <= end;
+  });
+}
+
+export interface DayWindowWeather {
+  hours: HourlyForecast[];
+  temperatureMin: number;
+  temperatureMax: number;
+  leaveTemperature: number;
+  returnTemperature: number;
+  precipitationProbability: number; // highest hourly chance, 0-100
+  rainChance: number; // chance of rain at some point, 0-100
+  wettestHour: string; // HH:MM
+}
+
+export function summarizeWindow(
+  hours: HourlyForecast[],
+  schedule: ScheduleWindow,
+): DayWindowWeather | null {
+  const window = hoursInWindow(hours, schedule);
+  if (window.length === 0) return null;
+
+  const temperatures = window.map(hour => hour.temperature);
+  const wettest = window.reduce((wettest, hour) =>
+    hour.precipitationProbability > wettest.precipitationProbability ? hour : wettest,
+  );
+  // Hourly chances overlap, so treat the hours as independent rather than adding them
+  const dry = window.reduce((dry, hour) => dry * (1 - hour.precipitationProbability / 100), 1);
+
+  return {
+    hours: window,
+    temperatureMin: Math.min(...temperatures),
+    temperatureMax: Math.max(...temperatures),
+    leaveTemperature: window[0].temperature,
+    returnTemperature: window[window.length - 1].temperature,
+    precipitationProbability: wettest.precipitationProbability,
+    rainChance: Math.round((1 - dry) * 100),
+    wettestHour: hourOf(wettest),
+  };
+}
+
+/**
+ * Add the window's temperature range and rain chance to the weather the
+ * recommender scores against. Without hourly data the weather is unchanged.
+ */
+export function weatherForSchedule(
+  weather: WeatherData,
+  hours: HourlyForecast[] | undefined,
+  schedule: ScheduleWindow = DEFAULT_SCHEDULE,
+): WeatherData {
+  const window = hours && hours.length > 0 ? summarizeWindow(hours, schedule) : null;
+  if (!window) return weather;
+  return {
+    ...weather,
+    temperatureMin: window.temperatureMin,
+    temperatureMax: window.temperatureMax,
+    precipitationProbability: window.precipitationProbability,
+  };
+}
+
+// Layers
+
+export type LayerRole = 'outer' | 'mid';
+
+const MID_LAYER_TERMS = ['cardigan', 'sweater', 'jumper', 'hoodie', 'fleece', 'vest', 'pullover', 'sweatshirt', 'knit'];
+const WATERPROOF_TAGS = ['waterproof', 'water-resistant'];
+const WET_SHOE_TAGS = ['open-toe', 'suede', 'canvas', 'mesh', 'delicate'];
+
+const hasTag = (item: WardrobeItem, tags: string[]) =>
+  item.tags?.some(tag => tags.includes(tag.toLowerCase())) ?? false;
+
+export function layerRole(item: WardrobeItem): LayerRole | null {
+  const category = item.category.toLowerCase();
+  if (category === 'outerwear') return 'outer';
+  if (category === 'sweaters') return 'mid';
+  if (category !== 'tops') return null;
+  const name = item.name.toLowerCase();
+  return hasTag(item, MID_LAYER_TERMS) || MID_LAYER_TERMS.some(term => name.includes(term)) ? 'mid' : null;
+}
+
+/**
+ * Layers that can come off without leaving the outfit incomplete. Outerwear
+ * always can; a sweater only if there is another top or a dress under it.
+ */
+export function removableLayers(outfit: WardrobeItem[]): { item: WardrobeItem; role: LayerRole }[] {
+  const hasBase = outfit.some(item =>
+    item.category.toLowerCase() === 'dresses' ||
+    (item.category.toLowerCase() === 'tops' && layerRole(item) === null),
+  );
+  return outfit.flatMap(item => {
+    const role = layerRole(item);
+    if (role === 'outer' || (role === 'mid' && hasBase)) return [{ item, role }];
+    return [];
+  });
+}
+
+// Layering plans
+
+export interface LayeringStep {
+  time: string; // HH:MM
+  action: 'wear' | 'remove' | 'add';
+  items: { id: string; name: string; role: LayerRole }[];
+  temperature: number;
+  note: string;
+}
+
+export interface WeatherWarning {
+  kind: 'umbrella' | 'footwear' | 'layers';
+  message: string;
+}
+
+export interface LayeringPlan {
+  schedule: ScheduleWindow;
+  temperatureMin: number;
+  temperatureMax: number;
+  precipitationProbability: number;
+  rainChance: number;
+  steps: LayeringStep[];
+  warnings: WeatherWarning[];
+}
+
+const needsLayer = (item: WardrobeItem, role: LayerRole, hour: HourlyForecast) => {
+  if (role === 'mid') return hour.temperature < MID_LAYER_BELOW;
+  return (
+    hour.temperature < OUTER_LAYER_BELOW ||
+    hour.windSpeed >= WINDY ||
+    (hour.precipitationProbability >= RAIN_LIKELY && hasTag(item, WATERPROOF_TAGS))
+  );
+};
+
+// Ignore changes that would be undone within MIN_CHANGE_HOURS, except at the end of the day
+const smooth = (states: boolean[]): boolean[] => {
+  const smoothed = [...states];
+  for (let i = 1; i < smoothed.length; i++) {
+    if (smoothed[i] === smoothed[i - 1]) continue;
+    let run = 1;
+    while (i + run < smoothed.length && states[i + run] === states[i]) run++;
+    if (run < MIN_CHANGE_HOURS && i + run < smoothed.length) {
+      for (let j = i; j < i + run; j++) smoothed[j] = smoothed[i - 1];
+    }
+  }
+  return smoothed;
+};
+
+const listNames = (names: string[]) =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+const STEP_VERBS: Record<LayeringStep['action'], string> = {
+  wear: 'Leave in',
+  remove: 'Take off',
+  add: 'Put on',
+};
+
+/**
+ * Work out when each removable layer of an outfit is worn over the schedule
+ * window, plus umbrella and footwear warnings from the window's chance of
+ * rain. Returns null when there is no hourly data for the window.
+ */
+export function buildLayeringPlan(
+  outfit: WardrobeItem[],
+  hours: HourlyForecast[],
+  schedule: ScheduleWindow = DEFAULT_SCHEDULE,
+): LayeringPlan | null {
+  const window = summarizeWindow(hours, schedule);
+  if (!window) return null;
+
+  const layers = removableLayers(outfit).map(layer => ({
+    ...layer,
+    worn: smooth(window.hours.map(hour => needsLayer(layer.item, layer.role, hour))),
+  }));
+
+  const steps: LayeringStep[] = [];
+  window.hours.forEach((hour, index) => {
+    const changes: Record<LayeringStep['action'], LayeringStep['items']> = { wear: [], remove: [], add: [] };
+    layers.forEach(({ item, role, worn }) => {
+      const entry = { id: item.id, name: item.name, role };
+      if (index === 0) {
+        if (worn[0]) changes.wear.push(entry);
+      } else if (worn[index] !== worn[index - 1]) {
+        changes[worn[index] ? 'add' : 'remove'].push(entry);
+      }
+    });
+
+    (Object.keys(changes) as LayeringStep['action'][]).forEach(action => {
+      const items = changes[action];
+      if (items.length === 0) return;
+      const time = index === 0 ? schedule.leave : hourOf(hour);
+      const conditions = hour.precipitationProbability >= RAIN_LIKELY
+        ? `${hour.temperature}°C, ${hour.precipitationProbability}% rain`
+        : `${hour.temperature}°C`;
+      steps.push({
+        time,
+        action,
+        items,
+        temperature: hour.temperature,
+        note: `${STEP_VERBS[action]} ${listNames(items.map(layer => layer.name))} ${index === 0 ? 'at' : 'around'} ${time} (${conditions})`,
+      });
+    });
+  });
+
+  const warnings: WeatherWarning[] = [];
+
+  if (window.temperatureMin < OUTER_LAYER_BELOW && !layers.some(layer => layer.role === 'outer')) {
+    const coldest = window.hours.find(hour => hour.temperature === window.temperatureMin)!;
+    warnings.push({
+      kind: 'layers',
+      message: `No outer layer for the ${window.temperatureMin}°C around ${hourOf(coldest)}`,
+    });
+  }
+
+  if (window.precipitationProbability >= RAIN_LIKELY) {
+    warnings.push({
+      kind: 'umbrella',
+      message: `Take an umbrella: ${window.precipitationProbability}% chance of rain around ${window.wettestHour}`,
+    });
+  } else if (window.rainChance >= RAIN_POSSIBLE) {
+    warnings.push({
+      kind: 'umbrella',
+      message: `Pack a compact umbrella: ${window.rainChance}% chance of a shower before ${schedule.return}`,
+    });
+  }
+
+  const shoes = outfit.filter(item => item.category.toLowerCase() === 'shoes');
+  const snow = window.hours.some(hour => hour.condition === 'snow');
+  shoes.forEach(shoe => {
+    if (snow && !hasTag(shoe, ['boots'])) {
+      warnings.push({ kind: 'footwear', message: `Snow is forecast; boots will grip better than ${shoe.name}` });
+    } else if (
+      window.precipitationProbability >= RAIN_LIKELY &&
+      (hasTag(shoe, WET_SHOE_TAGS) || !hasTag(shoe, [...WATERPROOF_TAGS, 'boots']))
+    ) {
+      warnings.push({
+        kind: 'footwear',
+        message: `${shoe.name} may get soaked around ${window.wettestHour}; waterproof shoes or boots are safer`,
+      });
+    }
+  });
+
+  return {
+    schedule,
+    temperatureMin: window.temperatureMin,
+    temperatureMax: window.temperatureMax,
+    precipitationProbability: window.precipitationProbability,
+    rainChance: window.rainChance,
+    steps,
+    warnings,
+  };
+}
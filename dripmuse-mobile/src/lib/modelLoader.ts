@@ -1,11 +1,39 @@
 /**
- * Manual Model Loader Utility
- * 
- * Provides functions to manually initialize face-api models
- * with better error handling and user feedback
+ * Face-API Model Loader
+ *
+ * Loads the bundled face-api.js weights on demand, one capability at a time:
+ * the detector finds faces, landmarks additionally place the 68 face points.
+ * Every file is checked against the size and SHA-256 recorded in the bundled
+ * manifest before it reaches face-api, and verified files are kept in the
+ * Cache Storage (where available) so later sessions skip the download.
+ *
+ * Capability state is published to subscribers so the UI can say which
+ * capability is unavailable and why instead of silently degrading.
  */
 
 import * as faceapi from 'face-api.js';
+import {
+  FACE_API_MODEL_MANIFEST,
+  type FaceApiCapability,
+  type FaceApiModelFile,
+} from '@/data/faceApiModelManifest';
+import { bytesToHex, sha256, utf8Decode } from './crypto';
+
+export type { FaceApiCapability };
+
+export type CapabilityState = 'idle' | 'loading' | 'ready' | 'unavailable';
+
+export interface CapabilityStatus {
+  capability: FaceApiCapability;
+  state: CapabilityState;
+  // Where the weights came from: this device's cache or the app's bundled files
+  source: 'cache' | 'bundle' | null;
+  // Set when state is 'unavailable'
+  reason: string | null;
+  version: string;
+}
+
+export type CapabilityStatuses = Record<FaceApiCapability, CapabilityStatus>;
 
 export interface ModelLoadResult {
   success: boolean;
@@ -14,18 +42,224 @@ export interface ModelLoadResult {
   loadedModels: string[];
 }
 
+export class ModelLoadError extends Error {
+  constructor(message: string, public readonly file?: string) {
+    super(message);
+    this.name = 'ModelLoadError';
+  }
+}
+
+type ModelName = keyof typeof FACE_API_MODEL_MANIFEST.models;
+
+export const CAPABILITY_LABELS: Record<FaceApiCapability, string> = {
+  detector: 'Face detection',
+  landmarks: 'Face landmarks',
+};
+
+// Landmarks are placed inside the detector's face box, so they need both models
+const CAPABILITY_MODELS: Record<FaceApiCapability, ModelName[]> = {
+  detector: ['tinyFaceDetector'],
+  landmarks: ['tinyFaceDetector', 'faceLandmark68Net'],
+};
+
+const CACHE_NAME = `face-api-models-${FACE_API_MODEL_MANIFEST.version}`;
+const LOAD_TIMEOUT_MS = 20000;
+
+const nets: Record<ModelName, any> = {
+  tinyFaceDetector: faceapi.nets.tinyFaceDetector,
+  faceLandmark68Net: faceapi.nets.faceLandmark68Net,
+};
+
+const modelLoads = new Map<ModelName, Promise<'cache' | 'bundle'>>();
+const listeners = new Set<(statuses: CapabilityStatuses) => void>();
+let statuses: CapabilityStatuses = {
+  detector: initialStatus('detector'),
+  landmarks: initialStatus('landmarks'),
+};
+
+function initialStatus(capability: FaceApiCapability): CapabilityStatus {
+  const missing = CAPABILITY_MODELS[capability].filter(model => FACE_API_MODEL_MANIFEST.models[model].files.length === 0);
+  return {
+    capability,
+    state: missing.length > 0 ? 'unavailable' : 'idle',
+    source: null,
+    reason: missing.length > 0 ? `Model files are not bundled with this build (${missing.join(', ')})` : null,
+    version: FACE_API_MODEL_MANIFEST.version,
+  };
+}
+
+function setStatus(capability: FaceApiCapability, update: Partial<CapabilityStatus>): CapabilityStatus {
+  statuses = { ...statuses, [capability]: { ...statuses[capability], ...update } };
+  listeners.forEach(listener => listener(statuses));
+  return statuses[capability];
+}
+
 /**
- * Manually load face-api models with multiple fallback sources
+ * Fetch one file, from the cache when possible, and check it against the manifest.
+ * A cached copy that fails the check is dropped and downloaded again.
+ */
+async function fetchVerified(file: FaceApiModelFile): Promise<{ bytes: Uint8Array; fromCache: boolean }> {
+  const url = `${FACE_API_MODEL_MANIFEST.baseUrl}/${file.path}`;
+  const cache = typeof caches !== 'undefined' ? await caches.open(CACHE_NAME).catch(() => null) : null;
+
+  const cached = cache ? await cache.match(url) : undefined;
+  if (cached) {
+    const bytes = new Uint8Array(await cached.arrayBuffer());
+    if (bytes.length === file.bytes && bytesToHex(sha256(bytes)) === file.sha256) {
+      return { bytes, fromCache: true };
+    }
+    console.warn(`⚠️ Cached ${file.path} failed verification, downloading again`);
+    await cache?.delete(url);
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new ModelLoadError(`${file.path} could not be loaded (HTTP ${response.status})`, file.path);
+  }
+  const bytes = new Uint8Array(await response.clone().arrayBuffer());
+  if (bytes.length !== file.bytes) {
+    throw new ModelLoadError(`${file.path} is ${bytes.length} bytes, expected ${file.bytes}`, file.path);
+  }
+  const digest = bytesToHex(sha256(bytes));
+  if (digest !== file.sha256) {
+    throw new ModelLoadError(
+      `${file.path} failed its integrity check (SHA-256 ${digest.slice(0, 12)}…, expected ${file.sha256.slice(0, 12)}…)`,
+      file.path,
+    );
+  }
+
+  await cache?.put(url, response).catch(() => undefined);
+  return { bytes, fromCache: false };
+}
+
+async function loadModel(model: ModelName): Promise<'cache' | 'bundle'> {
+  const entry = FACE_API_MODEL_MANIFEST.models[model];
+  if (entry.files.length === 0) {
+    throw new ModelLoadError(`${model} is not bundled with this build`);
+  }
+
+  const filesByPath = new Map(entry.files.map(file => [file.path, file]));
+  const weightsManifest = filesByPath.get(entry.weightsManifest);
+  if (!weightsManifest) {
+    throw new ModelLoadError(`${entry.weightsManifest} is missing from the manifest`, entry.weightsManifest);
+  }
+
+  const manifestFile = await fetchVerified(weightsManifest);
+  let fromCache = manifestFile.fromCache;
+  const groups: Array<{ paths: string[]; weights: any[] }> = JSON.parse(utf8Decode(manifestFile.bytes));
+
+  const weightMap: Record<string, any> = {};
+  for (const group of groups) {
+    const shards = [];
+    for (const path of group.paths) {
+      const file = filesByPath.get(path);
+      // A shard the manifest doesn't vouch for could be anything
+      if (!file) throw new ModelLoadError(`${path} is not listed in the model manifest`, path);
+      const shard = await fetchVerified(file);
+      fromCache = fromCache && shard.fromCache;
+      shards.push(shard.bytes);
+    }
+
+    const buffer = new Uint8Array(shards.reduce((sum, shard) => sum + shard.length, 0));
+    shards.reduce((offset, shard) => {
+      buffer.set(shard, offset);
+      return offset + shard.length;
+    }, 0);
+    Object.assign(weightMap, faceapi.tf.io.decodeWeights(buffer.buffer, group.weights));
+  }
+
+  nets[model].loadFromWeightMap(weightMap);
+  console.log(`✅ Loaded ${model} (${FACE_API_MODEL_MANIFEST.version}) from ${fromCache ? 'cache' : 'bundle'}`);
+  return fromCache ? 'cache' : 'bundle';
+}
+
+function ensureModel(model: ModelName): Promise<'cache' | 'bundle'> {
+  let load = modelLoads.get(model);
+  if (!load) {
+    load = Promise.race([
+      loadModel(model),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new ModelLoadError(`${model} took longer than ${LOAD_TIMEOUT_MS / 1000}s to load`)), LOAD_TIMEOUT_MS),
+      ),
+    ]);
+    modelLoads.set(model, load);
+  }
+  return load;
+}
+
+/**
+ * Load the models behind a capability. Safe to call repeatedly: loaded
+ * models are reused, and a failed capability stays unavailable until
+ * `retry` is set.
+ */
+export async function loadCapability(
+  capability: FaceApiCapability,
+  options: { retry?: boolean } = {},
+): Promise<CapabilityStatus> {
+  const current = statuses[capability];
+  if (current.state === 'ready') return current;
+  if (current.state === 'unavailable' && !options.retry) return current;
+
+  if (options.retry) {
+    CAPABILITY_MODELS[capability].forEach(model => {
+      if (!nets[model].isLoaded) modelLoads.delete(model);
+    });
+  }
+
+  setStatus(capability, { state: 'loading', reason: null });
+  try {
+    const sources = await Promise.all(CAPABILITY_MODELS[capability].map(ensureModel));
+    return setStatus(capability, {
+      state: 'ready',
+      source: sources.every(source => source === 'cache') ? 'cache' : 'bundle',
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`⚠️ ${CAPABILITY_LABELS[capability]} unavailable: ${reason}`);
+    return setStatus(capability, { state: 'unavailable', source: null, reason });
+  }
+}
+
+export function getCapabilityStatuses(): CapabilityStatuses {
+  return statuses;
+}
+
+export function isCapabilityReady(capability: FaceApiCapability): boolean {
+  return statuses[capability].state === 'ready';
+}
+
+export function subscribeToModelStatus(listener: (statuses: CapabilityStatuses) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Unload everything so the next request starts from scratch (cached files are kept)
+ */
+export function resetFaceApiModels(): void {
+  (Object.keys(nets) as ModelName[]).forEach(model => {
+    if (nets[model].isLoaded) nets[model].dispose();
+  });
+  modelLoads.clear();
+  statuses = { detector: initialStatus('detector'), landmarks: initialStatus('landmarks') };
+  listeners.forEach(listener => listener(statuses));
+}
+
+/**
+ * Load every capability, retrying any that failed before
  */
 export async function loadFaceApiModels(): Promise<ModelLoadResult> {
-  // Disable face-api model loading to prevent errors
-  console.log('���️ Face-API model loading disabled to prevent loading errors');
+  const status = await loadCapability('landmarks', { retry: true });
+  await loadCapability('detector', { retry: true });
+  const modelStatus = getModelStatus();
 
   return {
-    success: false,
-    source: null,
-    error: 'Face-API model loading disabled to prevent errors',
-    loadedModels: []
+    success: status.state === 'ready',
+    source: status.source,
+    error: status.reason,
+    loadedModels: (Object.keys(nets) as ModelName[]).filter(model => modelStatus[model]),
   };
 }
 
@@ -33,8 +267,7 @@ export async function loadFaceApiModels(): Promise<ModelLoadResult> {
  * Check if face-api models are currently loaded
  */
 export function checkModelsLoaded(): boolean {
-  // Always return false since we've disabled model loading
-  return false;
+  return getModelStatus().allLoaded;
 }
 
 /**
@@ -45,11 +278,12 @@ export function getModelStatus(): {
   faceLandmark68Net: boolean;
   allLoaded: boolean;
 } {
-  // Always return false since we've disabled model loading
+  const tinyFaceDetector = !!nets.tinyFaceDetector.isLoaded;
+  const faceLandmark68Net = !!nets.faceLandmark68Net.isLoaded;
   return {
-    tinyFaceDetector: false,
-    faceLandmark68Net: false,
-    allLoaded: false
+    tinyFaceDetector,
+    faceLandmark68Net,
+    allLoaded: tinyFaceDetector && faceLandmark68Net
   };
 }
 
@@ -61,6 +295,7 @@ export async function runModelDiagnostic(): Promise<{
   faceApiAvailable: boolean;
   modelsLoaded: boolean;
   modelStatus: ReturnType<typeof getModelStatus>;
+  capabilities: CapabilityStatuses;
   recommendations: string[];
 }> {
   const diagnostic = {
@@ -68,6 +303,7 @@ export async function runModelDiagnostic(): Promise<{
     faceApiAvailable: false,
     modelsLoaded: false,
     modelStatus: getModelStatus(),
+    capabilities: getCapabilityStatuses(),
     recommendations: [] as string[]
   };
 
@@ -92,18 +328,14 @@ export async function runModelDiagnostic(): Promise<{
 
   // Check model status
   diagnostic.modelsLoaded = diagnostic.modelStatus.allLoaded;
-  
-  if (!diagnostic.modelsLoaded) {
-    diagnostic.recommendations.push('Face detection models need to be loaded');
-    
-    if (!diagnostic.modelStatus.tinyFaceDetector) {
-      diagnostic.recommendations.push('Tiny Face Detector model is missing');
-    }
-    
-    if (!diagnostic.modelStatus.faceLandmark68Net) {
-      diagnostic.recommendations.push('Face Landmark model is missing');
+
+  Object.values(diagnostic.capabilities).forEach(status => {
+    if (status.state === 'unavailable') {
+      diagnostic.recommendations.push(`${CAPABILITY_LABELS[status.capability]}: ${status.reason}`);
+    } else if (status.state === 'idle') {
+      diagnostic.recommendations.push(`${CAPABILITY_LABELS[status.capability]} loads on first use`);
     }
-  }
+  });
 
   return diagnostic;
 }
@@ -0,0 +1,105 @@
+/**
+ * Photo Aggregation
+ *
+ * Combines per-photo colour readings into one estimate. Readings far from
+ * the median (in CIEDE2000) are rejected as outliers, the rest are averaged
+ * in CIELAB weighted by confidence, and the spread of the survivors is
+ * reported so callers can tell a consistent feature from a guess.
+ */
+
+import { deltaE2000, hexToLab, labToHex, SIMILAR_COLOR_DELTA_E } from './colorScience';
+
+export interface ColorReading {
+  color: string;
+  weight: number;
+  photoIndex: number;
+}
+
+export interface AggregatedColor {
+  color: string;
+  // Mean squared CIEDE2000 of the inlier readings from the aggregate colour
+  variance: number;
+  standardDeviation: number;
+  inlierPhotos: number[];
+  outlierPhotos: number[];
+}
+
+// Readings further than this many median deviations from the median are outliers
+const OUTLIER_SPREAD = 2.5;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Aggregate one feature's readings. Needs at least one reading.
+ */
+export function aggregateColorReadings(readings: ColorReading[]): AggregatedColor {
+  const labs = readings.map((reading) => hexToLab(reading.color));
+  const center = {
+    l: median(labs.map((lab) => lab.l)),
+    a: median(labs.map((lab) => lab.a)),
+    b: median(labs.map((lab) => lab.b)),
+  };
+
+  // With two readings there is no majority to side with, so keep both
+  const distances = labs.map((lab) => deltaE2000(lab, center));
+  const limit = Math.max(SIMILAR_COLOR_DELTA_E, OUTLIER_SPREAD * median(distances));
+  const inliers = readings.length > 2 ? readings.filter((_, i) => distances[i] <= limit) : readings;
+  const outliers = readings.filter((reading) => !inliers.includes(reading));
+
+  const totalWeight = inliers.reduce((sum, reading) => sum + Math.max(reading.weight, 0.01), 0);
+  const mean = inliers.reduce(
+    (sum, reading) => {
+      const lab = labs[readings.indexOf(reading)];
+      const share = Math.max(reading.weight, 0.01) / totalWeight;
+      return { l: sum.l + lab.l * share, a: sum.a + lab.a * share, b: sum.b + lab.b * share };
+    },
+    { l: 0, a: 0, b: 0 },
+  );
+
+  const variance =
+    inliers.reduce((sum, reading) => sum + deltaE2000(labs[readings.indexOf(reading)], mean) ** 2, 0) /
+    inliers.length;
+
+  return {
+    color: labToHex(mean),
+    variance,
+    standardDeviation: Math.sqrt(variance),
+    inlierPhotos: inliers.map((reading) => reading.photoIndex),
+    outlierPhotos: outliers.map((reading) => reading.photoIndex),
+  };
+}
+
+/**
+ * Confidence-weighted majority of a categorical reading such as undertone.
+ */
+export function weightedVote<T extends string>(votes: Array<{ value: T; weight: number }>): T {
+  const totals = new Map<T, number>();
+  votes.forEach(({ value, weight }) => totals.set(value, (totals.get(value) || 0) + weight));
+  return Array.from(totals.entries()).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Average per-photo probability distributions, weighted by photo, and
+ * normalise so the result sums to 1.
+ */
+export function combineDistributions<T extends string>(
+  candidates: readonly T[],
+  distributions: Array<{ distribution: Partial<Record<T, number>>; weight: number }>,
+): Record<T, number> {
+  const combined = Object.fromEntries(candidates.map((candidate) => [candidate, 0])) as Record<T, number>;
+  distributions.forEach(({ distribution, weight }) => {
+    candidates.forEach((candidate) => {
+      combined[candidate] += (distribution[candidate] || 0) * weight;
+    });
+  });
+
+  const total = candidates.reduce((sum, candidate) => sum + combined[candidate], 0);
+  candidates.forEach((candidate) => {
+    combined[candidate] = total > 0 ? combined[candidate] / total : 1 / candidates.length;
+  });
+  return combined;
+}
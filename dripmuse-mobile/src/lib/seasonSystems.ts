@@ -0,0 +1,128 @@
+/**
+ * Season Systems
+ *
+ * Pluggable ways of refining a four-season result. The four-season system
+ * keeps ColorSeasonAnalysisService's own sub-season labels; the twelve- and
+ * sixteen-season systems place the person's contrast, warmth, clarity and
+ * depth on numeric axes and pick the nearest sub-season within their season.
+ */
+
+import type { ColorPalette } from '@/data/predefinedColorPalettes';
+import {
+  SIXTEEN_SEASON_EXTRAS,
+  TWELVE_SEASON_PALETTES,
+  type SubSeasonPalette,
+} from '@/data/subSeasonPalettes';
+
+export type BaseSeason = ColorPalette['colorSeason'];
+
+export interface SeasonCharacteristics {
+  contrast: 'high' | 'medium' | 'low';
+  warmth: 'warm' | 'cool' | 'neutral';
+  clarity: 'clear' | 'soft' | 'muted';
+  depth: 'light' | 'medium' | 'deep';
+}
+
+export interface SubSeasonMatch {
+  palette: SubSeasonPalette;
+  // 0.5 when the nearest two sub-seasons are equally close, 1 when the winner is unambiguous
+  confidence: number;
+}
+
+export interface SeasonSystem {
+  id: string;
+  name: string;
+  description: string;
+  // null keeps the four-season analysis unchanged
+  classify(season: BaseSeason, characteristics: SeasonCharacteristics): SubSeasonMatch | null;
+}
+
+const AXIS_VALUES = {
+  depth: { light: -1, medium: 0, deep: 1 },
+  warmth: { cool: -1, neutral: 0, warm: 1 },
+  clarity: { muted: -1, soft: -0.3, clear: 1 },
+  contrast: { low: -1, medium: 0, high: 1 },
+} as const;
+
+// Warmth and depth are read most reliably from a photo, so they count for more
+const AXIS_WEIGHTS = { depth: 1.2, warmth: 1.2, clarity: 1, contrast: 0.8 };
+
+/**
+ * Nearest sub-season of the given season by weighted distance on the four axes.
+ */
+export function matchSubSeason(
+  candidates: SubSeasonPalette[],
+  season: BaseSeason,
+  characteristics: SeasonCharacteristics,
+): SubSeasonMatch | null {
+  const point = {
+    depth: AXIS_VALUES.depth[characteristics.depth],
+    warmth: AXIS_VALUES.warmth[characteristics.warmth],
+    clarity: AXIS_VALUES.clarity[characteristics.clarity],
+    contrast: AXIS_VALUES.contrast[characteristics.contrast],
+  };
+
+  const ranked = candidates
+    .filter((candidate) => candidate.season === season)
+    .map((candidate) => ({
+      palette: candidate,
+      distance: (Object.keys(AXIS_WEIGHTS) as Array<keyof typeof AXIS_WEIGHTS>).reduce(
+        (sum, axis) => sum + AXIS_WEIGHTS[axis] * (point[axis] - candidate.profile[axis]) ** 2,
+        0,
+      ),
+    }))
+    .sort((a, b) => a.distance - b.distance);
+
+  if (ranked.length === 0) return null;
+  if (ranked.length === 1) return { palette: ranked[0].palette, confidence: 1 };
+
+  const [best, runnerUp] = ranked;
+  const margin = (runnerUp.distance - best.distance) / (runnerUp.distance + best.distance || 1);
+  return { palette: best.palette, confidence: 0.5 + margin / 2 };
+}
+
+const FOUR_SEASON_SYSTEM: SeasonSystem = {
+  id: 'four',
+  name: '4 Seasons',
+  description: 'Spring, Summer, Autumn and Winter',
+  classify: () => null,
+};
+
+const TWELVE_SEASON_SYSTEM: SeasonSystem = {
+  id: 'twelve',
+  name: '12 Seasons',
+  description: 'Each season split by its strongest trait: light, true, bright, soft or deep',
+  classify: (season, characteristics) => matchSubSeason(TWELVE_SEASON_PALETTES, season, characteristics),
+};
+
+const SIXTEEN_SEASON_SYSTEM: SeasonSystem = {
+  id: 'sixteen',
+  name: '16 Seasons',
+  description: 'The twelve seasons plus a neutral-undertone type in each season',
+  classify: (season, characteristics) =>
+    matchSubSeason([...TWELVE_SEASON_PALETTES, ...SIXTEEN_SEASON_EXTRAS], season, characteristics),
+};
+
+export const DEFAULT_SEASON_SYSTEM_ID = FOUR_SEASON_SYSTEM.id;
+
+const registry = new Map<string, SeasonSystem>(
+  [FOUR_SEASON_SYSTEM, TWELVE_SEASON_SYSTEM, SIXTEEN_SEASON_SYSTEM].map((system) => [system.id, system]),
+);
+
+/**
+ * Add or replace a season system; it then appears in getSeasonSystems.
+ */
+export function registerSeasonSystem(system: SeasonSystem): void {
+  registry.set(system.id, system);
+}
+
+/**
+ * Unknown ids fall back to the four-season system.
+ */
+export function getSeasonSystem(id: string = DEFAULT_SEASON_SYSTEM_ID): SeasonSystem {
+  return registry.get(id) ?? FOUR_SEASON_SYSTEM;
+}
+
+export function getSeasonSystems(): SeasonSystem[] {
+  return Array.from(registry.values());
+}
@@ -1,23 +1,11 @@
-export interface WardrobeItem {
-  id: string;
-  name: string;
-  photo_url: string;
-  category: string;
-  color: string[];
-  style: string;
-  occasion: string[];
-  season: string[];
-  tags: string[];
-}
+import { StyleItem, parseStyleItems } from "./wardrobeSchema";
+import type { WeatherData as ProviderWeatherData } from "./weatherProviders";
 
-export interface WeatherData {
-  temperature: number; // Celsius
-  condition: string; // clear, rain, snow, clouds, etc.
-  humidity: number;
-  windSpeed?: number;
-  description?: string;
-  location?: string;
-}
+// Defined once in wardrobeSchema; re-exported under the name the recommender has always used
+export type WardrobeItem = StyleItem;
+
+// Every weather provider normalises into this one shape
+export type WeatherData = ProviderWeatherData;
 
 export interface StyleProfile {
   id: string;
@@ -35,9 +23,93 @@ export interface OutfitRecommendation {
   confidence: number;
   description: string;
   reasoning: string[];
+  // Garment pairs that are distinct for typical vision but merge with a colour-vision deficiency
+  colorVisionWarnings?: DistinguishabilityWarning[];
+  // When to add or remove layers, if the context had an hourly forecast
+  layeringPlan?: LayeringPlan;
+}
+
+import {
+  advancedColorTheory,
+  AdvancedColorTheory,
+  ColorHarmonyResult,
+} from "./advancedColorTheory";
+import {
+  DEFAULT_NEGLECTED_AFTER_DAYS,
+  ItemWearStats,
+  WearLedger,
+} from "./wearAnalytics";
+import {
+  Clock,
+  createSeed,
+  createSeededRandom,
+  fixedClock,
+  RandomSource,
+  ScoreBreakdown,
+  systemClock,
+} from "./determinism";
+import { hexToLab, SIMILAR_COLOR_DELTA_E } from "./colorScience";
+import {
+  buildLayeringPlan,
+  DEFAULT_SCHEDULE,
+  LAYERING_SPREAD,
+  LayeringPlan,
+  layerRole,
+  OUTER_LAYER_BELOW,
+  RAIN_LIKELY,
+  removableLayers,
+  ScheduleWindow,
+  weatherForSchedule,
+} from "./layeringPlan";
+import type { HourlyForecast } from "./weatherForecast";
+import { colorDistance, resolveColorHex } from "./colorNames";
+import {
+  ColorVisionDeficiency,
+  DistinguishabilityWarning,
+  findIndistinguishableGarments,
+  simulatePalette,
+} from "./colorVision";
+import {
+  colorPairKey,
+  EMPTY_PREFERENCE_MODEL,
+  StylePreferenceModel,
+} from "./stylePreferenceModel";
+
+export type RecommendationContext = {
+  occasion: string;
+  timeOfDay?: string;
+  weather?: WeatherData;
+  prioritizeColors?: boolean;
+  // The day's and next day's hourly forecast and the hours the outfit is worn, for layering plans
+  hourly?: HourlyForecast[];
+  schedule?: ScheduleWindow;
+};
+
+/**
+ * Everything a generateRecommendations call depended on, captured before it
+ * ran. Plain JSON, so it can be attached to a bug report and fed to
+ * SimpleStyleAI.replay to regenerate the same recommendations.
+ */
+export interface RecommendationSnapshot {
+  seed: number;
+  generatedAt: number; // epoch milliseconds
+  wardrobeItems: WardrobeItem[];
+  profile: StyleProfile;
+  context: RecommendationContext;
+  includeAccessories: boolean;
+  state: {
+    usedItemsHistory: { [itemId: string]: number };
+    lastGenerationTime: number;
+    diversityBoost: boolean;
+    wearHistory: ItemWearStats[];
+    preferences: StylePreferenceModel;
+  };
 }
 
-import { advancedColorTheory, ColorHarmonyResult } from "./advancedColorTheory";
+export interface RecommendationReplay {
+  recommendations: OutfitRecommendation[];
+  breakdowns: { [outfitId: string]: ScoreBreakdown };
+}
 
 export class SimpleStyleAI {
   private usedItemsHistory: { [itemId: string]: number } = {};
@@ -49,13 +121,53 @@ export class SimpleStyleAI {
   private performanceMetrics: { [key: string]: number } = {};
   private generationStats: { [key: string]: any } = {};
   private useAdvancedColorTheory: boolean = true; // Enable advanced color theory
+  private wearHistory: WearLedger = new Map(); // Real wear logs, unlike the per-session usedItemsHistory
+  private preferences: StylePreferenceModel = EMPTY_PREFERENCE_MODEL; // Learned from outfit feedback
+  private readonly clock: Clock;
+  private readonly colorTheory: AdvancedColorTheory;
+  private random: RandomSource = Math.random; // Reseeded for every generation
+  private lastSnapshot: RecommendationSnapshot | null = null;
+  private scoreBreakdowns: { [outfitId: string]: ScoreBreakdown } = {};
+
+  constructor(options: { clock?: Clock } = {}) {
+    this.clock = options.clock ?? systemClock;
+    // The shared color theory reads the wall clock, so a custom clock needs its own
+    this.colorTheory = options.clock
+      ? new AdvancedColorTheory(this.clock)
+      : advancedColorTheory;
+  }
 
+  /**
+   * Pass `options.seed` to make the run reproducible; otherwise a fresh seed
+   * is drawn. Either way the inputs are captured and available from
+   * getLastSnapshot().
+   */
   generateRecommendations(
     wardrobeItems: WardrobeItem[],
     profile: StyleProfile,
-    context: { occasion: string; timeOfDay?: string; weather?: WeatherData; prioritizeColors?: boolean },
+    context: RecommendationContext,
     includeAccessories: boolean = true,
+    options: { seed?: number } = {},
   ): OutfitRecommendation[] {
+    const seed = options.seed ?? createSeed();
+    this.random = createSeededRandom(seed);
+    this.scoreBreakdowns = {};
+    this.lastSnapshot = {
+      seed,
+      generatedAt: this.clock.now(),
+      wardrobeItems: [...wardrobeItems],
+      profile: { ...profile },
+      context: { ...context },
+      includeAccessories,
+      state: {
+        usedItemsHistory: { ...this.usedItemsHistory },
+        lastGenerationTime: this.lastGenerationTime,
+        diversityBoost: this.diversityBoost,
+        wearHistory: [...this.wearHistory.values()],
+        preferences: this.preferences,
+      },
+    };
+
     return this.measurePerformance("generateRecommendations", () => {
       try {
         this.log("Starting recommendation generation", {
@@ -89,21 +201,27 @@ export class SimpleStyleAI {
           return [];
         }
 
-        // Validate wardrobe items
-        const validItems = wardrobeItems.filter((item) => {
-          if (!item || !item.id || !item.category || !item.color) {
-            console.warn("Invalid wardrobe item:", item);
-            return false;
-          }
-          return true;
-        });
+        // Judge the weather over the hours the outfit is worn, not a single reading
+        if (context.weather && context.hourly?.length) {
+          context = {
+            ...context,
+            weather: weatherForSchedule(
+              context.weather,
+              context.hourly,
+              context.schedule,
+            ),
+          };
+        }
+
+        // Upgrade legacy shapes and reject malformed items (logged by the schema)
+        const validItems = parseStyleItems(wardrobeItems);
 
         if (validItems.length === 0) {
           console.warn("No valid wardrobe items found");
           return [];
         }
 
-        const currentTime = Date.now();
+        const currentTime = this.lastSnapshot!.generatedAt;
 
         // Reset usage history more frequently for better variety
         if (currentTime - this.lastGenerationTime > 180000) {
@@ -209,7 +327,7 @@ export class SimpleStyleAI {
             console.log(
               "Returning best available outfits with lower confidence",
             );
-            return allScoredOutfits.slice(0, 3); // Return top 3 even if low confidence
+            return this.withLayeringPlans(allScoredOutfits.slice(0, 3), context); // Return top 3 even if low confidence
           }
 
           return [];
@@ -248,7 +366,7 @@ export class SimpleStyleAI {
           });
         }
 
-        return finalRecommendations; // Return top 10 diverse outfits
+        return this.withLayeringPlans(finalRecommendations, context); // Return top 10 diverse outfits
       } catch (error) {
         console.error("Unexpected error in generateRecommendations:", error);
         this.log("Error in generateRecommendations", error);
@@ -257,6 +375,21 @@ export class SimpleStyleAI {
     });
   }
 
+  private withLayeringPlans(
+    outfits: OutfitRecommendation[],
+    context: RecommendationContext,
+  ): OutfitRecommendation[] {
+    if (!context.hourly?.length) return outfits;
+    return outfits.map((outfit) => {
+      const layeringPlan = buildLayeringPlan(
+        outfit.items,
+        context.hourly!,
+        context.schedule ?? DEFAULT_SCHEDULE,
+      );
+      return layeringPlan ? { ...outfit, layeringPlan } : outfit;
+    });
+  }
+
   private calculateDiversityScore(items: WardrobeItem[]): number {
     let score = 1.0;
 
@@ -301,6 +434,11 @@ export class SimpleStyleAI {
         return items;
       }
 
+      // With hourly data the outfit has to cover the whole range it is worn through
+      const coldest = weather.temperatureMin ?? weather.temperature;
+      const warmest = weather.temperatureMax ?? weather.temperature;
+      const layered = warmest - coldest >= LAYERING_SPREAD;
+
       return items.filter((item) => {
         if (!item || !item.category) {
           console.warn("Invalid item in filterByWeather:", item);
@@ -309,7 +447,15 @@ export class SimpleStyleAI {
 
         try {
           // Temperature-based filtering
-          if (weather.temperature < 10) {
+          if (coldest < 10 && layered) {
+            // Cold start, warmer later - keep layers that can come off over lighter pieces
+            if (layerRole(item)) return true;
+            if (item.category === "shoes" && item.tags?.includes("boots"))
+              return true;
+            return (
+              !item.tags?.includes("heavy") && !item.tags?.includes("shorts")
+            );
+          } else if (coldest < 10) {
             // Cold weather - prefer warm items
             if (item.category === "outerwear" || item.tags?.includes("warm"))
               return true;
@@ -322,7 +468,7 @@ export class SimpleStyleAI {
             return (
               !item.tags?.includes("summer") && !item.tags?.includes("shorts")
             );
-          } else if (weather.temperature > 25) {
+          } else if (coldest > 25) {
             // Hot weather - prefer light, breathable items and avoid outerwear
             if (item.category === "outerwear") return false; // Explicitly exclude outerwear in hot weather
             if (
@@ -346,7 +492,7 @@ export class SimpleStyleAI {
           }
 
           // Weather condition filtering
-          if (weather.condition === "rain") {
+          if (this.isWet(weather)) {
             if (
               item.category === "outerwear" &&
               item.tags?.includes("waterproof")
@@ -490,7 +636,12 @@ export class SimpleStyleAI {
     const outerwear = this.shuffleArray(itemsByCategory.outerwear || []);
     const accessories = this.shuffleArray(itemsByCategory.accessories || []);
 
-    const shouldExcludeOuterwear = weather && weather.temperature > 25;
+    const shouldExcludeOuterwear =
+      weather && (weather.temperatureMin ?? weather.temperature) > 25;
+    // A cold start to an hourly-planned day always gets an outer layer
+    const needsOuterwear =
+      weather?.temperatureMin !== undefined &&
+      weather.temperatureMin < OUTER_LAYER_BELOW;
 
     // Sort items by color harmony potential (favor harmonious colors)
     const enhancedTops = this.enhanceItemsWithColorAnalysis(tops);
@@ -513,7 +664,7 @@ export class SimpleStyleAI {
 
       // Find shoes using advanced color harmony
       const harmoniousShoes = shoes.filter((shoe) => {
-        const harmonyResult = advancedColorTheory.analyzeColorHarmony(
+        const harmonyResult = this.colorTheory.analyzeColorHarmony(
           dress.color,
           shoe.color,
         );
@@ -537,11 +688,11 @@ export class SimpleStyleAI {
       // Add outerwear with color harmony consideration
       if (
         !shouldExcludeOuterwear &&
-        Math.random() > 0.6 &&
+        (needsOuterwear || this.random() > 0.6) &&
         outerwear.length > 0
       ) {
         const harmoniousOuterwear = outerwear.filter((coat) => {
-          const harmonyResult = advancedColorTheory.analyzeColorHarmony(
+          const harmonyResult = this.colorTheory.analyzeColorHarmony(
             dress.color,
             coat.color,
           );
@@ -557,7 +708,7 @@ export class SimpleStyleAI {
       if (includeAccessories && accessories.length > 0) {
         const outfitColors = outfit.flatMap((item) => item.color);
         const harmoniousAccessories = accessories.filter((acc) => {
-          const harmonyResult = advancedColorTheory.analyzeColorHarmony(
+          const harmonyResult = this.colorTheory.analyzeColorHarmony(
             outfitColors,
             acc.color,
           );
@@ -575,7 +726,7 @@ export class SimpleStyleAI {
         const accessoriesToUse = availableAccessories.length > 0 ? availableAccessories : harmoniousAccessories;
 
         // Include accessories more reliably - 80% chance instead of 50%
-        if (accessoriesToUse.length > 0 && Math.random() > 0.2) {
+        if (accessoriesToUse.length > 0 && this.random() > 0.2) {
           outfit.push(accessoriesToUse[0]);
         }
       }
@@ -614,7 +765,7 @@ export class SimpleStyleAI {
       }
 
       // Check color harmony using advanced theory
-      const harmonyResult = advancedColorTheory.analyzeColorHarmony(
+      const harmonyResult = this.colorTheory.analyzeColorHarmony(
         top.color,
         bottom.color,
       );
@@ -626,7 +777,7 @@ export class SimpleStyleAI {
         // Add shoes with color harmony consideration
         const outfitColors = [...top.color, ...bottom.color];
         const harmoniousShoes = shoes.filter((shoe) => {
-          const shoeHarmony = advancedColorTheory.analyzeColorHarmony(
+          const shoeHarmony = this.colorTheory.analyzeColorHarmony(
             outfitColors,
             shoe.color,
           );
@@ -643,11 +794,11 @@ export class SimpleStyleAI {
         // Add outerwear with harmony consideration
         if (
           !shouldExcludeOuterwear &&
-          Math.random() > 0.7 &&
+          (needsOuterwear || this.random() > 0.7) &&
           outerwear.length > 0
         ) {
           const harmoniousOuterwear = outerwear.filter((coat) => {
-            const coatHarmony = advancedColorTheory.analyzeColorHarmony(
+            const coatHarmony = this.colorTheory.analyzeColorHarmony(
               outfitColors,
               coat.color,
             );
@@ -663,7 +814,7 @@ export class SimpleStyleAI {
         if (includeAccessories && accessories.length > 0) {
           const currentOutfitColors = outfit.flatMap((item) => item.color);
           const harmoniousAccessories = accessories.filter((acc) => {
-            const accHarmony = advancedColorTheory.analyzeColorHarmony(
+            const accHarmony = this.colorTheory.analyzeColorHarmony(
               currentOutfitColors,
               acc.color,
             );
@@ -681,7 +832,7 @@ export class SimpleStyleAI {
           const accessoriesToUse = availableAccessories.length > 0 ? availableAccessories : harmoniousAccessories;
 
           // Include accessories more reliably - 75% chance instead of 40%
-          if (accessoriesToUse.length > 0 && Math.random() > 0.25) {
+          if (accessoriesToUse.length > 0 && this.random() > 0.25) {
             outfit.push(accessoriesToUse[0]);
           }
         }
@@ -703,7 +854,7 @@ export class SimpleStyleAI {
     return items
       .map((item) => {
         try {
-          const colorAnalysis = advancedColorTheory.analyzeColor(
+          const colorAnalysis = this.colorTheory.analyzeColor(
             item.color[0] || "neutral",
           );
           // Add color analysis as metadata (non-persistent)
@@ -1061,7 +1212,11 @@ export class SimpleStyleAI {
       }
 
       // Check if we should exclude outerwear due to high temperature
-      const shouldExcludeOuterwear = weather && weather.temperature > 25;
+      const shouldExcludeOuterwear =
+        weather && (weather.temperatureMin ?? weather.temperature) > 25;
+      const needsOuterwear =
+        weather?.temperatureMin !== undefined &&
+        weather.temperatureMin < OUTER_LAYER_BELOW;
 
       // Prioritize less-used items
       const sortByUsage = (a: WardrobeItem, b: WardrobeItem) => {
@@ -1102,7 +1257,7 @@ export class SimpleStyleAI {
           // Add outerwear only if temperature allows (strictly no outerwear above 25°C)
           if (
             !shouldExcludeOuterwear &&
-            Math.random() > 0.6 &&
+            (needsOuterwear || this.random() > 0.6) &&
             outerwear.length > 0
           ) {
             const suitableOuterwear = outerwear.find(
@@ -1134,7 +1289,7 @@ export class SimpleStyleAI {
             const accessoriesToUse = compatibleAccessories.length > 0 ? compatibleAccessories : suitableAccessories;
 
             // Include accessories more reliably - 70% chance
-            if (accessoriesToUse.length > 0 && Math.random() > 0.3) {
+            if (accessoriesToUse.length > 0 && this.random() > 0.3) {
               outfit.push(accessoriesToUse[0]);
             }
           }
@@ -1157,8 +1312,8 @@ export class SimpleStyleAI {
           bottom = bottoms[Math.floor(i / tops.length) % bottoms.length];
         } else {
           // Second half: random pairing for unexpected combinations
-          top = tops[Math.floor(Math.random() * tops.length)];
-          bottom = bottoms[Math.floor(Math.random() * bottoms.length)];
+          top = tops[Math.floor(this.random() * tops.length)];
+          bottom = bottoms[Math.floor(this.random() * bottoms.length)];
         }
 
         const pairKey = `${top.id}-${bottom.id}`;
@@ -1212,7 +1367,7 @@ export class SimpleStyleAI {
           // Add outerwear only if temperature allows (strictly no outerwear above 25°C)
           if (
             !shouldExcludeOuterwear &&
-            Math.random() > 0.7 &&
+            (needsOuterwear || this.random() > 0.7) &&
             outerwear.length > 0
           ) {
             const availableOuterwear = outerwear.find(
@@ -1242,7 +1397,7 @@ export class SimpleStyleAI {
             const accessoriesToUse = compatibleAccessories.length > 0 ? compatibleAccessories : availableAccessories;
 
             // Include accessories more reliably - 65% chance
-            if (accessoriesToUse.length > 0 && Math.random() > 0.35) {
+            if (accessoriesToUse.length > 0 && this.random() > 0.35) {
               outfit.push(accessoriesToUse[0]);
             }
           }
@@ -1293,7 +1448,7 @@ export class SimpleStyleAI {
   private shuffleArray<T>(array: T[]): T[] {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
     return shuffled;
@@ -1523,6 +1678,13 @@ export class SimpleStyleAI {
       let confidence = 0;
       const reasoning: string[] = [];
 
+      // Every adjustment goes through here so the breakdown adds up to the score
+      const factors: Record<string, number> = {};
+      const apply = (factor: string, amount: number) => {
+        factors[factor] = (factors[factor] || 0) + amount;
+        confidence += amount;
+      };
+
       // Enhanced scoring system with optimized weights
       const scoringWeights = {
         base: 0.05,
@@ -1537,14 +1699,16 @@ export class SimpleStyleAI {
         seasonality: 0.05, // New factor
         versatility: 0.04, // New factor
         trendiness: 0.03, // New factor
+        neglected: 0.06,
+        preference: 0.15, // Learned from the user's feedback; 0 until they leave some
       };
 
       // Base confidence for having valid items
-      confidence += scoringWeights.base;
+      apply("base", scoringWeights.base);
 
       // Enhanced diversity bonus with better explanations
       const diversityBonus = this.calculateDiversityScore(validItems);
-      confidence += diversityBonus * scoringWeights.diversity;
+      apply("diversity", diversityBonus * scoringWeights.diversity);
 
       if (diversityBonus > 1.0) {
         reasoning.push(
@@ -1575,7 +1739,7 @@ export class SimpleStyleAI {
 
       // Advanced style matching with cross-style compatibility
       const styleScore = this.calculateAdvancedStyleScore(validItems, profile);
-      confidence += styleScore * scoringWeights.style;
+      apply("style", styleScore * scoringWeights.style);
 
       if (styleScore > 0.9) {
         reasoning.push(
@@ -1596,12 +1760,12 @@ export class SimpleStyleAI {
         validItems,
         profile,
       );
-      confidence += colorHarmonyScore * scoringWeights.colorHarmony;
+      apply("colorHarmony", colorHarmonyScore * scoringWeights.colorHarmony);
 
       // Enhanced reasoning with advanced color theory insights
       if (this.useAdvancedColorTheory) {
         const allColors = validItems.flatMap((item) => item.color);
-        const overallHarmony = advancedColorTheory.findBestHarmony(allColors);
+        const overallHarmony = this.colorTheory.findBestHarmony(allColors);
 
         if (colorHarmonyScore > 0.8) {
           reasoning.push(
@@ -1641,7 +1805,7 @@ export class SimpleStyleAI {
         validItems,
         context.occasion,
       );
-      confidence += occasionScore * scoringWeights.occasion;
+      apply("occasion", occasionScore * scoringWeights.occasion);
 
       if (occasionScore > 0.9) {
         reasoning.push(`Perfectly tailored for ${context.occasion} occasions`);
@@ -1655,14 +1819,14 @@ export class SimpleStyleAI {
           validItems,
           context.weather,
         );
-        confidence += weatherScore * scoringWeights.weather;
+        apply("weather", weatherScore * scoringWeights.weather);
 
         if (weatherScore > 0.8) {
           reasoning.push(
             this.getAdvancedWeatherReasoning(outfit, context.weather),
           );
         } else if (weatherScore < 0.3) {
-          confidence -= 0.1; // Penalty for poor weather matching
+          apply("weather", -0.1); // Penalty for poor weather matching
           reasoning.push(
             `Consider weather conditions (${Math.round(context.weather.temperature)}°C)`,
           );
@@ -1671,7 +1835,7 @@ export class SimpleStyleAI {
 
       // Outfit completeness and balance
       const completenessScore = this.calculateCompletenessScore(validItems);
-      confidence += completenessScore * scoringWeights.completeness;
+      apply("completeness", completenessScore * scoringWeights.completeness);
 
       if (completenessScore > 0.9) {
         reasoning.push("Perfectly complete and well-balanced outfit");
@@ -1681,7 +1845,7 @@ export class SimpleStyleAI {
 
       // Trend relevance and fashion rules
       const fashionScore = this.calculateFashionScore(validItems, context);
-      confidence += fashionScore * scoringWeights.fashion;
+      apply("fashion", fashionScore * scoringWeights.fashion);
 
       // Pattern and texture analysis
       const patternAnalysis = this.checkPatternHarmony(validItems);
@@ -1703,7 +1867,7 @@ export class SimpleStyleAI {
 
       // Enhanced seasonal intelligence
       const seasonalScore = this.calculateEnhancedSeasonalScore(validItems);
-      confidence += seasonalScore * scoringWeights.seasonality;
+      apply("seasonality", seasonalScore * scoringWeights.seasonality);
 
       if (seasonalScore > 0.8) {
         reasoning.push("Perfect seasonal harmony for " + this.getCurrentSeason());
@@ -1713,7 +1877,7 @@ export class SimpleStyleAI {
 
       // Versatility scoring
       const versatilityScore = this.calculateVersatilityScore(validItems);
-      confidence += versatilityScore * scoringWeights.versatility;
+      apply("versatility", versatilityScore * scoringWeights.versatility);
 
       if (versatilityScore > 0.8) {
         reasoning.push("Highly versatile outfit for multiple occasions");
@@ -1723,7 +1887,7 @@ export class SimpleStyleAI {
 
       // Trend relevance scoring
       const trendinessScore = this.calculateTrendinessScore(validItems);
-      confidence += trendinessScore * scoringWeights.trendiness;
+      apply("trendiness", trendinessScore * scoringWeights.trendiness);
 
       if (trendinessScore > 0.7) {
         reasoning.push("On-trend styling with contemporary appeal");
@@ -1731,13 +1895,34 @@ export class SimpleStyleAI {
         reasoning.push("Incorporates current fashion elements");
       }
 
+      // Learned taste: can lift or sink the score
+      const preferenceScore = this.calculatePreferenceScore(
+        validItems,
+        context.occasion,
+      );
+      apply("preference", preferenceScore * scoringWeights.preference);
+
+      if (preferenceScore > 0.4) {
+        reasoning.push("Similar to outfits you've loved before");
+      } else if (preferenceScore > 0.2) {
+        reasoning.push("Leans into styles you tend to like");
+      }
+
+      // Favour pieces that have been sitting in the closet
+      const neglectedScore = this.calculateNeglectedScore(validItems);
+      apply("neglected", neglectedScore * scoringWeights.neglected);
+
+      if (neglectedScore >= 0.5) {
+        reasoning.push("Brings back pieces you haven't worn in a while");
+      }
+
       // Goal alignment (if user has specific goals)
       if (profile.goals && profile.goals.length > 0) {
         const goalScore = this.calculateGoalAlignment(
           validItems,
           profile.goals,
         );
-        confidence += goalScore * scoringWeights.goals;
+        apply("goals", goalScore * scoringWeights.goals);
 
         if (goalScore > 0.8) {
           reasoning.push("Perfectly aligns with your style goals");
@@ -1754,6 +1939,7 @@ export class SimpleStyleAI {
         .sort()
         .join("-");
       const style = this.determineOverallStyle(validItems);
+      this.scoreBreakdowns[outfitId] = { factors, total: confidence };
 
       return {
         id: outfitId,
@@ -1767,12 +1953,13 @@ export class SimpleStyleAI {
           confidence,
         ),
         reasoning,
+        colorVisionWarnings: this.getColorVisionWarnings(validItems),
       };
     } catch (error) {
       console.error("Error in scoreOutfit:", error);
       // Return a minimal valid outfit recommendation
       return {
-        id: "error-" + Date.now(),
+        id: "error-" + this.clock.now(),
         items: outfit.filter((item) => item && item.id) || [],
         occasion: context?.occasion || "unknown",
         style: "casual",
@@ -1783,6 +1970,72 @@ export class SimpleStyleAI {
     }
   }
 
+  /**
+   * How well an outfit matches the learned preference model, in [-1, 1].
+   * Averages whichever signals have evidence: the items themselves, their
+   * colour pairings, their styles, and those styles for this occasion.
+   */
+  private calculatePreferenceScore(
+    outfit: WardrobeItem[],
+    occasion: string,
+  ): number {
+    if (this.preferences.feedbackCount === 0) return 0;
+
+    const { itemAffinity, colorPairAffinity, styleWeights, occasionWeights } =
+      this.preferences;
+    const average = (values: (number | undefined)[]): number | null => {
+      const known = values.filter((value): value is number => value !== undefined);
+      return known.length > 0
+        ? known.reduce((sum, value) => sum + value, 0) / known.length
+        : null;
+    };
+
+    const pairs: (number | undefined)[] = [];
+    outfit.forEach((item, index) => {
+      outfit.slice(index + 1).forEach((other) => {
+        item.color.forEach((color) =>
+          other.color.forEach((otherColor) =>
+            pairs.push(colorPairAffinity[colorPairKey(color, otherColor)]),
+          ),
+        );
+      });
+    });
+
+    const styles = outfit.map((item) => item.style.toLowerCase());
+    const forOccasion = occasionWeights[occasion.toLowerCase()] || {};
+
+    const signals = [
+      average(outfit.map((item) => itemAffinity[item.id])),
+      average(pairs),
+      average(styles.map((style) => styleWeights[style])),
+      average(styles.map((style) => forOccasion[style])),
+    ].filter((signal): signal is number => signal !== null);
+
+    return signals.length > 0
+      ? signals.reduce((sum, signal) => sum + signal, 0) / signals.length
+      : 0;
+  }
+
+  // Scales a goal match by how the user has responded to these styles: 0.5x to 1.5x
+  private learnedStyleFactor(items: WardrobeItem[]): number {
+    const weights = items
+      .map((item) => this.preferences.styleWeights[item.style.toLowerCase()])
+      .filter((weight): weight is number => weight !== undefined);
+    if (weights.length === 0) return 1;
+    return 1 + (0.5 * weights.reduce((sum, weight) => sum + weight, 0)) / weights.length;
+  }
+
+  // Share of the outfit not worn within the neglect window (never-worn pieces count once they are old enough)
+  private calculateNeglectedScore(outfit: WardrobeItem[]): number {
+    if (this.wearHistory.size === 0) return 0;
+
+    const neglected = outfit.filter((item) => {
+      const daysSinceWorn = this.wearHistory.get(item.id)?.daysSinceWorn;
+      return daysSinceWorn != null && daysSinceWorn >= DEFAULT_NEGLECTED_AFTER_DAYS;
+    });
+    return neglected.length / outfit.length;
+  }
+
   private calculateWeatherScore(
     outfit: WardrobeItem[],
     weather: WeatherData,
@@ -1900,7 +2153,7 @@ export class SimpleStyleAI {
 
       // Use advanced color theory first, fallback to basic logic
       if (this.useAdvancedColorTheory) {
-        const harmonyResult = advancedColorTheory.analyzeColorHarmony(
+        const harmonyResult = this.colorTheory.analyzeColorHarmony(
           colors1,
           colors2,
         );
@@ -2145,7 +2398,7 @@ export class SimpleStyleAI {
       const normalizedColors = allColors.map(color => this.normalizeColorToHex(color));
 
       // Use advanced color theory to analyze the overall outfit harmony
-      const overallHarmony = advancedColorTheory.findBestHarmony(normalizedColors);
+      const overallHarmony = this.colorTheory.findBestHarmony(normalizedColors);
       let score = overallHarmony.confidence;
 
       // Enhanced bonus system for specific harmony types
@@ -2174,7 +2427,7 @@ export class SimpleStyleAI {
           const colors1 = outfit[i].color.map(c => this.normalizeColorToHex(c));
           const colors2 = outfit[j].color.map(c => this.normalizeColorToHex(c));
           
-          const pairHarmony = advancedColorTheory.analyzeColorHarmony(colors1, colors2);
+          const pairHarmony = this.colorTheory.analyzeColorHarmony(colors1, colors2);
           pairwiseScore += pairHarmony.confidence;
           pairCount++;
         }
@@ -2211,7 +2464,7 @@ export class SimpleStyleAI {
 
       // Enhanced seasonal color bonus with better matching
       const currentSeason = this.getCurrentSeason();
-      const seasonalPalette = advancedColorTheory.getCurrentSeasonalPalette();
+      const seasonalPalette = this.colorTheory.getCurrentSeasonalPalette();
       const seasonalMatches = this.calculateColorMatches(
         normalizedColors,
         seasonalPalette.hexPalette
@@ -2247,8 +2500,7 @@ export class SimpleStyleAI {
     
     for (const color1 of colors1) {
       for (const color2 of colors2) {
-        const distance = this.calculateColorDistance(color1, color2);
-        if (distance < 30) { // Threshold for color similarity in CIELAB space
+        if (colorDistance(color1, color2) < SIMILAR_COLOR_DELTA_E) {
           matches++;
         }
       }
@@ -2257,92 +2509,6 @@ export class SimpleStyleAI {
     return matches;
   }
 
-  /**
-   * Calculate color distance in CIELAB color space
-   */
-  private calculateColorDistance(color1: string, color2: string): number {
-    try {
-      const lab1 = this.hexToLab(color1);
-      const lab2 = this.hexToLab(color2);
-      
-      const deltaL = lab1.l - lab2.l;
-      const deltaA = lab1.a - lab2.a;
-      const deltaB = lab1.b - lab2.b;
-      
-      return Math.sqrt(deltaL * deltaL + deltaA * deltaA + deltaB * deltaB);
-    } catch (error) {
-      // Fallback to simple hex comparison
-      return color1 === color2 ? 0 : 100;
-    }
-  }
-
-  /**
-   * Convert hex color to CIELAB color space
-   */
-  private hexToLab(hex: string): { l: number; a: number; b: number } {
-    const rgb = this.hexToRgb(hex);
-    return this.rgbToLab(rgb.r, rgb.g, rgb.b);
-  }
-
-  /**
-   * Convert hex to RGB
-   */
-  private hexToRgb(hex: string): { r: number; g: number; b: number } {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16)
-    } : { r: 0, g: 0, b: 0 };
-  }
-
-  /**
-   * Convert RGB to CIELAB color space
-   */
-  private rgbToLab(r: number, g: number, b: number): { l: number; a: number; b: number } {
-    // Convert RGB to XYZ
-    const xyz = this.rgbToXyz(r, g, b);
-    
-    // Convert XYZ to CIELAB
-    const xn = 0.95047, yn = 1.00000, zn = 1.08883; // D65 illuminant
-    
-    const xr = this.xyzToLab(xyz.x / xn);
-    const yr = this.xyzToLab(xyz.y / yn);
-    const zr = this.xyzToLab(xyz.z / zn);
-    
-    const l = 116 * yr - 16;
-    const a = 500 * (xr - yr);
-    const bValue = 200 * (yr - zr);
-    
-    return { l, a, b: bValue };
-  }
-
-  /**
-   * Convert RGB to XYZ
-   */
-  private rgbToXyz(r: number, g: number, b: number): { x: number; y: number; z: number } {
-    r = r / 255;
-    g = g / 255;
-    b = b / 255;
-    
-    r = r > 0.04045 ? Math.pow((r + 0.055) / 1.055, 2.4) : r / 12.92;
-    g = g > 0.04045 ? Math.pow((g + 0.055) / 1.055, 2.4) : g / 12.92;
-    b = b > 0.04045 ? Math.pow((b + 0.055) / 1.055, 2.4) : b / 12.92;
-    
-    const x = r * 0.4124 + g * 0.3576 + b * 0.1805;
-    const y = r * 0.2126 + g * 0.7152 + b * 0.0722;
-    const z = r * 0.0193 + g * 0.1192 + b * 0.9505;
-    
-    return { x, y, z };
-  }
-
-  /**
-   * Helper function for CIELAB conversion
-   */
-  private xyzToLab(t: number): number {
-    return t > 0.008856 ? Math.pow(t, 1/3) : (7.787 * t) + (16 / 116);
-  }
-
   /**
    * Calculate temperature harmony score
    */
@@ -2377,121 +2543,32 @@ export class SimpleStyleAI {
    * Get color temperature
    */
   private getColorTemperature(color: string): "warm" | "cool" | "neutral" {
-    try {
-      const lab = this.hexToLab(color);
+    const hex = resolveColorHex(color);
+    if (hex) {
+      const lab = hexToLab(hex);
       
       // Warm colors have positive a and b values
       // Cool colors have negative a and b values
       if (lab.a > 5 && lab.b > 5) return "warm";
       if (lab.a < -5 && lab.b < -5) return "cool";
       return "neutral";
-    } catch (error) {
-      // Fallback to keyword matching
-      const warmKeywords = ['red', 'orange', 'yellow', 'pink', 'coral', 'peach'];
-      const coolKeywords = ['blue', 'green', 'purple', 'teal', 'navy', 'mint'];
-      
-      const lowerColor = color.toLowerCase();
-      if (warmKeywords.some(k => lowerColor.includes(k))) return "warm";
-      if (coolKeywords.some(k => lowerColor.includes(k))) return "cool";
-      return "neutral";
     }
+
+    // Fallback to keyword matching
+    const warmKeywords = ['red', 'orange', 'yellow', 'pink', 'coral', 'peach'];
+    const coolKeywords = ['blue', 'green', 'purple', 'teal', 'navy', 'mint'];
+    
+    const lowerColor = color.toLowerCase();
+    if (warmKeywords.some(k => lowerColor.includes(k))) return "warm";
+    if (coolKeywords.some(k => lowerColor.includes(k))) return "cool";
+    return "neutral";
   }
 
   /**
    * Normalize color to hex format for consistent comparison
    */
   private normalizeColorToHex(color: string): string {
-    // If already hex format, return as is
-    if (color.startsWith('#')) {
-      return color.toUpperCase();
-    }
-    
-         // Try to convert color names to hex
-     const colorMap: { [key: string]: string } = {
-       'red': '#FF0000',
-       'blue': '#0000FF',
-       'green': '#008000',
-       'yellow': '#FFFF00',
-       'orange': '#FFA500',
-       'purple': '#800080',
-       'pink': '#FFC0CB',
-       'brown': '#A52A2A',
-       'black': '#000000',
-       'white': '#FFFFFF',
-       'gray': '#808080',
-       'grey': '#808080',
-       'navy': '#000080',
-       'coral': '#FF7F50',
-       'teal': '#008080',
-       'mint': '#98FB98',
-       'sage': '#9CAF88',
-       'beige': '#F5F5DC',
-       'cream': '#FFFDD0',
-       'ivory': '#FFFFF0',
-       'charcoal': '#36454F',
-       'burgundy': '#800020',
-       'forest': '#228B22',
-       'olive': '#808000',
-       'rust': '#B7410E',
-       'gold': '#FFD700',
-       'silver': '#C0C0C0',
-       'bronze': '#CD7F32',
-       'rose': '#FF007F',
-       'lavender': '#E6E6FA',
-       'plum': '#DDA0DD',
-       'mauve': '#E0B0FF',
-       'lilac': '#C8A2C8',
-       'amethyst': '#9966CC',
-       'orchid': '#DA70D6',
-       'grape': '#6F2DA8',
-       'eggplant': '#614051',
-       'crimson': '#DC143C',
-       'maroon': '#800000',
-       'cherry': '#DE3163',
-       'salmon': '#FA8072',
-       'blush': '#FFB6C1',
-       'fuchsia': '#FF00FF',
-       'magenta': '#FF00FF',
-       'royal': '#4169E1',
-       'sky': '#87CEEB',
-       'powder': '#B0E0E6',
-       'turquoise': '#40E0D0',
-       'cyan': '#00FFFF',
-       'cerulean': '#007BA7',
-       'cobalt': '#0047AB',
-       'indigo': '#4B0082',
-       'sapphire': '#0F52BA',
-       'lime': '#32CD32',
-       'emerald': '#50C878',
-       'jade': '#00A86B',
-       'kelly': '#4CBB17',
-       'hunter': '#355E35',
-       'chartreuse': '#7FFF00',
-       'seafoam': '#98FF98',
-       'mustard': '#FFDB58',
-       'lemon': '#FFF700',
-       'butter': '#FFF4C4',
-       'champagne': '#F7E7CE',
-       'amber': '#FFBF00',
-       'honey': '#FDB347',
-       'canary': '#FFFF99',
-       'saffron': '#F4C430',
-       'peach': '#FFCBA4',
-       'apricot': '#FBCEB1',
-       'tangerine': '#FFA500',
-       'papaya': '#FFEFD5',
-       'persimmon': '#EC5800',
-       'violet': '#EE82EE',
-       'tan': '#D2B48C',
-       'taupe': '#483C32',
-       'khaki': '#F0E68C',
-       'camel': '#C19A6B',
-       'nude': '#E3BC9A',
-       'stone': '#928E85',
-     };
-    
-    const lowerColor = color.toLowerCase();
-    return colorMap[lowerColor] || '#808080'; // Default to gray if unknown
+    return resolveColorHex(color) || '#808080'; // Default to gray if unknown
   }
 
   private calculateSimplifiedColorHarmony(
@@ -2719,6 +2796,41 @@ export class SimpleStyleAI {
   private calculateAdvancedWeatherScore(
     outfit: WardrobeItem[],
     weather: WeatherData,
+  ): number {
+    const coldest = weather.temperatureMin;
+    const warmest = weather.temperatureMax;
+    if (
+      coldest === undefined ||
+      warmest === undefined ||
+      warmest - coldest < LAYERING_SPREAD
+    ) {
+      return this.scoreWeatherAtTemperature(outfit, weather);
+    }
+
+    // Everything is worn at the coldest hour; removable layers come off by the warmest
+    const removable = new Set(removableLayers(outfit).map(({ item }) => item.id));
+    const base = outfit.filter((item) => !removable.has(item.id));
+    const coldScore = this.scoreWeatherAtTemperature(outfit, {
+      ...weather,
+      temperature: coldest,
+    });
+    const warmScore = this.scoreWeatherAtTemperature(
+      base.length > 0 ? base : outfit,
+      { ...weather, temperature: warmest },
+    );
+    return (coldScore + warmScore) / 2;
+  }
+
+  private isWet(weather: WeatherData): boolean {
+    return (
+      weather.condition === "rain" ||
+      (weather.precipitationProbability ?? 0) >= RAIN_LIKELY
+    );
+  }
+
+  private scoreWeatherAtTemperature(
+    outfit: WardrobeItem[],
+    weather: WeatherData,
   ): number {
     let score = 0;
     let totalItems = outfit.length;
@@ -2802,7 +2914,7 @@ export class SimpleStyleAI {
       }
 
       // Weather condition appropriateness
-      if (weather.condition === "rain") {
+      if (this.isWet(weather)) {
         if (
           item.tags?.some((tag) =>
             ["waterproof", "water-resistant"].includes(tag),
@@ -2940,6 +3052,7 @@ export class SimpleStyleAI {
     outfit: WardrobeItem[],
     goals: string[],
   ): number {
+    // Each match is scaled by how the user has responded to those styles
     let score = 0;
 
     goals.forEach((goal) => {
@@ -2949,33 +3062,30 @@ export class SimpleStyleAI {
         goalLower.includes("confident") ||
         goalLower.includes("professional")
       ) {
-        if (
-          outfit.some((item) =>
-            ["business", "formal", "structured"].includes(item.style),
-          )
-        ) {
-          score += 0.3;
+        const matches = outfit.filter((item) =>
+          ["business", "formal", "structured"].includes(item.style),
+        );
+        if (matches.length > 0) {
+          score += 0.3 * this.learnedStyleFactor(matches);
         }
       }
 
       if (goalLower.includes("comfortable") || goalLower.includes("casual")) {
-        if (
-          outfit.some(
-            (item) =>
-              item.tags?.includes("comfortable") || item.style === "casual",
-          )
-        ) {
-          score += 0.3;
+        const matches = outfit.filter(
+          (item) =>
+            item.tags?.includes("comfortable") || item.style === "casual",
+        );
+        if (matches.length > 0) {
+          score += 0.3 * this.learnedStyleFactor(matches);
         }
       }
 
       if (goalLower.includes("trendy") || goalLower.includes("fashion")) {
-        if (
-          outfit.some((item) =>
-            ["trendy", "modern", "contemporary"].includes(item.style),
-          )
-        ) {
-          score += 0.3;
+        const matches = outfit.filter((item) =>
+          ["trendy", "modern", "contemporary"].includes(item.style),
+        );
+        if (matches.length > 0) {
+          score += 0.3 * this.learnedStyleFactor(matches);
         }
       }
 
@@ -2986,7 +3096,7 @@ export class SimpleStyleAI {
               item.style === "versatile" || item.occasion.includes("versatile"),
           )
         ) {
-          score += 0.4;
+          score += 0.4 * this.learnedStyleFactor(outfit);
         }
       }
     });
@@ -3048,8 +3158,16 @@ export class SimpleStyleAI {
     weather: WeatherData,
   ): string {
     const temp = Math.round(weather.temperature);
+    const coldest = weather.temperatureMin;
+    const warmest = weather.temperatureMax;
 
-    if (weather.temperature < 10) {
+    if (
+      coldest !== undefined &&
+      warmest !== undefined &&
+      warmest - coldest >= LAYERING_SPREAD
+    ) {
+      return `Layered for ${coldest}–${warmest}°C through the day, with pieces to take off as it warms`;
+    } else if (weather.temperature < 10) {
       return `Expertly layered for cold weather (${temp}°C) with proper insulation`;
     } else if (weather.temperature > 25) {
       return `Optimally chosen for warm conditions (${temp}��C) with breathable pieces`;
@@ -3353,7 +3471,7 @@ export class SimpleStyleAI {
     }
 
     // If no specific match, be very permissive to ensure combinations
-    return Math.random() > 0.1; // 90% chance colors work together
+    return this.random() > 0.1; // 90% chance colors work together
   }
 
   private getSeasonalColorPalette(season: string): string[] {
@@ -3693,95 +3811,6 @@ export class SimpleStyleAI {
     return "medium";
   }
 
-  private validateWardrobeItem(item: WardrobeItem): boolean {
-    try {
-      if (!item || typeof item !== "object") {
-        return false;
-      }
-
-      // Required fields
-      if (!item.id || typeof item.id !== "string" || item.id.trim() === "") {
-        console.warn("Invalid item ID:", item.id);
-        return false;
-      }
-
-      if (
-        !item.name ||
-        typeof item.name !== "string" ||
-        item.name.trim() === ""
-      ) {
-        console.warn("Invalid item name:", item.name);
-        return false;
-      }
-
-      if (
-        !item.category ||
-        typeof item.category !== "string" ||
-        item.category.trim() === ""
-      ) {
-        console.warn("Invalid item category:", item.category);
-        return false;
-      }
-
-      if (
-        !item.color ||
-        !Array.isArray(item.color) ||
-        item.color.length === 0
-      ) {
-        console.warn("Invalid item color:", item.color);
-        return false;
-      }
-
-      // Validate color array
-      if (
-        !item.color.every(
-          (color) => typeof color === "string" && color.trim() !== "",
-        )
-      ) {
-        console.warn("Invalid colors in item:", item.color);
-        return false;
-      }
-
-      // Optional fields validation
-      if (item.style && typeof item.style !== "string") {
-        console.warn("Invalid item style:", item.style);
-        return false;
-      }
-
-      if (
-        item.occasion &&
-        (!Array.isArray(item.occasion) ||
-          !item.occasion.every((occ) => typeof occ === "string"))
-      ) {
-        console.warn("Invalid item occasion:", item.occasion);
-        return false;
-      }
-
-      if (
-        item.season &&
-        (!Array.isArray(item.season) ||
-          !item.season.every((season) => typeof season === "string"))
-      ) {
-        console.warn("Invalid item season:", item.season);
-        return false;
-      }
-
-      if (
-        item.tags &&
-        (!Array.isArray(item.tags) ||
-          !item.tags.every((tag) => typeof tag === "string"))
-      ) {
-        console.warn("Invalid item tags:", item.tags);
-        return false;
-      }
-
-      return true;
-    } catch (error) {
-      console.error("Error validating wardrobe item:", error);
-      return false;
-    }
-  }
-
   private validateStyleProfile(profile: StyleProfile): boolean {
     try {
       if (!profile || typeof profile !== "object") {
@@ -3901,39 +3930,6 @@ export class SimpleStyleAI {
     }
   }
 
-  private sanitizeWardrobeItems(items: WardrobeItem[]): WardrobeItem[] {
-    try {
-      if (!Array.isArray(items)) {
-        return [];
-      }
-
-      return items
-        .filter((item) => this.validateWardrobeItem(item))
-        .map((item) => ({
-          ...item,
-          name: item.name.trim(),
-          category: item.category.trim().toLowerCase(),
-          color: item.color
-            .map((c) => c.trim().toLowerCase())
-            .filter((c) => c !== ""),
-          style: item.style?.trim().toLowerCase() || "casual",
-          occasion: item.occasion
-            ?.map((o) => o.trim().toLowerCase())
-            .filter((o) => o !== "") || ["casual"],
-          season: item.season
-            ?.map((s) => s.trim().toLowerCase())
-            .filter((s) => s !== "") || ["all"],
-          tags:
-            item.tags
-              ?.map((t) => t.trim().toLowerCase())
-              .filter((t) => t !== "") || [],
-        }));
-    } catch (error) {
-      console.error("Error sanitizing wardrobe items:", error);
-      return [];
-    }
-  }
-
   /**
    * Calculate enhanced seasonal appropriateness score
    */
@@ -4103,7 +4099,7 @@ export class SimpleStyleAI {
   }
 
   private getCurrentSeason(): string {
-    const month = new Date().getMonth() + 1; // 1-12
+    const month = new Date(this.clock.now()).getMonth() + 1; // 1-12
 
     if (month >= 3 && month <= 5) {
       return "spring";
@@ -4150,6 +4146,109 @@ export class SimpleStyleAI {
     this.log(`Debug mode ${enabled ? "enabled" : "disabled"}`);
   }
 
+  /**
+   * Feed in the wear ledger (see wearAnalytics) so recommendations can
+   * favour neglected pieces. Pass an empty map to turn this off.
+   */
+  public setWearHistory(ledger: WearLedger): void {
+    this.wearHistory = ledger;
+    this.log("Wear history updated", { items: ledger.size });
+  }
+
+  /**
+   * Feed in the model learned from the user's outfit feedback (see
+   * stylePreferenceModel). Pass EMPTY_PREFERENCE_MODEL to turn this off.
+   */
+  public setPreferenceModel(model: StylePreferenceModel): void {
+    this.preferences = model;
+    this.log("Preference model updated", { feedback: model.feedbackCount });
+  }
+
+  /**
+   * Inputs and state of the most recent generateRecommendations call.
+   */
+  public getLastSnapshot(): RecommendationSnapshot | null {
+    return this.lastSnapshot;
+  }
+
+  /**
+   * How each factor contributed to an outfit's confidence in the most
+   * recent generation.
+   */
+  public getScoreBreakdown(outfitId: string): ScoreBreakdown | undefined {
+    return this.scoreBreakdowns[outfitId];
+  }
+
+  /**
+   * Regenerate exactly the recommendations a snapshot produced, with their
+   * score breakdowns. Runs on a throwaway instance pinned to the snapshot's
+   * time, so the shared singleton is untouched.
+   */
+  public static replay(snapshot: RecommendationSnapshot): RecommendationReplay {
+    const ai = new SimpleStyleAI({ clock: fixedClock(snapshot.generatedAt) });
+    ai.usedItemsHistory = { ...snapshot.state.usedItemsHistory };
+    ai.lastGenerationTime = snapshot.state.lastGenerationTime;
+    ai.diversityBoost = snapshot.state.diversityBoost;
+    ai.wearHistory = new Map(
+      snapshot.state.wearHistory.map((stats) => [stats.item_id, stats]),
+    );
+    ai.preferences = snapshot.state.preferences;
+
+    const recommendations = ai.generateRecommendations(
+      snapshot.wardrobeItems,
+      snapshot.profile,
+      snapshot.context,
+      snapshot.includeAccessories,
+      { seed: snapshot.seed },
+    );
+
+    return { recommendations, breakdowns: { ...ai.scoreBreakdowns } };
+  }
+
+  /**
+   * Pairs of garments in an outfit that collapse to nearly the same
+   * perceived colour for one of the colour-vision deficiencies.
+   */
+  public getColorVisionWarnings(
+    outfit: WardrobeItem[],
+  ): DistinguishabilityWarning[] {
+    return findIndistinguishableGarments(
+      outfit.map((item) => ({
+        id: item.id,
+        name: item.name,
+        colors: item.color,
+      })),
+    );
+  }
+
+  /**
+   * Each garment's colours as they would look with a colour-vision
+   * deficiency, keyed by item id. Colours that cannot be resolved are left out.
+   */
+  public simulateOutfitColors(
+    outfit: WardrobeItem[],
+    deficiency: ColorVisionDeficiency,
+  ): Record<string, string[]> {
+    const simulated: Record<string, string[]> = {};
+    outfit.forEach((item) => {
+      simulated[item.id] = simulatePalette(
+        item.color.filter((color) => resolveColorHex(color)),
+        deficiency,
+      );
+    });
+    return simulated;
+  }
+
+  /**
+   * How well an existing outfit suits the given weather, from 0 to 1, on the
+   * same scale generateRecommendations uses (below 0.3 is a poor match).
+   */
+  public scoreWeatherFit(outfit: WardrobeItem[], weather: WeatherData): number {
+    const validItems = parseStyleItems(outfit);
+    if (validItems.length === 0) return 0;
+    return this.calculateAdvancedWeatherScore(validItems, weather);
+  }
+
   public getPerformanceMetrics(): { [key: string]: number } {
     return { ...this.performanceMetrics };
   }
@@ -4250,7 +4349,7 @@ export class SimpleStyleAI {
           })),
         },
         metadata: {
-          timestamp: new Date().toISOString(),
+          timestamp: new Date(this.clock.now()).toISOString(),
           usageHistory: { ...this.usedItemsHistory },
           season: this.getCurrentSeason(),
         },
@@ -0,0 +1,143 @@
+/**
+ * Style Preference Model
+ *
+ * Learns what a user likes from the feedback they leave on recommended
+ * outfits. Every like, rejection and "wore it" nudges the affinities of the
+ * items, colour pairs and styles in that outfit; older feedback fades so the
+ * model follows changing taste.
+ */
+
+import type { StyleItem } from './wardrobeSchema';
+
+export type FeedbackSignal = 'like' | 'dislike' | 'wore';
+
+export interface FeedbackEvent {
+  outfit_item_ids: string[];
+  feedback: FeedbackSignal;
+  occasion?: string;
+  created_at: string;
+}
+
+type PreferenceItem = Pick<StyleItem, 'id' | 'color' | 'style'>;
+
+/**
+ * All affinities are in (-1, 1): positive means the user responds well,
+ * negative means they tend to reject it, 0 means no evidence either way.
+ */
+export interface StylePreferenceModel {
+  itemAffinity: Record<string, number>;
+  colorPairAffinity: Record<string, number>;
+  styleWeights: Record<string, number>;
+  // Style affinity per occasion, e.g. occasionWeights.work.formal
+  occasionWeights: Record<string, Record<string, number>>;
+  feedbackCount: number;
+}
+
+// Actually wearing an outfit says more than a tap on a button
+const SIGNAL_WEIGHTS: Record<FeedbackSignal, number> = {
+  like: 1,
+  dislike: -1,
+  wore: 1.5,
+};
+
+// Feedback loses half its influence every this many days
+const HALF_LIFE_DAYS = 45;
+
+// Evidence needed before an affinity approaches ±1; keeps one click from dominating
+const PRIOR_STRENGTH = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EMPTY_PREFERENCE_MODEL: StylePreferenceModel = {
+  itemAffinity: {},
+  colorPairAffinity: {},
+  styleWeights: {},
+  occasionWeights: {},
+  feedbackCount: 0,
+};
+
+/**
+ * Order-independent key for a pair of colours.
+ */
+export const colorPairKey = (a: string, b: string): string =>
+  [a.toLowerCase(), b.toLowerCase()].sort().join('|');
+
+class Tally {
+  private sums = new Map<string, { signed: number; total: number }>();
+
+  add(key: string, weight: number): void {
+    const entry = this.sums.get(key) || { signed: 0, total: 0 };
+    entry.signed += weight;
+    entry.total += Math.abs(weight);
+    this.sums.set(key, entry);
+  }
+
+  toAffinities(): Record<string, number> {
+    const affinities: Record<string, number> = {};
+    this.sums.forEach(({ signed, total }, key) => {
+      affinities[key] = signed / (total + PRIOR_STRENGTH);
+    });
+    return affinities;
+  }
+}
+
+export function learnPreferences(
+  feedback: FeedbackEvent[],
+  items: PreferenceItem[],
+  now: Date = new Date(),
+): StylePreferenceModel {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const itemTally = new Tally();
+  const colorTally = new Tally();
+  const styleTally = new Tally();
+  const occasionTallies = new Map<string, Tally>();
+
+  for (const event of feedback) {
+    const ageDays = Math.max(0, (now.getTime() - new Date(event.created_at).getTime()) / DAY_MS);
+    const weight = SIGNAL_WEIGHTS[event.feedback] * Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+    if (!isFinite(weight)) continue;
+
+    // Items removed from the wardrobe still count towards item affinity
+    event.outfit_item_ids.forEach((id) => itemTally.add(id, weight));
+
+    const outfitItems = event.outfit_item_ids
+      .map((id) => itemsById.get(id))
+      .filter((item): item is PreferenceItem => !!item);
+
+    const occasion = event.occasion?.toLowerCase();
+    let occasionTally = occasion ? occasionTallies.get(occasion) : undefined;
+    if (occasion && !occasionTally) {
+      occasionTally = new Tally();
+      occasionTallies.set(occasion, occasionTally);
+    }
+
+    const styles = new Set(outfitItems.map((item) => item.style.toLowerCase()));
+    styles.forEach((style) => {
+      styleTally.add(style, weight);
+      occasionTally?.add(style, weight);
+    });
+
+    const pairs = new Set<string>();
+    outfitItems.forEach((item, index) => {
+      outfitItems.slice(index + 1).forEach((other) => {
+        item.color.forEach((color) =>
+          other.color.forEach((otherColor) => pairs.add(colorPairKey(color, otherColor))),
+        );
+      });
+    });
+    pairs.forEach((pair) => colorTally.add(pair, weight));
+  }
+
+  const occasionWeights: Record<string, Record<string, number>> = {};
+  occasionTallies.forEach((tally, occasion) => {
+    occasionWeights[occasion] = tally.toAffinities();
+  });
+
+  return {
+    itemAffinity: itemTally.toAffinities(),
+    colorPairAffinity: colorTally.toAffinities(),
+    styleWeights: styleTally.toAffinities(),
+    occasionWeights,
+    feedbackCount: feedback.length,
+  };
+}
@@ -0,0 +1,189 @@
+import { z } from 'zod';
+
+/**
+ * The single definition of a wardrobe item. Every read and write boundary
+ * (SQLite, Supabase, sync, imports) goes through the parse helpers below, so
+ * the rest of the app can trust the shape instead of re-validating it.
+ *
+ * Bump WARDROBE_ITEM_SCHEMA_VERSION whenever the shape changes and append a
+ * migration that upgrades the previous version.
+ */
+export const WARDROBE_ITEM_SCHEMA_VERSION = 2;
+
+const label = z.string().trim().min(1);
+const labelList = z.array(label);
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a YYYY-MM-DD date');
+const price = z.number().nonnegative();
+
+// The fields the recommender works with
+export const styleItemSchema = z.object({
+  id: label,
+  name: label,
+  photo_url: z.string(),
+  category: label,
+  color: labelList,
+  style: label,
+  occasion: labelList,
+  season: labelList,
+  tags: labelList,
+  purchase_price: price.optional(),
+  purchase_date: isoDate.optional(),
+});
+
+export const wardrobeItemSchema = styleItemSchema.extend({
+  schema_version: z.literal(WARDROBE_ITEM_SCHEMA_VERSION),
+  user_id: label,
+  created_at: label,
+  updated_at: label,
+});
+
+// What a caller supplies to create an item; everything but name and category has a default
+export const wardrobeItemInputSchema = z.object({
+  name: label,
+  category: label,
+  photo_url: z.string().default(''),
+  color: labelList.default([]),
+  style: label.default('casual'),
+  occasion: labelList.default([]),
+  season: labelList.default([]),
+  tags: labelList.default([]),
+  purchase_price: price.optional(),
+  purchase_date: isoDate.optional(),
+});
+
+export const wardrobeItemUpdateSchema = styleItemSchema.omit({ id: true }).partial();
+
+export type StyleItem = z.infer<typeof styleItemSchema>;
+export type WardrobeItem = z.infer<typeof wardrobeItemSchema>;
+export type NewWardrobeItem = z.infer<typeof wardrobeItemInputSchema>;
+export type WardrobeItemInput = z.input<typeof wardrobeItemInputSchema>;
+export type WardrobeItemUpdates = z.infer<typeof wardrobeItemUpdateSchema>;
+
+export class WardrobeItemValidationError extends Error {
+  constructor(public readonly issues: z.ZodIssue[], public readonly item: unknown) {
+    super(
+      `Invalid wardrobe item: ${issues
+        .map(issue => `${issue.path.join('.') || 'item'} ${issue.message.toLowerCase()}`)
+        .join('; ')}`
+    );
+    this.name = 'WardrobeItemValidationError';
+  }
+}
+
+export interface RejectedWardrobeItem {
+  item: unknown;
+  error: WardrobeItemValidationError;
+}
+
+type RawItem = Record<string, any>;
+
+const toList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value.filter(entry => typeof entry !== 'string' || entry.trim() !== '');
+  if (typeof value === 'string') return value.split(',').map(entry => entry.trim()).filter(Boolean);
+  return [];
+};
+
+/**
+ * Migrations keyed by the version they upgrade from. Items written before
+ * versioning carry no `schema_version` and are treated as version 0.
+ */
+const WARDROBE_ITEM_MIGRATIONS: Record<number, (item: RawItem) => RawItem> = {
+  // Version 0: the shapes the web app, AsyncStorage and the first SQLite
+  // tables produced. `color` could be a comma-joined string, the photo lived
+  // in `image_url`, and the list fields were often missing.
+  0: ({ image_url, ...item }) => ({
+    ...item,
+    photo_url: item.photo_url ?? image_url ?? '',
+    color: toList(item.color),
+    style: item.style || 'casual',
+    occasion: toList(item.occasion),
+    season: toList(item.season),
+    tags: toList(item.tags),
+    updated_at: item.updated_at || item.created_at,
+    schema_version: 1,
+  }),
+  // Version 1 had no purchase details; WardrobeSetup drafts called the price
+  // `price`, and unset columns come back from storage as null
+  1: ({ price, ...item }) => ({
+    ...item,
+    purchase_price: item.purchase_price ?? (typeof price === 'number' ? price : undefined),
+    purchase_date: item.purchase_date ?? undefined,
+    schema_version: 2,
+  }),
+};
+
+export const migrateWardrobeItem = (raw: unknown): unknown => {
+  if (!raw || typeof raw !== 'object') return raw;
+
+  let item = raw as RawItem;
+  let version = typeof item.schema_version === 'number' ? item.schema_version : 0;
+
+  while (version < WARDROBE_ITEM_SCHEMA_VERSION) {
+    const migrate = WARDROBE_ITEM_MIGRATIONS[version];
+    if (!migrate) break;
+    item = migrate(item);
+    version = item.schema_version;
+  }
+
+  return item;
+};
+
+const parseWith = <T extends z.ZodTypeAny>(schema: T, raw: unknown): z.infer<T> => {
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new WardrobeItemValidationError(result.error.issues, raw);
+  }
+  return result.data;
+};
+
+/**
+ * Upgrade a stored item to the current version and validate it. Throws
+ * WardrobeItemValidationError when the item cannot be made valid.
+ */
+export const parseWardrobeItem = (raw: unknown): WardrobeItem =>
+  parseWith(wardrobeItemSchema, migrateWardrobeItem(raw));
+
+/**
+ * Parse a batch of stored items, keeping the valid ones. Rejections are
+ * logged here and returned so callers can surface them.
+ */
+export const parseWardrobeItems = (raws: unknown[]): { items: WardrobeItem[]; rejected: RejectedWardrobeItem[] } => {
+  const items: WardrobeItem[] = [];
+  const rejected: RejectedWardrobeItem[] = [];
+
+  for (const raw of raws) {
+    try {
+      items.push(parseWardrobeItem(raw));
+    } catch (error) {
+      if (!(error instanceof WardrobeItemValidationError)) throw error;
+      console.warn('Rejected wardrobe item:', error.message, raw);
+      rejected.push({ item: raw, error });
+    }
+  }
+
+  return { items, rejected };
+};
+
+export const parseWardrobeItemInput = (input: unknown): NewWardrobeItem =>
+  parseWith(wardrobeItemInputSchema, input);
+
+export const parseWardrobeItemUpdates = (updates: unknown): WardrobeItemUpdates =>
+  parseWith(wardrobeItemUpdateSchema, updates);
+
+/**
+ * Items handed to the recommender only need the style fields, so records
+ * from anywhere (full items, curated suggestions, drafts) can be passed in.
+ * Other fields are kept so recommendations still carry the caller's records.
+ */
+export const parseStyleItems = <T extends StyleItem>(raws: T[]): T[] => {
+  const items: T[] = [];
+  for (const raw of raws) {
+    const result = styleItemSchema.passthrough().safeParse(migrateWardrobeItem(raw));
+    if (result.success) {
+      items.push(result.data as T);
+    } else {
+      console.warn('Rejected wardrobe item:', new WardrobeItemValidationError(result.error.issues, raw).message, raw);
+    }
+  }
+  return items;
+};
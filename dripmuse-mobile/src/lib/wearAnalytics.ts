@@ -0,0 +1,140 @@
+/**
+ * Wear Analytics
+ *
+ * Turns wear logs into a per-item ledger: how often each piece is worn,
+ * when it was last worn and what each wear has cost so far.
+ */
+
+import type { StyleItem } from './wardrobeSchema';
+
+// Pieces left unworn for longer than this are flagged as neglected
+export const DEFAULT_NEGLECTED_AFTER_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WearEntry {
+  item_id: string;
+  worn_on: string; // YYYY-MM-DD
+}
+
+type LedgerItem = Pick<StyleItem, 'id' | 'purchase_price' | 'purchase_date'> & { created_at?: string };
+
+export interface ItemWearStats {
+  item_id: string;
+  wearCount: number;
+  lastWornOn: string | null;
+  // Days since the last wear, or since the item was bought/added if never worn
+  daysSinceWorn: number | null;
+  // Purchase price divided by wears; the full price until the first wear
+  costPerWear: number | null;
+}
+
+export type WearLedger = Map<string, ItemWearStats>;
+
+export interface WearSummary {
+  totalWears: number;
+  wornItemCount: number;
+  neverWornCount: number;
+  neglectedCount: number;
+  totalSpend: number;
+  averageCostPerWear: number | null;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time, the format wear logs use.
+ */
+export const toWearDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const daysBetween = (from: string, today: Date): number | null => {
+  const start = new Date(`${from.slice(0, 10)}T00:00:00`);
+  if (isNaN(start.getTime())) return null;
+  const end = new Date(`${toWearDate(today)}T00:00:00`);
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / DAY_MS));
+};
+
+export function buildWearLedger(items: LedgerItem[], logs: WearEntry[], today: Date = new Date()): WearLedger {
+  const wears = new Map<string, { count: number; last: string | null }>();
+  for (const log of logs) {
+    const entry = wears.get(log.item_id) || { count: 0, last: null };
+    entry.count++;
+    if (!entry.last || log.worn_on > entry.last) entry.last = log.worn_on;
+    wears.set(log.item_id, entry);
+  }
+
+  const ledger: WearLedger = new Map();
+  for (const item of items) {
+    const { count, last } = wears.get(item.id) || { count: 0, last: null };
+    const since = last ?? item.purchase_date ?? item.created_at;
+    const price = item.purchase_price;
+
+    ledger.set(item.id, {
+      item_id: item.id,
+      wearCount: count,
+      lastWornOn: last,
+      daysSinceWorn: since ? daysBetween(since, today) : null,
+      costPerWear: price === undefined ? null : price / Math.max(count, 1),
+    });
+  }
+
+  return ledger;
+}
+
+/**
+ * Items not worn in at least `days` days, longest-neglected first.
+ */
+export function getNeglectedItems<T extends LedgerItem>(
+  items: T[],
+  ledger: WearLedger,
+  days: number = DEFAULT_NEGLECTED_AFTER_DAYS
+): T[] {
+  return items
+    .filter(item => {
+      const stats = ledger.get(item.id);
+      return stats?.daysSinceWorn != null && stats.daysSinceWorn >= days;
+    })
+    .sort((a, b) => (ledger.get(b.id)?.daysSinceWorn ?? 0) - (ledger.get(a.id)?.daysSinceWorn ?? 0));
+}
+
+/**
+ * Items with a known price, cheapest per wear first.
+ */
+export function rankByCostPerWear<T extends LedgerItem>(items: T[], ledger: WearLedger): T[] {
+  return items
+    .filter(item => ledger.get(item.id)?.costPerWear != null)
+    .sort((a, b) => ledger.get(a.id)!.costPerWear! - ledger.get(b.id)!.costPerWear!);
+}
+
+export function summarizeWear(
+  items: LedgerItem[],
+  ledger: WearLedger,
+  neglectedAfterDays: number = DEFAULT_NEGLECTED_AFTER_DAYS
+): WearSummary {
+  let totalWears = 0;
+  let wornItemCount = 0;
+  let totalSpend = 0;
+  let pricedWears = 0;
+
+  for (const item of items) {
+    const stats = ledger.get(item.id);
+    if (!stats) continue;
+    totalWears += stats.wearCount;
+    if (stats.wearCount > 0) wornItemCount++;
+    if (item.purchase_price !== undefined) {
+      totalSpend += item.purchase_price;
+      pricedWears += stats.wearCount;
+    }
+  }
+
+  return {
+    totalWears,
+    wornItemCount,
+    neverWornCount: items.length - wornItemCount,
+    neglectedCount: getNeglectedItems(items, ledger, neglectedAfterDays).length,
+    totalSpend,
+    averageCostPerWear: pricedWears > 0 ? totalSpend / pricedWears : null,
+  };
+}
@@ -0,0 +1,312 @@
+import type { WeatherData } from './weatherProviders';
+import { toWearDate } from './wearAnalytics';
+
+/**
+ * Multi-day forecasts for outfit planning. Open-Meteo returns up to 16 days
+ * of daily and hourly data in the same request as the current conditions,
+ * so a planned day can be generated against its own forecast rather than
+ * against today's weather.
+ *
+ * Each planned outfit keeps a snapshot of the forecast it was generated
+ * with; `detectForecastChange` compares that snapshot with a newer forecast
+ * so plans can be flagged when the weather they were chosen for changes.
+ */
+
+export const FORECAST_DAYS = 14;
+const FORECAST_CACHE_KEY = 'dripmuse_forecast_cache';
+const FORECAST_CACHE_DURATION = 60 * 60 * 1000; // 1 hour; forecasts update a few times a day
+
+export const WEATHER_CONDITIONS = {
+  clear: { icon: '☀️', description: 'Clear skies' },
+  clouds: { icon: '☁️', description: 'Cloudy' },
+  rain: { icon: '🌧️', description: 'Rainy' },
+  snow: { icon: '❄️', description: 'Snowy' },
+  thunderstorm: { icon: '⛈️', description: 'Thunderstorm' },
+  mist: { icon: '🌫️', description: 'Misty' },
+  fog: { icon: '🌫️', description: 'Foggy' }
+};
+
+export type WeatherCondition = keyof typeof WEATHER_CONDITIONS;
+
+// WMO weather interpretation codes, as used by Open-Meteo
+export const conditionFromWeatherCode = (code: number): WeatherCondition => {
+  if (code === 0) return 'clear';
+  if ([1, 2, 3].includes(code)) return 'clouds';
+  if ([45, 48].includes(code)) return 'fog';
+  if ([51, 53, 55, 56, 57, 61, 63, 65, 66, 67, 80, 81, 82].includes(code)) return 'rain';
+  if ([71, 73, 75, 77, 85, 86].includes(code)) return 'snow';
+  if ([95, 96, 99].includes(code)) return 'thunderstorm';
+  return 'clear';
+};
+
+export interface DailyForecast {
+  date: string; // YYYY-MM-DD in the forecast location's time zone
+  condition: WeatherCondition;
+  icon: string;
+  temperatureMax: number; // Celsius
+  temperatureMin: number;
+  precipitationProbability: number; // 0-100
+  uvIndexMax: number;
+  windSpeedMax: number; // km/h
+}
+
+export interface HourlyForecast {
+  time: string; // local ISO time, e.g. 2025-03-14T09:00
+  condition: WeatherCondition;
+  temperature: number;
+  precipitationProbability: number;
+  uvIndex: number;
+  windSpeed: number;
+  humidity: number;
+}
+
+export interface WeatherForecast {
+  location: string;
+  latitude: number;
+  longitude: number;
+  fetchedAt: number;
+  days: DailyForecast[];
+  hours: HourlyForecast[];
+}
+
+export const OPEN_METEO_DAILY_FIELDS = [
+  'weathercode',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'precipitation_probability_max',
+  'uv_index_max',
+  'windspeed_10m_max',
+];
+
+export const OPEN_METEO_HOURLY_FIELDS = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'precipitation_probability',
+  'uv_index',
+  'windspeed_10m',
+  'weathercode',
+];
+
+const at = (values: unknown, index: number, fallback = 0): number => {
+  const value = Array.isArray(values) ? values[index] : undefined;
+  return typeof value === 'number' && !isNaN(value) ? value : fallback;
+};
+
+/**
+ * Read the daily and hourly blocks of an Open-Meteo forecast response
+ */
+export function parseOpenMeteoForecast(
+  data: any,
+  location: string,
+): WeatherForecast | null {
+  const daily = data?.daily;
+  const hourly = data?.hourly;
+  if (!Array.isArray(daily?.time) || daily.time.length === 0) return null;
+
+  const days: DailyForecast[] = daily.time.map((date: string, index: number) => {
+    const condition = conditionFromWeatherCode(at(daily.weathercode, index));
+    return {
+      date,
+      condition,
+      icon: WEATHER_CONDITIONS[condition].icon,
+      temperatureMax: Math.round(at(daily.temperature_2m_max, index)),
+      temperatureMin: Math.round(at(daily.temperature_2m_min, index)),
+      precipitationProbability: Math.round(at(daily.precipitation_probability_max, index)),
+      uvIndexMax: Math.round(at(daily.uv_index_max, index) * 10) / 10,
+      windSpeedMax: Math.round(at(daily.windspeed_10m_max, index)),
+    };
+  });
+
+  const hours: HourlyForecast[] = Array.isArray(hourly?.time)
+    ? hourly.time.map((time: string, index: number) => ({
+        time,
+        condition: conditionFromWeatherCode(at(hourly.weathercode, index)),
+        temperature: Math.round(at(hourly.temperature_2m, index)),
+        precipitationProbability: Math.round(at(hourly.precipitation_probability, index)),
+        uvIndex: Math.round(at(hourly.uv_index, index) * 10) / 10,
+        windSpeed: Math.round(at(hourly.windspeed_10m, index)),
+        humidity: Math.round(at(hourly.relative_humidity_2m, index, 60)),
+      }))
+    : [];
+
+  return {
+    location,
+    latitude: data.latitude,
+    longitude: data.longitude,
+    fetchedAt: Date.now(),
+    days,
+    hours,
+  };
+}
+
+export function getForecastForDate(
+  forecast: WeatherForecast | null,
+  date: Date,
+): DailyForecast | null {
+  if (!forecast) return null;
+  const key = toWearDate(date);
+  return forecast.days.find(day => day.date === key) ?? null;
+}
+
+export function getHourlyForDate(
+  forecast: WeatherForecast | null,
+  date: Date,
+): HourlyForecast[] {
+  if (!forecast) return [];
+  const key = toWearDate(date);
+  return forecast.hours.filter(hour => hour.time.startsWith(key));
+}
+
+/**
+ * The hours a schedule window starting on `date` can cover: that day's and
+ * the next day's, for windows that run past midnight
+ */
+export function getHourlyForSchedule(
+  forecast: WeatherForecast | null,
+  date: Date,
+): HourlyForecast[] {
+  const nextDay = new Date(date);
+  nextDay.setDate(nextDay.getDate() + 1);
+  return [...getHourlyForDate(forecast, date), ...getHourlyForDate(forecast, nextDay)];
+}
+
+/**
+ * The day's weather as the recommender sees it. Outfits are worn through
+ * the day, so the temperature is the average over daytime hours (9:00 to
+ * 18:00) when hourly data is there, and the midpoint of min and max otherwise.
+ */
+export function forecastToWeather(
+  forecast: WeatherForecast,
+  day: DailyForecast,
+): WeatherData {
+  const daytime = getHourlyForDate(forecast, new Date(`${day.date}T12:00:00`)).filter(hour => {
+    const h = Number(hour.time.slice(11, 13));
+    return h >= 9 && h <= 18;
+  });
+
+  const temperature = daytime.length > 0
+    ? daytime.reduce((sum, hour) => sum + hour.temperature, 0) / daytime.length
+    : (day.temperatureMax + day.temperatureMin) / 2;
+  const humidity = daytime.length > 0
+    ? daytime.reduce((sum, hour) => sum + hour.humidity, 0) / daytime.length
+    : 60;
+
+  return {
+    temperature: Math.round(temperature),
+    condition: day.condition,
+    humidity: Math.round(humidity),
+    windSpeed: day.windSpeedMax,
+    description: `${WEATHER_CONDITIONS[day.condition].description}, ${day.temperatureMin}–${day.temperatureMax}°C in ${forecast.location}`,
+    location: forecast.location,
+  };
+}
+
+// Cache, keyed by location so switching location never shows another city's days
+
+interface CachedForecast extends WeatherForecast {
+  cacheKey: string;
+}
+
+const forecastCacheKey = (location: string) => location.trim().toLowerCase();
+
+/**
+ * Past the cache duration; the days may have changed since, but offline the
+ * forecast is still better than none
+ */
+export function isForecastStale(forecast: WeatherForecast, now: number = Date.now()): boolean {
+  return now - forecast.fetchedAt >= FORECAST_CACHE_DURATION;
+}
+
+// Expired forecasts stay cached until replaced, so `allowExpired` can still reach them offline
+export function loadCachedForecast(location?: string, allowExpired = false): WeatherForecast | null {
+  try {
+    const cached = localStorage.getItem(FORECAST_CACHE_KEY);
+    if (!cached) return null;
+    const data: CachedForecast = JSON.parse(cached);
+    if (!allowExpired && isForecastStale(data)) return null;
+    if (location && data.cacheKey !== forecastCacheKey(location)) return null;
+    const { cacheKey, ...forecast } = data;
+    return forecast;
+  } catch (error) {
+    console.warn('Failed to load cached forecast:', error);
+    localStorage.removeItem(FORECAST_CACHE_KEY);
+    return null;
+  }
+}
+
+export function cacheForecast(forecast: WeatherForecast): void {
+  try {
+    const cached: CachedForecast = { ...forecast, cacheKey: forecastCacheKey(forecast.location) };
+    localStorage.setItem(FORECAST_CACHE_KEY, JSON.stringify(cached));
+  } catch (error) {
+    console.warn('Failed to cache forecast:', error);
+  }
+}
+
+// Change detection
+
+/**
+ * What a planned outfit remembers about the forecast it was generated for
+ */
+export type ForecastSnapshot = DailyForecast & { fetchedAt: number };
+
+export interface ForecastChange {
+  reasons: string[];
+  detectedAt: number;
+  forecast: ForecastSnapshot;
+}
+
+export const snapshotForecast = (forecast: WeatherForecast, day: DailyForecast): ForecastSnapshot => ({
+  ...day,
+  fetchedAt: forecast.fetchedAt,
+});
+
+// Differences smaller than these don't change what anyone should wear
+const TEMPERATURE_CHANGE = 4; // °C, on either the high or the low
+const PRECIPITATION_LIKELY = 50; // %
+const PRECIPITATION_CHANGE = 30; // percentage points
+const HIGH_UV = 6;
+const WINDY = 30; // km/h
+
+const WET_CONDITIONS: WeatherCondition[] = ['rain', 'snow', 'thunderstorm'];
+
+/**
+ * Compare the forecast a plan was made for with the latest one. Returns the
+ * reasons it changed enough to matter, or null if it didn't.
+ */
+export function detectForecastChange(
+  before: ForecastSnapshot,
+  after: DailyForecast,
+): string[] | null {
+  const reasons: string[] = [];
+
+  const highShift = after.temperatureMax - before.temperatureMax;
+  const lowShift = after.temperatureMin - before.temperatureMin;
+  if (Math.abs(highShift) >= TEMPERATURE_CHANGE || Math.abs(lowShift) >= TEMPERATURE_CHANGE) {
+    const shift = Math.abs(highShift) >= Math.abs(lowShift) ? highShift : lowShift;
+    reasons.push(
+      `${shift > 0 ? 'Warmer' : 'Colder'} than planned: ${after.temperatureMin}–${after.temperatureMax}°C (was ${before.temperatureMin}–${before.temperatureMax}°C)`,
+    );
+  }
+
+  const wasWet = WET_CONDITIONS.includes(before.condition);
+  const isWet = WET_CONDITIONS.includes(after.condition);
+  if (isWet !== wasWet || (isWet && after.condition !== before.condition)) {
+    reasons.push(`Now ${WEATHER_CONDITIONS[after.condition].description.toLowerCase()} (was ${WEATHER_CONDITIONS[before.condition].description.toLowerCase()})`);
+  } else if (
+    (after.precipitationProbability >= PRECIPITATION_LIKELY) !== (before.precipitationProbability >= PRECIPITATION_LIKELY) ||
+    Math.abs(after.precipitationProbability - before.precipitationProbability) >= PRECIPITATION_CHANGE
+  ) {
+    reasons.push(`Chance of rain ${after.precipitationProbability}% (was ${before.precipitationProbability}%)`);
+  }
+
+  if ((after.uvIndexMax >= HIGH_UV) !== (before.uvIndexMax >= HIGH_UV)) {
+    reasons.push(after.uvIndexMax >= HIGH_UV ? `High UV expected (${after.uvIndexMax})` : 'UV no longer high');
+  }
+
+  if ((after.windSpeedMax >= WINDY) !== (before.windSpeedMax >= WINDY)) {
+    reasons.push(after.windSpeedMax >= WINDY ? `Windy: gusts to ${after.windSpeedMax} km/h` : 'No longer windy');
+  }
+
+  return reasons.length > 0 ? reasons : null;
+}
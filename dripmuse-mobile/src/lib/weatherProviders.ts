@@ -0,0 +1,486 @@
+import {
+  DEFAULT_WEATHER_FIXTURE,
+  WEATHER_FIXTURES,
+  type RecordedOpenMeteoResponse,
+  type WeatherFixture,
+} from '@/data/weatherFixtures';
+import { Clock, systemClock } from './determinism';
+import {
+  FORECAST_DAYS,
+  OPEN_METEO_DAILY_FIELDS,
+  OPEN_METEO_HOURLY_FIELDS,
+  WEATHER_CONDITIONS,
+  conditionFromWeatherCode,
+  parseOpenMeteoForecast,
+  type WeatherCondition,
+  type WeatherForecast,
+} from './weatherForecast';
+import { toWearDate } from './wearAnalytics';
+
+/**
+ * Weather providers. Every source of weather - a forecast API, the user's
+ * own entry, or a recorded fixture - sits behind WeatherProvider and
+ * returns the same WeatherData, so the recommender and the UI never need to
+ * know where a reading came from beyond its `source` and `provider` fields.
+ *
+ * Fixtures replace the old random mock weather: offline sessions, demos and
+ * tests replay a recorded forecast and always get the same day.
+ */
+
+// Types
+
+/**
+ * How the location behind a reading was chosen
+ */
+export type WeatherSource = 'profile' | 'gps' | 'default' | 'manual' | 'fixture';
+
+export interface WeatherData {
+  temperature: number; // Celsius
+  condition: string; // clear, rain, snow, clouds, thunderstorm, mist, fog
+  humidity: number;
+  windSpeed?: number; // km/h
+  description?: string;
+  location?: string;
+  // Set for readings that came from a provider; weather derived from a forecast day has none
+  source?: WeatherSource;
+  provider?: WeatherProviderId;
+  timestamp?: number; // when the provider produced the reading
+  icon?: string;
+  isManualEntry?: boolean;
+  // Over the hours the outfit is worn, when planned against an hourly forecast
+  temperatureMin?: number;
+  temperatureMax?: number;
+  precipitationProbability?: number; // highest hourly chance, 0-100
+}
+
+export interface ManualWeatherEntry {
+  temperature: number;
+  condition: string;
+  location: string;
+}
+
+export type WeatherQuery =
+  | { name: string }
+  | { latitude: number; longitude: number; name?: string };
+
+export interface WeatherResult {
+  weather: WeatherData;
+  // Daily and hourly forecast, for providers that have one
+  forecast: WeatherForecast | null;
+}
+
+export type WeatherProviderId = 'open-meteo' | 'openweathermap' | 'manual' | 'fixture';
+
+export interface WeatherProvider {
+  readonly id: WeatherProviderId;
+  readonly label: string;
+  isAvailable(): boolean;
+  fetchWeather(query: WeatherQuery): Promise<WeatherResult>;
+}
+
+export class WeatherProviderError extends Error {
+  public readonly provider: WeatherProviderId;
+
+  constructor(message: string, provider: WeatherProviderId) {
+    super(message);
+    this.name = 'WeatherProviderError';
+    this.provider = provider;
+  }
+}
+
+export const WEATHER_PROVIDER_LABELS: Record<WeatherProviderId, string> = {
+  'open-meteo': 'Open-Meteo',
+  openweathermap: 'OpenWeatherMap',
+  manual: 'Manual entry',
+  fixture: 'Recorded sample',
+};
+
+const conditionInfo = (condition: string) =>
+  WEATHER_CONDITIONS[condition as WeatherCondition] ?? WEATHER_CONDITIONS.clear;
+
+// Staleness
+
+// Current conditions older than this are flagged; the forecast refreshes hourly
+export const WEATHER_STALE_AFTER = 30 * 60 * 1000;
+
+export function getWeatherAge(weather: WeatherData, now: number = Date.now()): number | null {
+  return weather.timestamp === undefined ? null : Math.max(0, now - weather.timestamp);
+}
+
+/**
+ * Recorded samples never go stale; they are not pretending to be current
+ */
+export function isWeatherStale(weather: WeatherData, now: number = Date.now()): boolean {
+  if (weather.source === 'fixture') return false;
+  const age = getWeatherAge(weather, now);
+  return age !== null && age > WEATHER_STALE_AFTER;
+}
+
+export function describeWeatherAge(weather: WeatherData, now: number = Date.now()): string {
+  const age = getWeatherAge(weather, now);
+  if (age === null) return 'time unknown';
+  const minutes = Math.round(age / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.round(hours / 24)} days ago`;
+}
+
+// Open-Meteo
+
+/**
+ * Current conditions from an Open-Meteo forecast response. Humidity and wind
+ * come from the hourly block at the current hour, when it is there.
+ */
+export function parseOpenMeteoCurrent(data: any, location: string, now: number): WeatherData {
+  const current = data?.current_weather;
+  if (!current) {
+    throw new WeatherProviderError('Invalid weather data received', 'open-meteo');
+  }
+
+  const hourIndex = Math.max(0, data.hourly?.time?.indexOf(current.time) ?? 0);
+  const humidity = data.hourly?.relative_humidity_2m?.[hourIndex] || 60;
+  const windSpeed = data.hourly?.windspeed_10m?.[hourIndex] || current.windspeed || 5;
+  const condition = conditionFromWeatherCode(current.weathercode);
+  const info = WEATHER_CONDITIONS[condition];
+
+  return {
+    temperature: Math.round(current.temperature),
+    condition,
+    humidity: Math.round(humidity),
+    windSpeed: Math.round(windSpeed),
+    description: `${info.description} in ${location}`,
+    location,
+    provider: 'open-meteo',
+    timestamp: now,
+    icon: info.icon,
+  };
+}
+
+interface ProviderOptions {
+  fetch?: typeof fetch;
+  clock?: Clock;
+}
+
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly id = 'open-meteo';
+  readonly label = WEATHER_PROVIDER_LABELS['open-meteo'];
+
+  constructor(private readonly options: ProviderOptions = {}) {}
+
+  isAvailable(): boolean {
+    return true; // No key needed
+  }
+
+  async geocode(name: string): Promise<{ latitude: number; longitude: number; name: string }> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(name)}&count=1&language=en&format=json`;
+
+    const response = await fetchImpl(url, {
+      method: 'GET',
+      headers: { 'Accept': 'application/json' },
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) {
+      throw new WeatherProviderError(`Geocoding error: ${response.status}`, this.id);
+    }
+
+    const data = await response.json();
+    const place = data.results?.[0];
+    if (!place) {
+      throw new WeatherProviderError(`Location "${name}" not found`, this.id);
+    }
+    return {
+      latitude: place.latitude,
+      longitude: place.longitude,
+      name: place.country ? `${place.name}, ${place.country}` : place.name,
+    };
+  }
+
+  async fetchWeather(query: WeatherQuery): Promise<WeatherResult> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const clock = this.options.clock ?? systemClock;
+    const place = 'latitude' in query ? query : await this.geocode(query.name);
+    const url = `https://api.open-meteo.com/v1/forecast?latitude=${place.latitude}&longitude=${place.longitude}&current_weather=true&hourly=${OPEN_METEO_HOURLY_FIELDS.join(',')}&daily=${OPEN_METEO_DAILY_FIELDS.join(',')}&timezone=auto&forecast_days=${FORECAST_DAYS}`;
+
+    const response = await fetchImpl(url, {
+      method: 'GET',
+      headers: { 'Accept': 'application/json' },
+      signal: AbortSignal.timeout(8000),
+    });
+    if (!response.ok) {
+      throw new WeatherProviderError(`Weather API error: ${response.status}`, this.id);
+    }
+
+    const data = await response.json();
+    const location = place.name || 'Your location';
+    return {
+      weather: {
+        ...parseOpenMeteoCurrent(data, location, clock.now()),
+        source: 'latitude' in query ? 'gps' : 'profile',
+      },
+      forecast: parseOpenMeteoForecast(data, location),
+    };
+  }
+}
+
+// OpenWeatherMap (optional, needs an API key)
+
+const OPENWEATHERMAP_CONDITIONS: Record<string, WeatherCondition> = {
+  Clear: 'clear',
+  Clouds: 'clouds',
+  Rain: 'rain',
+  Drizzle: 'rain',
+  Snow: 'snow',
+  Thunderstorm: 'thunderstorm',
+  Mist: 'mist',
+  Haze: 'mist',
+  Smoke: 'mist',
+  Fog: 'fog',
+};
+
+/**
+ * Current conditions only; planning falls back to today's weather for
+ * future days when this provider is selected.
+ */
+export class OpenWeatherMapProvider implements WeatherProvider {
+  readonly id = 'openweathermap';
+  readonly label = WEATHER_PROVIDER_LABELS.openweathermap;
+
+  constructor(private readonly apiKey: string | undefined, private readonly options: ProviderOptions = {}) {}
+
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  async fetchWeather(query: WeatherQuery): Promise<WeatherResult> {
+    if (!this.apiKey) {
+      throw new WeatherProviderError('OpenWeatherMap needs an API key', this.id);
+    }
+    const fetchImpl = this.options.fetch ?? fetch;
+    const clock = this.options.clock ?? systemClock;
+    const where = 'latitude' in query
+      ? `lat=${query.latitude}&lon=${query.longitude}`
+      : `q=${encodeURIComponent(query.name)}`;
+
+    const response = await fetchImpl(
+      `https://api.openweathermap.org/data/2.5/weather?${where}&units=metric&appid=${encodeURIComponent(this.apiKey)}`,
+      { method: 'GET', headers: { 'Accept': 'application/json' }, signal: AbortSignal.timeout(8000) },
+    );
+    if (!response.ok) {
+      throw new WeatherProviderError(`Weather API error: ${response.status}`, this.id);
+    }
+
+    const data = await response.json();
+    if (typeof data?.main?.temp !== 'number') {
+      throw new WeatherProviderError('Invalid weather data received', this.id);
+    }
+
+    const condition = OPENWEATHERMAP_CONDITIONS[data.weather?.[0]?.main] ?? 'clouds';
+    const info = WEATHER_CONDITIONS[condition];
+    const location = query.name || (data.sys?.country ? `${data.name}, ${data.sys.country}` : data.name) || 'Your location';
+
+    return {
+      weather: {
+        temperature: Math.round(data.main.temp),
+        condition,
+        humidity: Math.round(data.main.humidity ?? 60),
+        windSpeed: Math.round((data.wind?.speed ?? 0) * 3.6), // m/s
+        description: `${info.description} in ${location}`,
+        location,
+        source: 'latitude' in query ? 'gps' : 'profile',
+        provider: this.id,
+        timestamp: clock.now(),
+        icon: info.icon,
+      },
+      forecast: null,
+    };
+  }
+}
+
+// Manual entry
+
+export function manualEntryToWeather(entry: ManualWeatherEntry, now: number = Date.now()): WeatherData {
+  const info = conditionInfo(entry.condition);
+  return {
+    temperature: entry.temperature,
+    condition: entry.condition,
+    humidity: 60, // Not asked for
+    windSpeed: 5,
+    description: `${info.description} in ${entry.location}`,
+    location: entry.location,
+    source: 'manual',
+    provider: 'manual',
+    timestamp: now,
+    icon: info.icon,
+    isManualEntry: true,
+  };
+}
+
+/**
+ * The weather the user typed in, for when location access is denied
+ */
+export class ManualWeatherProvider implements WeatherProvider {
+  readonly id = 'manual';
+  readonly label = WEATHER_PROVIDER_LABELS.manual;
+  private entry: ManualWeatherEntry | null = null;
+
+  constructor(private readonly clock: Clock = systemClock) {}
+
+  setEntry(entry: ManualWeatherEntry | null): void {
+    this.entry = entry;
+  }
+
+  getEntry(): ManualWeatherEntry | null {
+    return this.entry;
+  }
+
+  isAvailable(): boolean {
+    return this.entry !== null;
+  }
+
+  async fetchWeather(): Promise<WeatherResult> {
+    if (!this.entry) {
+      throw new WeatherProviderError('No weather has been entered', this.id);
+    }
+    return { weather: manualEntryToWeather(this.entry, this.clock.now()), forecast: null };
+  }
+}
+
+// Recorded fixtures
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayNumber = (date: string) =>
+  Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10))) / DAY_MS;
+
+// Move a YYYY-MM-DD or YYYY-MM-DDTHH:MM value by whole days
+const shiftDate = (value: string, days: number): string =>
+  new Date((dayNumber(value) + days) * DAY_MS).toISOString().slice(0, 10) + value.slice(10);
+
+const shiftTimes = (block: Record<string, (string | number)[]>, days: number) => ({
+  ...block,
+  time: block.time.map(time => shiftDate(String(time), days)),
+});
+
+/**
+ * Move a recorded response so its first day is `today`
+ */
+export function rebaseRecordedResponse(
+  response: RecordedOpenMeteoResponse,
+  today: string,
+): RecordedOpenMeteoResponse {
+  const days = dayNumber(today) - dayNumber(String(response.daily.time[0]));
+  if (days === 0) return response;
+  return {
+    ...response,
+    current_weather: { ...response.current_weather, time: shiftDate(response.current_weather.time, days) },
+    hourly: shiftTimes(response.hourly, days),
+    daily: shiftTimes(response.daily, days),
+  };
+}
+
+export interface FixtureProviderOptions {
+  clock?: Clock;
+  // Replay the fixture as if recorded today (the default); off keeps the recorded dates
+  rebase?: boolean;
+}
+
+/**
+ * Replays a recorded Open-Meteo response through the same parsing as live
+ * data. The location asked for is ignored: a fixture is always its own place.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly id = 'fixture';
+  readonly label: string;
+
+  constructor(
+    private readonly fixture: WeatherFixture,
+    private readonly options: FixtureProviderOptions = {},
+  ) {
+    this.label = `${WEATHER_PROVIDER_LABELS.fixture}: ${fixture.label}`;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async fetchWeather(): Promise<WeatherResult> {
+    const now = (this.options.clock ?? systemClock).now();
+    const data = this.options.rebase === false
+      ? this.fixture.response
+      : rebaseRecordedResponse(this.fixture.response, toWearDate(new Date(now)));
+
+    const current = parseOpenMeteoCurrent(data, this.fixture.location, now);
+    const forecast = parseOpenMeteoForecast(data, this.fixture.location);
+
+    return {
+      weather: {
+        ...current,
+        description: `${current.description} (${this.fixture.label}, recorded sample)`,
+        source: 'fixture',
+        provider: this.id,
+      },
+      forecast: forecast && { ...forecast, fetchedAt: now },
+    };
+  }
+}
+
+export function getWeatherFixture(id: string = DEFAULT_WEATHER_FIXTURE): WeatherFixture {
+  const fixture = WEATHER_FIXTURES[id];
+  if (!fixture) {
+    throw new WeatherProviderError(
+      `Unknown weather fixture "${id}"; expected one of ${Object.keys(WEATHER_FIXTURES).join(', ')}`,
+      'fixture',
+    );
+  }
+  return fixture;
+}
+
+// Configuration
+
+export interface WeatherProviderConfig {
+  provider?: 'open-meteo' | 'openweathermap' | 'fixture';
+  fixture?: string; // fixture id, used by the fixture provider and as the offline fallback
+  openWeatherMapApiKey?: string;
+}
+
+export const DEFAULT_WEATHER_PROVIDER_CONFIG: Required<Pick<WeatherProviderConfig, 'provider' | 'fixture'>> = {
+  provider: 'open-meteo',
+  fixture: DEFAULT_WEATHER_FIXTURE,
+};
+
+export function createWeatherProvider(
+  config: WeatherProviderConfig = {},
+  options: ProviderOptions = {},
+): WeatherProvider {
+  const provider = config.provider ?? DEFAULT_WEATHER_PROVIDER_CONFIG.provider;
+
+  if (provider === 'fixture') {
+    return new FixtureWeatherProvider(getWeatherFixture(config.fixture), { clock: options.clock });
+  }
+  if (provider === 'openweathermap') {
+    const openWeatherMap = new OpenWeatherMapProvider(config.openWeatherMapApiKey, options);
+    if (openWeatherMap.isAvailable()) return openWeatherMap;
+    console.warn('OpenWeatherMap selected without an API key; using Open-Meteo');
+  }
+  return new OpenMeteoProvider(options);
+}
+
+/**
+ * Provider settings from the environment. VITE_WEATHER_PROVIDER picks
+ * open-meteo (the default), openweathermap or fixture; VITE_WEATHER_FIXTURE
+ * names the fixture to replay and VITE_OPENWEATHERMAP_API_KEY enables
+ * OpenWeatherMap.
+ */
+export function getEnvironmentWeatherConfig(): WeatherProviderConfig {
+  const env = import.meta.env || {};
+  const provider = env.VITE_WEATHER_PROVIDER;
+
+  return {
+    provider: provider === 'openweathermap' || provider === 'fixture' ? provider : undefined,
+    fixture: env.VITE_WEATHER_FIXTURE ? String(env.VITE_WEATHER_FIXTURE) : undefined,
+    openWeatherMapApiKey: env.VITE_OPENWEATHERMAP_API_KEY ? String(env.VITE_OPENWEATHERMAP_API_KEY) : undefined,
+  };
+}
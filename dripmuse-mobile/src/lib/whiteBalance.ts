@@ -0,0 +1,291 @@
+/**
+ * White Balance
+ *
+ * Estimates the colour of the light a photo was taken under and removes it,
+ * so face and garment colours are measured as they would look in daylight.
+ * Runs once per image, before any sampling, and is shared by the facial,
+ * palette and clothing analysers.
+ *
+ * Corrections are von Kries style per-channel gains in linear RGB, scaled so
+ * a neutral grey keeps its luminance.
+ */
+
+import { linearToSrgb, rgbToXyz, srgbToLinear, type Rgb } from './colorScience';
+
+export type WhiteBalanceMethod = 'auto' | 'gray-world' | 'white-patch' | 'reference-card' | 'off';
+
+export interface WhiteBalanceOptions {
+  // 'auto' blends gray-world and white-patch and trusts them less when they disagree
+  method?: WhiteBalanceMethod;
+  // Overrides the automatic correction strength, 0 (none) to 1 (full)
+  strength?: number;
+  // For 'reference-card': the card as photographed, and its true colour (neutral grey by default)
+  referenceCard?: { sample: Rgb; target?: Rgb };
+  // Reuse an estimate already made for this image instead of estimating again
+  estimate?: WhiteBalanceEstimate;
+}
+
+export interface WhiteBalanceEstimate {
+  method: WhiteBalanceMethod;
+  // Colour of the estimated light, brightest channel scaled to 255
+  illuminant: Rgb;
+  // Correlated colour temperature in kelvin, null when the light is far from white
+  cct: number | null;
+  cast: 'warm' | 'cool' | 'neutral';
+  // Linear-light channel multipliers at full strength
+  gains: Rgb;
+  // How much of the correction is applied, 0-1
+  strength: number;
+  sampleCount: number;
+}
+
+// Enough pixels for a stable estimate without scanning every pixel of a large photo
+const MAX_SAMPLES = 20000;
+const MIN_SAMPLES = 50;
+// Channels at or above this are clipped and no longer say anything about the light
+const CLIPPED = 250;
+const MIN_LUMINANCE = 0.02;
+const WHITE_PATCH_FRACTION = 0.02;
+const MAX_GAIN = 3;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const luminance = (r: number, g: number, b: number): number => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+export const NEUTRAL_WHITE_BALANCE: WhiteBalanceEstimate = {
+  method: 'off',
+  illuminant: { r: 255, g: 255, b: 255 },
+  cct: 6504,
+  cast: 'neutral',
+  gains: { r: 1, g: 1, b: 1 },
+  strength: 0,
+  sampleCount: 0,
+};
+
+/**
+ * Estimate the illuminant from RGBA pixel data (canvas ImageData layout).
+ */
+export function estimateIlluminant(
+  data: Uint8ClampedArray | number[],
+  options: WhiteBalanceOptions = {},
+): WhiteBalanceEstimate {
+  const method = options.method ?? 'auto';
+  if (method === 'off') return NEUTRAL_WHITE_BALANCE;
+
+  if (method === 'reference-card') {
+    if (!options.referenceCard) {
+      console.warn('Reference-card white balance needs a card sample; falling back to auto');
+      return estimateIlluminant(data, { ...options, method: 'auto' });
+    }
+    return estimateFromReferenceCard(options.referenceCard.sample, options.referenceCard.target, options.strength);
+  }
+
+  const samples = collectSamples(data);
+  if (samples.length < MIN_SAMPLES) {
+    return { ...NEUTRAL_WHITE_BALANCE, method, sampleCount: samples.length };
+  }
+
+  const grayWorld = grayWorldIlluminant(samples);
+  const whitePatch = whitePatchIlluminant(samples);
+
+  let illuminant: [number, number, number];
+  let strength: number;
+  if (method === 'gray-world') {
+    illuminant = grayWorld;
+    strength = 1;
+  } else if (method === 'white-patch') {
+    illuminant = whitePatch;
+    strength = 1;
+  } else {
+    // A scene dominated by one colour drags gray-world away from white-patch.
+    // When the two disagree, lean on the highlights and correct less, since
+    // part of the apparent cast is probably the subject rather than the light
+    const disagreement = angleBetween(grayWorld, whitePatch);
+    const grayWeight = 0.5 * clamp(1 - (disagreement - 3) / 12, 0, 1);
+    illuminant = [0, 1, 2].map(
+      (i) => Math.pow(grayWorld[i], grayWeight) * Math.pow(whitePatch[i], 1 - grayWeight),
+    ) as [number, number, number];
+    strength = clamp(1 - (disagreement - 3) / 24, 0.5, 1);
+  }
+
+  return buildEstimate(method, illuminant, options.strength ?? strength, samples.length);
+}
+
+/**
+ * Apply an estimate to RGBA pixel data in place.
+ */
+export function applyWhiteBalance(data: Uint8ClampedArray | number[], estimate: WhiteBalanceEstimate): void {
+  if (estimate.strength <= 0) return;
+  const [lutR, lutG, lutB] = lookupTables(estimate);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lutR[data[i]];
+    data[i + 1] = lutG[data[i + 1]];
+    data[i + 2] = lutB[data[i + 2]];
+  }
+}
+
+/**
+ * Correct a single colour, for pixels already pulled out of an image.
+ */
+export function correctPixel(pixel: Rgb, estimate: WhiteBalanceEstimate): Rgb {
+  if (estimate.strength <= 0) return pixel;
+  const [lutR, lutG, lutB] = lookupTables(estimate);
+  return {
+    r: lutR[clamp(Math.round(pixel.r), 0, 255)],
+    g: lutG[clamp(Math.round(pixel.g), 0, 255)],
+    b: lutB[clamp(Math.round(pixel.b), 0, 255)],
+  };
+}
+
+/**
+ * Estimate (unless options carry one) and correct ImageData in place.
+ */
+export function whiteBalanceImageData(imageData: ImageData, options: WhiteBalanceOptions = {}): WhiteBalanceEstimate {
+  const estimate = options.estimate ?? estimateIlluminant(imageData.data, options);
+  applyWhiteBalance(imageData.data, estimate);
+  return estimate;
+}
+
+/**
+ * White-balance a canvas region in place so later getImageData calls see
+ * corrected pixels.
+ */
+export function whiteBalanceCanvas(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  options: WhiteBalanceOptions = {},
+): WhiteBalanceEstimate {
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const estimate = whiteBalanceImageData(imageData, options);
+  if (estimate.strength > 0) {
+    ctx.putImageData(imageData, 0, 0);
+  }
+  return estimate;
+}
+
+function collectSamples(data: Uint8ClampedArray | number[]): Array<[number, number, number]> {
+  const pixelCount = Math.floor(data.length / 4);
+  const step = Math.max(1, Math.floor(pixelCount / MAX_SAMPLES));
+  const samples: Array<[number, number, number]> = [];
+
+  for (let p = 0; p < pixelCount; p += step) {
+    const i = p * 4;
+    if (data[i + 3] < 128) continue;
+    if (data[i] >= CLIPPED || data[i + 1] >= CLIPPED || data[i + 2] >= CLIPPED) continue;
+
+    const r = srgbToLinear(data[i] / 255);
+    const g = srgbToLinear(data[i + 1] / 255);
+    const b = srgbToLinear(data[i + 2] / 255);
+    if (luminance(r, g, b) < MIN_LUMINANCE) continue;
+    samples.push([r, g, b]);
+  }
+
+  return samples;
+}
+
+function grayWorldIlluminant(samples: Array<[number, number, number]>): [number, number, number] {
+  const sum = [0, 0, 0];
+  samples.forEach((sample) => {
+    sum[0] += sample[0];
+    sum[1] += sample[1];
+    sum[2] += sample[2];
+  });
+  return [sum[0] / samples.length, sum[1] / samples.length, sum[2] / samples.length];
+}
+
+// Mean of the brightest few percent; a plain maximum is thrown off by one specular highlight
+function whitePatchIlluminant(samples: Array<[number, number, number]>): [number, number, number] {
+  const sorted = [...samples].sort((a, b) => luminance(b[0], b[1], b[2]) - luminance(a[0], a[1], a[2]));
+  const count = Math.max(MIN_SAMPLES / 5, Math.round(sorted.length * WHITE_PATCH_FRACTION));
+  return grayWorldIlluminant(sorted.slice(0, count));
+}
+
+function estimateFromReferenceCard(sample: Rgb, target: Rgb | undefined, strength: number | undefined): WhiteBalanceEstimate {
+  const measured: [number, number, number] = [
+    srgbToLinear(sample.r / 255),
+    srgbToLinear(sample.g / 255),
+    srgbToLinear(sample.b / 255),
+  ];
+  if (!target) {
+    return buildEstimate('reference-card', measured, strength ?? 1, 1);
+  }
+
+  // A coloured card: the light is whatever turns the true colour into the measured one
+  const truth = [srgbToLinear(target.r / 255), srgbToLinear(target.g / 255), srgbToLinear(target.b / 255)];
+  const illuminant = measured.map((channel, i) => channel / Math.max(truth[i], 1e-4)) as [number, number, number];
+  return buildEstimate('reference-card', illuminant, strength ?? 1, 1);
+}
+
+function buildEstimate(
+  method: WhiteBalanceMethod,
+  illuminant: [number, number, number],
+  strength: number,
+  sampleCount: number,
+): WhiteBalanceEstimate {
+  const [r, g, b] = illuminant.map((channel) => Math.max(channel, 1e-4));
+  const y = luminance(r, g, b);
+  const gains = {
+    r: clamp(y / r, 1 / MAX_GAIN, MAX_GAIN),
+    g: clamp(y / g, 1 / MAX_GAIN, MAX_GAIN),
+    b: clamp(y / b, 1 / MAX_GAIN, MAX_GAIN),
+  };
+
+  const peak = Math.max(r, g, b);
+  const display = {
+    r: Math.round(linearToSrgb(r / peak) * 255),
+    g: Math.round(linearToSrgb(g / peak) * 255),
+    b: Math.round(linearToSrgb(b / peak) * 255),
+  };
+
+  const redBlue = r / b;
+  const cast = redBlue > 1.15 ? 'warm' : redBlue < 0.87 ? 'cool' : 'neutral';
+
+  return {
+    method,
+    illuminant: display,
+    cct: correlatedColorTemperature(display),
+    cast,
+    gains,
+    strength: clamp(strength, 0, 1),
+    sampleCount,
+  };
+}
+
+// McCamy's approximation; only meaningful between roughly 2000K and 12500K
+function correlatedColorTemperature(color: Rgb): number | null {
+  const { x, y, z } = rgbToXyz(color.r, color.g, color.b);
+  const total = x + y + z;
+  if (total <= 0) return null;
+
+  const n = (x / total - 0.332) / (0.1858 - y / total);
+  const cct = 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33;
+  return cct >= 1500 && cct <= 15000 ? Math.round(cct) : null;
+}
+
+function angleBetween(first: number[], second: number[]): number {
+  const dot = first[0] * second[0] + first[1] * second[1] + first[2] * second[2];
+  const lengths = Math.hypot(...first) * Math.hypot(...second);
+  if (lengths === 0) return 0;
+  return (Math.acos(clamp(dot / lengths, -1, 1)) * 180) / Math.PI;
+}
+
+const lutCache = new WeakMap<WhiteBalanceEstimate, [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray]>();
+
+// Gains are interpolated in log space so half strength is half the correction in stops
+function lookupTables(estimate: WhiteBalanceEstimate): [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray] {
+  const cached = lutCache.get(estimate);
+  if (cached) return cached;
+
+  const tables = [estimate.gains.r, estimate.gains.g, estimate.gains.b].map((gain) => {
+    const applied = Math.pow(gain, estimate.strength);
+    const table = new Uint8ClampedArray(256);
+    for (let value = 0; value < 256; value++) {
+      table[value] = Math.round(linearToSrgb(Math.min(1, srgbToLinear(value / 255) * applied)) * 255);
+    }
+    return table;
+  }) as [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+
+  lutCache.set(estimate, tables);
+  return tables;
+}
@@ -5,26 +5,30 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
+  Share,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useStorage';
+import { useSync } from '@/hooks/useSync';
+import { ArchiveService, ImportMode } from '@/services/archiveService';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 
 const EditProfileScreen = () => {
   const { user, signOut } = useAuth();
-  const { profile, saveProfile } = useProfile();
+  const { profile, saveProfile, reloadProfile } = useProfile();
+  const { isOnline, isSyncing, pendingCount, lastSyncedAt, conflicts, syncNow, resolveConflict } = useSync();
   const [fullName, setFullName] = useState('');
   const [avatarUri, setAvatarUri] = useState(null);
   const [colorPalette, setColorPalette] = useState('');
 
   useEffect(() => {
     if (profile) {
-      setFullName(profile.full_name || '');
-      setAvatarUri(profile.avatar_url || null);
-      setColorPalette(profile.color_palette || '');
+      setFullName(profile.display_name || '');
+      setAvatarUri(profile.face_photo_url || null);
+      setColorPalette(profile.selected_palette_id || '');
     }
   }, [profile]);
 
@@ -53,9 +57,9 @@ const EditProfileScreen = () => {
   const saveProfileData = async () => {
     try {
       await saveProfile({
-        full_name: fullName,
-        avatar_url: avatarUri,
-        color_palette: colorPalette,
+        display_name: fullName,
+        face_photo_url: avatarUri,
+        selected_palette_id: colorPalette,
       });
       Alert.alert('Success', 'Profile updated successfully!');
     } catch (error) {
@@ -70,6 +74,64 @@ const EditProfileScreen = () => {
     }
   };
 
+  const handleResolveConflict = async (conflictId: string, keep: 'local' | 'remote') => {
+    try {
+      await resolveConflict(conflictId, keep);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to resolve conflict');
+    }
+  };
+
+  const handleExport = async (kind: 'archive' | 'csv') => {
+    if (!user) return;
+    try {
+      const uri = kind === 'archive'
+        ? await ArchiveService.exportArchive(user.id)
+        : await ArchiveService.exportCsv(user.id);
+      await Share.share({ url: uri, message: uri });
+    } catch (error) {
+      Alert.alert('Error', kind === 'archive' ? 'Failed to export backup' : 'Failed to export CSV');
+    }
+  };
+
+  const runImport = async (uri: string, mode: ImportMode) => {
+    if (!user) return;
+    try {
+      const archive = await ArchiveService.readArchive(uri);
+      const summary = await ArchiveService.importArchive(user.id, archive, mode);
+      await reloadProfile();
+      Alert.alert(
+        'Backup Restored',
+        `${summary.itemsImported} items and ${summary.outfitsImported} planned outfits restored.` +
+          (summary.itemsSkippedAsDuplicates > 0 ? ` ${summary.itemsSkippedAsDuplicates} duplicates skipped.` : '') +
+          (summary.itemsRejected.length > 0 ? ` ${summary.itemsRejected.length} invalid items ignored.` : '')
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to restore backup');
+    }
+  };
+
+  const handleRestore = async () => {
+    const [latest] = await ArchiveService.listBackups();
+    if (!latest) {
+      Alert.alert('No Backups', 'Export a backup first; backups are kept in the app\'s backup folder.');
+      return;
+    }
+
+    Alert.alert(
+      'Restore Backup',
+      `Restore ${latest.name}? Merge keeps your current wardrobe and adds anything missing; Replace clears it first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => runImport(latest.uri, 'merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => runImport(latest.uri, 'replace') },
+      ]
+    );
+  };
+
+  const formatConflictValue = (value: any) =>
+    Array.isArray(value) ? value.join(', ') : value === null || value === undefined ? '—' : String(value);
+
   const colorPalettes = [
     { name: 'Spring', colors: ['#FFB6C1', '#98FB98', '#FFE4E1', '#F0E68C'] },
     { name: 'Summer', colors: ['#87CEEB', '#DDA0DD', '#F0F8FF', '#E6E6FA'] },
@@ -292,6 +354,146 @@ const EditProfileScreen = () => {
           </View>
         </View>
 
+        {/* Sync Section */}
+        <View
+          style={{
+            backgroundColor: '#ffffff',
+            borderRadius: 16,
+            padding: 20,
+            marginBottom: 24,
+            shadowColor: '#000',
+            shadowOffset: { width: 0, height: 2 },
+            shadowOpacity: 0.1,
+            shadowRadius: 8,
+            elevation: 3,
+          }}
+        >
+          <Text
+            style={{
+              fontSize: 20,
+              fontWeight: '600',
+              color: '#1e293b',
+              marginBottom: 8,
+            }}
+          >
+            Sync
+          </Text>
+
+          <Text style={{ fontSize: 14, color: '#64748b', marginBottom: 16, lineHeight: 20 }}>
+            {isSyncing
+              ? 'Syncing your changes...'
+              : !isOnline
+                ? `Offline. ${pendingCount} change${pendingCount === 1 ? '' : 's'} will sync when you reconnect.`
+                : pendingCount > 0
+                  ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync.`
+                  : lastSyncedAt
+                    ? `Up to date. Last synced ${new Date(lastSyncedAt).toLocaleString()}.`
+                    : 'Not synced yet.'}
+          </Text>
+
+          {conflicts.map(conflict => (
+            <View
+              key={conflict.id}
+              style={{
+                borderWidth: 1,
+                borderColor: '#fde68a',
+                backgroundColor: '#fffbeb',
+                borderRadius: 12,
+                padding: 12,
+                marginBottom: 12,
+              }}
+            >
+              <Text style={{ fontSize: 14, fontWeight: '500', color: '#1e293b', marginBottom: 4 }}>
+                {conflict.field.replace(/_/g, ' ')} changed on two devices
+              </Text>
+              <Text style={{ fontSize: 13, color: '#64748b' }}>
+                This device: {formatConflictValue(conflict.local_value)}
+              </Text>
+              <Text style={{ fontSize: 13, color: '#64748b', marginBottom: 8 }}>
+                Other device: {formatConflictValue(conflict.remote_value)}
+              </Text>
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                <Button
+                  title={conflict.winner === 'local' ? 'Keep this device ✓' : 'Keep this device'}
+                  onPress={() => handleResolveConflict(conflict.id, 'local')}
+                  variant="outline"
+                  size="sm"
+                />
+                <Button
+                  title={conflict.winner === 'remote' ? 'Keep other device ✓' : 'Keep other device'}
+                  onPress={() => handleResolveConflict(conflict.id, 'remote')}
+                  variant="outline"
+                  size="sm"
+                />
+              </View>
+            </View>
+          ))}
+
+          <Button
+            title="Sync Now"
+            onPress={syncNow}
+            variant="outline"
+            disabled={!isOnline || isSyncing}
+            loading={isSyncing}
+            style={{ borderColor: '#a855f7' }}
+            textStyle={{ color: '#a855f7' }}
+          />
+        </View>
+
+        {/* Backup Section */}
+        <View
+          style={{
+            backgroundColor: '#ffffff',
+            borderRadius: 16,
+            padding: 20,
+            marginBottom: 24,
+            shadowColor: '#000',
+            shadowOffset: { width: 0, height: 2 },
+            shadowOpacity: 0.1,
+            shadowRadius: 8,
+            elevation: 3,
+          }}
+        >
+          <Text
+            style={{
+              fontSize: 20,
+              fontWeight: '600',
+              color: '#1e293b',
+              marginBottom: 8,
+            }}
+          >
+            Backup & Restore
+          </Text>
+
+          <Text style={{ fontSize: 14, color: '#64748b', marginBottom: 16, lineHeight: 20 }}>
+            Back up your wardrobe, photos, planned outfits, colour analysis and quiz answers, or export your items as a spreadsheet.
+          </Text>
+
+          <View style={{ gap: 8 }}>
+            <Button
+              title="Export Backup"
+              onPress={() => handleExport('archive')}
+              variant="outline"
+              style={{ borderColor: '#a855f7' }}
+              textStyle={{ color: '#a855f7' }}
+            />
+            <Button
+              title="Export Items as CSV"
+              onPress={() => handleExport('csv')}
+              variant="outline"
+              style={{ borderColor: '#a855f7' }}
+              textStyle={{ color: '#a855f7' }}
+            />
+            <Button
+              title="Restore Backup"
+              onPress={handleRestore}
+              variant="outline"
+              style={{ borderColor: '#a855f7' }}
+              textStyle={{ color: '#a855f7' }}
+            />
+          </View>
+        </View>
+
         {/* Actions */}
         <View style={{ gap: 12 }}>
           <Button
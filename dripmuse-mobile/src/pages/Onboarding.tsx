@@ -21,6 +21,8 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
+import type { ProfileUpdates } from "@/services/repositories";
 import { Progress } from "@/components/ui/progress";
 import { ColorPaletteSetup } from "@/components/ColorPaletteSetup";
 import { LocationSelector } from "@/components/LocationSelector";
@@ -166,65 +168,22 @@ const Onboarding = () => {
     setIsLoading(true);
 
     try {
-      // First check if profile already exists
-      const { data: existingProfile } = await supabase
-        .from("profiles")
-        .select("id")
-        .eq("user_id", user.id)
-        .single();
-
-      if (existingProfile) {
-        // Profile exists, update it instead
-        const updateData = {
-          display_name: profileData.display_name,
-          location: profileData.location,
-          culture: profileData.gender_identity,
-          preferred_style: profileData.preferred_style.length > 0 ? profileData.preferred_style[0] : '',
-          favorite_colors: profileData.favorite_colors,
-          color_palette_colors: profileData.color_palette_colors,
-          goals: profileData.goals,
-          face_photo_url: profileData.face_photo_url,
-          selected_palette_id: profileData.selected_palette_id,
-          color_season_analysis: profileData.color_season_analysis,
-          updated_at: new Date().toISOString()
-        };
-
-        console.log('Updating profile with data:', updateData);
-
-        const { error } = await supabase
-          .from("profiles")
-          .update(updateData)
-          .eq("user_id", user.id);
-
-        if (error) {
-          throw error;
-        }
-      } else {
-        // Profile doesn't exist, create new one
-        const insertData = {
-          user_id: user.id,
-          display_name: profileData.display_name,
-          location: profileData.location,
-          culture: profileData.gender_identity,
-          preferred_style: profileData.preferred_style.length > 0 ? profileData.preferred_style[0] : '',
-          favorite_colors: profileData.favorite_colors,
-          color_palette_colors: profileData.color_palette_colors,
-          goals: profileData.goals,
-          face_photo_url: profileData.face_photo_url,
-          selected_palette_id: profileData.selected_palette_id,
-          color_season_analysis: profileData.color_season_analysis,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        };
-
-        console.log('Creating profile with data:', insertData);
-
-        const { error } = await supabase.from("profiles").insert(insertData);
-
-        if (error) {
-          throw error;
-        }
-      }
+      // Creates the profile or updates the one made on first sign-in
+      const updates: ProfileUpdates = {
+        display_name: profileData.display_name,
+        location: profileData.location,
+        culture: profileData.gender_identity,
+        preferred_style: profileData.preferred_style.length > 0 ? profileData.preferred_style[0] : '',
+        favorite_colors: profileData.favorite_colors,
+        color_palette_colors: profileData.color_palette_colors,
+        goals: profileData.goals,
+        face_photo_url: profileData.face_photo_url,
+        selected_palette_id: profileData.selected_palette_id,
+        color_season_analysis: profileData.color_season_analysis,
+      };
+
+      console.log('Saving profile with data:', updates);
+      await getRepositories().profiles.upsert(user.id, updates);
 
       // Mark onboarding as completed in user_onboarding table
       await supabase
@@ -5,7 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useProfile';
-import { supabase } from '@/integrations/supabase/client';
+import { getRepositories } from '@/services/repositoryProvider';
 import { StyleQuiz } from '@/components/StyleQuiz';
 import { SmartWardrobeBootstrap } from '@/components/SmartWardrobeBootstrap';
 import { OccasionQuickStart } from '@/components/OccasionQuickStart';
@@ -29,15 +29,7 @@ export const StyleMeImproved: React.FC = () => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('user_style_quiz')
-        .select('*')
-        .eq('user_id', user.id)
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        throw error;
-      }
+      const data = await getRepositories().quiz.get(user.id);
 
       if (data) {
         setHasQuizResults(true);
@@ -43,7 +43,7 @@ const WardrobeScreen = () => {
         await addWardrobeItem({
           name: 'New Item',
           category: 'Uncategorized',
-          image_url: result.assets[0].uri,
+          photo_url: result.assets[0].uri,
         });
       } catch (error) {
         Alert.alert('Error', 'Failed to add item to wardrobe');
@@ -72,7 +72,7 @@ const WardrobeScreen = () => {
         await addWardrobeItem({
           name: 'New Item',
           category: 'Uncategorized',
-          image_url: result.assets[0].uri,
+          photo_url: result.assets[0].uri,
         });
       } catch (error) {
         Alert.alert('Error', 'Failed to add item to wardrobe');
@@ -28,22 +28,14 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
+import { getRepositories } from "@/services/repositoryProvider";
 import { accurateClothingAnalyzer } from "@/lib/accurateClothingAnalyzer";
+import { nearestColorName } from "@/lib/colorNames";
+import type { StyleItem } from "@/lib/wardrobeSchema";
 
-interface ClothingItem {
-  id: string;
-  name: string;
-  photo_url: string;
-  category: string;
-  color: string[];
-  style: string;
-  occasion: string[];
-  season: string[];
+// An item being set up, before it is saved through the repository
+interface ClothingItem extends StyleItem {
   texture?: string;
-  purchase_date?: string;
-  price?: number;
-  tags: string[];
 }
 
 const WardrobeSetup = () => {
@@ -268,60 +260,9 @@ const WardrobeSetup = () => {
       .map(([color]) => color);
   };
 
-  const getColorName = (r: number, g: number, b: number): string => {
-    const hsl = rgbToHsl(r, g, b);
-    const [h, s, l] = hsl;
-
-    if (l < 20) return "black";
-    if (l > 85) return "white";
-    if (s < 20) return "gray";
-
-    if (h < 15 || h > 345) return "red";
-    if (h < 45) return "orange";
-    if (h < 75) return "yellow";
-    if (h < 165) return "green";
-    if (h < 195) return "cyan";
-    if (h < 255) return "blue";
-    if (h < 285) return "purple";
-    if (h < 315) return "magenta";
-    return "pink";
-  };
-
-  const rgbToHsl = (
-    r: number,
-    g: number,
-    b: number,
-  ): [number, number, number] => {
-    r /= 255;
-    g /= 255;
-    b /= 255;
-
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    let h = 0,
-      s = 0,
-      l = (max + min) / 2;
-
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-
-      switch (max) {
-        case r:
-          h = (g - b) / d + (g < b ? 6 : 0);
-          break;
-        case g:
-          h = (b - r) / d + 2;
-          break;
-        case b:
-          h = (r - g) / d + 4;
-          break;
-      }
-      h /= 6;
-    }
-
-    return [h * 360, s * 100, l * 100];
-  };
+  // Everyday names only, so one garment doesn't split across near-synonyms
+  const getColorName = (r: number, g: number, b: number): string =>
+    nearestColorName({ r, g, b }, { basic: true }).name;
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -396,7 +337,6 @@ const WardrobeSetup = () => {
 
     try {
       const itemsToSave = items.map((item) => ({
-        user_id: user.id,
         name: item.name,
         photo_url: item.photo_url,
         category: item.category,
@@ -405,25 +345,16 @@ const WardrobeSetup = () => {
         occasion: item.occasion,
         season: item.season,
         tags: item.tags,
+        purchase_price: item.purchase_price,
+        purchase_date: item.purchase_date,
       }));
 
-      const { error } = await supabase
-        .from("wardrobe_items")
-        .insert(itemsToSave);
-
-      if (error) {
-        toast({
-          title: "Error",
-          description: "Failed to save wardrobe items",
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          title: "Wardrobe Saved!",
-          description: "Your wardrobe has been saved successfully.",
-        });
-        navigate("/dashboard");
-      }
+      await getRepositories().wardrobe.createMany(user.id, itemsToSave);
+      toast({
+        title: "Wardrobe Saved!",
+        description: "Your wardrobe has been saved successfully.",
+      });
+      navigate("/dashboard");
     } catch (error) {
       toast({
         title: "Error",
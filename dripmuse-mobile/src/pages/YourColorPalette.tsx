@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { useProfile, invalidateProfileCache } from "@/hooks/useProfile";
@@ -20,11 +21,16 @@ import {
   Edit,
   Star,
   AlertTriangle,
+  Eye,
 } from "lucide-react";
 import { ColorPaletteSetup } from "@/components/ColorPaletteSetup";
+import { ColorDrapeSimulator } from "@/components/ColorDrapeSimulator";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { PREDEFINED_COLOR_PALETTES, getPaletteById } from "@/data/predefinedColorPalettes";
 import { colorSeasonAnalysisService, type ColorSeasonAnalysis } from "@/lib/colorSeasonAnalysis";
+import { COLOR_VISION_DEFICIENCIES, simulateColorVision, type ColorVisionDeficiency } from "@/lib/colorVision";
+import { resolveColorHex } from "@/lib/colorNames";
+import { DEFAULT_SEASON_SYSTEM_ID, getSeasonSystem, getSeasonSystems } from "@/lib/seasonSystems";
 
 const YourColorPalette = () => {
   // Cache busting effect
@@ -39,8 +45,27 @@ const YourColorPalette = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [selectedColor, setSelectedColor] = useState<string | null>(null);
+  const [visionMode, setVisionMode] = useState<ColorVisionDeficiency | "normal">("normal");
+
+  // Swatches are shown as they would look in the chosen vision mode; copying still uses the real colour
+  const displayColor = (color: string) =>
+    visionMode === "normal" ? color : simulateColorVision(resolveColorHex(color) || color, visionMode);
 
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [seasonSystemId, setSeasonSystemId] = useState(DEFAULT_SEASON_SYSTEM_ID);
+
+  useEffect(() => {
+    AsyncStorage.getItem("seasonSystem").then((storedSystem) => {
+      if (storedSystem) {
+        setSeasonSystemId(getSeasonSystem(storedSystem).id);
+      }
+    });
+  }, []);
+
+  const handleSeasonSystemChange = (systemId: string) => {
+    setSeasonSystemId(systemId);
+    AsyncStorage.setItem("seasonSystem", systemId);
+  };
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -68,10 +93,20 @@ const YourColorPalette = () => {
 
   // Always recalculate color analysis based on current palette to ensure consistency
   const colorAnalysis: ColorSeasonAnalysis | null = selectedPalette
-    ? colorSeasonAnalysisService.analyzeColorSeason(selectedPalette)
+    ? colorSeasonAnalysisService.analyzeColorSeason(selectedPalette, { system: seasonSystemId })
     : null;
   const hasFullAnalysis = selectedPalette && colorAnalysis;
 
+  // The same person analysed as each season, for draping one season's colours against another's
+  const seasonDrapePalettes = selectedPalette
+    ? (["spring", "summer", "autumn", "winter"] as const).map((season) => ({
+        season,
+        colors: colorSeasonAnalysisService
+          .analyzeColorSeason({ ...selectedPalette, colorSeason: season }, { system: seasonSystemId })
+          .idealColors.flatMap((category) => category.colors),
+      }))
+    : [];
+
   // Use selected palette colors if available, otherwise fall back to extracted colors
   const rawColors = Array.isArray(profile?.color_palette_colors) ? profile.color_palette_colors : [];
   const extractedColors = rawColors.filter(color =>
@@ -339,7 +374,7 @@ const YourColorPalette = () => {
                         <div className="text-2xl mb-2">{icon}</div>
                         <div
                           className="w-24 h-24 mx-auto rounded-lg border-2 border-border transition-all duration-200 group-hover:scale-105 group-hover:border-primary shadow-md"
-                          style={{ backgroundColor: color }}
+                          style={{ backgroundColor: displayColor(color) }}
                           role="button"
                           aria-label={`${label}: ${color}`}
                         />
@@ -361,7 +396,7 @@ const YourColorPalette = () => {
                       <div className="flex items-center gap-4">
                         <div
                           className="w-16 h-16 rounded-lg border"
-                          style={{ backgroundColor: selectedColor }}
+                          style={{ backgroundColor: displayColor(selectedColor) }}
                         />
                         <div className="flex-1">
                           <h3 className="font-semibold">Color Sample</h3>
@@ -490,10 +525,28 @@ const YourColorPalette = () => {
                     <div className="space-y-8">
                       {/* Enhanced Color Season Badge */}
                       <div className="text-center bg-card/70 backdrop-blur-sm rounded-xl p-6 border border-primary/20">
+                        <div className="flex flex-wrap justify-center gap-2 mb-4">
+                          {getSeasonSystems().map((system) => (
+                            <Button
+                              key={system.id}
+                              size="sm"
+                              variant={seasonSystemId === system.id ? "default" : "outline"}
+                              onClick={() => handleSeasonSystemChange(system.id)}
+                              title={system.description}
+                            >
+                              {system.name}
+                            </Button>
+                          ))}
+                        </div>
                         <div className="mb-4">
                           <Badge className="text-xl px-6 py-3 bg-gradient-to-r from-purple-600 to-pink-600 text-white font-semibold">
                             {colorAnalysis.season.charAt(0).toUpperCase() + colorAnalysis.season.slice(1)} - {colorAnalysis.subSeason}
                           </Badge>
+                          {colorAnalysis.subSeasonConfidence !== undefined && (
+                            <p className="text-sm text-muted-foreground mt-2">
+                              {Math.round(colorAnalysis.subSeasonConfidence * 100)}% match in the {getSeasonSystem(colorAnalysis.seasonSystem).name.toLowerCase()} system
+                            </p>
+                          )}
                         </div>
                         <p className="text-foreground/80 text-base leading-relaxed max-w-2xl mx-auto">
                           {colorAnalysis.description}
@@ -508,7 +561,7 @@ const YourColorPalette = () => {
                             <div className="relative">
                               <div
                                 className="w-20 h-20 rounded-full border-4 border-white shadow-xl mx-auto mb-3 relative overflow-hidden"
-                                style={{ backgroundColor: selectedPalette.skinTone.color }}
+                                style={{ backgroundColor: displayColor(selectedPalette.skinTone.color) }}
                               >
                                 <div className="absolute inset-0 bg-gradient-to-tr from-transparent via-white/20 to-white/40"></div>
                               </div>
@@ -521,7 +574,7 @@ const YourColorPalette = () => {
                             <div className="relative">
                               <div
                                 className="w-20 h-20 rounded-full border-4 border-white shadow-xl mx-auto mb-3 relative overflow-hidden"
-                                style={{ backgroundColor: selectedPalette.hairColor.color }}
+                                style={{ backgroundColor: displayColor(selectedPalette.hairColor.color) }}
                               >
                                 <div className="absolute inset-0 bg-gradient-to-tr from-transparent via-white/20 to-white/40"></div>
                               </div>
@@ -534,7 +587,7 @@ const YourColorPalette = () => {
                             <div className="relative">
                               <div
                                 className="w-20 h-20 rounded-full border-4 border-white shadow-xl mx-auto mb-3 relative overflow-hidden"
-                                style={{ backgroundColor: selectedPalette.eyeColor.color }}
+                                style={{ backgroundColor: displayColor(selectedPalette.eyeColor.color) }}
                               >
                                 <div className="absolute inset-0 bg-gradient-to-tr from-transparent via-white/20 to-white/40"></div>
                               </div>
@@ -600,6 +653,57 @@ const YourColorPalette = () => {
                   </CardContent>
                 </Card>
 
+                {/* Colour Vision Preview */}
+                <Card className="card-premium">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-xl">
+                      <Eye className="h-6 w-6 text-teal-600" />
+                      Colour Vision Preview
+                    </CardTitle>
+                    <p className="text-muted-foreground">See how your palette reads to people with colour-vision deficiencies</p>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        variant={visionMode === "normal" ? "default" : "outline"}
+                        onClick={() => setVisionMode("normal")}
+                      >
+                        Typical vision
+                      </Button>
+                      {COLOR_VISION_DEFICIENCIES.map((deficiency) => (
+                        <Button
+                          key={deficiency.id}
+                          size="sm"
+                          variant={visionMode === deficiency.id ? "default" : "outline"}
+                          onClick={() => setVisionMode(deficiency.id)}
+                        >
+                          {deficiency.label}
+                        </Button>
+                      ))}
+                    </div>
+                    {visionMode !== "normal" && (
+                      <p className="text-sm text-muted-foreground mt-3">
+                        {COLOR_VISION_DEFICIENCIES.find((deficiency) => deficiency.id === visionMode)?.description}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Virtual Draping */}
+                {profile?.face_photo_url && (
+                  <ColorDrapeSimulator
+                    photoUrl={profile.face_photo_url}
+                    skinColor={selectedPalette.skinTone.color}
+                    bestColors={colorAnalysis.idealColors.flatMap((category) => category.colors)}
+                    avoidColors={colorAnalysis.avoidColors.flatMap((category) => category.colors)}
+                    seasonPalettes={[
+                      ...seasonDrapePalettes.filter((palette) => palette.season === colorAnalysis.season),
+                      ...seasonDrapePalettes.filter((palette) => palette.season !== colorAnalysis.season),
+                    ]}
+                  />
+                )}
+
                 {/* Enhanced Ideal Colors Section */}
                 <Card className="card-premium">
                   <CardHeader>
@@ -623,7 +727,7 @@ const YourColorPalette = () => {
                               <div key={colorIndex} className="group relative">
                                 <div
                                   className="w-full h-14 sm:h-12 rounded-lg border-2 border-white shadow-md cursor-pointer hover:scale-105 transition-all duration-200 hover:shadow-lg active:scale-95"
-                                  style={{ backgroundColor: color }}
+                                  style={{ backgroundColor: displayColor(color) }}
                                   title={`Click to copy ${color}`}
                                   onClick={() => handleCopyColor(color)}
                                 />
@@ -660,7 +764,7 @@ const YourColorPalette = () => {
                                 <div
                                   key={colorIndex}
                                   className="w-8 h-8 rounded border-2 border-red-200 opacity-75"
-                                  style={{ backgroundColor: color }}
+                                  style={{ backgroundColor: displayColor(color) }}
                                   title={`Avoid: ${color}`}
                                 />
                               ))}
@@ -718,7 +822,7 @@ const YourColorPalette = () => {
                             <div key={index} className="group relative">
                               <div
                                 className="w-full h-12 sm:h-10 rounded-lg border-2 border-white shadow-md cursor-pointer hover:scale-105 transition-all duration-200 active:scale-95"
-                                style={{ backgroundColor: color }}
+                                style={{ backgroundColor: displayColor(color) }}
                                 title={`Copy ${color}`}
                                 onClick={() => handleCopyColor(color)}
                               />
@@ -741,7 +845,7 @@ const YourColorPalette = () => {
                             <div key={index} className="group relative">
                               <div
                                 className="w-full h-12 sm:h-10 rounded-lg border-2 border-white shadow-md cursor-pointer hover:scale-105 transition-all duration-200 active:scale-95"
-                                style={{ backgroundColor: color }}
+                                style={{ backgroundColor: displayColor(color) }}
                                 title={`Copy ${color}`}
                                 onClick={() => handleCopyColor(color)}
                               />
@@ -849,7 +953,7 @@ const YourColorPalette = () => {
                           <p className="text-sm text-gray-600 mb-3">Your ideal foundation tone</p>
                           <div
                             className="w-full h-8 rounded-lg border-2 border-white shadow-md"
-                            style={{ backgroundColor: colorAnalysis.makeupRecommendations.foundation }}
+                            style={{ backgroundColor: displayColor(colorAnalysis.makeupRecommendations.foundation) }}
                           />
                           <p className="text-xs text-gray-500 mt-2">{colorAnalysis.makeupRecommendations.foundation}</p>
                         </div>
@@ -863,7 +967,7 @@ const YourColorPalette = () => {
                               <div
                                 key={index}
                                 className="w-full h-8 rounded-lg border-2 border-white shadow-md cursor-pointer hover:scale-105 transition-transform"
-                                style={{ backgroundColor: color }}
+                                style={{ backgroundColor: displayColor(color) }}
                                 title={`Copy ${color}`}
                                 onClick={() => handleCopyColor(color)}
                               />
@@ -880,7 +984,7 @@ const YourColorPalette = () => {
                               <div
                                 key={index}
                                 className="w-full h-8 rounded-lg border-2 border-white shadow-md cursor-pointer hover:scale-105 transition-transform"
-                                style={{ backgroundColor: color }}
+                                style={{ backgroundColor: displayColor(color) }}
                                 title={`Copy ${color}`}
                                 onClick={() => handleCopyColor(color)}
                               />
@@ -897,7 +1001,7 @@ const YourColorPalette = () => {
                               <div
                                 key={index}
                                 className="w-full h-8 rounded-lg border-2 border-white shadow-md cursor-pointer hover:scale-105 transition-transform"
-                                style={{ backgroundColor: color }}
+                                style={{ backgroundColor: displayColor(color) }}
                                 title={`Copy ${color}`}
                                 onClick={() => handleCopyColor(color)}
                               />
@@ -912,7 +1016,7 @@ const YourColorPalette = () => {
                           <div className="flex items-center gap-3">
                             <div
                               className="w-16 h-8 rounded-lg border-2 border-white shadow-md cursor-pointer hover:scale-105 transition-transform"
-                              style={{ backgroundColor: colorAnalysis.makeupRecommendations.eyebrowColor }}
+                              style={{ backgroundColor: displayColor(colorAnalysis.makeupRecommendations.eyebrowColor) }}
                               title={`Copy ${colorAnalysis.makeupRecommendations.eyebrowColor}`}
                               onClick={() => handleCopyColor(colorAnalysis.makeupRecommendations.eyebrowColor)}
                             />
@@ -929,7 +1033,7 @@ const YourColorPalette = () => {
                               <div className="flex items-center gap-2">
                                 <div
                                   className="w-8 h-8 rounded border-2 border-white shadow-md"
-                                  style={{ backgroundColor: colorAnalysis.makeupRecommendations.mascara }}
+                                  style={{ backgroundColor: displayColor(colorAnalysis.makeupRecommendations.mascara) }}
                                 />
                                 <span className="text-xs text-gray-500 font-mono">{colorAnalysis.makeupRecommendations.mascara}</span>
                               </div>
@@ -939,7 +1043,7 @@ const YourColorPalette = () => {
                               <div className="flex items-center gap-2">
                                 <div
                                   className="w-8 h-8 rounded border-2 border-white shadow-md cursor-pointer hover:scale-105 transition-transform"
-                                  style={{ backgroundColor: colorAnalysis.makeupRecommendations.highlighter }}
+                                  style={{ backgroundColor: displayColor(colorAnalysis.makeupRecommendations.highlighter) }}
                                   onClick={() => handleCopyColor(colorAnalysis.makeupRecommendations.highlighter)}
                                 />
                                 <span className="text-xs text-gray-500 font-mono">{colorAnalysis.makeupRecommendations.highlighter}</span>
@@ -957,7 +1061,7 @@ const YourColorPalette = () => {
                               <div
                                 key={index}
                                 className="w-full h-8 rounded-lg border-2 border-white shadow-md cursor-pointer hover:scale-105 transition-transform"
-                                style={{ backgroundColor: color }}
+                                style={{ backgroundColor: displayColor(color) }}
                                 title={`Copy ${color}`}
                                 onClick={() => handleCopyColor(color)}
                               />
@@ -1071,7 +1175,7 @@ const YourColorPalette = () => {
                                 <div
                                   key={colorIndex}
                                   className="w-8 h-8 rounded-lg border-2 border-white shadow-md cursor-pointer hover:scale-105 transition-transform"
-                                  style={{ backgroundColor: color }}
+                                  style={{ backgroundColor: displayColor(color) }}
                                   title={`Copy ${color}`}
                                   onClick={() => handleCopyColor(color)}
                                 />
@@ -0,0 +1,524 @@
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import { z } from 'zod';
+import {
+  WardrobeItem,
+  WardrobeItemInput,
+  RejectedWardrobeItem,
+  parseWardrobeItems,
+} from '@/lib/wardrobeSchema';
+import { getRepositories } from './repositoryProvider';
+import {
+  NewPlannedOutfit,
+  PlannedOutfitRecord,
+  ProfileRecord,
+  ProfileUpdates,
+  StagedWardrobeRecord,
+} from './repositories';
+
+export const ARCHIVE_FORMAT = 'dripmuse-archive';
+export const ARCHIVE_VERSION = 1;
+
+const BACKUP_DIRECTORY = `${FileSystem.documentDirectory}backups/`;
+const PHOTO_DIRECTORY = `${FileSystem.documentDirectory}wardrobe-photos/`;
+const ARCHIVE_EXTENSION = '.dripmuse.json';
+
+// Photos are stored once in `photos`, keyed by content hash, and referenced
+// from items and the profile as `archive-photo:<hash>`
+const PHOTO_REF_PREFIX = 'archive-photo:';
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+};
+
+const archivePhotoSchema = z.object({
+  mime_type: z.string(),
+  data: z.string().min(1),
+});
+
+// Enough of an archived item to check its photo is in the archive
+const archivedPhotoRefSchema = z.object({
+  photo_url: z.string(),
+});
+
+const archivedOutfitSchema = z.object({
+  id: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  occasion: z.string().optional(),
+  notes: z.string().optional(),
+  // Added after version 1 archives were first written, so optional
+  status: z.enum(['planned', 'worn', 'skipped']).optional(),
+  item_ids: z.array(z.string()),
+  details: z.record(z.any()).optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+const archivedQuizSchema = z.object({
+  style_personality: z.string().optional(),
+  color_preferences: z.array(z.string()).optional(),
+  lifestyle: z.string().optional(),
+  preferred_fit: z.string().optional(),
+  budget_range: z.string().optional(),
+  style_goals: z.array(z.string()).optional(),
+  quiz_answers: z.record(z.union([z.string(), z.array(z.string())])),
+  confidence_score: z.number().optional(),
+});
+
+const archiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().min(1).max(ARCHIVE_VERSION, 'was made by a newer version of DripMuse'),
+  exported_at: z.string(),
+  // Profile fields, including the colour season analysis
+  profile: z.record(z.any()).nullable(),
+  // Validated item by item through the wardrobe schema so one bad item does not sink the import
+  wardrobe_items: z.array(z.unknown()),
+  planned_outfits: z.array(archivedOutfitSchema),
+  style_quiz: archivedQuizSchema.nullable(),
+  // Keys become file names when photos are restored, so only hashes are allowed
+  photos: z.record(z.string().regex(/^[0-9a-f]{64}$/, 'is not a photo hash'), archivePhotoSchema),
+});
+
+export type WardrobeArchive = z.infer<typeof archiveSchema>;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSummary {
+  itemsImported: number;
+  itemsSkippedAsDuplicates: number;
+  itemsRejected: RejectedWardrobeItem[];
+  outfitsImported: number;
+  outfitsSkippedAsDuplicates: number;
+  photosRestored: number;
+  profileRestored: boolean;
+  quizRestored: boolean;
+}
+
+export interface BackupFile {
+  uri: string;
+  name: string;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ArchiveError';
+  }
+}
+
+const fileExtension = (uri: string): string => {
+  const match = uri.split('?')[0].match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : 'jpg';
+};
+
+const extensionForMimeType = (mimeType: string): string =>
+  Object.keys(MIME_TYPES).find(extension => MIME_TYPES[extension] === mimeType) || 'jpg';
+
+const hashPhoto = (base64: string): Promise<string> =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, base64);
+
+// Name, category and colours identify an item well enough to spot re-imports
+const itemFingerprint = (item: Pick<WardrobeItem, 'name' | 'category' | 'color'>): string =>
+  [
+    item.name.trim().toLowerCase(),
+    item.category.trim().toLowerCase(),
+    item.color.map(color => color.trim().toLowerCase()).sort().join(','),
+  ].join('|');
+
+const outfitFingerprint = (outfit: Pick<PlannedOutfitRecord, 'date' | 'item_ids'>): string =>
+  `${outfit.date}|${[...outfit.item_ids].sort().join(',')}`;
+
+const timestampForFileName = (date: Date): string =>
+  date.toISOString().slice(0, 16).replace(/[:T]/g, '-');
+
+const ensureDirectory = async (directory: string): Promise<void> => {
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  }
+};
+
+const escapeCsvValue = (value: unknown): string => {
+  const text = Array.isArray(value) ? value.join('; ') : value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS: (keyof WardrobeItem)[] = [
+  'id',
+  'name',
+  'category',
+  'color',
+  'style',
+  'occasion',
+  'season',
+  'tags',
+  'photo_url',
+  'created_at',
+  'updated_at',
+];
+
+/**
+ * Convert wardrobe items to RFC 4180 CSV, one row per item. List fields are
+ * joined with "; " so they survive a round trip through a spreadsheet.
+ */
+export const wardrobeItemsToCsv = (items: WardrobeItem[]): string => {
+  const rows = items.map(item => CSV_COLUMNS.map(column => escapeCsvValue(item[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export class ArchiveService {
+  /**
+   * Collect everything a user owns into an archive: profile (with colour
+   * analysis), wardrobe items, planned outfits, quiz answers and the photos
+   * they reference.
+   */
+  static async buildArchive(userId: string): Promise<WardrobeArchive> {
+    try {
+      const { wardrobe, profiles, quiz, plannedOutfits } = getRepositories();
+      const [items, profile, quizResult, outfits] = await Promise.all([
+        wardrobe.list(userId),
+        profiles.get(userId),
+        quiz.get(userId),
+        plannedOutfits.list(userId),
+      ]);
+
+      const photos: WardrobeArchive['photos'] = {};
+      const embedPhoto = async (uri?: string): Promise<string | undefined> => {
+        if (!uri) return uri;
+        try {
+          const base64 = await this.readPhoto(uri);
+          const hash = await hashPhoto(base64);
+          photos[hash] = { mime_type: MIME_TYPES[fileExtension(uri)] || 'image/jpeg', data: base64 };
+          return `${PHOTO_REF_PREFIX}${hash}`;
+        } catch (error) {
+          // Keep the original reference so at least the link survives
+          console.warn('Could not embed photo in archive:', uri, error);
+          return uri;
+        }
+      };
+
+      const archivedItems = [];
+      for (const item of items) {
+        archivedItems.push({ ...item, photo_url: (await embedPhoto(item.photo_url)) || '' });
+      }
+
+      return {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exported_at: new Date().toISOString(),
+        profile: profile ? { ...profile, face_photo_url: await embedPhoto(profile.face_photo_url) } : null,
+        wardrobe_items: archivedItems,
+        // Missing items are gone from the wardrobe, so there is nothing to relink them to
+        planned_outfits: outfits.map(({ user_id, missing_item_ids, ...outfit }) => outfit),
+        style_quiz: quizResult ? archivedQuizSchema.parse(quizResult) : null,
+        photos,
+      };
+    } catch (error) {
+      console.error('Error building archive:', error);
+      throw new Error('Failed to build archive');
+    }
+  }
+
+  /**
+   * Write a backup archive to the app's backup folder and return its URI
+   */
+  static async exportArchive(userId: string): Promise<string> {
+    const archive = await this.buildArchive(userId);
+
+    try {
+      await ensureDirectory(BACKUP_DIRECTORY);
+      const uri = `${BACKUP_DIRECTORY}dripmuse-backup-${timestampForFileName(new Date())}${ARCHIVE_EXTENSION}`;
+      await FileSystem.writeAsStringAsync(uri, JSON.stringify(archive));
+      return uri;
+    } catch (error) {
+      console.error('Error writing archive:', error);
+      throw new Error('Failed to write archive');
+    }
+  }
+
+  /**
+   * Write the item list as CSV for spreadsheets and return its URI
+   */
+  static async exportCsv(userId: string): Promise<string> {
+    try {
+      const items = await getRepositories().wardrobe.list(userId);
+      await ensureDirectory(BACKUP_DIRECTORY);
+      const uri = `${BACKUP_DIRECTORY}dripmuse-wardrobe-${timestampForFileName(new Date())}.csv`;
+      await FileSystem.writeAsStringAsync(uri, wardrobeItemsToCsv(items));
+      return uri;
+    } catch (error) {
+      console.error('Error exporting CSV:', error);
+      throw new Error('Failed to export CSV');
+    }
+  }
+
+  static async listBackups(): Promise<BackupFile[]> {
+    try {
+      const info = await FileSystem.getInfoAsync(BACKUP_DIRECTORY);
+      if (!info.exists) return [];
+
+      const names = await FileSystem.readDirectoryAsync(BACKUP_DIRECTORY);
+      return names
+        .filter(name => name.endsWith(ARCHIVE_EXTENSION))
+        .sort()
+        .reverse()
+        .map(name => ({ name, uri: `${BACKUP_DIRECTORY}${name}` }));
+    } catch (error) {
+      console.error('Error listing backups:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read and validate an archive. Throws ArchiveError describing what is
+   * wrong when the file is not a usable archive.
+   */
+  static async readArchive(uri: string): Promise<WardrobeArchive> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await FileSystem.readAsStringAsync(uri));
+    } catch (error) {
+      console.error('Error reading archive:', error);
+      throw new ArchiveError('This file is not a DripMuse backup');
+    }
+
+    return this.validateArchive(raw);
+  }
+
+  static validateArchive(raw: unknown): WardrobeArchive {
+    const result = archiveSchema.safeParse(raw);
+    if (!result.success) {
+      throw new ArchiveError(
+        'This backup is damaged or unsupported',
+        result.error.issues.map(issue => `${issue.path.join('.') || 'archive'} ${issue.message.toLowerCase()}`)
+      );
+    }
+
+    const archive = result.data;
+    const missingPhotos = [
+      ...archive.wardrobe_items.map(item => {
+        const ref = archivedPhotoRefSchema.safeParse(item);
+        return ref.success ? ref.data.photo_url : undefined;
+      }),
+      archive.profile?.face_photo_url,
+    ].filter(
+      (uri): uri is string =>
+        typeof uri === 'string' && uri.startsWith(PHOTO_REF_PREFIX) && !archive.photos[uri.slice(PHOTO_REF_PREFIX.length)]
+    );
+    if (missingPhotos.length > 0) {
+      throw new ArchiveError('This backup is missing photos', missingPhotos);
+    }
+
+    return archive;
+  }
+
+  /**
+   * Restore an archive for a user. Every item and outfit gets a fresh id;
+   * outfits are relinked through the old-to-new id map. In `merge` mode
+   * items and outfits that already exist are skipped and only empty profile
+   * fields are filled; `replace` swaps the wardrobe and planned outfits for
+   * the archive's in one step, keeping the old ones if that fails.
+   */
+  static async importArchive(userId: string, archive: WardrobeArchive, mode: ImportMode): Promise<ImportSummary> {
+    const { wardrobe, profiles, quiz, plannedOutfits } = getRepositories();
+    const summary: ImportSummary = {
+      itemsImported: 0,
+      itemsSkippedAsDuplicates: 0,
+      itemsRejected: [],
+      outfitsImported: 0,
+      outfitsSkippedAsDuplicates: 0,
+      photosRestored: 0,
+      profileRestored: false,
+      quizRestored: false,
+    };
+
+    // A photo stored under another photo's hash would replace that photo on disk
+    const damagedPhotos: string[] = [];
+    for (const [hash, photo] of Object.entries(archive.photos)) {
+      if ((await hashPhoto(photo.data)) !== hash) damagedPhotos.push(hash);
+    }
+    if (damagedPhotos.length > 0) {
+      throw new ArchiveError('This backup has damaged photos', damagedPhotos);
+    }
+
+    try {
+      const { items, rejected } = parseWardrobeItems(archive.wardrobe_items);
+      summary.itemsRejected = rejected;
+
+      // Index what is already there so re-imports do not duplicate anything.
+      // A replaced wardrobe will be gone, so it is not a source of duplicates.
+      const existingByFingerprint = new Map<string, string>();
+      const existingByPhoto = new Map<string, string>();
+      if (mode === 'merge') {
+        for (const item of await wardrobe.list(userId)) {
+          existingByFingerprint.set(itemFingerprint(item), item.id);
+          if (item.photo_url.startsWith(PHOTO_DIRECTORY)) {
+            existingByPhoto.set(item.photo_url, item.id);
+          }
+        }
+      }
+
+      const restorePhoto = async (ref?: string): Promise<string | undefined> => {
+        if (!ref || !ref.startsWith(PHOTO_REF_PREFIX)) return ref;
+        const hash = ref.slice(PHOTO_REF_PREFIX.length);
+        const photo = archive.photos[hash];
+        const uri = `${PHOTO_DIRECTORY}${hash}.${extensionForMimeType(photo.mime_type)}`;
+
+        const info = await FileSystem.getInfoAsync(uri);
+        if (!info.exists) {
+          await ensureDirectory(PHOTO_DIRECTORY);
+          await FileSystem.writeAsStringAsync(uri, photo.data, { encoding: FileSystem.EncodingType.Base64 });
+          summary.photosRestored++;
+        }
+        return uri;
+      };
+
+      // Stage every item before anything is written. Staged items are keyed
+      // by their archive id; an archive item that duplicates an existing item
+      // maps to that item's id, one that duplicates a staged item to its key.
+      const staged: StagedWardrobeRecord[] = [];
+      const stagedByFingerprint = new Map<string, string>();
+      const existingIdMap = new Map<string, string>();
+      const stagedKeyMap = new Map<string, string>();
+      for (const item of items) {
+        const photoUrl = (await restorePhoto(item.photo_url)) || '';
+        const fingerprint = itemFingerprint(item);
+        const existingId = existingByFingerprint.get(fingerprint) || existingByPhoto.get(photoUrl);
+        const stagedKey = stagedByFingerprint.get(fingerprint);
+        if (existingId) {
+          existingIdMap.set(item.id, existingId);
+          summary.itemsSkippedAsDuplicates++;
+          continue;
+        }
+        if (stagedKey) {
+          stagedKeyMap.set(item.id, stagedKey);
+          summary.itemsSkippedAsDuplicates++;
+          continue;
+        }
+
+        const input: WardrobeItemInput = {
+          name: item.name,
+          category: item.category,
+          photo_url: photoUrl,
+          color: item.color,
+          style: item.style,
+          occasion: item.occasion,
+          season: item.season,
+          tags: item.tags,
+        };
+        staged.push({ ...input, key: item.id });
+        stagedByFingerprint.set(fingerprint, item.id);
+        stagedKeyMap.set(item.id, item.id);
+      }
+
+      // Outfits in `existing` (by fingerprint) are counted and left out
+      const stageOutfits = (resolveItem: (archiveId: string) => string | undefined, existing: Set<string>) => {
+        const stagedOutfits: NewPlannedOutfit[] = [];
+        for (const outfit of archive.planned_outfits) {
+          const itemIds = outfit.item_ids
+            .map(resolveItem)
+            .filter((itemId): itemId is string => !!itemId);
+          const fingerprint = outfitFingerprint({ date: outfit.date, item_ids: itemIds });
+          if (existing.has(fingerprint)) {
+            summary.outfitsSkippedAsDuplicates++;
+            continue;
+          }
+
+          stagedOutfits.push({
+            date: outfit.date,
+            occasion: outfit.occasion,
+            notes: outfit.notes,
+            status: outfit.status,
+            item_ids: itemIds,
+            details: outfit.details,
+          });
+          existing.add(fingerprint);
+        }
+        return stagedOutfits;
+      };
+
+      if (mode === 'replace') {
+        // Outfits refer to the staged keys; the repository swaps in real ids
+        const outfits = stageOutfits(archiveId => stagedKeyMap.get(archiveId), new Set());
+        await wardrobe.replace(userId, { items: staged, outfits });
+        summary.itemsImported = staged.length;
+        summary.outfitsImported = outfits.length;
+      } else {
+        const createdIds = new Map<string, string>();
+        for (const { key, ...input } of staged) {
+          const created = await wardrobe.create(userId, input);
+          createdIds.set(key, created.id);
+          summary.itemsImported++;
+        }
+
+        const existingOutfits = new Set(
+          (await plannedOutfits.list(userId)).map(outfitFingerprint)
+        );
+        const outfits = stageOutfits(archiveId => {
+          const stagedKey = stagedKeyMap.get(archiveId);
+          return stagedKey ? createdIds.get(stagedKey) : existingIdMap.get(archiveId);
+        }, existingOutfits);
+        for (const outfit of outfits) {
+          await plannedOutfits.create(userId, outfit);
+          summary.outfitsImported++;
+        }
+      }
+
+      if (archive.profile) {
+        const { id, user_id, created_at, updated_at, ...archived } = archive.profile as ProfileRecord;
+        const restored: ProfileUpdates = {
+          ...archived,
+          face_photo_url: await restorePhoto(archived.face_photo_url),
+        };
+        const current = await profiles.get(userId);
+
+        let updates: ProfileUpdates = restored;
+        if (mode === 'merge' && current) {
+          // Only fill in what the current profile is missing
+          updates = Object.fromEntries(
+            Object.entries(restored).filter(([field, value]) => {
+              const existing = (current as any)[field];
+              const isEmpty = existing === undefined || existing === null || existing === '' ||
+                (Array.isArray(existing) && existing.length === 0);
+              return isEmpty && value !== undefined;
+            })
+          );
+        }
+
+        if (Object.keys(updates).length > 0) {
+          await profiles.upsert(userId, updates);
+          summary.profileRestored = true;
+        }
+      }
+
+      if (archive.style_quiz && (mode === 'replace' || !(await quiz.get(userId)))) {
+        await quiz.upsert(userId, archive.style_quiz);
+        summary.quizRestored = true;
+      }
+
+      return summary;
+    } catch (error) {
+      console.error('Error importing archive:', error);
+      throw new Error('Failed to import archive');
+    }
+  }
+
+  private static async readPhoto(uri: string): Promise<string> {
+    if (uri.startsWith('file://')) {
+      return FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+    }
+
+    // Remote photos are downloaded to the cache first
+    const cachedUri = `${FileSystem.cacheDirectory}archive-photo-${Date.now()}.${fileExtension(uri)}`;
+    try {
+      await FileSystem.downloadAsync(uri, cachedUri);
+      return await FileSystem.readAsStringAsync(cachedUri, { encoding: FileSystem.EncodingType.Base64 });
+    } finally {
+      await FileSystem.deleteAsync(cachedUri, { idempotent: true });
+    }
+  }
+}
@@ -1,4 +1,17 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import {
+  pbkdf2Sha256,
+  hmacSha256,
+  randomBytes,
+  constantTimeEqual,
+  bytesToHex,
+  hexToBytes,
+  bytesToBase64Url,
+  base64UrlToBytes,
+  utf8Encode,
+  utf8Decode,
+} from '@/lib/crypto';
 
 export interface User {
   id: string;
@@ -10,22 +23,146 @@ export interface AuthError {
   message: string;
 }
 
+export interface Session {
+  token: string;
+  user: User;
+  issued_at: number; // epoch ms
+  expires_at: number; // epoch ms
+}
+
+interface SessionTokenPayload {
+  sid: string;
+  sub: string;
+  email: string;
+  iat: number;
+  exp: number;
+}
+
 interface StoredUser extends User {
-  password: string; // Store hashed in production
+  password?: string; // Legacy base64 password, removed once upgraded
 }
 
+// Non-secret account directory; credentials and sessions live in SecureStore
 const USERS_KEY = 'dripmuse_users';
-const CURRENT_USER_KEY = 'dripmuse_current_user';
+const CREDENTIAL_KEY_PREFIX = 'dripmuse_credential_';
+const SESSION_KEY_PREFIX = 'dripmuse_session_';
+const SESSION_SIGNING_KEY = 'dripmuse_session_signing_key';
+// Signed-in account ids, most recently active first
+const SIGNED_IN_ACCOUNTS_KEY = 'dripmuse_signed_in_accounts';
+// Pre-session builds stored the signed-in user here
+const LEGACY_CURRENT_USER_KEY = 'dripmuse_current_user';
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const HASH_ALGORITHM = 'pbkdf2_sha256';
+const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+const SECURE_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+const credentialKey = (userId: string): string => `${CREDENTIAL_KEY_PREFIX}${userId}`;
+const sessionKey = (userId: string): string => `${SESSION_KEY_PREFIX}${userId}`;
+
+let signingKeyPromise: Promise<Uint8Array> | null = null;
+
+/**
+ * Load the device-local HMAC key used to sign session tokens, creating it on
+ * first use
+ */
+const getSigningKey = (): Promise<Uint8Array> => {
+  if (!signingKeyPromise) {
+    signingKeyPromise = (async () => {
+      const stored = await SecureStore.getItemAsync(SESSION_SIGNING_KEY, SECURE_STORE_OPTIONS);
+      if (stored) {
+        return hexToBytes(stored);
+      }
+      const key = randomBytes(32);
+      await SecureStore.setItemAsync(SESSION_SIGNING_KEY, bytesToHex(key), SECURE_STORE_OPTIONS);
+      return key;
+    })().catch((error) => {
+      signingKeyPromise = null;
+      throw error;
+    });
+  }
+  return signingKeyPromise;
+};
 
-// Simple password hashing (use proper hashing in production)
-const hashPassword = (password: string): string => {
-  return btoa(password); // Base64 encoding for demo purposes
+/**
+ * Encode a token as `<base64url payload>.<base64url HMAC-SHA-256>`
+ */
+const signSessionToken = async (payload: SessionTokenPayload): Promise<string> => {
+  const key = await getSigningKey();
+  const encodedPayload = bytesToBase64Url(utf8Encode(JSON.stringify(payload)));
+  const signature = bytesToBase64Url(hmacSha256(key, encodedPayload));
+  return `${encodedPayload}.${signature}`;
 };
 
-const verifyPassword = (password: string, hash: string): boolean => {
-  return btoa(password) === hash;
+/**
+ * Return the payload of a correctly signed, unexpired token, or null
+ */
+const verifySessionToken = async (token: string, now: number = Date.now()): Promise<SessionTokenPayload | null> => {
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  try {
+    const key = await getSigningKey();
+    const expected = hmacSha256(key, encodedPayload);
+    if (!constantTimeEqual(base64UrlToBytes(signature), expected)) {
+      return null;
+    }
+
+    const payload: SessionTokenPayload = JSON.parse(utf8Decode(base64UrlToBytes(encodedPayload)));
+    return payload.exp > now ? payload : null;
+  } catch (error) {
+    console.error('Error verifying session token:', error);
+    return null;
+  }
+};
+
+/**
+ * Hash a password as `pbkdf2_sha256$<iterations>$<salt hex>$<hash hex>` so
+ * the iteration count can be raised later without invalidating old hashes
+ */
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await pbkdf2Sha256(password, salt, PBKDF2_ITERATIONS, KEY_BYTES);
+  return [HASH_ALGORITHM, PBKDF2_ITERATIONS, bytesToHex(salt), bytesToHex(hash)].join('$');
 };
 
+const verifyPassword = async (password: string, encoded: string): Promise<boolean> => {
+  const [algorithm, iterations, saltHex, hashHex] = encoded.split('$');
+  if (algorithm !== HASH_ALGORITHM || !iterations || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = hexToBytes(hashHex);
+  const actual = await pbkdf2Sha256(password, hexToBytes(saltHex), parseInt(iterations, 10), expected.length);
+  return constantTimeEqual(actual, expected);
+};
+
+const needsRehash = (encoded: string): boolean => {
+  const [algorithm, iterations] = encoded.split('$');
+  return algorithm !== HASH_ALGORITHM || parseInt(iterations, 10) < PBKDF2_ITERATIONS;
+};
+
+// Accounts created before PBKDF2 stored btoa(password)
+const verifyLegacyPassword = (password: string, legacyHash: string): boolean => {
+  let encoded: string;
+  try {
+    encoded = btoa(password);
+  } catch (error) {
+    return false;
+  }
+  return constantTimeEqual(utf8Encode(encoded), utf8Encode(legacyHash));
+};
+
+const toPublicUser = ({ id, email, created_at }: StoredUser): User => ({ id, email, created_at });
+
 export class AuthService {
   static async getStoredUsers(): Promise<StoredUser[]> {
     try {
@@ -41,13 +178,13 @@ export class AuthService {
     try {
       const users = await this.getStoredUsers();
       const existingUserIndex = users.findIndex(u => u.email === user.email);
-      
+
       if (existingUserIndex >= 0) {
         users[existingUserIndex] = user;
       } else {
         users.push(user);
       }
-      
+
       await AsyncStorage.setItem(USERS_KEY, JSON.stringify(users));
     } catch (error) {
       console.error('Error saving user:', error);
@@ -55,78 +192,257 @@ export class AuthService {
     }
   }
 
+  static async saveCredential(userId: string, password: string): Promise<void> {
+    try {
+      await SecureStore.setItemAsync(credentialKey(userId), await hashPassword(password), SECURE_STORE_OPTIONS);
+    } catch (error) {
+      console.error('Error saving credential:', error);
+      throw new Error('Failed to save credential');
+    }
+  }
+
   static async signUp(email: string, password: string): Promise<{ user?: User; error?: AuthError }> {
     try {
       // Check if user already exists
       const users = await this.getStoredUsers();
       const existingUser = users.find(u => u.email === email);
-      
+
       if (existingUser) {
         return { error: { message: 'User already exists with this email' } };
       }
 
       // Create new user
-      const newUser: StoredUser = {
+      const newUser: User = {
         id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         email,
-        password: hashPassword(password),
         created_at: new Date().toISOString(),
       };
 
+      // Write the credential first so a crash never leaves a passwordless account
+      await this.saveCredential(newUser.id, password);
       await this.saveUser(newUser);
 
-      // Return user without password
-      const { password: _, ...userWithoutPassword } = newUser;
-      return { user: userWithoutPassword };
+      return { user: newUser };
     } catch (error) {
       return { error: { message: 'Failed to create account' } };
     }
   }
 
-  static async signIn(email: string, password: string): Promise<{ user?: User; error?: AuthError }> {
+  static async signIn(email: string, password: string): Promise<{ user?: User; session?: Session; error?: AuthError }> {
     try {
       const users = await this.getStoredUsers();
       const user = users.find(u => u.email === email);
-      
+
       if (!user) {
         return { error: { message: 'No account found with this email' } };
       }
 
-      if (!verifyPassword(password, user.password)) {
+      const credential = await SecureStore.getItemAsync(credentialKey(user.id), SECURE_STORE_OPTIONS);
+
+      if (credential) {
+        if (!(await verifyPassword(password, credential))) {
+          return { error: { message: 'Incorrect password' } };
+        }
+        if (needsRehash(credential)) {
+          await this.saveCredential(user.id, password);
+        }
+      } else if (user.password) {
+        if (!verifyLegacyPassword(password, user.password)) {
+          return { error: { message: 'Incorrect password' } };
+        }
+        // Upgrade the legacy base64 password now that we know the plaintext
+        await this.saveCredential(user.id, password);
+        await this.saveUser(toPublicUser(user));
+      } else {
         return { error: { message: 'Incorrect password' } };
       }
 
-      // Store current user session
-      const { password: _, ...userWithoutPassword } = user;
-      await AsyncStorage.setItem(CURRENT_USER_KEY, JSON.stringify(userWithoutPassword));
-
-      return { user: userWithoutPassword };
+      const session = await this.createSession(toPublicUser(user));
+      return { user: session.user, session };
     } catch (error) {
       return { error: { message: 'Failed to sign in' } };
     }
   }
 
-  static async signOut(): Promise<{ error?: AuthError }> {
+  /**
+   * Sign out the active account. Another signed-in account, if any, becomes
+   * active and is returned.
+   */
+  static async signOut(): Promise<{ session?: Session | null; error?: AuthError }> {
+    try {
+      const accountIds = await this.getSignedInAccountIds();
+      const [activeId, ...remaining] = accountIds;
+
+      if (activeId) {
+        await SecureStore.deleteItemAsync(sessionKey(activeId), SECURE_STORE_OPTIONS);
+      }
+      await AsyncStorage.setItem(SIGNED_IN_ACCOUNTS_KEY, JSON.stringify(remaining));
+
+      return { session: await this.getCurrentSession() };
+    } catch (error) {
+      return { error: { message: 'Failed to sign out' } };
+    }
+  }
+
+  static async signOutAll(): Promise<{ error?: AuthError }> {
     try {
-      await AsyncStorage.removeItem(CURRENT_USER_KEY);
+      const accountIds = await this.getSignedInAccountIds();
+      for (const accountId of accountIds) {
+        await SecureStore.deleteItemAsync(sessionKey(accountId), SECURE_STORE_OPTIONS);
+      }
+      await AsyncStorage.removeItem(SIGNED_IN_ACCOUNTS_KEY);
       return {};
     } catch (error) {
       return { error: { message: 'Failed to sign out' } };
     }
   }
 
-  static async getCurrentUser(): Promise<User | null> {
+  /**
+   * Get the active session, dropping any expired or tampered sessions found
+   * on the way so the next signed-in account takes over
+   */
+  static async getCurrentSession(): Promise<Session | null> {
     try {
-      const userJson = await AsyncStorage.getItem(CURRENT_USER_KEY);
-      return userJson ? JSON.parse(userJson) : null;
+      await this.migrateLegacySession();
+
+      const accountIds = await this.getSignedInAccountIds();
+      while (accountIds.length > 0) {
+        const session = await this.getValidSession(accountIds[0]);
+        if (session) {
+          return session;
+        }
+        await SecureStore.deleteItemAsync(sessionKey(accountIds[0]), SECURE_STORE_OPTIONS);
+        accountIds.shift();
+        await AsyncStorage.setItem(SIGNED_IN_ACCOUNTS_KEY, JSON.stringify(accountIds));
+      }
+
+      return null;
     } catch (error) {
-      console.error('Error getting current user:', error);
+      console.error('Error getting current session:', error);
       return null;
     }
   }
 
+  static async getCurrentUser(): Promise<User | null> {
+    const session = await this.getCurrentSession();
+    return session?.user ?? null;
+  }
+
   static async isSignedIn(): Promise<boolean> {
     const user = await this.getCurrentUser();
     return user !== null;
   }
+
+  /**
+   * Extend the active session by issuing a fresh token with a new expiry.
+   * An expired session cannot be refreshed.
+   */
+  static async refreshSession(): Promise<{ session?: Session; error?: AuthError }> {
+    try {
+      const current = await this.getCurrentSession();
+      if (!current) {
+        return { error: { message: 'Session expired. Please sign in again.' } };
+      }
+
+      const session = await this.createSession(current.user);
+      return { session };
+    } catch (error) {
+      return { error: { message: 'Failed to refresh session' } };
+    }
+  }
+
+  /**
+   * List accounts with a valid session on this device, active account first
+   */
+  static async getSignedInAccounts(): Promise<Session[]> {
+    const accountIds = await this.getSignedInAccountIds();
+    const sessions: Session[] = [];
+
+    for (const accountId of accountIds) {
+      const session = await this.getValidSession(accountId);
+      if (session) {
+        sessions.push(session);
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Make another signed-in account active without asking for its password
+   */
+  static async switchAccount(userId: string): Promise<{ session?: Session; error?: AuthError }> {
+    try {
+      const session = await this.getValidSession(userId);
+      if (!session) {
+        return { error: { message: 'That account is signed out. Please sign in again.' } };
+      }
+
+      await this.setActiveAccount(userId);
+      return { session };
+    } catch (error) {
+      return { error: { message: 'Failed to switch account' } };
+    }
+  }
+
+  private static async createSession(user: User): Promise<Session> {
+    const issuedAt = Date.now();
+    const expiresAt = issuedAt + SESSION_TTL_MS;
+    const token = await signSessionToken({
+      sid: bytesToHex(randomBytes(16)),
+      sub: user.id,
+      email: user.email,
+      iat: issuedAt,
+      exp: expiresAt,
+    });
+
+    const session: Session = { token, user, issued_at: issuedAt, expires_at: expiresAt };
+    await SecureStore.setItemAsync(sessionKey(user.id), JSON.stringify(session), SECURE_STORE_OPTIONS);
+    await this.setActiveAccount(user.id);
+    return session;
+  }
+
+  private static async getValidSession(userId: string): Promise<Session | null> {
+    const sessionJson = await SecureStore.getItemAsync(sessionKey(userId), SECURE_STORE_OPTIONS);
+    if (!sessionJson) {
+      return null;
+    }
+
+    const session: Session = JSON.parse(sessionJson);
+    const payload = await verifySessionToken(session.token);
+    if (!payload || payload.sub !== userId) {
+      return null;
+    }
+
+    // Trust the signed claims over the stored copy
+    return { ...session, issued_at: payload.iat, expires_at: payload.exp };
+  }
+
+  private static async getSignedInAccountIds(): Promise<string[]> {
+    const accountIdsJson = await AsyncStorage.getItem(SIGNED_IN_ACCOUNTS_KEY);
+    return accountIdsJson ? JSON.parse(accountIdsJson) : [];
+  }
+
+  private static async setActiveAccount(userId: string): Promise<void> {
+    const accountIds = await this.getSignedInAccountIds();
+    const reordered = [userId, ...accountIds.filter(id => id !== userId)];
+    await AsyncStorage.setItem(SIGNED_IN_ACCOUNTS_KEY, JSON.stringify(reordered));
+  }
+
+  /**
+   * Turn a signed-in user left by older builds (in AsyncStorage or
+   * SecureStore) into a proper session
+   */
+  private static async migrateLegacySession(): Promise<void> {
+    const legacyUserJson =
+      (await SecureStore.getItemAsync(LEGACY_CURRENT_USER_KEY, SECURE_STORE_OPTIONS)) ||
+      (await AsyncStorage.getItem(LEGACY_CURRENT_USER_KEY));
+    if (!legacyUserJson) {
+      return;
+    }
+
+    await this.createSession(toPublicUser(JSON.parse(legacyUserJson)));
+    await SecureStore.deleteItemAsync(LEGACY_CURRENT_USER_KEY, SECURE_STORE_OPTIONS);
+    await AsyncStorage.removeItem(LEGACY_CURRENT_USER_KEY);
+  }
 }
@@ -0,0 +1,321 @@
+import * as SQLite from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const DATABASE_NAME = 'dripmuse.db';
+
+// Legacy AsyncStorage keys that held whole-array JSON blobs before SQLite
+const LEGACY_PROFILES_KEY = 'dripmuse_profiles';
+const LEGACY_WARDROBE_ITEMS_KEY = 'dripmuse_wardrobe_items';
+const LEGACY_IMPORT_META_KEY = 'legacy_async_storage_imported';
+
+/**
+ * Schema migrations, applied in order. The index + 1 of each entry is the
+ * `PRAGMA user_version` the database is at once that entry has run, so new
+ * migrations must only ever be appended.
+ */
+const SCHEMA_MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS profiles (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL UNIQUE,
+    full_name TEXT,
+    avatar_url TEXT,
+    color_palette TEXT,
+    style_preferences TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS wardrobe_items (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    category TEXT NOT NULL,
+    color TEXT,
+    image_url TEXT,
+    tags TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_wardrobe_items_user ON wardrobe_items (user_id, created_at);
+  CREATE INDEX IF NOT EXISTS idx_wardrobe_items_user_category ON wardrobe_items (user_id, category);
+
+  CREATE TABLE IF NOT EXISTS planned_outfits (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    occasion TEXT,
+    notes TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_planned_outfits_user_date ON planned_outfits (user_id, date);
+
+  CREATE TABLE IF NOT EXISTS planned_outfit_items (
+    planned_outfit_id TEXT NOT NULL REFERENCES planned_outfits (id) ON DELETE CASCADE,
+    item_id TEXT NOT NULL REFERENCES wardrobe_items (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (planned_outfit_id, item_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_planned_outfit_items_item ON planned_outfit_items (item_id);
+
+  CREATE TABLE IF NOT EXISTS wear_logs (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    item_id TEXT NOT NULL REFERENCES wardrobe_items (id) ON DELETE CASCADE,
+    planned_outfit_id TEXT REFERENCES planned_outfits (id) ON DELETE SET NULL,
+    worn_on TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_wear_logs_user_date ON wear_logs (user_id, worn_on);
+  CREATE INDEX IF NOT EXISTS idx_wear_logs_item ON wear_logs (item_id, worn_on);
+  `,
+  // Fields the Supabase wardrobe_items table carries, so both backends share one shape
+  `
+  ALTER TABLE wardrobe_items ADD COLUMN style TEXT;
+  ALTER TABLE wardrobe_items ADD COLUMN occasion TEXT;
+  ALTER TABLE wardrobe_items ADD COLUMN season TEXT;
+  `,
+  // Offline sync: pending local mutations and field-level conflicts awaiting review
+  `
+  CREATE TABLE IF NOT EXISTS sync_outbox (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    entity TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    fields TEXT,
+    base_updated_at TEXT,
+    changed_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_sync_outbox_user ON sync_outbox (user_id, id);
+  CREATE INDEX IF NOT EXISTS idx_sync_outbox_entity ON sync_outbox (entity, entity_id);
+
+  CREATE TABLE IF NOT EXISTS sync_conflicts (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    entity TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    field TEXT NOT NULL,
+    local_value TEXT,
+    remote_value TEXT,
+    local_changed_at TEXT NOT NULL,
+    remote_updated_at TEXT NOT NULL,
+    winner TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    resolved_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_sync_conflicts_user ON sync_conflicts (user_id, resolved_at);
+  `,
+  // Style quiz answers, which previously only lived in Supabase
+  `
+  CREATE TABLE IF NOT EXISTS style_quiz_results (
+    user_id TEXT PRIMARY KEY NOT NULL,
+    results TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  // Purchase details for cost-per-wear
+  `
+  ALTER TABLE wardrobe_items ADD COLUMN purchase_price REAL;
+  ALTER TABLE wardrobe_items ADD COLUMN purchase_date TEXT;
+  `,
+  // Likes, rejections and "wore it" on recommended outfits, which the recommender learns from
+  `
+  CREATE TABLE IF NOT EXISTS outfit_feedback (
+    id TEXT PRIMARY KEY NOT NULL,
+    user_id TEXT NOT NULL,
+    outfit_id TEXT NOT NULL,
+    outfit_item_ids TEXT NOT NULL,
+    feedback TEXT NOT NULL,
+    occasion TEXT,
+    style TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_outfit_feedback_user ON outfit_feedback (user_id, created_at);
+  `,
+  // Planned outfits shared by both planners: wear status, items deleted since planning, planner details
+  `
+  ALTER TABLE planned_outfits ADD COLUMN status TEXT NOT NULL DEFAULT 'planned';
+  ALTER TABLE planned_outfits ADD COLUMN missing_item_ids TEXT;
+  ALTER TABLE planned_outfits ADD COLUMN details TEXT;
+  `,
+  // The server's updated_at for each synced record, so sync compares server clocks with server clocks
+  `
+  CREATE TABLE IF NOT EXISTS sync_remote_versions (
+    entity TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (entity, entity_id)
+  );
+  `,
+  // Wardrobe item schema version each row was written with; existing rows predate versioning
+  `
+  ALTER TABLE wardrobe_items ADD COLUMN schema_version INTEGER NOT NULL DEFAULT 0;
+  `,
+  // One feedback per user and outfit: keep the latest where earlier changes of mind piled up
+  `
+  DELETE FROM outfit_feedback
+  WHERE rowid NOT IN (SELECT MAX(rowid) FROM outfit_feedback GROUP BY user_id, outfit_id);
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_outfit_feedback_outfit ON outfit_feedback (user_id, outfit_id);
+  `,
+];
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+/**
+ * Generate a row id in the same `<prefix>_<timestamp>_<random>` format the
+ * AsyncStorage implementation used, so imported and new rows look alike.
+ */
+export const generateId = (prefix: string): string => {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const applySchemaMigrations = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  let currentVersion = row?.user_version ?? 0;
+
+  while (currentVersion < SCHEMA_MIGRATIONS.length) {
+    const migration = SCHEMA_MIGRATIONS[currentVersion];
+    const nextVersion = currentVersion + 1;
+
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(migration);
+      // PRAGMA does not accept bound parameters
+      await db.execAsync(`PRAGMA user_version = ${nextVersion}`);
+    });
+
+    currentVersion = nextVersion;
+  }
+};
+
+/**
+ * Import the whole-array AsyncStorage blobs into SQLite exactly once. Rows
+ * that already exist are left untouched, and the legacy keys are removed only
+ * after the import transaction has committed.
+ */
+const importLegacyAsyncStorageData = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const imported = await db.getFirstAsync<{ value: string }>(
+    'SELECT value FROM meta WHERE key = ?',
+    LEGACY_IMPORT_META_KEY
+  );
+  if (imported) return;
+
+  const [[, profilesJson], [, itemsJson]] = await AsyncStorage.multiGet([
+    LEGACY_PROFILES_KEY,
+    LEGACY_WARDROBE_ITEMS_KEY,
+  ]);
+  const profiles: any[] = profilesJson ? JSON.parse(profilesJson) : [];
+  const items: any[] = itemsJson ? JSON.parse(itemsJson) : [];
+  const now = new Date().toISOString();
+
+  await db.withTransactionAsync(async () => {
+    for (const profile of profiles) {
+      if (!profile?.user_id) continue;
+      await db.runAsync(
+        `INSERT OR IGNORE INTO profiles
+          (id, user_id, full_name, avatar_url, color_palette, style_preferences, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        profile.id || generateId('profile'),
+        profile.user_id,
+        profile.full_name ?? null,
+        profile.avatar_url ?? null,
+        profile.color_palette ?? null,
+        profile.style_preferences !== undefined ? JSON.stringify(profile.style_preferences) : null,
+        profile.created_at || now,
+        profile.updated_at || now
+      );
+    }
+
+    for (const item of items) {
+      if (!item?.user_id) continue;
+      await db.runAsync(
+        `INSERT OR IGNORE INTO wardrobe_items
+          (id, user_id, name, category, color, image_url, tags, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        item.id || generateId('item'),
+        item.user_id,
+        item.name || 'Untitled',
+        item.category || 'Uncategorized',
+        item.color ?? null,
+        item.image_url ?? null,
+        item.tags ? JSON.stringify(item.tags) : null,
+        item.created_at || now,
+        item.updated_at || now
+      );
+    }
+
+    await db.runAsync(
+      'INSERT INTO meta (key, value) VALUES (?, ?)',
+      LEGACY_IMPORT_META_KEY,
+      now
+    );
+  });
+
+  await AsyncStorage.multiRemove([LEGACY_PROFILES_KEY, LEGACY_WARDROBE_ITEMS_KEY]);
+  console.log(`Imported ${profiles.length} profiles and ${items.length} wardrobe items from AsyncStorage`);
+};
+
+const openDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  await db.execAsync('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+  await applySchemaMigrations(db);
+  await importLegacyAsyncStorageData(db);
+  return db;
+};
+
+/**
+ * Get the shared database connection, opening and migrating it on first use.
+ * A failed open is not cached so the next call can retry.
+ */
+export const getDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+// withTransactionAsync is a plain BEGIN/COMMIT on the one shared connection,
+// so writes take turns: a second transaction started meanwhile would fail,
+// and a lone statement would be committed or rolled back with the open one
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const enqueueWrite = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Run a group of writes atomically on the shared connection, once every
+ * write queued before it has finished. Statements inside `task` must go
+ * through the `db` it is given; queueing another write from inside would
+ * wait on this one forever.
+ */
+export const runInTransaction = <T>(
+  task: (db: SQLite.SQLiteDatabase) => Promise<T>
+): Promise<T> =>
+  enqueueWrite(async () => {
+    const db = await getDatabase();
+    let result: T | undefined;
+    await db.withTransactionAsync(async () => {
+      result = await task(db);
+    });
+    return result as T;
+  });
+
+/**
+ * Run writes that need no transaction of their own, in turn with the
+ * transactions so they never land inside someone else's
+ */
+export const runWrite = <T>(task: (db: SQLite.SQLiteDatabase) => Promise<T>): Promise<T> =>
+  enqueueWrite(async () => task(await getDatabase()));
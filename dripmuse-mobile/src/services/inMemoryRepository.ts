@@ -0,0 +1,306 @@
+import {
+  WARDROBE_ITEM_SCHEMA_VERSION,
+  parseWardrobeItemInput,
+  parseWardrobeItemUpdates,
+} from '@/lib/wardrobeSchema';
+import {
+  WardrobeRepository,
+  ProfileRepository,
+  Repositories,
+  WardrobeRecord,
+  WardrobeRecordInput,
+  WardrobeRecordUpdates,
+  ProfileRecord,
+  ProfileUpdates,
+  StyleQuizRepository,
+  StyleQuizRecord,
+  StyleQuizUpdates,
+  WearLogRepository,
+  WearLogRecord,
+  OutfitFeedbackRepository,
+  OutfitFeedbackRecord,
+  NewOutfitFeedback,
+  PlannedOutfitRepository,
+  PlannedOutfitRecord,
+  NewPlannedOutfit,
+  PlannedOutfitUpdates,
+  DateRange,
+  WardrobeReplacement,
+  withoutItems,
+  withCreatedItemIds,
+} from './repositories';
+
+/**
+ * Map-backed repositories with no I/O, for tests, demos and screen previews.
+ * Pass them to `configureRepositories` before rendering.
+ */
+export class InMemoryWardrobeRepository implements WardrobeRepository {
+  private items = new Map<string, WardrobeRecord>();
+  private nextId = 1;
+
+  constructor(seed: WardrobeRecord[] = [], private readonly plannedOutfits?: PlannedOutfitRepository) {
+    seed.forEach(item => this.items.set(item.id, { ...item }));
+  }
+
+  async list(userId: string): Promise<WardrobeRecord[]> {
+    return Array.from(this.items.values())
+      .filter(item => item.user_id === userId)
+      .map(item => ({ ...item }));
+  }
+
+  async get(itemId: string): Promise<WardrobeRecord | null> {
+    const item = this.items.get(itemId);
+    return item ? { ...item } : null;
+  }
+
+  async create(userId: string, item: WardrobeRecordInput): Promise<WardrobeRecord> {
+    const now = new Date().toISOString();
+    const record: WardrobeRecord = {
+      ...parseWardrobeItemInput(item),
+      schema_version: WARDROBE_ITEM_SCHEMA_VERSION,
+      id: `memory_item_${this.nextId++}`,
+      user_id: userId,
+      created_at: now,
+      updated_at: now,
+    };
+    this.items.set(record.id, record);
+    return { ...record };
+  }
+
+  async createMany(userId: string, items: WardrobeRecordInput[]): Promise<WardrobeRecord[]> {
+    const created: WardrobeRecord[] = [];
+    for (const item of items) {
+      created.push(await this.create(userId, item));
+    }
+    return created;
+  }
+
+  async update(itemId: string, updates: WardrobeRecordUpdates): Promise<void> {
+    const item = this.items.get(itemId);
+    if (!item) return;
+    this.items.set(itemId, { ...item, ...parseWardrobeItemUpdates(updates), updated_at: new Date().toISOString() });
+  }
+
+  async remove(itemIds: string[]): Promise<void> {
+    await this.plannedOutfits?.detachItems(itemIds);
+    itemIds.forEach(id => this.items.delete(id));
+  }
+
+  async replace(userId: string, { items, outfits }: WardrobeReplacement): Promise<void> {
+    if (this.plannedOutfits) {
+      const existingOutfits = await this.plannedOutfits.list(userId);
+      await this.plannedOutfits.remove(existingOutfits.map(outfit => outfit.id));
+    }
+    await this.remove((await this.list(userId)).map(item => item.id));
+
+    const createdIds = new Map<string, string>();
+    for (const { key, ...item } of items) {
+      createdIds.set(key, (await this.create(userId, item)).id);
+    }
+    for (const outfit of outfits) {
+      await this.plannedOutfits?.create(userId, withCreatedItemIds(outfit, createdIds));
+    }
+  }
+}
+
+export class InMemoryProfileRepository implements ProfileRepository {
+  private profiles = new Map<string, ProfileRecord>();
+
+  constructor(seed: ProfileRecord[] = []) {
+    seed.forEach(profile => this.profiles.set(profile.user_id, { ...profile }));
+  }
+
+  async get(userId: string): Promise<ProfileRecord | null> {
+    const profile = this.profiles.get(userId);
+    return profile ? { ...profile } : null;
+  }
+
+  async upsert(userId: string, updates: ProfileUpdates): Promise<ProfileRecord> {
+    const now = new Date().toISOString();
+    const current: ProfileRecord = this.profiles.get(userId) || {
+      id: `memory_profile_${userId}`,
+      user_id: userId,
+      display_name: '',
+      location: '',
+      culture: '',
+      preferred_style: '',
+      created_at: now,
+    };
+    const saved = { ...current, ...updates, updated_at: now };
+    this.profiles.set(userId, saved);
+    return { ...saved };
+  }
+}
+
+export class InMemoryStyleQuizRepository implements StyleQuizRepository {
+  private results = new Map<string, StyleQuizRecord>();
+
+  constructor(seed: StyleQuizRecord[] = []) {
+    seed.forEach(result => this.results.set(result.user_id, { ...result }));
+  }
+
+  async get(userId: string): Promise<StyleQuizRecord | null> {
+    const result = this.results.get(userId);
+    return result ? { ...result } : null;
+  }
+
+  async upsert(userId: string, quiz: StyleQuizUpdates): Promise<StyleQuizRecord> {
+    const now = new Date().toISOString();
+    const saved = {
+      ...quiz,
+      user_id: userId,
+      created_at: this.results.get(userId)?.created_at || now,
+      updated_at: now,
+    };
+    this.results.set(userId, saved);
+    return { ...saved };
+  }
+}
+
+export class InMemoryWearLogRepository implements WearLogRepository {
+  private logs: WearLogRecord[] = [];
+  private nextId = 1;
+
+  constructor(seed: WearLogRecord[] = []) {
+    this.logs = seed.map(log => ({ ...log }));
+  }
+
+  async list(userId: string, itemId?: string): Promise<WearLogRecord[]> {
+    return this.logs
+      .filter(log => log.user_id === userId && (!itemId || log.item_id === itemId))
+      .sort((a, b) => b.worn_on.localeCompare(a.worn_on))
+      .map(log => ({ ...log }));
+  }
+
+  async log(userId: string, itemIds: string[], wornOn: string, plannedOutfitId?: string): Promise<WearLogRecord[]> {
+    const now = new Date().toISOString();
+    const created = itemIds.map(itemId => ({
+      id: `memory_wear_${this.nextId++}`,
+      user_id: userId,
+      item_id: itemId,
+      planned_outfit_id: plannedOutfitId,
+      worn_on: wornOn,
+      created_at: now,
+    }));
+    this.logs.push(...created);
+    return created.map(log => ({ ...log }));
+  }
+
+  async remove(logId: string): Promise<void> {
+    this.logs = this.logs.filter(log => log.id !== logId);
+  }
+}
+
+export class InMemoryOutfitFeedbackRepository implements OutfitFeedbackRepository {
+  private feedback: OutfitFeedbackRecord[] = [];
+  private nextId = 1;
+
+  constructor(seed: OutfitFeedbackRecord[] = []) {
+    this.feedback = seed.map(entry => ({ ...entry }));
+  }
+
+  async list(userId: string): Promise<OutfitFeedbackRecord[]> {
+    return this.feedback
+      .filter(entry => entry.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(entry => ({ ...entry }));
+  }
+
+  async record(userId: string, feedback: NewOutfitFeedback): Promise<OutfitFeedbackRecord> {
+    const created: OutfitFeedbackRecord = {
+      ...feedback,
+      id: `memory_feedback_${this.nextId++}`,
+      user_id: userId,
+      created_at: new Date().toISOString(),
+    };
+    const previous = this.feedback.findIndex(entry => entry.user_id === userId && entry.outfit_id === feedback.outfit_id);
+    if (previous >= 0) {
+      this.feedback[previous] = { ...created, id: this.feedback[previous].id };
+      return { ...this.feedback[previous] };
+    }
+    this.feedback.push(created);
+    return { ...created };
+  }
+}
+
+export class InMemoryPlannedOutfitRepository implements PlannedOutfitRepository {
+  private outfits = new Map<string, PlannedOutfitRecord>();
+  private nextId = 1;
+
+  constructor(seed: PlannedOutfitRecord[] = []) {
+    seed.forEach(outfit => this.outfits.set(outfit.id, { ...outfit }));
+  }
+
+  async list(userId: string, range: DateRange = {}): Promise<PlannedOutfitRecord[]> {
+    return Array.from(this.outfits.values())
+      .filter(outfit =>
+        outfit.user_id === userId &&
+        (!range.from || outfit.date >= range.from) &&
+        (!range.to || outfit.date <= range.to)
+      )
+      .sort((a, b) => a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at))
+      .map(outfit => ({ ...outfit }));
+  }
+
+  async get(outfitId: string): Promise<PlannedOutfitRecord | null> {
+    const outfit = this.outfits.get(outfitId);
+    return outfit ? { ...outfit } : null;
+  }
+
+  async create(userId: string, outfit: NewPlannedOutfit): Promise<PlannedOutfitRecord> {
+    const now = new Date().toISOString();
+    const record: PlannedOutfitRecord = {
+      ...outfit,
+      status: outfit.status || 'planned',
+      id: `memory_outfit_${this.nextId++}`,
+      user_id: userId,
+      created_at: now,
+      updated_at: now,
+    };
+    this.outfits.set(record.id, record);
+    return { ...record };
+  }
+
+  async update(outfitId: string, updates: PlannedOutfitUpdates): Promise<void> {
+    const outfit = this.outfits.get(outfitId);
+    if (!outfit) return;
+    this.outfits.set(outfitId, { ...outfit, ...updates, updated_at: new Date().toISOString() });
+  }
+
+  async remove(outfitIds: string[]): Promise<void> {
+    outfitIds.forEach(id => this.outfits.delete(id));
+  }
+
+  async detachItems(itemIds: string[]): Promise<void> {
+    for (const outfit of Array.from(this.outfits.values())) {
+      const detached = withoutItems(outfit, itemIds);
+      if (!detached) continue;
+      if (detached.item_ids.length === 0) {
+        this.outfits.delete(outfit.id);
+      } else {
+        await this.update(outfit.id, detached);
+      }
+    }
+  }
+}
+
+export const createInMemoryRepositories = (
+  seed: {
+    wardrobe?: WardrobeRecord[];
+    profiles?: ProfileRecord[];
+    quiz?: StyleQuizRecord[];
+    wearLogs?: WearLogRecord[];
+    feedback?: OutfitFeedbackRecord[];
+    plannedOutfits?: PlannedOutfitRecord[];
+  } = {}
+): Repositories => {
+  const plannedOutfits = new InMemoryPlannedOutfitRepository(seed.plannedOutfits);
+  return {
+    wardrobe: new InMemoryWardrobeRepository(seed.wardrobe, plannedOutfits),
+    profiles: new InMemoryProfileRepository(seed.profiles),
+    quiz: new InMemoryStyleQuizRepository(seed.quiz),
+    wearLogs: new InMemoryWearLogRepository(seed.wearLogs),
+    feedback: new InMemoryOutfitFeedbackRepository(seed.feedback),
+    plannedOutfits,
+  };
+};
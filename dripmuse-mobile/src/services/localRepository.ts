@@ -0,0 +1,409 @@
+import {
+  WARDROBE_ITEM_SCHEMA_VERSION,
+  parseWardrobeItem,
+  parseWardrobeItemInput,
+  parseWardrobeItemUpdates,
+  NewWardrobeItem,
+  WardrobeItemValidationError,
+} from '@/lib/wardrobeSchema';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { StorageService, Profile, WardrobeItem } from './storageService';
+import { runInTransaction } from './database';
+import { SyncOutbox } from './syncOutbox';
+import {
+  WardrobeRepository,
+  ProfileRepository,
+  Repositories,
+  WardrobeRecord,
+  WardrobeRecordInput,
+  WardrobeRecordUpdates,
+  ProfileRecord,
+  ProfileUpdates,
+  StyleQuizRepository,
+  StyleQuizRecord,
+  StyleQuizUpdates,
+  WearLogRepository,
+  WearLogRecord,
+  OutfitFeedbackRepository,
+  OutfitFeedbackRecord,
+  NewOutfitFeedback,
+  PlannedOutfitRepository,
+  PlannedOutfitRecord,
+  NewPlannedOutfit,
+  PlannedOutfitUpdates,
+  DateRange,
+  WardrobeReplacement,
+  withoutItems,
+  withCreatedItemIds,
+} from './repositories';
+
+// The SQLite `color` column is a single text field; several colours are comma-joined
+const COLOR_SEPARATOR = ', ';
+
+/**
+ * Rows are kept in the storage shape (`image_url`, comma-joined `color`).
+ * Rows written before versioning are exactly the schema's version 0 shape;
+ * versioned rows are mapped back to the record shape and migrated from the
+ * version they were written with.
+ */
+export const toWardrobeRecord = (item: WardrobeItem): WardrobeRecord => {
+  if (!item.schema_version) return parseWardrobeItem(item);
+
+  const { image_url, color, ...fields } = item;
+  return parseWardrobeItem({
+    ...fields,
+    photo_url: image_url ?? '',
+    color: color ? color.split(',').map(entry => entry.trim()).filter(Boolean) : [],
+    occasion: fields.occasion ?? [],
+    season: fields.season ?? [],
+    tags: fields.tags ?? [],
+  });
+};
+
+// Rows read at an older version are written back upgraded, so each is migrated once
+const upgradeWardrobeItem = async (item: WardrobeItem): Promise<WardrobeRecord> => {
+  const record = toWardrobeRecord(item);
+  if (item.schema_version !== record.schema_version) {
+    await StorageService.putWardrobeItem(fromWardrobeRecord(record));
+  }
+  return record;
+};
+
+const toStorageFields = (item: WardrobeRecordUpdates): Partial<WardrobeItem> => {
+  const fields: Partial<WardrobeItem> = {};
+  if (item.name !== undefined) fields.name = item.name;
+  if (item.category !== undefined) fields.category = item.category;
+  if (item.photo_url !== undefined) fields.image_url = item.photo_url;
+  if (item.color !== undefined) fields.color = item.color.join(COLOR_SEPARATOR);
+  if (item.style !== undefined) fields.style = item.style;
+  if (item.occasion !== undefined) fields.occasion = item.occasion;
+  if (item.season !== undefined) fields.season = item.season;
+  if (item.tags !== undefined) fields.tags = item.tags;
+  if ('purchase_price' in item) fields.purchase_price = item.purchase_price;
+  if ('purchase_date' in item) fields.purchase_date = item.purchase_date;
+  return fields;
+};
+
+export const fromWardrobeRecord = (record: WardrobeRecord): WardrobeItem => ({
+  name: record.name,
+  category: record.category,
+  ...toStorageFields(record),
+  id: record.id,
+  user_id: record.user_id,
+  schema_version: record.schema_version,
+  created_at: record.created_at,
+  updated_at: record.updated_at,
+});
+
+/**
+ * Local profiles only have dedicated columns for name, photo and palette; the
+ * remaining profile fields are kept in the `style_preferences` JSON column.
+ */
+export const toProfileRecord = (profile: Profile): ProfileRecord => {
+  const preferences = profile.style_preferences || {};
+  return {
+    id: profile.id,
+    user_id: profile.user_id,
+    display_name: profile.full_name || '',
+    face_photo_url: profile.avatar_url,
+    selected_palette_id: profile.color_palette,
+    location: preferences.location || '',
+    culture: preferences.culture || '',
+    preferred_style: preferences.preferred_style || '',
+    favorite_colors: preferences.favorite_colors,
+    color_palette_colors: preferences.color_palette_colors,
+    goals: preferences.goals,
+    gender_identity: preferences.gender_identity,
+    color_season_analysis: preferences.color_season_analysis,
+    created_at: profile.created_at,
+    updated_at: profile.updated_at,
+  };
+};
+
+export const fromProfileRecord = (record: ProfileRecord): Profile => {
+  const now = new Date().toISOString();
+  return {
+    id: record.id,
+    user_id: record.user_id,
+    full_name: record.display_name,
+    avatar_url: record.face_photo_url,
+    color_palette: record.selected_palette_id,
+    style_preferences: {
+      location: record.location,
+      culture: record.culture,
+      preferred_style: record.preferred_style,
+      favorite_colors: record.favorite_colors,
+      color_palette_colors: record.color_palette_colors,
+      goals: record.goals,
+      gender_identity: record.gender_identity,
+      color_season_analysis: record.color_season_analysis,
+    },
+    created_at: record.created_at || now,
+    updated_at: record.updated_at || now,
+  };
+};
+
+/**
+ * Every write below is also queued in the sync outbox, in the shared record
+ * shape, so SyncEngine can replay it against Supabase once we are online.
+ */
+export class LocalWardrobeRepository implements WardrobeRepository {
+  constructor(private readonly plannedOutfits?: LocalPlannedOutfitRepository) {}
+
+  async list(userId: string): Promise<WardrobeRecord[]> {
+    const items = await StorageService.getWardrobeItems(userId);
+    const records: WardrobeRecord[] = [];
+    for (const item of items) {
+      try {
+        records.push(await upgradeWardrobeItem(item));
+      } catch (error) {
+        if (!(error instanceof WardrobeItemValidationError)) throw error;
+        console.warn('Rejected wardrobe item:', error.message, item);
+      }
+    }
+    return records;
+  }
+
+  async get(itemId: string): Promise<WardrobeRecord | null> {
+    const item = await StorageService.getWardrobeItem(itemId);
+    return item ? upgradeWardrobeItem(item) : null;
+  }
+
+  async create(userId: string, item: WardrobeRecordInput): Promise<WardrobeRecord> {
+    const input = parseWardrobeItemInput(item);
+    return runInTransaction((db) => this.insertItem(db, userId, input));
+  }
+
+  async createMany(userId: string, items: WardrobeRecordInput[]): Promise<WardrobeRecord[]> {
+    const created: WardrobeRecord[] = [];
+    for (const item of items) {
+      created.push(await this.create(userId, item));
+    }
+    return created;
+  }
+
+  async update(itemId: string, updates: WardrobeRecordUpdates): Promise<void> {
+    const fields = parseWardrobeItemUpdates(updates);
+    await runInTransaction(async (db) => {
+      await StorageService.updateWardrobeItem(itemId, toStorageFields(fields), db);
+      const updated = await StorageService.getWardrobeItem(itemId, db);
+      if (!updated) return;
+
+      await SyncOutbox.record({
+        user_id: updated.user_id,
+        entity: 'wardrobe_items',
+        entity_id: itemId,
+        operation: 'upsert',
+        fields,
+        changed_at: updated.updated_at,
+      }, db);
+    });
+  }
+
+  async remove(itemIds: string[]): Promise<void> {
+    await runInTransaction((db) => this.deleteItems(db, itemIds));
+  }
+
+  async replace(userId: string, { items, outfits }: WardrobeReplacement): Promise<void> {
+    const staged = items.map(({ key, ...item }) => ({ key, input: parseWardrobeItemInput(item) }));
+
+    // One transaction, so a failure part-way leaves the old wardrobe untouched
+    await runInTransaction(async (db) => {
+      // Outfits first, so deleting their items has nothing left to flag
+      for (const outfit of await StorageService.getPlannedOutfits(userId, undefined, undefined, db)) {
+        await StorageService.deletePlannedOutfit(outfit.id, db);
+      }
+      const existing = await StorageService.getWardrobeItems(userId, db);
+      await this.deleteItems(db, existing.map(item => item.id));
+
+      const createdIds = new Map<string, string>();
+      for (const { key, input } of staged) {
+        createdIds.set(key, (await this.insertItem(db, userId, input)).id);
+      }
+      for (const outfit of outfits) {
+        await StorageService.savePlannedOutfit({
+          ...withCreatedItemIds(outfit, createdIds),
+          status: outfit.status || 'planned',
+          user_id: userId,
+        }, db);
+      }
+    });
+  }
+
+  // The outbox entry commits with the item, so a crash can't lose it for sync
+  private async insertItem(db: SQLiteDatabase, userId: string, input: NewWardrobeItem): Promise<WardrobeRecord> {
+    const saved = await StorageService.saveWardrobeItem({
+      name: input.name,
+      category: input.category,
+      ...toStorageFields(input),
+      user_id: userId,
+      schema_version: WARDROBE_ITEM_SCHEMA_VERSION,
+    }, db);
+
+    const record = toWardrobeRecord(saved);
+    const { id: _id, user_id: _owner, updated_at: _updated, ...fields } = record;
+    await SyncOutbox.record({
+      user_id: userId,
+      entity: 'wardrobe_items',
+      entity_id: record.id,
+      operation: 'upsert',
+      fields,
+      changed_at: record.updated_at,
+    }, db);
+
+    return record;
+  }
+
+  private async deleteItems(db: SQLiteDatabase, itemIds: string[]): Promise<void> {
+    const existing: WardrobeItem[] = [];
+    for (const itemId of itemIds) {
+      const item = await StorageService.getWardrobeItem(itemId, db);
+      if (item) existing.push(item);
+    }
+
+    // Before the delete, which would cascade the outfit links away unrecorded
+    await this.plannedOutfits?.detachItems(itemIds, db);
+    await StorageService.deleteWardrobeItems(itemIds, db);
+
+    const now = new Date().toISOString();
+    for (const item of existing) {
+      await SyncOutbox.record({
+        user_id: item.user_id,
+        entity: 'wardrobe_items',
+        entity_id: item.id,
+        operation: 'delete',
+        fields: {},
+        changed_at: now,
+      }, db);
+    }
+  }
+}
+
+export class LocalProfileRepository implements ProfileRepository {
+  async get(userId: string): Promise<ProfileRecord | null> {
+    const profile = await StorageService.getProfile(userId);
+    return profile ? toProfileRecord(profile) : null;
+  }
+
+  async upsert(userId: string, updates: ProfileUpdates): Promise<ProfileRecord> {
+    return runInTransaction(async (db) => {
+      const stored = await StorageService.getProfile(userId, db);
+      const current = stored ? toProfileRecord(stored) : null;
+      const now = new Date().toISOString();
+
+      await StorageService.saveProfile(fromProfileRecord({
+        display_name: '',
+        location: '',
+        culture: '',
+        preferred_style: '',
+        ...current,
+        ...updates,
+        id: current?.id || '',
+        user_id: userId,
+        created_at: current?.created_at || now,
+        updated_at: now,
+      }), db);
+
+      const profile = await StorageService.getProfile(userId, db);
+      if (!profile) throw new Error('Failed to save profile');
+      const saved = toProfileRecord(profile);
+
+      // A brand-new profile has to reach the server whole, not just the changed fields
+      const { id: _, user_id: _owner, updated_at: _updated, ...fields } = saved;
+      await SyncOutbox.record({
+        user_id: userId,
+        entity: 'profiles',
+        entity_id: userId,
+        operation: 'upsert',
+        fields: current ? updates : fields,
+        changed_at: saved.updated_at || now,
+      }, db);
+
+      return saved;
+    });
+  }
+}
+
+export class LocalStyleQuizRepository implements StyleQuizRepository {
+  async get(userId: string): Promise<StyleQuizRecord | null> {
+    return StorageService.getStyleQuizResult(userId);
+  }
+
+  async upsert(userId: string, quiz: StyleQuizUpdates): Promise<StyleQuizRecord> {
+    return StorageService.saveStyleQuizResult({ ...quiz, user_id: userId });
+  }
+}
+
+export class LocalWearLogRepository implements WearLogRepository {
+  async list(userId: string, itemId?: string): Promise<WearLogRecord[]> {
+    return StorageService.getWearLogs(userId, itemId);
+  }
+
+  async log(userId: string, itemIds: string[], wornOn: string, plannedOutfitId?: string): Promise<WearLogRecord[]> {
+    return StorageService.logWear(userId, itemIds, wornOn, plannedOutfitId);
+  }
+
+  async remove(logId: string): Promise<void> {
+    await StorageService.deleteWearLog(logId);
+  }
+}
+
+export class LocalOutfitFeedbackRepository implements OutfitFeedbackRepository {
+  async list(userId: string): Promise<OutfitFeedbackRecord[]> {
+    return StorageService.getOutfitFeedback(userId);
+  }
+
+  async record(userId: string, feedback: NewOutfitFeedback): Promise<OutfitFeedbackRecord> {
+    return StorageService.saveOutfitFeedback({ ...feedback, user_id: userId });
+  }
+}
+
+export class LocalPlannedOutfitRepository implements PlannedOutfitRepository {
+  async list(userId: string, range: DateRange = {}): Promise<PlannedOutfitRecord[]> {
+    return StorageService.getPlannedOutfits(userId, range.from, range.to);
+  }
+
+  async get(outfitId: string): Promise<PlannedOutfitRecord | null> {
+    return StorageService.getPlannedOutfit(outfitId);
+  }
+
+  async create(userId: string, outfit: NewPlannedOutfit): Promise<PlannedOutfitRecord> {
+    return StorageService.savePlannedOutfit({ ...outfit, status: outfit.status || 'planned', user_id: userId });
+  }
+
+  async update(outfitId: string, updates: PlannedOutfitUpdates): Promise<void> {
+    const outfit = await StorageService.getPlannedOutfit(outfitId);
+    if (!outfit) return;
+    await StorageService.savePlannedOutfit({ ...outfit, ...updates });
+  }
+
+  async remove(outfitIds: string[]): Promise<void> {
+    for (const outfitId of outfitIds) {
+      await StorageService.deletePlannedOutfit(outfitId);
+    }
+  }
+
+  // Pass `connection` to detach inside the transaction that deletes the items
+  async detachItems(itemIds: string[], connection?: SQLiteDatabase): Promise<void> {
+    for (const outfit of await StorageService.getPlannedOutfitsUsingItems(itemIds, connection)) {
+      const detached = withoutItems(outfit, itemIds);
+      if (!detached) continue;
+      if (detached.item_ids.length === 0) {
+        await StorageService.deletePlannedOutfit(outfit.id, connection);
+      } else {
+        await StorageService.savePlannedOutfit({ ...outfit, ...detached }, connection);
+      }
+    }
+  }
+}
+
+const localPlannedOutfits = new LocalPlannedOutfitRepository();
+
+export const localRepositories: Repositories = {
+  wardrobe: new LocalWardrobeRepository(localPlannedOutfits),
+  profiles: new LocalProfileRepository(),
+  quiz: new LocalStyleQuizRepository(),
+  wearLogs: new LocalWearLogRepository(),
+  feedback: new LocalOutfitFeedbackRepository(),
+  plannedOutfits: localPlannedOutfits,
+};
@@ -0,0 +1,67 @@
+import { simpleStyleAI, OutfitRecommendation } from '@/lib/simpleStyleAI';
+import { buildWearLedger, toWearDate } from '@/lib/wearAnalytics';
+import { learnPreferences } from '@/lib/stylePreferenceModel';
+import type { StyleItem } from '@/lib/wardrobeSchema';
+import { getRepositories } from './repositoryProvider';
+import { OutfitFeedbackType } from './repositories';
+
+/**
+ * Keeps the recommender's long-term memory in step with stored history:
+ * wear logs drive the neglected-piece boost and outfit feedback drives the
+ * learned preference model.
+ */
+export class RecommenderHistory {
+  /**
+   * Load the user's wear logs and feedback and hand them to simpleStyleAI.
+   * `items` should be the full wardrobe so colours and styles resolve.
+   */
+  static async load(userId: string, items: StyleItem[]): Promise<void> {
+    try {
+      const repositories = getRepositories();
+      const [wearLogs, feedback] = await Promise.all([
+        repositories.wearLogs.list(userId),
+        repositories.feedback.list(userId),
+      ]);
+
+      simpleStyleAI.setWearHistory(buildWearLedger(items, wearLogs));
+      simpleStyleAI.setPreferenceModel(learnPreferences(feedback, items));
+    } catch (error) {
+      // Recommendations still work without history, just less personal
+      console.error('Error loading recommender history:', error);
+    }
+  }
+
+  /**
+   * Store a like, rejection or "wore it" for a recommended outfit, replacing
+   * any earlier feedback on it. Wearing an outfit also logs each item as
+   * worn today. Reloads the history so the next recommendations reflect it.
+   */
+  static async recordFeedback(
+    userId: string,
+    outfit: OutfitRecommendation,
+    feedback: OutfitFeedbackType,
+    items: StyleItem[]
+  ): Promise<void> {
+    try {
+      const repositories = getRepositories();
+      const itemIds = outfit.items.map(item => item.id);
+
+      await repositories.feedback.record(userId, {
+        outfit_id: outfit.id,
+        outfit_item_ids: itemIds,
+        feedback,
+        occasion: outfit.occasion,
+        style: outfit.style,
+      });
+
+      if (feedback === 'wore') {
+        await repositories.wearLogs.log(userId, itemIds, toWearDate(new Date()));
+      }
+    } catch (error) {
+      console.error('Error saving outfit feedback:', error);
+      throw new Error('Failed to save outfit feedback');
+    }
+
+    await this.load(userId, items);
+  }
+}
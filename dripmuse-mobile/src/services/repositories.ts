@@ -0,0 +1,198 @@
+import type { WardrobeItem, NewWardrobeItem, WardrobeItemInput, WardrobeItemUpdates } from '@/lib/wardrobeSchema';
+
+/**
+ * Wardrobe item as every screen sees it, whichever backend stores it. The
+ * shape is defined by the canonical schema in wardrobeSchema; every
+ * repository parses rows through it on the way in and out.
+ */
+export type WardrobeRecord = WardrobeItem;
+
+export type NewWardrobeRecord = NewWardrobeItem;
+
+// What callers must supply to create an item; the rest gets defaults
+export type WardrobeRecordInput = WardrobeItemInput;
+
+export type WardrobeRecordUpdates = WardrobeItemUpdates;
+
+export interface ProfileRecord {
+  id: string;
+  user_id: string;
+  display_name: string;
+  location: string;
+  culture: string;
+  preferred_style: string;
+  favorite_colors?: string[];
+  color_palette_colors?: string[];
+  goals?: string[];
+  gender_identity?: string;
+  face_photo_url?: string;
+  selected_palette_id?: string;
+  color_season_analysis?: any;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ProfileUpdates = Partial<Omit<ProfileRecord, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
+
+export interface StyleQuizRecord {
+  user_id: string;
+  style_personality?: string;
+  color_preferences?: string[];
+  lifestyle?: string;
+  preferred_fit?: string;
+  budget_range?: string;
+  style_goals?: string[];
+  quiz_answers: Record<string, string | string[]>;
+  confidence_score?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type StyleQuizUpdates = Omit<StyleQuizRecord, 'user_id' | 'created_at' | 'updated_at'>;
+
+export interface WearLogRecord {
+  id: string;
+  user_id: string;
+  item_id: string;
+  planned_outfit_id?: string;
+  worn_on: string; // YYYY-MM-DD
+  created_at: string;
+}
+
+export type OutfitFeedbackType = 'like' | 'dislike' | 'wore';
+
+export interface OutfitFeedbackRecord {
+  id: string;
+  user_id: string;
+  outfit_id: string;
+  outfit_item_ids: string[];
+  feedback: OutfitFeedbackType;
+  occasion?: string;
+  style?: string;
+  created_at: string;
+}
+
+export type NewOutfitFeedback = Omit<OutfitFeedbackRecord, 'id' | 'user_id' | 'created_at'>;
+
+export type PlannedOutfitStatus = 'planned' | 'worn' | 'skipped';
+
+/**
+ * An outfit planned for a day, linked to wardrobe items by id. Items deleted
+ * from the wardrobe after planning move from `item_ids` to
+ * `missing_item_ids`, so the plan can be flagged for another look.
+ */
+export interface PlannedOutfitRecord {
+  id: string;
+  user_id: string;
+  date: string; // YYYY-MM-DD
+  occasion?: string;
+  notes?: string;
+  status: PlannedOutfitStatus;
+  item_ids: string[];
+  missing_item_ids?: string[];
+  // What the planner knew when it made the plan: confidence, reasoning, forecast, calendar slot
+  details?: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewPlannedOutfit = Omit<PlannedOutfitRecord, 'id' | 'user_id' | 'status' | 'created_at' | 'updated_at'> & {
+  status?: PlannedOutfitStatus;
+};
+
+export type PlannedOutfitUpdates = Partial<Omit<PlannedOutfitRecord, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
+
+// An item to create as part of a replacement wardrobe
+export type StagedWardrobeRecord = WardrobeRecordInput & { key: string };
+
+/**
+ * A wardrobe to put in place of a user's current one. Each item has a `key`,
+ * unique within the replacement, and the outfits' `item_ids` refer to those
+ * keys; the repository assigns the real ids as it creates the items.
+ */
+export interface WardrobeReplacement {
+  items: StagedWardrobeRecord[];
+  outfits: NewPlannedOutfit[];
+}
+
+// Inclusive YYYY-MM-DD bounds; either end may be left open
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export interface WardrobeRepository {
+  list(userId: string): Promise<WardrobeRecord[]>;
+  get(itemId: string): Promise<WardrobeRecord | null>;
+  create(userId: string, item: WardrobeRecordInput): Promise<WardrobeRecord>;
+  createMany(userId: string, items: WardrobeRecordInput[]): Promise<WardrobeRecord[]>;
+  update(itemId: string, updates: WardrobeRecordUpdates): Promise<void>;
+  remove(itemIds: string[]): Promise<void>;
+  // Swap all of a user's items and planned outfits for these; on failure the old ones stay
+  replace(userId: string, replacement: WardrobeReplacement): Promise<void>;
+}
+
+export interface ProfileRepository {
+  get(userId: string): Promise<ProfileRecord | null>;
+  upsert(userId: string, updates: ProfileUpdates): Promise<ProfileRecord>;
+}
+
+export interface StyleQuizRepository {
+  get(userId: string): Promise<StyleQuizRecord | null>;
+  upsert(userId: string, quiz: StyleQuizUpdates): Promise<StyleQuizRecord>;
+}
+
+export interface WearLogRepository {
+  list(userId: string, itemId?: string): Promise<WearLogRecord[]>;
+  log(userId: string, itemIds: string[], wornOn: string, plannedOutfitId?: string): Promise<WearLogRecord[]>;
+  remove(logId: string): Promise<void>;
+}
+
+export interface OutfitFeedbackRepository {
+  list(userId: string): Promise<OutfitFeedbackRecord[]>;
+  // Replaces any earlier feedback from the user on the same outfit
+  record(userId: string, feedback: NewOutfitFeedback): Promise<OutfitFeedbackRecord>;
+}
+
+export interface PlannedOutfitRepository {
+  list(userId: string, range?: DateRange): Promise<PlannedOutfitRecord[]>;
+  get(outfitId: string): Promise<PlannedOutfitRecord | null>;
+  create(userId: string, outfit: NewPlannedOutfit): Promise<PlannedOutfitRecord>;
+  update(outfitId: string, updates: PlannedOutfitUpdates): Promise<void>;
+  remove(outfitIds: string[]): Promise<void>;
+  // Called by the wardrobe repository when it deletes these items
+  detachItems(itemIds: string[]): Promise<void>;
+}
+
+export interface Repositories {
+  wardrobe: WardrobeRepository;
+  profiles: ProfileRepository;
+  quiz: StyleQuizRepository;
+  wearLogs: WearLogRepository;
+  feedback: OutfitFeedbackRepository;
+  plannedOutfits: PlannedOutfitRepository;
+}
+
+/**
+ * A planned outfit's item links once `itemIds` are deleted, or null if it
+ * uses none of them. An outfit left with no items should be removed.
+ */
+export const withoutItems = (
+  outfit: PlannedOutfitRecord,
+  itemIds: string[]
+): Pick<PlannedOutfitRecord, 'item_ids' | 'missing_item_ids'> | null => {
+  const removed = outfit.item_ids.filter(itemId => itemIds.includes(itemId));
+  if (removed.length === 0) return null;
+  return {
+    item_ids: outfit.item_ids.filter(itemId => !itemIds.includes(itemId)),
+    missing_item_ids: [...(outfit.missing_item_ids || []), ...removed],
+  };
+};
+
+// A replacement outfit with its item keys swapped for the ids the items were created with
+export const withCreatedItemIds = (outfit: NewPlannedOutfit, createdIds: Map<string, string>): NewPlannedOutfit => ({
+  ...outfit,
+  item_ids: outfit.item_ids
+    .map(key => createdIds.get(key))
+    .filter((itemId): itemId is string => !!itemId),
+});
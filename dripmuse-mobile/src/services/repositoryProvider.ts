@@ -0,0 +1,21 @@
+import { Platform } from 'react-native';
+import { Repositories } from './repositories';
+import { supabaseRepositories } from './supabaseRepository';
+import { localRepositories } from './localRepository';
+
+let configuredRepositories: Repositories | null = null;
+
+/**
+ * Choose the backend once at startup. Tests and demos pass an in-memory fake;
+ * otherwise web talks to Supabase and native apps use local SQLite.
+ */
+export const configureRepositories = (repositories: Repositories): void => {
+  configuredRepositories = repositories;
+};
+
+export const getRepositories = (): Repositories => {
+  if (!configuredRepositories) {
+    configuredRepositories = Platform.OS === 'web' ? supabaseRepositories : localRepositories;
+  }
+  return configuredRepositories;
+};
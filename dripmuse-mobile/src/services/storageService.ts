@@ -1,4 +1,6 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { getDatabase, runInTransaction, runWrite, generateId } from './database';
+import { SyncOutbox } from './syncOutbox';
 
 export interface Profile {
   id: string;
@@ -18,49 +20,306 @@ export interface WardrobeItem {
   category: string;
   color?: string;
   image_url?: string;
+  style?: string;
+  occasion?: string[];
+  season?: string[];
   tags?: string[];
+  purchase_price?: number;
+  purchase_date?: string; // YYYY-MM-DD
+  // Version of the wardrobe item schema the row was written with; 0 before versioning
+  schema_version?: number;
   created_at: string;
   updated_at: string;
 }
 
-const PROFILES_KEY = 'dripmuse_profiles';
-const WARDROBE_ITEMS_KEY = 'dripmuse_wardrobe_items';
+export type PlannedOutfitStatus = 'planned' | 'worn' | 'skipped';
+
+export interface PlannedOutfit {
+  id: string;
+  user_id: string;
+  date: string; // YYYY-MM-DD
+  occasion?: string;
+  notes?: string;
+  status: PlannedOutfitStatus;
+  item_ids: string[];
+  missing_item_ids?: string[];
+  details?: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StyleQuizResult {
+  user_id: string;
+  style_personality?: string;
+  color_preferences?: string[];
+  lifestyle?: string;
+  preferred_fit?: string;
+  budget_range?: string;
+  style_goals?: string[];
+  quiz_answers: Record<string, string | string[]>;
+  confidence_score?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WearLog {
+  id: string;
+  user_id: string;
+  item_id: string;
+  planned_outfit_id?: string;
+  worn_on: string; // YYYY-MM-DD
+  created_at: string;
+}
+
+export type OutfitFeedbackType = 'like' | 'dislike' | 'wore';
+
+export interface OutfitFeedback {
+  id: string;
+  user_id: string;
+  outfit_id: string;
+  outfit_item_ids: string[];
+  feedback: OutfitFeedbackType;
+  occasion?: string;
+  style?: string;
+  created_at: string;
+}
+
+interface ProfileRow {
+  id: string;
+  user_id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  color_palette: string | null;
+  style_preferences: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface WardrobeItemRow {
+  id: string;
+  user_id: string;
+  name: string;
+  category: string;
+  color: string | null;
+  image_url: string | null;
+  style: string | null;
+  occasion: string | null;
+  season: string | null;
+  tags: string | null;
+  purchase_price: number | null;
+  purchase_date: string | null;
+  schema_version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PlannedOutfitRow {
+  id: string;
+  user_id: string;
+  date: string;
+  occasion: string | null;
+  notes: string | null;
+  status: PlannedOutfitStatus;
+  item_ids: string | null;
+  missing_item_ids: string | null;
+  details: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface WearLogRow {
+  id: string;
+  user_id: string;
+  item_id: string;
+  planned_outfit_id: string | null;
+  worn_on: string;
+  created_at: string;
+}
+
+interface OutfitFeedbackRow {
+  id: string;
+  user_id: string;
+  outfit_id: string;
+  outfit_item_ids: string;
+  feedback: OutfitFeedbackType;
+  occasion: string | null;
+  style: string | null;
+  created_at: string;
+}
+
+// Columns callers may change through updateWardrobeItem
+const UPDATABLE_WARDROBE_COLUMNS = [
+  'name', 'category', 'color', 'image_url', 'style', 'occasion', 'season', 'tags', 'purchase_price', 'purchase_date',
+] as const;
+// Of those, the columns stored as JSON arrays
+const JSON_WARDROBE_COLUMNS: readonly string[] = ['occasion', 'season', 'tags'];
+
+const toProfile = (row: ProfileRow): Profile => ({
+  id: row.id,
+  user_id: row.user_id,
+  full_name: row.full_name ?? undefined,
+  avatar_url: row.avatar_url ?? undefined,
+  color_palette: row.color_palette ?? undefined,
+  style_preferences: row.style_preferences ? JSON.parse(row.style_preferences) : undefined,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const toWardrobeItem = (row: WardrobeItemRow): WardrobeItem => ({
+  id: row.id,
+  user_id: row.user_id,
+  name: row.name,
+  category: row.category,
+  color: row.color ?? undefined,
+  image_url: row.image_url ?? undefined,
+  style: row.style ?? undefined,
+  occasion: row.occasion ? JSON.parse(row.occasion) : undefined,
+  season: row.season ? JSON.parse(row.season) : undefined,
+  tags: row.tags ? JSON.parse(row.tags) : undefined,
+  purchase_price: row.purchase_price ?? undefined,
+  purchase_date: row.purchase_date ?? undefined,
+  schema_version: row.schema_version,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const toPlannedOutfit = (row: PlannedOutfitRow): PlannedOutfit => ({
+  id: row.id,
+  user_id: row.user_id,
+  date: row.date,
+  occasion: row.occasion ?? undefined,
+  notes: row.notes ?? undefined,
+  status: row.status,
+  item_ids: row.item_ids ? row.item_ids.split(',') : [],
+  missing_item_ids: row.missing_item_ids ? JSON.parse(row.missing_item_ids) : undefined,
+  details: row.details ? JSON.parse(row.details) : undefined,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const toWearLog = (row: WearLogRow): WearLog => ({
+  id: row.id,
+  user_id: row.user_id,
+  item_id: row.item_id,
+  planned_outfit_id: row.planned_outfit_id ?? undefined,
+  worn_on: row.worn_on,
+  created_at: row.created_at,
+});
+
+const toOutfitFeedback = (row: OutfitFeedbackRow): OutfitFeedback => ({
+  id: row.id,
+  user_id: row.user_id,
+  outfit_id: row.outfit_id,
+  outfit_item_ids: JSON.parse(row.outfit_item_ids),
+  feedback: row.feedback,
+  occasion: row.occasion ?? undefined,
+  style: row.style ?? undefined,
+  created_at: row.created_at,
+});
+
+const PLANNED_OUTFIT_SELECT = `
+  SELECT po.*, (
+    SELECT group_concat(item_id, ',') FROM (
+      SELECT item_id FROM planned_outfit_items
+      WHERE planned_outfit_id = po.id
+      ORDER BY position
+    )
+  ) AS item_ids
+  FROM planned_outfits po
+`;
+
+// Upsert an outfit row and rewrite its item links; must run inside a transaction
+const writePlannedOutfit = async (db: SQLiteDatabase, outfit: PlannedOutfit): Promise<void> => {
+  // A pulled plan can name items this device doesn't have; they can't be
+  // linked, so they are flagged as missing like items deleted after planning
+  const knownRows = outfit.item_ids.length === 0 ? [] : await db.getAllAsync<{ id: string }>(
+    `SELECT id FROM wardrobe_items WHERE id IN (${outfit.item_ids.map(() => '?').join(', ')})`,
+    ...outfit.item_ids
+  );
+  const known = new Set(knownRows.map(row => row.id));
+  const itemIds = outfit.item_ids.filter(itemId => known.has(itemId));
+  const missingItemIds = Array.from(new Set([
+    ...(outfit.missing_item_ids || []),
+    ...outfit.item_ids.filter(itemId => !known.has(itemId)),
+  ]));
+
+  await db.runAsync(
+    `INSERT INTO planned_outfits
+      (id, user_id, date, occasion, notes, status, missing_item_ids, details, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET
+       date = excluded.date,
+       occasion = excluded.occasion,
+       notes = excluded.notes,
+       status = excluded.status,
+       missing_item_ids = excluded.missing_item_ids,
+       details = excluded.details,
+       updated_at = excluded.updated_at`,
+    outfit.id,
+    outfit.user_id,
+    outfit.date,
+    outfit.occasion ?? null,
+    outfit.notes ?? null,
+    // Rows pulled from a server that predates the status column have none
+    outfit.status ?? 'planned',
+    missingItemIds.length ? JSON.stringify(missingItemIds) : null,
+    outfit.details ? JSON.stringify(outfit.details) : null,
+    outfit.created_at,
+    outfit.updated_at
+  );
+
+  await db.runAsync('DELETE FROM planned_outfit_items WHERE planned_outfit_id = ?', outfit.id);
+  for (const [position, itemId] of itemIds.entries()) {
+    await db.runAsync(
+      'INSERT OR IGNORE INTO planned_outfit_items (planned_outfit_id, item_id, position) VALUES (?, ?, ?)',
+      outfit.id,
+      itemId,
+      position
+    );
+  }
+};
 
 export class StorageService {
   // Profile Management
-  static async getProfile(userId: string): Promise<Profile | null> {
+  static async getProfile(userId: string, connection?: SQLiteDatabase): Promise<Profile | null> {
     try {
-      const profilesJson = await AsyncStorage.getItem(PROFILES_KEY);
-      const profiles: Profile[] = profilesJson ? JSON.parse(profilesJson) : [];
-      return profiles.find(p => p.user_id === userId) || null;
+      const db = connection || (await getDatabase());
+      const row = await db.getFirstAsync<ProfileRow>(
+        'SELECT * FROM profiles WHERE user_id = ?',
+        userId
+      );
+      return row ? toProfile(row) : null;
     } catch (error) {
       console.error('Error getting profile:', error);
       return null;
     }
   }
 
-  static async saveProfile(profile: Profile): Promise<void> {
+  static async saveProfile(profile: Profile, connection?: SQLiteDatabase): Promise<void> {
     try {
-      const profilesJson = await AsyncStorage.getItem(PROFILES_KEY);
-      const profiles: Profile[] = profilesJson ? JSON.parse(profilesJson) : [];
-      
-      const existingProfileIndex = profiles.findIndex(p => p.user_id === profile.user_id);
-      
-      if (existingProfileIndex >= 0) {
-        profiles[existingProfileIndex] = {
-          ...profile,
-          updated_at: new Date().toISOString(),
-        };
-      } else {
-        profiles.push({
-          ...profile,
-          id: `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        });
-      }
-      
-      await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+      const now = new Date().toISOString();
+
+      // Upsert on user_id so concurrent saves never duplicate a profile
+      const write = (db: SQLiteDatabase) => db.runAsync(
+        `INSERT INTO profiles
+          (id, user_id, full_name, avatar_url, color_palette, style_preferences, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (user_id) DO UPDATE SET
+           full_name = excluded.full_name,
+           avatar_url = excluded.avatar_url,
+           color_palette = excluded.color_palette,
+           style_preferences = excluded.style_preferences,
+           updated_at = excluded.updated_at`,
+        generateId('profile'),
+        profile.user_id,
+        profile.full_name ?? null,
+        profile.avatar_url ?? null,
+        profile.color_palette ?? null,
+        profile.style_preferences !== undefined ? JSON.stringify(profile.style_preferences) : null,
+        profile.created_at || now,
+        profile.updated_at || now
+      );
+      await (connection ? write(connection) : runWrite(write));
     } catch (error) {
       console.error('Error saving profile:', error);
       throw new Error('Failed to save profile');
@@ -68,32 +327,71 @@ export class StorageService {
   }
 
   // Wardrobe Item Management
-  static async getWardrobeItems(userId: string): Promise<WardrobeItem[]> {
+  static async getWardrobeItems(userId: string, connection?: SQLiteDatabase): Promise<WardrobeItem[]> {
     try {
-      const itemsJson = await AsyncStorage.getItem(WARDROBE_ITEMS_KEY);
-      const items: WardrobeItem[] = itemsJson ? JSON.parse(itemsJson) : [];
-      return items.filter(item => item.user_id === userId);
+      const db = connection || (await getDatabase());
+      const rows = await db.getAllAsync<WardrobeItemRow>(
+        'SELECT * FROM wardrobe_items WHERE user_id = ? ORDER BY created_at',
+        userId
+      );
+      return rows.map(toWardrobeItem);
     } catch (error) {
       console.error('Error getting wardrobe items:', error);
       return [];
     }
   }
 
-  static async saveWardrobeItem(item: Omit<WardrobeItem, 'id' | 'created_at' | 'updated_at'>): Promise<WardrobeItem> {
+  static async getWardrobeItem(itemId: string, connection?: SQLiteDatabase): Promise<WardrobeItem | null> {
+    try {
+      const db = connection || (await getDatabase());
+      const row = await db.getFirstAsync<WardrobeItemRow>(
+        'SELECT * FROM wardrobe_items WHERE id = ?',
+        itemId
+      );
+      return row ? toWardrobeItem(row) : null;
+    } catch (error) {
+      console.error('Error getting wardrobe item:', error);
+      return null;
+    }
+  }
+
+  static async saveWardrobeItem(
+    item: Omit<WardrobeItem, 'id' | 'created_at' | 'updated_at'>,
+    connection?: SQLiteDatabase
+  ): Promise<WardrobeItem> {
     try {
-      const itemsJson = await AsyncStorage.getItem(WARDROBE_ITEMS_KEY);
-      const items: WardrobeItem[] = itemsJson ? JSON.parse(itemsJson) : [];
-      
+      const now = new Date().toISOString();
+
       const newItem: WardrobeItem = {
         ...item,
-        id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
+        id: generateId('item'),
+        created_at: now,
+        updated_at: now,
       };
-      
-      items.push(newItem);
-      await AsyncStorage.setItem(WARDROBE_ITEMS_KEY, JSON.stringify(items));
-      
+
+      const write = (db: SQLiteDatabase) => db.runAsync(
+        `INSERT INTO wardrobe_items
+          (id, user_id, name, category, color, image_url, style, occasion, season, tags,
+           purchase_price, purchase_date, schema_version, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        newItem.id,
+        newItem.user_id,
+        newItem.name,
+        newItem.category,
+        newItem.color ?? null,
+        newItem.image_url ?? null,
+        newItem.style ?? null,
+        newItem.occasion ? JSON.stringify(newItem.occasion) : null,
+        newItem.season ? JSON.stringify(newItem.season) : null,
+        newItem.tags ? JSON.stringify(newItem.tags) : null,
+        newItem.purchase_price ?? null,
+        newItem.purchase_date ?? null,
+        newItem.schema_version ?? 0,
+        newItem.created_at,
+        newItem.updated_at
+      );
+      await (connection ? write(connection) : runWrite(write));
+
       return newItem;
     } catch (error) {
       console.error('Error saving wardrobe item:', error);
@@ -101,20 +399,84 @@ export class StorageService {
     }
   }
 
-  static async updateWardrobeItem(itemId: string, updates: Partial<WardrobeItem>): Promise<void> {
+  /**
+   * Write an item exactly as given, keeping its id and timestamps. Used when
+   * applying rows pulled from the server; local edits go through
+   * saveWardrobeItem/updateWardrobeItem instead.
+   */
+  static async putWardrobeItem(item: WardrobeItem): Promise<void> {
     try {
-      const itemsJson = await AsyncStorage.getItem(WARDROBE_ITEMS_KEY);
-      const items: WardrobeItem[] = itemsJson ? JSON.parse(itemsJson) : [];
-      
-      const itemIndex = items.findIndex(item => item.id === itemId);
-      if (itemIndex >= 0) {
-        items[itemIndex] = {
-          ...items[itemIndex],
-          ...updates,
-          updated_at: new Date().toISOString(),
-        };
-        await AsyncStorage.setItem(WARDROBE_ITEMS_KEY, JSON.stringify(items));
+      // ON CONFLICT rather than REPLACE: a replace deletes the row first and
+      // would cascade away its outfit links and wear logs
+      await runWrite((db) => db.runAsync(
+        `INSERT INTO wardrobe_items
+          (id, user_id, name, category, color, image_url, style, occasion, season, tags,
+           purchase_price, purchase_date, schema_version, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name,
+           category = excluded.category,
+           color = excluded.color,
+           image_url = excluded.image_url,
+           style = excluded.style,
+           occasion = excluded.occasion,
+           season = excluded.season,
+           tags = excluded.tags,
+           purchase_price = excluded.purchase_price,
+           purchase_date = excluded.purchase_date,
+           schema_version = excluded.schema_version,
+           updated_at = excluded.updated_at`,
+        item.id,
+        item.user_id,
+        item.name,
+        item.category,
+        item.color ?? null,
+        item.image_url ?? null,
+        item.style ?? null,
+        item.occasion ? JSON.stringify(item.occasion) : null,
+        item.season ? JSON.stringify(item.season) : null,
+        item.tags ? JSON.stringify(item.tags) : null,
+        item.purchase_price ?? null,
+        item.purchase_date ?? null,
+        item.schema_version ?? 0,
+        item.created_at,
+        item.updated_at
+      ));
+    } catch (error) {
+      console.error('Error putting wardrobe item:', error);
+      throw new Error('Failed to put wardrobe item');
+    }
+  }
+
+  static async updateWardrobeItem(
+    itemId: string,
+    updates: Partial<WardrobeItem>,
+    connection?: SQLiteDatabase
+  ): Promise<void> {
+    try {
+      const assignments: string[] = [];
+      const params: (string | number | null)[] = [];
+
+      for (const column of UPDATABLE_WARDROBE_COLUMNS) {
+        if (!(column in updates)) continue;
+        const value = updates[column];
+        assignments.push(`${column} = ?`);
+        if (JSON_WARDROBE_COLUMNS.includes(column)) {
+          params.push(value ? JSON.stringify(value) : null);
+        } else {
+          params.push((value as string | number | undefined) ?? null);
+        }
       }
+
+      assignments.push('updated_at = ?');
+      params.push(new Date().toISOString());
+
+      const write = (db: SQLiteDatabase) => db.runAsync(
+        `UPDATE wardrobe_items SET ${assignments.join(', ')} WHERE id = ?`,
+        ...params,
+        itemId
+      );
+      await (connection ? write(connection) : runWrite(write));
     } catch (error) {
       console.error('Error updating wardrobe item:', error);
       throw new Error('Failed to update wardrobe item');
@@ -123,35 +485,382 @@ export class StorageService {
 
   static async deleteWardrobeItem(itemId: string): Promise<void> {
     try {
-      const itemsJson = await AsyncStorage.getItem(WARDROBE_ITEMS_KEY);
-      const items: WardrobeItem[] = itemsJson ? JSON.parse(itemsJson) : [];
-      
-      const filteredItems = items.filter(item => item.id !== itemId);
-      await AsyncStorage.setItem(WARDROBE_ITEMS_KEY, JSON.stringify(filteredItems));
+      // Planned outfit links and wear logs are removed by ON DELETE CASCADE
+      await runWrite((db) => db.runAsync('DELETE FROM wardrobe_items WHERE id = ?', itemId));
     } catch (error) {
       console.error('Error deleting wardrobe item:', error);
       throw new Error('Failed to delete wardrobe item');
     }
   }
 
-  // Utility methods
-  static async clearAllData(): Promise<void> {
+  /**
+   * Pass `connection` from inside a transaction the deletion should join;
+   * otherwise the items are deleted in a transaction of their own.
+   */
+  static async deleteWardrobeItems(itemIds: string[], connection?: SQLiteDatabase): Promise<void> {
+    const deleteAll = async (db: SQLiteDatabase) => {
+      for (const itemId of itemIds) {
+        await db.runAsync('DELETE FROM wardrobe_items WHERE id = ?', itemId);
+      }
+    };
     try {
-      await AsyncStorage.multiRemove([PROFILES_KEY, WARDROBE_ITEMS_KEY]);
+      await (connection ? deleteAll(connection) : runInTransaction(deleteAll));
     } catch (error) {
-      console.error('Error clearing data:', error);
-      throw new Error('Failed to clear data');
+      console.error('Error deleting wardrobe items:', error);
+      throw new Error('Failed to delete wardrobe items');
+    }
+  }
+
+  // Planned Outfit Management
+  static async getPlannedOutfits(
+    userId: string,
+    fromDate?: string,
+    toDate?: string,
+    connection?: SQLiteDatabase
+  ): Promise<PlannedOutfit[]> {
+    try {
+      const db = connection || (await getDatabase());
+      const rows = await db.getAllAsync<PlannedOutfitRow>(
+        `${PLANNED_OUTFIT_SELECT}
+         WHERE po.user_id = ?
+           AND (? IS NULL OR po.date >= ?)
+           AND (? IS NULL OR po.date <= ?)
+         ORDER BY po.date, po.created_at`,
+        userId,
+        fromDate ?? null,
+        fromDate ?? null,
+        toDate ?? null,
+        toDate ?? null
+      );
+      return rows.map(toPlannedOutfit);
+    } catch (error) {
+      console.error('Error getting planned outfits:', error);
+      return [];
+    }
+  }
+
+  static async getPlannedOutfitsUsingItems(itemIds: string[], connection?: SQLiteDatabase): Promise<PlannedOutfit[]> {
+    if (itemIds.length === 0) return [];
+    try {
+      const db = connection || (await getDatabase());
+      const rows = await db.getAllAsync<PlannedOutfitRow>(
+        `${PLANNED_OUTFIT_SELECT}
+         WHERE po.id IN (
+           SELECT planned_outfit_id FROM planned_outfit_items
+           WHERE item_id IN (${itemIds.map(() => '?').join(', ')})
+         )`,
+        ...itemIds
+      );
+      return rows.map(toPlannedOutfit);
+    } catch (error) {
+      console.error('Error getting planned outfits for items:', error);
+      return [];
+    }
+  }
+
+  static async getPlannedOutfit(outfitId: string): Promise<PlannedOutfit | null> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<PlannedOutfitRow>(`${PLANNED_OUTFIT_SELECT} WHERE po.id = ?`, outfitId);
+      return row ? toPlannedOutfit(row) : null;
+    } catch (error) {
+      console.error('Error getting planned outfit:', error);
+      return null;
+    }
+  }
+
+  static async savePlannedOutfit(
+    outfit: Omit<PlannedOutfit, 'id' | 'created_at' | 'updated_at'> & { id?: string },
+    connection?: SQLiteDatabase
+  ): Promise<PlannedOutfit> {
+    try {
+      const now = new Date().toISOString();
+
+      const save = async (db: SQLiteDatabase) => {
+        const existing = outfit.id
+          ? await db.getFirstAsync<{ created_at: string; updated_at: string }>(
+              'SELECT created_at, updated_at FROM planned_outfits WHERE id = ?',
+              outfit.id
+            )
+          : null;
+
+        const saved: PlannedOutfit = {
+          ...outfit,
+          id: outfit.id || generateId('outfit'),
+          created_at: existing?.created_at || now,
+          updated_at: now,
+        };
+
+        await writePlannedOutfit(db, saved);
+        await SyncOutbox.record({
+          user_id: saved.user_id,
+          entity: 'planned_outfits',
+          entity_id: saved.id,
+          operation: 'upsert',
+          fields: {
+            date: saved.date,
+            occasion: saved.occasion ?? null,
+            notes: saved.notes ?? null,
+            status: saved.status,
+            item_ids: saved.item_ids,
+            missing_item_ids: saved.missing_item_ids ?? null,
+            details: saved.details ?? null,
+            ...(existing ? {} : { created_at: saved.created_at }),
+          },
+          changed_at: saved.updated_at,
+        }, db);
+
+        return saved;
+      };
+      return await (connection ? save(connection) : runInTransaction(save));
+    } catch (error) {
+      console.error('Error saving planned outfit:', error);
+      throw new Error('Failed to save planned outfit');
+    }
+  }
+
+  /**
+   * Write an outfit exactly as given, keeping its id and timestamps, without
+   * queueing it for sync. Used when applying rows pulled from the server.
+   */
+  static async putPlannedOutfit(outfit: PlannedOutfit): Promise<void> {
+    try {
+      await runInTransaction((db) => writePlannedOutfit(db, outfit));
+    } catch (error) {
+      console.error('Error putting planned outfit:', error);
+      throw new Error('Failed to put planned outfit');
+    }
+  }
+
+  /**
+   * Delete an outfit without queueing the deletion for sync. Used when
+   * applying deletions pulled from the server.
+   */
+  static async dropPlannedOutfit(outfitId: string): Promise<void> {
+    try {
+      await runWrite((db) => db.runAsync('DELETE FROM planned_outfits WHERE id = ?', outfitId));
+    } catch (error) {
+      console.error('Error dropping planned outfit:', error);
+      throw new Error('Failed to drop planned outfit');
+    }
+  }
+
+  static async deletePlannedOutfit(outfitId: string, connection?: SQLiteDatabase): Promise<void> {
+    const remove = async (db: SQLiteDatabase) => {
+      const existing = await db.getFirstAsync<{ user_id: string; updated_at: string }>(
+        'SELECT user_id, updated_at FROM planned_outfits WHERE id = ?',
+        outfitId
+      );
+      if (!existing) return;
+
+      await db.runAsync('DELETE FROM planned_outfits WHERE id = ?', outfitId);
+      await SyncOutbox.record({
+        user_id: existing.user_id,
+        entity: 'planned_outfits',
+        entity_id: outfitId,
+        operation: 'delete',
+        fields: {},
+        changed_at: new Date().toISOString(),
+      }, db);
+    };
+    try {
+      await (connection ? remove(connection) : runInTransaction(remove));
+    } catch (error) {
+      console.error('Error deleting planned outfit:', error);
+      throw new Error('Failed to delete planned outfit');
+    }
+  }
+
+  // Wear Log Management
+  static async logWear(
+    userId: string,
+    itemIds: string[],
+    wornOn: string,
+    plannedOutfitId?: string
+  ): Promise<WearLog[]> {
+    try {
+      const now = new Date().toISOString();
+
+      return await runInTransaction(async (db) => {
+        const logs: WearLog[] = [];
+        for (const itemId of itemIds) {
+          const log: WearLog = {
+            id: generateId('wear'),
+            user_id: userId,
+            item_id: itemId,
+            planned_outfit_id: plannedOutfitId,
+            worn_on: wornOn,
+            created_at: now,
+          };
+          await db.runAsync(
+            `INSERT INTO wear_logs (id, user_id, item_id, planned_outfit_id, worn_on, created_at)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            log.id,
+            log.user_id,
+            log.item_id,
+            log.planned_outfit_id ?? null,
+            log.worn_on,
+            log.created_at
+          );
+          logs.push(log);
+        }
+        return logs;
+      });
+    } catch (error) {
+      console.error('Error logging wear:', error);
+      throw new Error('Failed to log wear');
+    }
+  }
+
+  static async getWearLogs(userId: string, itemId?: string): Promise<WearLog[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<WearLogRow>(
+        `SELECT * FROM wear_logs
+         WHERE user_id = ? AND (? IS NULL OR item_id = ?)
+         ORDER BY worn_on DESC`,
+        userId,
+        itemId ?? null,
+        itemId ?? null
+      );
+      return rows.map(toWearLog);
+    } catch (error) {
+      console.error('Error getting wear logs:', error);
+      return [];
+    }
+  }
+
+  static async deleteWearLog(logId: string): Promise<void> {
+    try {
+      await runWrite((db) => db.runAsync('DELETE FROM wear_logs WHERE id = ?', logId));
+    } catch (error) {
+      console.error('Error deleting wear log:', error);
+      throw new Error('Failed to delete wear log');
+    }
+  }
+
+  // Outfit Feedback Management
+  /**
+   * Save the user's feedback on an outfit, replacing any earlier feedback on
+   * the same outfit so a change of mind counts once
+   */
+  static async saveOutfitFeedback(
+    feedback: Omit<OutfitFeedback, 'id' | 'created_at'>
+  ): Promise<OutfitFeedback> {
+    try {
+      const saved: OutfitFeedback = {
+        ...feedback,
+        id: generateId('feedback'),
+        created_at: new Date().toISOString(),
+      };
+
+      const row = await runWrite((db) => db.getFirstAsync<{ id: string }>(
+        `INSERT INTO outfit_feedback (id, user_id, outfit_id, outfit_item_ids, feedback, occasion, style, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (user_id, outfit_id) DO UPDATE SET
+           outfit_item_ids = excluded.outfit_item_ids,
+           feedback = excluded.feedback,
+           occasion = excluded.occasion,
+           style = excluded.style,
+           created_at = excluded.created_at
+         RETURNING id`,
+        saved.id,
+        saved.user_id,
+        saved.outfit_id,
+        JSON.stringify(saved.outfit_item_ids),
+        saved.feedback,
+        saved.occasion ?? null,
+        saved.style ?? null,
+        saved.created_at
+      ));
+
+      return row ? { ...saved, id: row.id } : saved;
+    } catch (error) {
+      console.error('Error saving outfit feedback:', error);
+      throw new Error('Failed to save outfit feedback');
     }
   }
 
-  static async exportData(userId: string): Promise<{ profile: Profile | null; wardrobeItems: WardrobeItem[] }> {
+  static async getOutfitFeedback(userId: string): Promise<OutfitFeedback[]> {
     try {
-      const profile = await this.getProfile(userId);
-      const wardrobeItems = await this.getWardrobeItems(userId);
-      return { profile, wardrobeItems };
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<OutfitFeedbackRow>(
+        'SELECT * FROM outfit_feedback WHERE user_id = ? ORDER BY created_at DESC',
+        userId
+      );
+      return rows.map(toOutfitFeedback);
     } catch (error) {
-      console.error('Error exporting data:', error);
-      throw new Error('Failed to export data');
+      console.error('Error getting outfit feedback:', error);
+      return [];
+    }
+  }
+
+  // Style Quiz Management
+  static async getStyleQuizResult(userId: string): Promise<StyleQuizResult | null> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ results: string; created_at: string; updated_at: string }>(
+        'SELECT results, created_at, updated_at FROM style_quiz_results WHERE user_id = ?',
+        userId
+      );
+      return row
+        ? { ...JSON.parse(row.results), user_id: userId, created_at: row.created_at, updated_at: row.updated_at }
+        : null;
+    } catch (error) {
+      console.error('Error getting style quiz result:', error);
+      return null;
+    }
+  }
+
+  static async saveStyleQuizResult(
+    result: Omit<StyleQuizResult, 'created_at' | 'updated_at'> & { created_at?: string; updated_at?: string }
+  ): Promise<StyleQuizResult> {
+    try {
+      const now = new Date().toISOString();
+      const { user_id, created_at, updated_at, ...results } = result;
+
+      await runWrite((db) => db.runAsync(
+        `INSERT INTO style_quiz_results (user_id, results, created_at, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (user_id) DO UPDATE SET
+           results = excluded.results,
+           updated_at = excluded.updated_at`,
+        user_id,
+        JSON.stringify(results),
+        created_at || now,
+        updated_at || now
+      ));
+
+      return (await this.getStyleQuizResult(user_id))!;
+    } catch (error) {
+      console.error('Error saving style quiz result:', error);
+      throw new Error('Failed to save style quiz result');
+    }
+  }
+
+  // Utility methods
+  static async clearAllData(): Promise<void> {
+    try {
+      // Sync state goes too, so the next sync pulls everything back instead
+      // of treating the emptied tables as already up to date
+      await runInTransaction(async (db) => {
+        await db.execAsync(`
+          DELETE FROM wear_logs;
+          DELETE FROM outfit_feedback;
+          DELETE FROM planned_outfit_items;
+          DELETE FROM planned_outfits;
+          DELETE FROM wardrobe_items;
+          DELETE FROM profiles;
+          DELETE FROM style_quiz_results;
+          DELETE FROM sync_outbox;
+          DELETE FROM sync_conflicts;
+          DELETE FROM sync_remote_versions;
+          DELETE FROM meta WHERE key LIKE 'sync_cursor:%';
+        `);
+      });
+    } catch (error) {
+      console.error('Error clearing data:', error);
+      throw new Error('Failed to clear data');
     }
   }
 }
@@ -0,0 +1,403 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getErrorMessage } from '@/lib/errorUtils';
+import {
+  WARDROBE_ITEM_SCHEMA_VERSION,
+  parseWardrobeItem,
+  parseWardrobeItems,
+  parseWardrobeItemInput,
+  parseWardrobeItemUpdates,
+} from '@/lib/wardrobeSchema';
+import {
+  WardrobeRepository,
+  ProfileRepository,
+  Repositories,
+  WardrobeRecord,
+  WardrobeRecordInput,
+  WardrobeRecordUpdates,
+  ProfileRecord,
+  ProfileUpdates,
+  StyleQuizRepository,
+  StyleQuizRecord,
+  StyleQuizUpdates,
+  WearLogRepository,
+  WearLogRecord,
+  OutfitFeedbackRepository,
+  OutfitFeedbackRecord,
+  NewOutfitFeedback,
+  PlannedOutfitRepository,
+  PlannedOutfitRecord,
+  NewPlannedOutfit,
+  PlannedOutfitUpdates,
+  DateRange,
+  WardrobeReplacement,
+  withoutItems,
+  withCreatedItemIds,
+} from './repositories';
+
+/**
+ * Rows carry the schema_version they were written with (0 for rows older
+ * than the column). Rows read at an older version are upgraded by the schema
+ * migrations and written back, so each is migrated once.
+ */
+export class SupabaseWardrobeRepository implements WardrobeRepository {
+  constructor(private readonly plannedOutfits?: PlannedOutfitRepository) {}
+
+  async list(userId: string): Promise<WardrobeRecord[]> {
+    const { data, error } = await supabase
+      .from('wardrobe_items')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) throw new Error(getErrorMessage(error));
+    const { items } = parseWardrobeItems(data || []);
+    await this.saveUpgrades(data || [], items);
+    return items;
+  }
+
+  async get(itemId: string): Promise<WardrobeRecord | null> {
+    const { data, error } = await supabase
+      .from('wardrobe_items')
+      .select('*')
+      .eq('id', itemId)
+      .maybeSingle();
+
+    if (error) throw new Error(getErrorMessage(error));
+    if (!data) return null;
+    const item = parseWardrobeItem(data);
+    await this.saveUpgrades([data], [item]);
+    return item;
+  }
+
+  async create(userId: string, item: WardrobeRecordInput): Promise<WardrobeRecord> {
+    const [created] = await this.createMany(userId, [item]);
+    return created;
+  }
+
+  async createMany(userId: string, items: WardrobeRecordInput[]): Promise<WardrobeRecord[]> {
+    if (items.length === 0) return [];
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('wardrobe_items')
+      .insert(items.map(item => ({
+        ...parseWardrobeItemInput(item),
+        user_id: userId,
+        schema_version: WARDROBE_ITEM_SCHEMA_VERSION,
+        created_at: now,
+        updated_at: now,
+      })))
+      .select();
+
+    if (error) throw new Error(getErrorMessage(error));
+    return parseWardrobeItems(data || []).items;
+  }
+
+  async update(itemId: string, updates: WardrobeRecordUpdates): Promise<void> {
+    const { error } = await supabase
+      .from('wardrobe_items')
+      .update({ ...parseWardrobeItemUpdates(updates), updated_at: new Date().toISOString() })
+      .eq('id', itemId);
+
+    if (error) throw new Error(getErrorMessage(error));
+  }
+
+  async remove(itemIds: string[]): Promise<void> {
+    if (itemIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('wardrobe_items')
+      .delete()
+      .in('id', itemIds);
+
+    if (error) throw new Error(getErrorMessage(error));
+    // Outfits hold item ids in an array, so nothing cascades; detaching only
+    // once the delete succeeded means a failed delete leaves the plans intact
+    await this.plannedOutfits?.detachItems(itemIds);
+  }
+
+  /**
+   * There is no transaction over the REST API, so the new wardrobe is written
+   * first and the old one deleted only once that worked. If a write fails,
+   * what was written is removed again and the old wardrobe is left as it was.
+   */
+  async replace(userId: string, { items, outfits }: WardrobeReplacement): Promise<void> {
+    const plannedOutfits = this.plannedOutfits;
+    if (!plannedOutfits) throw new Error('Replacing a wardrobe needs the planned outfit repository');
+
+    // Ids straight from the table, so rows that fail validation are replaced too
+    const { data: oldItems, error } = await supabase
+      .from('wardrobe_items')
+      .select('id')
+      .eq('user_id', userId);
+    if (error) throw new Error(getErrorMessage(error));
+    const oldOutfits = await plannedOutfits.list(userId);
+
+    const createdIds = new Map<string, string>();
+    const createdOutfitIds: string[] = [];
+    try {
+      for (const { key, ...item } of items) {
+        createdIds.set(key, (await this.create(userId, item)).id);
+      }
+      for (const outfit of outfits) {
+        createdOutfitIds.push((await plannedOutfits.create(userId, withCreatedItemIds(outfit, createdIds))).id);
+      }
+    } catch (error) {
+      try {
+        await plannedOutfits.remove(createdOutfitIds);
+        await this.remove(Array.from(createdIds.values()));
+      } catch (cleanupError) {
+        console.warn('Failed to remove a partly written wardrobe:', getErrorMessage(cleanupError));
+      }
+      throw error;
+    }
+
+    // Outfits first, so deleting their items has nothing left to flag
+    await plannedOutfits.remove(oldOutfits.map(outfit => outfit.id));
+    await this.remove((oldItems || []).map((item: { id: string }) => item.id));
+  }
+
+  // A failed write-back only means the row is migrated again on the next read
+  private async saveUpgrades(rows: Record<string, any>[], items: WardrobeRecord[]): Promise<void> {
+    const upgraded = items.filter(item => {
+      const row = rows.find(r => r.id === item.id);
+      return row && row.schema_version !== item.schema_version;
+    });
+    if (upgraded.length === 0) return;
+
+    const { error } = await supabase
+      .from('wardrobe_items')
+      .upsert(upgraded, { onConflict: 'id' });
+    if (error) console.warn('Failed to save upgraded wardrobe items:', getErrorMessage(error));
+  }
+}
+
+export class SupabaseProfileRepository implements ProfileRepository {
+  async get(userId: string): Promise<ProfileRecord | null> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(getErrorMessage(error));
+    return data;
+  }
+
+  async upsert(userId: string, updates: ProfileUpdates): Promise<ProfileRecord> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .upsert(
+        { ...updates, user_id: userId, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw new Error(getErrorMessage(error));
+    return data;
+  }
+}
+
+export class SupabaseStyleQuizRepository implements StyleQuizRepository {
+  async get(userId: string): Promise<StyleQuizRecord | null> {
+    const { data, error } = await supabase
+      .from('user_style_quiz')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(getErrorMessage(error));
+    return data;
+  }
+
+  async upsert(userId: string, quiz: StyleQuizUpdates): Promise<StyleQuizRecord> {
+    const { data, error } = await supabase
+      .from('user_style_quiz')
+      .upsert({ ...quiz, user_id: userId }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) throw new Error(getErrorMessage(error));
+    return data;
+  }
+}
+
+export class SupabaseWearLogRepository implements WearLogRepository {
+  async list(userId: string, itemId?: string): Promise<WearLogRecord[]> {
+    let query = supabase
+      .from('wear_logs')
+      .select('*')
+      .eq('user_id', userId);
+    if (itemId) query = query.eq('item_id', itemId);
+
+    const { data, error } = await query.order('worn_on', { ascending: false });
+
+    if (error) throw new Error(getErrorMessage(error));
+    return data || [];
+  }
+
+  async log(userId: string, itemIds: string[], wornOn: string, plannedOutfitId?: string): Promise<WearLogRecord[]> {
+    if (itemIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('wear_logs')
+      .insert(itemIds.map(itemId => ({
+        user_id: userId,
+        item_id: itemId,
+        planned_outfit_id: plannedOutfitId ?? null,
+        worn_on: wornOn,
+      })))
+      .select();
+
+    if (error) throw new Error(getErrorMessage(error));
+    return data || [];
+  }
+
+  async remove(logId: string): Promise<void> {
+    const { error } = await supabase
+      .from('wear_logs')
+      .delete()
+      .eq('id', logId);
+
+    if (error) throw new Error(getErrorMessage(error));
+  }
+}
+
+export class SupabaseOutfitFeedbackRepository implements OutfitFeedbackRepository {
+  async list(userId: string): Promise<OutfitFeedbackRecord[]> {
+    const { data, error } = await supabase
+      .from('outfit_feedback')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(getErrorMessage(error));
+    return data || [];
+  }
+
+  async record(userId: string, feedback: NewOutfitFeedback): Promise<OutfitFeedbackRecord> {
+    const { data, error } = await supabase
+      .from('outfit_feedback')
+      .upsert(
+        { ...feedback, user_id: userId, created_at: new Date().toISOString() },
+        { onConflict: 'user_id,outfit_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw new Error(getErrorMessage(error));
+    return data;
+  }
+}
+
+// Rows written before status and the item flags existed have them null
+const toPlannedOutfitRecord = (row: any): PlannedOutfitRecord => ({
+  ...row,
+  occasion: row.occasion ?? undefined,
+  notes: row.notes ?? undefined,
+  status: row.status || 'planned',
+  item_ids: row.item_ids || [],
+  missing_item_ids: row.missing_item_ids ?? undefined,
+  details: row.details ?? undefined,
+});
+
+export class SupabasePlannedOutfitRepository implements PlannedOutfitRepository {
+  async list(userId: string, range: DateRange = {}): Promise<PlannedOutfitRecord[]> {
+    let query = supabase
+      .from('planned_outfits')
+      .select('*')
+      .eq('user_id', userId);
+    if (range.from) query = query.gte('date', range.from);
+    if (range.to) query = query.lte('date', range.to);
+
+    const { data, error } = await query
+      .order('date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(getErrorMessage(error));
+    return (data || []).map(toPlannedOutfitRecord);
+  }
+
+  async get(outfitId: string): Promise<PlannedOutfitRecord | null> {
+    const { data, error } = await supabase
+      .from('planned_outfits')
+      .select('*')
+      .eq('id', outfitId)
+      .maybeSingle();
+
+    if (error) throw new Error(getErrorMessage(error));
+    return data ? toPlannedOutfitRecord(data) : null;
+  }
+
+  async create(userId: string, outfit: NewPlannedOutfit): Promise<PlannedOutfitRecord> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('planned_outfits')
+      .insert({
+        ...outfit,
+        status: outfit.status || 'planned',
+        user_id: userId,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(getErrorMessage(error));
+    return toPlannedOutfitRecord(data);
+  }
+
+  async update(outfitId: string, updates: PlannedOutfitUpdates): Promise<void> {
+    const { error } = await supabase
+      .from('planned_outfits')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', outfitId);
+
+    if (error) throw new Error(getErrorMessage(error));
+  }
+
+  async remove(outfitIds: string[]): Promise<void> {
+    if (outfitIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('planned_outfits')
+      .delete()
+      .in('id', outfitIds);
+
+    if (error) throw new Error(getErrorMessage(error));
+  }
+
+  async detachItems(itemIds: string[]): Promise<void> {
+    if (itemIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('planned_outfits')
+      .select('*')
+      .overlaps('item_ids', itemIds);
+
+    if (error) throw new Error(getErrorMessage(error));
+
+    const emptied: string[] = [];
+    for (const outfit of (data || []).map(toPlannedOutfitRecord)) {
+      const detached = withoutItems(outfit, itemIds);
+      if (!detached) continue;
+      if (detached.item_ids.length === 0) {
+        emptied.push(outfit.id);
+      } else {
+        await this.update(outfit.id, detached);
+      }
+    }
+    await this.remove(emptied);
+  }
+}
+
+const supabasePlannedOutfits = new SupabasePlannedOutfitRepository();
+
+export const supabaseRepositories: Repositories = {
+  wardrobe: new SupabaseWardrobeRepository(supabasePlannedOutfits),
+  profiles: new SupabaseProfileRepository(),
+  quiz: new SupabaseStyleQuizRepository(),
+  wearLogs: new SupabaseWearLogRepository(),
+  feedback: new SupabaseOutfitFeedbackRepository(),
+  plannedOutfits: supabasePlannedOutfits,
+};
@@ -0,0 +1,448 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { supabase } from '@/integrations/supabase/client';
+import { getErrorMessage } from '@/lib/errorUtils';
+import { parseWardrobeItem } from '@/lib/wardrobeSchema';
+import { StorageService, PlannedOutfit } from './storageService';
+import { SyncOutbox, SyncEntity, SyncCursor, OutboxEntry, SyncConflict } from './syncOutbox';
+import {
+  localRepositories,
+  toWardrobeRecord,
+  fromWardrobeRecord,
+  toProfileRecord,
+  fromProfileRecord,
+} from './localRepository';
+import { ProfileRecord } from './repositories';
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  conflictCount: number;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+type SyncListener = (status: SyncStatus) => void;
+
+/**
+ * How one synced table maps onto local storage. Records are exchanged in the
+ * Supabase row shape; `key` is the column that identifies a row on both sides.
+ */
+interface EntityAdapter {
+  key: 'id' | 'user_id';
+  getLocal(entityId: string): Promise<Record<string, any> | null>;
+  putLocal(record: Record<string, any>): Promise<void>;
+  // Apply a remote deletion; entities the app never deletes leave it out
+  deleteLocal?(entityId: string): Promise<void>;
+  // Columns that only exist locally and must never be sent
+  localOnly: string[];
+}
+
+const ADAPTERS: Record<SyncEntity, EntityAdapter> = {
+  wardrobe_items: {
+    key: 'id',
+    localOnly: [],
+    async getLocal(itemId) {
+      const item = await StorageService.getWardrobeItem(itemId);
+      return item ? toWardrobeRecord(item) : null;
+    },
+    async putLocal(record) {
+      await StorageService.putWardrobeItem(fromWardrobeRecord(parseWardrobeItem(record)));
+    },
+    async deleteLocal(itemId) {
+      await StorageService.deleteWardrobeItems([itemId]);
+    },
+  },
+  profiles: {
+    key: 'user_id',
+    // Local and remote profile ids are generated independently
+    localOnly: ['id'],
+    async getLocal(userId) {
+      const profile = await StorageService.getProfile(userId);
+      return profile ? toProfileRecord(profile) : null;
+    },
+    async putLocal(record) {
+      await StorageService.saveProfile(fromProfileRecord(record as ProfileRecord));
+    },
+  },
+  planned_outfits: {
+    key: 'id',
+    localOnly: [],
+    async getLocal(outfitId) {
+      return StorageService.getPlannedOutfit(outfitId);
+    },
+    async putLocal(record) {
+      await StorageService.putPlannedOutfit({ ...record, item_ids: record.item_ids || [] } as PlannedOutfit);
+    },
+    async deleteLocal(outfitId) {
+      await StorageService.dropPlannedOutfit(outfitId);
+    },
+  },
+};
+
+const SYNC_ENTITIES = Object.keys(ADAPTERS) as SyncEntity[];
+
+// Give bursts of local edits a moment to settle before pushing them
+const SYNC_DEBOUNCE_MS = 2000;
+
+// Columns the server stamps itself; see supabase/migrations
+const SERVER_COLUMNS = ['updated_at', 'client_updated_at'];
+
+// Server timestamps are taken when a transaction starts but become visible
+// when it commits, so each pull re-reads this far behind its cursor
+const PULL_OVERLAP_MS = 60 * 1000;
+
+const overlapCursor = (cursor: string): string =>
+  new Date(new Date(cursor).getTime() - PULL_OVERLAP_MS).toISOString();
+
+// When the remote copy was last edited, on the clock of the device that edited it
+const remoteEditedAt = (remote: Record<string, any>): string =>
+  remote.client_updated_at || remote.updated_at;
+
+const isSameValue = (a: any, b: any): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const omit = (record: Record<string, any>, keys: string[]): Record<string, any> => {
+  const result = { ...record };
+  keys.forEach(key => delete result[key]);
+  return result;
+};
+
+/**
+ * Offline-first sync between the local SQLite tables and Supabase.
+ *
+ * Local writes are queued in the outbox by the local repositories. Whenever
+ * NetInfo reports connectivity the engine replays the outbox in order, then
+ * pulls every remote row and deletion since the last cursor. The server
+ * stamps `updated_at` itself, so cursors and "did the remote move on" checks
+ * only ever compare server time. When both sides changed the same field, the
+ * later edit by its device's clock (`client_updated_at` on the server) wins
+ * and the clash is kept as a conflict the user can review and reverse.
+ */
+class SyncEngine {
+  private userId: string | null = null;
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private unsubscribeOutbox: (() => void) | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> | null = null;
+  private listeners = new Set<SyncListener>();
+  private status: SyncStatus = {
+    isOnline: false,
+    isSyncing: false,
+    pendingCount: 0,
+    conflictCount: 0,
+    lastSyncedAt: null,
+    lastError: null,
+  };
+
+  start(userId: string): void {
+    if (this.userId === userId) return;
+    this.stop();
+    this.userId = userId;
+
+    this.unsubscribeNetInfo = NetInfo.addEventListener((state: NetInfoState) => {
+      const isOnline = !!state.isConnected && state.isInternetReachable !== false;
+      const cameOnline = isOnline && !this.status.isOnline;
+      this.setStatus({ isOnline });
+      if (cameOnline) this.sync();
+    });
+
+    this.unsubscribeOutbox = SyncOutbox.subscribe(() => {
+      this.refreshCounts();
+      this.scheduleSync();
+    });
+
+    this.refreshCounts();
+  }
+
+  stop(): void {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeOutbox?.();
+    this.unsubscribeNetInfo = null;
+    this.unsubscribeOutbox = null;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+    this.userId = null;
+    this.setStatus({ isSyncing: false, pendingCount: 0, conflictCount: 0, lastError: null });
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Push pending changes and pull remote ones. Concurrent calls share the
+   * same run.
+   */
+  sync(): Promise<void> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    if (!this.userId) return [];
+    return SyncOutbox.getUnresolvedConflicts(this.userId);
+  }
+
+  /**
+   * Settle a conflict. Keeping the side that already won only dismisses it;
+   * keeping the other side writes that value locally as a fresh edit, which
+   * the next sync pushes.
+   */
+  async resolveConflict(conflictId: string, keep: 'local' | 'remote'): Promise<void> {
+    const conflict = await SyncOutbox.getConflict(conflictId);
+    if (!conflict) return;
+
+    if (keep !== conflict.winner) {
+      const value = keep === 'local' ? conflict.local_value : conflict.remote_value;
+
+      if (conflict.entity === 'wardrobe_items') {
+        await localRepositories.wardrobe.update(conflict.entity_id, { [conflict.field]: value });
+      } else if (conflict.entity === 'profiles') {
+        await localRepositories.profiles.upsert(conflict.entity_id, { [conflict.field]: value });
+      } else {
+        const outfit = await StorageService.getPlannedOutfit(conflict.entity_id);
+        if (outfit) {
+          await StorageService.savePlannedOutfit({ ...outfit, [conflict.field]: value });
+        }
+      }
+    }
+
+    await SyncOutbox.markConflictResolved(conflictId);
+    await this.refreshCounts();
+  }
+
+  private async run(): Promise<void> {
+    const userId = this.userId;
+    if (!userId || !this.status.isOnline) return;
+
+    this.setStatus({ isSyncing: true, lastError: null });
+    try {
+      await this.push(userId);
+      for (const entity of SYNC_ENTITIES) {
+        await this.pull(userId, entity);
+      }
+      await this.pullDeletions(userId);
+      this.setStatus({ lastSyncedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error syncing:', error);
+      this.setStatus({ lastError: getErrorMessage(error) });
+    } finally {
+      this.setStatus({ isSyncing: false });
+      await this.refreshCounts();
+    }
+  }
+
+  private async push(userId: string): Promise<void> {
+    const entries = await SyncOutbox.getPending(userId);
+
+    // Stop at the first failure so later edits never overtake earlier ones
+    for (const entry of entries) {
+      if (entry.operation === 'delete') {
+        const { error } = await supabase
+          .from(entry.entity)
+          .delete()
+          .eq(ADAPTERS[entry.entity].key, entry.entity_id);
+        if (error) throw new Error(getErrorMessage(error));
+        await SyncOutbox.removeRemoteVersion(entry.entity, entry.entity_id);
+      } else {
+        await this.pushUpsert(entry);
+      }
+      await SyncOutbox.remove(entry.id);
+    }
+  }
+
+  private async pushUpsert(entry: OutboxEntry): Promise<void> {
+    const adapter = ADAPTERS[entry.entity];
+
+    const { data: remote, error: fetchError } = await supabase
+      .from(entry.entity)
+      .select('*')
+      .eq(adapter.key, entry.entity_id)
+      .maybeSingle();
+    if (fetchError) throw new Error(getErrorMessage(fetchError));
+
+    let fields: Record<string, any> = entry.fields;
+    const remoteWins: Record<string, any> = {};
+
+    if (!remote) {
+      // Nothing to merge with: send the whole local record so partial
+      // updates to an unsynced row still create it
+      const local = await adapter.getLocal(entry.entity_id);
+      if (!local) return;
+      fields = omit(local, SERVER_COLUMNS);
+    } else if (remote.updated_at !== entry.base_updated_at) {
+      // The server moved on since this edit was made; settle field by field
+      fields = {};
+      for (const [field, localValue] of Object.entries(entry.fields)) {
+        if (isSameValue(localValue, remote[field])) continue;
+
+        const winner = entry.changed_at >= remoteEditedAt(remote) ? 'local' : 'remote';
+        if (winner === 'local') {
+          fields[field] = localValue;
+        } else {
+          remoteWins[field] = remote[field];
+        }
+
+        await SyncOutbox.recordConflict({
+          user_id: entry.user_id,
+          entity: entry.entity,
+          entity_id: entry.entity_id,
+          field,
+          local_value: localValue,
+          remote_value: remote[field],
+          local_changed_at: entry.changed_at,
+          remote_updated_at: remoteEditedAt(remote),
+          winner,
+        });
+      }
+    }
+
+    let remoteVersion: string | undefined = remote?.updated_at;
+    if (Object.keys(fields).length > 0) {
+      const { data: saved, error } = await supabase
+        .from(entry.entity)
+        .upsert(
+          {
+            ...omit(fields, [...adapter.localOnly, ...SERVER_COLUMNS]),
+            [adapter.key]: entry.entity_id,
+            user_id: entry.user_id,
+            client_updated_at: entry.changed_at,
+          },
+          { onConflict: adapter.key }
+        )
+        .select('updated_at')
+        .single();
+      if (error) throw new Error(getErrorMessage(error));
+      remoteVersion = saved.updated_at;
+    }
+
+    if (Object.keys(remoteWins).length > 0) {
+      const local = await adapter.getLocal(entry.entity_id);
+      if (local) {
+        await adapter.putLocal({ ...local, ...remoteWins });
+      }
+    }
+
+    // Later queued edits to this record were made on top of this one, so
+    // they are based on the version just written, not on a foreign change
+    if (remoteVersion) {
+      await SyncOutbox.setRemoteVersion(entry.entity, entry.entity_id, remoteVersion);
+      await SyncOutbox.rebasePending(entry.entity, entry.entity_id, remoteVersion);
+    }
+  }
+
+  private async pull(userId: string, entity: SyncEntity): Promise<void> {
+    const adapter = ADAPTERS[entity];
+    const cursor = await SyncOutbox.getCursor(userId, entity);
+
+    let query = supabase
+      .from(entity)
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: true });
+    if (cursor) query = query.gte('updated_at', overlapCursor(cursor));
+
+    const { data, error } = await query;
+    if (error) throw new Error(getErrorMessage(error));
+
+    let latest = cursor;
+    for (const remote of data || []) {
+      const entityId = remote[adapter.key];
+      latest = !latest || remote.updated_at > latest ? remote.updated_at : latest;
+
+      // Unpushed local edits are reconciled on the next push instead
+      if (await SyncOutbox.hasPending(entity, entityId)) continue;
+      // Already applied, by an earlier overlapping pull or by our own push
+      if ((await SyncOutbox.getRemoteVersion(entity, entityId)) === remote.updated_at) continue;
+
+      const local = await adapter.getLocal(entityId);
+      try {
+        await adapter.putLocal({ ...omit(remote, ['client_updated_at']), ...(local ? { id: local.id } : {}) });
+        await SyncOutbox.setRemoteVersion(entity, entityId, remote.updated_at);
+      } catch (error) {
+        // A row that can't be applied must not block the rest of the pull
+        // or hold the cursor back; it is read again when it next changes
+        console.warn(`Skipping remote ${entity} ${entityId}:`, getErrorMessage(error));
+      }
+    }
+
+    if (latest && latest !== cursor) {
+      await SyncOutbox.setCursor(userId, entity, latest);
+    }
+  }
+
+  /**
+   * Apply rows deleted on the server, which the server logs as tombstones
+   */
+  private async pullDeletions(userId: string): Promise<void> {
+    const cursorName: SyncCursor = 'sync_tombstones';
+    const cursor = await SyncOutbox.getCursor(userId, cursorName);
+
+    let query = supabase
+      .from('sync_tombstones')
+      .select('*')
+      .eq('user_id', userId)
+      .order('deleted_at', { ascending: true });
+    if (cursor) query = query.gte('deleted_at', overlapCursor(cursor));
+
+    const { data, error } = await query;
+    if (error) throw new Error(getErrorMessage(error));
+
+    let latest = cursor;
+    for (const tombstone of data || []) {
+      latest = !latest || tombstone.deleted_at > latest ? tombstone.deleted_at : latest;
+
+      const entity = tombstone.entity as SyncEntity;
+      const adapter = ADAPTERS[entity];
+      if (!adapter?.deleteLocal) continue;
+      // A local edit made since recreates the record when it is pushed
+      if (await SyncOutbox.hasPending(entity, tombstone.entity_id)) continue;
+
+      await adapter.deleteLocal(tombstone.entity_id);
+      await SyncOutbox.removeRemoteVersion(entity, tombstone.entity_id);
+    }
+
+    if (latest && latest !== cursor) {
+      await SyncOutbox.setCursor(userId, cursorName, latest);
+    }
+  }
+
+  private scheduleSync(): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.sync();
+    }, SYNC_DEBOUNCE_MS);
+  }
+
+  private async refreshCounts(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+
+    const [pendingCount, conflicts] = await Promise.all([
+      SyncOutbox.countPending(userId),
+      SyncOutbox.getUnresolvedConflicts(userId),
+    ]);
+    if (this.userId !== userId) return;
+    this.setStatus({ pendingCount, conflictCount: conflicts.length });
+  }
+
+  private setStatus(updates: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...updates };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
+
+export const syncEngine = new SyncEngine();
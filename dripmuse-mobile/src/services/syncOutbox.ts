@@ -0,0 +1,301 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { getDatabase, generateId, runWrite } from './database';
+
+export type SyncEntity = 'wardrobe_items' | 'profiles' | 'planned_outfits';
+
+export type SyncOperation = 'upsert' | 'delete';
+
+// What a pull cursor tracks: a synced table, or the remote deletions log
+export type SyncCursor = SyncEntity | 'sync_tombstones';
+
+/**
+ * A local mutation waiting to be replayed against Supabase. `fields` holds
+ * only the changed fields, in the shared repository shape. `base_updated_at`
+ * is the server's `updated_at` for the record when the change was made, so
+ * the engine can tell whether the remote copy moved on in the meantime;
+ * `changed_at` is this device's clock and only settles field conflicts.
+ */
+export interface OutboxEntry {
+  id: number;
+  user_id: string;
+  entity: SyncEntity;
+  entity_id: string;
+  operation: SyncOperation;
+  fields: Record<string, any>;
+  base_updated_at?: string;
+  changed_at: string;
+}
+
+export type NewOutboxEntry = Omit<OutboxEntry, 'id' | 'base_updated_at'>;
+
+export interface SyncConflict {
+  id: string;
+  user_id: string;
+  entity: SyncEntity;
+  entity_id: string;
+  field: string;
+  local_value: any;
+  remote_value: any;
+  local_changed_at: string;
+  remote_updated_at: string;
+  winner: 'local' | 'remote';
+  created_at: string;
+  resolved_at?: string;
+}
+
+interface OutboxRow {
+  id: number;
+  user_id: string;
+  entity: SyncEntity;
+  entity_id: string;
+  operation: SyncOperation;
+  fields: string | null;
+  base_updated_at: string | null;
+  changed_at: string;
+}
+
+interface ConflictRow {
+  id: string;
+  user_id: string;
+  entity: SyncEntity;
+  entity_id: string;
+  field: string;
+  local_value: string | null;
+  remote_value: string | null;
+  local_changed_at: string;
+  remote_updated_at: string;
+  winner: 'local' | 'remote';
+  created_at: string;
+  resolved_at: string | null;
+}
+
+const toOutboxEntry = (row: OutboxRow): OutboxEntry => ({
+  id: row.id,
+  user_id: row.user_id,
+  entity: row.entity,
+  entity_id: row.entity_id,
+  operation: row.operation,
+  fields: row.fields ? JSON.parse(row.fields) : {},
+  base_updated_at: row.base_updated_at ?? undefined,
+  changed_at: row.changed_at,
+});
+
+const toConflict = (row: ConflictRow): SyncConflict => ({
+  id: row.id,
+  user_id: row.user_id,
+  entity: row.entity,
+  entity_id: row.entity_id,
+  field: row.field,
+  local_value: row.local_value !== null ? JSON.parse(row.local_value) : null,
+  remote_value: row.remote_value !== null ? JSON.parse(row.remote_value) : null,
+  local_changed_at: row.local_changed_at,
+  remote_updated_at: row.remote_updated_at,
+  winner: row.winner,
+  created_at: row.created_at,
+  resolved_at: row.resolved_at ?? undefined,
+});
+
+const listeners = new Set<() => void>();
+
+const cursorKey = (userId: string, entity: SyncCursor): string => `sync_cursor:${userId}:${entity}`;
+
+export class SyncOutbox {
+  // Notified after every queued change, e.g. so the engine can schedule a push
+  static subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a mutation, based on the last version of the record seen from the
+   * server. Pass `db` when calling from inside a transaction so the outbox
+   * entry commits together with the change it describes.
+   */
+  static async record(entry: NewOutboxEntry, db?: SQLiteDatabase): Promise<void> {
+    try {
+      const write = async (connection: SQLiteDatabase) => {
+        const base = await connection.getFirstAsync<{ updated_at: string }>(
+          'SELECT updated_at FROM sync_remote_versions WHERE entity = ? AND entity_id = ?',
+          entry.entity,
+          entry.entity_id
+        );
+        await connection.runAsync(
+          `INSERT INTO sync_outbox (user_id, entity, entity_id, operation, fields, base_updated_at, changed_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          entry.user_id,
+          entry.entity,
+          entry.entity_id,
+          entry.operation,
+          JSON.stringify(entry.fields),
+          base?.updated_at ?? null,
+          entry.changed_at
+        );
+      };
+      await (db ? write(db) : runWrite(write));
+      listeners.forEach(listener => listener());
+    } catch (error) {
+      console.error('Error recording sync change:', error);
+      throw new Error('Failed to record sync change');
+    }
+  }
+
+  static async getPending(userId: string): Promise<OutboxEntry[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<OutboxRow>(
+        'SELECT * FROM sync_outbox WHERE user_id = ? ORDER BY id',
+        userId
+      );
+      return rows.map(toOutboxEntry);
+    } catch (error) {
+      console.error('Error getting pending sync changes:', error);
+      return [];
+    }
+  }
+
+  static async countPending(userId: string): Promise<number> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ count: number }>(
+        'SELECT COUNT(*) AS count FROM sync_outbox WHERE user_id = ?',
+        userId
+      );
+      return row?.count ?? 0;
+    } catch (error) {
+      console.error('Error counting pending sync changes:', error);
+      return 0;
+    }
+  }
+
+  static async hasPending(entity: SyncEntity, entityId: string): Promise<boolean> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ id: number }>(
+      'SELECT id FROM sync_outbox WHERE entity = ? AND entity_id = ? LIMIT 1',
+      entity,
+      entityId
+    );
+    return row !== null;
+  }
+
+  static async remove(entryId: number): Promise<void> {
+    await runWrite((db) => db.runAsync('DELETE FROM sync_outbox WHERE id = ?', entryId));
+  }
+
+  // Conflicts
+  static async recordConflict(conflict: Omit<SyncConflict, 'id' | 'created_at' | 'resolved_at'>): Promise<SyncConflict> {
+    const saved: SyncConflict = {
+      ...conflict,
+      id: generateId('conflict'),
+      created_at: new Date().toISOString(),
+    };
+
+    await runWrite((db) => db.runAsync(
+      `INSERT INTO sync_conflicts
+        (id, user_id, entity, entity_id, field, local_value, remote_value,
+         local_changed_at, remote_updated_at, winner, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      saved.id,
+      saved.user_id,
+      saved.entity,
+      saved.entity_id,
+      saved.field,
+      JSON.stringify(saved.local_value ?? null),
+      JSON.stringify(saved.remote_value ?? null),
+      saved.local_changed_at,
+      saved.remote_updated_at,
+      saved.winner,
+      saved.created_at
+    ));
+
+    return saved;
+  }
+
+  static async getUnresolvedConflicts(userId: string): Promise<SyncConflict[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<ConflictRow>(
+        'SELECT * FROM sync_conflicts WHERE user_id = ? AND resolved_at IS NULL ORDER BY created_at DESC',
+        userId
+      );
+      return rows.map(toConflict);
+    } catch (error) {
+      console.error('Error getting sync conflicts:', error);
+      return [];
+    }
+  }
+
+  static async getConflict(conflictId: string): Promise<SyncConflict | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<ConflictRow>('SELECT * FROM sync_conflicts WHERE id = ?', conflictId);
+    return row ? toConflict(row) : null;
+  }
+
+  static async markConflictResolved(conflictId: string): Promise<void> {
+    await runWrite((db) => db.runAsync(
+      'UPDATE sync_conflicts SET resolved_at = ? WHERE id = ?',
+      new Date().toISOString(),
+      conflictId
+    ));
+  }
+
+  // Server versions: the remote `updated_at` each local record was last synced at
+  static async getRemoteVersion(entity: SyncEntity, entityId: string): Promise<string | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ updated_at: string }>(
+      'SELECT updated_at FROM sync_remote_versions WHERE entity = ? AND entity_id = ?',
+      entity,
+      entityId
+    );
+    return row?.updated_at ?? null;
+  }
+
+  static async setRemoteVersion(entity: SyncEntity, entityId: string, updatedAt: string): Promise<void> {
+    await runWrite((db) => db.runAsync(
+      `INSERT INTO sync_remote_versions (entity, entity_id, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (entity, entity_id) DO UPDATE SET updated_at = excluded.updated_at`,
+      entity,
+      entityId,
+      updatedAt
+    ));
+  }
+
+  /**
+   * Move queued edits of a record onto a version this device wrote itself
+   */
+  static async rebasePending(entity: SyncEntity, entityId: string, updatedAt: string): Promise<void> {
+    await runWrite((db) => db.runAsync(
+      'UPDATE sync_outbox SET base_updated_at = ? WHERE entity = ? AND entity_id = ?',
+      updatedAt,
+      entity,
+      entityId
+    ));
+  }
+
+  static async removeRemoteVersion(entity: SyncEntity, entityId: string): Promise<void> {
+    await runWrite((db) => db.runAsync(
+      'DELETE FROM sync_remote_versions WHERE entity = ? AND entity_id = ?',
+      entity,
+      entityId
+    ));
+  }
+
+  // Pull cursors: the newest server timestamp already applied locally
+  static async getCursor(userId: string, entity: SyncCursor): Promise<string | null> {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ value: string }>(
+      'SELECT value FROM meta WHERE key = ?',
+      cursorKey(userId, entity)
+    );
+    return row?.value ?? null;
+  }
+
+  static async setCursor(userId: string, entity: SyncCursor, cursor: string): Promise<void> {
+    await runWrite((db) => db.runAsync(
+      'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+      cursorKey(userId, entity),
+      cursor
+    ));
+  }
+}
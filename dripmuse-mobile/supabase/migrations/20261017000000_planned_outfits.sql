@@ -0,0 +1,41 @@
+-- Outfits planned for a day (see SupabasePlannedOutfitRepository in
+-- src/services/supabaseRepository.ts)
+--
+-- Ids are made on the device (generateId in src/services/database.ts) and
+-- pushed as they are by sync, so they are text. Items deleted from the
+-- wardrobe after planning move from item_ids to missing_item_ids; details
+-- holds what the planner knew when it made the plan.
+
+create table if not exists public.planned_outfits (
+  id text primary key default gen_random_uuid()::text,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  date date not null,
+  occasion text,
+  notes text,
+  status text not null default 'planned' check (status in ('planned', 'worn', 'skipped')),
+  item_ids text[] not null default '{}',
+  missing_item_ids text[] not null default '{}',
+  details jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists planned_outfits_user_date on public.planned_outfits (user_id, date);
+
+alter table public.planned_outfits enable row level security;
+
+drop policy if exists "Users can read their own planned outfits" on public.planned_outfits;
+create policy "Users can read their own planned outfits" on public.planned_outfits
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can add their own planned outfits" on public.planned_outfits;
+create policy "Users can add their own planned outfits" on public.planned_outfits
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own planned outfits" on public.planned_outfits;
+create policy "Users can update their own planned outfits" on public.planned_outfits
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own planned outfits" on public.planned_outfits;
+create policy "Users can delete their own planned outfits" on public.planned_outfits
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,35 @@
+-- Wear tracking and cost per wear (see src/lib/wearAnalytics.ts)
+--
+-- One row per item worn on a day; logging a planned outfit as worn adds a
+-- row for each of its items. Logs go with the item when it is deleted and
+-- outlive the plan they came from.
+
+alter table public.wardrobe_items
+  add column if not exists purchase_price numeric,
+  add column if not exists purchase_date date;
+
+create table if not exists public.wear_logs (
+  id text primary key default gen_random_uuid()::text,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  item_id text not null references public.wardrobe_items (id) on delete cascade,
+  planned_outfit_id text references public.planned_outfits (id) on delete set null,
+  worn_on date not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists wear_logs_user_worn_on on public.wear_logs (user_id, worn_on);
+create index if not exists wear_logs_item_worn_on on public.wear_logs (item_id, worn_on);
+
+alter table public.wear_logs enable row level security;
+
+drop policy if exists "Users can read their own wear logs" on public.wear_logs;
+create policy "Users can read their own wear logs" on public.wear_logs
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can add their own wear logs" on public.wear_logs;
+create policy "Users can add their own wear logs" on public.wear_logs
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own wear logs" on public.wear_logs;
+create policy "Users can delete their own wear logs" on public.wear_logs
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,78 @@
+-- Offline sync (see src/services/syncEngine.ts)
+--
+-- The server stamps updated_at on every write, so the pull cursors other
+-- devices keep only ever compare server time: an edit replayed late still
+-- gets a newer updated_at than anything they have already pulled. The time
+-- the edit was made on the device is kept separately in client_updated_at
+-- and only used to settle field conflicts.
+--
+-- Deleted rows are logged in sync_tombstones so other devices can pull the
+-- deletion as well.
+
+create or replace function public.stamp_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+alter table public.wardrobe_items add column if not exists client_updated_at timestamptz;
+alter table public.profiles add column if not exists client_updated_at timestamptz;
+alter table public.planned_outfits add column if not exists client_updated_at timestamptz;
+
+drop trigger if exists stamp_updated_at on public.wardrobe_items;
+create trigger stamp_updated_at before insert or update on public.wardrobe_items
+  for each row execute function public.stamp_updated_at();
+
+drop trigger if exists stamp_updated_at on public.profiles;
+create trigger stamp_updated_at before insert or update on public.profiles
+  for each row execute function public.stamp_updated_at();
+
+drop trigger if exists stamp_updated_at on public.planned_outfits;
+create trigger stamp_updated_at before insert or update on public.planned_outfits
+  for each row execute function public.stamp_updated_at();
+
+create index if not exists wardrobe_items_user_updated_at on public.wardrobe_items (user_id, updated_at);
+create index if not exists profiles_user_updated_at on public.profiles (user_id, updated_at);
+create index if not exists planned_outfits_user_updated_at on public.planned_outfits (user_id, updated_at);
+
+create table if not exists public.sync_tombstones (
+  id bigserial primary key,
+  user_id uuid not null,
+  entity text not null,
+  entity_id text not null,
+  deleted_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists sync_tombstones_user_deleted_at on public.sync_tombstones (user_id, deleted_at);
+
+alter table public.sync_tombstones enable row level security;
+
+drop policy if exists "Users can read their own tombstones" on public.sync_tombstones;
+create policy "Users can read their own tombstones" on public.sync_tombstones
+  for select using (auth.uid() = user_id);
+
+-- The key column sync uses for the table is passed as the trigger argument
+create or replace function public.record_sync_tombstone()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.sync_tombstones (user_id, entity, entity_id)
+  values (old.user_id, tg_table_name, to_jsonb(old) ->> tg_argv[0]);
+  return old;
+end;
+$$;
+
+drop trigger if exists record_sync_tombstone on public.wardrobe_items;
+create trigger record_sync_tombstone after delete on public.wardrobe_items
+  for each row execute function public.record_sync_tombstone('id');
+
+drop trigger if exists record_sync_tombstone on public.planned_outfits;
+create trigger record_sync_tombstone after delete on public.planned_outfits
+  for each row execute function public.record_sync_tombstone('id');
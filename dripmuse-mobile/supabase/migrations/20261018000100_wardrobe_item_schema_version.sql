@@ -0,0 +1,5 @@
+-- Version of the wardrobe item schema (src/lib/wardrobeSchema.ts) each row
+-- was written with. Rows from before the column are version 0 and are
+-- upgraded and written back the first time the app reads them.
+
+alter table public.wardrobe_items add column if not exists schema_version integer not null default 0;
@@ -0,0 +1,14 @@
+-- Recommender feedback (see src/services/recommenderHistory.ts)
+--
+-- A user has one feedback per outfit; changing it replaces the earlier one,
+-- so the preference model does not learn from a like and a dislike of the
+-- same outfit. Where changes of mind already piled up, the latest is kept.
+
+delete from public.outfit_feedback older
+  using public.outfit_feedback newer
+  where older.user_id = newer.user_id
+    and older.outfit_id = newer.outfit_id
+    and (older.created_at, older.id) < (newer.created_at, newer.id);
+
+alter table public.outfit_feedback
+  add constraint outfit_feedback_user_outfit_key unique (user_id, outfit_id);